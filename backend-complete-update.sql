@@ -17,6 +17,8 @@ ALTER TABLE mood_entries ADD COLUMN IF NOT EXISTS emotion_icon TEXT;
 ALTER TABLE mood_entries ADD COLUMN IF NOT EXISTS context JSONB DEFAULT '{}';
 ALTER TABLE mood_entries ADD COLUMN IF NOT EXISTS is_ai_analyzed BOOLEAN DEFAULT FALSE;
 ALTER TABLE mood_entries ADD COLUMN IF NOT EXISTS ai_insights TEXT[];
+ALTER TABLE mood_entries ADD COLUMN IF NOT EXISTS privacy TEXT DEFAULT 'private';
+ALTER TABLE mood_entries ADD COLUMN IF NOT EXISTS key_version INTEGER;
 
 -- Fix wellness_sessions table - Add missing columns
 ALTER TABLE wellness_sessions ADD COLUMN IF NOT EXISTS metrics JSONB DEFAULT '{}';
@@ -283,6 +285,7 @@ ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS energy_level INTEGER;
 ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS stress_level INTEGER;
 ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS ai_recommendations JSONB DEFAULT '[]';
 ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS related_mood_entry UUID REFERENCES mood_entries(id);
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS key_version INTEGER;
 
 -- Create trigger for updated_at
 DROP TRIGGER IF EXISTS update_journal_entries_updated_at ON journal_entries;
@@ -310,6 +313,39 @@ ALTER TABLE mood_predictions ADD COLUMN IF NOT EXISTS recommendation TEXT;
 ALTER TABLE ml_model_states ADD COLUMN IF NOT EXISTS hyperparameters JSONB DEFAULT '{}';
 ALTER TABLE ml_model_states ADD COLUMN IF NOT EXISTS training_data_info JSONB DEFAULT '{}';
 ALTER TABLE ml_model_states ADD COLUMN IF NOT EXISTS performance_history JSONB DEFAULT '[]';
+ALTER TABLE ml_model_states ADD COLUMN IF NOT EXISTS weights JSONB;
+CREATE INDEX IF NOT EXISTS idx_ml_model_states_active ON ml_model_states(user_id, model_type) WHERE is_active;
+
+-- Chat Conversations Table
+CREATE TABLE IF NOT EXISTS chat_conversations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    title TEXT NOT NULL DEFAULT 'New conversation',
+    context JSONB DEFAULT '{}',
+    message_count INTEGER DEFAULT 0,
+    last_message_at TIMESTAMPTZ DEFAULT NOW(),
+    is_archived BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_user_id ON chat_conversations(user_id);
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_last_message_at ON chat_conversations(last_message_at);
+
+-- Chat Messages Table (content is encrypted client-side)
+CREATE TABLE IF NOT EXISTS chat_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    conversation_id UUID NOT NULL REFERENCES chat_conversations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+    content TEXT NOT NULL,
+    key_version INTEGER,
+    intent TEXT,
+    entities JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation_id ON chat_messages(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_created_at ON chat_messages(created_at);
 
 -- ============================================================================
 -- PART 5: NOTIFICATIONS TABLES (Complete Implementation)
@@ -352,7 +388,122 @@ ALTER TABLE daily_analytics ADD COLUMN IF NOT EXISTS ai_insights_count INTEGER D
 ALTER TABLE daily_analytics ADD COLUMN IF NOT EXISTS mood_predictions_accuracy DECIMAL(5,4);
 
 -- ============================================================================
--- PART 7: RLS POLICIES FOR NEW TABLES
+-- PART 7: ACCOUNT SECURITY TABLES
+-- ============================================================================
+
+-- Two-Factor Table (TOTP secret and hashed backup codes)
+CREATE TABLE IF NOT EXISTS user_two_factor (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    secret TEXT NOT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT FALSE,
+    backup_code_hashes TEXT[] NOT NULL DEFAULT '{}',
+    last_used_step BIGINT,
+    enabled_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_user_two_factor_updated_at ON user_two_factor;
+CREATE TRIGGER update_user_two_factor_updated_at
+    BEFORE UPDATE ON user_two_factor
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Passkey Table (WebAuthn credentials, one row per authenticator)
+CREATE TABLE IF NOT EXISTS user_passkeys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    credential_id TEXT NOT NULL UNIQUE,
+    public_key TEXT NOT NULL,
+    algorithm INTEGER NOT NULL,
+    sign_count BIGINT NOT NULL DEFAULT 0,
+    transports TEXT[] NOT NULL DEFAULT '{}',
+    nickname TEXT NOT NULL,
+    aaguid TEXT,
+    backed_up BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_passkeys_user_id ON user_passkeys(user_id);
+
+-- Device Session Table (one row per Supabase auth session / refresh token)
+CREATE TABLE IF NOT EXISTS user_sessions (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    device_id TEXT NOT NULL,
+    device_type TEXT NOT NULL DEFAULT 'desktop',
+    browser TEXT NOT NULL,
+    os TEXT NOT NULL,
+    user_agent TEXT,
+    location TEXT,
+    time_zone TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_activity_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+
+-- Data Subject Requests Table (GDPR/CCPA rights requests and their deadlines)
+CREATE TABLE IF NOT EXISTS data_subject_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('access', 'rectification', 'erasure', 'portability', 'restriction', 'objection')),
+    framework TEXT NOT NULL CHECK (framework IN ('gdpr', 'ccpa')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'rejected', 'cancelled')),
+    reason TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    due_at TIMESTAMPTZ NOT NULL,
+    completed_at TIMESTAMPTZ,
+    result JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_user_id ON data_subject_requests(user_id);
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_due ON data_subject_requests(status, due_at);
+
+-- Consent Ledger Table (append-only grants and withdrawals per policy version)
+CREATE TABLE IF NOT EXISTS consent_ledger (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    consent_type TEXT NOT NULL CHECK (consent_type IN ('essential', 'analytics', 'marketing', 'personalization', 'third_party', 'opt_out')),
+    granted BOOLEAN NOT NULL,
+    policy_version TEXT NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('cookie_banner', 'privacy_settings')),
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_consent_ledger_user_id ON consent_ledger(user_id, recorded_at);
+
+-- Data Transfer Log Table (every outbound data flow and its policy outcome)
+CREATE TABLE IF NOT EXISTS data_transfer_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    flow TEXT NOT NULL CHECK (flow IN ('ai_insights', 'ai_chat', 'ai_journal', 'wearable_sync')),
+    destination TEXT NOT NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN ('allowed', 'redacted', 'blocked')),
+    record_count INTEGER NOT NULL DEFAULT 0,
+    redacted_fields TEXT[] NOT NULL DEFAULT '{}',
+    missing_consents TEXT[] NOT NULL DEFAULT '{}',
+    transferred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_transfer_log_user_id ON data_transfer_log(user_id, transferred_at DESC);
+
+-- Data Erasure Audit Table (row counts only; outlives the erased account)
+CREATE TABLE IF NOT EXISTS data_erasure_audit (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    request_id UUID REFERENCES data_subject_requests(id) ON DELETE SET NULL,
+    tables JSONB NOT NULL,
+    total_rows INTEGER NOT NULL,
+    erased_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_erasure_audit_user_id ON data_erasure_audit(user_id);
+
+-- ============================================================================
+-- PART 8: RLS POLICIES FOR NEW TABLES
 -- ============================================================================
 
 -- Enable RLS on all new tables
@@ -368,6 +519,15 @@ ALTER TABLE ar_avatars ENABLE ROW LEVEL SECURITY;
 ALTER TABLE ar_environment_presets ENABLE ROW LEVEL SECURITY;
 ALTER TABLE ar_session_analytics ENABLE ROW LEVEL SECURITY;
 ALTER TABLE notification_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_two_factor ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_passkeys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_subject_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_erasure_audit ENABLE ROW LEVEL SECURITY;
+ALTER TABLE consent_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_transfer_log ENABLE ROW LEVEL SECURITY;
 
 -- AR Meditation Sessions Policies
 CREATE POLICY "Users can view own AR meditation sessions" ON ar_meditation_sessions
@@ -502,8 +662,94 @@ CREATE POLICY "Users can update own AR analytics" ON ar_session_analytics
 CREATE POLICY "Users can view notification templates" ON notification_templates
     FOR SELECT USING (is_active = TRUE);
 
+-- Chat Conversations Policies
+CREATE POLICY "Users can view own chat conversations" ON chat_conversations
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own chat conversations" ON chat_conversations
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own chat conversations" ON chat_conversations
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own chat conversations" ON chat_conversations
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Chat Messages Policies
+CREATE POLICY "Users can view own chat messages" ON chat_messages
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own chat messages" ON chat_messages
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own chat messages" ON chat_messages
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Two-Factor Policies
+CREATE POLICY "Users can view own two-factor settings" ON user_two_factor
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own two-factor settings" ON user_two_factor
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own two-factor settings" ON user_two_factor
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own two-factor settings" ON user_two_factor
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Passkey Policies
+CREATE POLICY "Users can view own passkeys" ON user_passkeys
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own passkeys" ON user_passkeys
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own passkeys" ON user_passkeys
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own passkeys" ON user_passkeys
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Device Session Policies (revocation goes through revoke_user_session)
+CREATE POLICY "Users can view own sessions" ON user_sessions
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own sessions" ON user_sessions
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own sessions" ON user_sessions
+    FOR UPDATE USING (auth.uid() = user_id);
+
+-- Data Request Policies (erasure and its audit row go through erase_user_data)
+CREATE POLICY "Users can view own data requests" ON data_subject_requests
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own data requests" ON data_subject_requests
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own data requests" ON data_subject_requests
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own erasure audit" ON data_erasure_audit
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Consent Ledger Policies (no update or delete: entries are append-only)
+CREATE POLICY "Users can view own consent ledger" ON consent_ledger
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can append to own consent ledger" ON consent_ledger
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Data Transfer Log Policies (append-only, like the consent ledger)
+CREATE POLICY "Users can view own data transfers" ON data_transfer_log
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can log own data transfers" ON data_transfer_log
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
 -- ============================================================================
--- PART 8: DATABASE FUNCTIONS
+-- PART 9: DATABASE FUNCTIONS
 -- ============================================================================
 
 -- Function to calculate AR meditation streak
@@ -654,8 +900,109 @@ CREATE TRIGGER trigger_journal_analytics
     AFTER INSERT ON journal_entries
     FOR EACH ROW EXECUTE FUNCTION update_daily_analytics();
 
+-- Revoke one of the caller's sessions. Deleting the auth.sessions row also
+-- deletes its refresh tokens, so the device cannot renew its access token.
+CREATE OR REPLACE FUNCTION revoke_user_session(target_session UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE user_sessions
+    SET revoked_at = NOW()
+    WHERE id = target_session AND user_id = auth.uid() AND revoked_at IS NULL;
+
+    DELETE FROM auth.sessions
+    WHERE id = target_session AND user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Revoke every session of the caller except the one making the request
+CREATE OR REPLACE FUNCTION revoke_other_user_sessions(current_session UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    revoked_count INTEGER;
+BEGIN
+    UPDATE user_sessions
+    SET revoked_at = NOW()
+    WHERE user_id = auth.uid() AND id <> current_session AND revoked_at IS NULL;
+    GET DIAGNOSTICS revoked_count = ROW_COUNT;
+
+    DELETE FROM auth.sessions
+    WHERE user_id = auth.uid() AND id <> current_session;
+
+    RETURN revoked_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Stream session changes so other devices see revocations immediately
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND tablename = 'user_sessions'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE user_sessions;
+    END IF;
+END;
+$$;
+
+-- Erase every row the caller owns, record how many went from each table and
+-- close the request, all in one transaction. Children come before parents;
+-- keep the list in sync with USER_DATA_TABLES in src/services/dataRights.ts.
+-- Tables that are not installed are skipped. The auth user goes last, which
+-- also removes credentials and sessions that reference it.
+CREATE OR REPLACE FUNCTION erase_user_data(request UUID)
+RETURNS data_erasure_audit AS $$
+DECLARE
+    uid UUID := auth.uid();
+    target RECORD;
+    affected INTEGER;
+    counts JSONB := '{}';
+    total INTEGER := 0;
+    audit data_erasure_audit;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    FOR target IN
+        SELECT * FROM (VALUES
+            ('mood_entries', 'user_id'), ('mood_predictions', 'user_id'), ('pattern_insights', 'user_id'),
+            ('daily_analytics', 'user_id'), ('weekly_reports', 'user_id'), ('ml_model_states', 'user_id'),
+            ('journal_entries', 'user_id'), ('wellness_sessions', 'user_id'), ('achievements', 'user_id'),
+            ('challenges', 'user_id'), ('streaks', 'user_id'), ('points_transactions', 'user_id'),
+            ('user_points', 'user_id'), ('notifications', 'user_id'), ('chat_messages', 'user_id'),
+            ('chat_conversations', 'user_id'), ('ar_yoga_pose_detections', 'user_id'), ('ar_yoga_sessions', 'user_id'),
+            ('ar_meditation_sessions', 'user_id'), ('ar_mood_visualizations', 'user_id'), ('ar_mood_journeys', 'user_id'),
+            ('ar_social_messages', 'user_id'), ('ar_social_participants', 'user_id'), ('ar_social_rooms', 'host_id'),
+            ('ar_avatars', 'user_id'), ('ar_environment_presets', 'user_id'), ('ar_session_analytics', 'user_id'),
+            ('user_sessions', 'user_id'), ('user_passkeys', 'user_id'), ('user_two_factor', 'user_id'),
+            ('consent_ledger', 'user_id'), ('data_transfer_log', 'user_id'), ('user_profiles', 'user_id')
+        ) AS t(table_name, owner_column)
+    LOOP
+        IF to_regclass(target.table_name) IS NOT NULL THEN
+            EXECUTE format('DELETE FROM %I WHERE %I = $1', target.table_name, target.owner_column) USING uid;
+            GET DIAGNOSTICS affected = ROW_COUNT;
+            counts := counts || jsonb_build_object(target.table_name, affected);
+            total := total + affected;
+        END IF;
+    END LOOP;
+
+    INSERT INTO data_erasure_audit (user_id, request_id, tables, total_rows)
+    VALUES (uid, request, counts, total)
+    RETURNING * INTO audit;
+
+    UPDATE data_subject_requests
+    SET status = 'completed', completed_at = audit.erased_at,
+        result = jsonb_build_object('tables', counts, 'total_rows', total)
+    WHERE id = request AND user_id = uid;
+
+    DELETE FROM auth.users WHERE id = uid;
+
+    RETURN audit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
 -- ============================================================================
--- PART 9: SEED DATA
+-- PART 10: SEED DATA
 -- ============================================================================
 
 -- Seed default AR environment presets
@@ -671,7 +1018,7 @@ INSERT INTO ar_environment_presets (preset_name, environment_type, time_of_day,
 ON CONFLICT DO NOTHING;
 
 -- ============================================================================
--- PART 10: VERIFICATION QUERIES
+-- PART 11: VERIFICATION QUERIES
 -- ============================================================================
 
 -- Verify all tables exist
@@ -7,6 +7,8 @@ import { MoodProvider } from './contexts/MoodContext';
 import { GamificationProvider } from './contexts/GamificationContext';
 import { AdaptiveProvider } from './contexts/AdaptiveUIContext';
 import { I18nProvider } from './contexts/I18nContext';
+import { SafetyResourcesDialog } from './components/SafetyResourcesDialog';
+import CookieConsent from './components/CookieConsent';
 import './App.css';
 
 // ============================================================================
@@ -263,6 +265,8 @@ function App() {
                 <AdaptiveProvider>
                   <Router>
                     <AppRoutes />
+                    <SafetyResourcesDialog />
+                    <CookieConsent />
                   </Router>
                 </AdaptiveProvider>
               </GamificationProvider>
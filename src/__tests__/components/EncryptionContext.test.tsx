@@ -0,0 +1,120 @@
+// ============================================================================
+// Component Tests: EncryptionContext
+// ============================================================================
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { IDBFactory } from 'fake-indexeddb';
+import { EncryptionProvider, useEncryption } from '@/contexts/EncryptionContext';
+import { loadKeyring } from '@/lib/keyStore';
+
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ user: { id: 'user-1' } }),
+}));
+
+/** A fresh provider over whatever keyring the current IndexedDB holds */
+const openDevice = () => renderHook(() => useEncryption(), { wrapper: EncryptionProvider });
+
+const newDevice = () => {
+  globalThis.indexedDB = new IDBFactory();
+};
+
+describe('EncryptionContext', () => {
+  beforeEach(newDevice);
+
+  it('should require keys to be created or imported before unlocking', async () => {
+    const { result } = openDevice();
+
+    await expect(result.current.unlock('passphrase-one')).rejects.toThrow('Import a key file or create new keys');
+    expect(await loadKeyring('user-1')).toBeNull();
+
+    await act(() => result.current.createKeyring('passphrase-one'));
+    expect(result.current.isUnlocked).toBe(true);
+    await expect(result.current.createKeyring('passphrase-two')).rejects.toThrow('already has encryption keys');
+  });
+
+  it('should unlock only with the right passphrase', async () => {
+    const { result } = openDevice();
+    await act(() => result.current.createKeyring('passphrase-one'));
+    const sealed = await result.current.encrypt('slept badly');
+
+    act(() => result.current.lock());
+    await expect(result.current.decrypt(sealed)).rejects.toThrow('Encryption is locked');
+
+    let ok = true;
+    await act(async () => {
+      ok = await result.current.unlock('passphrase-two');
+    });
+    expect(ok).toBe(false);
+    expect(result.current.isUnlocked).toBe(false);
+
+    await act(async () => {
+      ok = await result.current.unlock('passphrase-one');
+    });
+    expect(ok).toBe(true);
+    expect(await result.current.decrypt(sealed)).toBe('slept badly');
+  });
+
+  it('should keep retired keys readable after a rotation', async () => {
+    const { result } = openDevice();
+    await act(() => result.current.createKeyring('passphrase-one'));
+    const before = await result.current.encrypt('before rotation');
+
+    let rotated: Awaited<ReturnType<typeof result.current.rotateKey>> = [];
+    await act(async () => {
+      rotated = await result.current.rotateKey([before]);
+    });
+
+    expect(result.current.keyVersion).toBe(2);
+    expect(rotated[0]).toMatchObject({ id: before.id, keyVersion: 2 });
+    expect(await result.current.decrypt(before)).toBe('before rotation');
+    expect(await result.current.decrypt(rotated[0])).toBe('before rotation');
+  });
+
+  it('should move every key version to a new device with an exported file', async () => {
+    const first = openDevice();
+    await act(() => first.result.current.createKeyring('passphrase-one'));
+    const old = await first.result.current.encrypt('sealed under v1');
+    await act(() => first.result.current.generateKey());
+    const recent = await first.result.current.encrypt('sealed under v2');
+    const file = await first.result.current.exportKey('export-passphrase');
+    first.unmount();
+
+    newDevice();
+    const second = openDevice();
+    await expect(second.result.current.importKey(file, 'wrong-passphrase')).rejects.toThrow('Incorrect passphrase');
+
+    await act(() => second.result.current.importKey(file, 'export-passphrase'));
+    expect(second.result.current.keyVersion).toBe(2);
+    expect(await second.result.current.decrypt(old)).toBe('sealed under v1');
+    expect(await second.result.current.decrypt(recent)).toBe('sealed under v2');
+  });
+
+  it('should refuse to replace a locked keyring and merge once unlocked', async () => {
+    const other = openDevice();
+    await act(() => other.result.current.createKeyring('other-passphrase'));
+    const fromOther = await other.result.current.encrypt('written elsewhere');
+    const file = await other.result.current.exportKey('export-passphrase');
+    other.unmount();
+
+    newDevice();
+    const { result } = openDevice();
+    await act(() => result.current.createKeyring('local-passphrase'));
+    const local = await result.current.encrypt('written here');
+    act(() => result.current.lock());
+
+    await expect(result.current.importKey(file, 'export-passphrase')).rejects.toThrow('Unlock this device first');
+    expect((await loadKeyring('user-1'))?.keys).toHaveLength(1);
+
+    await act(async () => {
+      await result.current.unlock('local-passphrase');
+    });
+    await act(() => result.current.importKey(file, 'export-passphrase'));
+
+    // Both devices called their first key version 1; the imported one moves up
+    expect((await loadKeyring('user-1'))?.keys.map((key) => key.version)).toEqual([1, 2]);
+    expect(result.current.keyVersion).toBe(2);
+    expect(await result.current.decrypt(local)).toBe('written here');
+    expect(await result.current.decrypt(fromOther)).toBe('written elsewhere');
+  });
+});
@@ -0,0 +1,87 @@
+// ============================================================================
+// Component Tests: MoodContext Sync
+// ============================================================================
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { MoodProvider, useMood } from '@/contexts/MoodContext';
+import type { InMemoryMoodRemote } from '@/services/moodSync';
+
+const auth = vi.hoisted(() => ({ user: null as { id: string } | null }));
+/** One mood_entries table per account, as RLS would show it */
+const remotes = vi.hoisted(() => new Map<string, InMemoryMoodRemote>());
+
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ user: auth.user }),
+}));
+
+vi.mock('@/lib/supabase', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/supabase')>()),
+  isSupabaseConfigured: () => true,
+}));
+
+vi.mock('@/services/moodSync', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/services/moodSync')>();
+  return {
+    ...actual,
+    SupabaseMoodRemote: function SupabaseMoodRemote(userId: string) {
+      if (!remotes.has(userId)) remotes.set(userId, new actual.InMemoryMoodRemote());
+      return remotes.get(userId);
+    },
+  };
+});
+
+const remoteFor = (userId: string) => {
+  if (!remotes.has(userId)) throw new Error(`No remote for ${userId}`);
+  return remotes.get(userId)!;
+};
+
+const signIn = (id: string | null) => {
+  auth.user = id ? { id } : null;
+};
+
+describe('MoodProvider sync', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    remotes.clear();
+    signIn(null);
+  });
+
+  it('should wait for sign-in before reconciling', async () => {
+    const { result, rerender } = renderHook(() => useMood(), { wrapper: MoodProvider });
+
+    expect(result.current.syncEnabled).toBe(false);
+    expect(remotes.size).toBe(0);
+
+    signIn('user-a');
+    rerender();
+
+    await waitFor(() => expect(result.current.syncStatus.state).toBe('idle'));
+    expect(result.current.syncEnabled).toBe(true);
+    expect(remotes.has('user-a')).toBe(true);
+  });
+
+  it('should not push entries queued by one account under the next', async () => {
+    signIn('user-a');
+    const { result, rerender } = renderHook(() => useMood(), { wrapper: MoodProvider });
+    await waitFor(() => expect(result.current.syncStatus.state).toBe('idle'));
+
+    // Queued while offline, so it is still in the outbox at sign-out
+    remoteFor('user-a').online = false;
+    act(() => result.current.addEntry({ emotion: 'sad', intensity: 4, note: 'private to A', privacy: 'private' }));
+    await waitFor(() => expect(result.current.syncStatus.state).toBe('error'));
+
+    signIn(null);
+    rerender();
+    expect(result.current.entries).toEqual([]);
+    expect(localStorage.getItem('moodmash_sync_outbox_user-a')).toBeNull();
+
+    signIn('user-b');
+    rerender();
+    await waitFor(() => expect(result.current.syncStatus.state).toBe('idle'));
+
+    expect(result.current.entries).toEqual([]);
+    expect(remoteFor('user-b').rows.size).toBe(0);
+    expect(JSON.parse(localStorage.getItem('moodmash_entries_user-a')!)).toHaveLength(1);
+  });
+});
@@ -7,6 +7,10 @@ import { render, screen, fireEvent } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { MoodProvider } from '@/contexts/MoodContext';
 
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ user: null }),
+}));
+
 // Mock component for testing
 const MockMoodSelector = ({ onSelect }: { onSelect?: (mood: string) => void }) => {
   const moods = [
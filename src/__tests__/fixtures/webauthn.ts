@@ -0,0 +1,100 @@
+// ============================================================================
+// Recorded WebAuthn Ceremonies
+// Captured from software authenticators for rpId "localhost". The private
+// keys were discarded, so these can only be replayed, not re-signed.
+// ============================================================================
+
+import type { AuthenticationCredentialJSON, RegistrationCredentialJSON } from '@/lib/webauthn';
+
+export interface RecordedCredential {
+  /** base64url COSE_Key the registration should yield */
+  publicKey: string;
+  registration: { challenge: string; response: RegistrationCredentialJSON };
+  /** In signing order */
+  assertions: Array<{ challenge: string; response: AuthenticationCredentialJSON }>;
+}
+
+export const RP_ID = 'localhost';
+export const ORIGIN = 'http://localhost:5173';
+
+/** Synced platform passkey: ES256, "none" attestation, backed up, no signature counter */
+export const PLATFORM_PASSKEY: RecordedCredential = {
+  publicKey: 'pQECAyYgASFYIBW9dnwXgOf11D2Z0q5n7x-Oq5LHRuJ5twgqjLpjaD-xIlgglAuacETVp2t0Cnkubo4NWRdZAjT4R0Yx9D3gTuT7Vr4',
+  registration: {
+    challenge: 'QzX6ulQ24OxMwmNbIWc7QGDV4-Z69SIPOyOMcFy9MYk',
+    response: {
+      id: 'D5W7Yt11tk5ATcnj_VsJBg',
+      rawId: 'D5W7Yt11tk5ATcnj_VsJBg',
+      type: 'public-key',
+      response: {
+        clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiUXpYNnVsUTI0T3hNd21OYklXYzdRR0RWNC1aNjlTSVBPeU9NY0Z5OU1ZayIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6NTE3MyIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+        attestationObject: 'o2NmbXRkbm9uZWdhdHRTdG10oGhhdXRoRGF0YViUSZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2NdAAAAAAAAAAAAAAAAAAAAAAAAAAAAEA-Vu2LddbZOQE3J4_1bCQalAQIDJiABIVggFb12fBeA5_XUPZnSrmfvH46rksdG4nm3CCqMumNoP7EiWCCUC5pwRNWna3QKeS5ujg1ZF1kCNPhHRjH0PeBO5PtWvg',
+        transports: ['internal', 'hybrid'],
+      },
+    },
+  },
+  assertions: [
+    {
+      challenge: 'zhcT4AUCpt-lpzFShicPOEN5FD5QRnYcNFwCTxaxNzg',
+      response: {
+        id: 'D5W7Yt11tk5ATcnj_VsJBg',
+        rawId: 'D5W7Yt11tk5ATcnj_VsJBg',
+        type: 'public-key',
+        response: {
+          clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiemhjVDRBVUNwdC1scHpGU2hpY1BPRU41RkQ1UVJuWWNORndDVHhheE56ZyIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6NTE3MyIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+          authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MdAAAAAA',
+          signature: 'MEQCIC-yYmT2SgGGLNp-9eaokx6euGkfoDwRsaxe945DKmyHAiAbTrBtendubMQsYZeNAwccmcPw38aw24xoGsUlSOkr1w',
+          userHandle: 'dXNlci1kZW1vLTAwMQ',
+        },
+      },
+    },
+  ],
+};
+
+/** Roaming security key: RS256, self-signed "packed" attestation, counter 5, 6, 7 */
+export const SECURITY_KEY: RecordedCredential = {
+  publicKey: 'pAEDAzkBACBZAQCJyhNLnkv1Mm_BQs7A8j549IWZHlNQvfBvQz0toWMGLLnmXlSWmNc_LzzHmyAihqXV8LIVGzjkrajgyt7duqic23F2sbZ88D6T9CNEL7moJrGt8_bAbHD5LlLFjpbf3bDf3osW8ylMsGvMrq-8Wpzc9mHNonuW2fZL1evkxrd-9DNrhvo1a1Cis-j1V2cR8n2CxkENLqc9WFDakq4mmDitfGsQuEnyPrumeawEzJCWtoKw1xYZbw8TDL86MXWy4fDL6aqhqEK8ddNnU9qCFOIVLHTC2ieIWL9Hc0M7tkzbJa1ve_oA9HLVnQK-C7yUvmi9RklKfiC6CdrFJ2N62EqtIUMBAAE',
+  registration: {
+    challenge: 'JnSSCiaf4P7O24xUeqRYd_fVKqye4w51-zg7xS2GLwM',
+    response: {
+      id: 'hGA3ERhq1bUUmN72PX13SjwSDirSth_XXL4QriMNeSfgX01NG5yPdTX1dIcw5DnJoJRqtrl9wQ2L4v_FOlLnHw',
+      rawId: 'hGA3ERhq1bUUmN72PX13SjwSDirSth_XXL4QriMNeSfgX01NG5yPdTX1dIcw5DnJoJRqtrl9wQ2L4v_FOlLnHw',
+      type: 'public-key',
+      response: {
+        clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uY3JlYXRlIiwiY2hhbGxlbmdlIjoiSm5TU0NpYWY0UDdPMjR4VWVxUllkX2ZWS3F5ZTR3NTEtemc3eFMyR0x3TSIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6NTE3MyIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+        attestationObject: 'o2NmbXRmcGFja2VkZ2F0dFN0bXSiY2FsZzkBAGNzaWdZAQAmZ_sU7w6zObzhGygtT53fP9uY2Dm4VdXHWD6_2036bQaeZC8XdMY67JKKT6o87zfDA435MJHSaWp0N1NpjeONyVjyMaQ_brG3L4zpQemO2Caj-GAdP0Rns53F-1YoQlFGabZV0A8UM7m-1mliU_5qxnl55CaQrGlLO_K28OVb1NwHgZY73V2dWEBu5TORZH9owOrtMB1RP2fHJXDFlC5wVcbLghWKjspjJ8kM1NDyDJ-RfbRwGRDmgi7WMsNEKQkZs6TDhNKFsKUo0QZbf8KdS7mTUVSsswWWb5gDdBNdisydJfauLBImKfRrvTWjmOc6KrDMdu-v9-pkdOf2Hi5XaGF1dGhEYXRhWQGHSZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2NFAAAABfv8MAcVTk7MjAtuAgVX170AQIRgNxEYatW1FJje9j19d0o8Eg4q0rYf11y-EK4jDXkn4F9NTRucj3U19XSHMOQ5yaCUara5fcENi-L_xTpS5x-kAQMDOQEAIFkBAInKE0ueS_Uyb8FCzsDyPnj0hZkeU1C98G9DPS2hYwYsueZeVJaY1z8vPMebICKGpdXwshUbOOStqODK3t26qJzbcXaxtnzwPpP0I0Qvuagmsa3z9sBscPkuUsWOlt_dsN_eixbzKUywa8yur7xanNz2Yc2ie5bZ9kvV6-TGt370M2uG-jVrUKKz6PVXZxHyfYLGQQ0upz1YUNqSriaYOK18axC4SfI-u6Z5rATMkJa2grDXFhlvDxMMvzoxdbLh8MvpqqGoQrx102dT2oIU4hUsdMLaJ4hYv0dzQzu2TNslrW97-gD0ctWdAr4LvJS-aL1GSUp-ILoJ2sUnY3rYSq0hQwEAAQ',
+        transports: ['internal', 'hybrid'],
+      },
+    },
+  },
+  assertions: [
+    {
+      challenge: 'PZnhGNgIzfnovcGmHhtAg2NxJEvfPX4plg-8j1NzObw',
+      response: {
+        id: 'hGA3ERhq1bUUmN72PX13SjwSDirSth_XXL4QriMNeSfgX01NG5yPdTX1dIcw5DnJoJRqtrl9wQ2L4v_FOlLnHw',
+        rawId: 'hGA3ERhq1bUUmN72PX13SjwSDirSth_XXL4QriMNeSfgX01NG5yPdTX1dIcw5DnJoJRqtrl9wQ2L4v_FOlLnHw',
+        type: 'public-key',
+        response: {
+          clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiUFpuaEdOZ0l6Zm5vdmNHbUhodEFnMk54SkV2ZlBYNHBsZy04ajFOek9idyIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6NTE3MyIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+          authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MFAAAABg',
+          signature: 'fBjjAZ1R1dijX-atgvEgG_iNsyHl8jhbn3iaiz5-R3hGFkEpc4ANgFiwLoBZjCPeO30YU6k6UJl8hizlQr-r7CtE42DFAh61eeuZeo7SEjDIPsYNcThLz-dVL_P55Rx_d_Cum8n3m9FJiTMLb6BR3hK2SUcBOgPwzT6JCuNN28Brc-KIc_KVsoAKYIiZaAaww_R_D6nLUEW0zcn7mtHLrI-Uxuwyqqx8qGyjiI4ySnnQTNoG2v6a13oKFadxfuJXZLCSNYfwUEvkKXLOUofA5WiGcVDp_77dKjhOuyojLX1i0BiEXkzsArypz9lr_RD3CmsU7LdvjWk_wX2ettQisQ',
+          userHandle: 'dXNlci1kZW1vLTAwMQ',
+        },
+      },
+    },
+    {
+      challenge: 'IijMfnfk4LMbmideS3pAvSuDJ3rDvL8laANhigk8cU0',
+      response: {
+        id: 'hGA3ERhq1bUUmN72PX13SjwSDirSth_XXL4QriMNeSfgX01NG5yPdTX1dIcw5DnJoJRqtrl9wQ2L4v_FOlLnHw',
+        rawId: 'hGA3ERhq1bUUmN72PX13SjwSDirSth_XXL4QriMNeSfgX01NG5yPdTX1dIcw5DnJoJRqtrl9wQ2L4v_FOlLnHw',
+        type: 'public-key',
+        response: {
+          clientDataJSON: 'eyJ0eXBlIjoid2ViYXV0aG4uZ2V0IiwiY2hhbGxlbmdlIjoiSWlqTWZuZms0TE1ibWlkZVMzcEF2U3VESjNyRHZMOGxhQU5oaWdrOGNVMCIsIm9yaWdpbiI6Imh0dHA6Ly9sb2NhbGhvc3Q6NTE3MyIsImNyb3NzT3JpZ2luIjpmYWxzZX0',
+          authenticatorData: 'SZYN5YgOjGh0NBcPZHZgW4_krrmihjLHmVzzuoMdl2MFAAAABw',
+          signature: 'C2LkV660oMYM_LtcANUl_9h8dCaFhAoEbjDGZLj4pUpvQajwqGlAGKUTRbQWLVnwHvNMImE01lXkE6_OHaVPZCEZxNtUFb46CET5Smd2-1GC4_CQyrNQtmxc1DfPaoxRm6kDhaCDbiTRiquVdJMIcUk18Q-4w0trNCtBAtAP7fC4ATQ74RRwqhdWXjDUPHr7S_gqxNqdbQJu8vQ26tvfmTxiHWeZZii9tygFWMAAyvmtPAYW-M2D9WbSHfO8DVvvGI-iLs1tjQWoHQY8UisOVFM6oQlImvFqXkkBFJkzBaTLo7GQnsRoTcPo1RW_hAypKKLkQxYW2AldUe2b2U1knw',
+          userHandle: 'dXNlci1kZW1vLTAwMQ',
+        },
+      },
+    },
+  ],
+};
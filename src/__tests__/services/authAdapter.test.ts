@@ -0,0 +1,270 @@
+// ============================================================================
+// Unit Tests: Auth Adapters and AuthProvider
+// ============================================================================
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createElement } from 'react';
+import type { ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import type { Session as SupabaseSession, User as SupabaseUser } from '@supabase/supabase-js';
+import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import { DEMO_USER, MockAuthAdapter, SupabaseAuthAdapter, mapAuthError, toAppSession, toAppUser } from '@/services/authAdapter';
+import { AUTH_ERRORS } from '@/services/authService';
+import { LocalTwoFactorStore, TwoFactorService } from '@/services/twoFactor';
+import { BreachedPasswordService, breachedPasswordService, sha1Hex } from '@/services/breachedPasswords';
+import { generateTotp } from '@/lib/totp';
+
+/** Signed-out Supabase client; only password updates are observed */
+const supabaseAuth = vi.hoisted(() => ({
+  getSession: async () => ({ data: { session: null }, error: null }),
+  onAuthStateChange: () => ({ data: { subscription: { unsubscribe: () => undefined } } }),
+  updateUser: vi.fn(async () => ({ data: { user: { id: 'user-1' } }, error: null })),
+}));
+
+vi.mock('@/lib/supabase', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/supabase')>()),
+  getSupabaseClient: () => ({ auth: supabaseAuth }),
+  getCurrentSession: () => supabaseAuth.getSession().then(({ data }) => data.session),
+}));
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+const createAdapter = (clock: () => Date = () => now) => new MockAuthAdapter({ storage: localStorage, now: clock });
+
+const supabaseUser = {
+  id: 'user-1',
+  email: 'sam@example.com',
+  email_confirmed_at: '2026-01-02T00:00:00Z',
+  created_at: '2026-01-01T00:00:00Z',
+  last_sign_in_at: '2026-03-10T11:00:00Z',
+  user_metadata: { full_name: 'Sam Rivera', passkey_enabled: true },
+  app_metadata: {},
+  aud: 'authenticated',
+  factors: [{ id: 'f1', status: 'verified', factor_type: 'totp' }],
+} as unknown as SupabaseUser;
+
+describe('mapAuthError', () => {
+  it('should map authService codes onto AuthContext errors', () => {
+    expect(mapAuthError(AUTH_ERRORS.INVALID_CREDENTIALS)).toBe('invalid_password');
+    expect(mapAuthError(AUTH_ERRORS.EMAIL_NOT_CONFIRMED)).toBe('user_not_verified');
+    expect(mapAuthError(AUTH_ERRORS.EMAIL_TAKEN)).toBe('email_already_exists');
+    expect(mapAuthError(AUTH_ERRORS.RATE_LIMITED)).toBe('rate_limit_exceeded');
+    expect(mapAuthError(AUTH_ERRORS.INVALID_TOKEN)).toBe('invalid_magic_link');
+    expect(mapAuthError(AUTH_ERRORS.PASSWORD_BREACHED)).toBe('password_breached');
+    expect(mapAuthError(AUTH_ERRORS.ACCOUNT_LOCKED)).toBe('account_locked');
+    expect(mapAuthError('NO_UPDATES')).toBe('unknown_error');
+    expect(mapAuthError(undefined)).toBe('unknown_error');
+  });
+});
+
+describe('Supabase mapping', () => {
+  it('should convert Supabase users and sessions to the app shape', () => {
+    const claims = btoa(JSON.stringify({ session_id: 'sess-42', iat: now.getTime() / 1000 }));
+    const session = {
+      access_token: `header.${claims}.signature`,
+      expires_at: now.getTime() / 1000 + 3600,
+      expires_in: 3600,
+      user: supabaseUser,
+    } as unknown as SupabaseSession;
+
+    expect(toAppUser(supabaseUser)).toMatchObject({
+      id: 'user-1',
+      name: 'Sam Rivera',
+      emailVerified: true,
+      twoFactorEnabled: true,
+      passkeyEnabled: true,
+      biometricEnabled: false,
+      lastLoginAt: new Date('2026-03-10T11:00:00Z'),
+    });
+    expect(toAppSession(session)).toMatchObject({
+      id: 'sess-42',
+      userId: 'user-1',
+      expiresAt: new Date(now.getTime() + 3600 * 1000),
+      lastActivityAt: now,
+    });
+  });
+});
+
+describe('MockAuthAdapter', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should check credentials and persist the signed-in session', async () => {
+    const adapter = createAdapter();
+    const listener = vi.fn();
+    adapter.onAuthStateChange(listener);
+
+    expect(await adapter.signIn('nobody@example.com', 'x')).toEqual({ success: false, error: 'user_not_found' });
+    expect(await adapter.signIn(DEMO_USER.email, 'wrong')).toEqual({ success: false, error: 'invalid_password' });
+
+    const result = await adapter.signIn(DEMO_USER.email, DEMO_USER.password);
+    expect(result.snapshot.user).not.toHaveProperty('password');
+    expect(listener).toHaveBeenCalledWith('SIGNED_IN', result.snapshot);
+
+    const restored = await createAdapter().getSession();
+    expect(restored).toEqual(result.snapshot);
+    expect(await createAdapter(() => new Date('2026-06-01')).getSession()).toBeNull();
+  });
+
+  it('should keep new accounts out until their email is verified', async () => {
+    const adapter = createAdapter();
+
+    expect(await adapter.signUp('new@example.com', 'short', 'New')).toEqual({ success: false, error: 'invalid_password' });
+    expect(await adapter.signUp('new@example.com', 'Str0ng!pass', 'New')).toEqual({ success: true });
+    expect(await adapter.signUp('new@example.com', 'Str0ng!pass', 'New')).toMatchObject({ error: 'email_already_exists' });
+    expect(await adapter.signIn('new@example.com', 'Str0ng!pass')).toMatchObject({ error: 'user_not_verified' });
+  });
+
+  it('should sign in once per magic link', async () => {
+    const adapter = createAdapter();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    await adapter.sendMagicLink(DEMO_USER.email);
+    const token = adapter.sentLinks.get(DEMO_USER.email);
+
+    expect((await adapter.verifyMagicLink(token)).snapshot.user.id).toBe(DEMO_USER.id);
+    expect(await adapter.verifyMagicLink(token)).toEqual({ success: false, error: 'invalid_magic_link' });
+  });
+
+  it('should verify new emails and reset passwords with the tokens it sent', async () => {
+    const adapter = createAdapter();
+    await adapter.signUp('new@example.com', 'Str0ng!pass', 'New');
+
+    expect(await adapter.verifyEmail('not-a-token')).toEqual({ success: false, error: 'unknown_error' });
+    expect((await adapter.verifyEmail(adapter.sentVerifications.get('new@example.com'))).snapshot.user).toMatchObject({
+      email: 'new@example.com',
+      emailVerified: true,
+    });
+
+    expect(await adapter.sendPasswordReset('nobody@example.com')).toEqual({ success: true });
+    expect(adapter.sentResets.has('nobody@example.com')).toBe(false);
+
+    await adapter.sendPasswordReset(DEMO_USER.email);
+    const token = adapter.sentResets.get(DEMO_USER.email);
+    expect(await adapter.updatePassword('N3w!passphrase', token)).toEqual({ success: true });
+    expect(await adapter.updatePassword('An0ther!passphrase', token)).toEqual({ success: false, error: 'session_expired' });
+    expect(await adapter.signIn(DEMO_USER.email, 'N3w!passphrase')).toMatchObject({ success: true });
+  });
+});
+
+describe('AuthProvider', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  /** No password is in the breach corpus unless a test lists it */
+  const breachCorpus = (...breached: string[]) =>
+    new BreachedPasswordService({
+      fetchImpl: async (input) => {
+        const prefix = String(input).slice(-5);
+        const lines = await Promise.all(breached.map(async (password) => (await sha1Hex(password)).toUpperCase()));
+        return new Response(lines.filter((hash) => hash.startsWith(prefix)).map((hash) => `${hash.slice(5)}:1`).join('\r\n'));
+      },
+    });
+
+  const renderAuth = (
+    adapter: MockAuthAdapter,
+    twoFactor = new TwoFactorService({ store: new LocalTwoFactorStore(localStorage) }),
+    breachedPasswords = breachCorpus()
+  ) =>
+    renderHook(() => useAuth(), {
+      wrapper: ({ children }: { children: ReactNode }) => createElement(AuthProvider, { adapter, twoFactor, breachedPasswords, children }),
+    });
+
+  it('should surface mapped errors and sign in through the adapter', async () => {
+    const { result } = renderAuth(createAdapter());
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.isAuthenticated).toBe(false);
+
+    await act(() => result.current.loginWithEmail(DEMO_USER.email, 'wrong'));
+    expect(result.current.error).toBe('invalid_password');
+
+    await act(() => result.current.loginWithEmail(DEMO_USER.email, DEMO_USER.password));
+    expect(result.current).toMatchObject({ isAuthenticated: true, error: null, user: { id: DEMO_USER.id } });
+  });
+
+  it('should restore the stored session and follow adapter sign-outs', async () => {
+    const adapter = createAdapter();
+    await adapter.signIn(DEMO_USER.email, DEMO_USER.password);
+
+    const { result } = renderAuth(adapter);
+    await waitFor(() => expect(result.current.isAuthenticated).toBe(true));
+
+    await act(() => adapter.signOut());
+    expect(result.current).toMatchObject({ isAuthenticated: false, user: null, session: null });
+  });
+
+  it('should hold sign-in at the second factor until a valid code is entered', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const twoFactor = new TwoFactorService({ store: new LocalTwoFactorStore(localStorage) });
+    const { secret } = await twoFactor.beginSetup(DEMO_USER.id, DEMO_USER.email);
+    await twoFactor.confirmSetup(DEMO_USER.id, await generateTotp(secret, Date.now() - 30_000));
+
+    const adapter = createAdapter(() => new Date());
+    const { result, unmount } = renderAuth(adapter, twoFactor);
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(() => result.current.loginWithEmail(DEMO_USER.email, DEMO_USER.password));
+    expect(result.current).toMatchObject({ isAuthenticated: false, requiresTwoFactor: true, user: { twoFactorEnabled: true } });
+
+    await act(() => expect(result.current.verify2FA('000000')).rejects.toThrow('incorrect_2fa_code'));
+    expect(result.current.error).toBe('incorrect_2fa_code');
+
+    await act(async () => result.current.verify2FA(await generateTotp(secret)));
+    expect(result.current).toMatchObject({ isAuthenticated: true, requiresTwoFactor: false, error: null });
+
+    // The verified session survives a reload without asking again
+    unmount();
+    const reloaded = renderAuth(adapter, twoFactor);
+    await waitFor(() => expect(reloaded.result.current.isAuthenticated).toBe(true));
+  });
+
+  it('should reset passwords and verify emails through the adapter without logging tokens', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const alert = vi.spyOn(window, 'alert').mockImplementation(() => undefined);
+    const adapter = createAdapter(() => new Date());
+    const { result } = renderAuth(adapter);
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(() => result.current.requestPasswordReset(DEMO_USER.email));
+    const resetToken = adapter.sentResets.get(DEMO_USER.email);
+    await act(() => result.current.resetPassword(resetToken, 'N3w!passphrase'));
+    expect(result.current.error).toBeNull();
+    expect(await adapter.signIn(DEMO_USER.email, 'N3w!passphrase')).toMatchObject({ success: true });
+    await act(() => adapter.signOut());
+
+    await adapter.signUp('new@example.com', 'Str0ng!pass', 'New');
+    await act(() => result.current.resendVerificationEmail('new@example.com'));
+    const verifyToken = adapter.sentVerifications.get('new@example.com');
+    await act(() => result.current.verifyEmail(verifyToken));
+    expect(result.current).toMatchObject({ isAuthenticated: true, user: { email: 'new@example.com', emailVerified: true } });
+
+    const logged = log.mock.calls.flat().map(String).join(' ');
+    expect(logged).not.toContain(resetToken);
+    expect(logged).not.toContain(verifyToken);
+    expect(alert).not.toHaveBeenCalled();
+  });
+
+  it('should change passwords through authService and refuse breached ones there', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    supabaseAuth.updateUser.mockClear();
+    const isBreached = vi.spyOn(breachedPasswordService, 'isBreached').mockResolvedValue(true);
+    const { result } = renderHook(() => useAuth(), {
+      wrapper: ({ children }: { children: ReactNode }) =>
+        createElement(AuthProvider, { adapter: new SupabaseAuthAdapter(), breachedPasswords: breachCorpus(), children }),
+    });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(() => expect(result.current.changePassword('N3w!passphrase')).rejects.toThrow('password_breached'));
+    expect(result.current.error).toBe('password_breached');
+    expect(isBreached).toHaveBeenCalledWith('N3w!passphrase');
+    expect(supabaseAuth.updateUser).not.toHaveBeenCalled();
+
+    isBreached.mockResolvedValue(false);
+    await act(() => result.current.changePassword('N3w!passphrase'));
+    expect(supabaseAuth.updateUser).toHaveBeenCalledWith({ password: 'N3w!passphrase' });
+    expect(result.current.securityAlerts[0]).toMatchObject({ type: 'password_change' });
+    isBreached.mockRestore();
+  });
+});
@@ -0,0 +1,103 @@
+// ============================================================================
+// Unit Tests: Breached Password Check
+// ============================================================================
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { BreachedPasswordService, parseRangeResponse, sha1Hex } from '@/services/breachedPasswords';
+
+// SHA-1("password") = 5BAA61E4C9B93F3F0682250B6CF8331B7EE68FD8
+const PASSWORD_PREFIX = '5BAA6';
+const PASSWORD_SUFFIX = '1E4C9B93F3F0682250B6CF8331B7EE68FD8';
+
+const rangeBody = [
+  '003D68EB55068C33ACE09247EE4C639306B:3',
+  `${PASSWORD_SUFFIX}:9659365`,
+  '01330C689E5D64F660D6947A93AD634EF8F:0',
+].join('\r\n');
+
+const textResponse = (body: string, status = 200) => new Response(body, { status });
+
+describe('sha1Hex', () => {
+  it('should produce the uppercase hex digest the range API expects', async () => {
+    expect(await sha1Hex('password')).toBe(PASSWORD_PREFIX + PASSWORD_SUFFIX);
+  });
+});
+
+describe('parseRangeResponse', () => {
+  it('should read suffix counts and drop zero-count padding', () => {
+    const suffixes = parseRangeResponse(rangeBody);
+    expect(suffixes.get(PASSWORD_SUFFIX)).toBe(9659365);
+    expect(suffixes.has('01330C689E5D64F660D6947A93AD634EF8F')).toBe(false);
+    expect(suffixes.size).toBe(2);
+  });
+});
+
+describe('BreachedPasswordService', () => {
+  let now: number;
+  let fetchImpl: ReturnType<typeof vi.fn<typeof fetch>>;
+
+  const createService = (options: { endpoint?: string; timeoutMs?: number } = {}) =>
+    new BreachedPasswordService({ endpoint: 'https://mirror.test/range/', cacheTtlMs: 60_000, fetchImpl, now: () => now, ...options });
+
+  beforeEach(() => {
+    now = 0;
+    fetchImpl = vi.fn<typeof fetch>(async () => textResponse(rangeBody));
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('should send only the hash prefix and match the suffix locally', async () => {
+    const result = await createService().check('password');
+
+    expect(result).toEqual({ breached: true, count: 9659365, checked: true });
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe(`https://mirror.test/range/${PASSWORD_PREFIX}`);
+    expect(String(url)).not.toContain(PASSWORD_SUFFIX);
+    expect(init?.headers).toEqual({ 'Add-Padding': 'true' });
+  });
+
+  it('should report passwords missing from the range as clean', async () => {
+    fetchImpl.mockResolvedValue(textResponse('003D68EB55068C33ACE09247EE4C639306B:3'));
+    expect(await createService().check('password')).toEqual({ breached: false, count: 0, checked: true });
+  });
+
+  it('should cache ranges until the TTL passes and share overlapping requests', async () => {
+    const service = createService();
+    await Promise.all([service.isBreached('password'), service.isBreached('password')]);
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+
+    now = 59_000;
+    await service.isBreached('password');
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+
+    now = 61_000;
+    await service.isBreached('password');
+    expect(fetchImpl).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fail open when the range request errors', async () => {
+    fetchImpl.mockResolvedValue(textResponse('unavailable', 503));
+    expect(await createService().check('password')).toEqual({ breached: false, count: 0, checked: false });
+
+    fetchImpl.mockRejectedValue(new TypeError('Failed to fetch'));
+    expect(await createService().isBreached('password')).toBe(false);
+  });
+
+  it('should fail open when the endpoint does not answer in time', async () => {
+    fetchImpl.mockImplementation((_url, init) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    }));
+
+    const service = createService({ timeoutMs: 20 });
+    expect(await service.check('password')).toEqual({ breached: false, count: 0, checked: false });
+
+    // A failed lookup is not cached
+    fetchImpl.mockResolvedValue(textResponse(rangeBody));
+    expect(await service.isBreached('password')).toBe(true);
+  });
+
+  it('should skip the lookup for an empty password', async () => {
+    expect(await createService().isBreached('')).toBe(false);
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+});
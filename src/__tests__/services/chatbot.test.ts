@@ -0,0 +1,116 @@
+// ============================================================================
+// Unit Tests: Chatbot Service
+// ============================================================================
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ChatbotService, assembleChatContext, buildChatSystemPrompt } from '@/services/recommendations';
+import { LocalChatStore } from '@/services/chatStore';
+import { FakeLLMProvider, LLMError } from '@/services/llm';
+
+const now = new Date('2026-03-10T12:00:00Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+const createService = (provider: FakeLLMProvider) => new ChatbotService({
+  store: new LocalChatStore(localStorage),
+  provider: () => provider,
+  now: () => now,
+});
+
+describe('assembleChatContext', () => {
+  it('should summarize the past week of moods, journals and challenges', () => {
+    const context = assembleChatContext({
+      moods: [
+        { emotion: 'anxious', intensity: 4, tags: ['work'], createdAt: hoursAgo(2) },
+        { emotion: 'anxious', intensity: 6, tags: ['work', 'sleep'], createdAt: hoursAgo(30) },
+        { emotion: 'happy', intensity: 8, createdAt: hoursAgo(50) },
+        { emotion: 'sad', intensity: 2, createdAt: hoursAgo(24 * 10) },
+      ],
+      journals: [
+        { tags: ['deadline', 'team'], sentiment_label: 'negative', created_at: hoursAgo(5).toISOString() },
+        { tags: ['team'], sentiment_label: 'positive', created_at: hoursAgo(40).toISOString() },
+      ],
+      challenges: [
+        { name: 'Log daily', current_value: 3, target_value: 7, status: 'active' },
+        { name: 'Old goal', current_value: 5, target_value: 5, status: 'completed' },
+      ],
+    }, now);
+
+    expect(context).toEqual({
+      current_mood: 'anxious',
+      mood_summary: '3 check-ins this week, mostly anxious, average intensity 6.0/10',
+      recent_activities: ['work', 'sleep'],
+      journal_themes: ['team', 'deadline'],
+      concerns: ['deadline', 'team'],
+      goals: ['Log daily (3/7)'],
+    });
+    expect(buildChatSystemPrompt(context)).toContain('Active challenges: Log daily (3/7)');
+  });
+
+  it('should leave out a current mood older than a day', () => {
+    const context = assembleChatContext({ moods: [{ emotion: 'calm', intensity: 5, createdAt: hoursAgo(30) }] }, now);
+    expect(context.current_mood).toBeUndefined();
+    expect(context.mood_summary).toContain('mostly calm');
+  });
+});
+
+describe('ChatbotService', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('should answer through the provider and persist the conversation', async () => {
+    const provider = new FakeLLMProvider([{ reply: 'That sounds like a lot. What would help right now?' }]);
+    const service = createService(provider);
+    const conversation = await service.createConversation('user-1', { current_mood: 'stressed' });
+
+    const reply = await service.sendMessage('user-1', conversation.id, 'Work has been overwhelming lately');
+
+    expect(reply.content).toBe('That sounds like a lot. What would help right now?');
+    expect(provider.calls[0].system).toContain('Current mood: stressed');
+    expect(provider.calls[0].prompt).toContain('User: Work has been overwhelming lately');
+
+    const reloaded = createService(provider);
+    const [stored] = await reloaded.listConversations('user-1');
+    expect(stored).toMatchObject({ id: conversation.id, title: 'Work has been overwhelming lately', message_count: 2 });
+    expect((await reloaded.loadMessages('user-1', conversation.id)).map((m) => m.role)).toEqual(['user', 'assistant']);
+  });
+
+  it('should stream tokens when a callback is given', async () => {
+    const service = createService(new FakeLLMProvider([{ reply: 'Breathe slowly with me' }], { chunkSize: 6 }));
+    const conversation = await service.createConversation('user-1');
+    const tokens: string[] = [];
+
+    const reply = await service.sendMessage('user-1', conversation.id, 'Hi', undefined, { onToken: (t) => tokens.push(t) });
+
+    expect(tokens.length).toBeGreaterThan(1);
+    expect(tokens.join('')).toBe(reply.content);
+  });
+
+  it('should fall back to a canned reply when the provider fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const service = createService(new FakeLLMProvider([{ reply: () => { throw new LLMError('NETWORK_ERROR', 'offline'); } }]));
+    const conversation = await service.createConversation('user-1');
+
+    const reply = await service.sendMessage('user-1', conversation.id, 'I feel anxious about tomorrow');
+
+    expect(reply.intent).toBe('express_anxiety');
+    expect(reply.content).toContain('4-7-8');
+  });
+
+  it('should rename, export and delete conversations', async () => {
+    const service = createService(new FakeLLMProvider([{ reply: 'Glad to hear it.' }]));
+    const conversation = await service.createConversation('user-1');
+    await service.sendMessage('user-1', conversation.id, 'Today was good');
+
+    await service.renameConversation('user-1', conversation.id, 'Good day');
+    const markdown = await service.exportConversation('user-1', conversation.id, 'markdown');
+    expect(markdown).toMatch(/^# Good day/);
+    expect(markdown).toContain('**You**');
+    expect(markdown).toContain('Glad to hear it.');
+
+    const json = JSON.parse(await service.exportConversation('user-1', conversation.id, 'json'));
+    expect(json.messages).toHaveLength(2);
+
+    await service.deleteConversation('user-1', conversation.id);
+    expect(await service.listConversations('user-1')).toEqual([]);
+    expect(await service.loadMessages('user-1', conversation.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,199 @@
+// ============================================================================
+// Unit Tests: Consent Ledger
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createElement } from 'react';
+import type { ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import { ComplianceProvider, useCompliance } from '@/contexts/ComplianceContext';
+import { DEMO_USER, MockAuthAdapter } from '@/services/authAdapter';
+import { DeviceSessionService, LocalDeviceSessionStore } from '@/services/deviceSessions';
+import {
+  ConsentLedgerService,
+  LocalConsentLedgerStore,
+  acceptedPolicyVersion,
+  hasConsent,
+  isConsentInForce,
+  latestEntries,
+  needsReconsent,
+  setConsentsInForce,
+} from '@/services/consentLedger';
+import type { ConsentLedgerEntry } from '@/services/consentLedger';
+import { generateMoodInsights } from '@/services/aiInsights';
+import { dataTransferGate } from '@/services/dataTransfers';
+import { FakeLLMProvider } from '@/services/llm';
+import type { LLMProvider } from '@/services/llm';
+import type { MoodEntry } from '@/contexts/MoodContext';
+
+const USER = 'user-1';
+const CURRENT = '2.0.0';
+
+const entry = (
+  consent_type: ConsentLedgerEntry['consent_type'],
+  granted: boolean,
+  policy_version: string,
+  recorded_at: string
+): ConsentLedgerEntry => ({
+  id: `${consent_type}-${recorded_at}`,
+  user_id: USER,
+  consent_type,
+  granted,
+  policy_version,
+  source: 'privacy_settings',
+  recorded_at,
+});
+
+describe('Reading the ledger', () => {
+  const ledger = [
+    entry('essential', true, '1.0', '2026-01-01T00:00:00Z'),
+    entry('analytics', true, '1.0', '2026-01-01T00:00:00Z'),
+    entry('third_party', true, CURRENT, '2026-02-01T00:00:00Z'),
+    entry('third_party', false, CURRENT, '2026-02-01T00:00:00Z'),
+  ];
+
+  it('should take the latest entry per type, later appends winning ties', () => {
+    expect(latestEntries(ledger).get('third_party')?.granted).toBe(false);
+    expect(latestEntries(ledger).get('analytics')?.granted).toBe(true);
+  });
+
+  it('should only honour grants given under the current policy', () => {
+    expect(isConsentInForce(ledger, 'analytics', '1.0')).toBe(true);
+    expect(isConsentInForce(ledger, 'analytics', CURRENT)).toBe(false);
+    expect(isConsentInForce(ledger, 'third_party', CURRENT)).toBe(false);
+    expect(isConsentInForce([], 'essential', CURRENT)).toBe(true);
+  });
+
+  it('should ask for consent again after the policy version bumps', () => {
+    expect(acceptedPolicyVersion(ledger)).toBe('1.0');
+    expect(needsReconsent(ledger, '1.0')).toBe(false);
+    expect(needsReconsent(ledger, CURRENT)).toBe(true);
+    expect(needsReconsent([], CURRENT)).toBe(true);
+  });
+});
+
+describe('ConsentLedgerService', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should append entries stamped with one time, version and source', async () => {
+    const now = new Date('2026-03-10T12:00:00Z');
+    const ledger = new ConsentLedgerService({ store: new LocalConsentLedgerStore(localStorage), now: () => now });
+
+    await ledger.record(USER, [{ type: 'essential', granted: true }, { type: 'analytics', granted: false }], CURRENT, 'cookie_banner');
+    await ledger.record('user-2', [{ type: 'essential', granted: true }], CURRENT, 'cookie_banner');
+    await ledger.record(USER, [], CURRENT, 'privacy_settings');
+
+    const entries = await ledger.list(USER);
+    expect(entries.map((e) => [e.consent_type, e.granted, e.policy_version, e.source, e.recorded_at])).toEqual([
+      ['essential', true, CURRENT, 'cookie_banner', now.toISOString()],
+      ['analytics', false, CURRENT, 'cookie_banner', now.toISOString()],
+    ]);
+  });
+});
+
+describe('Third-party AI gate', () => {
+  const entries: MoodEntry[] = Array.from({ length: 3 }, (_, i) => ({
+    id: `m${i}`,
+    emotion: 'calm',
+    intensity: 6,
+    privacy: 'private',
+    createdAt: new Date(2026, 2, i + 1),
+    updatedAt: new Date(2026, 2, i + 1),
+  }));
+  const reply = JSON.stringify({ summary: 'Steady week', patterns: [], suggestions: [] });
+
+  const hosted = (fake: FakeLLMProvider): LLMProvider => ({
+    id: 'gemini',
+    model: fake.model,
+    generate: (request) => fake.generate(request),
+    stream: (request) => fake.stream(request),
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    dataTransferGate.setSubject(USER);
+  });
+
+  afterEach(() => {
+    setConsentsInForce([]);
+    dataTransferGate.setSubject(null);
+  });
+
+  it('should keep mood data away from hosted providers without consent', async () => {
+    const fake = new FakeLLMProvider([{ reply }]);
+
+    const response = await generateMoodInsights(entries, 'week', hosted(fake));
+
+    expect(fake.calls).toHaveLength(0);
+    expect(response.summary).toMatch(/consent/);
+    expect(response.insights[0].id).toBe('fallback-1');
+  });
+
+  it('should call hosted providers once third-party consent is in force', async () => {
+    const fake = new FakeLLMProvider([{ reply }]);
+    setConsentsInForce(['third_party']);
+
+    const response = await generateMoodInsights(entries, 'week', hosted(fake));
+
+    expect(fake.calls).toHaveLength(1);
+    expect(response.summary).toBe('Steady week');
+  });
+});
+
+describe('ComplianceProvider consent', () => {
+  const renderCompliance = (ledger: ConsentLedgerService) => {
+    const adapter = new MockAuthAdapter({ storage: localStorage });
+    const deviceSessions = new DeviceSessionService({ store: new LocalDeviceSessionStore(localStorage), storage: localStorage });
+    return renderHook(() => ({ auth: useAuth(), compliance: useCompliance() }), {
+      wrapper: ({ children }: { children: ReactNode }) =>
+        createElement(AuthProvider, { adapter, deviceSessions, children: createElement(ComplianceProvider, { ledger, children }) }),
+    });
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should force re-consent after a policy change and gate until it is given', async () => {
+    const store = new LocalConsentLedgerStore(localStorage);
+    const ledger = new ConsentLedgerService({ store });
+    const { result } = renderCompliance(ledger);
+    await waitFor(() => expect(result.current.auth.isLoading).toBe(false));
+    await act(() => result.current.auth.loginWithEmail(DEMO_USER.email, DEMO_USER.password));
+
+    const userId = result.current.auth.user?.id ?? '';
+    await store.append([
+      { ...entry('essential', true, '1.0', '2026-01-01T00:00:00Z'), user_id: userId },
+      { ...entry('analytics', true, '1.0', '2026-01-01T00:00:00Z'), user_id: userId },
+    ]);
+    await act(() => result.current.auth.logout());
+    await act(() => result.current.auth.loginWithEmail(DEMO_USER.email, DEMO_USER.password));
+
+    await waitFor(() => expect(result.current.compliance.needsReconsent).toBe(true));
+    expect(result.current.compliance.acceptedPolicyVersion).toBe('1.0');
+    expect(result.current.compliance.getConsent('analytics')).toBe(false);
+    expect(hasConsent('analytics')).toBe(false);
+
+    await act(() => result.current.compliance.recordConsents({ analytics: true }, 'cookie_banner'));
+
+    expect(result.current.compliance.needsReconsent).toBe(false);
+    expect(result.current.compliance.getConsent('analytics')).toBe(true);
+    expect(result.current.compliance.getConsent('third_party')).toBe(false);
+    expect(hasConsent('analytics')).toBe(true);
+
+    await act(() => result.current.compliance.setConsent('analytics', false));
+    expect(hasConsent('analytics')).toBe(false);
+
+    const stored = await ledger.list(userId);
+    expect(stored).toHaveLength(2 + 6 + 1);
+    expect(stored.slice(2).map((e) => e.source)).toEqual([...Array(6).fill('cookie_banner'), 'privacy_settings']);
+  });
+});
@@ -0,0 +1,161 @@
+// ============================================================================
+// Unit Tests: Data Subject Rights
+// ============================================================================
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DataRightsService,
+  LocalDataRightsStore,
+  USER_DATA_TABLES,
+  requestDueDate,
+  summarizeRequests,
+} from '@/services/dataRights';
+import type { DataRequestRecord } from '@/services/dataRights';
+
+const USER = 'user-1';
+const OTHER = 'user-2';
+const DAY = 24 * 60 * 60 * 1000;
+
+const seed = () => {
+  localStorage.setItem('moodmash_entries', JSON.stringify([{ id: 'm1', mood: 'happy' }, { id: 'm2', mood: 'calm' }]));
+  localStorage.setItem('moodmash_chat', JSON.stringify({
+    conversations: [{ id: 'c1', user_id: USER }, { id: 'c2', user_id: OTHER }],
+    messages: [{ id: 'x1', user_id: USER }, { id: 'x2', user_id: USER }, { id: 'x3', user_id: OTHER }],
+  }));
+  localStorage.setItem('moodmash_passkeys', JSON.stringify([{ id: 'p1', user_id: USER }]));
+  localStorage.setItem('moodmash_two_factor', JSON.stringify({ [USER]: { user_id: USER, secret: 'S' }, [OTHER]: { user_id: OTHER } }));
+};
+
+describe('Request deadlines', () => {
+  it('should give GDPR 30 days and CCPA 45', () => {
+    const created = new Date('2026-03-01T00:00:00Z');
+    expect(requestDueDate('gdpr', created).toISOString()).toBe('2026-03-31T00:00:00.000Z');
+    expect(requestDueDate('ccpa', created).toISOString()).toBe('2026-04-15T00:00:00.000Z');
+  });
+
+  it('should count open and overdue requests per framework', () => {
+    const now = new Date('2026-05-01T00:00:00Z');
+    const record = (id: string, framework: 'gdpr' | 'ccpa', status: DataRequestRecord['status'], dueInDays: number): DataRequestRecord => ({
+      id,
+      user_id: USER,
+      type: 'rectification',
+      framework,
+      status,
+      reason: null,
+      created_at: now.toISOString(),
+      due_at: new Date(now.getTime() + dueInDays * DAY).toISOString(),
+      completed_at: status === 'completed' ? '2026-04-20T00:00:00.000Z' : null,
+      result: null,
+    });
+    const records = [
+      record('a', 'gdpr', 'pending', -1),
+      record('b', 'gdpr', 'processing', 5),
+      record('c', 'gdpr', 'completed', -10),
+      record('d', 'ccpa', 'cancelled', -3),
+    ];
+
+    expect(summarizeRequests(records, 'gdpr', now)).toEqual({
+      framework: 'gdpr',
+      open: 2,
+      overdue: 1,
+      lastCompletedAt: new Date('2026-04-20T00:00:00Z'),
+    });
+    expect(summarizeRequests(records, 'ccpa', now)).toEqual({ framework: 'ccpa', open: 0, overdue: 0, lastCompletedAt: null });
+  });
+});
+
+describe('DataRightsService', () => {
+  let now: Date;
+  const createService = () => new DataRightsService({ store: new LocalDataRightsStore(localStorage), now: () => now });
+
+  beforeEach(() => {
+    localStorage.clear();
+    now = new Date('2026-03-10T12:00:00Z');
+    seed();
+  });
+
+  it('should file a pending request with its deadline', async () => {
+    const service = createService();
+    const record = await service.submit(USER, 'rectification', { framework: 'ccpa', reason: '  Wrong email  ' });
+
+    expect(record).toMatchObject({
+      status: 'pending',
+      framework: 'ccpa',
+      reason: 'Wrong email',
+      due_at: '2026-04-24T12:00:00.000Z',
+      completed_at: null,
+    });
+    expect(await service.listRequests(USER)).toEqual([record]);
+    expect(await service.listRequests(OTHER)).toEqual([]);
+  });
+
+  it('should export every exported table with a manifest and complete the request', async () => {
+    const service = createService();
+    const request = await service.submit(USER, 'portability');
+    const archive = await service.fulfilExport(request);
+
+    expect(archive).toMatchObject({ format: 'moodmash-data-export', version: 1, request_id: request.id, user_id: USER });
+    expect(Object.keys(archive.tables)).toEqual(USER_DATA_TABLES.filter((table) => table.exported).map((table) => table.name));
+    expect(archive.tables).not.toHaveProperty('user_two_factor');
+    expect(archive.tables.mood_entries).toHaveLength(2);
+    expect(archive.tables.chat_messages.map((row) => row.id)).toEqual(['x1', 'x2']);
+    expect(archive.manifest).toContainEqual({ table: 'chat_conversations', rows: 1 });
+
+    const [stored] = await service.listRequests(USER);
+    expect(stored).toMatchObject({ status: 'completed', completed_at: now.toISOString() });
+    expect(stored.result).toEqual({ manifest: archive.manifest });
+  });
+
+  it('should refuse to export for other request types', async () => {
+    const service = createService();
+    const request = await service.submit(USER, 'erasure');
+
+    await expect(service.fulfilExport(request)).rejects.toThrow('Cannot export for a erasure request');
+  });
+
+  it('should put a failed export back in the queue', async () => {
+    const store = new LocalDataRightsStore(localStorage);
+    vi.spyOn(store, 'readTable').mockRejectedValueOnce(new Error('offline'));
+    const service = new DataRightsService({ store, now: () => now });
+    const request = await service.submit(USER, 'access');
+
+    await expect(service.fulfilExport(request)).rejects.toThrow('offline');
+    expect((await service.listRequests(USER))[0].status).toBe('pending');
+  });
+
+  it('should erase the user across tables, keep other users and audit the counts', async () => {
+    const service = createService();
+    const request = await service.submit(USER, 'erasure', { reason: 'Leaving' });
+    const audit = await service.fulfilErasure(request);
+
+    expect(audit.tables).toMatchObject({
+      mood_entries: 2,
+      chat_conversations: 1,
+      chat_messages: 2,
+      user_passkeys: 1,
+      user_two_factor: 1,
+      ar_yoga_sessions: 0,
+    });
+    expect(audit.total_rows).toBe(7);
+    expect(JSON.parse(localStorage.getItem('moodmash_erasure_audit') ?? '[]')).toEqual([audit]);
+
+    expect(JSON.parse(localStorage.getItem('moodmash_entries') ?? '')).toEqual([]);
+    expect(JSON.parse(localStorage.getItem('moodmash_chat') ?? '')).toEqual({
+      conversations: [{ id: 'c2', user_id: OTHER }],
+      messages: [{ id: 'x3', user_id: OTHER }],
+    });
+    expect(Object.keys(JSON.parse(localStorage.getItem('moodmash_two_factor') ?? ''))).toEqual([OTHER]);
+
+    // The request itself survives as the record of what was done
+    const [stored] = await service.listRequests(USER);
+    expect(stored).toMatchObject({ status: 'completed', reason: 'Leaving', result: { total_rows: 7 } });
+  });
+
+  it('should only cancel pending requests', async () => {
+    const service = createService();
+    const pending = await service.submit(USER, 'objection');
+
+    expect((await service.cancel(pending)).status).toBe('cancelled');
+    await expect(service.cancel({ ...pending, status: 'completed' })).rejects.toThrow('Cannot cancel a completed request');
+  });
+});
@@ -0,0 +1,174 @@
+// ============================================================================
+// Unit Tests: Data Flow Policy and Transfer Gate
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DATA_FLOWS, decideFlow, redactRecords } from '@/lib/dataFlowPolicy';
+import { DataTransferGate, LocalDataTransferLogStore, dataTransferGate } from '@/services/dataTransfers';
+import { WearablesService } from '@/services/wearables';
+import { generateMoodInsights } from '@/services/aiInsights';
+import { setConsentsInForce } from '@/services/consentLedger';
+import { FakeLLMProvider } from '@/services/llm';
+import type { LLMProvider } from '@/services/llm';
+import type { ConsentType } from '@/contexts/ComplianceContext';
+import type { MoodEntry } from '@/contexts/MoodContext';
+
+const USER = 'user-1';
+
+const consents = (...types: ConsentType[]) => (type: ConsentType) => type === 'essential' || types.includes(type);
+
+describe('Data flow decisions', () => {
+  it('should block a flow while any required consent is missing', () => {
+    expect(decideFlow(DATA_FLOWS.wearable_sync, consents('third_party'))).toEqual({
+      flow: 'wearable_sync',
+      outcome: 'blocked',
+      missingConsents: ['personalization'],
+      redactedFields: [],
+    });
+    expect(decideFlow(DATA_FLOWS.wearable_sync, consents('third_party', 'personalization')).outcome).toBe('allowed');
+  });
+
+  it('should strip free text from AI insights without personalization consent', () => {
+    expect(decideFlow(DATA_FLOWS.ai_insights, consents('third_party'))).toMatchObject({
+      outcome: 'redacted',
+      redactedFields: ['note', 'tags'],
+    });
+    expect(decideFlow(DATA_FLOWS.ai_insights, consents('third_party', 'personalization')).outcome).toBe('allowed');
+  });
+
+  it('should redact copies and leave the originals alone', () => {
+    const records = [{ id: 'm1', note: 'rough day', intensity: 3 }];
+    expect(redactRecords(records, ['note'])).toEqual([{ id: 'm1', intensity: 3 }]);
+    expect(records[0].note).toBe('rough day');
+  });
+});
+
+describe('DataTransferGate', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+  const createGate = (...types: ConsentType[]) => {
+    const gate = new DataTransferGate({
+      store: new LocalDataTransferLogStore(localStorage),
+      now: () => now,
+      isInForce: consents(...types),
+    });
+    gate.setSubject(USER);
+    return gate;
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should log allowed, redacted and blocked transfers, newest first', async () => {
+    const gate = createGate('third_party');
+    const entries = [{ id: 'm1', note: 'private', emotion: 'sad' }, { id: 'm2', emotion: 'calm' }];
+
+    const insights = await gate.request('ai_insights', 'gemini', entries);
+    const chat = await gate.request('ai_chat', 'openai', [{ content: 'hi' }]);
+    const wearable = await gate.request('wearable_sync', 'fitbit', [{ device_id: 'd1' }]);
+
+    expect(insights).toMatchObject({ allowed: true, records: [{ id: 'm1', emotion: 'sad' }, { id: 'm2', emotion: 'calm' }] });
+    expect(chat.allowed).toBe(true);
+    expect(wearable).toMatchObject({ allowed: false, records: [] });
+
+    const log = await gate.list(USER);
+    expect(log.map((r) => [r.flow, r.destination, r.outcome, r.record_count])).toEqual([
+      ['wearable_sync', 'fitbit', 'blocked', 0],
+      ['ai_chat', 'openai', 'allowed', 1],
+      ['ai_insights', 'gemini', 'redacted', 2],
+    ]);
+    expect(log[0].missing_consents).toEqual(['personalization']);
+    expect(log[2]).toMatchObject({ redacted_fields: ['note', 'tags'], transferred_at: now.toISOString() });
+    expect(await gate.list('user-2')).toEqual([]);
+  });
+
+  it('should send nothing without a signed-in user', async () => {
+    const gate = createGate('third_party', 'personalization');
+    gate.setSubject(null);
+
+    expect((await gate.request('ai_chat', 'gemini', [{ content: 'hi' }])).allowed).toBe(false);
+    expect(await gate.list(USER)).toEqual([]);
+  });
+
+  it('should send nothing when the transfer cannot be logged', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const store = new LocalDataTransferLogStore(localStorage);
+    vi.spyOn(store, 'append').mockRejectedValueOnce(new Error('offline'));
+    const gate = new DataTransferGate({ store, isInForce: consents('third_party', 'personalization') });
+    gate.setSubject(USER);
+
+    expect((await gate.request('ai_chat', 'gemini', [{ content: 'hi' }])).allowed).toBe(false);
+  });
+
+  it('should not reach the wearable API when sync is blocked', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const wearables = new WearablesService({ transfers: createGate('personalization') });
+
+    const result = await wearables.syncDevice(USER, 'd1', 'oura');
+
+    expect(result).toMatchObject({ success: false, device_id: 'd1', data_points_synced: 0 });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('AI insights through the gate', () => {
+  const entries: MoodEntry[] = [{
+    id: 'm1',
+    emotion: 'anxious',
+    intensity: 7,
+    note: 'Argument with my sister',
+    tags: ['family'],
+    privacy: 'private',
+    createdAt: new Date(2026, 2, 1),
+    updatedAt: new Date(2026, 2, 1),
+  }];
+  const reply = JSON.stringify({ summary: 'A tense day', patterns: [], suggestions: [] });
+  const hosted = (fake: FakeLLMProvider): LLMProvider => ({
+    id: 'openai',
+    model: fake.model,
+    generate: (request) => fake.generate(request),
+    stream: (request) => fake.stream(request),
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    dataTransferGate.setSubject(USER);
+  });
+
+  afterEach(() => {
+    setConsentsInForce([]);
+    dataTransferGate.setSubject(null);
+  });
+
+  it('should keep notes out of the prompt without personalization consent', async () => {
+    const fake = new FakeLLMProvider([{ reply }]);
+    setConsentsInForce(['third_party']);
+
+    await generateMoodInsights(entries, 'week', hosted(fake));
+
+    expect(fake.calls[0].prompt).not.toContain('Argument with my sister');
+    expect((await dataTransferGate.list(USER))[0]).toMatchObject({ flow: 'ai_insights', destination: 'openai', outcome: 'redacted' });
+  });
+
+  it('should include notes once personalization consent is given', async () => {
+    const fake = new FakeLLMProvider([{ reply }]);
+    setConsentsInForce(['third_party', 'personalization']);
+
+    await generateMoodInsights(entries, 'week', hosted(fake));
+
+    expect(fake.calls[0].prompt).toContain('Argument with my sister');
+  });
+
+  it('should not log transfers to a local provider', async () => {
+    const fake = new FakeLLMProvider([{ reply }]);
+
+    await generateMoodInsights(entries, 'week', fake);
+
+    expect(fake.calls).toHaveLength(1);
+    expect(await dataTransferGate.list(USER)).toEqual([]);
+  });
+});
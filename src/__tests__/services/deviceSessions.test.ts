@@ -0,0 +1,271 @@
+// ============================================================================
+// Unit Tests: Device Session Tracking
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createElement } from 'react';
+import type { ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import type { Session } from '@/contexts/AuthContext';
+import { DEMO_USER, MockAuthAdapter } from '@/services/authAdapter';
+import {
+  DeviceSessionService,
+  LocalDeviceSessionStore,
+  approximateLocation,
+  describeUserAgent,
+} from '@/services/deviceSessions';
+import { emailService } from '@/services/emailService';
+
+const CHROME_MAC =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Mobile/15E148 Safari/604.1';
+const EDGE_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36 Edg/124.0.0.0';
+const FIREFOX_ANDROID_TABLET = 'Mozilla/5.0 (Android 14; Tablet; rv:125.0) Gecko/125.0 Firefox/125.0';
+
+const user = { id: 'user-1' };
+const start = new Date('2026-03-10T12:00:00Z');
+
+const appSession = (id: string, expiresAt = new Date('2026-03-10T13:00:00Z')): Session => ({
+  id,
+  userId: user.id,
+  deviceType: 'desktop',
+  browser: 'Chrome',
+  os: 'macOS',
+  createdAt: start,
+  expiresAt,
+  lastActivityAt: start,
+});
+
+describe('describeUserAgent', () => {
+  it('should tell browsers apart despite shared tokens', () => {
+    expect(describeUserAgent(CHROME_MAC)).toEqual({ deviceType: 'desktop', browser: 'Chrome', os: 'macOS' });
+    expect(describeUserAgent(SAFARI_IPHONE)).toEqual({ deviceType: 'mobile', browser: 'Safari', os: 'iOS' });
+    expect(describeUserAgent(EDGE_WINDOWS)).toEqual({ deviceType: 'desktop', browser: 'Edge', os: 'Windows' });
+    expect(describeUserAgent(FIREFOX_ANDROID_TABLET)).toEqual({ deviceType: 'tablet', browser: 'Firefox', os: 'Android' });
+  });
+
+  it('should fall back for unrecognised agents', () => {
+    expect(describeUserAgent('')).toEqual({ deviceType: 'desktop', browser: 'Unknown browser', os: 'Unknown OS' });
+  });
+});
+
+describe('approximateLocation', () => {
+  it('should turn an IANA time zone into a city and region', () => {
+    expect(approximateLocation('Europe/Berlin')).toBe('Berlin, Europe');
+    expect(approximateLocation('America/Argentina/Buenos_Aires')).toBe('Buenos Aires, America');
+    expect(approximateLocation('UTC')).toBe('Unknown location');
+    expect(approximateLocation(undefined)).toBe('Unknown location');
+  });
+});
+
+describe('DeviceSessionService', () => {
+  let now: Date;
+  let store: LocalDeviceSessionStore;
+
+  const createService = (deviceStorage: Storage = localStorage, userAgent = CHROME_MAC) =>
+    new DeviceSessionService({ store, storage: deviceStorage, now: () => now, userAgent, timeZone: 'Europe/Berlin' });
+
+  // A second browser: shares the session store but keeps its own device id
+  const otherBrowser = (): Storage => {
+    const values = new Map<string, string>();
+    return {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => void values.set(key, value),
+      removeItem: (key: string) => void values.delete(key),
+      clear: () => values.clear(),
+      key: () => null,
+      length: 0,
+    };
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    now = start;
+    store = new LocalDeviceSessionStore(localStorage);
+  });
+
+  it('should record the device on first activity', async () => {
+    const service = createService();
+    const { record, revoked, newDevice } = await service.recordActivity(user, appSession('s1'));
+
+    expect(revoked).toBe(false);
+    expect(newDevice).toBe(false);
+    expect(record).toMatchObject({
+      id: 's1',
+      user_id: 'user-1',
+      device_id: service.deviceId,
+      device_type: 'desktop',
+      browser: 'Chrome',
+      os: 'macOS',
+      location: 'Berlin, Europe',
+      created_at: start.toISOString(),
+      revoked_at: null,
+    });
+  });
+
+  it('should throttle activity writes until the interval passes or the token rotates', async () => {
+    const service = createService();
+    const saveSpy = vi.spyOn(store, 'save');
+    await service.recordActivity(user, appSession('s1'));
+
+    now = new Date(start.getTime() + 60_000);
+    await service.recordActivity(user, appSession('s1'));
+    expect(saveSpy).toHaveBeenCalledTimes(1);
+
+    await service.recordActivity(user, appSession('s1', new Date('2026-03-10T14:00:00Z')));
+    expect(saveSpy).toHaveBeenCalledTimes(2);
+
+    now = new Date(start.getTime() + 10 * 60_000);
+    const { record } = await service.recordActivity(user, appSession('s1', new Date('2026-03-10T14:00:00Z')));
+    expect(saveSpy).toHaveBeenCalledTimes(3);
+    expect(record).toMatchObject({ created_at: start.toISOString(), last_activity_at: now.toISOString() });
+  });
+
+  it('should flag a new device only when the account was used elsewhere', async () => {
+    const laptop = createService();
+    expect((await laptop.recordActivity(user, appSession('s1'))).newDevice).toBe(false);
+    expect((await laptop.recordActivity(user, appSession('s2'))).newDevice).toBe(false);
+
+    const phone = createService(otherBrowser(), SAFARI_IPHONE);
+    const { record, newDevice } = await phone.recordActivity(user, appSession('s3'));
+    expect(newDevice).toBe(true);
+    expect(record).toMatchObject({ browser: 'Safari', os: 'iOS', device_type: 'mobile' });
+  });
+
+  it('should list only usable sessions, most recently active first', async () => {
+    const service = createService();
+    await service.recordActivity(user, appSession('old', new Date('2026-03-10T12:30:00Z')));
+    now = new Date(start.getTime() + 60_000);
+    await service.recordActivity(user, appSession('recent'));
+    await service.recordActivity(user, appSession('revoked'));
+    await service.revoke(user.id, 'revoked');
+
+    expect((await service.list(user.id)).map((session) => session.id)).toEqual(['recent', 'old']);
+
+    now = new Date('2026-03-10T12:45:00Z');
+    expect((await service.list(user.id)).map((session) => session.id)).toEqual(['recent']);
+  });
+
+  it('should report revocation on the revoked device', async () => {
+    const laptop = createService();
+    const phone = createService(otherBrowser(), SAFARI_IPHONE);
+    await laptop.recordActivity(user, appSession('laptop'));
+    await phone.recordActivity(user, appSession('phone'));
+
+    await laptop.revoke(user.id, 'phone');
+
+    expect(await phone.isRevoked('phone')).toBe(true);
+    expect((await phone.recordActivity(user, appSession('phone'))).revoked).toBe(true);
+  });
+
+  it('should revoke every other session and keep the current one', async () => {
+    const service = createService();
+    await service.recordActivity(user, appSession('current'));
+    await service.recordActivity(user, appSession('other-1'));
+    await service.recordActivity(user, appSession('other-2'));
+    await service.recordActivity({ id: 'user-2' }, appSession('someone-else'));
+
+    expect(await service.revokeOthers(user.id, 'current')).toBe(2);
+    expect((await service.list(user.id)).map((session) => session.id)).toEqual(['current']);
+    expect(await service.list('user-2')).toHaveLength(1);
+  });
+
+  it('should push the refreshed list to subscribers until they unsubscribe', async () => {
+    const service = createService();
+    await service.recordActivity(user, appSession('current'));
+    await service.recordActivity(user, appSession('other'));
+
+    const callback = vi.fn();
+    const unsubscribe = service.subscribe(user.id, callback);
+    await service.revoke(user.id, 'other');
+    await waitFor(() => expect(callback).toHaveBeenCalled());
+    expect(callback.mock.calls.at(-1)?.[0].map((session: Session) => session.id)).toEqual(['current']);
+
+    unsubscribe();
+    callback.mockClear();
+    await service.revoke(user.id, 'current');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
+
+describe('AuthProvider session tracking', () => {
+  let store: LocalDeviceSessionStore;
+
+  const renderAuth = (adapter: MockAuthAdapter, deviceSessions: DeviceSessionService) =>
+    renderHook(() => useAuth(), {
+      wrapper: ({ children }: { children: ReactNode }) => createElement(AuthProvider, { adapter, deviceSessions, children }),
+    });
+
+  beforeEach(() => {
+    localStorage.clear();
+    store = new LocalDeviceSessionStore(localStorage);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should alert and email when signing in from a new device', async () => {
+    const sendAlert = vi.spyOn(emailService, 'sendSecurityAlertEmail').mockResolvedValue({ success: true });
+    await store.save({
+      id: 'elsewhere',
+      user_id: DEMO_USER.id,
+      device_id: 'laptop-device',
+      device_type: 'desktop',
+      browser: 'Chrome',
+      os: 'macOS',
+      user_agent: CHROME_MAC,
+      location: 'Paris, Europe',
+      time_zone: 'Europe/Paris',
+      created_at: start.toISOString(),
+      last_activity_at: start.toISOString(),
+      expires_at: '2099-01-01T00:00:00Z',
+      revoked_at: null,
+    });
+
+    const deviceSessions = new DeviceSessionService({ store, storage: localStorage, userAgent: SAFARI_IPHONE, timeZone: 'Europe/Paris' });
+    const { result } = renderAuth(new MockAuthAdapter({ storage: localStorage }), deviceSessions);
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(() => result.current.loginWithEmail(DEMO_USER.email, DEMO_USER.password));
+
+    await waitFor(() => expect(result.current.securityAlerts).toHaveLength(1));
+    expect(result.current.securityAlerts[0]).toMatchObject({
+      type: 'new_device',
+      severity: 'high',
+      metadata: { device: 'iOS', browser: 'Safari', location: 'Paris, Europe' },
+    });
+    await waitFor(() => expect(sendAlert).toHaveBeenCalledWith(
+      DEMO_USER.email,
+      expect.any(String),
+      'Safari on iOS',
+      'Paris, Europe',
+      'Not recorded',
+      expect.any(Date),
+      expect.stringContaining('/settings/security')
+    ));
+
+    const sessions = await result.current.getSessions();
+    expect(sessions.map((session) => session.id)).toContain(result.current.session?.id);
+  });
+
+  it('should sign out when this session is revoked from another device', async () => {
+    const deviceSessions = new DeviceSessionService({ store, storage: localStorage, userAgent: CHROME_MAC });
+    const { result } = renderAuth(new MockAuthAdapter({ storage: localStorage }), deviceSessions);
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    await act(() => result.current.loginWithEmail(DEMO_USER.email, DEMO_USER.password));
+    const sessionId = result.current.session!.id;
+    await waitFor(async () => expect(await store.get(sessionId)).not.toBeNull());
+
+    await act(() => store.revoke(DEMO_USER.id, sessionId));
+
+    await waitFor(() => expect(result.current.isAuthenticated).toBe(false));
+    expect(result.current.error).toBe('session_expired');
+  });
+});
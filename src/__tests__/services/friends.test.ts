@@ -0,0 +1,141 @@
+// ============================================================================
+// Unit Tests: Friends
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { FriendsService, toFriend } from '@/services/friends';
+import type {
+  EmailSender,
+  FriendInvite,
+  FriendRow,
+  FriendStore,
+  SharedAchievementRow,
+  SharedMoodRow,
+} from '@/services/friends';
+
+const NOW = new Date('2026-05-01T12:00:00Z');
+
+const friendRow = (id: string, status: FriendRow['status'], direction: FriendRow['direction'] = 'outgoing'): FriendRow => ({
+  friendship_id: `f-${id}`,
+  friend_id: id,
+  display_name: id === 'ana' ? 'Ana' : 'Ben',
+  avatar_url: null,
+  status,
+  direction,
+  created_at: '2026-04-01T00:00:00Z',
+  responded_at: status === 'pending' ? null : '2026-04-02T00:00:00Z',
+});
+
+class FakeFriendStore implements FriendStore {
+  invites: { userId: string; invite: FriendInvite }[] = [];
+  feedRequests: string[][] = [];
+
+  constructor(
+    private rows: FriendRow[] = [],
+    private moods: SharedMoodRow[] = [],
+    private achievements: SharedAchievementRow[] = []
+  ) {}
+
+  async list() {
+    return this.rows;
+  }
+
+  async saveInvite(userId: string, invite: FriendInvite) {
+    this.invites.push({ userId, invite });
+  }
+
+  async acceptInvite() {
+    return 'inviter';
+  }
+
+  async sendRequest() {}
+  async respond() {}
+  async block() {}
+  async remove() {}
+
+  async sharedMoods(userIds: string[]) {
+    this.feedRequests.push(userIds);
+    return this.moods;
+  }
+
+  async sharedAchievements() {
+    return this.achievements;
+  }
+}
+
+class FakeEmail implements EmailSender {
+  sent: { to: string; subject: string; html: string; text?: string }[] = [];
+
+  constructor(private success = true) {}
+
+  async sendCustomEmail(to: string, subject: string, html: string, text?: string) {
+    this.sent.push({ to, subject, html, text });
+    return this.success ? { success: true } : { success: false, error: 'Mailbox unavailable' };
+  }
+}
+
+const service = (store: FriendStore | null, email = new FakeEmail()) =>
+  new FriendsService({ store, email, now: () => NOW, appUrl: 'https://moodmash.test' });
+
+describe('FriendsService', () => {
+  it('should email a single-use invite link that expires in two weeks', async () => {
+    const store = new FakeFriendStore();
+    const email = new FakeEmail();
+
+    await service(store, email).inviteByEmail('me', 'Sam <3', 'ana@example.com');
+
+    const [{ userId, invite }] = store.invites;
+    expect(userId).toBe('me');
+    expect(invite.email).toBe('ana@example.com');
+    expect(invite.token).toMatch(/^[A-Za-z0-9_-]{32}$/);
+    expect(invite.expiresAt.toISOString()).toBe('2026-05-15T12:00:00.000Z');
+
+    const [message] = email.sent;
+    expect(message.to).toBe('ana@example.com');
+    expect(message.html).toContain(`https://moodmash.test/dashboard?view=leaderboard&amp;friend_invite=${invite.token}`);
+    expect(message.html).toContain('Sam &lt;3');
+    expect(message.html).not.toContain('Sam <3');
+  });
+
+  it('should report a failed invite email', async () => {
+    await expect(service(new FakeFriendStore(), new FakeEmail(false)).inviteByEmail('me', 'Sam', 'ana@example.com'))
+      .rejects.toThrow('Mailbox unavailable');
+  });
+
+  it('should merge shared moods and achievements of accepted friends, newest first', async () => {
+    const store = new FakeFriendStore(
+      [friendRow('ana', 'accepted'), friendRow('ben', 'pending', 'incoming')],
+      [
+        { id: 'm1', user_id: 'ana', mood_id: 'calm', intensity: 7, created_at: '2026-04-30T08:00:00Z' },
+        { id: 'm2', user_id: 'ana', mood_id: 'happy', intensity: 8, created_at: '2026-04-28T08:00:00Z' },
+      ],
+      [{ id: 'a1', user_id: 'ana', achievement_id: 'streak_7', completed_at: '2026-04-29T08:00:00Z' }]
+    );
+    const friends = service(store);
+
+    const list = await friends.list();
+    const feed = await friends.getActivityFeed(list);
+
+    expect(store.feedRequests).toEqual([['ana']]);
+    expect(feed.map((item) => [item.id, item.name, item.kind])).toEqual([
+      ['mood:m1', 'Ana', 'mood'],
+      ['achievement:a1', 'Ana', 'achievement'],
+      ['mood:m2', 'Ana', 'mood'],
+    ]);
+    expect(feed[0]).toMatchObject({ emotion: 'calm', intensity: 7 });
+  });
+
+  it('should map friendships and treat demo mode as having no friends', async () => {
+    expect(toFriend(friendRow('ben', 'pending', 'incoming'))).toMatchObject({
+      friendshipId: 'f-ben',
+      userId: 'ben',
+      name: 'Ben',
+      direction: 'incoming',
+      since: new Date('2026-04-01T00:00:00Z'),
+    });
+
+    const demo = service(null);
+    expect(await demo.list()).toEqual([]);
+    await expect(demo.sendRequest('ana')).rejects.toThrow('signed-in account');
+  });
+});
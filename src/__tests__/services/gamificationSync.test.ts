@@ -0,0 +1,205 @@
+// ============================================================================
+// Unit Tests: Gamification Sync
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  IMPORTED_KEY,
+  LOCAL_PROGRESS_KEY,
+  MAX_IMPORTED_EXPERIENCE,
+  MAX_IMPORTED_STREAK,
+  SAVE_VERSION,
+  getLevelFromXP,
+  getXPBeforeLevel,
+  migrateLocalProgress,
+  readLocalProgress,
+  sessionPoints,
+  toAchievement,
+} from '@/services/gamificationSync';
+import type { GamificationRemote, LocalProgress } from '@/services/gamificationSync';
+import type { SyncStorage } from '@/services/moodSync';
+import { DEFAULT_STREAK_SETTINGS, EMPTY_STREAK } from '@/lib/streaks';
+import type { StreakSettings } from '@/lib/streaks';
+import type { AchievementDefinition } from '@/types/database';
+
+class MemoryStorage implements SyncStorage {
+  items = new Map<string, string>();
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+}
+
+class FakeRemote implements GamificationRemote {
+  imports: LocalProgress[] = [];
+
+  constructor(private accepts = true) {}
+
+  async fetchSnapshot() {
+    return {
+      points: 0,
+      experience: 0,
+      level: 1,
+      streak: EMPTY_STREAK,
+      streakHistory: [],
+      streakSettings: DEFAULT_STREAK_SETTINGS,
+      achievements: [],
+    };
+  }
+
+  async logSession() {
+    return { points: 0, experience: 0, level: 1 };
+  }
+
+  async recordActivity() {
+    return EMPTY_STREAK;
+  }
+
+  async purchaseStreakFreeze() {
+    return EMPTY_STREAK;
+  }
+
+  async saveStreakSettings(settings: StreakSettings) {
+    return settings;
+  }
+
+  async importLocalProgress(progress: LocalProgress) {
+    this.imports.push(progress);
+    return this.accepts;
+  }
+
+  subscribe() {
+    return () => {};
+  }
+}
+
+const save = (storage: MemoryStorage, value: object) => storage.setItem(LOCAL_PROGRESS_KEY, JSON.stringify(value));
+
+const progress = {
+  version: SAVE_VERSION,
+  profile: { level: 2, experience: 150, longestStreak: 6 },
+  achievements: [
+    { id: 'mood_first', unlockedAt: '2026-04-01T09:00:00Z' },
+    { id: 'mood_10' },
+  ],
+};
+
+describe('Gamification levels', () => {
+  it('should follow the 100 * level^1.5 curve', () => {
+    expect(getXPBeforeLevel(1)).toBe(0);
+    expect(getXPBeforeLevel(3)).toBe(100 + 282);
+    expect(getLevelFromXP(381)).toMatchObject({ level: 2, currentXP: 281, requiredXP: 282 });
+    expect(getLevelFromXP(382)).toMatchObject({ level: 3, currentXP: 0 });
+  });
+
+  it('should read lifetime XP from old saves that kept only the XP into the level', () => {
+    expect(readLocalProgress({ profile: { level: 3, experience: 40 } }).experience).toBe(422);
+    expect(readLocalProgress(progress)).toEqual({ experience: 150, longestStreak: 6 });
+  });
+
+  it('should cap carried-over progress the way the server does', () => {
+    const inflated = { version: SAVE_VERSION, profile: { level: 90, experience: 1_000_000, longestStreak: 5000 } };
+
+    expect(readLocalProgress(inflated)).toEqual({
+      experience: MAX_IMPORTED_EXPERIENCE,
+      longestStreak: MAX_IMPORTED_STREAK,
+    });
+  });
+
+  it('should pay wellness sessions by the minute up to an hour', () => {
+    expect(sessionPoints(10)).toBe(20);
+    expect(sessionPoints(12.4)).toBe(24);
+    expect(sessionPoints(240)).toBe(120);
+    expect(sessionPoints(-5)).toBe(0);
+  });
+});
+
+describe('migrateLocalProgress', () => {
+  it('should import signed-out progress once and then clear it from the device', async () => {
+    const storage = new MemoryStorage();
+    const remote = new FakeRemote();
+    save(storage, progress);
+
+    expect(await migrateLocalProgress(remote, 'user-1', storage)).toBe(true);
+    expect(remote.imports).toEqual([{ experience: 150, longestStreak: 6 }]);
+    expect(storage.getItem(LOCAL_PROGRESS_KEY)).toBeNull();
+
+    save(storage, progress);
+    expect(await migrateLocalProgress(remote, 'user-1', storage)).toBe(false);
+    expect(remote.imports).toHaveLength(1);
+  });
+
+  it('should keep progress an account with its own history turned down', async () => {
+    const storage = new MemoryStorage();
+    const remote = new FakeRemote(false);
+    save(storage, progress);
+
+    expect(await migrateLocalProgress(remote, 'user-1', storage)).toBe(false);
+    expect(storage.getItem(LOCAL_PROGRESS_KEY)).not.toBeNull();
+    expect(JSON.parse(storage.getItem(IMPORTED_KEY)!)).toEqual(['user-1']);
+
+    await migrateLocalProgress(remote, 'user-1', storage);
+    expect(remote.imports).toHaveLength(1);
+  });
+
+  it('should not offer an empty save', async () => {
+    const storage = new MemoryStorage();
+    const remote = new FakeRemote();
+    save(storage, { version: SAVE_VERSION, profile: { level: 1, experience: 0, longestStreak: 0 }, achievements: [] });
+
+    expect(await migrateLocalProgress(remote, 'user-1', storage)).toBe(false);
+    expect(remote.imports).toEqual([]);
+  });
+});
+
+describe('toAchievement', () => {
+  const definition: AchievementDefinition = {
+    id: 'meditation_streak_7',
+    type: 'streak',
+    name: 'Meditation Master',
+    description: 'Meditate for 7 consecutive days',
+    icon: '🎯',
+    points: 100,
+    tier: 'gold',
+    max_progress: 7,
+    category: 'wellness',
+    requirement: 'Meditate for 7 consecutive days',
+    criteria: { type: 'streak', source: 'wellness', session_type: 'meditation', target: 7 },
+  };
+
+  it('should show the progress and unlock time the server recorded', () => {
+    expect(toAchievement(definition, {
+      achievement_id: 'meditation_streak_7',
+      progress: 7,
+      is_completed: true,
+      completed_at: '2026-05-08T07:00:00Z',
+    })).toMatchObject({
+      category: 'streak',
+      rarity: 'epic',
+      requirement: 7,
+      xpReward: 100,
+      progress: 7,
+      unlockedAt: new Date('2026-05-08T07:00:00Z'),
+    });
+  });
+
+  it('should start locked when the server has no record yet', () => {
+    const firstYoga = {
+      ...definition,
+      id: 'first_yoga',
+      max_progress: 1,
+      tier: 'bronze' as const,
+      criteria: { type: 'count', source: 'wellness' as const, session_type: 'yoga' as const, target: 1 },
+    };
+
+    expect(toAchievement(firstYoga)).toMatchObject({ category: 'yoga', rarity: 'common', progress: 0, unlockedAt: undefined });
+  });
+});
@@ -0,0 +1,190 @@
+// ============================================================================
+// Unit Tests: Intervention Trigger Engine
+// ============================================================================
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  InterventionEngine,
+  buildMetricSamples,
+  evaluateTrigger,
+  evaluateTriggers,
+  isInCooldown,
+  moodScore,
+} from '@/services/interventions';
+import type { MetricSample, TriggerCondition } from '@/services/interventions';
+import type { InterventionTrigger } from '@/types/advanced';
+
+const NOW = new Date('2026-03-10T12:00:00.000Z');
+
+const hoursAgo = (hours: number): string => new Date(NOW.getTime() - hours * 60 * 60 * 1000).toISOString();
+
+const makeTrigger = (condition: TriggerCondition, overrides: Partial<InterventionTrigger> = {}): InterventionTrigger => ({
+  id: 't1',
+  user_id: 'user-1',
+  trigger_type: 'mood_drop',
+  condition,
+  intervention_action: 'notification',
+  intervention_config: {},
+  is_active: true,
+  trigger_count: 0,
+  created_at: hoursAgo(100),
+  ...overrides,
+});
+
+const sample = (metric: string, value: number, hours: number): MetricSample => ({
+  metric,
+  value,
+  timestamp: hoursAgo(hours),
+});
+
+describe('buildMetricSamples', () => {
+  it('should score moods so negative emotions read low', () => {
+    expect(moodScore('happy', 9)).toBe(9);
+    expect(moodScore('sad', 9)).toBe(2);
+  });
+
+  it('should convert wearable sleep minutes to hours and skip non-numeric points', () => {
+    const samples = buildMetricSamples({
+      wearables: [
+        { id: 'a', device_id: 'd', user_id: 'u', data_type: 'sleep', value: 360, unit: 'minutes', timestamp: hoursAgo(2), source: 'oura', created_at: hoursAgo(2) },
+        { id: 'b', device_id: 'd', user_id: 'u', data_type: 'sleep_stages', value: { deep: 60 }, unit: 'min', timestamp: hoursAgo(2), source: 'oura', created_at: hoursAgo(2) },
+      ],
+    });
+
+    expect(samples).toEqual([{ metric: 'sleep_hours', value: 6, timestamp: hoursAgo(2) }]);
+  });
+
+  it('should derive risk scores from mood notes and detected risk events', () => {
+    const samples = buildMetricSamples({
+      moods: [{ emotion: 'sad', intensity: 8, createdAt: hoursAgo(3), note: 'I want to end my life' }],
+      risks: [{ level: 'moderate', detectedAt: hoursAgo(1) }],
+    });
+
+    expect(samples.filter((s) => s.metric === 'risk_score').map((s) => s.value)).toEqual([3, 2]);
+  });
+});
+
+describe('evaluateTrigger', () => {
+  it('should compare the window average against the threshold', () => {
+    const trigger = makeTrigger({ metric: 'stress_level', operator: 'gte', threshold: 7, time_window_hours: 24 });
+    const samples = [sample('stress_level', 8, 2), sample('stress_level', 7, 10), sample('stress_level', 1, 30)];
+
+    const result = evaluateTrigger(trigger, samples, NOW);
+
+    expect(result.matched).toBe(true);
+    expect(result.value).toBe(7.5);
+  });
+
+  it('should sum event metrics and treat an empty window as zero', () => {
+    const trigger = makeTrigger({ metric: 'steps', operator: 'lt', threshold: 3000, time_window_hours: 24 });
+
+    expect(evaluateTrigger(trigger, [sample('steps', 2000, 2), sample('steps', 2000, 5)], NOW).matched).toBe(false);
+    expect(evaluateTrigger(trigger, [sample('steps', 9000, 48)], NOW)).toMatchObject({ matched: true, value: 0 });
+  });
+
+  it('should not match when the metric has never been recorded', () => {
+    const trigger = makeTrigger({ metric: 'steps', operator: 'lt', threshold: 3000 });
+    expect(evaluateTrigger(trigger, [], NOW).matched).toBe(false);
+  });
+
+  it('should detect a drop against the previous window', () => {
+    const trigger = makeTrigger({ metric: 'mood_score', operator: 'change', change_percentage: -20, time_window_hours: 24 });
+    const samples = [sample('mood_score', 8, 30), sample('mood_score', 8, 40), sample('mood_score', 5, 3)];
+
+    const result = evaluateTrigger(trigger, samples, NOW);
+
+    expect(result.matched).toBe(true);
+    expect(result.previousValue).toBe(8);
+    expect(result.changePercentage).toBeCloseTo(-37.5);
+  });
+
+  it('should not match a drop trigger on a rise', () => {
+    const trigger = makeTrigger({ metric: 'mood_score', operator: 'change', change_percentage: -20, time_window_hours: 24 });
+    const samples = [sample('mood_score', 4, 30), sample('mood_score', 8, 3)];
+
+    expect(evaluateTrigger(trigger, samples, NOW).matched).toBe(false);
+  });
+  it('should take the worst risk score in the window', () => {
+    const trigger = makeTrigger({ metric: 'risk_score', operator: 'gte', threshold: 3, time_window_hours: 24 }, { trigger_type: 'risk_detected' });
+    const samples = [sample('risk_score', 0, 1), sample('risk_score', 3, 5), sample('risk_score', 1, 8)];
+
+    expect(evaluateTrigger(trigger, samples, NOW)).toMatchObject({ matched: true, value: 3 });
+  });
+});
+
+describe('evaluateTriggers', () => {
+  it('should skip paused triggers and respect the cooldown', () => {
+    const condition: TriggerCondition = { metric: 'stress_level', operator: 'gt', threshold: 5, time_window_hours: 12 };
+    const samples = [sample('stress_level', 9, 1)];
+    const paused = makeTrigger(condition, { id: 'paused', is_active: false });
+    const cooling = makeTrigger(condition, { id: 'cooling', last_triggered_at: hoursAgo(6) });
+    const ready = makeTrigger(condition, { id: 'ready', last_triggered_at: hoursAgo(13) });
+
+    const results = evaluateTriggers([paused, cooling, ready], samples, NOW);
+
+    expect(results.map((r) => [r.triggerId, r.matched])).toEqual([['cooling', false], ['ready', true]]);
+    expect(isInCooldown(cooling, NOW)).toBe(true);
+  });
+});
+
+describe('InterventionEngine', () => {
+  let engine: InterventionEngine;
+  const notification = vi.fn().mockResolvedValue(undefined);
+
+  beforeEach(() => {
+    localStorage.clear();
+    notification.mockClear();
+    engine = new InterventionEngine({ storage: localStorage, handlers: { notification }, now: () => NOW });
+  });
+
+  it('should record an execution and fire the configured action', async () => {
+    const trigger = engine.createTrigger('user-1', {
+      trigger_type: 'stress_indicator',
+      condition: { metric: 'mood_score', operator: 'lte', threshold: 3, time_window_hours: 24 },
+      intervention_action: 'notification',
+      intervention_config: { message: 'Take a breather' },
+    });
+
+    const fired = await engine.run('user-1', { moods: [{ emotion: 'anxious', intensity: 9, createdAt: hoursAgo(1) }] });
+
+    expect(fired).toHaveLength(1);
+    expect(fired[0]).toMatchObject({ trigger_id: trigger.id, status: 'sent', message: 'Take a breather' });
+    expect(notification).toHaveBeenCalledOnce();
+    expect(engine.getTriggers('user-1')[0].trigger_count).toBe(1);
+
+    // Cooling down: a second run right away fires nothing
+    expect(await engine.run('user-1', { moods: [{ emotion: 'anxious', intensity: 9, createdAt: hoursAgo(1) }] })).toHaveLength(0);
+  });
+
+  it('should track outcomes and effectiveness per trigger', async () => {
+    const trigger = engine.createTrigger('user-1', {
+      trigger_type: 'stress_indicator',
+      condition: { metric: 'mood_score', operator: 'lte', threshold: 3 },
+      intervention_action: 'notification',
+    });
+    const [execution] = await engine.run('user-1', { moods: [{ emotion: 'sad', intensity: 10, createdAt: hoursAgo(1) }] });
+
+    engine.recordOutcome(execution.id, { action_taken: true, effectiveness_rating: 4, mood_change: 2 });
+
+    expect(engine.getExecutions('user-1')[0].status).toBe('completed');
+    expect(engine.getEffectiveness('user-1', trigger.id)).toEqual({
+      executions: 1,
+      actedOn: 1,
+      averageRating: 4,
+      averageMoodChange: 2,
+    });
+  });
+
+  it('should keep the execution pending when the action fails', async () => {
+    notification.mockRejectedValueOnce(new Error('offline'));
+    engine.createTrigger('user-1', {
+      trigger_type: 'stress_indicator',
+      condition: { metric: 'mood_score', operator: 'lte', threshold: 3 },
+      intervention_action: 'notification',
+    });
+
+    const [execution] = await engine.run('user-1', { moods: [{ emotion: 'sad', intensity: 10, createdAt: hoursAgo(1) }] });
+
+    expect(execution.status).toBe('pending');
+  });
+});
@@ -0,0 +1,85 @@
+// ============================================================================
+// Unit Tests: Leaderboards
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { LeaderboardService, positionChange } from '@/services/leaderboards';
+import type { LeaderboardPeriod, LeaderboardRow, LeaderboardScope, LeaderboardStore } from '@/services/leaderboards';
+
+const VIEWER = 'user-me';
+
+const row = (userId: string, rank: number, previousRank: number | null, onPage = true): LeaderboardRow => ({
+  user_id: userId,
+  display_name: userId === VIEWER ? 'Sam' : `Member ${rank}`,
+  avatar_url: null,
+  score: 1000 - rank * 10,
+  level: 3,
+  streak: 4,
+  rank,
+  previous_rank: previousRank,
+  total_count: 45,
+  on_page: onPage,
+});
+
+class FakeLeaderboardStore implements LeaderboardStore {
+  calls: { period: LeaderboardPeriod; scope: LeaderboardScope; offset: number; limit: number }[] = [];
+
+  constructor(private rows: LeaderboardRow[]) {}
+
+  async fetch(period: LeaderboardPeriod, scope: LeaderboardScope, offset: number, limit: number): Promise<LeaderboardRow[]> {
+    this.calls.push({ period, scope, offset, limit });
+    return this.rows;
+  }
+
+  async getVisibility(): Promise<boolean> {
+    return false;
+  }
+
+  async setVisibility(): Promise<void> {}
+}
+
+describe('LeaderboardService', () => {
+  it('should request the page window and keep the viewer apart from the page', async () => {
+    const store = new FakeLeaderboardStore([row('user-a', 11, 14), row('user-b', 12, 9), row(VIEWER, 30, null, false)]);
+    const service = new LeaderboardService({ store, pageSize: 10 });
+
+    const page = await service.getPage('monthly', 2, VIEWER);
+
+    expect(store.calls).toEqual([{ period: 'monthly', scope: 'global', offset: 10, limit: 10 }]);
+    expect(page).toMatchObject({ period: 'monthly', page: 2, total: 45, hasMore: true });
+    expect(page.entries.map((entry) => [entry.userId, entry.rank, positionChange(entry)])).toEqual([
+      ['user-a', 11, 3],
+      ['user-b', 12, -3],
+    ]);
+    expect(page.viewer).toMatchObject({ userId: VIEWER, name: 'Sam', avatar: 'S', rank: 30, isCurrentUser: true });
+    expect(positionChange(page.viewer!)).toBeNull();
+  });
+
+  it('should list the viewer in place when they are on the page', async () => {
+    const service = new LeaderboardService({ store: new FakeLeaderboardStore([row('user-a', 1, 1), row(VIEWER, 2, 2)]) });
+
+    const page = await service.getPage('weekly', 1, VIEWER);
+
+    expect(page.entries.map((entry) => entry.isCurrentUser)).toEqual([false, true]);
+    expect(page.viewer?.rank).toBe(2);
+    expect(page.hasMore).toBe(true);
+  });
+
+  it('should mark everyone but the viewer as a friend on the friends board', async () => {
+    const store = new FakeLeaderboardStore([row('user-a', 1, 1), row(VIEWER, 2, 2)]);
+
+    const page = await new LeaderboardService({ store }).getPage('weekly', 1, VIEWER, 'friends');
+
+    expect(store.calls[0].scope).toBe('friends');
+    expect(page.entries.map((entry) => entry.isFriend)).toEqual([true, false]);
+  });
+
+  it('should return an empty board without an account or a backend', async () => {
+    const store = new FakeLeaderboardStore([row('user-a', 1, null)]);
+
+    expect((await new LeaderboardService({ store }).getPage('all_time', 1, null)).entries).toEqual([]);
+    expect(store.calls).toEqual([]);
+    expect(await new LeaderboardService({ store: null }).getPage('weekly', 1, VIEWER)).toMatchObject({ total: 0, viewer: null });
+    await expect(new LeaderboardService({ store: null }).setVisibility(VIEWER, true)).rejects.toThrow('signed-in account');
+  });
+});
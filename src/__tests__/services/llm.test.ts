@@ -0,0 +1,176 @@
+// ============================================================================
+// Unit Tests: LLM Provider Layer
+// ============================================================================
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  FakeLLMProvider,
+  GeminiProvider,
+  LLMError,
+  OllamaProvider,
+  OpenAICompatibleProvider,
+  fitToTokenBudget,
+  generateJSON,
+  parseJSONOutput,
+} from '@/services/llm';
+import type { LLMProvider, LLMResult } from '@/services/llm';
+import { generateMoodInsights } from '@/services/aiInsights';
+import type { MoodEntry } from '@/contexts/MoodContext';
+
+// Serves a canned body the way a local model server would, one chunk at a time
+const mockServer = (chunks: string[], init: ResponseInit = {}) => {
+  const encoder = new TextEncoder();
+  return vi.fn(async (_url: string, _init?: RequestInit) => new Response(
+    new ReadableStream({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    }),
+    init
+  )) as unknown as typeof fetch & ReturnType<typeof vi.fn>;
+};
+
+async function collect(provider: LLMProvider, prompt: string): Promise<{ chunks: string[]; result: LLMResult }> {
+  const stream = provider.stream({ prompt });
+  const chunks: string[] = [];
+  let next = await stream.next();
+  while (!next.done) {
+    chunks.push(next.value as string);
+    next = await stream.next();
+  }
+  return { chunks, result: next.value as LLMResult };
+}
+
+describe('token budgeting', () => {
+  it('should keep leading items that fit the budget', () => {
+    expect(fitToTokenBudget(['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)], 25)).toHaveLength(2);
+  });
+
+  it('should reject prompts that cannot fit alongside the output cap', async () => {
+    const provider = new FakeLLMProvider();
+    await expect(provider.generate({ prompt: 'x'.repeat(40000) })).rejects.toMatchObject({ code: 'BUDGET_EXCEEDED' });
+  });
+});
+
+describe('structured output', () => {
+  const schema = z.object({ summary: z.string(), tags: z.array(z.string()) });
+
+  it('should extract JSON wrapped in prose or code fences', () => {
+    const parsed = parseJSONOutput('Sure!\n```json\n{"summary":"ok","tags":["a"]}\n```', schema);
+    expect(parsed).toEqual({ success: true, data: { summary: 'ok', tags: ['a'] } });
+  });
+
+  it('should retry once with the validation errors, then give up', async () => {
+    const provider = new FakeLLMProvider([
+      { match: 'rejected', reply: '{"summary":"fixed","tags":[]}' },
+      { reply: '{"summary": 3}' },
+    ]);
+
+    await expect(generateJSON(provider, { prompt: 'Summarize' }, schema)).resolves.toEqual({ summary: 'fixed', tags: [] });
+    expect(provider.calls).toHaveLength(2);
+    expect(provider.calls[1].prompt).toContain('summary: Expected string');
+
+    const stubborn = new FakeLLMProvider([{ reply: 'not json' }]);
+    await expect(generateJSON(stubborn, { prompt: 'Summarize' }, schema)).rejects.toMatchObject({ code: 'INVALID_OUTPUT' });
+  });
+});
+
+describe('HTTP adapters', () => {
+  it('should call Gemini with the key in a header and report usage', async () => {
+    const fetchImpl = mockServer([JSON.stringify({
+      candidates: [{ content: { parts: [{ text: 'Hello' }, { text: ' there' }] } }],
+      usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 3 },
+    })]);
+    const provider = new GeminiProvider({ provider: 'gemini', apiKey: 'secret' }, fetchImpl);
+
+    const result = await provider.generate({ prompt: 'Hi', json: true });
+
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent');
+    expect(url).not.toContain('secret');
+    expect((init.headers as Record<string, string>)['x-goog-api-key']).toBe('secret');
+    expect(JSON.parse(init.body as string).generationConfig.responseMimeType).toBe('application/json');
+    expect(result).toMatchObject({ text: 'Hello there', usage: { promptTokens: 12, completionTokens: 3, estimated: false } });
+  });
+
+  it('should refuse to call Gemini without a key', async () => {
+    const provider = new GeminiProvider({ provider: 'gemini' }, mockServer(['{}']));
+    await expect(provider.generate({ prompt: 'Hi' })).rejects.toMatchObject({ code: 'NOT_CONFIGURED' });
+  });
+
+  it('should stream OpenAI-compatible SSE deltas split across chunks', async () => {
+    const fetchImpl = mockServer([
+      'data: {"choices":[{"delta":{"content":"Take a"}}]}\n\ndata: {"choices":[{"de',
+      'lta":{"content":" breath"}}]}\n\n',
+      'data: [DONE]\n\n',
+    ]);
+    const provider = new OpenAICompatibleProvider({ provider: 'openai', baseUrl: 'http://localhost:8080/v1/' }, fetchImpl);
+
+    const { chunks, result } = await collect(provider, 'Help');
+
+    expect(fetchImpl.mock.calls[0][0]).toBe('http://localhost:8080/v1/chat/completions');
+    expect(chunks).toEqual(['Take a', ' breath']);
+    expect(result).toMatchObject({ text: 'Take a breath', provider: 'openai', usage: { estimated: true } });
+  });
+
+  it('should stream Ollama NDJSON', async () => {
+    const fetchImpl = mockServer([
+      '{"response":"Be ","done":false}\n{"response":"kind","done":false}\n',
+      '{"response":"","done":true,"prompt_eval_count":5,"eval_count":2}\n',
+    ]);
+    const provider = new OllamaProvider({ provider: 'ollama', model: 'tiny' }, fetchImpl);
+
+    const { result } = await collect(provider, 'Advice');
+
+    expect(JSON.parse(fetchImpl.mock.calls[0][1].body as string)).toMatchObject({ model: 'tiny', stream: true });
+    expect(result).toMatchObject({ text: 'Be kind', usage: { promptTokens: 5, completionTokens: 2, estimated: false } });
+  });
+
+  it('should surface HTTP errors and timeouts as coded LLMErrors', async () => {
+    const failing = new OllamaProvider({ provider: 'ollama' }, mockServer(['model not found'], { status: 404 }));
+    await expect(failing.generate({ prompt: 'Hi' })).rejects.toMatchObject({ code: 'HTTP_ERROR', status: 404 });
+
+    const hanging = vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      init.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    })) as unknown as typeof fetch;
+    const slow = new OllamaProvider({ provider: 'ollama' }, hanging);
+
+    const error = await slow.generate({ prompt: 'Hi', timeoutMs: 10 }).catch((e) => e);
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error.code).toBe('TIMEOUT');
+  });
+});
+
+describe('generateMoodInsights', () => {
+  const entries: MoodEntry[] = Array.from({ length: 5 }, (_, i) => ({
+    id: `m${i}`,
+    emotion: 'calm',
+    intensity: 6,
+    privacy: 'private',
+    createdAt: new Date(2026, 2, i + 1),
+    updatedAt: new Date(2026, 2, i + 1),
+  }));
+
+  it('should turn validated JSON into insight cards', async () => {
+    const provider = new FakeLLMProvider([{
+      reply: JSON.stringify({ summary: 'Steady week', patterns: ['Calm mornings'], suggestions: [], reflection: 'What helped?' }),
+    }]);
+
+    const response = await generateMoodInsights(entries, 'week', provider);
+
+    expect(response.summary).toBe('Steady week');
+    expect(response.insights.map((insight) => insight.type)).toEqual(['summary', 'pattern', 'reflection']);
+    expect(provider.calls[0].json).toBe(true);
+  });
+
+  it('should fall back to local insights when the provider fails', async () => {
+    const provider = new FakeLLMProvider([{ reply: () => { throw new LLMError('HTTP_ERROR', 'down'); } }]);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await generateMoodInsights(entries, 'week', provider);
+
+    expect(response.insights[0].id).toBe('fallback-1');
+  });
+});
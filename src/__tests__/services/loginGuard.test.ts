@@ -0,0 +1,159 @@
+// ============================================================================
+// Unit Tests: Login Guard
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createElement } from 'react';
+import type { ReactNode } from 'react';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import { DEMO_USER, MockAuthAdapter } from '@/services/authAdapter';
+import { DeviceSessionService, LocalDeviceSessionStore } from '@/services/deviceSessions';
+import { emailQueue } from '@/services/emailService';
+import { LoginGuard } from '@/services/loginGuard';
+import { DEFAULT_LOGIN_POLICY } from '@/lib/loginPolicy';
+
+const EMAIL = 'sam@example.com';
+
+describe('LoginGuard', () => {
+  let now: number;
+  const createGuard = () => new LoginGuard({ storage: localStorage, now: () => now });
+
+  beforeEach(() => {
+    localStorage.clear();
+    now = Date.UTC(2026, 2, 10, 12);
+  });
+
+  it('should throttle the account after the free attempts', () => {
+    const guard = createGuard();
+    for (let i = 0; i < DEFAULT_LOGIN_POLICY.freeAttempts; i++) {
+      expect(guard.recordFailure(EMAIL, 'device-a').decision.allowed).toBe(true);
+    }
+
+    const { decision } = guard.recordFailure(EMAIL, 'device-a');
+    expect(decision).toEqual({ allowed: false, retryAfterMs: 1000, locked: false });
+    // A different device is still held back by the account counter
+    expect(guard.check(EMAIL, 'device-b').allowed).toBe(false);
+    expect(guard.check('  SAM@example.com ', 'device-b').allowed).toBe(false);
+
+    now += 1000;
+    expect(guard.check(EMAIL, 'device-b').allowed).toBe(true);
+  });
+
+  it('should throttle a device that cycles through accounts', () => {
+    const guard = createGuard();
+    ['a', 'b', 'c', 'd'].forEach((name) => guard.recordFailure(`${name}@example.com`, 'device-a'));
+
+    expect(guard.check('e@example.com', 'device-a').allowed).toBe(false);
+    expect(guard.check('e@example.com', 'device-b').allowed).toBe(true);
+  });
+
+  it('should clear the account on success but keep the device count', () => {
+    const guard = createGuard();
+    for (let i = 0; i < 4; i++) guard.recordFailure(EMAIL, 'device-a');
+
+    guard.recordSuccess(EMAIL);
+
+    expect(guard.check(EMAIL, 'device-b').allowed).toBe(true);
+    expect(guard.check(EMAIL, 'device-a').allowed).toBe(false);
+  });
+
+  it('should lock out and report the burst once', () => {
+    const guard = createGuard();
+    const bursts: boolean[] = [];
+    let last = guard.recordFailure(EMAIL, 'device-a');
+    bursts.push(last.burst !== null);
+
+    for (let i = 1; i < DEFAULT_LOGIN_POLICY.lockoutThreshold; i++) {
+      now += 20 * 1000;
+      last = guard.recordFailure(EMAIL, 'device-a');
+      bursts.push(last.burst !== null);
+    }
+
+    expect(bursts.filter(Boolean)).toHaveLength(1);
+    expect(bursts.indexOf(true)).toBe(DEFAULT_LOGIN_POLICY.burstThreshold - 1);
+    expect(last.decision).toEqual({ allowed: false, retryAfterMs: DEFAULT_LOGIN_POLICY.lockoutMs, locked: true });
+
+    // The lock survives a reload
+    expect(createGuard().check(EMAIL, 'device-c').locked).toBe(true);
+  });
+
+  it('should leave account counters to the server when told to', () => {
+    const guard = new LoginGuard({ storage: localStorage, countAccounts: false, now: () => now });
+    for (let i = 0; i < DEFAULT_LOGIN_POLICY.burstThreshold; i++) {
+      expect(guard.recordFailure(EMAIL, 'device-a').burst).toBeNull();
+    }
+
+    expect(guard.check(EMAIL, 'device-a').allowed).toBe(false);
+    expect(guard.check(EMAIL, 'device-b').allowed).toBe(true);
+    expect(Object.keys(JSON.parse(localStorage.getItem('moodmash_login_attempts') ?? '{}'))).toEqual(['device:device-a']);
+  });
+
+  it('should drop stale counters from storage', () => {
+    const guard = createGuard();
+    guard.recordFailure(EMAIL, 'device-a');
+
+    now += DEFAULT_LOGIN_POLICY.failureWindowMs;
+    guard.recordFailure('other@example.com', 'device-b');
+
+    expect(Object.keys(JSON.parse(localStorage.getItem('moodmash_login_attempts') ?? '{}'))).toEqual([
+      'account:other@example.com',
+      'device:device-b',
+    ]);
+  });
+});
+
+describe('AuthProvider sign-in throttling', () => {
+  const renderAuth = (loginGuard: LoginGuard) => {
+    const adapter = new MockAuthAdapter({ storage: localStorage });
+    const deviceSessions = new DeviceSessionService({ store: new LocalDeviceSessionStore(localStorage), storage: localStorage });
+    return renderHook(() => useAuth(), {
+      wrapper: ({ children }: { children: ReactNode }) => createElement(AuthProvider, { adapter, deviceSessions, loginGuard, children }),
+    });
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should refuse attempts while throttled without calling the adapter', async () => {
+    const signIn = vi.spyOn(MockAuthAdapter.prototype, 'signIn');
+    const { result } = renderAuth(new LoginGuard({ storage: localStorage }));
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    for (let i = 0; i < DEFAULT_LOGIN_POLICY.freeAttempts + 1; i++) {
+      await act(() => result.current.loginWithEmail(DEMO_USER.email, 'wrong'));
+    }
+    expect(result.current.error).toBe('invalid_password');
+    expect(result.current.loginRetryAt).toBeInstanceOf(Date);
+    expect(signIn).toHaveBeenCalledTimes(DEFAULT_LOGIN_POLICY.freeAttempts + 1);
+
+    await act(() => result.current.loginWithEmail(DEMO_USER.email, DEMO_USER.password));
+    expect(result.current).toMatchObject({ isAuthenticated: false, error: 'rate_limit_exceeded' });
+    expect(signIn).toHaveBeenCalledTimes(DEFAULT_LOGIN_POLICY.freeAttempts + 1);
+  });
+
+  it('should alert and queue an email when failures come in a burst', async () => {
+    const queued = vi.spyOn(emailQueue, 'add').mockResolvedValue();
+    const guard = new LoginGuard({ storage: localStorage, policy: { ...DEFAULT_LOGIN_POLICY, freeAttempts: 10, burstThreshold: 3 } });
+    const { result } = renderAuth(guard);
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+    for (let i = 0; i < 3; i++) {
+      await act(() => result.current.loginWithEmail(DEMO_USER.email, 'wrong'));
+    }
+
+    expect(result.current.securityAlerts).toHaveLength(1);
+    expect(result.current.securityAlerts[0]).toMatchObject({ type: 'suspicious_activity', severity: 'high' });
+    expect(queued).toHaveBeenCalledTimes(1);
+    expect(queued).toHaveBeenCalledWith('securityAlert', expect.objectContaining({ userEmail: DEMO_USER.email }));
+
+    await act(() => result.current.loginWithEmail(DEMO_USER.email, DEMO_USER.password));
+    expect(result.current).toMatchObject({ isAuthenticated: true, loginRetryAt: null });
+  });
+});
@@ -0,0 +1,96 @@
+// ============================================================================
+// Unit Tests: ML Worker Client
+// ============================================================================
+
+import { describe, it, expect, vi } from 'vitest';
+import { addDays } from 'date-fns';
+import { MLService } from '@/data/mlModels';
+import { MLClient } from '@/services/mlClient';
+import { createMLRequestHandler } from '@/workers/mlProtocol';
+import type { MLMoodSample, MLRequest, MLResponse } from '@/workers/mlProtocol';
+
+// Runs the real worker message loop, delivering messages asynchronously in
+// both directions the way postMessage does
+class FakeWorker extends EventTarget {
+  sent: MLRequest[] = [];
+  terminated = false;
+  private handle: (request: MLRequest) => Promise<void>;
+
+  constructor(service: MLService = new MLService()) {
+    super();
+    this.handle = createMLRequestHandler(service, (response: MLResponse) => {
+      setTimeout(() => this.dispatchEvent(new MessageEvent('message', { data: response })), 0);
+    });
+  }
+
+  postMessage(request: MLRequest): void {
+    this.sent.push(request);
+    setTimeout(() => this.handle(request), 0);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+}
+
+const history: MLMoodSample[] = Array.from({ length: 20 }, (_, i) => ({
+  emotion: ['happy', 'calm', 'anxious', 'tired'][i % 4],
+  intensity: 3 + (i % 6),
+  timestamp: addDays(new Date(2026, 0, 1, 9), i),
+}));
+
+describe('MLClient', () => {
+  it('should run requests in the worker and stream training progress', async () => {
+    const worker = new FakeWorker();
+    const client = new MLClient({ createWorker: () => worker as unknown as Worker });
+    const onProgress = vi.fn();
+
+    const state = await client.trainPredictionModel(history, { onProgress });
+
+    expect(worker.sent[0]).toMatchObject({ type: 'trainPredictionModel', params: { history } });
+    expect(state).toMatchObject({ isTrained: true, version: '1.1.0' });
+    expect(onProgress).toHaveBeenCalledTimes(50);
+    expect(onProgress).toHaveBeenLastCalledWith(expect.objectContaining({ epoch: 50, epochs: 50 }));
+
+    const predictions = await client.predictMoods(history, 3);
+    expect(predictions.predictions).toHaveLength(3);
+  });
+
+  it('should cancel training and keep the previous weights', async () => {
+    const worker = new FakeWorker();
+    const client = new MLClient({ createWorker: () => worker as unknown as Worker });
+    await client.trainPredictionModel(history);
+    const before = await client.exportPredictionModel();
+    const controller = new AbortController();
+
+    const training = client.trainPredictionModel(history, {
+      signal: controller.signal,
+      onProgress: ({ epoch }) => epoch === 3 && controller.abort(),
+    });
+
+    await expect(training).rejects.toMatchObject({ name: 'AbortError' });
+    expect(worker.sent.map((message) => message.type)).toContain('cancel');
+    expect(await client.getModelState()).toMatchObject({ isTrained: true, version: '1.1.0' });
+    expect(await client.exportPredictionModel()).toBe(before);
+  });
+
+  it('should surface worker errors as rejections', async () => {
+    const client = new MLClient({ createWorker: () => new FakeWorker() as unknown as Worker });
+
+    await expect(client.importPredictionModel('not json')).rejects.toMatchObject({ name: 'SyntaxError' });
+  });
+
+  it('should run in-process when workers are unavailable', async () => {
+    const service = new MLService();
+    const client = new MLClient({ createWorker: null, service });
+    const onProgress = vi.fn();
+
+    await client.trainPredictionModel(history, { onProgress });
+
+    expect(onProgress).toHaveBeenCalled();
+    expect(service.getModelState().isTrained).toBe(true);
+    await expect(client.analyzeSentiment('I feel calm and grateful')).resolves.toMatchObject({
+      overallScore: expect.any(Number),
+    });
+  });
+});
@@ -0,0 +1,137 @@
+// ============================================================================
+// Unit Tests: Mood Prediction Model Lifecycle
+// ============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { addDays, subDays } from 'date-fns';
+import { MLService } from '@/data/mlModels';
+import { MLClient } from '@/services/mlClient';
+import {
+  LocalModelStore,
+  ModelLifecycle,
+  computeRollingAccuracy,
+  verifyPredictions,
+} from '@/services/modelLifecycle';
+import type { MoodSample, StoredPrediction } from '@/services/modelLifecycle';
+
+const start = new Date(2026, 2, 1, 12);
+const EMOTIONS = ['happy', 'calm', 'anxious', 'tired'];
+
+const moodsFor = (days: number, from: Date = start): MoodSample[] =>
+  Array.from({ length: days }, (_, i) => ({
+    emotion: EMOTIONS[i % EMOTIONS.length],
+    intensity: 3 + (i % 6),
+    timestamp: addDays(from, i),
+  }));
+
+const prediction = (date: string, predicted: string, extra: Partial<StoredPrediction> = {}): StoredPrediction => ({
+  user_id: 'user-1',
+  predicted_date: date,
+  predicted_emotion: predicted,
+  confidence_score: 0.5,
+  is_verified: false,
+  ...extra,
+});
+
+describe('prediction scoring', () => {
+  it('should verify past predictions against the dominant logged emotion', () => {
+    const now = new Date(2026, 2, 5, 9);
+    const moods: MoodSample[] = [
+      { emotion: 'Calm', intensity: 6, timestamp: new Date(2026, 2, 3, 8) },
+      { emotion: 'calm', intensity: 5, timestamp: new Date(2026, 2, 3, 20) },
+      { emotion: 'sad', intensity: 3, timestamp: new Date(2026, 2, 3, 22) },
+    ];
+
+    const verified = verifyPredictions([
+      prediction('2026-03-03', 'calm'),
+      prediction('2026-03-04', 'happy'),
+      prediction('2026-03-05', 'calm'),
+    ], moods, now);
+
+    expect(verified).toEqual([prediction('2026-03-03', 'calm', { is_verified: true, actual_emotion: 'calm' })]);
+  });
+
+  it('should report rolling accuracy over verified predictions in the window', () => {
+    const now = new Date(2026, 2, 31);
+    const accuracy = computeRollingAccuracy([
+      prediction('2026-03-20', 'calm', { is_verified: true, actual_emotion: 'calm' }),
+      prediction('2026-03-21', 'calm', { is_verified: true, actual_emotion: 'sad' }),
+      prediction('2026-03-22', 'happy', { is_verified: true, actual_emotion: 'happy' }),
+      prediction('2026-03-23', 'happy'),
+      prediction('2026-02-01', 'happy', { is_verified: true, actual_emotion: 'sad' }),
+    ], 30, now);
+
+    expect(accuracy).toMatchObject({ verified: 3, correct: 2 });
+    expect(accuracy.rollingAccuracy).toBeCloseTo(2 / 3);
+    expect(computeRollingAccuracy([], 30, now).rollingAccuracy).toBeNull();
+  });
+});
+
+describe('ModelLifecycle', () => {
+  let store: LocalModelStore;
+
+  const inProcess = () => new MLClient({ createWorker: null, service: new MLService() });
+  const lifecycle = (now: Date, ml = inProcess()) =>
+    new ModelLifecycle({ store, ml, retrainThreshold: 5, now: () => now });
+
+  beforeEach(() => {
+    localStorage.clear();
+    store = new LocalModelStore(localStorage);
+  });
+
+  it('should wait for enough history before the first training', async () => {
+    const result = await lifecycle(start).sync('user-1', moodsFor(10));
+
+    expect(result.retrained).toBe(false);
+    expect(await store.getActiveSnapshot('user-1')).toBeNull();
+    expect(result.predictions.predictions).toHaveLength(7);
+  });
+
+  it('should snapshot trained weights and restore them into a fresh model', async () => {
+    const history = moodsFor(20);
+    const now = addDays(start, 20);
+    const first = await lifecycle(now).sync('user-1', history);
+
+    expect(first.retrained).toBe(true);
+    const snapshot = await store.getActiveSnapshot('user-1');
+    expect(snapshot).toMatchObject({ version: '1.1.0', is_active: true, training_data_info: { entry_count: 20 } });
+    expect(snapshot.weights_hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await store.listPredictions('user-1', '2026-01-01')).toHaveLength(7);
+
+    const restored = inProcess();
+    const second = await lifecycle(now, restored).sync('user-1', history);
+
+    expect(second.retrained).toBe(false);
+    const state = await restored.getModelState();
+    expect(state).toMatchObject({ isTrained: true, version: '1.1.0' });
+    expect(state.lastTrained).toBeInstanceOf(Date);
+  });
+
+  it('should retrain incrementally once the threshold of new entries is reached', async () => {
+    const instance = lifecycle(addDays(start, 30));
+    const trainedPoints = (await instance.sync('user-1', moodsFor(20))).state.dataPointsProcessed;
+
+    expect((await instance.sync('user-1', moodsFor(23))).retrained).toBe(false);
+
+    const result = await instance.sync('user-1', moodsFor(26));
+    expect(result.retrained).toBe(true);
+    expect(result.state.version).toBe('1.2.0');
+    expect(result.state.dataPointsProcessed).toBe(trainedPoints + 6);
+    expect((await store.getActiveSnapshot('user-1')).training_data_info).toMatchObject({ entry_count: 26, new_entries: 6 });
+  });
+
+  it('should score stored forecasts once the day has been logged', async () => {
+    const history = moodsFor(20);
+    const now = addDays(start, 19);
+    await lifecycle(now).sync('user-1', history);
+    const [tomorrow] = await store.listPredictions('user-1', '2026-01-01');
+
+    const later = addDays(now, 2);
+    const logged = [...history, { emotion: tomorrow.predicted_emotion, intensity: 6, timestamp: subDays(later, 1) }];
+    const result = await lifecycle(later).sync('user-1', logged);
+
+    expect(result.accuracy).toMatchObject({ verified: 1, correct: 1, rollingAccuracy: 1 });
+    const [stored] = await store.listPredictions('user-1', tomorrow.predicted_date);
+    expect(stored).toMatchObject({ is_verified: true, actual_emotion: tomorrow.predicted_emotion });
+  });
+});
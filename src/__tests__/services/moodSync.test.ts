@@ -0,0 +1,218 @@
+// ============================================================================
+// Unit Tests: Mood Sync Engine
+// ============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  MoodSyncEngine,
+  InMemoryMoodRemote,
+  resolveConflict,
+  coalesceOperation,
+} from '@/services/moodSync';
+import type { SyncRecord, SyncOperation } from '@/services/moodSync';
+import { EncryptionLockedError } from '@/lib/fieldEncryption';
+
+const makeRecord = (id: string, updatedAt: string, overrides: Partial<SyncRecord> = {}): SyncRecord => ({
+  id,
+  emotion: 'happy',
+  intensity: 7,
+  note: 'note',
+  tags: [],
+  privacy: 'private',
+  createdAt: '2026-01-01T10:00:00.000Z',
+  updatedAt,
+  ...overrides,
+});
+
+/** Fails like SupabaseMoodRemote does while there are notes to seal or open and no cipher */
+class SealingMoodRemote extends InMemoryMoodRemote {
+  locked = true;
+
+  async fetchAll(): Promise<SyncRecord[]> {
+    if (this.locked) throw new EncryptionLockedError();
+    return super.fetchAll();
+  }
+
+  async upsert(record: SyncRecord): Promise<SyncRecord> {
+    if (this.locked && record.note) throw new EncryptionLockedError();
+    return super.upsert(record);
+  }
+}
+
+const makeOp = (entryId: string, type: SyncOperation['type'], record?: SyncRecord): SyncOperation => ({
+  id: `op-${entryId}-${type}`,
+  entryId,
+  type,
+  record,
+  queuedAt: '2026-01-01T10:00:00.000Z',
+  attempts: 0,
+});
+
+describe('resolveConflict', () => {
+  it('should prefer the most recently updated record', () => {
+    const older = makeRecord('a', '2026-01-01T10:00:00.000Z');
+    const newer = makeRecord('a', '2026-01-01T11:00:00.000Z');
+
+    expect(resolveConflict(newer, older)).toBe('local');
+    expect(resolveConflict(older, newer)).toBe('remote');
+  });
+
+  it('should give ties to the remote record', () => {
+    const record = makeRecord('a', '2026-01-01T10:00:00.000Z');
+    expect(resolveConflict(record, { ...record })).toBe('remote');
+  });
+});
+
+describe('coalesceOperation', () => {
+  it('should fold an update into a pending create', () => {
+    const created = makeRecord('a', '2026-01-01T10:00:00.000Z');
+    const updated = makeRecord('a', '2026-01-01T11:00:00.000Z', { intensity: 3 });
+
+    const outbox = coalesceOperation([makeOp('a', 'create', created)], makeOp('a', 'update', updated));
+
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0].type).toBe('create');
+    expect(outbox[0].record?.intensity).toBe(3);
+  });
+
+  it('should drop a create that is deleted before it syncs', () => {
+    const outbox = coalesceOperation(
+      [makeOp('a', 'create', makeRecord('a', '2026-01-01T10:00:00.000Z'))],
+      makeOp('a', 'delete')
+    );
+
+    expect(outbox).toHaveLength(0);
+  });
+
+  it('should replace an update with a delete', () => {
+    const outbox = coalesceOperation(
+      [makeOp('a', 'update', makeRecord('a', '2026-01-01T10:00:00.000Z'))],
+      makeOp('a', 'delete')
+    );
+
+    expect(outbox).toHaveLength(1);
+    expect(outbox[0].type).toBe('delete');
+  });
+});
+
+describe('MoodSyncEngine', () => {
+  let remote: InMemoryMoodRemote;
+  let engine: MoodSyncEngine;
+
+  beforeEach(() => {
+    localStorage.clear();
+    remote = new InMemoryMoodRemote();
+    engine = new MoodSyncEngine({ remote, storage: localStorage });
+  });
+
+  it('should push queued creates to the remote', async () => {
+    const record = makeRecord('a', '2026-01-01T10:00:00.000Z');
+    engine.enqueue('create', 'a', record);
+
+    expect(engine.getStatus().state).toBe('pending');
+
+    await engine.flush();
+
+    expect(remote.rows.get('a')).toEqual(record);
+    expect(engine.getStatus().state).toBe('idle');
+    expect(engine.getStatus().pendingCount).toBe(0);
+  });
+
+  it('should keep operations in a durable outbox while offline', async () => {
+    remote.online = false;
+    engine.enqueue('create', 'a', makeRecord('a', '2026-01-01T10:00:00.000Z'));
+
+    await engine.flush();
+
+    expect(engine.getStatus().state).toBe('error');
+    expect(engine.getOutbox()[0].attempts).toBe(1);
+
+    // A fresh engine picks the outbox back up from storage
+    const restarted = new MoodSyncEngine({ remote, storage: localStorage });
+    expect(restarted.getStatus().pendingCount).toBe(1);
+
+    remote.online = true;
+    await restarted.flush();
+
+    expect(remote.rows.has('a')).toBe(true);
+    expect(restarted.getStatus().state).toBe('idle');
+  });
+
+  it('should pull remote-only entries and push local-only entries on reconcile', async () => {
+    const remoteOnly = makeRecord('remote', '2026-01-01T10:00:00.000Z');
+    const localOnly = makeRecord('local', '2026-01-01T10:00:00.000Z');
+    remote.rows.set('remote', remoteOnly);
+
+    const merged = await engine.reconcile([localOnly]);
+
+    expect(merged.map((r) => r.id).sort()).toEqual(['local', 'remote']);
+    expect(remote.rows.has('local')).toBe(true);
+  });
+
+  it('should resolve concurrent edits with last-write-wins and report the conflict', async () => {
+    remote.rows.set('a', makeRecord('a', '2026-01-01T12:00:00.000Z', { intensity: 9 }));
+    const localEdit = makeRecord('a', '2026-01-01T11:00:00.000Z', { intensity: 2 });
+    engine.enqueue('update', 'a', localEdit);
+
+    const merged = await engine.reconcile([localEdit]);
+
+    expect(merged[0].intensity).toBe(9);
+    expect(engine.getStatus().state).toBe('conflict');
+    expect(engine.getStatus().conflicts[0].resolution).toBe('remote');
+
+    engine.acknowledgeConflicts();
+    expect(engine.getStatus().state).toBe('idle');
+  });
+
+  it('should push the local copy when it is newer than the remote', async () => {
+    remote.rows.set('a', makeRecord('a', '2026-01-01T10:00:00.000Z', { intensity: 9 }));
+    const localEdit = makeRecord('a', '2026-01-01T11:00:00.000Z', { intensity: 2 });
+
+    await engine.reconcile([localEdit]);
+
+    expect(remote.rows.get('a')?.intensity).toBe(2);
+  });
+
+  it('should drop local entries deleted on another device', async () => {
+    const record = makeRecord('a', '2026-01-01T10:00:00.000Z');
+    remote.rows.set('a', record);
+    await engine.reconcile([record]);
+
+    remote.rows.delete('a');
+    const merged = await engine.reconcile([record]);
+
+    expect(merged).toHaveLength(0);
+  });
+
+  it('should notify subscribers of status changes', async () => {
+    const states: string[] = [];
+    engine.subscribe((status) => states.push(status.state));
+
+    engine.enqueue('create', 'a', makeRecord('a', '2026-01-01T10:00:00.000Z'));
+    await engine.flush();
+
+    expect(states).toContain('pending');
+    expect(states).toContain('syncing');
+    expect(states[states.length - 1]).toBe('idle');
+  });
+
+  it('should wait for encryption to unlock instead of reporting an error', async () => {
+    const sealing = new SealingMoodRemote([makeRecord('remote', '2026-01-01T10:00:00.000Z')]);
+    const locked = new MoodSyncEngine({ remote: sealing, storage: localStorage });
+    const local = makeRecord('local', '2026-01-01T11:00:00.000Z');
+
+    expect(await locked.reconcile([local])).toEqual([local]);
+    expect(locked.getStatus()).toMatchObject({ state: 'pending', locked: true, error: undefined });
+
+    locked.enqueue('create', 'local', local);
+    await locked.flush();
+    expect(locked.getStatus()).toMatchObject({ state: 'pending', locked: true, pendingCount: 1 });
+    expect(locked.getOutbox()[0].attempts).toBe(0);
+
+    sealing.locked = false;
+    const merged = await locked.reconcile([local]);
+
+    expect(merged.map((r) => r.id).sort()).toEqual(['local', 'remote']);
+    expect(locked.getStatus()).toMatchObject({ state: 'idle', locked: false, pendingCount: 0 });
+  });
+});
@@ -0,0 +1,358 @@
+// ============================================================================
+// Unit Tests: WebAuthn Verifier and Passkey Service
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { decodeCbor } from '@/lib/cbor';
+import { base64UrlToBytes, bytesToBase64Url } from '@/lib/crypto';
+import {
+  COSE_ALG_ES256,
+  COSE_ALG_RS256,
+  derToRawEcdsaSignature,
+  verifyAuthentication,
+  verifyRegistration,
+} from '@/lib/webauthn';
+import type { AuthenticationCredentialJSON } from '@/lib/webauthn';
+import { LocalPasskeyStore, PasskeyService } from '@/services/passkeys';
+import type { PasskeyCeremony, PasskeyRecord, PasskeyRegistrar } from '@/services/passkeys';
+import { DEMO_USER, MockAuthAdapter } from '@/services/authAdapter';
+import { ORIGIN, PLATFORM_PASSKEY, RP_ID, SECURITY_KEY } from '../fixtures/webauthn';
+import type { RecordedCredential } from '../fixtures/webauthn';
+
+const hex = (value: string) => new Uint8Array(value.match(/../g).map((byte) => parseInt(byte, 16)));
+
+const expected = { expectedOrigin: ORIGIN, expectedRpId: RP_ID };
+
+const stored = (credential: RecordedCredential, signCount: number) => ({
+  credentialId: credential.registration.response.id,
+  publicKey: credential.publicKey,
+  signCount,
+});
+
+const assert = (credential: RecordedCredential, index: number, signCount: number, overrides = {}) =>
+  verifyAuthentication({
+    response: credential.assertions[index].response,
+    expectedChallenge: credential.assertions[index].challenge,
+    credential: stored(credential, signCount),
+    ...expected,
+    ...overrides,
+  });
+
+function withField(response: AuthenticationCredentialJSON, field: 'signature' | 'authenticatorData', edit: (bytes: Uint8Array) => void) {
+  const bytes = base64UrlToBytes(response.response[field]);
+  edit(bytes);
+  return { ...response, response: { ...response.response, [field]: bytesToBase64Url(bytes) } };
+}
+
+describe('CBOR', () => {
+  it('should decode the RFC 8949 examples WebAuthn relies on', () => {
+    expect(decodeCbor(hex('00'))).toBe(0);
+    expect(decodeCbor(hex('1903e8'))).toBe(1000);
+    expect(decodeCbor(hex('3901ff'))).toBe(-512);
+    expect(decodeCbor(hex('6449455446'))).toBe('IETF');
+    expect(decodeCbor(hex('4401020304'))).toEqual(new Uint8Array([1, 2, 3, 4]));
+    expect(decodeCbor(hex('8301820203820405'))).toEqual([1, [2, 3], [4, 5]]);
+    expect(decodeCbor(hex('a201020304'))).toEqual(new Map([[1, 2], [3, 4]]));
+    expect(decodeCbor(hex('f97c00'))).toBe(Infinity);
+    expect(decodeCbor(hex('f5'))).toBe(true);
+  });
+
+  it('should reject truncated, indefinite-length and trailing input', () => {
+    expect(() => decodeCbor(hex('1903'))).toThrow('unexpected end');
+    expect(() => decodeCbor(hex('9f01ff'))).toThrow('unsupported');
+    expect(() => decodeCbor(hex('0000'))).toThrow('trailing');
+  });
+});
+
+describe('verifyRegistration', () => {
+  it('should accept a "none" attestation from a synced platform passkey', async () => {
+    const { registration, publicKey } = PLATFORM_PASSKEY;
+    const result = await verifyRegistration({ response: registration.response, expectedChallenge: registration.challenge, ...expected });
+
+    expect(result).toEqual({
+      credentialId: registration.response.id,
+      publicKey,
+      algorithm: COSE_ALG_ES256,
+      signCount: 0,
+      aaguid: '00000000-0000-0000-0000-000000000000',
+      transports: ['internal', 'hybrid'],
+      attestationFormat: 'none',
+      userVerified: true,
+      backupEligible: true,
+      backedUp: true,
+    });
+  });
+
+  it('should check a self-signed "packed" attestation', async () => {
+    const { registration, publicKey } = SECURITY_KEY;
+    const result = await verifyRegistration({ response: registration.response, expectedChallenge: registration.challenge, ...expected });
+
+    expect(result).toMatchObject({ publicKey, algorithm: COSE_ALG_RS256, signCount: 5, attestationFormat: 'packed', backedUp: false });
+  });
+
+  it('should reject a response to another challenge, origin or relying party', async () => {
+    const { registration } = PLATFORM_PASSKEY;
+    const base = { response: registration.response, expectedChallenge: registration.challenge, ...expected };
+
+    await expect(verifyRegistration({ ...base, expectedChallenge: 'c3RhbGU' })).rejects.toMatchObject({ code: 'CHALLENGE_MISMATCH' });
+    await expect(verifyRegistration({ ...base, expectedOrigin: 'https://moodmash.com' })).rejects.toMatchObject({ code: 'ORIGIN_MISMATCH' });
+    await expect(verifyRegistration({ ...base, expectedRpId: 'moodmash.com' })).rejects.toMatchObject({ code: 'RP_ID_MISMATCH' });
+    await expect(
+      verifyRegistration({ ...base, response: { ...registration.response, id: SECURITY_KEY.registration.response.id } })
+    ).rejects.toMatchObject({ code: 'CREDENTIAL_MISMATCH' });
+  });
+
+  it('should not accept an assertion as a registration', async () => {
+    const { response, challenge } = PLATFORM_PASSKEY.assertions[0];
+    const asAttestation = {
+      ...response,
+      response: { clientDataJSON: response.response.clientDataJSON, attestationObject: PLATFORM_PASSKEY.registration.response.response.attestationObject },
+    };
+
+    await expect(verifyRegistration({ response: asAttestation, expectedChallenge: challenge, ...expected })).rejects.toMatchObject({
+      code: 'TYPE_MISMATCH',
+    });
+  });
+});
+
+describe('verifyAuthentication', () => {
+  it('should verify ES256 and RS256 assertions against the stored key', async () => {
+    expect(await assert(PLATFORM_PASSKEY, 0, 0)).toMatchObject({ newSignCount: 0, userVerified: true, backedUp: true });
+    expect(await assert(SECURITY_KEY, 0, 5)).toMatchObject({ newSignCount: 6, backedUp: false });
+    expect(await assert(SECURITY_KEY, 1, 6)).toMatchObject({ newSignCount: 7 });
+  });
+
+  it('should flag a signature counter that does not move forward', async () => {
+    await expect(assert(SECURITY_KEY, 0, 7)).rejects.toMatchObject({ code: 'COUNTER_REGRESSION' });
+    await expect(assert(SECURITY_KEY, 1, 7)).rejects.toMatchObject({ code: 'COUNTER_REGRESSION' });
+  });
+
+  it('should reject tampered signatures and authenticator data', async () => {
+    const { response } = SECURITY_KEY.assertions[0];
+
+    const badSignature = withField(response, 'signature', (bytes) => { bytes[10] ^= 0xff; });
+    await expect(assert(SECURITY_KEY, 0, 5, { response: badSignature })).rejects.toMatchObject({ code: 'INVALID_SIGNATURE' });
+
+    // Raising the counter without re-signing
+    const bumped = withField(response, 'authenticatorData', (bytes) => { bytes[36] = 99; });
+    await expect(assert(SECURITY_KEY, 0, 5, { response: bumped })).rejects.toMatchObject({ code: 'INVALID_SIGNATURE' });
+
+    // Clearing user presence
+    const absent = withField(response, 'authenticatorData', (bytes) => { bytes[32] &= ~0x01; });
+    await expect(assert(SECURITY_KEY, 0, 5, { response: absent })).rejects.toMatchObject({ code: 'USER_NOT_PRESENT' });
+
+    // Presence without verification, when verification is required
+    const touchOnly = withField(response, 'authenticatorData', (bytes) => { bytes[32] &= ~0x04; });
+    await expect(assert(SECURITY_KEY, 0, 5, { response: touchOnly, requireUserVerification: true })).rejects.toMatchObject({
+      code: 'USER_NOT_VERIFIED',
+    });
+  });
+
+  it('should refuse an assertion from a different credential or challenge', async () => {
+    await expect(assert(PLATFORM_PASSKEY, 0, 0, { credential: stored(SECURITY_KEY, 0) })).rejects.toMatchObject({
+      code: 'CREDENTIAL_MISMATCH',
+    });
+    await expect(assert(PLATFORM_PASSKEY, 0, 0, { expectedChallenge: PLATFORM_PASSKEY.registration.challenge })).rejects.toMatchObject({
+      code: 'CHALLENGE_MISMATCH',
+    });
+  });
+
+  it('should convert DER ECDSA signatures to r || s', () => {
+    const der = hex(`3045022100${'ff'.repeat(32)}0220${'01'.repeat(32)}`);
+    const raw = derToRawEcdsaSignature(der);
+
+    expect(raw).toEqual(new Uint8Array([...new Array(32).fill(0xff), ...new Array(32).fill(0x01)]));
+    expect(derToRawEcdsaSignature(hex('3006020101020102'))).toEqual(new Uint8Array([...new Array(31).fill(0), 1, ...new Array(31).fill(0), 2]));
+    expect(() => derToRawEcdsaSignature(hex('3007020101020102'))).toThrow('Malformed');
+  });
+});
+
+// ============================================================================
+// Passkey Service
+// ============================================================================
+
+/**
+ * Stands in for navigator.credentials by answering each challenge with the
+ * recorded response that signed it
+ */
+function replayCeremony(credential: RecordedCredential): PasskeyCeremony {
+  const challengeOf = (options: { challenge: BufferSource }) => bytesToBase64Url(options.challenge as Uint8Array);
+
+  return {
+    create: vi.fn(async (options: PublicKeyCredentialCreationOptions) => {
+      if (challengeOf(options) !== credential.registration.challenge) throw new Error('NotAllowedError');
+      return credential.registration.response;
+    }),
+    get: vi.fn(async (options: PublicKeyCredentialRequestOptions) => {
+      const assertion = credential.assertions.find((recorded) => recorded.challenge === challengeOf(options));
+      if (!assertion) throw new Error('NotAllowedError');
+      return assertion.response;
+    }),
+  };
+}
+
+describe('PasskeyService', () => {
+  let now: Date;
+  let store: LocalPasskeyStore;
+
+  const createService = (credential: RecordedCredential, ceremony: PasskeyCeremony = replayCeremony(credential)) => {
+    const challenges = [credential.registration.challenge, ...credential.assertions.map((assertion) => assertion.challenge)];
+    return new PasskeyService({
+      store,
+      ceremony,
+      rpId: RP_ID,
+      origin: ORIGIN,
+      now: () => now,
+      generateChallenge: () => challenges.shift(),
+    });
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    now = new Date('2026-03-10T12:00:00Z');
+    store = new LocalPasskeyStore(localStorage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should store a verified credential with a nickname', async () => {
+    const service = createService(SECURITY_KEY);
+    const record = await service.register(DEMO_USER, '  YubiKey 5  ');
+
+    expect(record).toMatchObject({
+      user_id: DEMO_USER.id,
+      credential_id: SECURITY_KEY.registration.response.id,
+      public_key: SECURITY_KEY.publicKey,
+      sign_count: 5,
+      nickname: 'YubiKey 5',
+      created_at: now.toISOString(),
+      last_used_at: null,
+    });
+    expect(await service.list(DEMO_USER.id)).toEqual([record]);
+  });
+
+  it('should name unnamed passkeys after their authenticator', async () => {
+    const record = await createService(PLATFORM_PASSKEY).register(DEMO_USER);
+    expect(record.nickname).toBe('Synced passkey');
+  });
+
+  it('should exclude existing credentials and refuse to store one twice', async () => {
+    const first = await createService(SECURITY_KEY).register(DEMO_USER);
+
+    const ceremony = replayCeremony(SECURITY_KEY);
+    await expect(createService(SECURITY_KEY, ceremony).register(DEMO_USER)).rejects.toMatchObject({ code: 'CREDENTIAL_MISMATCH' });
+
+    const [options] = vi.mocked(ceremony.create).mock.calls[0];
+    expect(options.excludeCredentials.map((excluded) => bytesToBase64Url(excluded.id as Uint8Array))).toEqual([first.credential_id]);
+    expect(options.pubKeyCredParams.map((param) => param.alg)).toEqual([COSE_ALG_ES256, COSE_ALG_RS256]);
+  });
+
+  it('should leave verification and storage to a registrar when there is one', async () => {
+    const saved: PasskeyRecord = {
+      id: 'passkey-1',
+      user_id: DEMO_USER.id,
+      credential_id: SECURITY_KEY.registration.response.id,
+      public_key: SECURITY_KEY.publicKey,
+      algorithm: COSE_ALG_ES256,
+      sign_count: 5,
+      transports: [],
+      nickname: 'YubiKey 5',
+      aaguid: '',
+      backed_up: false,
+      created_at: now.toISOString(),
+      last_used_at: null,
+    };
+    const registrar: PasskeyRegistrar = {
+      challenge: vi.fn(async () => SECURITY_KEY.registration.challenge),
+      complete: vi.fn(async () => saved),
+    };
+    const service = new PasskeyService({ store, registrar, ceremony: replayCeremony(SECURITY_KEY), rpId: RP_ID, origin: ORIGIN });
+
+    expect(await service.register(DEMO_USER, 'YubiKey 5')).toBe(saved);
+    expect(registrar.complete).toHaveBeenCalledWith(
+      SECURITY_KEY.registration.challenge,
+      SECURITY_KEY.registration.response,
+      'YubiKey 5'
+    );
+    expect(await store.list(DEMO_USER.id)).toEqual([]);
+  });
+
+  it('should sign in with a registered passkey and record its use', async () => {
+    const service = createService(SECURITY_KEY);
+    await service.register(DEMO_USER);
+
+    now = new Date('2026-03-11T08:00:00Z');
+    const used = await service.authenticate();
+
+    expect(used).toMatchObject({ user_id: DEMO_USER.id, sign_count: 6, last_used_at: now.toISOString() });
+    expect((await store.findByCredentialId(used.credential_id)).sign_count).toBe(6);
+  });
+
+  it('should require user verification to sign in', async () => {
+    await createService(SECURITY_KEY).register(DEMO_USER);
+
+    const ceremony = replayCeremony(SECURITY_KEY);
+    const touchOnly: PasskeyCeremony = {
+      ...ceremony,
+      get: async (options) => withField(await ceremony.get(options), 'authenticatorData', (bytes) => { bytes[32] &= ~0x04; }),
+    };
+    const service = new PasskeyService({
+      store,
+      ceremony: touchOnly,
+      rpId: RP_ID,
+      origin: ORIGIN,
+      now: () => now,
+      generateChallenge: () => SECURITY_KEY.assertions[0].challenge,
+    });
+
+    await expect(service.authenticate()).rejects.toMatchObject({ code: 'USER_NOT_VERIFIED' });
+    expect(vi.mocked(ceremony.get).mock.calls[0][0].userVerification).toBe('required');
+  });
+
+  it('should reject an unknown passkey and an expired ceremony', async () => {
+    await expect(createService(SECURITY_KEY).authenticate()).rejects.toThrow();
+
+    const ceremony = replayCeremony(PLATFORM_PASSKEY);
+    const slow: PasskeyCeremony = {
+      ...ceremony,
+      create: async (options) => {
+        now = new Date(now.getTime() + 6 * 60 * 1000);
+        return ceremony.create(options);
+      },
+    };
+    await expect(createService(PLATFORM_PASSKEY, slow).register(DEMO_USER)).rejects.toMatchObject({ code: 'CHALLENGE_MISMATCH' });
+    expect(await store.list(DEMO_USER.id)).toEqual([]);
+  });
+
+  it('should rename and remove passkeys for their owner only', async () => {
+    const service = createService(PLATFORM_PASSKEY);
+    const record = await service.register(DEMO_USER);
+
+    expect((await service.rename(DEMO_USER.id, record.id, 'Phone')).nickname).toBe('Phone');
+    await expect(service.rename('someone-else', record.id, 'Mine')).rejects.toThrow('not found');
+
+    await service.remove('someone-else', record.id);
+    expect(await service.list(DEMO_USER.id)).toHaveLength(1);
+    await service.remove(DEMO_USER.id, record.id);
+    expect(await service.list(DEMO_USER.id)).toEqual([]);
+  });
+
+  it('should start a session through the mock adapter', async () => {
+    const passkeys = createService(PLATFORM_PASSKEY);
+    await passkeys.register(DEMO_USER);
+    const adapter = new MockAuthAdapter({ storage: localStorage, passkeys, now: () => now });
+
+    expect(await adapter.signInWithPasskey()).toEqual({ success: false, error: 'passkey_not_supported' });
+
+    vi.stubGlobal('PublicKeyCredential', class {});
+    const result = await adapter.signInWithPasskey();
+    expect(result.snapshot.user).toMatchObject({ id: DEMO_USER.id, passkeyEnabled: true });
+
+    // The only recorded assertion is spent; another attempt fails cleanly
+    expect(await adapter.signInWithPasskey()).toEqual({ success: false, error: 'passkey_login_failed' });
+  });
+});
@@ -0,0 +1,79 @@
+// ============================================================================
+// Unit Tests: Crisis-Language Risk Detection
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  assessRisk,
+  getCrisisResources,
+  normalizeForRisk,
+  onRiskDetected,
+  screenForRisk,
+} from '@/services/riskDetection';
+import { CRISIS_PHRASES, CRISIS_RESOURCES } from '@/data/crisisResources';
+
+describe('assessRisk', () => {
+  it('should return none for ordinary text', () => {
+    expect(assessRisk('Had a long day at work but dinner with friends helped')).toMatchObject({
+      level: 'none',
+      matches: [],
+      requiresInterruption: false,
+    });
+    expect(assessRisk('').level).toBe('none');
+  });
+
+  it('should flag explicit crisis language as high and interrupt', () => {
+    const result = assessRisk('Honestly I want to kill myself');
+
+    expect(result.level).toBe('high');
+    expect(result.requiresInterruption).toBe(true);
+    expect(result.matches[0]).toMatchObject({ locale: 'en', level: 'high' });
+  });
+
+  it('should detect phrases regardless of accents and casing', () => {
+    expect(normalizeForRisk('Je VEUX  Mourir')).toBe('je veux mourir');
+    expect(assessRisk('Je veux mourir').level).toBe('high');
+    expect(assessRisk('Quiero suicidarme').level).toBe('high');
+  });
+
+  it('should escalate with the number of moderate signals', () => {
+    const [first, second, third] = CRISIS_PHRASES.en.moderate;
+
+    expect(assessRisk(first).level).toBe('low');
+    expect(assessRisk(`${first}. ${second}`).level).toBe('moderate');
+    expect(assessRisk(`${first}. ${second}. ${third}`).level).toBe('high');
+  });
+
+  it('should have a high phrase list for every locale', () => {
+    Object.keys(CRISIS_RESOURCES).forEach((locale) => {
+      const [phrase] = CRISIS_PHRASES[locale].high;
+      expect(assessRisk(phrase).level, locale).toBe('high');
+    });
+  });
+});
+
+describe('getCrisisResources', () => {
+  it('should fall back to English for unknown locales', () => {
+    expect(getCrisisResources('xx').locale).toBe('en');
+    expect(getCrisisResources('fr').locale).toBe('fr');
+    expect(getCrisisResources('fr').directory.url).toContain('findahelpline');
+  });
+});
+
+describe('screenForRisk', () => {
+  let unsubscribe: () => void = () => {};
+
+  afterEach(() => unsubscribe());
+
+  it('should broadcast detected risk to listeners with its source', () => {
+    const listener = vi.fn();
+    unsubscribe = onRiskDetected(listener);
+
+    screenForRisk('Nothing to see here', 'journal');
+    expect(listener).not.toHaveBeenCalled();
+
+    screenForRisk('I want to end my life', 'chat');
+    expect(listener).toHaveBeenCalledOnce();
+    expect(listener.mock.calls[0][0]).toMatchObject({ source: 'chat', assessment: { level: 'high' } });
+  });
+});
@@ -0,0 +1,157 @@
+// ============================================================================
+// Unit Tests: TOTP and Two-Factor Service
+// ============================================================================
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  generateBackupCodes,
+  generateHotp,
+  generateTotp,
+  hashBackupCode,
+  verifyTotp,
+} from '@/lib/totp';
+import { LocalTwoFactorStore, TwoFactorService } from '@/services/twoFactor';
+
+// RFC 6238 appendix B / RFC 4226 appendix D shared secret
+const RFC_SECRET = base32Encode(new TextEncoder().encode('12345678901234567890'));
+
+describe('TOTP', () => {
+  it('should round-trip base32', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(new TextDecoder().decode(base32Decode(RFC_SECRET.toLowerCase()))).toBe('12345678901234567890');
+  });
+
+  it('should match the RFC 4226 HOTP values', async () => {
+    const key = base32Decode(RFC_SECRET);
+    const codes = await Promise.all([0, 1, 2, 3, 9].map((counter) => generateHotp(key, counter)));
+
+    expect(codes).toEqual(['755224', '287082', '359152', '969429', '520489']);
+  });
+
+  it('should match the RFC 6238 SHA-1 vectors', async () => {
+    const vectors: Array<[number, string]> = [
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+      [20000000000, '65353130'],
+    ];
+
+    for (const [seconds, expected] of vectors) {
+      expect(await generateTotp(RFC_SECRET, seconds * 1000, { digits: 8 })).toBe(expected);
+    }
+  });
+
+  it('should accept one step of drift and reject replays', async () => {
+    const at = 1234567890 * 1000;
+    const previous = await generateTotp(RFC_SECRET, at - 30_000);
+    const step = Math.floor(at / 30_000) - 1;
+
+    expect(await verifyTotp(RFC_SECRET, previous, { at })).toBe(step);
+    expect(await verifyTotp(RFC_SECRET, previous, { at, lastUsedStep: step })).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, await generateTotp(RFC_SECRET, at - 60_000), { at })).toBeNull();
+    expect(await verifyTotp(RFC_SECRET, 'abcdef', { at })).toBeNull();
+  });
+
+  it('should issue distinct, readable backup codes', () => {
+    const codes = generateBackupCodes();
+
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    codes.forEach((code) => expect(code).toMatch(/^[A-HJKMNP-Z2-9]{5}-[A-HJKMNP-Z2-9]{5}$/));
+  });
+});
+
+describe('TwoFactorService', () => {
+  let now: Date;
+  let store: LocalTwoFactorStore;
+  let service: TwoFactorService;
+
+  const enroll = async () => {
+    const setup = await service.beginSetup('user-1', 'sam@example.com');
+    const result = await service.confirmSetup('user-1', await generateTotp(setup.secret, now.getTime()));
+    return { setup, result };
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    now = new Date('2026-03-10T12:00:00Z');
+    store = new LocalTwoFactorStore(localStorage);
+    service = new TwoFactorService({ store, storage: localStorage, now: () => now });
+  });
+
+  it('should enable 2FA only after the first valid code and store hashed backup codes', async () => {
+    const setup = await service.beginSetup('user-1', 'sam@example.com');
+
+    expect(setup.secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(setup.otpauthUri).toBe(
+      `otpauth://totp/MoodMash%3Asam%40example.com?secret=${setup.secret}&issuer=MoodMash&algorithm=SHA1&digits=6&period=30`
+    );
+    expect(setup.qrCodeUrl).toMatch(/^data:image\/svg\+xml/);
+    expect((await service.getStatus('user-1')).enabled).toBe(false);
+
+    expect(await service.confirmSetup('user-1', '000000')).toMatchObject({ success: false, error: 'incorrect_2fa_code' });
+    expect(await service.confirmSetup('user-1', await generateTotp(setup.secret, now.getTime()))).toMatchObject({ success: true });
+
+    const record = await store.get('user-1');
+    expect(record.backup_code_hashes).toEqual(await Promise.all(setup.backupCodes.map(hashBackupCode)));
+    expect(JSON.stringify(record)).not.toContain(setup.backupCodes[0]);
+    expect(await service.getStatus('user-1')).toEqual({ enabled: true, remainingBackupCodes: 10 });
+  });
+
+  it('should refuse a code that was already used', async () => {
+    const { setup } = await enroll();
+    const code = await generateTotp(setup.secret, now.getTime());
+
+    expect(await service.verify('user-1', code)).toMatchObject({ success: false, error: 'expired_2fa_code' });
+
+    now = new Date(now.getTime() + 30_000);
+    expect(await service.verify('user-1', await generateTotp(setup.secret, now.getTime()))).toMatchObject({
+      success: true,
+      method: 'totp',
+    });
+  });
+
+  it('should spend backup codes once', async () => {
+    const { setup } = await enroll();
+    const [first] = setup.backupCodes;
+
+    expect(await service.verify('user-1', first.toLowerCase())).toMatchObject({
+      success: true,
+      method: 'backup_code',
+      remainingBackupCodes: 9,
+    });
+    expect(await service.verify('user-1', first)).toMatchObject({ success: false, error: 'incorrect_2fa_code' });
+  });
+
+  it('should replace backup codes only with a current authenticator code', async () => {
+    const { setup } = await enroll();
+    now = new Date(now.getTime() + 30_000);
+
+    expect(await service.regenerateBackupCodes('user-1', setup.backupCodes[0])).toMatchObject({ success: false });
+
+    const result = await service.regenerateBackupCodes('user-1', await generateTotp(setup.secret, now.getTime()));
+    expect(result.backupCodes).toHaveLength(10);
+    expect(await service.verify('user-1', setup.backupCodes[0])).toMatchObject({ success: false });
+    expect(await service.verify('user-1', result.backupCodes[0])).toMatchObject({ success: true });
+  });
+
+  it('should let a user who lost their device recover with a backup code', async () => {
+    const { setup } = await enroll();
+
+    expect(await service.recover('user-1', 'AAAAA-AAAAA')).toMatchObject({ success: false });
+    expect(await service.recover('user-1', setup.backupCodes[3])).toMatchObject({ success: true, method: 'backup_code' });
+    expect(await service.getStatus('user-1')).toEqual({ enabled: false, remainingBackupCodes: 0 });
+    await expect(service.beginSetup('user-1', 'sam@example.com')).resolves.toHaveProperty('secret');
+  });
+
+  it('should remember which sessions passed the second factor', async () => {
+    expect(await service.isSessionVerified('session-1')).toBe(false);
+    service.markSessionVerified('session-1');
+    expect(await service.isSessionVerified('session-1')).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+// ============================================================================
+// Unit Tests: Clinician Report
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { buildClinicianReport, escapeHTML, renderReportHTML } from '@/utils/clinicianReport';
+import type { ReportOptions } from '@/utils/clinicianReport';
+import type { MoodEntry } from '@/contexts/MoodContext';
+import type { JournalEntry, WellnessSession } from '@/types/database';
+import type { SleepSession } from '@/types/advanced';
+
+const march = (day: number, hour = 9) => new Date(2026, 2, day, hour);
+
+const mood = (id: string, emotion: MoodEntry['emotion'], intensity: MoodEntry['intensity'], createdAt: Date, note?: string): MoodEntry => ({
+  id,
+  emotion,
+  intensity,
+  note,
+  tags: [],
+  privacy: 'private',
+  createdAt,
+  updatedAt: createdAt,
+});
+
+const entries: MoodEntry[] = [
+  mood('m0', 'sad', 2, march(1), 'Before the range'),
+  mood('m1', 'anxious', 4, march(3, 8), 'Worried about the <review>'),
+  mood('m2', 'anxious', 6, march(3, 20)),
+  mood('m3', 'calm', 7, march(4), 'Long walk'),
+  mood('m4', 'happy', 8, march(6)),
+];
+
+const night = (date: string, minutes: number, score?: number) =>
+  ({ id: date, user_id: 'u1', date, duration_minutes: minutes, sleep_score: score }) as SleepSession;
+
+const session = (id: string, type: WellnessSession['type'], minutes: number, completedAt: Date, before?: number, after?: number) =>
+  ({ id, type, duration_minutes: minutes, completed_at: completedAt.toISOString(), mood_before: before, mood_after: after }) as WellnessSession;
+
+const journals = [
+  { id: 'j1', title: 'Therapy prep', content: 'Things I want to bring up', entry_date: '2026-03-04' },
+  { id: 'j2', content: 'Not for sharing', entry_date: '2026-03-05' },
+] as JournalEntry[];
+
+const options = (overrides: Partial<ReportOptions> = {}): ReportOptions => ({
+  range: { start: march(2), end: march(6, 0) },
+  redactNotes: false,
+  journalExcerptIds: ['j1'],
+  ...overrides,
+});
+
+describe('Clinician report', () => {
+  it('should summarize moods inside the range, whole days inclusive', () => {
+    const report = buildClinicianReport({ entries }, options());
+
+    expect(report.entryCount).toBe(4);
+    expect(report.averageIntensity).toBe(6.3);
+    expect(report.daily).toEqual([
+      { date: '2026-03-03', averageIntensity: 5, count: 2 },
+      { date: '2026-03-04', averageIntensity: 7, count: 1 },
+      { date: '2026-03-06', averageIntensity: 8, count: 1 },
+    ]);
+    expect(report.distribution.map((share) => [share.emotion, share.count, share.percent])).toEqual([
+      ['anxious', 2, 50],
+      ['happy', 1, 25],
+      ['calm', 1, 25],
+    ]);
+  });
+
+  it('should summarize sleep and wellness sessions in the range', () => {
+    const report = buildClinicianReport({
+      entries,
+      sleep: [night('2026-03-01', 300), night('2026-03-03', 420, 80), night('2026-03-04', 360)],
+      sessions: [
+        session('s1', 'meditation', 10, march(3), 4, 6),
+        session('s2', 'yoga', 30, march(4)),
+        session('s3', 'meditation', 15, march(5), 5, 6),
+        session('s4', 'yoga', 45, march(20)),
+      ],
+    }, options());
+
+    expect(report.sleep).toEqual({ nights: 2, averageMinutes: 390, shortestMinutes: 360, longestMinutes: 420, averageScore: 80 });
+    expect(report.wellness).toEqual({
+      sessions: 3,
+      totalMinutes: 55,
+      byType: [{ type: 'yoga', count: 1, minutes: 30 }, { type: 'meditation', count: 2, minutes: 25 }],
+      averageMoodChange: 1.5,
+    });
+    expect(buildClinicianReport({ entries }, options()).sleep).toBeNull();
+  });
+
+  it('should include notes and only the chosen journal excerpts', () => {
+    const report = buildClinicianReport({ entries, journals }, options());
+    const html = renderReportHTML(report);
+
+    expect(report.notes.map((note) => note.text)).toEqual(['Worried about the <review>', 'Long walk']);
+    expect(report.excerpts).toEqual([{ id: 'j1', date: '2026-03-04', title: 'Therapy prep', text: 'Things I want to bring up' }]);
+    expect(html).toContain('Worried about the &lt;review&gt;');
+    expect(html).toContain('Things I want to bring up');
+    expect(html).not.toContain('Not for sharing');
+    expect(html).not.toContain('Before the range');
+  });
+
+  it('should leave every note out when redacting', () => {
+    const report = buildClinicianReport({ entries, journals }, options({ redactNotes: true }));
+    const html = renderReportHTML(report);
+
+    expect(report.notes).toEqual([]);
+    expect(report.excerpts).toEqual([]);
+    expect(html).not.toContain('Worried about');
+    expect(html).not.toContain('Long walk');
+    expect(html).not.toContain('Things I want to bring up');
+    expect(html).toContain('Notes were redacted from this report.');
+    expect(html).toContain('<svg');
+  });
+
+  it('should escape markup', () => {
+    expect(escapeHTML(`<script>alert("x") & 'y'</script>`)).toBe(
+      '&lt;script&gt;alert(&quot;x&quot;) &amp; &#39;y&#39;&lt;/script&gt;'
+    );
+  });
+});
@@ -0,0 +1,93 @@
+// ============================================================================
+// Unit Tests: Web Crypto Helpers and Key Store
+// ============================================================================
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  base64ToBytes,
+  base64UrlToBytes,
+  bytesToBase64,
+  bytesToBase64Url,
+  decryptString,
+  deriveKeyFromPassphrase,
+  encryptString,
+  generateDataKey,
+  randomBytes,
+  unwrapDataKey,
+  wrapDataKey,
+} from '@/lib/crypto';
+import { deleteKeyring, loadKeyring, saveKeyring } from '@/lib/keyStore';
+import type { StoredKeyring } from '@/lib/keyStore';
+
+// Far below the production count; derivation cost is not under test
+const ITERATIONS = 1000;
+
+describe('crypto', () => {
+  it('should round-trip base64 and base64url', () => {
+    const bytes = new Uint8Array([0, 62, 63, 250, 251, 255]);
+
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+    expect(bytesToBase64Url(bytes)).not.toMatch(/[+/=]/);
+    expect(base64UrlToBytes(bytesToBase64Url(bytes))).toEqual(bytes);
+  });
+
+  it('should round-trip text through AES-GCM with a fresh IV each time', async () => {
+    const key = await generateDataKey();
+    const first = await encryptString(key, 'Felt anxious before the interview ☁️');
+    const second = await encryptString(key, 'Felt anxious before the interview ☁️');
+
+    expect(first.iv).not.toBe(second.iv);
+    expect(base64ToBytes(first.tag)).toHaveLength(16);
+    expect(await decryptString(key, first)).toBe('Felt anxious before the interview ☁️');
+  });
+
+  it('should reject tampered ciphertext and the wrong key', async () => {
+    const key = await generateDataKey();
+    const parts = await encryptString(key, 'private note');
+    const flipped = base64ToBytes(parts.ciphertext);
+    flipped[0] ^= 1;
+
+    await expect(decryptString(key, { ...parts, ciphertext: bytesToBase64(flipped) })).rejects.toThrow();
+    await expect(decryptString(await generateDataKey(), parts)).rejects.toThrow();
+  });
+
+  it('should only unwrap a data key with the passphrase it was wrapped under', async () => {
+    const salt = randomBytes(16);
+    const dataKey = await generateDataKey();
+    const wrapped = await wrapDataKey(dataKey, await deriveKeyFromPassphrase('correct horse battery', salt, ITERATIONS));
+
+    const unwrapped = await unwrapDataKey(wrapped, await deriveKeyFromPassphrase('correct horse battery', salt, ITERATIONS));
+    expect(await decryptString(unwrapped, await encryptString(dataKey, 'same key'))).toBe('same key');
+
+    const wrong = await deriveKeyFromPassphrase('incorrect horse battery', salt, ITERATIONS);
+    await expect(unwrapDataKey(wrapped, wrong)).rejects.toThrow();
+  });
+});
+
+describe('keyStore', () => {
+  const keyring: StoredKeyring = {
+    userId: 'user-1',
+    salt: 'c2FsdA==',
+    iterations: ITERATIONS,
+    activeKeyId: 'key-1',
+    keys: [{ keyId: 'key-1', version: 1, wrappedKey: 'd3JhcHBlZA==', iv: 'aXY=', createdAt: '2026-05-01T00:00:00Z', retiredAt: null }],
+    updatedAt: '2026-05-01T00:00:00Z',
+  };
+
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  it('should keep one keyring per user until it is deleted', async () => {
+    expect(await loadKeyring('user-1')).toBeNull();
+
+    await saveKeyring(keyring);
+    await saveKeyring({ ...keyring, userId: 'user-2' });
+    expect(await loadKeyring('user-1')).toEqual(keyring);
+
+    await deleteKeyring('user-1');
+    expect(await loadKeyring('user-1')).toBeNull();
+    expect(await loadKeyring('user-2')).not.toBeNull();
+  });
+});
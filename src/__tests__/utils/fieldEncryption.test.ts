@@ -0,0 +1,160 @@
+// ============================================================================
+// Unit Tests: Field Encryption and Search Index
+// ============================================================================
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  EncryptionLockedError,
+  isSealedField,
+  onFieldCipherChange,
+  openField,
+  resealField,
+  sealField,
+  sealOptionalField,
+  setFieldCipher,
+} from '@/lib/fieldEncryption';
+import type { FieldCipher } from '@/lib/fieldEncryption';
+import { SearchIndex, tokenize } from '@/lib/searchIndex';
+import { decryptString, encryptString, generateDataKey } from '@/lib/crypto';
+
+/** A cipher over real AES-GCM keys, standing in for an unlocked EncryptionProvider */
+async function makeCipher(versions: number, prefix = 'key') {
+  const keys = new Map<string, CryptoKey>();
+  for (let version = 1; version <= versions; version++) {
+    keys.set(`${prefix}-${version}`, await generateDataKey());
+  }
+  let active = versions;
+
+  const cipher: FieldCipher = {
+    encrypt: async (plaintext) => {
+      const parts = await encryptString(keys.get(`${prefix}-${active}`)!, plaintext);
+      const now = new Date();
+      return {
+        id: 'sealed',
+        encryptedContent: parts.ciphertext,
+        iv: parts.iv,
+        tag: parts.tag,
+        keyId: `${prefix}-${active}`,
+        keyVersion: active,
+        createdAt: now,
+        updatedAt: now,
+      };
+    },
+    decrypt: (data) => decryptString(keys.get(data.keyId)!, { ciphertext: data.encryptedContent, iv: data.iv, tag: data.tag }),
+    activeKeyVersion: () => active,
+    activeKeyId: () => `${prefix}-${active}`,
+  };
+
+  return { cipher, useVersion: (version: number) => { active = version; } };
+}
+
+describe('fieldEncryption', () => {
+  afterEach(() => setFieldCipher(null));
+
+  it('should seal text into an envelope only the cipher can open', async () => {
+    const { cipher } = await makeCipher(1);
+    setFieldCipher(cipher);
+
+    const sealed = await sealField('Argued with my sister');
+
+    expect(isSealedField(sealed.value)).toBe(true);
+    expect(sealed.value).not.toContain('sister');
+    expect(sealed.key_version).toBe(1);
+    expect(await openField(sealed.value)).toBe('Argued with my sister');
+  });
+
+  it('should pass empty and legacy plaintext values through', async () => {
+    const { cipher } = await makeCipher(1);
+    setFieldCipher(cipher);
+
+    expect(await sealOptionalField('')).toBeNull();
+    expect(await sealOptionalField(null)).toBeNull();
+    expect(await openField(null)).toBeUndefined();
+    expect(await openField('written before encryption')).toBe('written before encryption');
+  });
+
+  it('should refuse to seal or open while locked', async () => {
+    const { cipher } = await makeCipher(1);
+    setFieldCipher(cipher);
+    const sealed = await sealField('private');
+    setFieldCipher(null);
+
+    await expect(sealField('private')).rejects.toBeInstanceOf(EncryptionLockedError);
+    await expect(openField(sealed.value)).rejects.toBeInstanceOf(EncryptionLockedError);
+    // Nothing to seal means nothing needs the key
+    expect(await sealOptionalField(undefined)).toBeNull();
+  });
+
+  it('should reseal only values behind the active key version', async () => {
+    const { cipher, useVersion } = await makeCipher(2);
+    useVersion(1);
+    setFieldCipher(cipher);
+    const old = await sealField('first draft');
+
+    useVersion(2);
+    const resealed = await resealField(old.value);
+
+    expect(resealed?.key_version).toBe(2);
+    expect(await openField(resealed!.value)).toBe('first draft');
+    expect(await resealField(resealed!.value)).toBeNull();
+    expect((await resealField('legacy plaintext'))?.key_version).toBe(2);
+  });
+
+  it('should reseal values under another key with the same version number', async () => {
+    const { cipher: here } = await makeCipher(1);
+    setFieldCipher(here);
+    const local = await sealField('written here');
+
+    // A key imported from another device, also its version 1
+    const { cipher: imported } = await makeCipher(1, 'imported');
+    setFieldCipher({ ...imported, decrypt: (data) => (data.keyId === 'key-1' ? here : imported).decrypt(data) });
+
+    const resealed = await resealField(local.value);
+    expect(resealed?.key_version).toBe(1);
+    expect(await openField(resealed!.value)).toBe('written here');
+    expect(await resealField(resealed!.value)).toBeNull();
+  });
+
+  it('should tell listeners when encryption locks and unlocks', async () => {
+    const { cipher } = await makeCipher(1);
+    const changes: boolean[] = [];
+    const stop = onFieldCipherChange((ready) => changes.push(ready));
+
+    setFieldCipher(cipher);
+    setFieldCipher(null);
+    stop();
+    setFieldCipher(cipher);
+
+    expect(changes).toEqual([true, false]);
+  });
+});
+
+describe('SearchIndex', () => {
+  it('should tokenize case- and accent-insensitively', () => {
+    expect(tokenize('Café, CAFÉ and a café-bar!')).toEqual(['cafe', 'and', 'bar']);
+  });
+
+  it('should match every query term by prefix, newest first', () => {
+    const index = new SearchIndex();
+    index.add({ id: 'a', text: 'Long walk by the river', sortKey: '2026-05-01' });
+    index.add({ id: 'b', text: 'Walked to work, felt anxious', sortKey: '2026-05-03' });
+    index.add({ id: 'c', text: 'Anxious before the river swim', sortKey: '2026-05-02' });
+
+    expect(index.search('walk')).toEqual(['b', 'a']);
+    expect(index.search('river anx')).toEqual(['c']);
+    expect(index.search('a')).toEqual([]);
+  });
+
+  it('should forget removed and replaced text', () => {
+    const index = new SearchIndex();
+    index.add({ id: 'a', text: 'therapy session', sortKey: '1' });
+    index.add({ id: 'a', text: 'quiet evening', sortKey: '1' });
+
+    expect(index.search('therapy')).toEqual([]);
+    expect(index.search('quiet')).toEqual(['a']);
+
+    index.remove('a');
+    expect(index.size).toBe(0);
+    expect(index.has('a')).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+// ============================================================================
+// Unit Tests: Login Policy
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LOGIN_POLICY,
+  backoffDelay,
+  combineDecisions,
+  detectFailureBurst,
+  detectSessionAnomalies,
+  emptyCounter,
+  evaluateAttempt,
+  isImpossibleTravel,
+  pruneCounter,
+  recordFailure,
+  utcOffsetMinutes,
+} from '@/lib/loginPolicy';
+import type { AttemptCounter, SignInObservation } from '@/lib/loginPolicy';
+
+const policy = DEFAULT_LOGIN_POLICY;
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+// Mid-January, so no zone below is on daylight saving time
+const T0 = Date.UTC(2026, 0, 15, 12);
+
+const failAt = (times: number[]): AttemptCounter =>
+  times.reduce((counter, at) => recordFailure(counter, at, policy), emptyCounter());
+
+const seen = (timeZone: string | null, location: string, at: number): SignInObservation => ({ at, timeZone, location });
+
+describe('backoffDelay', () => {
+  it('should allow the free attempts and then double up to the cap', () => {
+    expect([0, 1, 2, 3].map((n) => backoffDelay(n, policy))).toEqual([0, 0, 0, 0]);
+    expect([4, 5, 6, 7].map((n) => backoffDelay(n, policy))).toEqual([1000, 2000, 4000, 8000]);
+    expect(backoffDelay(20, policy)).toBe(policy.maxDelayMs);
+  });
+});
+
+describe('evaluateAttempt', () => {
+  it('should allow a clean counter', () => {
+    expect(evaluateAttempt(emptyCounter(), T0, policy)).toEqual({ allowed: true, retryAfterMs: 0, locked: false });
+  });
+
+  it('should make the caller wait out the backoff after the last failure', () => {
+    const counter = failAt([T0, T0 + 1, T0 + 2, T0 + 3, T0 + 4]);
+
+    expect(evaluateAttempt(counter, T0 + 4, policy)).toEqual({ allowed: false, retryAfterMs: 2000, locked: false });
+    expect(evaluateAttempt(counter, T0 + 1504, policy)).toEqual({ allowed: false, retryAfterMs: 500, locked: false });
+    expect(evaluateAttempt(counter, T0 + 2004, policy).allowed).toBe(true);
+  });
+
+  it('should lock out at the threshold until the lockout ends', () => {
+    const times = Array.from({ length: policy.lockoutThreshold }, (_, i) => T0 + i * MINUTE);
+    const counter = failAt(times);
+    const lastFailure = times[times.length - 1];
+
+    expect(counter.lockedUntil).toBe(lastFailure + policy.lockoutMs);
+    expect(evaluateAttempt(counter, lastFailure + MINUTE, policy)).toEqual({
+      allowed: false,
+      retryAfterMs: policy.lockoutMs - MINUTE,
+      locked: true,
+    });
+    expect(evaluateAttempt(counter, lastFailure + policy.lockoutMs, policy).locked).toBe(false);
+  });
+
+  it('should forget failures outside the window', () => {
+    const counter = failAt([T0, T0 + 1, T0 + 2, T0 + 3, T0 + 4]);
+
+    expect(pruneCounter(counter, T0 + policy.failureWindowMs + 5, policy)).toEqual(emptyCounter());
+    expect(evaluateAttempt(counter, T0 + policy.failureWindowMs + 5, policy).allowed).toBe(true);
+  });
+});
+
+describe('combineDecisions', () => {
+  it('should keep the strictest answer', () => {
+    expect(combineDecisions(
+      { allowed: true, retryAfterMs: 0, locked: false },
+      { allowed: false, retryAfterMs: 4000, locked: false },
+      { allowed: false, retryAfterMs: 9000, locked: true }
+    )).toEqual({ allowed: false, retryAfterMs: 9000, locked: true });
+    expect(combineDecisions()).toEqual({ allowed: true, retryAfterMs: 0, locked: false });
+  });
+});
+
+describe('detectFailureBurst', () => {
+  it('should fire once, on the failure that reaches the threshold inside the window', () => {
+    const times = [0, 1, 2, 3, 4, 5].map((i) => T0 + i * 30 * 1000);
+    const fired = times.map((at, i) => detectFailureBurst(failAt(times.slice(0, i + 1)), at, policy) !== null);
+
+    expect(fired).toEqual([false, false, false, false, true, false]);
+    expect(detectFailureBurst(failAt(times.slice(0, 5)), times[4], policy)).toMatchObject({
+      kind: 'failure_burst',
+      alertType: 'suspicious_activity',
+      severity: 'high',
+    });
+  });
+
+  it('should ignore failures spread beyond the burst window', () => {
+    const times = [0, 1, 2, 3, 4].map((i) => T0 + i * 2 * MINUTE);
+    expect(detectFailureBurst(failAt(times), times[4], policy)).toBeNull();
+  });
+});
+
+describe('utcOffsetMinutes', () => {
+  it('should read offsets, including half hours and unknown zones', () => {
+    expect(utcOffsetMinutes('UTC', T0)).toBe(0);
+    expect(utcOffsetMinutes('Asia/Kolkata', T0)).toBe(330);
+    expect(utcOffsetMinutes('America/New_York', T0)).toBe(-300);
+    expect(utcOffsetMinutes('Not/AZone', T0)).toBeNull();
+  });
+});
+
+describe('isImpossibleTravel', () => {
+  it('should flag jumps across many time zones that no flight could make', () => {
+    expect(isImpossibleTravel(seen('Europe/Berlin', 'Berlin, Europe', T0), seen('Asia/Tokyo', 'Tokyo, Asia', T0 + HOUR), policy)).toBe(true);
+    expect(isImpossibleTravel(seen('Europe/Berlin', 'Berlin, Europe', T0), seen('Asia/Tokyo', 'Tokyo, Asia', T0 + 12 * HOUR), policy)).toBe(false);
+  });
+
+  it('should ignore small offsets and unknown zones', () => {
+    expect(isImpossibleTravel(seen('Europe/Berlin', 'Berlin, Europe', T0), seen('Europe/London', 'London, Europe', T0), policy)).toBe(false);
+    expect(isImpossibleTravel(seen(null, 'Unknown location', T0), seen('Asia/Tokyo', 'Tokyo, Asia', T0), policy)).toBe(false);
+  });
+});
+
+describe('detectSessionAnomalies', () => {
+  const berlin = seen('Europe/Berlin', 'Berlin, Europe', T0);
+
+  it('should report nothing for the first session on an account', () => {
+    expect(detectSessionAnomalies({ current: berlin, previous: [], newDevice: false }, policy)).toEqual([]);
+  });
+
+  it('should report a new device and a location the account has not used', () => {
+    const paris = seen('Europe/Paris', 'Paris, Europe', T0 + HOUR);
+    const anomalies = detectSessionAnomalies({ current: paris, previous: [berlin], newDevice: true }, policy);
+
+    expect(anomalies.map((anomaly) => [anomaly.kind, anomaly.alertType, anomaly.severity])).toEqual([
+      ['new_device', 'new_device', 'high'],
+      ['new_location', 'new_location', 'medium'],
+    ]);
+  });
+
+  it('should compare travel against the most recent other session', () => {
+    const tokyo = seen('Asia/Tokyo', 'Tokyo, Asia', T0 + 30 * MINUTE);
+    const oldTokyo = seen('Asia/Tokyo', 'Tokyo, Asia', T0 - 48 * HOUR);
+    const anomalies = detectSessionAnomalies({ current: tokyo, previous: [oldTokyo, berlin], newDevice: false }, policy);
+
+    expect(anomalies).toEqual([
+      {
+        kind: 'impossible_travel',
+        alertType: 'suspicious_activity',
+        severity: 'critical',
+        metadata: {
+          activity: 'Sign-in from Tokyo, Asia 30 minutes after activity in Berlin, Europe',
+          location: 'Tokyo, Asia',
+          previousLocation: 'Berlin, Europe',
+        },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+// ============================================================================
+// Unit Tests: Mood Import
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { buildImportPreview, mapMoodLabel, parseCSV, parseDateTime } from '@/utils/moodImport';
+import { exportToCSV, exportToJSON } from '@/utils/patternAnalysis';
+import type { MoodEntry } from '@/contexts/MoodContext';
+
+const entry = (id: string, emotion: MoodEntry['emotion'], createdAt: Date, note?: string): MoodEntry => ({
+  id,
+  emotion,
+  intensity: 6,
+  note,
+  tags: ['work'],
+  privacy: 'friends',
+  createdAt,
+  updatedAt: createdAt,
+});
+
+describe('Mood labels', () => {
+  it('should accept our keys, labels and emoji', () => {
+    expect(mapMoodLabel('Overwhelmed')).toEqual({ emotion: 'overwhelmed' });
+    expect(mapMoodLabel('grateful')).toEqual({ emotion: 'grateful' });
+    expect(mapMoodLabel('😌')).toEqual({ emotion: 'calm' });
+  });
+
+  it('should map Daylio moods and common synonyms', () => {
+    expect(mapMoodLabel('rad')).toEqual({ emotion: 'excited', intensity: 9 });
+    expect(mapMoodLabel('  Awful ')).toEqual({ emotion: 'sad', intensity: 2 });
+    expect(mapMoodLabel('worried')).toEqual({ emotion: 'anxious' });
+    expect(mapMoodLabel('bewildered')).toBeNull();
+  });
+});
+
+describe('CSV and dates', () => {
+  it('should keep quoted commas, quotes and newlines inside a field', () => {
+    expect(parseCSV('\uFEFFa,b\r\n"x, y","say ""hi""\nthere"\n\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"\nthere'],
+    ]);
+  });
+
+  it('should read ISO days with 24-hour and am/pm times', () => {
+    expect(parseDateTime('2026-03-05', '8:15 pm')).toEqual(new Date(2026, 2, 5, 20, 15));
+    expect(parseDateTime('2026-03-05', '12:05 am')).toEqual(new Date(2026, 2, 5, 0, 5));
+    expect(parseDateTime('2026-03-05', '07:30')).toEqual(new Date(2026, 2, 5, 7, 30));
+    expect(parseDateTime('2026-03-05T10:00:00.000Z')?.toISOString()).toBe('2026-03-05T10:00:00.000Z');
+    expect(parseDateTime('2026-03-05', 'teatime')).toBeNull();
+    expect(parseDateTime('')).toBeNull();
+  });
+});
+
+describe('Import preview', () => {
+  const march = (day: number, hour = 9) => new Date(2026, 2, day, hour);
+
+  it('should round-trip our JSON export', () => {
+    const exported = [entry('a', 'happy', march(1), 'Sunny walk'), entry('b', 'tired', march(2))];
+    const preview = buildImportPreview(exportToJSON(exported));
+
+    expect(preview.format).toBe('moodmash_json');
+    expect(preview.moods).toEqual([
+      { emotion: 'happy', intensity: 6, note: 'Sunny walk', tags: ['work'], privacy: 'friends', createdAt: march(1) },
+      { emotion: 'tired', intensity: 6, tags: ['work'], privacy: 'friends', createdAt: march(2) },
+    ]);
+  });
+
+  it('should recognise our CSV export and skip entries already stored', () => {
+    const exported = [entry('a', 'calm', march(1), 'Tea, then "bed"'), entry('b', 'stressed', march(2))];
+    const preview = buildImportPreview(exportToCSV(exported), [exported[0]]);
+
+    expect(preview.format).toBe('moodmash_csv');
+    expect(preview.duplicates).toBe(1);
+    expect(preview.moods).toHaveLength(1);
+    expect(preview.moods[0]).toMatchObject({ emotion: 'stressed', intensity: 6, privacy: 'friends', tags: ['work'] });
+  });
+
+  it('should read a Daylio export', () => {
+    const csv = [
+      'full_date,date,weekday,time,mood,activities,note_title,note',
+      '2026-03-02,March 2,Monday,8:15 pm,rad,friends | movies,Great night,"Saw a film, laughed a lot"',
+      '2026-03-01,March 1,Sunday,9:00 am,meh,,,',
+    ].join('\n');
+    const preview = buildImportPreview(csv);
+
+    expect(preview.format).toBe('daylio_csv');
+    expect(preview.moods).toEqual([
+      {
+        emotion: 'excited',
+        intensity: 9,
+        note: 'Great night\nSaw a film, laughed a lot',
+        tags: ['friends', 'movies'],
+        privacy: 'private',
+        createdAt: new Date(2026, 2, 2, 20, 15),
+      },
+      { emotion: 'calm', intensity: 5, privacy: 'private', createdAt: new Date(2026, 2, 1, 9, 0) },
+    ]);
+  });
+
+  it('should report bad rows, out-of-range intensities and repeats in a generic CSV', () => {
+    const csv = [
+      'Timestamp,Feeling,Rating,Comments',
+      '2026-03-01T09:00:00Z,happy,7,ok',
+      '2026-03-01T09:00:30Z,happy,7,ok',
+      'yesterday-ish,sad,3,',
+      '2026-03-02T09:00:00Z,bewildered,4,',
+      '2026-03-03T09:00:00Z,anxious,42,',
+    ].join('\n');
+    const preview = buildImportPreview(csv);
+
+    expect(preview.format).toBe('generic_csv');
+    expect(preview.total).toBe(5);
+    expect(preview.moods.map((m) => [m.emotion, m.intensity])).toEqual([['happy', 7], ['anxious', 5]]);
+    expect(preview.duplicates).toBe(1);
+    expect(preview.issues).toEqual([
+      { row: 3, severity: 'error', message: 'Missing or unreadable date' },
+      { row: 4, severity: 'error', message: 'Unknown mood "bewildered"' },
+      { row: 5, severity: 'warning', message: 'Intensity "42" is not between 1 and 10' },
+    ]);
+  });
+
+  it('should take moods and journals from an account archive, leaving sealed text out', () => {
+    const archive = {
+      format: 'moodmash-data-export',
+      version: 1,
+      tables: {
+        mood_entries: [
+          { emotion: 'hopeful', intensity: 8, note: 'v1:abc', key_version: 1, tags: [], entry_date: '2026-03-04', entry_time: '18:30' },
+        ],
+        journal_entries: [
+          { title: 'Sunday', content: 'Long walk by the river', entry_date: '2026-03-04', tags: ['outdoors'] },
+          { content: 'v1:xyz', key_version: 1, entry_date: '2026-03-05' },
+        ],
+      },
+    };
+    const preview = buildImportPreview(JSON.stringify(archive));
+
+    expect(preview.format).toBe('moodmash_archive');
+    expect(preview.moods).toEqual([{ emotion: 'hopeful', intensity: 8, privacy: 'private', createdAt: new Date(2026, 2, 4, 18, 30) }]);
+    expect(preview.journals).toEqual([
+      { title: 'Sunday', content: 'Long walk by the river', tags: ['outdoors'], entry_date: '2026-03-04', entry_time: undefined, mood_intensity: undefined },
+    ]);
+    expect(preview.issues.map((issue) => issue.message)).toEqual([
+      'The note is encrypted and was left out',
+      'Journal entry is encrypted and was skipped',
+    ]);
+  });
+
+  it('should reject files it does not understand', () => {
+    expect(() => buildImportPreview('')).toThrow('The file is empty');
+    expect(() => buildImportPreview('{"hello": 1}')).toThrow('not a MoodMash export');
+    expect(() => buildImportPreview('name,colour\nAda,blue')).toThrow('Could not find date and mood columns');
+  });
+});
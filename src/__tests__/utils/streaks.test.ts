@@ -0,0 +1,107 @@
+// ============================================================================
+// Unit Tests: Streak Calculator
+// ============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_STREAK,
+  MAX_STREAK_FREEZES,
+  addFreeze,
+  currentStreak,
+  describeStreakEvent,
+  localDay,
+  normalizeStreakSettings,
+  recordActivity,
+  streakFromActivity,
+} from '@/lib/streaks';
+import type { StreakSettings, StreakState } from '@/lib/streaks';
+
+const newYork: StreakSettings = { timeZone: 'America/New_York', graceHours: 0 };
+
+const replay = (times: string[], settings: StreakSettings, start: StreakState = EMPTY_STREAK) =>
+  times.reduce(
+    (acc, at) => {
+      const update = recordActivity(acc.state, new Date(at), settings);
+      return { state: update.state, events: [...acc.events, ...update.events] };
+    },
+    { state: start, events: [] as ReturnType<typeof recordActivity>['events'] }
+  );
+
+describe('localDay', () => {
+  it('should count days in the configured zone, not UTC', () => {
+    // 23:00 on 1 May in New York is already 2 May in UTC
+    expect(localDay(new Date('2026-05-02T03:00:00Z'), newYork)).toBe('2026-05-01');
+    expect(localDay(new Date('2026-05-02T03:00:00Z'), { timeZone: 'UTC', graceHours: 0 })).toBe('2026-05-02');
+  });
+
+  it('should give activity inside the grace window to the day before', () => {
+    const at = new Date('2026-05-02T05:30:00Z'); // 01:30 in New York
+    expect(localDay(at, newYork)).toBe('2026-05-02');
+    expect(localDay(at, { ...newYork, graceHours: 2 })).toBe('2026-05-01');
+  });
+
+  it('should fall back to UTC and clamp the grace window for bad settings', () => {
+    expect(normalizeStreakSettings({ timeZone: 'Mars/Olympus', graceHours: 30 })).toEqual({ timeZone: 'UTC', graceHours: 6 });
+  });
+});
+
+describe('recordActivity', () => {
+  it('should keep a streak across a daylight saving change', () => {
+    // Clocks go forward on 8 March 2026 in New York
+    const { state, events } = replay(
+      ['2026-03-07T04:30:00Z', '2026-03-08T03:30:00Z', '2026-03-09T03:30:00Z'],
+      newYork
+    );
+
+    expect(state).toMatchObject({ current: 3, longest: 3, lastActiveDay: '2026-03-08' });
+    expect(events.map((event) => event.kind)).toEqual(['started']);
+  });
+
+  it('should ignore a second entry on the same day and backdated entries', () => {
+    const { state } = replay(['2026-05-01T12:00:00Z', '2026-05-02T12:00:00Z'], newYork);
+    expect(recordActivity(state, new Date('2026-05-02T20:00:00Z'), newYork)).toEqual({ state, events: [] });
+    expect(recordActivity(state, new Date('2026-04-20T12:00:00Z'), newYork).events).toEqual([]);
+  });
+
+  it('should spend freezes on missed days and reset when there are too few', () => {
+    const start: StreakState = { current: 10, longest: 12, lastActiveDay: '2026-05-01', freezes: 2 };
+
+    const covered = recordActivity(start, new Date('2026-05-04T12:00:00Z'), newYork);
+    expect(covered.state).toMatchObject({ current: 11, freezes: 0, lastActiveDay: '2026-05-04' });
+    expect(covered.events).toEqual([
+      { kind: 'frozen', day: '2026-05-04', count: 11, previousCount: 10, missedDays: 2, freezesUsed: 2 },
+    ]);
+
+    const broken = recordActivity(start, new Date('2026-05-05T12:00:00Z'), newYork);
+    expect(broken.state).toMatchObject({ current: 1, longest: 12, freezes: 2 });
+    expect(describeStreakEvent(broken.events[0])).toBe('Missed 3 days without enough freezes; the 10-day streak reset');
+  });
+});
+
+describe('currentStreak', () => {
+  it('should hold a streak while freezes cover the gap and lapse after', () => {
+    const state: StreakState = { current: 5, longest: 5, lastActiveDay: '2026-05-01', freezes: 1 };
+
+    expect(currentStreak(state, new Date('2026-05-02T23:00:00Z'), newYork)).toBe(5);
+    expect(currentStreak(state, new Date('2026-05-03T16:00:00Z'), newYork)).toBe(5);
+    expect(currentStreak(state, new Date('2026-05-04T16:00:00Z'), newYork)).toBe(0);
+  });
+
+  it('should work out streaks from activity in any order', () => {
+    const times = ['2026-05-03T14:00:00Z', '2026-04-28T14:00:00Z', '2026-05-01T14:00:00Z', '2026-05-02T14:00:00Z']
+      .map((at) => new Date(at));
+
+    expect(streakFromActivity(times, new Date('2026-05-03T20:00:00Z'), newYork)).toEqual({ current: 3, longest: 3 });
+  });
+});
+
+describe('addFreeze', () => {
+  it('should stop at the most freezes a user can hold', () => {
+    const full = { ...EMPTY_STREAK, freezes: MAX_STREAK_FREEZES };
+    expect(addFreeze(full, new Date(), newYork)).toBeNull();
+    expect(addFreeze(EMPTY_STREAK, new Date('2026-05-02T03:00:00Z'), newYork)?.events[0]).toMatchObject({
+      kind: 'freeze_purchased',
+      day: '2026-05-01',
+    });
+  });
+});
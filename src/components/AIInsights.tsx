@@ -3,12 +3,18 @@ import { useMood } from '../contexts/MoodContext';
 import { analyzePatterns, MoodPattern } from '../utils/patternAnalysis';
 import {
   generateMoodInsights,
-  analyzePatterns as aiAnalyzePatterns,
-  getAPIKey,
-  setAPIKey,
   AIInsight,
   AIAnalysisResponse,
 } from '../services/aiInsights';
+import {
+  LLM_PROVIDERS,
+  getLLMConfig,
+  saveLLMConfig,
+  setLLMApiKey,
+  restoreLLMApiKey,
+  isLLMConfigured,
+} from '../services/llm';
+import type { LLMConfig } from '../services/llm';
 import {
   Sparkles,
   Brain,
@@ -39,19 +45,20 @@ export function AIInsights({ compact = false }: AIInsightsProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [isAILoading, setIsAILoading] = useState(false);
   const [apiKey, setApiKeyState] = useState('');
+  const [llmConfig, setLlmConfig] = useState<LLMConfig>(() => getLLMConfig());
+  const [keyNotice, setKeyNotice] = useState<string | null>(null);
   const [showApiKeyInput, setShowApiKeyInput] = useState(false);
   const [expandedInsights, setExpandedInsights] = useState<Set<string>>(new Set());
   const [error, setError] = useState<string | null>(null);
 
-  // Load API key from storage
+  // Load the remembered API key (sealed, so only once encryption is unlocked)
   useEffect(() => {
-    const storedKey = getAPIKey();
-    if (storedKey) {
-      setApiKeyState(storedKey);
-      setShowApiKeyInput(false);
-    } else {
-      setShowApiKeyInput(true);
-    }
+    restoreLLMApiKey()
+      .then((storedKey) => {
+        if (storedKey) setApiKeyState(storedKey);
+        setShowApiKeyInput(!isLLMConfigured());
+      })
+      .catch(() => setShowApiKeyInput(true));
   }, []);
 
   // Analyze patterns when entries change
@@ -65,8 +72,9 @@ export function AIInsights({ compact = false }: AIInsightsProps) {
   }, [entries.length, entries]);
 
   const handleGenerateAIInsights = useCallback(async () => {
-    if (!apiKey) {
-      setError('Please enter your Gemini API key first');
+    if (!isLLMConfigured()) {
+      setError('Please connect an AI provider first');
+      setShowApiKeyInput(true);
       return;
     }
 
@@ -74,20 +82,30 @@ export function AIInsights({ compact = false }: AIInsightsProps) {
     setError(null);
 
     try {
-      const response = await generateMoodInsights(entries, apiKey, timeframe);
+      const response = await generateMoodInsights(entries, timeframe);
       setAiResponse(response);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate insights');
     } finally {
       setIsAILoading(false);
     }
-  }, [entries, apiKey, timeframe]);
+  }, [entries, timeframe]);
+
+  const selectedProvider = LLM_PROVIDERS.find((p) => p.id === llmConfig.provider) ?? LLM_PROVIDERS[0];
+
+  const handleSaveApiKey = async () => {
+    saveLLMConfig({ provider: llmConfig.provider, model: llmConfig.model || undefined, baseUrl: llmConfig.baseUrl || undefined });
 
-  const handleSaveApiKey = () => {
     if (apiKey.trim()) {
-      setAPIKey(apiKey.trim());
+      const persisted = await setLLMApiKey(apiKey.trim());
+      setKeyNotice(persisted ? null : 'Key saved for this session only. Unlock encryption in Security Settings to remember it.');
+    }
+
+    if (isLLMConfigured()) {
       setShowApiKeyInput(false);
       setError(null);
+    } else {
+      setError(`${selectedProvider.label} needs an API key`);
     }
   };
 
@@ -159,7 +177,7 @@ export function AIInsights({ compact = false }: AIInsightsProps) {
               type="password"
               value={apiKey}
               onChange={(e) => setApiKeyState(e.target.value)}
-              placeholder="Enter Gemini API Key"
+              placeholder={`${selectedProvider.label} API key`}
               className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500"
             />
             <button
@@ -271,32 +289,63 @@ export function AIInsights({ compact = false }: AIInsightsProps) {
         </div>
       </div>
 
-      {/* API Key Setup */}
+      {/* AI Provider Setup */}
       {showApiKeyInput && (
         <div className="glass rounded-xl p-6 border-amber-500/30">
           <div className="flex items-start gap-4">
             <AlertCircle className="w-6 h-6 text-amber-400 flex-shrink-0 mt-1" />
             <div className="flex-1">
-              <h3 className="text-white font-medium mb-2">Enter Gemini API Key</h3>
+              <h3 className="text-white font-medium mb-2">Connect an AI Provider</h3>
               <p className="text-slate-400 text-sm mb-4">
-                To use AI-powered insights, you need a Gemini API key from Google AI Studio.
-                <a
-                  href="https://aistudio.google.com/"
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-violet-400 hover:underline ml-1"
-                >
-                  Get a free API key
-                </a>
+                Use Google Gemini, any OpenAI-compatible endpoint, or a model running locally with Ollama.
+                {selectedProvider.id === 'gemini' && (
+                  <a
+                    href="https://aistudio.google.com/"
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-violet-400 hover:underline ml-1"
+                  >
+                    Get a free Gemini API key
+                  </a>
+                )}
               </p>
-              <div className="flex gap-3">
+              <div className="grid gap-3 sm:grid-cols-2 mb-3">
+                <select
+                  value={llmConfig.provider}
+                  onChange={(e) => setLlmConfig({ provider: e.target.value as LLMConfig['provider'] })}
+                  className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-violet-500"
+                >
+                  {LLM_PROVIDERS.map((provider) => (
+                    <option key={provider.id} value={provider.id}>{provider.label}</option>
+                  ))}
+                </select>
                 <input
-                  type="password"
-                  value={apiKey}
-                  onChange={(e) => setApiKeyState(e.target.value)}
-                  placeholder="Enter your Gemini API key"
-                  className="flex-1 px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500"
+                  type="text"
+                  value={llmConfig.model ?? ''}
+                  onChange={(e) => setLlmConfig({ ...llmConfig, model: e.target.value })}
+                  placeholder={selectedProvider.defaultModel}
+                  className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500"
                 />
+                {selectedProvider.id !== 'gemini' && (
+                  <input
+                    type="url"
+                    value={llmConfig.baseUrl ?? ''}
+                    onChange={(e) => setLlmConfig({ ...llmConfig, baseUrl: e.target.value })}
+                    placeholder={selectedProvider.defaultBaseUrl}
+                    className="sm:col-span-2 px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500"
+                  />
+                )}
+              </div>
+              <div className="flex gap-3">
+                {selectedProvider.needsKey && (
+                  <input
+                    type="password"
+                    value={apiKey}
+                    onChange={(e) => setApiKeyState(e.target.value)}
+                    placeholder={`${selectedProvider.label} API key`}
+                    className="flex-1 px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500"
+                  />
+                )}
                 <button
                   onClick={handleSaveApiKey}
                   className="px-4 py-2 bg-violet-500 text-white rounded-lg font-medium hover:bg-violet-600 transition-colors"
@@ -309,6 +358,10 @@ export function AIInsights({ compact = false }: AIInsightsProps) {
         </div>
       )}
 
+      {keyNotice && (
+        <p className="text-amber-300 text-sm">{keyNotice}</p>
+      )}
+
       {/* Error Display */}
       {error && (
         <div className="flex items-center gap-3 p-4 bg-red-500/10 border border-red-500/20 rounded-xl">
@@ -479,7 +532,7 @@ export function AIInsights({ compact = false }: AIInsightsProps) {
           className="flex items-center gap-2 text-slate-400 hover:text-white text-sm transition-colors"
         >
           <Settings className="w-4 h-4" />
-          {apiKey ? 'Update API Key' : 'Set API Key'}
+          {isLLMConfigured() ? 'AI Provider Settings' : 'Connect AI Provider'}
         </button>
       </div>
     </div>
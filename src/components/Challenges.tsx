@@ -14,6 +14,7 @@ import {
   Sparkles,
 } from 'lucide-react';
 import { DailyChallenge, WeeklyChallenge } from '../contexts/GamificationContext';
+import { StreakPanel } from './StreakPanel';
 
 export function Challenges() {
   const {
@@ -102,6 +103,8 @@ export function Challenges() {
         </div>
       </div>
 
+      <StreakPanel />
+
       {/* Tabs */}
       <div className="flex items-center gap-2">
         <button
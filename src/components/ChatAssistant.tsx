@@ -0,0 +1,265 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useMood } from '../contexts/MoodContext';
+import { chatbotService, collectChatContext } from '../services/recommendations';
+import { downloadFile } from '../utils/patternAnalysis';
+import type { ChatConversation, ChatMessage } from '../types/advanced';
+import {
+  MessageCircle,
+  Plus,
+  Send,
+  Pencil,
+  Trash2,
+  FileText,
+  FileJson,
+  Check,
+  X,
+} from 'lucide-react';
+
+export function ChatAssistant() {
+  const { user } = useAuth();
+  const { entries } = useMood();
+  const userId = user?.id ?? 'anonymous';
+
+  const [conversations, setConversations] = useState<ChatConversation[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [streaming, setStreaming] = useState<string | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const threadRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const refreshConversations = useCallback(async () => {
+    try {
+      setConversations(await chatbotService.listConversations(userId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load conversations');
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    refreshConversations();
+    return () => abortRef.current?.abort();
+  }, [refreshConversations]);
+
+  useEffect(() => {
+    threadRef.current?.scrollTo({ top: threadRef.current.scrollHeight });
+  }, [messages, streaming]);
+
+  const openConversation = async (conversation: ChatConversation) => {
+    setActiveId(conversation.id);
+    setError(null);
+    try {
+      setMessages(await chatbotService.loadMessages(userId, conversation.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load messages');
+    }
+  };
+
+  const handleNew = async () => {
+    const context = await collectChatContext(entries);
+    const conversation = await chatbotService.createConversation(userId, context);
+    setActiveId(conversation.id);
+    setMessages([]);
+    await refreshConversations();
+  };
+
+  const handleSend = async () => {
+    const text = draft.trim();
+    if (!text || streaming !== null) return;
+
+    let conversationId = activeId;
+    const context = await collectChatContext(entries);
+    if (!conversationId) {
+      conversationId = (await chatbotService.createConversation(userId, context)).id;
+      setActiveId(conversationId);
+    }
+
+    setDraft('');
+    setStreaming('');
+    setMessages((prev) => [
+      ...prev,
+      { id: `pending-${Date.now()}`, user_id: userId, conversation_id: conversationId, role: 'user', content: text, created_at: new Date().toISOString() },
+    ]);
+
+    abortRef.current = new AbortController();
+    try {
+      await chatbotService.sendMessage(userId, conversationId, text, context, {
+        signal: abortRef.current.signal,
+        onToken: (delta) => setStreaming((prev) => (prev ?? '') + delta),
+      });
+      setMessages([...chatbotService.getConversationHistory(userId, conversationId)]);
+      await refreshConversations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Message failed to send');
+    } finally {
+      setStreaming(null);
+      abortRef.current = null;
+    }
+  };
+
+  const handleRename = async (conversationId: string) => {
+    await chatbotService.renameConversation(userId, conversationId, renameValue);
+    setRenamingId(null);
+    await refreshConversations();
+  };
+
+  const handleDelete = async (conversationId: string) => {
+    if (!window.confirm('Delete this conversation? This cannot be undone.')) return;
+    await chatbotService.deleteConversation(userId, conversationId);
+    if (activeId === conversationId) {
+      setActiveId(null);
+      setMessages([]);
+    }
+    await refreshConversations();
+  };
+
+  const handleExport = async (conversation: ChatConversation, format: 'markdown' | 'json') => {
+    const content = await chatbotService.exportConversation(userId, conversation.id, format);
+    const slug = conversation.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'conversation';
+    downloadFile(
+      content,
+      `moodmash-chat-${slug}.${format === 'json' ? 'json' : 'md'}`,
+      format === 'json' ? 'application/json' : 'text/markdown'
+    );
+  };
+
+  const active = conversations.find((c) => c.id === activeId);
+
+  return (
+    <div className="grid lg:grid-cols-[280px_1fr] gap-6">
+      {/* Conversation List */}
+      <div className="glass rounded-2xl p-4 space-y-2 h-fit">
+        <button
+          onClick={handleNew}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 mb-2 bg-gradient-to-r from-violet-500 to-fuchsia-500 rounded-xl text-white font-medium hover:opacity-90 transition-opacity"
+        >
+          <Plus className="w-4 h-4" />
+          New conversation
+        </button>
+
+        {conversations.length === 0 && (
+          <p className="text-slate-400 text-sm text-center py-4">No conversations yet</p>
+        )}
+
+        {conversations.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={`group rounded-xl p-3 transition-colors ${
+              conversation.id === activeId ? 'bg-violet-500/20' : 'hover:bg-white/5'
+            }`}
+          >
+            {renamingId === conversation.id ? (
+              <div className="flex items-center gap-1">
+                <input
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleRename(conversation.id)}
+                  className="flex-1 min-w-0 bg-slate-800 border border-white/10 rounded-lg px-2 py-1 text-sm text-white"
+                  autoFocus
+                />
+                <button onClick={() => handleRename(conversation.id)} className="p-1 text-emerald-400" aria-label="Save title">
+                  <Check className="w-4 h-4" />
+                </button>
+                <button onClick={() => setRenamingId(null)} className="p-1 text-slate-400" aria-label="Cancel rename">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <button onClick={() => openConversation(conversation)} className="w-full text-left">
+                <p className="text-white text-sm font-medium truncate">{conversation.title}</p>
+                <p className="text-slate-500 text-xs">
+                  {conversation.message_count} messages · {new Date(conversation.last_message_at).toLocaleDateString()}
+                </p>
+              </button>
+            )}
+
+            {renamingId !== conversation.id && (
+              <div className="flex gap-1 mt-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                <button
+                  onClick={() => { setRenamingId(conversation.id); setRenameValue(conversation.title); }}
+                  className="p-1 text-slate-400 hover:text-white"
+                  aria-label="Rename conversation"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleExport(conversation, 'markdown')} className="p-1 text-slate-400 hover:text-white" aria-label="Export as Markdown">
+                  <FileText className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleExport(conversation, 'json')} className="p-1 text-slate-400 hover:text-white" aria-label="Export as JSON">
+                  <FileJson className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={() => handleDelete(conversation.id)} className="p-1 text-slate-400 hover:text-red-400" aria-label="Delete conversation">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Thread */}
+      <div className="glass rounded-2xl flex flex-col h-[600px]">
+        <div className="flex items-center gap-3 p-4 border-b border-white/10">
+          <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-violet-500 to-fuchsia-500 flex items-center justify-center">
+            <MessageCircle className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <p className="text-white font-medium">{active?.title ?? 'MoodMash Assistant'}</p>
+            <p className="text-slate-400 text-xs">A supportive companion, not a substitute for professional care</p>
+          </div>
+        </div>
+
+        <div ref={threadRef} className="flex-1 overflow-y-auto p-4 space-y-3">
+          {messages.length === 0 && streaming === null && (
+            <p className="text-slate-400 text-sm text-center mt-12">
+              How are you feeling today? I can see your recent check-ins and journal themes.
+            </p>
+          )}
+          {messages.filter((m) => m.role !== 'system').map((message) => (
+            <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+              <div
+                className={`max-w-[80%] rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap ${
+                  message.role === 'user' ? 'bg-violet-500 text-white' : 'bg-slate-800 text-slate-100'
+                }`}
+              >
+                {message.content}
+              </div>
+            </div>
+          ))}
+          {streaming !== null && (
+            <div className="flex justify-start">
+              <div className="max-w-[80%] rounded-2xl px-4 py-2 text-sm whitespace-pre-wrap bg-slate-800 text-slate-100">
+                {streaming || <span className="text-slate-400">Thinking…</span>}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {error && <p className="px-4 pb-2 text-red-400 text-sm">{error}</p>}
+
+        <div className="flex gap-2 p-4 border-t border-white/10">
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && !e.shiftKey && handleSend()}
+            placeholder="Type a message…"
+            className="flex-1 bg-slate-800 border border-white/10 rounded-xl px-4 py-2 text-white placeholder-slate-500"
+            disabled={streaming !== null}
+          />
+          <button
+            onClick={handleSend}
+            disabled={!draft.trim() || streaming !== null}
+            className="px-4 py-2 bg-gradient-to-r from-violet-500 to-fuchsia-500 rounded-xl text-white disabled:opacity-50"
+            aria-label="Send message"
+          >
+            <Send className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
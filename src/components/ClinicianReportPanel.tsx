@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import { useMood } from '../contexts/MoodContext';
+import { useAuth } from '../contexts/AuthContext';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { getJournalEntries } from '../services/journalService';
+import { getWellnessSessions } from '../services/wellnessService';
+import { wearablesService } from '../services/wearables';
+import { buildClinicianReport, printReport, renderReportHTML, toDateKey } from '../utils/clinicianReport';
+import type { JournalEntry, WellnessSession } from '../types/database';
+import type { SleepSession } from '../types/advanced';
+import { Printer, EyeOff, BookOpen, AlertTriangle } from 'lucide-react';
+
+const RECORD_LIMIT = 100;
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+};
+
+// <input type="date"> values are local days
+const parseDay = (value: string) => new Date(`${value}T00:00:00`);
+
+export function ClinicianReportPanel() {
+  const { entries } = useMood();
+  const { user } = useAuth();
+  const [start, setStart] = useState(toDateKey(daysAgo(30)));
+  const [end, setEnd] = useState(toDateKey(new Date()));
+  const [redactNotes, setRedactNotes] = useState(true);
+  const [preparedFor, setPreparedFor] = useState('');
+  const [journals, setJournals] = useState<JournalEntry[]>([]);
+  const [sessions, setSessions] = useState<WellnessSession[]>([]);
+  const [sleep, setSleep] = useState<SleepSession[]>([]);
+  const [excerptIds, setExcerptIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const accountData = isSupabaseConfigured() && !!user;
+  const validRange = start !== '' && end !== '' && start <= end;
+
+  useEffect(() => {
+    if (!accountData || !validRange) return;
+    let cancelled = false;
+
+    Promise.all([
+      getJournalEntries({ startDate: start, endDate: end }, { limit: RECORD_LIMIT }),
+      getWellnessSessions({ startDate: start, endDate: end }, { limit: RECORD_LIMIT }),
+      wearablesService.getSleepData(user.id, start, end),
+    ]).then(([journalResponse, sessionResponse, sleepData]) => {
+      if (cancelled) return;
+      setJournals(journalResponse.data?.data ?? []);
+      setSessions(sessionResponse.data?.data ?? []);
+      setSleep(sleepData);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [accountData, validRange, start, end, user]);
+
+  const toggleExcerpt = (id: string) => {
+    setExcerptIds((prev) => (prev.includes(id) ? prev.filter((existing) => existing !== id) : [...prev, id]));
+  };
+
+  const rangeEntries = validRange
+    ? entries.filter((entry) => {
+      const day = toDateKey(new Date(entry.createdAt));
+      return day >= start && day <= end;
+    })
+    : [];
+
+  const handlePrint = () => {
+    setError(null);
+    const report = buildClinicianReport(
+      { entries, sleep, sessions, journals },
+      {
+        range: { start: parseDay(start), end: parseDay(end) },
+        redactNotes,
+        journalExcerptIds: excerptIds,
+        preparedFor,
+      }
+    );
+
+    try {
+      printReport(renderReportHTML(report));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the print dialog');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Date Range */}
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block">
+          <span className="block text-sm text-slate-400 mb-2">From</span>
+          <input
+            type="date"
+            value={start}
+            max={end}
+            onChange={(e) => setStart(e.target.value)}
+            className="w-full px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white"
+          />
+        </label>
+        <label className="block">
+          <span className="block text-sm text-slate-400 mb-2">To</span>
+          <input
+            type="date"
+            value={end}
+            min={start}
+            onChange={(e) => setEnd(e.target.value)}
+            className="w-full px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white"
+          />
+        </label>
+      </div>
+
+      <label className="block">
+        <span className="block text-sm text-slate-400 mb-2">Prepared for (optional)</span>
+        <input
+          type="text"
+          value={preparedFor}
+          onChange={(e) => setPreparedFor(e.target.value)}
+          placeholder="e.g. Dr. Rivera"
+          className="w-full px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white placeholder-slate-500"
+        />
+      </label>
+
+      {/* Redaction */}
+      <label className="flex items-start gap-3 p-4 rounded-xl bg-white/5 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={redactNotes}
+          onChange={(e) => setRedactNotes(e.target.checked)}
+          className="mt-1"
+        />
+        <div>
+          <p className="text-white font-medium flex items-center gap-2">
+            <EyeOff className="w-4 h-4 text-violet-400" />
+            Hide notes
+          </p>
+          <p className="text-xs text-slate-500">
+            Leaves out your mood notes and journal excerpts. Charts, patterns and summaries stay.
+          </p>
+        </div>
+      </label>
+
+      {/* Journal Excerpts */}
+      {accountData && !redactNotes && journals.length > 0 && (
+        <div>
+          <p className="text-sm text-slate-400 mb-2 flex items-center gap-2">
+            <BookOpen className="w-4 h-4" />
+            Journal excerpts to include
+          </p>
+          <div className="max-h-48 overflow-auto space-y-1">
+            {journals.map((journal) => (
+              <label key={journal.id} className="flex items-center gap-3 text-sm p-2 bg-white/5 rounded-lg cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={excerptIds.includes(journal.id)}
+                  onChange={() => toggleExcerpt(journal.id)}
+                />
+                <span className="text-slate-500 w-24">{journal.entry_date}</span>
+                <span className="text-slate-300 truncate flex-1">{journal.title || journal.content.slice(0, 80)}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Preview */}
+      <div className="p-4 bg-slate-800/50 rounded-xl text-sm text-slate-400">
+        {rangeEntries.length} mood {rangeEntries.length === 1 ? 'entry' : 'entries'}
+        {accountData && `, ${sessions.length} wellness sessions, ${sleep.length} nights of sleep`}
+        {!redactNotes && excerptIds.length > 0 && `, ${excerptIds.length} journal excerpts`}
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <button
+        onClick={handlePrint}
+        disabled={!validRange || rangeEntries.length === 0}
+        className="w-full flex items-center justify-center gap-2 py-3 rounded-xl font-medium bg-gradient-to-r from-violet-600 to-fuchsia-600 text-white hover:shadow-lg hover:shadow-violet-500/25 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <Printer className="w-5 h-5" />
+        Print or Save as PDF
+      </button>
+
+      <p className="text-xs text-slate-500 text-center">
+        The report is put together on this device and never uploaded.
+      </p>
+    </div>
+  );
+}
+
+export default ClinicianReportPanel;
@@ -1,110 +1,97 @@
 // ============================================================================
 // Cookie Consent Banner Component
 // MoodMash - GDPR Compliant Cookie Management
+// Shown until the signed-in user accepts the current privacy policy version;
+// after a policy change it blocks the app until consent is given again.
 // ============================================================================
 
 import React, { useState, useEffect } from 'react';
+import { useCompliance } from '../contexts/ComplianceContext';
+import type { ConsentType } from '../contexts/ComplianceContext';
+import { latestEntries } from '../services/consentLedger';
 
-interface CookieConsentProps {
-  onConsent: (consent: CookieConsentData) => void;
-}
+type OptionalConsent = Exclude<ConsentType, 'essential' | 'opt_out'>;
 
-interface CookieConsentData {
-  necessary: boolean;
-  functional: boolean;
-  analytics: boolean;
-  marketing: boolean;
-  ad_personalization: boolean;
-}
+type CookieConsentData = Record<OptionalConsent, boolean>;
 
-const CookieConsent: React.FC<CookieConsentProps> = ({ onConsent }) => {
-  const [showBanner, setShowBanner] = useState(false);
+const NO_OPTIONAL_CONSENT: CookieConsentData = {
+  personalization: false,
+  analytics: false,
+  marketing: false,
+  third_party: false,
+};
+
+const CookieConsent: React.FC = () => {
+  const { needsReconsent, acceptedPolicyVersion, privacyPolicy, consentLedger, recordConsents } = useCompliance();
   const [showDetails, setShowDetails] = useState(false);
-  const [consent, setConsent] = useState<CookieConsentData>({
-    necessary: true,
-    functional: false,
-    analytics: false,
-    marketing: false,
-    ad_personalization: false
-  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [consent, setConsent] = useState<CookieConsentData>(NO_OPTIONAL_CONSENT);
 
+  // Start from the choices made under the previous policy, if any
   useEffect(() => {
-    // Check if user has already given consent
-    const storedConsent = localStorage.getItem('moodmash_cookie_consent');
-    if (!storedConsent) {
-      setShowBanner(true);
-    } else {
-      // Already consented, inform parent
-      onConsent(JSON.parse(storedConsent));
+    if (!needsReconsent) return;
+    const latest = latestEntries(consentLedger);
+    setConsent({
+      personalization: latest.get('personalization')?.granted ?? false,
+      analytics: latest.get('analytics')?.granted ?? false,
+      marketing: latest.get('marketing')?.granted ?? false,
+      third_party: latest.get('third_party')?.granted ?? false,
+    });
+  }, [needsReconsent, consentLedger]);
+
+  const saveConsent = async (consentData: CookieConsentData) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await recordConsents(consentData, 'cookie_banner');
+      setShowDetails(false);
+    } catch {
+      setError('Your choices could not be saved. Please try again.');
+    } finally {
+      setIsSaving(false);
     }
-  }, [onConsent]);
+  };
 
   const handleAcceptAll = () => {
-    const fullConsent: CookieConsentData = {
-      necessary: true,
-      functional: true,
-      analytics: true,
-      marketing: true,
-      ad_personalization: true
-    };
-    saveConsent(fullConsent);
+    saveConsent({ personalization: true, analytics: true, marketing: true, third_party: true });
   };
 
   const handleRejectAll = () => {
-    const minimalConsent: CookieConsentData = {
-      necessary: true,
-      functional: false,
-      analytics: false,
-      marketing: false,
-      ad_personalization: false
-    };
-    saveConsent(minimalConsent);
+    saveConsent(NO_OPTIONAL_CONSENT);
   };
 
   const handleSavePreferences = () => {
     saveConsent(consent);
   };
 
-  const saveConsent = (consentData: CookieConsentData) => {
-    const consentRecord = {
-      ...consentData,
-      consent_version: '1.0',
-      consent_given_at: new Date().toISOString(),
-      session_id: getSessionId()
-    };
-
-    localStorage.setItem('moodmash_cookie_consent', JSON.stringify(consentRecord));
-    setShowBanner(false);
-    onConsent(consentData);
-  };
-
-  const getSessionId = (): string => {
-    let sessionId = sessionStorage.getItem('moodmash_session_id');
-    if (!sessionId) {
-      sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      sessionStorage.setItem('moodmash_session_id', sessionId);
-    }
-    return sessionId;
-  };
-
-  if (!showBanner) {
+  if (!needsReconsent) {
     return null;
   }
 
-  return (
+  // A returning user is re-consenting to a changed policy
+  const policyChanged = acceptedPolicyVersion !== null;
+
+  const banner = (
     <div
       className="fixed bottom-0 left-0 right-0 z-50 p-4 bg-white border-t border-gray-200 shadow-lg dark:bg-gray-900 dark:border-gray-700"
       role="dialog"
+      aria-modal={policyChanged}
       aria-label="Cookie Consent"
       aria-describedby="cookie-consent-description"
     >
+      {error && (
+        <p className="max-w-4xl mx-auto mb-3 text-sm text-red-600 dark:text-red-400" role="alert">{error}</p>
+      )}
       {!showDetails ? (
         // Simple Banner View
         <div className="max-w-4xl mx-auto flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
           <div className="flex-1">
             <p id="cookie-consent-description" className="text-sm text-gray-700 dark:text-gray-300">
-              We use cookies to enhance your experience. By clicking "Accept All", you consent to our use of cookies.
-              Read our <a href="/privacy" className="text-blue-600 hover:underline">Privacy Policy</a> and <a href="/terms" className="text-blue-600 hover:underline">Cookie Policy</a>.
+              {policyChanged
+                ? `We've updated our privacy policy (version ${acceptedPolicyVersion} to ${privacyPolicy.version}). Please review your choices to continue; optional processing stays off until you do. `
+                : 'We use cookies to enhance your experience. By clicking "Accept All", you consent to our use of cookies. '}
+              Read our <a href="/privacy-policy" className="text-blue-600 hover:underline">Privacy Policy</a> and <a href="/terms" className="text-blue-600 hover:underline">Cookie Policy</a>.
             </p>
           </div>
           <div className="flex flex-wrap gap-2">
@@ -117,6 +104,7 @@ const CookieConsent: React.FC<CookieConsentProps> = ({ onConsent }) => {
             </button>
             <button
               onClick={handleRejectAll}
+              disabled={isSaving}
               className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700"
               aria-label="Reject all optional cookies"
             >
@@ -124,6 +112,7 @@ const CookieConsent: React.FC<CookieConsentProps> = ({ onConsent }) => {
             </button>
             <button
               onClick={handleAcceptAll}
+              disabled={isSaving}
               className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
               aria-label="Accept all cookies"
             >
@@ -151,7 +140,7 @@ const CookieConsent: React.FC<CookieConsentProps> = ({ onConsent }) => {
                   <input
                     type="checkbox"
                     id="necessary"
-                    checked={consent.necessary}
+                    checked
                     disabled
                     className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
                     aria-describedby="necessary-description"
@@ -173,8 +162,8 @@ const CookieConsent: React.FC<CookieConsentProps> = ({ onConsent }) => {
                   <input
                     type="checkbox"
                     id="functional"
-                    checked={consent.functional}
-                    onChange={(e) => setConsent(prev => ({ ...prev, functional: e.target.checked }))}
+                    checked={consent.personalization}
+                    onChange={(e) => setConsent(prev => ({ ...prev, personalization: e.target.checked }))}
                     className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
                     aria-describedby="functional-description"
                   />
@@ -232,24 +221,24 @@ const CookieConsent: React.FC<CookieConsentProps> = ({ onConsent }) => {
               </div>
             </div>
 
-            {/* Ad Personalization */}
+            {/* Third-Party Services */}
             <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg dark:bg-gray-800">
               <div className="flex-1">
                 <div className="flex items-center gap-2">
                   <input
                     type="checkbox"
-                    id="ad_personalization"
-                    checked={consent.ad_personalization}
-                    onChange={(e) => setConsent(prev => ({ ...prev, ad_personalization: e.target.checked }))}
+                    id="third_party"
+                    checked={consent.third_party}
+                    onChange={(e) => setConsent(prev => ({ ...prev, third_party: e.target.checked }))}
                     className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
-                    aria-describedby="ad-personalization-description"
+                    aria-describedby="third-party-description"
                   />
-                  <label htmlFor="ad_personalization" className="font-medium text-gray-900 dark:text-white">
-                    Ad Personalization
+                  <label htmlFor="third_party" className="font-medium text-gray-900 dark:text-white">
+                    AI & Third-Party Services
                   </label>
                 </div>
-                <p id="ad-personalization-description" className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                  Allow ads to be personalized based on your interests.
+                <p id="third-party-description" className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Send mood entries to hosted AI providers to generate insights.
                 </p>
               </div>
             </div>
@@ -265,6 +254,7 @@ const CookieConsent: React.FC<CookieConsentProps> = ({ onConsent }) => {
             </button>
             <button
               onClick={handleRejectAll}
+              disabled={isSaving}
               className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-400 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-600 dark:hover:bg-gray-700"
               aria-label="Reject all optional cookies"
             >
@@ -272,6 +262,7 @@ const CookieConsent: React.FC<CookieConsentProps> = ({ onConsent }) => {
             </button>
             <button
               onClick={handleSavePreferences}
+              disabled={isSaving}
               className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
               aria-label="Save cookie preferences"
             >
@@ -279,6 +270,7 @@ const CookieConsent: React.FC<CookieConsentProps> = ({ onConsent }) => {
             </button>
             <button
               onClick={handleAcceptAll}
+              disabled={isSaving}
               className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500"
               aria-label="Accept all cookies"
             >
@@ -289,6 +281,17 @@ const CookieConsent: React.FC<CookieConsentProps> = ({ onConsent }) => {
       )}
     </div>
   );
+
+  if (!policyChanged) {
+    return banner;
+  }
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 bg-black/60 backdrop-blur-sm" aria-hidden="true" />
+      {banner}
+    </>
+  );
 };
 
 export default CookieConsent;
@@ -1,10 +1,12 @@
 import { useState } from 'react';
 import { useMood } from '../contexts/MoodContext';
 import { exportToCSV, exportToJSON, downloadFile } from '../utils/patternAnalysis';
+import { ClinicianReportPanel } from './ClinicianReportPanel';
 import {
   Download,
   FileJson,
   FileSpreadsheet,
+  FileText,
   Calendar,
   Clock,
   Hash,
@@ -14,7 +16,7 @@ import {
   AlertTriangle,
 } from 'lucide-react';
 
-type ExportFormat = 'json' | 'csv';
+type ExportFormat = 'json' | 'csv' | 'report';
 
 interface DataRange {
   label: string;
@@ -128,7 +130,7 @@ export function DataExport() {
         {/* Format Selection */}
         <div className="mb-6">
           <label className="block text-sm text-slate-400 mb-3">Format</label>
-          <div className="grid grid-cols-2 gap-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
             <button
               onClick={() => setFormat('json')}
               className={`flex items-center gap-3 p-4 rounded-xl border transition-all ${
@@ -158,92 +160,113 @@ export function DataExport() {
                 <p className="text-xs text-slate-500">Spreadsheet compatible</p>
               </div>
             </button>
+
+            <button
+              onClick={() => setFormat('report')}
+              className={`flex items-center gap-3 p-4 rounded-xl border transition-all ${
+                format === 'report'
+                  ? 'bg-violet-500/20 border-violet-500/50 text-white'
+                  : 'bg-white/5 border-white/10 text-slate-400 hover:bg-white/10'
+              }`}
+            >
+              <FileText className="w-5 h-5" />
+              <div className="text-left">
+                <p className="font-medium">Report</p>
+                <p className="text-xs text-slate-500">Printable PDF for your clinician</p>
+              </div>
+            </button>
           </div>
         </div>
 
-        {/* Date Range Selection */}
-        <div className="mb-6">
-          <label className="block text-sm text-slate-400 mb-3">Date Range</label>
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-            {dateRanges.map((rangeOption) => (
+        {format === 'report' ? (
+          <ClinicianReportPanel />
+        ) : (
+          <>
+            {/* Date Range Selection */}
+            <div className="mb-6">
+              <label className="block text-sm text-slate-400 mb-3">Date Range</label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {dateRanges.map((rangeOption) => (
+                  <button
+                    key={rangeOption.value}
+                    onClick={() => setRange(rangeOption.value)}
+                    className={`flex items-center gap-2 p-3 rounded-xl border transition-all ${
+                      range === rangeOption.value
+                        ? 'bg-violet-500/20 border-violet-500/50 text-white'
+                        : 'bg-white/5 border-white/10 text-slate-400 hover:bg-white/10'
+                    }`}
+                  >
+                    {rangeOption.icon}
+                    <span className="text-sm">{rangeOption.label}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="mb-6 p-4 bg-slate-800/50 rounded-xl">
+              <div className="flex items-center justify-between mb-2">
+                <p className="text-sm text-slate-400">Entries to export</p>
+                <div className="flex items-center gap-2">
+                  <Hash className="w-4 h-4 text-slate-500" />
+                  <span className="text-white font-medium">{entryCount}</span>
+                </div>
+              </div>
+              {range !== 'all' && (
+                <p className="text-xs text-slate-500">
+                  From {dateRanges.find((r) => r.value === range)?.label.toLowerCase()}
+                </p>
+              )}
+            </div>
+
+            {/* Export Actions */}
+            <div className="flex gap-3">
               <button
-                key={rangeOption.value}
-                onClick={() => setRange(rangeOption.value)}
-                className={`flex items-center gap-2 p-3 rounded-xl border transition-all ${
-                  range === rangeOption.value
-                    ? 'bg-violet-500/20 border-violet-500/50 text-white'
-                    : 'bg-white/5 border-white/10 text-slate-400 hover:bg-white/10'
-                }`}
+                onClick={handleExport}
+                disabled={entryCount === 0}
+                className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-xl font-medium transition-all ${
+                  exportSuccess
+                    ? 'bg-emerald-500 text-white'
+                    : 'bg-gradient-to-r from-violet-600 to-fuchsia-600 text-white hover:shadow-lg hover:shadow-violet-500/25'
+                } disabled:opacity-50 disabled:cursor-not-allowed`}
               >
-                {rangeOption.icon}
-                <span className="text-sm">{rangeOption.label}</span>
+                {exportSuccess ? (
+                  <>
+                    <Check className="w-5 h-5" />
+                    Exported!
+                  </>
+                ) : (
+                  <>
+                    <Download className="w-5 h-5" />
+                    Export {format.toUpperCase()}
+                  </>
+                )}
               </button>
-            ))}
-          </div>
-        </div>
 
-        {/* Preview */}
-        <div className="mb-6 p-4 bg-slate-800/50 rounded-xl">
-          <div className="flex items-center justify-between mb-2">
-            <p className="text-sm text-slate-400">Entries to export</p>
-            <div className="flex items-center gap-2">
-              <Hash className="w-4 h-4 text-slate-500" />
-              <span className="text-white font-medium">{entryCount}</span>
+              <button
+                onClick={handleCopyToClipboard}
+                disabled={entryCount === 0}
+                className="flex items-center gap-2 px-4 py-3 rounded-xl bg-white/5 text-slate-400 hover:bg-white/10 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {copied ? (
+                  <>
+                    <Check className="w-5 h-5 text-emerald-400" />
+                    Copied!
+                  </>
+                ) : (
+                  <>
+                    <Copy className="w-5 h-5" />
+                    Copy
+                  </>
+                )}
+              </button>
             </div>
-          </div>
-          {range !== 'all' && (
-            <p className="text-xs text-slate-500">
-              From {dateRanges.find((r) => r.value === range)?.label.toLowerCase()}
-            </p>
-          )}
-        </div>
-
-        {/* Export Actions */}
-        <div className="flex gap-3">
-          <button
-            onClick={handleExport}
-            disabled={entryCount === 0}
-            className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-xl font-medium transition-all ${
-              exportSuccess
-                ? 'bg-emerald-500 text-white'
-                : 'bg-gradient-to-r from-violet-600 to-fuchsia-600 text-white hover:shadow-lg hover:shadow-violet-500/25'
-            } disabled:opacity-50 disabled:cursor-not-allowed`}
-          >
-            {exportSuccess ? (
-              <>
-                <Check className="w-5 h-5" />
-                Exported!
-              </>
-            ) : (
-              <>
-                <Download className="w-5 h-5" />
-                Export {format.toUpperCase()}
-              </>
-            )}
-          </button>
-
-          <button
-            onClick={handleCopyToClipboard}
-            disabled={entryCount === 0}
-            className="flex items-center gap-2 px-4 py-3 rounded-xl bg-white/5 text-slate-400 hover:bg-white/10 hover:text-white transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {copied ? (
-              <>
-                <Check className="w-5 h-5 text-emerald-400" />
-                Copied!
-              </>
-            ) : (
-              <>
-                <Copy className="w-5 h-5" />
-                Copy
-              </>
-            )}
-          </button>
-        </div>
+          </>
+        )}
       </div>
 
       {/* Data Preview */}
-      {entryCount > 0 && (
+      {format !== 'report' && entryCount > 0 && (
         <div className="glass rounded-xl p-6">
           <h3 className="text-lg font-semibold text-white mb-4">Data Preview</h3>
           <div className="bg-slate-900 rounded-lg p-4 max-h-64 overflow-auto">
@@ -0,0 +1,299 @@
+import { useRef, useState } from 'react';
+import { useMood, MOOD_EMOTIONS } from '../contexts/MoodContext';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { bulkCreateJournalEntries } from '../services/journalService';
+import { IMPORT_FORMAT_LABELS, buildImportPreview } from '../utils/moodImport';
+import type { ImportPreview } from '../utils/moodImport';
+import {
+  Upload,
+  FileUp,
+  Check,
+  AlertTriangle,
+  Copy,
+  BookOpen,
+  X,
+} from 'lucide-react';
+
+type ImportStep = 'select' | 'preview' | 'importing' | 'done';
+
+interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+interface ImportSummary {
+  moods: number;
+  journals: number;
+  journalsSkipped: number;
+  failed: number;
+}
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+const MOOD_BATCH_SIZE = 100;
+const JOURNAL_BATCH_SIZE = 50;
+const PREVIEW_ROWS = 8;
+const ISSUE_ROWS = 20;
+
+// Let the progress bar paint between batches
+const nextFrame = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+export function DataImport() {
+  const { entries, importEntries } = useMood();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<ImportStep>('select');
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ImportProgress>({ done: 0, total: 0 });
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const journalsSupported = isSupabaseConfigured();
+
+  const reset = () => {
+    setStep('select');
+    setFileName('');
+    setPreview(null);
+    setError(null);
+    setSummary(null);
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+
+    if (file.size > MAX_FILE_BYTES) {
+      setError('That file is larger than 10 MB. Split it and import the parts one at a time.');
+      return;
+    }
+
+    try {
+      const result = buildImportPreview(await file.text(), entries);
+      setFileName(file.name);
+      setPreview(result);
+      setStep('preview');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read that file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    const journals = journalsSupported ? preview.journals : [];
+    const result: ImportSummary = { moods: 0, journals: 0, journalsSkipped: preview.journals.length - journals.length, failed: 0 };
+    setProgress({ done: 0, total: preview.moods.length + journals.length });
+    setStep('importing');
+
+    for (let i = 0; i < preview.moods.length; i += MOOD_BATCH_SIZE) {
+      const batch = preview.moods.slice(i, i + MOOD_BATCH_SIZE);
+      result.moods += importEntries(batch).length;
+      setProgress((prev) => ({ ...prev, done: prev.done + batch.length }));
+      await nextFrame();
+    }
+
+    for (let i = 0; i < journals.length; i += JOURNAL_BATCH_SIZE) {
+      const batch = journals.slice(i, i + JOURNAL_BATCH_SIZE);
+      const response = await bulkCreateJournalEntries(batch);
+      if (response.success) {
+        result.journals += response.data?.length ?? batch.length;
+      } else {
+        result.failed += batch.length;
+      }
+      setProgress((prev) => ({ ...prev, done: prev.done + batch.length }));
+    }
+
+    setSummary(result);
+    setStep('done');
+  };
+
+  const errors = preview?.issues.filter((issue) => issue.severity === 'error') ?? [];
+  const warnings = preview?.issues.filter((issue) => issue.severity === 'warning') ?? [];
+  const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 100;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-3">
+        <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-sky-500 to-violet-500 flex items-center justify-center">
+          <Upload className="w-6 h-6 text-white" />
+        </div>
+        <div>
+          <h2 className="text-xl font-bold text-white">Data Import</h2>
+          <p className="text-slate-400 text-sm">Bring in a MoodMash export or another mood tracker's CSV</p>
+        </div>
+      </div>
+
+      {/* Select File */}
+      {step === 'select' && (
+        <div className="glass rounded-xl p-6">
+          <label
+            htmlFor="mood-import-file"
+            className="flex flex-col items-center justify-center gap-3 p-8 rounded-xl border-2 border-dashed border-white/10 hover:border-violet-500/50 hover:bg-white/5 transition-all cursor-pointer"
+          >
+            <FileUp className="w-8 h-8 text-violet-400" />
+            <span className="text-white font-medium">Choose a JSON or CSV file</span>
+            <span className="text-xs text-slate-500 text-center">
+              MoodMash exports and account archives, Daylio exports, or any CSV with date and mood columns
+            </span>
+          </label>
+          <input
+            id="mood-import-file"
+            ref={fileInput}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+
+          {error && (
+            <div className="mt-4 flex items-start gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Preview */}
+      {step === 'preview' && preview && (
+        <div className="glass rounded-xl p-6 space-y-6">
+          <div className="flex items-start justify-between">
+            <div>
+              <h3 className="text-lg font-semibold text-white">{fileName}</h3>
+              <p className="text-sm text-slate-400">{IMPORT_FORMAT_LABELS[preview.format]}</p>
+            </div>
+            <button onClick={reset} className="p-2 rounded-lg text-slate-400 hover:bg-white/10 hover:text-white transition-colors" aria-label="Choose another file">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="p-4 bg-slate-800/50 rounded-xl">
+              <p className="text-xs text-slate-400">Found</p>
+              <p className="text-2xl font-bold text-white">{preview.total}</p>
+            </div>
+            <div className="p-4 bg-slate-800/50 rounded-xl">
+              <p className="text-xs text-slate-400">New entries</p>
+              <p className="text-2xl font-bold text-emerald-400">{preview.moods.length}</p>
+            </div>
+            <div className="p-4 bg-slate-800/50 rounded-xl">
+              <p className="text-xs text-slate-400 flex items-center gap-1"><Copy className="w-3 h-3" /> Duplicates</p>
+              <p className="text-2xl font-bold text-slate-300">{preview.duplicates}</p>
+            </div>
+            <div className="p-4 bg-slate-800/50 rounded-xl">
+              <p className="text-xs text-slate-400">Invalid</p>
+              <p className={`text-2xl font-bold ${errors.length > 0 ? 'text-red-400' : 'text-slate-300'}`}>{errors.length}</p>
+            </div>
+          </div>
+
+          {preview.journals.length > 0 && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-white/5 text-sm text-slate-300">
+              <BookOpen className="w-4 h-4 mt-0.5 flex-shrink-0 text-violet-400" />
+              {journalsSupported
+                ? `${preview.journals.length} journal entries will be imported too.`
+                : `${preview.journals.length} journal entries need a signed-in account and will be skipped.`}
+            </div>
+          )}
+
+          {preview.moods.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-slate-300 mb-2">Preview</h4>
+              <div className="space-y-1">
+                {preview.moods.slice(0, PREVIEW_ROWS).map((mood, index) => {
+                  const info = MOOD_EMOTIONS.find((m) => m.key === mood.emotion);
+                  return (
+                    <div key={index} className="flex items-center gap-3 text-sm p-2 bg-white/5 rounded-lg">
+                      <span className="text-lg">{info?.emoji}</span>
+                      <span className="text-white w-28">{info?.label}</span>
+                      <span className="text-slate-400 w-12">{mood.intensity}/10</span>
+                      <span className="text-slate-500 w-40">{mood.createdAt.toLocaleString()}</span>
+                      <span className="text-slate-400 truncate flex-1">{mood.note}</span>
+                    </div>
+                  );
+                })}
+                {preview.moods.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-slate-500 pt-1">and {preview.moods.length - PREVIEW_ROWS} more</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {preview.issues.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-slate-300 mb-2">
+                {errors.length} {errors.length === 1 ? 'row' : 'rows'} will be skipped, {warnings.length} {warnings.length === 1 ? 'warning' : 'warnings'}
+              </h4>
+              <div className="max-h-48 overflow-auto space-y-1">
+                {preview.issues.slice(0, ISSUE_ROWS).map((issue, index) => (
+                  <p key={index} className={`text-xs ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+                    Row {issue.row}: {issue.message}
+                  </p>
+                ))}
+                {preview.issues.length > ISSUE_ROWS && (
+                  <p className="text-xs text-slate-500">and {preview.issues.length - ISSUE_ROWS} more</p>
+                )}
+              </div>
+            </div>
+          )}
+
+          <button
+            onClick={handleImport}
+            disabled={preview.moods.length === 0 && (!journalsSupported || preview.journals.length === 0)}
+            className="w-full flex items-center justify-center gap-2 py-3 rounded-xl font-medium bg-gradient-to-r from-violet-600 to-fuchsia-600 text-white hover:shadow-lg hover:shadow-violet-500/25 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Upload className="w-5 h-5" />
+            Import {preview.moods.length} {preview.moods.length === 1 ? 'Entry' : 'Entries'}
+          </button>
+        </div>
+      )}
+
+      {/* Importing */}
+      {step === 'importing' && (
+        <div className="glass rounded-xl p-6">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm text-slate-400">Importing...</p>
+            <p className="text-sm text-white">{progress.done} / {progress.total}</p>
+          </div>
+          <div className="h-2 bg-slate-800 rounded-full overflow-hidden" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+            <div className="h-full bg-gradient-to-r from-violet-500 to-fuchsia-500 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {/* Done */}
+      {step === 'done' && summary && (
+        <div className="glass rounded-xl p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 rounded-xl bg-emerald-500/20 flex items-center justify-center">
+              <Check className="w-5 h-5 text-emerald-400" />
+            </div>
+            <div>
+              <h3 className="text-white font-medium">Import complete</h3>
+              <p className="text-sm text-slate-400">
+                {summary.moods} mood {summary.moods === 1 ? 'entry' : 'entries'}
+                {summary.journals > 0 && `, ${summary.journals} journal entries`} added
+              </p>
+            </div>
+          </div>
+
+          {(summary.failed > 0 || summary.journalsSkipped > 0) && (
+            <p className="text-sm text-amber-400 mb-4">
+              {summary.failed > 0 && `${summary.failed} journal entries could not be saved. `}
+              {summary.journalsSkipped > 0 && `${summary.journalsSkipped} journal entries were skipped.`}
+            </p>
+          )}
+
+          <button
+            onClick={reset}
+            className="px-4 py-2 bg-white/5 text-slate-300 rounded-lg text-sm hover:bg-white/10 transition-colors"
+          >
+            Import Another File
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DataImport;
@@ -0,0 +1,288 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useGamification } from '../contexts/GamificationContext';
+import { MOOD_EMOTIONS } from '../contexts/MoodContext';
+import { friendsService } from '../services/friends';
+import type { Friend, FriendActivity, FriendsService } from '../services/friends';
+import { Mail, Link2, Check, X, UserMinus, Ban, Trophy, Activity, Copy } from 'lucide-react';
+
+interface FriendsPanelProps {
+  friends?: FriendsService;
+  /** Token from a friend_invite link, accepted once on mount */
+  inviteToken?: string | null;
+  /** Called after the friend list changes, e.g. to reload the friends board */
+  onChange?: () => void;
+}
+
+const timeAgo = (date: Date) => {
+  const minutes = Math.round((Date.now() - date.getTime()) / 60000);
+  if (minutes < 60) return `${Math.max(1, minutes)}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return `${Math.round(minutes / (24 * 60))}d ago`;
+};
+
+export function FriendsPanel({ friends = friendsService, inviteToken, onChange }: FriendsPanelProps) {
+  const { user } = useAuth();
+  const { achievements } = useGamification();
+  const [list, setList] = useState<Friend[]>([]);
+  const [activity, setActivity] = useState<FriendActivity[]>([]);
+  const [email, setEmail] = useState('');
+  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const acceptedToken = useRef<string | null>(null);
+
+  const userId = user?.id ?? null;
+
+  const refresh = useCallback(async () => {
+    if (!userId) return;
+    try {
+      const next = await friends.list();
+      setList(next);
+      setActivity(await friends.getActivityFeed(next));
+    } catch (err) {
+      console.warn('[Friends] Failed to load friends:', err);
+    }
+  }, [friends, userId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const run = useCallback(async (action: () => Promise<unknown>, success?: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      if (success) setMessage({ tone: 'ok', text: success });
+      await refresh();
+      onChange?.();
+    } catch (err) {
+      setMessage({ tone: 'error', text: err instanceof Error ? err.message : 'Something went wrong' });
+    } finally {
+      setBusy(false);
+    }
+  }, [refresh, onChange]);
+
+  useEffect(() => {
+    if (!userId || !inviteToken || acceptedToken.current === inviteToken) return;
+    acceptedToken.current = inviteToken;
+    run(() => friends.acceptInvite(inviteToken), 'Invite accepted. You are now friends.');
+  }, [userId, inviteToken, friends, run]);
+
+  if (!user) {
+    return (
+      <div className="glass rounded-2xl p-6 text-center text-slate-400">
+        Sign in to add friends and share your progress.
+      </div>
+    );
+  }
+
+  const sendInvite = () => {
+    const address = email.trim();
+    if (!address) return;
+    run(async () => {
+      await friends.inviteByEmail(user.id, user.name, address);
+      setEmail('');
+    }, `Invite sent to ${address}`);
+  };
+
+  const createLink = () => {
+    run(async () => setShareLink(await friends.createShareLink(user.id)));
+  };
+
+  const copyLink = async () => {
+    if (!shareLink) return;
+    try {
+      await navigator.clipboard.writeText(shareLink);
+      setMessage({ tone: 'ok', text: 'Link copied' });
+    } catch {
+      setMessage({ tone: 'error', text: 'Could not copy; select the link instead' });
+    }
+  };
+
+  const incoming = list.filter((friend) => friend.status === 'pending' && friend.direction === 'incoming');
+  const outgoing = list.filter((friend) => friend.status === 'pending' && friend.direction === 'outgoing');
+  const accepted = list.filter((friend) => friend.status === 'accepted');
+  const blocked = list.filter((friend) => friend.status === 'blocked');
+
+  const describe = (item: FriendActivity) => {
+    if (item.kind === 'achievement') {
+      const achievement = achievements.find((candidate) => candidate.id === item.achievementId);
+      return `unlocked ${achievement ? `${achievement.icon} ${achievement.name}` : 'an achievement'}`;
+    }
+    const emotion = MOOD_EMOTIONS.find((candidate) => candidate.key === item.emotion);
+    return `is feeling ${emotion ? `${emotion.emoji} ${emotion.label.toLowerCase()}` : item.emotion} (${item.intensity}/10)`;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Invite */}
+      <div className="glass rounded-2xl p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-white">Invite Friends</h3>
+        <div className="flex flex-col md:flex-row gap-2">
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="friend@example.com"
+            className="flex-1 px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white placeholder-slate-500"
+          />
+          <button
+            onClick={sendInvite}
+            disabled={busy || email.trim() === ''}
+            className="flex items-center justify-center gap-2 px-4 py-2 rounded-xl text-sm font-medium bg-gradient-to-r from-violet-600 to-fuchsia-600 text-white disabled:opacity-50"
+          >
+            <Mail className="w-4 h-4" />
+            Send invite
+          </button>
+          <button
+            onClick={createLink}
+            disabled={busy}
+            className="flex items-center justify-center gap-2 px-4 py-2 rounded-xl text-sm bg-slate-800 border border-slate-700 text-slate-300 hover:text-white disabled:opacity-50"
+          >
+            <Link2 className="w-4 h-4" />
+            Share link
+          </button>
+        </div>
+
+        {shareLink && (
+          <div className="flex items-center gap-2 p-3 bg-slate-800/50 rounded-xl">
+            <input readOnly value={shareLink} className="flex-1 bg-transparent text-sm text-slate-300 truncate" />
+            <button onClick={copyLink} className="p-2 text-slate-400 hover:text-white" aria-label="Copy link">
+              <Copy className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        <p className="text-xs text-slate-500">
+          Friends see moods you mark as Friends or Public, without notes, and achievements unless you turn sharing off.
+        </p>
+
+        {message && (
+          <p className={`text-sm ${message.tone === 'ok' ? 'text-emerald-400' : 'text-red-400'}`}>{message.text}</p>
+        )}
+      </div>
+
+      {/* Requests */}
+      {(incoming.length > 0 || outgoing.length > 0) && (
+        <div className="glass rounded-2xl p-6 space-y-3">
+          <h3 className="text-lg font-semibold text-white">Requests</h3>
+          {incoming.map((friend) => (
+            <div key={friend.friendshipId} className="flex items-center justify-between p-3 bg-slate-800/50 rounded-xl">
+              <span className="text-white">{friend.name}</span>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => run(() => friends.respond(friend.friendshipId, true))}
+                  disabled={busy}
+                  className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm bg-emerald-500/20 text-emerald-400"
+                >
+                  <Check className="w-4 h-4" />
+                  Accept
+                </button>
+                <button
+                  onClick={() => run(() => friends.respond(friend.friendshipId, false))}
+                  disabled={busy}
+                  className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm bg-slate-700 text-slate-300"
+                >
+                  <X className="w-4 h-4" />
+                  Decline
+                </button>
+                <button
+                  onClick={() => run(() => friends.block(friend.userId))}
+                  disabled={busy}
+                  className="p-1 text-slate-500 hover:text-red-400"
+                  aria-label={`Block ${friend.name}`}
+                >
+                  <Ban className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+          {outgoing.map((friend) => (
+            <div key={friend.friendshipId} className="flex items-center justify-between p-3 bg-slate-800/50 rounded-xl">
+              <span className="text-slate-300">{friend.name} <span className="text-xs text-slate-500">· waiting</span></span>
+              <button
+                onClick={() => run(() => friends.remove(friend.friendshipId))}
+                disabled={busy}
+                className="text-sm text-slate-400 hover:text-white"
+              >
+                Cancel
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Friends */}
+      <div className="glass rounded-2xl p-6 space-y-3">
+        <h3 className="text-lg font-semibold text-white">Friends ({accepted.length})</h3>
+        {accepted.length === 0 && <p className="text-sm text-slate-400">No friends yet. Send an invite to get started.</p>}
+        {accepted.map((friend) => (
+          <div key={friend.friendshipId} className="flex items-center justify-between p-3 bg-slate-800/50 rounded-xl">
+            <div className="flex items-center gap-3">
+              {friend.avatarUrl ? (
+                <img src={friend.avatarUrl} alt="" className="w-8 h-8 rounded-lg object-cover" />
+              ) : (
+                <div className="w-8 h-8 rounded-lg bg-slate-700 flex items-center justify-center text-white">
+                  {friend.name.charAt(0).toUpperCase()}
+                </div>
+              )}
+              <span className="text-white">{friend.name}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => run(() => friends.remove(friend.friendshipId))}
+                disabled={busy}
+                className="p-1 text-slate-500 hover:text-white"
+                aria-label={`Remove ${friend.name}`}
+              >
+                <UserMinus className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => run(() => friends.block(friend.userId))}
+                disabled={busy}
+                className="p-1 text-slate-500 hover:text-red-400"
+                aria-label={`Block ${friend.name}`}
+              >
+                <Ban className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {blocked.map((friend) => (
+          <div key={friend.friendshipId} className="flex items-center justify-between p-3 bg-slate-800/30 rounded-xl">
+            <span className="text-slate-500">{friend.name} · blocked</span>
+            <button
+              onClick={() => run(() => friends.remove(friend.friendshipId))}
+              disabled={busy}
+              className="text-sm text-slate-400 hover:text-white"
+            >
+              Unblock
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Activity */}
+      <div className="glass rounded-2xl p-6 space-y-3">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Activity className="w-5 h-5 text-violet-400" />
+          Friend Activity
+        </h3>
+        {activity.length === 0 && <p className="text-sm text-slate-400">Nothing shared yet.</p>}
+        {activity.map((item) => (
+          <div key={item.id} className="flex items-center gap-3 text-sm">
+            {item.kind === 'achievement' && <Trophy className="w-4 h-4 text-amber-400 flex-shrink-0" />}
+            <span className="text-slate-300 flex-1">
+              <span className="text-white font-medium">{item.name}</span> {describe(item)}
+            </span>
+            <span className="text-xs text-slate-500">{timeAgo(item.at)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default FriendsPanel;
@@ -41,7 +41,7 @@ const CATEGORY_CONFIG: Record<MeditationCategory, { icon: typeof Brain; color: s
 
 export function GuidedMeditation() {
   const { entries, getEntriesByDate } = useMood();
-  const { logSession, addExperience } = useGamification();
+  const { logSession } = useGamification();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<MeditationCategory | 'all'>('all');
   const [selectedLevel, setSelectedLevel] = useState<'all' | 'beginner' | 'intermediate' | 'advanced'>('all');
@@ -0,0 +1,369 @@
+import { useState, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useMood } from '../contexts/MoodContext';
+import {
+  interventionEngine,
+  collectInterventionData,
+  INTERVENTION_METRICS,
+  INTERVENTION_ACTIONS,
+  TRIGGER_PRESETS,
+} from '../services/interventions';
+import type { TriggerType, TriggerCondition, InterventionAction } from '../services/interventions';
+import type { InterventionTrigger, InterventionExecution } from '../types/advanced';
+import {
+  LifeBuoy,
+  Plus,
+  Trash2,
+  Play,
+  Pause,
+  RefreshCw,
+  Star,
+  CheckCircle,
+  XCircle,
+} from 'lucide-react';
+
+const OPERATOR_LABELS: Record<TriggerCondition['operator'], string> = {
+  lt: 'is below',
+  lte: 'is at most',
+  gt: 'is above',
+  gte: 'is at least',
+  eq: 'equals',
+  change: 'changes by',
+};
+
+const STATUS_STYLES: Record<InterventionExecution['status'], string> = {
+  pending: 'bg-amber-500/10 text-amber-400',
+  sent: 'bg-violet-500/10 text-violet-400',
+  acknowledged: 'bg-blue-500/10 text-blue-400',
+  completed: 'bg-emerald-500/10 text-emerald-400',
+  dismissed: 'bg-slate-500/10 text-slate-400',
+  escalated: 'bg-red-500/10 text-red-400',
+};
+
+interface TriggerForm {
+  trigger_type: TriggerType;
+  condition: TriggerCondition;
+  intervention_action: InterventionAction;
+  message: string;
+}
+
+const formFromPreset = (type: TriggerType): TriggerForm => ({
+  trigger_type: type,
+  condition: { ...TRIGGER_PRESETS[type].condition },
+  intervention_action: TRIGGER_PRESETS[type].action,
+  message: '',
+});
+
+const describeCondition = (condition: TriggerCondition): string => {
+  const metric = INTERVENTION_METRICS.find((m) => m.id === condition.metric);
+  const amount = condition.operator === 'change'
+    ? `${condition.change_percentage > 0 ? '+' : ''}${condition.change_percentage}%`
+    : `${condition.threshold}${metric?.unit.startsWith('/') ? '' : ` ${metric?.unit ?? ''}`}`;
+  return `${metric?.label ?? condition.metric} ${OPERATOR_LABELS[condition.operator]} ${amount} over ${condition.time_window_hours ?? 24}h`;
+};
+
+export function InterventionSettings() {
+  const { user } = useAuth();
+  const { entries } = useMood();
+  const userId = user?.id ?? 'anonymous';
+
+  const [triggers, setTriggers] = useState<InterventionTrigger[]>(() => interventionEngine.getTriggers(userId));
+  const [executions, setExecutions] = useState<InterventionExecution[]>(() => interventionEngine.getExecutions(userId));
+  const [form, setForm] = useState<TriggerForm>(() => formFromPreset('mood_drop'));
+  const [showForm, setShowForm] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+  const [lastCheck, setLastCheck] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    setTriggers(interventionEngine.getTriggers(userId));
+    setExecutions(interventionEngine.getExecutions(userId));
+  }, [userId]);
+
+  const handleCreate = () => {
+    interventionEngine.createTrigger(userId, {
+      trigger_type: form.trigger_type,
+      condition: form.condition,
+      intervention_action: form.intervention_action,
+      intervention_config: form.message.trim() ? { message: form.message.trim() } : {},
+    });
+    setForm(formFromPreset(form.trigger_type));
+    setShowForm(false);
+    refresh();
+  };
+
+  const handleToggle = (trigger: InterventionTrigger) => {
+    interventionEngine.updateTrigger(trigger.id, { is_active: !trigger.is_active });
+    refresh();
+  };
+
+  const handleDelete = (trigger: InterventionTrigger) => {
+    interventionEngine.deleteTrigger(trigger.id);
+    refresh();
+  };
+
+  const handleCheckNow = async () => {
+    setIsChecking(true);
+    try {
+      const data = await collectInterventionData(userId, entries);
+      const fired = await interventionEngine.run(userId, data, { email: user?.email, name: user?.name });
+      setLastCheck(fired.length > 0 ? `${fired.length} intervention(s) triggered` : 'No triggers matched');
+      refresh();
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleRate = (execution: InterventionExecution, rating: number) => {
+    interventionEngine.recordOutcome(execution.id, { action_taken: true, effectiveness_rating: rating });
+    refresh();
+  };
+
+  const handleDismiss = (execution: InterventionExecution) => {
+    interventionEngine.recordOutcome(execution.id, { action_taken: false });
+    refresh();
+  };
+
+  const updateCondition = (changes: Partial<TriggerCondition>) => {
+    setForm((prev) => ({ ...prev, condition: { ...prev.condition, ...changes } }));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="glass rounded-2xl p-6">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div className="flex items-center gap-4">
+            <div className="w-14 h-14 rounded-2xl bg-gradient-to-br from-violet-500 to-fuchsia-500 flex items-center justify-center">
+              <LifeBuoy className="w-7 h-7 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-white">Automatic Check-ins</h2>
+              <p className="text-slate-400 text-sm">Choose when MoodMash should step in with a nudge or exercise</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            {lastCheck && <span className="text-xs text-slate-400">{lastCheck}</span>}
+            <button
+              onClick={handleCheckNow}
+              disabled={isChecking || triggers.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-white/5 rounded-xl text-white hover:bg-white/10 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${isChecking ? 'animate-spin' : ''}`} />
+              Check now
+            </button>
+            <button
+              onClick={() => setShowForm(!showForm)}
+              className="flex items-center gap-2 px-4 py-2 bg-gradient-to-r from-violet-500 to-fuchsia-500 rounded-xl text-white font-medium hover:opacity-90 transition-opacity"
+            >
+              <Plus className="w-4 h-4" />
+              New trigger
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* New Trigger Form */}
+      {showForm && (
+        <div className="glass rounded-2xl p-6 space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-sm text-slate-400">When</span>
+              <select
+                value={form.trigger_type}
+                onChange={(e) => setForm(formFromPreset(e.target.value as TriggerType))}
+                className="mt-1 w-full bg-slate-800 border border-white/10 rounded-lg px-3 py-2 text-white"
+              >
+                {(Object.keys(TRIGGER_PRESETS) as TriggerType[]).map((type) => (
+                  <option key={type} value={type}>{TRIGGER_PRESETS[type].label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-400">Metric</span>
+              <select
+                value={form.condition.metric}
+                onChange={(e) => updateCondition({ metric: e.target.value })}
+                className="mt-1 w-full bg-slate-800 border border-white/10 rounded-lg px-3 py-2 text-white"
+              >
+                {INTERVENTION_METRICS.map((metric) => (
+                  <option key={metric.id} value={metric.id}>{metric.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-400">Condition</span>
+              <select
+                value={form.condition.operator}
+                onChange={(e) => updateCondition({ operator: e.target.value as TriggerCondition['operator'] })}
+                className="mt-1 w-full bg-slate-800 border border-white/10 rounded-lg px-3 py-2 text-white"
+              >
+                {(Object.keys(OPERATOR_LABELS) as TriggerCondition['operator'][]).map((op) => (
+                  <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-400">
+                {form.condition.operator === 'change' ? 'Change (%; negative for a drop)' : 'Threshold'}
+              </span>
+              <input
+                type="number"
+                value={(form.condition.operator === 'change' ? form.condition.change_percentage : form.condition.threshold) ?? ''}
+                onChange={(e) => {
+                  const value = e.target.value === '' ? undefined : Number(e.target.value);
+                  updateCondition(form.condition.operator === 'change' ? { change_percentage: value } : { threshold: value });
+                }}
+                className="mt-1 w-full bg-slate-800 border border-white/10 rounded-lg px-3 py-2 text-white"
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-400">Time window (hours)</span>
+              <input
+                type="number"
+                min={1}
+                value={form.condition.time_window_hours ?? 24}
+                onChange={(e) => updateCondition({ time_window_hours: Math.max(1, Number(e.target.value) || 1) })}
+                className="mt-1 w-full bg-slate-800 border border-white/10 rounded-lg px-3 py-2 text-white"
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm text-slate-400">Then</span>
+              <select
+                value={form.intervention_action}
+                onChange={(e) => setForm((prev) => ({ ...prev, intervention_action: e.target.value as InterventionAction }))}
+                className="mt-1 w-full bg-slate-800 border border-white/10 rounded-lg px-3 py-2 text-white"
+              >
+                {INTERVENTION_ACTIONS.map((action) => (
+                  <option key={action.id} value={action.id}>{action.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="block">
+            <span className="text-sm text-slate-400">Custom message (optional)</span>
+            <input
+              type="text"
+              value={form.message}
+              onChange={(e) => setForm((prev) => ({ ...prev, message: e.target.value }))}
+              placeholder="Leave empty to use the default message"
+              className="mt-1 w-full bg-slate-800 border border-white/10 rounded-lg px-3 py-2 text-white placeholder-slate-500"
+            />
+          </label>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-slate-400">{describeCondition(form.condition)}</p>
+            <button
+              onClick={handleCreate}
+              className="px-4 py-2 bg-violet-500 rounded-xl text-white font-medium hover:bg-violet-600 transition-colors"
+            >
+              Save trigger
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Triggers */}
+      <div className="glass rounded-2xl p-6">
+        <h3 className="text-lg font-semibold text-white mb-4">Your triggers</h3>
+        {triggers.length === 0 ? (
+          <p className="text-slate-400 text-sm">No triggers yet. Create one to get timely support.</p>
+        ) : (
+          <div className="space-y-3">
+            {triggers.map((trigger) => {
+              const stats = interventionEngine.getEffectiveness(userId, trigger.id);
+              return (
+                <div key={trigger.id} className="flex items-center justify-between p-4 bg-white/5 rounded-xl">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-white font-medium">{TRIGGER_PRESETS[trigger.trigger_type]?.label ?? trigger.trigger_type}</span>
+                      {!trigger.is_active && <span className="text-xs text-slate-500">(paused)</span>}
+                    </div>
+                    <p className="text-sm text-slate-400">
+                      {describeCondition(trigger.condition)} → {INTERVENTION_ACTIONS.find((a) => a.id === trigger.intervention_action)?.label ?? trigger.intervention_action}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">
+                      Fired {trigger.trigger_count} time(s)
+                      {stats.averageRating !== null && ` · rated ${stats.averageRating.toFixed(1)}/5`}
+                      {stats.executions > 0 && ` · acted on ${stats.actedOn}/${stats.executions}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleToggle(trigger)}
+                      title={trigger.is_active ? 'Pause' : 'Resume'}
+                      className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-white/10 transition-colors"
+                    >
+                      {trigger.is_active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(trigger)}
+                      title="Delete"
+                      className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Recent Interventions */}
+      <div className="glass rounded-2xl p-6">
+        <h3 className="text-lg font-semibold text-white mb-4">Recent interventions</h3>
+        {executions.length === 0 ? (
+          <p className="text-slate-400 text-sm">Nothing has been triggered yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {executions.slice(0, 10).map((execution) => {
+              const isOpen = !['completed', 'dismissed'].includes(execution.status);
+              return (
+                <div key={execution.id} className="p-4 bg-white/5 rounded-xl">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="text-white">{execution.message}</p>
+                      <p className="text-xs text-slate-500 mt-1">{new Date(execution.executed_at).toLocaleString()}</p>
+                    </div>
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_STYLES[execution.status]}`}>
+                      {execution.status}
+                    </span>
+                  </div>
+                  {isOpen ? (
+                    <div className="flex items-center gap-3 mt-3">
+                      <span className="text-xs text-slate-400">Did it help?</span>
+                      {[1, 2, 3, 4, 5].map((rating) => (
+                        <button
+                          key={rating}
+                          onClick={() => handleRate(execution, rating)}
+                          title={`${rating}/5`}
+                          className="text-slate-500 hover:text-amber-400 transition-colors"
+                        >
+                          <Star className="w-4 h-4" />
+                        </button>
+                      ))}
+                      <button
+                        onClick={() => handleDismiss(execution)}
+                        className="flex items-center gap-1 text-xs text-slate-400 hover:text-white transition-colors ml-auto"
+                      >
+                        <XCircle className="w-3 h-3" />
+                        Dismiss
+                      </button>
+                    </div>
+                  ) : execution.outcome?.effectiveness_rating ? (
+                    <div className="flex items-center gap-1 mt-3 text-xs text-emerald-400">
+                      <CheckCircle className="w-3 h-3" />
+                      Rated {execution.outcome.effectiveness_rating}/5
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default InterventionSettings;
@@ -1,6 +1,10 @@
-import { useState, useMemo } from 'react';
+import { useEffect, useState } from 'react';
 import { useGamification, LeaderboardEntry } from '../contexts/GamificationContext';
 import { useAuth } from '../contexts/AuthContext';
+import { LEADERBOARD_PERIOD_LABELS, positionChange } from '../services/leaderboards';
+import type { LeaderboardPeriod, LeaderboardScope } from '../services/leaderboards';
+import { friendsService } from '../services/friends';
+import { FriendsPanel } from './FriendsPanel';
 import {
   Trophy,
   Users,
@@ -11,53 +15,85 @@ import {
   ChevronUp,
   ChevronDown,
   Minus,
-  Search,
-  Filter,
+  ChevronLeft,
+  ChevronRight,
+  Eye,
+  EyeOff,
+  UserPlus,
 } from 'lucide-react';
 
-export function Leaderboard() {
-  const { globalLeaderboard, friendLeaderboard, getUserRank, profile } = useGamification();
+const PERIODS: LeaderboardPeriod[] = ['weekly', 'monthly', 'all_time'];
+
+function Avatar({ entry, className }: { entry: LeaderboardEntry; className: string }) {
+  return entry.avatarUrl ? (
+    <img src={entry.avatarUrl} alt="" className={`${className} object-cover`} />
+  ) : (
+    <div className={`${className} flex items-center justify-center font-semibold text-white`}>{entry.avatar}</div>
+  );
+}
+
+interface LeaderboardProps {
+  /** Token from a friend invite link; opens the Friends tab to accept it */
+  friendInvite?: string | null;
+}
+
+export function Leaderboard({ friendInvite }: LeaderboardProps = {}) {
+  const {
+    leaderboard,
+    leaderboardLoading,
+    loadLeaderboard,
+    leaderboardVisible,
+    setLeaderboardVisible,
+    profile,
+    getLevelFromXP,
+  } = useGamification();
   const { user } = useAuth();
-  const [activeTab, setActiveTab] = useState<'global' | 'friends'>('global');
-  const [searchQuery, setSearchQuery] = useState('');
-  const [sortBy, setSortBy] = useState<'rank' | 'points' | 'streak'>('rank');
-
-  const currentUserRank = useMemo(() => {
-    const score = profile.points + (profile.experience * 10);
-    return getUserRank(score);
-  }, [profile, getUserRank]);
-
-  const displayData = useMemo(() => {
-    const data = activeTab === 'global' ? globalLeaderboard : friendLeaderboard;
-
-    // Add current user to the list
-    const userEntry: LeaderboardEntry = {
-      rank: currentUserRank,
-      userId: profile.id,
-      name: user?.name || 'You',
-      avatar: profile.avatar,
-      score: profile.points + (profile.experience * 10),
-      level: profile.level,
-      streak: profile.streak,
-      isFriend: activeTab === 'friends',
-      isCurrentUser: true,
-    };
-
-    const combined = [...data.filter(e => !e.isCurrentUser), userEntry];
-
-    // Filter by search
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      return combined.filter(e => e.name.toLowerCase().includes(query));
+  const [activeTab, setActiveTab] = useState<LeaderboardScope>(friendInvite ? 'friends' : 'global');
+  const [period, setPeriod] = useState<LeaderboardPeriod>('weekly');
+  const [page, setPage] = useState(1);
+  const [visibilityError, setVisibilityError] = useState<string | null>(null);
+  const [requested, setRequested] = useState<string[]>([]);
+
+  useEffect(() => {
+    loadLeaderboard(period, page, activeTab);
+  }, [activeTab, period, page, loadLeaderboard, leaderboardVisible]);
+
+  const selectPeriod = (next: LeaderboardPeriod) => {
+    setPeriod(next);
+    setPage(1);
+  };
+
+  const selectTab = (next: LeaderboardScope) => {
+    setActiveTab(next);
+    setPage(1);
+  };
+
+  const addFriend = async (entry: LeaderboardEntry) => {
+    try {
+      await friendsService.sendRequest(entry.userId);
+      setRequested((prev) => [...prev, entry.userId]);
+    } catch (err) {
+      console.warn('[Leaderboard] Failed to send friend request:', err);
+    }
+  };
+
+  const toggleVisibility = async () => {
+    setVisibilityError(null);
+    try {
+      await setLeaderboardVisible(!leaderboardVisible);
+    } catch (err) {
+      setVisibilityError(err instanceof Error ? err.message : 'Could not update your leaderboard setting');
     }
+  };
 
-    // Sort
-    return combined.sort((a, b) => {
-      if (sortBy === 'streak') return b.streak - a.streak;
-      if (sortBy === 'points') return b.score - a.score;
-      return a.rank - b.rank;
-    });
-  }, [activeTab, globalLeaderboard, friendLeaderboard, currentUserRank, profile, user, searchQuery, sortBy]);
+  // Ignore a page of the other board while this one loads
+  const current = leaderboard?.scope === activeTab ? leaderboard : null;
+  const displayData = current?.entries ?? [];
+  const viewer = current?.viewer ?? null;
+  const total = current?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / (current?.pageSize ?? 1)));
+  const viewerChange = viewer ? positionChange(viewer) : null;
+  const levelInfo = getLevelFromXP(profile.experience);
 
   const getRankIcon = (rank: number) => {
     if (rank === 1) return { icon: Crown, color: 'text-yellow-400', bg: 'bg-yellow-400/20' };
@@ -66,12 +102,6 @@ export function Leaderboard() {
     return { icon: Minus, color: 'text-slate-400', bg: 'bg-slate-700' };
   };
 
-  const getPositionChange = (entry: LeaderboardEntry) => {
-    // Mock position change for demo
-    const changes = [-2, -1, 0, 1, 2];
-    return changes[Math.floor(Math.random() * changes.length)];
-  };
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -90,7 +120,7 @@ export function Leaderboard() {
           {/* Your Stats */}
           <div className="flex items-center gap-6">
             <div className="text-center">
-              <div className="text-3xl font-bold text-white">#{currentUserRank}</div>
+              <div className="text-3xl font-bold text-white">{viewer ? `#${viewer.rank}` : '–'}</div>
               <div className="text-xs text-slate-400">Your Rank</div>
             </div>
 
@@ -112,9 +142,9 @@ export function Leaderboard() {
 
             <div className="text-center">
               <div className="text-3xl font-bold text-emerald-400">
-                {profile.points + Math.floor(profile.experience * 10)}
+                {(viewer?.score ?? 0).toLocaleString()}
               </div>
-              <div className="text-xs text-slate-400">Points</div>
+              <div className="text-xs text-slate-400">Points {LEADERBOARD_PERIOD_LABELS[period].toLowerCase()}</div>
             </div>
           </div>
         </div>
@@ -123,7 +153,7 @@ export function Leaderboard() {
       {/* Tabs */}
       <div className="flex items-center gap-2">
         <button
-          onClick={() => setActiveTab('global')}
+          onClick={() => selectTab('global')}
           className={`flex items-center gap-2 px-6 py-3 rounded-xl font-medium transition-all ${
             activeTab === 'global'
               ? 'bg-gradient-to-r from-violet-600 to-fuchsia-600 text-white'
@@ -135,7 +165,7 @@ export function Leaderboard() {
         </button>
 
         <button
-          onClick={() => setActiveTab('friends')}
+          onClick={() => selectTab('friends')}
           className={`flex items-center gap-2 px-6 py-3 rounded-xl font-medium transition-all ${
             activeTab === 'friends'
               ? 'bg-gradient-to-r from-violet-600 to-fuchsia-600 text-white'
@@ -144,40 +174,52 @@ export function Leaderboard() {
         >
           <Users className="w-5 h-5" />
           Friends
-          {friendLeaderboard.length > 0 && (
-            <span className="bg-white/20 px-2 py-0.5 rounded-full text-xs">
-              {friendLeaderboard.length}
-            </span>
-          )}
         </button>
       </div>
 
-      {/* Filters */}
-      <div className="flex items-center gap-4">
-        <div className="relative flex-1 max-w-md">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-          <input
-            type="text"
-            placeholder="Search users..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="w-full bg-slate-800 border border-slate-700 rounded-lg pl-10 pr-4 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-violet-500"
-          />
+      {/* Period and Visibility */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          {PERIODS.map((option) => (
+            <button
+              key={option}
+              onClick={() => selectPeriod(option)}
+              className={`px-4 py-2 rounded-lg text-sm transition-all ${
+                period === option
+                  ? 'bg-violet-500/20 text-white border border-violet-500/50'
+                  : 'bg-slate-800 text-slate-400 hover:text-white border border-slate-700'
+              }`}
+            >
+              {LEADERBOARD_PERIOD_LABELS[option]}
+            </button>
+          ))}
         </div>
 
-        <select
-          value={sortBy}
-          onChange={(e) => setSortBy(e.target.value as 'rank' | 'points' | 'streak')}
-          className="bg-slate-800 border border-slate-700 rounded-lg px-4 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-violet-500"
-        >
-          <option value="rank">Sort by Rank</option>
-          <option value="points">Sort by Points</option>
-          <option value="streak">Sort by Streak</option>
-        </select>
+        {user && (
+          <button
+            onClick={toggleVisibility}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm bg-slate-800 border border-slate-700 text-slate-300 hover:text-white transition-colors"
+          >
+            {leaderboardVisible ? <Eye className="w-4 h-4 text-emerald-400" /> : <EyeOff className="w-4 h-4" />}
+            {leaderboardVisible ? 'Others can see you' : 'Hidden from others'}
+          </button>
+        )}
       </div>
 
+      {visibilityError && <p className="text-sm text-red-400">{visibilityError}</p>}
+
+      {activeTab === 'global' && user && !leaderboardVisible && (
+        <p className="text-sm text-slate-500">
+          You can see your own position, but other people only see users who chose to appear on the leaderboard.
+        </p>
+      )}
+
+      {activeTab === 'friends' && (
+        <FriendsPanel inviteToken={friendInvite} onChange={() => loadLeaderboard(period, page, 'friends')} />
+      )}
+
       {/* Top 3 Podium */}
-      {activeTab === 'global' && searchQuery === '' && (
+      {page === 1 && displayData.length >= 3 && (
         <div className="glass rounded-2xl p-6">
           <h3 className="text-lg font-semibold text-white mb-6">Top Performers</h3>
 
@@ -186,9 +228,7 @@ export function Leaderboard() {
             {displayData[1] && (
               <div className="text-center">
                 <div className="mb-2 relative">
-                  <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-slate-400 to-slate-500 flex items-center justify-center text-3xl mx-auto">
-                    {displayData[1].avatar}
-                  </div>
+                  <Avatar entry={displayData[1]} className="w-16 h-16 rounded-2xl bg-gradient-to-br from-slate-400 to-slate-500 text-3xl mx-auto" />
                   <div className="absolute -top-2 -right-2 w-8 h-8 rounded-full bg-slate-400 flex items-center justify-center">
                     <Medal className="w-4 h-4 text-white" />
                   </div>
@@ -206,9 +246,7 @@ export function Leaderboard() {
             {displayData[0] && (
               <div className="text-center">
                 <div className="mb-2 relative">
-                  <div className="w-20 h-20 rounded-2xl bg-gradient-to-br from-yellow-400 to-amber-500 flex items-center justify-center text-4xl mx-auto ring-4 ring-yellow-400/30">
-                    {displayData[0].avatar}
-                  </div>
+                  <Avatar entry={displayData[0]} className="w-20 h-20 rounded-2xl bg-gradient-to-br from-yellow-400 to-amber-500 text-4xl mx-auto ring-4 ring-yellow-400/30" />
                   <div className="absolute -top-2 -right-2 w-10 h-10 rounded-full bg-yellow-400 flex items-center justify-center">
                     <Crown className="w-5 h-5 text-yellow-900" />
                   </div>
@@ -226,9 +264,7 @@ export function Leaderboard() {
             {displayData[2] && (
               <div className="text-center">
                 <div className="mb-2 relative">
-                  <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-amber-600 to-amber-700 flex items-center justify-center text-3xl mx-auto">
-                    {displayData[2].avatar}
-                  </div>
+                  <Avatar entry={displayData[2]} className="w-16 h-16 rounded-2xl bg-gradient-to-br from-amber-600 to-amber-700 text-3xl mx-auto" />
                   <div className="absolute -top-2 -right-2 w-8 h-8 rounded-full bg-amber-600 flex items-center justify-center">
                     <Medal className="w-4 h-4 text-white" />
                   </div>
@@ -256,9 +292,9 @@ export function Leaderboard() {
         </div>
 
         <div className="divide-y divide-white/5">
-          {displayData.slice(0, 20).map((entry, index) => {
+          {displayData.map((entry) => {
             const { icon: RankIcon, color, bg } = getRankIcon(entry.rank);
-            const positionChange = getPositionChange(entry);
+            const change = positionChange(entry);
 
             return (
               <div
@@ -278,9 +314,7 @@ export function Leaderboard() {
 
                 {/* User */}
                 <div className="col-span-5 flex items-center gap-3">
-                  <div className="w-10 h-10 rounded-xl bg-slate-700 flex items-center justify-center text-xl">
-                    {entry.avatar}
-                  </div>
+                  <Avatar entry={entry} className="w-10 h-10 rounded-xl bg-slate-700 text-xl" />
                   <div>
                     <div className="flex items-center gap-2">
                       <span className="font-medium text-white">{entry.name}</span>
@@ -294,19 +328,34 @@ export function Leaderboard() {
                           You
                         </span>
                       )}
+                      {activeTab === 'global' && !entry.isCurrentUser && (
+                        requested.includes(entry.userId) ? (
+                          <span className="text-xs text-slate-500">Requested</span>
+                        ) : (
+                          <button
+                            onClick={() => addFriend(entry)}
+                            className="p-1 text-slate-500 hover:text-violet-400"
+                            aria-label={`Add ${entry.name} as a friend`}
+                          >
+                            <UserPlus className="w-4 h-4" />
+                          </button>
+                        )
+                      )}
                     </div>
                     <div className="flex items-center gap-2 text-xs text-slate-500">
                       <span>#{entry.rank}</span>
-                      {positionChange !== 0 && (
+                      {change === null ? (
+                        <span className="text-sky-400">New</span>
+                      ) : change !== 0 && (
                         <span className={`flex items-center gap-1 ${
-                          positionChange > 0 ? 'text-emerald-400' : 'text-red-400'
+                          change > 0 ? 'text-emerald-400' : 'text-red-400'
                         }`}>
-                          {positionChange > 0 ? (
+                          {change > 0 ? (
                             <ChevronUp className="w-3 h-3" />
                           ) : (
                             <ChevronDown className="w-3 h-3" />
                           )}
-                          {Math.abs(positionChange)}
+                          {Math.abs(change)}
                         </span>
                       )}
                     </div>
@@ -343,7 +392,37 @@ export function Leaderboard() {
         {displayData.length === 0 && (
           <div className="text-center py-12">
             <Trophy className="w-12 h-12 text-slate-600 mx-auto mb-4" />
-            <p className="text-slate-400">No users found</p>
+            <p className="text-slate-400">
+              {leaderboardLoading
+                ? 'Loading...'
+                : !user
+                  ? 'Sign in to see the leaderboard'
+                  : activeTab === 'friends'
+                    ? 'Add friends to see how you compare'
+                    : 'Nobody has earned points yet this period'}
+            </p>
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex items-center justify-between p-4 border-t border-white/5">
+            <button
+              onClick={() => setPage((prev) => prev - 1)}
+              disabled={page === 1 || leaderboardLoading}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm bg-slate-800 text-slate-300 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft className="w-4 h-4" />
+              Previous
+            </button>
+            <span className="text-sm text-slate-400">Page {page} of {totalPages}</span>
+            <button
+              onClick={() => setPage((prev) => prev + 1)}
+              disabled={!current?.hasMore || leaderboardLoading}
+              className="flex items-center gap-1 px-3 py-2 rounded-lg text-sm bg-slate-800 text-slate-300 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+              <ChevronRight className="w-4 h-4" />
+            </button>
           </div>
         )}
       </div>
@@ -354,18 +433,20 @@ export function Leaderboard() {
 
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div className="bg-slate-800/50 rounded-xl p-4 text-center">
-            <div className="text-3xl font-bold text-white mb-1">#{currentUserRank}</div>
-            <div className="text-sm text-slate-400">Global Rank</div>
-            <div className="mt-2 text-xs text-emerald-400">
-              Top {Math.min(Math.round((currentUserRank / globalLeaderboard.length) * 100), 99)}%
-            </div>
+            <div className="text-3xl font-bold text-white mb-1">{viewer ? `#${viewer.rank}` : '–'}</div>
+            <div className="text-sm text-slate-400">{activeTab === 'global' ? 'Global Rank' : 'Among Friends'}</div>
+            {viewer && total > 0 && (
+              <div className="mt-2 text-xs text-emerald-400">
+                Top {Math.max(1, Math.round((viewer.rank / total) * 100))}%
+              </div>
+            )}
           </div>
 
           <div className="bg-slate-800/50 rounded-xl p-4 text-center">
             <div className="text-3xl font-bold text-violet-400 mb-1">{profile.level}</div>
             <div className="text-sm text-slate-400">Current Level</div>
             <div className="mt-2 text-xs text-slate-500">
-              Level {profile.level + 1} in {100 - Math.round(profile.experience / 100)} entries
+              Level {profile.level + 1} in {(levelInfo.requiredXP - levelInfo.currentXP).toLocaleString()} XP
             </div>
           </div>
 
@@ -379,11 +460,15 @@ export function Leaderboard() {
 
           <div className="bg-slate-800/50 rounded-xl p-4 text-center">
             <div className="text-3xl font-bold text-emerald-400 mb-1">
-              {profile.points + Math.floor(profile.experience * 10)}
+              {(viewer?.score ?? 0).toLocaleString()}
             </div>
-            <div className="text-sm text-slate-400">Total Points</div>
+            <div className="text-sm text-slate-400">{LEADERBOARD_PERIOD_LABELS[period]}</div>
             <div className="mt-2 text-xs text-slate-500">
-              +{Math.floor(profile.experience * 10)} this week
+              {viewerChange === null
+                ? 'No points last period'
+                : viewerChange === 0
+                  ? 'Same place as last period'
+                  : `${Math.abs(viewerChange)} ${Math.abs(viewerChange) === 1 ? 'place' : 'places'} ${viewerChange > 0 ? 'up' : 'down'} on last period`}
             </div>
           </div>
         </div>
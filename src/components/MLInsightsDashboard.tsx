@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   X, Brain, TrendingUp, TrendingDown, Minus, Calendar, Clock,
   Sparkles, Lightbulb, Target, Activity, Zap, Heart, ChevronRight,
@@ -6,13 +6,17 @@ import {
 } from 'lucide-react';
 import { format } from 'date-fns';
 import {
-  mlService,
   MoodPredictionResult,
   PatternResult,
   RecommendationResult,
   SentimentResult,
+  TrainingProgress,
 } from '../data/mlModels';
 import { MoodEntry } from '../contexts/MoodContext';
+import { useAuth } from '../contexts/AuthContext';
+import { modelLifecycle } from '../services/modelLifecycle';
+import { mlClient, isAbortError } from '../services/mlClient';
+import type { PredictionAccuracy } from '../services/modelLifecycle';
 
 // Minimal wellness history type
 interface WellnessHistoryEntry {
@@ -41,6 +45,9 @@ interface DashboardState {
   sentiment: SentimentResult | null;
   isLoading: boolean;
   modelAccuracy: number;
+  modelVersion: string;
+  forecastAccuracy: PredictionAccuracy | null;
+  training: TrainingProgress | null;
 }
 
 const COLORS = ['#8b5cf6', '#06b6d4', '#10b981', '#f59e0b', '#ef4444'];
@@ -51,6 +58,7 @@ export function MLInsightsDashboard({
   onClose,
   onStartSession,
 }: MLInsightsDashboardProps) {
+  const { user } = useAuth();
   const [state, setState] = useState<DashboardState>({
     activeTab: 'predictions',
     predictions: null,
@@ -59,69 +67,95 @@ export function MLInsightsDashboard({
     sentiment: null,
     isLoading: true,
     modelAccuracy: 0,
+    modelVersion: '',
+    forecastAccuracy: null,
+    training: null,
   });
 
+  const abortRef = useRef<AbortController | null>(null);
+
   // Load ML insights
   useEffect(() => {
     loadInsights();
+    return () => abortRef.current?.abort();
   }, [moodHistory, wellnessHistory]);
 
   const loadInsights = useCallback(async () => {
-    setState(prev => ({ ...prev, isLoading: true }));
-
-    // Simulate async ML processing
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    // Generate predictions
-    const predictions = mlService.predictMoods(
-      moodHistory.map(m => ({
-        emotion: m.emotion,
-        intensity: m.intensity,
-        timestamp: new Date(m.createdAt),
-      })),
-      7
-    );
-
-    // Detect patterns
-    const patterns = mlService.detectPatterns(
-      moodHistory.map(m => ({
-        emotion: m.emotion,
-        intensity: m.intensity,
-        timestamp: new Date(m.createdAt),
-      })),
-      wellnessHistory.map(w => ({
-        type: w.type,
-        category: w.category,
-        moodBefore: w.moodBefore,
-        moodAfter: w.moodAfter,
-        completedAt: new Date(w.completedAt),
-      }))
-    );
-
-    // Get recommendations
-    const recommendations = {
-      recommendations: [],
-      personalizedTips: [
-        'Continue tracking your mood for better insights',
-        'Try morning meditation for improved daily mood',
-        'Regular yoga practice correlates with emotional stability',
-      ],
-      optimalSchedule: [],
-    };
-
-    // Get model accuracy
-    const modelState = mlService.getModelState();
-
-    setState(prev => ({
-      ...prev,
-      predictions,
-      patterns,
-      recommendations,
-      sentiment: null,
-      isLoading: false,
-      modelAccuracy: modelState.accuracy * 100,
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState(prev => ({ ...prev, isLoading: true, training: null }));
+
+    const samples = moodHistory.map(m => ({
+      emotion: m.emotion,
+      intensity: m.intensity,
+      timestamp: new Date(m.createdAt),
     }));
-  }, [moodHistory, wellnessHistory]);
+
+    try {
+      // Retrain in the ML worker if enough new entries arrived, then forecast
+      // and score past forecasts
+      let predictions: MoodPredictionResult;
+      let forecastAccuracy: PredictionAccuracy | null = null;
+      try {
+        const result = await modelLifecycle.sync(user?.id ?? 'anonymous', samples, {
+          signal: controller.signal,
+          onProgress: (training) => setState(prev => ({ ...prev, training })),
+        });
+        predictions = result.predictions;
+        forecastAccuracy = result.accuracy;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        console.error('[ML] Model sync failed:', error);
+        predictions = await mlClient.predictMoods(samples, 7);
+      }
+
+      // Detect patterns
+      const patterns = await mlClient.detectPatterns(
+        samples,
+        wellnessHistory.map(w => ({
+          type: w.type,
+          category: w.category,
+          moodBefore: w.moodBefore,
+          moodAfter: w.moodAfter,
+          completedAt: new Date(w.completedAt),
+        })),
+        { signal: controller.signal }
+      );
+
+      // Get recommendations
+      const recommendations = {
+        recommendations: [],
+        personalizedTips: [
+          'Continue tracking your mood for better insights',
+          'Try morning meditation for improved daily mood',
+          'Regular yoga practice correlates with emotional stability',
+        ],
+        optimalSchedule: [],
+      };
+
+      // Get model accuracy
+      const modelState = await mlClient.getModelState();
+
+      setState(prev => ({
+        ...prev,
+        predictions,
+        patterns,
+        recommendations,
+        sentiment: null,
+        isLoading: false,
+        training: null,
+        modelAccuracy: modelState.accuracy * 100,
+        modelVersion: modelState.version,
+        forecastAccuracy,
+      }));
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('[ML] Failed to load insights:', error);
+        setState(prev => ({ ...prev, isLoading: false, training: null }));
+      }
+    }
+  }, [moodHistory, wellnessHistory, user?.id]);
 
   const getTrendIcon = (trend: string) => {
     switch (trend) {
@@ -440,9 +474,13 @@ export function MLInsightsDashboard({
             <div>
               <h2 className="text-xl font-bold text-white">AI Insights</h2>
               <div className="flex items-center gap-2 text-xs text-white/60">
-                <span>Model accuracy: {state.modelAccuracy.toFixed(0)}%</span>
+                <span>Model v{state.modelVersion}: {state.modelAccuracy.toFixed(0)}% training accuracy</span>
                 <span className="text-white/40">•</span>
-                <span>Last updated: just now</span>
+                <span>
+                  {state.forecastAccuracy?.rollingAccuracy != null
+                    ? `Forecasts ${(state.forecastAccuracy.rollingAccuracy * 100).toFixed(0)}% right (${state.forecastAccuracy.verified} checked, ${state.forecastAccuracy.windowDays}d)`
+                    : 'Forecast accuracy pending'}
+                </span>
               </div>
             </div>
           </div>
@@ -490,7 +528,11 @@ export function MLInsightsDashboard({
             <div className="flex items-center justify-center py-16">
               <div className="text-center">
                 <div className="w-12 h-12 border-4 border-purple-500 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
-                <p className="text-white/60">Analyzing your data...</p>
+                <p className="text-white/60">
+                  {state.training
+                    ? `Training your model… ${Math.round((state.training.epoch / state.training.epochs) * 100)}%`
+                    : 'Analyzing your data...'}
+                </p>
               </div>
             </div>
           ) : (
@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useI18n } from '../contexts/I18nContext';
+import { onRiskDetected, getCrisisResources } from '../services/riskDetection';
+import type { RiskEvent } from '../services/riskDetection';
+import { interventionEngine } from '../services/interventions';
+import { LifeBuoy, Phone, MessageSquare, Globe, AlertTriangle } from 'lucide-react';
+
+/**
+ * Listens for crisis language anywhere in the app. High-risk events open a
+ * modal with helplines for the current locale; every event is also fed to
+ * the intervention engine so risk_detected triggers can follow up.
+ */
+export function SafetyResourcesDialog() {
+  const { user } = useAuth();
+  const { locale, t } = useI18n();
+  const [event, setEvent] = useState<RiskEvent | null>(null);
+
+  useEffect(() => {
+    return onRiskDetected((detected) => {
+      if (detected.assessment.requiresInterruption) {
+        setEvent(detected);
+      }
+
+      if (user) {
+        interventionEngine
+          .run(
+            user.id,
+            { risks: [{ level: detected.assessment.level, detectedAt: detected.detectedAt }] },
+            { email: user.email, name: user.name }
+          )
+          .catch((error) => console.error('[Interventions] Risk follow-up failed:', error));
+      }
+    });
+  }, [user]);
+
+  if (!event) return null;
+
+  const resources = getCrisisResources(locale);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 backdrop-blur-sm z-[100] flex items-center justify-center p-4"
+      role="alertdialog"
+      aria-modal="true"
+      aria-labelledby="safety-dialog-title"
+    >
+      <div className="relative w-full max-w-md glass rounded-2xl p-6 max-h-[90vh] overflow-y-auto">
+        <div className="text-center mb-6">
+          <div className="w-16 h-16 mx-auto rounded-2xl bg-rose-500/20 flex items-center justify-center mb-4">
+            <LifeBuoy className="w-8 h-8 text-rose-400" />
+          </div>
+          <h2 id="safety-dialog-title" className="text-xl font-bold text-white">
+            {t('safety.title')}
+          </h2>
+          <p className="text-slate-300 text-sm mt-2">{t('safety.message')}</p>
+        </div>
+
+        {resources.helplines.length > 0 && (
+          <div className="space-y-3 mb-4">
+            <p className="text-xs uppercase tracking-wide text-slate-400">{t('safety.helplines')}</p>
+            {resources.helplines.map((helpline) => (
+              <div key={helpline.name} className="p-4 rounded-xl bg-slate-800/60 border border-slate-700">
+                <p className="text-white font-medium">{helpline.name}</p>
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {helpline.phone && (
+                    <a
+                      href={`tel:${helpline.phone.replace(/\s+/g, '')}`}
+                      className="flex items-center gap-2 px-3 py-2 rounded-lg bg-rose-500 text-white text-sm font-medium hover:bg-rose-600 transition-colors"
+                    >
+                      <Phone className="w-4 h-4" />
+                      {t('safety.call')} {helpline.phone}
+                    </a>
+                  )}
+                  {helpline.text && (
+                    <a
+                      href={`sms:${helpline.text.replace(/\s+/g, '')}`}
+                      className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-700 text-white text-sm hover:bg-slate-600 transition-colors"
+                    >
+                      <MessageSquare className="w-4 h-4" />
+                      {t('safety.text')} {helpline.text}
+                    </a>
+                  )}
+                  {helpline.url && (
+                    <a
+                      href={helpline.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-700 text-white text-sm hover:bg-slate-600 transition-colors"
+                    >
+                      <Globe className="w-4 h-4" />
+                      {new URL(helpline.url).hostname}
+                    </a>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-start gap-3 p-4 rounded-xl bg-amber-500/10 border border-amber-500/20 mb-4">
+          <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0 mt-0.5" />
+          <p className="text-amber-200 text-sm">
+            {t('safety.emergency', { number: resources.emergencyNumber })}
+          </p>
+        </div>
+
+        <a
+          href={resources.directory.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center justify-center gap-2 w-full py-3 mb-3 rounded-xl bg-slate-800 text-slate-200 text-sm hover:bg-slate-700 transition-colors"
+        >
+          <Globe className="w-4 h-4" />
+          {t('safety.directory')}
+        </a>
+
+        <button
+          onClick={() => setEvent(null)}
+          className="w-full py-3 rounded-xl bg-violet-500 text-white font-medium hover:bg-violet-600 transition-colors"
+        >
+          {t('safety.safe')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { useGamification } from '../contexts/GamificationContext';
+import { MAX_GRACE_HOURS, MAX_STREAK_FREEZES, STREAK_FREEZE_PRICE, describeStreakEvent } from '../lib/streaks';
+import { Flame, Snowflake, Globe, History } from 'lucide-react';
+
+const deviceTimeZone = () => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+};
+
+const graceLabel = (hours: number) =>
+  hours === 0 ? 'Days end at midnight' : `Count activity until ${hours}:00 AM as the day before`;
+
+const formatDay = (day: string) =>
+  new Date(`${day}T12:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export function StreakPanel() {
+  const {
+    profile,
+    currentStreak,
+    longestStreak,
+    streakFreezes,
+    streakHistory,
+    streakSettings,
+    purchaseStreakFreeze,
+    updateStreakSettings,
+  } = useGamification();
+  const [message, setMessage] = useState<{ tone: 'ok' | 'error'; text: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const device = deviceTimeZone();
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ tone: 'ok', text: success });
+    } catch (err) {
+      setMessage({ tone: 'error', text: err instanceof Error ? err.message : 'Something went wrong' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canBuy = profile.points >= STREAK_FREEZE_PRICE && streakFreezes < MAX_STREAK_FREEZES;
+
+  return (
+    <div className="glass rounded-2xl p-6 space-y-5">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Flame className="w-8 h-8 text-orange-400" />
+          <div>
+            <div className="text-2xl font-bold text-white">{currentStreak} day streak</div>
+            <div className="text-sm text-slate-400">Best: {longestStreak} days</div>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1" aria-label={`${streakFreezes} of ${MAX_STREAK_FREEZES} freezes held`}>
+            {Array.from({ length: MAX_STREAK_FREEZES }, (_, i) => (
+              <Snowflake key={i} className={`w-5 h-5 ${i < streakFreezes ? 'text-sky-400' : 'text-slate-600'}`} />
+            ))}
+          </div>
+          <button
+            onClick={() => run(purchaseStreakFreeze, 'Freeze added. It covers one missed day.')}
+            disabled={busy || !canBuy}
+            className="px-4 py-2 rounded-xl text-sm font-medium bg-sky-500/20 text-sky-300 hover:bg-sky-500/30 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Buy freeze · {STREAK_FREEZE_PRICE} pts
+          </button>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <div className="flex items-center gap-2 text-sm text-slate-300">
+            <Globe className="w-4 h-4 text-violet-400" />
+            Days are counted in {streakSettings.timeZone}
+          </div>
+          {device && device !== streakSettings.timeZone && (
+            <button
+              onClick={() => run(() => updateStreakSettings({ ...streakSettings, timeZone: device }), `Now counting days in ${device}`)}
+              disabled={busy}
+              className="text-sm text-violet-400 hover:text-violet-300 disabled:opacity-50"
+            >
+              Use this device's time zone ({device})
+            </button>
+          )}
+        </div>
+
+        <label className="space-y-2 text-sm text-slate-300">
+          <span className="block">Late-night grace</span>
+          <select
+            value={streakSettings.graceHours}
+            onChange={(e) => run(
+              () => updateStreakSettings({ ...streakSettings, graceHours: Number(e.target.value) }),
+              'Grace window saved'
+            )}
+            disabled={busy}
+            className="w-full px-3 py-2 rounded-xl bg-slate-800 border border-slate-700 text-white"
+          >
+            {Array.from({ length: MAX_GRACE_HOURS + 1 }, (_, hours) => (
+              <option key={hours} value={hours}>{graceLabel(hours)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.tone === 'ok' ? 'text-emerald-400' : 'text-red-400'}`}>{message.text}</p>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="flex items-center gap-2 text-sm font-semibold text-white">
+          <History className="w-4 h-4 text-slate-400" />
+          Streak history
+        </h4>
+        {streakHistory.length === 0 && <p className="text-sm text-slate-400">Log a mood to start a streak.</p>}
+        {streakHistory.map((event, i) => (
+          <div key={`${event.day}-${event.kind}-${i}`} className="flex items-center justify-between gap-3 text-sm">
+            <span className={event.kind === 'reset' ? 'text-red-300' : 'text-slate-300'}>{describeStreakEvent(event)}</span>
+            <span className="text-xs text-slate-500 flex-shrink-0">{formatDay(event.day)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default StreakPanel;
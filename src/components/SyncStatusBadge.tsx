@@ -0,0 +1,58 @@
+import { useMood } from '../contexts/MoodContext';
+import type { SyncState } from '../services/moodSync';
+import { Cloud, CloudOff, RefreshCw, AlertTriangle, Clock } from 'lucide-react';
+
+const stateStyles: Record<SyncState, { label: string; icon: React.ReactNode }> = {
+  idle: { label: 'Synced', icon: <Cloud className="w-3 h-3 text-emerald-400" /> },
+  pending: { label: 'Pending', icon: <Clock className="w-3 h-3 text-amber-400" /> },
+  syncing: { label: 'Syncing', icon: <RefreshCw className="w-3 h-3 text-violet-400 animate-spin" /> },
+  conflict: { label: 'Conflict', icon: <AlertTriangle className="w-3 h-3 text-orange-400" /> },
+  error: { label: 'Sync error', icon: <CloudOff className="w-3 h-3 text-red-400" /> },
+};
+
+export function SyncStatusBadge() {
+  const { syncEnabled, syncStatus, syncNow, acknowledgeSyncConflicts } = useMood();
+
+  if (!syncEnabled) {
+    return (
+      <div className="hidden md:flex items-center gap-2 glass px-3 py-1.5 rounded-full" title="Entries are stored on this device only">
+        <CloudOff className="w-3 h-3 text-slate-400" />
+        <span className="text-xs text-slate-300">Local only</span>
+      </div>
+    );
+  }
+
+  const { label, icon } = stateStyles[syncStatus.state];
+  const details = [
+    syncStatus.pendingCount > 0 ? `${syncStatus.pendingCount} change(s) waiting to sync` : null,
+    syncStatus.lastSyncedAt ? `Last synced ${new Date(syncStatus.lastSyncedAt).toLocaleString()}` : 'Not synced yet',
+    syncStatus.conflicts.length > 0 ? `${syncStatus.conflicts.length} entry(ies) replaced by a newer version` : null,
+    syncStatus.locked ? 'Unlock encryption in Security Settings to sync private notes' : null,
+    syncStatus.error,
+  ].filter(Boolean).join('\n');
+
+  const handleClick = () => {
+    if (syncStatus.state === 'conflict') {
+      acknowledgeSyncConflicts();
+      return;
+    }
+    syncNow();
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={syncStatus.state === 'syncing'}
+      title={details}
+      className="hidden md:flex items-center gap-2 glass px-3 py-1.5 rounded-full hover:bg-white/5 transition-colors"
+    >
+      {icon}
+      <span className="text-xs text-slate-300">
+        {label}
+        {syncStatus.state === 'pending' && ` (${syncStatus.pendingCount})`}
+      </span>
+    </button>
+  );
+}
+
+export default SyncStatusBadge;
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { Smartphone, KeyRound, ArrowRight, LogOut } from 'lucide-react';
+
+type ChallengeMode = 'totp' | 'backup';
+
+/**
+ * Second sign-in step for accounts with 2FA. Takes an authenticator code, or
+ * a backup code; with "lost my device" ticked the backup code also removes
+ * the old authenticator so a new one can be enrolled.
+ */
+export function TwoFactorChallenge({ onVerified }: { onVerified: () => void }) {
+  const { user, error, verify2FA, recoverWithBackupCode, logout, clearError } = useAuth();
+  const [mode, setMode] = useState<ChallengeMode>('totp');
+  const [code, setCode] = useState('');
+  const [lostDevice, setLostDevice] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const switchMode = (next: ChallengeMode) => {
+    clearError();
+    setCode('');
+    setLostDevice(false);
+    setMode(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      if (mode === 'backup' && lostDevice) {
+        await recoverWithBackupCode(code);
+      } else {
+        await verify2FA(code);
+      }
+      onVerified();
+    } catch {
+      // The context error is shown below
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const canSubmit = mode === 'totp' ? /^\d{6}$/.test(code) : code.replace(/[^A-Za-z0-9]/g, '').length === 10;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="text-center mb-6">
+        <div className="inline-flex items-center justify-center w-12 h-12 rounded-xl bg-violet-500/20 mb-3">
+          {mode === 'totp' ? <Smartphone className="w-6 h-6 text-violet-400" /> : <KeyRound className="w-6 h-6 text-violet-400" />}
+        </div>
+        <h3 className="text-xl font-semibold text-white mb-1">Two-Factor Authentication</h3>
+        <p className="text-slate-300">
+          {mode === 'totp'
+            ? `Enter the 6-digit code from your authenticator app for ${user?.email ?? 'your account'}.`
+            : 'Enter one of the backup codes you saved when you set up two-factor authentication.'}
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="two-factor-code" className="block text-sm font-medium text-slate-300 mb-2">
+          {mode === 'totp' ? 'Authentication Code' : 'Backup Code'}
+        </label>
+        <input
+          id="two-factor-code"
+          type="text"
+          inputMode={mode === 'totp' ? 'numeric' : 'text'}
+          autoComplete="one-time-code"
+          autoFocus
+          value={code}
+          onChange={(e) => setCode(mode === 'totp' ? e.target.value.replace(/\D/g, '').slice(0, 6) : e.target.value.toUpperCase())}
+          className="w-full px-4 py-3 glass-light rounded-xl text-white text-center tracking-widest font-mono placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 transition-all"
+          placeholder={mode === 'totp' ? '123456' : 'XXXXX-XXXXX'}
+        />
+      </div>
+
+      {mode === 'backup' && (
+        <label className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={lostDevice}
+            onChange={(e) => setLostDevice(e.target.checked)}
+            className="mt-1 w-4 h-4 rounded border-slate-600 bg-slate-900/50 text-violet-500 focus:ring-violet-500 focus:ring-offset-slate-900"
+          />
+          <span className="text-sm text-slate-400">
+            I lost my authenticator device. Turn off two-factor authentication so I can set it up again.
+          </span>
+        </label>
+      )}
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-400 text-sm">
+          {error.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isBusy || !canSubmit}
+        className="w-full py-3 px-4 gradient-primary hover:opacity-90 text-white font-semibold rounded-xl shadow-lg shadow-violet-500/25 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:ring-offset-2 focus:ring-offset-slate-900 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        <span>{isBusy ? 'Verifying...' : 'Verify'}</span>
+        {!isBusy && <ArrowRight className="w-5 h-5" />}
+      </button>
+
+      <div className="flex items-center justify-between text-sm">
+        <button
+          type="button"
+          onClick={() => switchMode(mode === 'totp' ? 'backup' : 'totp')}
+          className="text-violet-400 hover:text-violet-300 transition-colors"
+        >
+          {mode === 'totp' ? 'Use a backup code' : 'Use authenticator app'}
+        </button>
+        <button
+          type="button"
+          onClick={() => logout()}
+          className="text-slate-400 hover:text-white transition-colors inline-flex items-center gap-1"
+        >
+          <LogOut className="w-4 h-4" />
+          Sign out
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export default TwoFactorChallenge;
@@ -4,6 +4,7 @@
 // ============================================================================
 
 import { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode } from 'react';
+import { useCompliance } from './ComplianceContext';
 
 // ============================================================================
 // Types
@@ -324,6 +325,10 @@ interface AdaptiveProviderProps {
 }
 
 export function AdaptiveProvider({ children }: AdaptiveProviderProps) {
+  // Usage tracking and behavior analysis are analytics; nothing is recorded without consent
+  const { getConsent } = useCompliance();
+  const analyticsAllowed = getConsent('analytics');
+
   const [state, setState] = useState<AdaptiveState>(() => {
     // Load from localStorage
     try {
@@ -392,7 +397,7 @@ export function AdaptiveProvider({ children }: AdaptiveProviderProps) {
 
   // Analyze behavior periodically
   useEffect(() => {
-    if (!state.isLearning || state.recentInteractions.length < MIN_INTERACTIONS_TO_LEARN) {
+    if (!analyticsAllowed || !state.isLearning || state.recentInteractions.length < MIN_INTERACTIONS_TO_LEARN) {
       return;
     }
 
@@ -431,10 +436,12 @@ export function AdaptiveProvider({ children }: AdaptiveProviderProps) {
     }, 10000);
 
     return () => clearTimeout(analysisTimeout);
-  }, [state.isLearning, state.recentInteractions.length]);
+  }, [analyticsAllowed, state.isLearning, state.recentInteractions.length]);
 
   // Track interaction
   const trackInteraction = useCallback((event: Omit<InteractionEvent, 'timestamp'>) => {
+    if (!analyticsAllowed) return;
+
     const fullEvent: InteractionEvent = {
       ...event,
       timestamp: Date.now(),
@@ -467,10 +474,12 @@ export function AdaptiveProvider({ children }: AdaptiveProviderProps) {
         componentStats: newStats,
       };
     });
-  }, []);
+  }, [analyticsAllowed]);
 
   // Track dwell time
   const trackDwell = useCallback((componentId: string, duration: number) => {
+    if (!analyticsAllowed) return;
+
     setState(prev => {
       const newStats = new Map(prev.componentStats);
       const existingStats = newStats.get(componentId);
@@ -483,7 +492,7 @@ export function AdaptiveProvider({ children }: AdaptiveProviderProps) {
 
       return { ...prev, componentStats: newStats };
     });
-  }, []);
+  }, [analyticsAllowed]);
 
   // Layout controls
   const setLayoutMode = useCallback((mode: LayoutConfig['mode']) => {
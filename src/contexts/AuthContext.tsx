@@ -1,4 +1,16 @@
-import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import { createAuthAdapter } from '../services/authAdapter';
+import type { AuthAdapter, AuthAdapterResult, AuthSnapshot } from '../services/authAdapter';
+import { twoFactorService } from '../services/twoFactor';
+import type { TwoFactorAuthenticator, TwoFactorResult, TwoFactorStatus } from '../services/twoFactor';
+import { passkeyService, PasskeyService } from '../services/passkeys';
+import type { PasskeyRecord } from '../services/passkeys';
+import { deviceSessionService, DeviceSessionService } from '../services/deviceSessions';
+import { breachedPasswordService, BreachedPasswordService } from '../services/breachedPasswords';
+import { emailQueue } from '../services/emailService';
+import { loginGuardService, LoginGuard } from '../services/loginGuard';
+import { detectSessionAnomalies } from '../lib/loginPolicy';
+import type { LoginAnomaly } from '../lib/loginPolicy';
 
 // ============================================================================
 // Types
@@ -30,6 +42,8 @@ export interface Session {
 
 export interface TwoFactorSetup {
   secret: string;
+  otpauthUri: string;
+  /** Locally rendered QR code as a data URL */
   qrCodeUrl: string;
   backupCodes: string[];
 }
@@ -76,6 +90,7 @@ export type AuthError =
   | 'biometric_verification_failed'
   | 'session_expired'
   | 'rate_limit_exceeded'
+  | 'account_locked'
   | 'network_error'
   | 'password_breached'
   | 'unknown_error';
@@ -89,6 +104,8 @@ interface AuthState {
   session: Session | null;
   securityAlerts: SecurityAlert[];
   unreadAlertCount: number;
+  /** When sign-in is throttled or locked, the earliest time to try again */
+  loginRetryAt: Date | null;
 }
 
 interface AuthContextType extends AuthState {
@@ -106,7 +123,10 @@ interface AuthContextType extends AuthState {
 
   // Passkey/Biometric
   loginWithPasskey: () => Promise<void>;
-  registerPasskey: () => Promise<void>;
+  /** Create a passkey on this device for the signed-in user */
+  registerPasskey: (nickname?: string) => Promise<PasskeyRecord>;
+  listPasskeys: () => Promise<PasskeyRecord[]>;
+  renamePasskey: (keyId: string, nickname: string) => Promise<void>;
   removePasskey: (keyId: string) => Promise<void>;
   loginWithBiometric: () => Promise<void>;
   enableBiometric: () => Promise<void>;
@@ -114,18 +134,30 @@ interface AuthContextType extends AuthState {
 
   // 2FA
   setup2FA: () => Promise<TwoFactorSetup>;
+  /** Confirms a pending setup, or completes sign-in while requiresTwoFactor */
   verify2FA: (code: string) => Promise<void>;
   disable2FA: (code: string) => Promise<void>;
+  getTwoFactorStatus: () => Promise<TwoFactorStatus>;
+  regenerateBackupCodes: (code: string) => Promise<string[]>;
+  /** Lost device: sign in with a backup code and remove the old authenticator */
+  recoverWithBackupCode: (code: string) => Promise<void>;
 
   // Session
   logout: () => Promise<void>;
+  refreshSession: () => Promise<void>;
   getSessions: () => Promise<Session[]>;
+  /** Live session list; returns an unsubscribe function */
+  subscribeToSessions: (callback: (sessions: Session[]) => void) => () => void;
+  /** Revoking the current session signs out */
   revokeSession: (sessionId: string) => Promise<void>;
+  /** Signs out every session except this one */
   revokeAllSessions: () => Promise<void>;
 
   // Password Management
   requestPasswordReset: (email: string) => Promise<void>;
   resetPassword: (token: string, password: string) => Promise<void>;
+  /** Signed-in password change from settings; failures are thrown */
+  changePassword: (password: string) => Promise<void>;
 
   // Helpers
   clearError: () => void;
@@ -143,28 +175,6 @@ interface AuthContextType extends AuthState {
   clearSecurityAlerts: () => void;
 }
 
-// ============================================================================
-// Mock Data
-// ============================================================================
-
-const mockUsers: Map<string, User & { password: string }> = new Map([
-  [
-    'demo@moodmash.com',
-    {
-      id: 'user-demo-001',
-      email: 'demo@moodmash.com',
-      password: 'Demo123!@#',
-      name: 'Demo User',
-      emailVerified: true,
-      twoFactorEnabled: false,
-      passkeyEnabled: false,
-      biometricEnabled: false,
-      createdAt: new Date('2024-01-01'),
-      lastLoginAt: new Date(),
-    },
-  ],
-]);
-
 // ============================================================================
 // Context
 // ============================================================================
@@ -187,18 +197,6 @@ const generateUUID = (): string => {
 // Password Validation Utilities
 // ============================================================================
 
-// Mock list of breached passwords for demo purposes
-// In production, this would check against Have I Been Pwned API
-const BREACHED_PASSWORDS: Set<string> = new Set([
-  'password', '123456', '123456789', '12345678', '12345', '1234567', 'qwerty',
-  'password123', 'abc123', 'letmein', 'welcome', 'admin', 'login', 'passw0rd',
-  'password1', '123123', '654321', 'password!', 'P@ssw0rd', 'Password123',
-  'iloveyou', 'sunshine', 'princess', 'football', 'baseball', 'soccer',
-  'hockey', 'basketball', 'dragon', 'monkey', 'master', 'shadow', 'superman',
-  'qazwsx', 'michael', 'football', 'jesus', 'justin', 'liverpool', 'arsenal',
-  'chelsea', 'manchester', 'spurs', 'newcastle', 'liverpool', 'chelsea'
-]);
-
 // Common password patterns to reject
 const COMMON_PATTERNS: RegExp[] = [
   /^(.)\1{3,}$/, // Same character repeated 4+ times
@@ -219,8 +217,8 @@ const COMMON_PATTERNS: RegExp[] = [
  * - At least one lowercase letter
  * - At least one number
  * - At least one special character
- * - Not a breached password
  * - No common patterns
+ * Breach lookups are asynchronous and go through checkBreachedPassword.
  */
 const validatePasswordStrength = (password: string): PasswordValidationResult => {
   const errors: string[] = [];
@@ -291,35 +289,46 @@ const validatePasswordStrength = (password: string): PasswordValidationResult =>
   };
 };
 
-/**
- * Checks if a password has been found in a data breach
- * In production, this would use the Have I Been Pwned API (k-anonymity model)
- */
-const isBreachedPassword = async (password: string): Promise<boolean> => {
-  // Simulate API call delay
-  await new Promise((resolve) => setTimeout(resolve, 500));
-
-  // For demo, check against our mock list
-  // In production, use: https://api.pwnedpasswords.com/range/{first5chars}
-  return BREACHED_PASSWORDS.has(password.toLowerCase());
-};
-
-const DEMO_MODE = true;
+// Refresh this long before the session expires
+const SESSION_REFRESH_MARGIN_MS = 60 * 1000;
+// Longest delay setTimeout accepts without firing immediately
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
 
 // ============================================================================
 // Provider
 // ============================================================================
 
-export function AuthProvider({ children }: { children: ReactNode }) {
+interface AuthProviderProps {
+  children: ReactNode;
+  /** Defaults to Supabase Auth, or the demo accounts when Supabase is not configured */
+  adapter?: AuthAdapter;
+  twoFactor?: TwoFactorAuthenticator;
+  passkeys?: PasskeyService;
+  deviceSessions?: DeviceSessionService;
+  breachedPasswords?: BreachedPasswordService;
+  loginGuard?: LoginGuard;
+}
+
+export function AuthProvider({
+  children,
+  adapter,
+  twoFactor = twoFactorService,
+  passkeys = passkeyService,
+  deviceSessions = deviceSessionService,
+  breachedPasswords = breachedPasswordService,
+  loginGuard = loginGuardService,
+}: AuthProviderProps) {
+  const [auth] = useState<AuthAdapter>(() => adapter ?? createAuthAdapter());
   const [state, setState] = useState<AuthState>({
     user: null,
     isAuthenticated: false,
-    isLoading: false,
+    isLoading: true,
     error: null,
     requiresTwoFactor: false,
     session: null,
     securityAlerts: [],
     unreadAlertCount: 0,
+    loginRetryAt: null,
   });
 
   const setError = useCallback((error: AuthError) => {
@@ -330,427 +339,403 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setState((prev) => ({ ...prev, error: null }));
   }, []);
 
-  // ============================================================================
-  // Email/Password Authentication
-  // ============================================================================
+  /**
+   * Accounts with 2FA stay unauthenticated (requiresTwoFactor) until this
+   * session has passed verify2FA. If the lookup fails, fail closed.
+   */
+  const applySnapshot = useCallback(async (snapshot: AuthSnapshot | null) => {
+    if (!snapshot) {
+      setState((prev) => ({
+        ...prev,
+        user: null,
+        session: null,
+        isAuthenticated: false,
+        isLoading: false,
+        requiresTwoFactor: false,
+        securityAlerts: [],
+        unreadAlertCount: 0,
+      }));
+      return;
+    }
 
-  const loginWithEmail = useCallback(async (email: string, password: string) => {
+    let twoFactorEnabled = true;
+    let sessionVerified = false;
+    let lookupFailed = false;
+    try {
+      twoFactorEnabled = (await twoFactor.getStatus(snapshot.user.id)).enabled;
+      sessionVerified = twoFactorEnabled && (await twoFactor.isSessionVerified(snapshot.session.id));
+    } catch (error) {
+      console.error('[Auth] Two-factor lookup failed:', error);
+      lookupFailed = true;
+    }
+    const requiresTwoFactor = twoFactorEnabled && !sessionVerified;
+
+    setState((prev) => ({
+      ...prev,
+      user: { ...snapshot.user, twoFactorEnabled },
+      session: snapshot.session,
+      isAuthenticated: !requiresTwoFactor,
+      isLoading: false,
+      error: lookupFailed ? 'network_error' : null,
+      requiresTwoFactor,
+    }));
+  }, [twoFactor]);
+
+  /**
+   * Run an adapter call with loading/error bookkeeping. A returned session
+   * is applied straight away; the matching auth event is then a no-op.
+   */
+  const runAuthAction = useCallback(async (action: () => Promise<AuthAdapterResult>): Promise<AuthAdapterResult> => {
     setState((prev) => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      await new Promise((resolve) => setTimeout(resolve, 1500));
+      const result = await action();
+      if (result.snapshot) {
+        await applySnapshot(result.snapshot);
+      } else {
+        setState((prev) => ({ ...prev, isLoading: false, error: result.success ? null : result.error ?? 'unknown_error' }));
+      }
+      return result;
+    } catch {
+      setState((prev) => ({ ...prev, isLoading: false, error: 'network_error' }));
+      return { success: false, error: 'network_error' };
+    }
+  }, [applySnapshot]);
 
-      const user = mockUsers.get(email);
+  // Restore the persisted session, then follow sign-ins, sign-outs and
+  // token refreshes from any source (other tabs, OAuth redirects)
+  useEffect(() => {
+    let active = true;
 
-      if (!user) {
-        setError('user_not_found');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
+    auth.getSession()
+      .then((snapshot) => active && applySnapshot(snapshot))
+      .catch(() => active && applySnapshot(null));
 
-      if (user.password !== password) {
-        setError('invalid_password');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
+    const unsubscribe = auth.onAuthStateChange((_event, snapshot) => {
+      applySnapshot(snapshot);
+    });
 
-      if (!user.emailVerified) {
-        setError('user_not_verified');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [auth, applySnapshot]);
+
+  // ============================================================================
+  // Security Alerts
+  // ============================================================================
+
+  const getSeverityForAlertType = (type: SecurityAlertType): SecurityAlert['severity'] => {
+    switch (type) {
+      case 'suspicious_activity':
+        return 'critical';
+      case 'new_device':
+      case 'password_change':
+        return 'high';
+      case 'new_location':
+        return 'medium';
+      case 'two_factor_enabled':
+      case 'two_factor_disabled':
+        return 'low';
+      default:
+        return 'medium';
+    }
+  };
+
+  const getMessageForAlertType = (type: SecurityAlertType, metadata?: Record<string, string>): string => {
+    switch (type) {
+      case 'new_device':
+        return `New device logged in: ${metadata?.['device'] || 'Unknown device'} on ${metadata?.['browser'] || 'Unknown browser'}`;
+      case 'new_location':
+        return `Login from new location: ${metadata?.['location'] || 'Unknown location'}`;
+      case 'suspicious_activity':
+        return `Suspicious activity detected: ${metadata?.['activity'] || 'Unusual login pattern'}`;
+      case 'password_change':
+        return 'Your password was changed successfully';
+      case 'two_factor_enabled':
+        return 'Two-factor authentication has been enabled';
+      case 'two_factor_disabled':
+        return 'Two-factor authentication has been disabled';
+      default:
+        return 'Security alert';
+    }
+  };
+
+  const addSecurityAlert = useCallback((
+    type: SecurityAlertType,
+    message: string,
+    severity: SecurityAlert['severity'],
+    metadata?: Record<string, string>
+  ) => {
+    const alert: SecurityAlert = {
+      id: generateUUID(),
+      type,
+      timestamp: new Date(),
+      message: message || getMessageForAlertType(type, metadata),
+      severity: severity || getSeverityForAlertType(type),
+      read: false,
+      metadata,
+    };
+
+    setState((prev) => ({
+      ...prev,
+      securityAlerts: [alert, ...prev.securityAlerts].slice(0, 50),
+      unreadAlertCount: prev.unreadAlertCount + 1,
+    }));
+  }, []);
 
-      const session: Session = {
-        id: generateUUID(),
-        userId: user.id,
-        deviceType: 'web',
-        browser: navigator.userAgent,
-        os: navigator.platform,
-        createdAt: new Date(),
-        expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000),
-        lastActivityAt: new Date(),
+  const markAlertAsRead = useCallback((alertId: string) => {
+    setState((prev) => {
+      const updatedAlerts = prev.securityAlerts.map((alert) =>
+        alert.id === alertId ? { ...alert, read: true } : alert
+      );
+      const unreadCount = updatedAlerts.filter((alert) => !alert.read).length;
+      return {
+        ...prev,
+        securityAlerts: updatedAlerts,
+        unreadAlertCount: unreadCount,
       };
+    });
+  }, []);
 
-      if (DEMO_MODE) {
-        localStorage.setItem('moodmash_user', JSON.stringify(user));
-        localStorage.setItem('moodmash_session', JSON.stringify(session));
-      }
+  const markAllAlertsAsRead = useCallback(() => {
+    setState((prev) => ({
+      ...prev,
+      securityAlerts: prev.securityAlerts.map((alert) => ({ ...alert, read: true })),
+      unreadAlertCount: 0,
+    }));
+  }, []);
 
-      setState({
-        user,
-        isAuthenticated: true,
-        isLoading: false,
-        error: null,
-        requiresTwoFactor: false,
-        session,
-        securityAlerts: [],
-        unreadAlertCount: 0,
+  const clearSecurityAlerts = useCallback(() => {
+    setState((prev) => ({
+      ...prev,
+      securityAlerts: [],
+      unreadAlertCount: 0,
+    }));
+  }, []);
+
+  /**
+   * Raise an alert per anomaly and, when any is serious, queue one email
+   * to the account owner
+   */
+  const reportAnomalies = useCallback((
+    anomalies: LoginAnomaly[],
+    recipient: { email: string; name: string },
+    device: { browser: string; os: string; location: string }
+  ) => {
+    for (const anomaly of anomalies) {
+      addSecurityAlert(anomaly.alertType, '', anomaly.severity, {
+        device: device.os,
+        browser: device.browser,
+        location: device.location,
+        ...anomaly.metadata,
       });
-    } catch {
-      setError('network_error');
-      setState((prev) => ({ ...prev, isLoading: false }));
     }
-  }, [setError]);
 
-  const register = useCallback(async (email: string, password: string, name: string) => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    if (!anomalies.some((anomaly) => anomaly.severity === 'high' || anomaly.severity === 'critical')) return;
+
+    emailQueue
+      .add('securityAlert', {
+        userName: recipient.name,
+        userEmail: recipient.email,
+        deviceInfo: `${device.browser} on ${device.os}`,
+        location: device.location,
+        ipAddress: 'Not recorded',
+        timestamp: new Date(),
+        actionUrl: `${window.location.origin}/settings/security`,
+      })
+      .catch((error) => console.error('[Auth] Security alert email failed:', error));
+  }, [addSecurityAlert]);
 
-    try {
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+  // ============================================================================
+  // Email/Password Authentication
+  // ============================================================================
 
-      if (password.length < 8) {
-        setError('invalid_password');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
+  /**
+   * Failed attempts are counted per account and per device: after a few,
+   * each retry waits exponentially longer, and enough of them lock out.
+   * With Supabase the account count is the server's and only the device
+   * count is kept here.
+   */
+  const loginWithEmail = useCallback(async (email: string, password: string) => {
+    const deviceId = deviceSessions.deviceId;
+    const decision = loginGuard.check(email, deviceId);
+    if (!decision.allowed) {
+      setState((prev) => ({
+        ...prev,
+        error: decision.locked ? 'account_locked' : 'rate_limit_exceeded',
+        loginRetryAt: new Date(Date.now() + decision.retryAfterMs),
+      }));
+      return;
+    }
 
-      if (mockUsers.has(email)) {
-        setError('email_already_exists');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
+    const result = await runAuthAction(() => auth.signIn(email, password));
+    if (result.success) {
+      loginGuard.recordSuccess(email);
+      setState((prev) => ({ ...prev, loginRetryAt: null }));
+      return;
+    }
+    // Only wrong credentials count; outages and unverified emails do not
+    if (result.error !== 'invalid_password' && result.error !== 'user_not_found') return;
 
-      const newUser: User & { password: string } = {
-        id: generateUUID(),
-        email,
-        password,
-        name,
-        emailVerified: false,
-        twoFactorEnabled: false,
-        passkeyEnabled: false,
-        biometricEnabled: false,
-        createdAt: new Date(),
-        lastLoginAt: new Date(),
-      };
+    const { decision: next, burst } = loginGuard.recordFailure(email, deviceId);
+    setState((prev) => ({ ...prev, loginRetryAt: next.allowed ? null : new Date(Date.now() + next.retryAfterMs) }));
+    if (burst) {
+      reportAnomalies([burst], { email, name: email.split('@')[0] }, deviceSessions.describeDevice());
+    }
+  }, [auth, runAuthAction, deviceSessions, loginGuard, reportAnomalies]);
 
-      mockUsers.set(email, newUser);
+  const register = useCallback(async (email: string, password: string, name: string) => {
+    if (await breachedPasswords.isBreached(password)) {
+      setError('password_breached');
+      return;
+    }
 
-      setState((prev) => ({ ...prev, isLoading: false }));
+    const result = await runAuthAction(() => auth.signUp(email, password, name));
 
+    if (result.success && !result.snapshot) {
       alert('Registration successful! Please check your email to verify your account.');
-    } catch {
-      setError('unknown_error');
-      setState((prev) => ({ ...prev, isLoading: false }));
     }
-  }, [setError]);
+  }, [auth, runAuthAction, breachedPasswords, setError]);
 
   // ============================================================================
   // Social Authentication
   // ============================================================================
 
   const loginWithGoogle = useCallback(async () => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    await runAuthAction(() => auth.signInWithOAuth('google'));
+  }, [auth, runAuthAction]);
 
-    try {
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+  const loginWithGitHub = useCallback(async () => {
+    await runAuthAction(() => auth.signInWithOAuth('github'));
+  }, [auth, runAuthAction]);
 
-      const mockGoogleUser: User = {
-        id: 'google-' + generateUUID(),
-        email: 'user@gmail.com',
-        name: 'Google User',
-        emailVerified: true,
-        twoFactorEnabled: false,
-        passkeyEnabled: false,
-        biometricEnabled: false,
-        createdAt: new Date(),
-        lastLoginAt: new Date(),
-      };
+  // ============================================================================
+  // Magic Link Authentication
+  // ============================================================================
 
-      const session: Session = {
-        id: generateUUID(),
-        userId: mockGoogleUser.id,
-        deviceType: 'web',
-        browser: navigator.userAgent,
-        os: navigator.platform,
-        createdAt: new Date(),
-        expiresAt: new Date(Date.now() * 2),
-        lastActivityAt: new Date(),
-      };
+  const loginWithMagicLink = useCallback(async (email: string) => {
+    const result = await runAuthAction(() => auth.sendMagicLink(email));
 
-      localStorage.setItem('moodmash_user', JSON.stringify(mockGoogleUser));
-      localStorage.setItem('moodmash_session', JSON.stringify(session));
+    if (result.success) {
+      alert('Magic link sent! Check your inbox to sign in.');
+    }
+  }, [auth, runAuthAction]);
 
-      setState({
-        user: mockGoogleUser,
-        isAuthenticated: true,
-        isLoading: false,
-        error: null,
-        requiresTwoFactor: false,
-        session,
-        securityAlerts: [],
-        unreadAlertCount: 0,
-      });
-    } catch {
-      setError('network_error');
-      setState((prev) => ({ ...prev, isLoading: false }));
+  const verifyMagicLink = useCallback(async (token: string) => {
+    await runAuthAction(() => auth.verifyMagicLink(token));
+  }, [auth, runAuthAction]);
+
+  // ============================================================================
+  // Passkey Authentication (WebAuthn)
+  // ============================================================================
+
+  const loginWithPasskey = useCallback(async () => {
+    await runAuthAction(() => auth.signInWithPasskey());
+  }, [auth, runAuthAction]);
+
+  /**
+   * Passkey management leaves isLoading alone, like the 2FA calls below.
+   * Failures are thrown so the settings page can report them.
+   */
+  const registerPasskey = useCallback(async (nickname?: string): Promise<PasskeyRecord> => {
+    const { user } = state;
+    if (!user) {
+      throw new Error('Sign in to add a passkey');
     }
-  }, []);
 
-  const loginWithGitHub = useCallback(async () => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    clearError();
+    if (!passkeys.isSupported()) {
+      setError('passkey_not_supported');
+      throw new Error('passkey_not_supported');
+    }
 
     try {
-      await new Promise((resolve) => setTimeout(resolve, 2000));
+      const record = await passkeys.register(user, nickname);
+      setState((prev) => ({ ...prev, user: prev.user && { ...prev.user, passkeyEnabled: true } }));
+      return record;
+    } catch (error) {
+      console.error('[Auth] Passkey registration failed:', error);
+      setError('passkey_registration_failed');
+      throw new Error('passkey_registration_failed');
+    }
+  }, [state, passkeys, setError, clearError]);
 
-      const mockGitHubUser: User = {
-        id: 'github-' + generateUUID(),
-        email: 'user@github.com',
-        name: 'GitHub User',
-        emailVerified: true,
-        twoFactorEnabled: false,
-        passkeyEnabled: false,
-        biometricEnabled: false,
-        createdAt: new Date(),
-        lastLoginAt: new Date(),
-      };
+  const listPasskeys = useCallback(async (): Promise<PasskeyRecord[]> => {
+    if (!state.user) return [];
+    return passkeys.list(state.user.id);
+  }, [state.user, passkeys]);
 
-      const session: Session = {
-        id: generateUUID(),
-        userId: mockGitHubUser.id,
-        deviceType: 'web',
-        browser: navigator.userAgent,
-        os: navigator.platform,
-        createdAt: new Date(),
-        expiresAt: new Date(Date.now() * 2),
-        lastActivityAt: new Date(),
-      };
+  const renamePasskey = useCallback(async (keyId: string, nickname: string) => {
+    if (!state.user) return;
+    await passkeys.rename(state.user.id, keyId, nickname);
+  }, [state.user, passkeys]);
 
-      localStorage.setItem('moodmash_user', JSON.stringify(mockGitHubUser));
-      localStorage.setItem('moodmash_session', JSON.stringify(session));
+  // ============================================================================
+  // Biometric Authentication
+  // ============================================================================
 
-      setState({
-        user: mockGitHubUser,
-        isAuthenticated: true,
-        isLoading: false,
-        error: null,
-        requiresTwoFactor: false,
-        session,
-        securityAlerts: [],
-        unreadAlertCount: 0,
-      });
+  /**
+   * Biometric sign-in is a passkey held by this device's platform
+   * authenticator; the ceremony requires user verification
+   */
+  const loginWithBiometric = useCallback(async () => {
+    clearError();
+    if (!window.PublicKeyCredential) {
+      setError('biometric_not_supported');
+      return;
+    }
+
+    try {
+      if (!(await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable())) {
+        setError('biometric_not_enrolled');
+        return;
+      }
     } catch {
-      setError('network_error');
-      setState((prev) => ({ ...prev, isLoading: false }));
+      setError('biometric_not_supported');
+      return;
     }
-  }, []);
 
-  // ============================================================================
-  // Magic Link Authentication
-  // ============================================================================
+    await runAuthAction(() => auth.signInWithPasskey());
+  }, [auth, runAuthAction, setError, clearError]);
 
-  const loginWithMagicLink = useCallback(async (_email: string) => {
+  const enableBiometric = useCallback(async () => {
     setState((prev) => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      if (!window.PublicKeyCredential) {
+        setError('biometric_not_supported');
+        setState((prev) => ({ ...prev, isLoading: false }));
+        return;
+      }
 
-      setState((prev) => ({ ...prev, isLoading: false }));
+      const isAvailable = await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+
+      if (!isAvailable) {
+        setError('biometric_not_enrolled');
+        setState((prev) => ({ ...prev, isLoading: false }));
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+
+      setState((prev) => {
+        if (prev.user) {
+          const updatedUser = { ...prev.user, biometricEnabled: true };
+          localStorage.setItem('moodmash_user', JSON.stringify(updatedUser));
+          return { ...prev, user: updatedUser, isLoading: false };
+        }
+        return { ...prev, isLoading: false };
+      });
 
-      alert(`Magic link sent! (Demo: check console for token)`);
-      console.log('[Demo] Magic link token:', generateUUID());
+      alert('Biometric authentication enabled!');
     } catch {
-      setError('network_error');
+      setError('biometric_verification_failed');
       setState((prev) => ({ ...prev, isLoading: false }));
     }
   }, []);
 
-  const verifyMagicLink = useCallback(async (_token: string) => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      const mockUser: User = {
-        id: 'magic-' + generateUUID(),
-        email: 'user@magic.link',
-        name: 'Magic User',
-        emailVerified: true,
-        twoFactorEnabled: false,
-        passkeyEnabled: false,
-        biometricEnabled: false,
-        createdAt: new Date(),
-        lastLoginAt: new Date(),
-      };
-
-      setState({
-        user: mockUser,
-        isAuthenticated: true,
-        isLoading: false,
-        error: null,
-        requiresTwoFactor: false,
-        session: null,
-        securityAlerts: [],
-        unreadAlertCount: 0,
-      });
-    } catch {
-      setError('invalid_magic_link');
-      setState((prev) => ({ ...prev, isLoading: false }));
-    }
-  }, []);
-
-  // ============================================================================
-  // Passkey Authentication (WebAuthn)
-  // ============================================================================
-
-  const loginWithPasskey = useCallback(async () => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      if (!window.PublicKeyCredential) {
-        setError('passkey_not_supported');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
-
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-
-      const mockUser: User = {
-        id: 'passkey-' + generateUUID(),
-        email: 'passkey@moodmash.com',
-        name: 'Passkey User',
-        emailVerified: true,
-        twoFactorEnabled: false,
-        passkeyEnabled: true,
-        biometricEnabled: false,
-        createdAt: new Date(),
-        lastLoginAt: new Date(),
-      };
-
-      setState({
-        user: mockUser,
-        isAuthenticated: true,
-        isLoading: false,
-        error: null,
-        requiresTwoFactor: false,
-        session: null,
-        securityAlerts: [],
-        unreadAlertCount: 0,
-      });
-    } catch {
-      setError('passkey_login_failed');
-      setState((prev) => ({ ...prev, isLoading: false }));
-    }
-  }, []);
-
-  const registerPasskey = useCallback(async () => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      if (!window.PublicKeyCredential) {
-        setError('passkey_not_supported');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
-
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      console.log('[Demo] Passkey registered successfully');
-
-      setState((prev) => {
-        if (prev.user) {
-          const updatedUser = { ...prev.user, passkeyEnabled: true };
-          localStorage.setItem('moodmash_user', JSON.stringify(updatedUser));
-          return { ...prev, user: updatedUser, isLoading: false };
-        }
-        return { ...prev, isLoading: false };
-      });
-
-      alert('Passkey registered successfully!');
-    } catch {
-      setError('passkey_registration_failed');
-      setState((prev) => ({ ...prev, isLoading: false }));
-    }
-  }, []);
-
-  // ============================================================================
-  // Biometric Authentication
-  // ============================================================================
-
-  const loginWithBiometric = useCallback(async () => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      if (!window.PublicKeyCredential) {
-        setError('biometric_not_supported');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
-
-      const isAvailable = await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
-
-      if (!isAvailable) {
-        setError('biometric_not_enrolled');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
-
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      const mockUser: User = {
-        id: 'biometric-' + generateUUID(),
-        email: 'biometric@moodmash.com',
-        name: 'Biometric User',
-        emailVerified: true,
-        twoFactorEnabled: false,
-        passkeyEnabled: false,
-        biometricEnabled: true,
-        createdAt: new Date(),
-        lastLoginAt: new Date(),
-      };
-
-      setState({
-        user: mockUser,
-        isAuthenticated: true,
-        isLoading: false,
-        error: null,
-        requiresTwoFactor: false,
-        session: null,
-        securityAlerts: [],
-        unreadAlertCount: 0,
-      });
-    } catch {
-      setError('biometric_verification_failed');
-      setState((prev) => ({ ...prev, isLoading: false }));
-    }
-  }, []);
-
-  const enableBiometric = useCallback(async () => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      if (!window.PublicKeyCredential) {
-        setError('biometric_not_supported');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
-
-      const isAvailable = await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
-
-      if (!isAvailable) {
-        setError('biometric_not_enrolled');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
-
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      setState((prev) => {
-        if (prev.user) {
-          const updatedUser = { ...prev.user, biometricEnabled: true };
-          localStorage.setItem('moodmash_user', JSON.stringify(updatedUser));
-          return { ...prev, user: updatedUser, isLoading: false };
-        }
-        return { ...prev, isLoading: false };
-      });
-
-      alert('Biometric authentication enabled!');
-    } catch {
-      setError('biometric_verification_failed');
-      setState((prev) => ({ ...prev, isLoading: false }));
-    }
-  }, []);
-
-  const disableBiometric = useCallback(async () => {
+  const disableBiometric = useCallback(async () => {
     setState((prev) => ({ ...prev, isLoading: true, error: null }));
 
     try {
@@ -773,214 +758,232 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const removePasskey = useCallback(async (keyId: string) => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    const { user } = state;
+    if (!user) return;
 
+    clearError();
     try {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      console.log('[Demo] Passkey removed:', keyId);
-
-      setState((prev) => ({ ...prev, isLoading: false }));
-    } catch {
+      await passkeys.remove(user.id, keyId);
+      const remaining = await passkeys.list(user.id);
+      setState((prev) => ({ ...prev, user: prev.user && { ...prev.user, passkeyEnabled: remaining.length > 0 } }));
+    } catch (error) {
       setError('unknown_error');
-      setState((prev) => ({ ...prev, isLoading: false }));
+      throw error;
     }
-  }, []);
+  }, [state, passkeys, setError, clearError]);
 
   // ============================================================================
   // Two-Factor Authentication
   // ============================================================================
 
-  const setup2FA = useCallback(async (): Promise<TwoFactorSetup> => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+  /**
+   * Record a 2FA outcome in state. Failures are also thrown so callers
+   * driving a form can stay on the current step. These calls leave
+   * isLoading alone: the route guards would unmount the form mid-flow.
+   */
+  const settleTwoFactor = useCallback((result: TwoFactorResult, update: (prev: AuthState) => AuthState) => {
+    if (!result.success) {
+      setError(result.error ?? 'incorrect_2fa_code');
+      throw new Error(result.error ?? 'incorrect_2fa_code');
+    }
+    setState((prev) => ({ ...update(prev), error: null }));
+  }, [setError]);
 
-      const secret = 'JBSWY3DPEHPK3PXP';
-      const setup: TwoFactorSetup = {
-        secret,
-        qrCodeUrl: `otpauth://totp/MoodMash:demo@moodmash.com?secret=${secret}&issuer=MoodMash&algorithm=SHA1&digits=6&period=30`,
-        backupCodes: ['ABC-123', 'DEF-456', 'GHI-789', 'JKL-012', 'MNO-345', 'PQR-678', 'STU-901', 'VWX-234'],
-      };
+  const setup2FA = useCallback(async (): Promise<TwoFactorSetup> => {
+    if (!state.user) {
+      throw new Error('Sign in to set up two-factor authentication');
+    }
 
-      setState((prev) => ({ ...prev, isLoading: false }));
+    clearError();
 
-      return setup;
-    } catch {
+    try {
+      return await twoFactor.beginSetup(state.user.id, state.user.email);
+    } catch (error) {
+      console.error('[Auth] Two-factor setup failed:', error);
       setError('unknown_error');
-      setState((prev) => ({ ...prev, isLoading: false }));
       throw new Error('Failed to setup 2FA');
     }
-  }, []);
+  }, [state.user, twoFactor, setError, clearError]);
 
   const verify2FA = useCallback(async (code: string) => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    const { user, session, requiresTwoFactor } = state;
+    if (!user) return;
 
-    try {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+    clearError();
 
-      if (code.length !== 6 || !/^\d+$/.test(code)) {
-        setError('incorrect_2fa_code');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
+    const result = requiresTwoFactor
+      ? await twoFactor.verify(user.id, code)
+      : await twoFactor.confirmSetup(user.id, code);
 
-      setState((prev) => {
-        if (prev.user) {
-          const updatedUser = { ...prev.user, twoFactorEnabled: true };
-          localStorage.setItem('moodmash_user', JSON.stringify(updatedUser));
-          return {
-            ...prev,
-            user: updatedUser,
-            isLoading: false,
-            isAuthenticated: true,
-            requiresTwoFactor: false,
-          };
-        }
-        return { ...prev, isLoading: false };
-      });
-    } catch {
-      setError('unknown_error');
-      setState((prev) => ({ ...prev, isLoading: false }));
+    if (result.success && session) {
+      twoFactor.markSessionVerified(session.id);
     }
-  }, []);
+
+    settleTwoFactor(result, (prev) => ({
+      ...prev,
+      user: prev.user && { ...prev.user, twoFactorEnabled: true },
+      isAuthenticated: true,
+      requiresTwoFactor: false,
+    }));
+  }, [state, twoFactor, settleTwoFactor, clearError]);
 
   const disable2FA = useCallback(async (code: string) => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
+    if (!state.user) return;
 
-    try {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+    clearError();
+    const result = await twoFactor.disable(state.user.id, code);
 
-      if (code.length !== 6 || !/^\d+$/.test(code)) {
-        setError('incorrect_2fa_code');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
+    settleTwoFactor(result, (prev) => ({
+      ...prev,
+      user: prev.user && { ...prev.user, twoFactorEnabled: false },
+    }));
+  }, [state.user, twoFactor, settleTwoFactor, clearError]);
 
-      setState((prev) => {
-        if (prev.user) {
-          const updatedUser = { ...prev.user, twoFactorEnabled: false };
-          localStorage.setItem('moodmash_user', JSON.stringify(updatedUser));
-          return { ...prev, user: updatedUser, isLoading: false };
-        }
-        return { ...prev, isLoading: false };
-      });
+  const getTwoFactorStatus = useCallback(async (): Promise<TwoFactorStatus> => {
+    if (!state.user) return { enabled: false, remainingBackupCodes: 0 };
+    return twoFactor.getStatus(state.user.id);
+  }, [state.user, twoFactor]);
 
-      alert('Two-factor authentication disabled.');
-    } catch {
-      setError('unknown_error');
-      setState((prev) => ({ ...prev, isLoading: false }));
-    }
-  }, []);
+  const regenerateBackupCodes = useCallback(async (code: string): Promise<string[]> => {
+    if (!state.user) return [];
+
+    clearError();
+    const result = await twoFactor.regenerateBackupCodes(state.user.id, code);
+
+    settleTwoFactor(result, (prev) => prev);
+    return result.backupCodes ?? [];
+  }, [state.user, twoFactor, settleTwoFactor, clearError]);
+
+  const recoverWithBackupCode = useCallback(async (code: string) => {
+    const { user, session } = state;
+    if (!user || !session) return;
+
+    clearError();
+    const result = await twoFactor.recover(user.id, code);
+
+    settleTwoFactor(result, (prev) => ({
+      ...prev,
+      user: prev.user && { ...prev.user, twoFactorEnabled: false },
+      isAuthenticated: true,
+      requiresTwoFactor: false,
+    }));
+  }, [state, twoFactor, settleTwoFactor, clearError]);
 
   // ============================================================================
   // Session Management
   // ============================================================================
 
   const logout = useCallback(async () => {
-    await new Promise((resolve) => setTimeout(resolve, 500));
+    try {
+      await auth.signOut();
+    } finally {
+      await applySnapshot(null);
+    }
+  }, [auth, applySnapshot]);
 
-    localStorage.removeItem('moodmash_user');
-    localStorage.removeItem('moodmash_session');
+  const refreshSession = useCallback(async () => {
+    const result = await auth.refreshSession();
 
-    setState({
-      user: null,
-      isAuthenticated: false,
-      isLoading: false,
-      error: null,
-      requiresTwoFactor: false,
-      session: null,
-      securityAlerts: [],
-      unreadAlertCount: 0,
-    });
-  }, []);
+    if (result.snapshot) {
+      await applySnapshot(result.snapshot);
+    } else if (!result.success) {
+      if (result.error === 'session_expired') {
+        applySnapshot(null);
+      }
+      setError(result.error ?? 'unknown_error');
+    }
+  }, [auth, applySnapshot, setError]);
+
+  const expiresAt = state.session?.expiresAt.getTime();
+
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const delay = Math.max(0, expiresAt - Date.now() - SESSION_REFRESH_MARGIN_MS);
+    // Long-lived sessions are refreshed on a later visit instead
+    if (delay > MAX_TIMER_DELAY_MS) return;
+
+    const timer = setTimeout(() => {
+      refreshSession();
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [expiresAt, refreshSession]);
 
   const getSessions = useCallback(async (): Promise<Session[]> => {
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    return [
-      {
-        id: 'session-1',
-        userId: state.user?.id || '',
-        deviceType: 'web',
-        browser: 'Chrome',
-        os: 'Windows',
-        location: 'New York, US',
-        createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000),
-        expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-        lastActivityAt: new Date(),
-      },
-    ];
-  }, [state.user?.id]);
+    if (!state.user) return [];
+    return deviceSessions.list(state.user.id);
+  }, [state.user, deviceSessions]);
 
-  const revokeSession = useCallback(async (sessionId: string) => {
-    await new Promise((resolve) => setTimeout(resolve, 500));
-    console.log('[Demo] Session revoked:', sessionId);
-  }, []);
+  const subscribeToSessions = useCallback((callback: (sessions: Session[]) => void) => {
+    if (!state.user) return () => undefined;
+    return deviceSessions.subscribe(state.user.id, callback);
+  }, [state.user, deviceSessions]);
 
-  const revokeAllSessions = useCallback(async () => {
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+  const revokeSession = useCallback(async (sessionId: string) => {
+    const { user, session } = state;
+    if (!user) return;
 
-    localStorage.removeItem('moodmash_user');
-    localStorage.removeItem('moodmash_session');
+    await deviceSessions.revoke(user.id, sessionId);
+    if (sessionId === session?.id) {
+      await logout();
+    }
+  }, [state, deviceSessions, logout]);
 
-    setState({
-      user: null,
-      isAuthenticated: false,
-      isLoading: false,
-      error: null,
-      requiresTwoFactor: false,
-      session: null,
-      securityAlerts: [],
-      unreadAlertCount: 0,
-    });
+  const revokeAllSessions = useCallback(async () => {
+    const { user, session } = state;
+    if (!user || !session) return;
 
-    alert('All other sessions have been revoked.');
-  }, []);
+    await deviceSessions.revokeOthers(user.id, session.id);
+  }, [state, deviceSessions]);
 
   // ============================================================================
   // Password Management
   // ============================================================================
 
   const requestPasswordReset = useCallback(async (email: string) => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      console.log('[Demo] Password reset email would be sent to:', email);
-      alert('Password reset email sent! Check your inbox.');
-
-      setState((prev) => ({ ...prev, isLoading: false }));
-    } catch {
-      setError('network_error');
-      setState((prev) => ({ ...prev, isLoading: false }));
-    }
-  }, []);
+    await runAuthAction(() => auth.sendPasswordReset(email));
+  }, [auth, runAuthAction]);
 
+  /**
+   * `token` comes from the reset link. Weak and breached passwords are
+   * refused here before the adapter is asked.
+   */
   const resetPassword = useCallback(async (token: string, password: string) => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      const passwordValidation = validatePasswordStrength(password);
-      if (!passwordValidation.isValid) {
-        setError('invalid_password');
-        setState((prev) => ({ ...prev, isLoading: false }));
-        return;
-      }
+    if (!validatePasswordStrength(password).isValid) {
+      setError('invalid_password');
+      return;
+    }
+    if (await breachedPasswords.isBreached(password)) {
+      setError('password_breached');
+      return;
+    }
 
-      console.log('[Demo] Password reset with token:', token);
-      alert('Password reset successful!');
+    await runAuthAction(() => auth.updatePassword(password, token));
+  }, [auth, runAuthAction, breachedPasswords, setError]);
+
+  /**
+   * Same checks as resetPassword, for the signed-in user. Like passkey
+   * management it leaves isLoading alone and throws for the settings page.
+   */
+  const changePassword = useCallback(async (password: string) => {
+    clearError();
+
+    let error: AuthError | undefined;
+    if (!validatePasswordStrength(password).isValid) {
+      error = 'invalid_password';
+    } else if (await breachedPasswords.isBreached(password)) {
+      error = 'password_breached';
+    } else {
+      const result = await auth.updatePassword(password);
+      error = result.success ? undefined : result.error ?? 'unknown_error';
+    }
 
-      setState((prev) => ({ ...prev, isLoading: false }));
-    } catch {
-      setError('network_error');
-      setState((prev) => ({ ...prev, isLoading: false }));
+    if (error) {
+      setError(error);
+      throw new Error(error);
     }
-  }, []);
+    addSecurityAlert('password_change', '', 'high');
+  }, [auth, breachedPasswords, addSecurityAlert, setError, clearError]);
 
   // ============================================================================
   // Password Validation Helpers
@@ -991,149 +994,77 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const checkBreachedPassword = useCallback(async (password: string): Promise<boolean> => {
-    return isBreachedPassword(password);
-  }, []);
+    return breachedPasswords.isBreached(password);
+  }, [breachedPasswords]);
 
   // ============================================================================
   // Email Verification
   // ============================================================================
 
   const resendVerificationEmail = useCallback(async (email: string) => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      console.log('[Demo] Verification email would be sent to:', email);
-      alert('Verification email sent! Check your inbox.');
-
-      setState((prev) => ({ ...prev, isLoading: false }));
-    } catch {
-      setError('network_error');
-      setState((prev) => ({ ...prev, isLoading: false }));
-    }
-  }, [setError]);
+    await runAuthAction(() => auth.resendVerificationEmail(email));
+  }, [auth, runAuthAction]);
 
+  /**
+   * Verifying usually signs in as well; otherwise the signed-in user, if
+   * any, is marked verified
+   */
   const verifyEmail = useCallback(async (token: string) => {
-    setState((prev) => ({ ...prev, isLoading: true, error: null }));
-
-    try {
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      console.log('[Demo] Email verification token:', token);
-
-      setState((prev) => {
-        if (prev.user) {
-          const updatedUser = { ...prev.user, emailVerified: true };
-          localStorage.setItem('moodmash_user', JSON.stringify(updatedUser));
-          return {
-            ...prev,
-            user: updatedUser,
-            isLoading: false,
-          };
-        }
-        return { ...prev, isLoading: false };
-      });
+    const result = await runAuthAction(() => auth.verifyEmail(token));
 
-      alert('Email verified successfully!');
-    } catch {
-      setError('unknown_error');
-      setState((prev) => ({ ...prev, isLoading: false }));
+    if (result.success && !result.snapshot) {
+      setState((prev) => ({ ...prev, user: prev.user && { ...prev.user, emailVerified: true } }));
     }
-  }, [setError]);
+  }, [auth, runAuthAction]);
 
   // ============================================================================
-  // Security Alerts
+  // Device Session Tracking
   // ============================================================================
 
-  const getSeverityForAlertType = (type: SecurityAlertType): SecurityAlert['severity'] => {
-    switch (type) {
-      case 'suspicious_activity':
-        return 'critical';
-      case 'new_device':
-      case 'password_change':
-        return 'high';
-      case 'new_location':
-        return 'medium';
-      case 'two_factor_enabled':
-      case 'two_factor_disabled':
-        return 'low';
-      default:
-        return 'medium';
-    }
-  };
+  const trackedUser = state.isAuthenticated ? state.user : null;
+  const trackedSession = state.isAuthenticated ? state.session : null;
 
-  const getMessageForAlertType = (type: SecurityAlertType, metadata?: Record<string, string>): string => {
-    switch (type) {
-      case 'new_device':
-        return `New device logged in: ${metadata?.['device'] || 'Unknown device'} on ${metadata?.['browser'] || 'Unknown browser'}`;
-      case 'new_location':
-        return `Login from new location: ${metadata?.['location'] || 'Unknown location'}`;
-      case 'suspicious_activity':
-        return `Suspicious activity detected: ${metadata?.['activity'] || 'Unusual login pattern'}`;
-      case 'password_change':
-        return 'Your password was changed successfully';
-      case 'two_factor_enabled':
-        return 'Two-factor authentication has been enabled';
-      case 'two_factor_disabled':
-        return 'Two-factor authentication has been disabled';
-      default:
-        return 'Security alert';
-    }
-  };
+  // Record this device's session, sign out if it was revoked elsewhere, and
+  // report anything unusual about a session seen for the first time
+  useEffect(() => {
+    if (!trackedUser || !trackedSession) return;
+    let active = true;
 
-  const addSecurityAlert = useCallback((
-    type: SecurityAlertType,
-    message: string,
-    severity: SecurityAlert['severity'],
-    metadata?: Record<string, string>
-  ) => {
-    const alert: SecurityAlert = {
-      id: generateUUID(),
-      type,
-      timestamp: new Date(),
-      message: message || getMessageForAlertType(type, metadata),
-      severity: severity || getSeverityForAlertType(type),
-      read: false,
-      metadata,
-    };
+    const signOutRevoked = () => logout().then(() => setError('session_expired'));
 
-    setState((prev) => ({
-      ...prev,
-      securityAlerts: [alert, ...prev.securityAlerts].slice(0, 50),
-      unreadAlertCount: prev.unreadAlertCount + 1,
-    }));
-  }, []);
+    deviceSessions.recordActivity(trackedUser, trackedSession)
+      .then(({ record, revoked, newDevice, previous }) => {
+        if (!active) return;
+        if (revoked) {
+          signOutRevoked();
+          return;
+        }
 
-  const markAlertAsRead = useCallback((alertId: string) => {
-    setState((prev) => {
-      const updatedAlerts = prev.securityAlerts.map((alert) =>
-        alert.id === alertId ? { ...alert, read: true } : alert
-      );
-      const unreadCount = updatedAlerts.filter((alert) => !alert.read).length;
-      return {
-        ...prev,
-        securityAlerts: updatedAlerts,
-        unreadAlertCount: unreadCount,
-      };
+        const anomalies = detectSessionAnomalies({
+          current: { at: Date.parse(record.created_at), timeZone: record.time_zone, location: record.location },
+          previous: previous.map((other) => ({
+            at: Date.parse(other.last_activity_at),
+            timeZone: other.time_zone ?? null,
+            location: other.location,
+          })),
+          newDevice,
+        });
+        reportAnomalies(anomalies, trackedUser, record);
+      })
+      .catch((error) => console.error('[Auth] Session tracking failed:', error));
+
+    const unsubscribe = deviceSessions.subscribe(trackedUser.id, (sessions) => {
+      if (sessions.some((session) => session.id === trackedSession.id)) return;
+      deviceSessions.isRevoked(trackedSession.id).then((revoked) => {
+        if (revoked && active) signOutRevoked();
+      });
     });
-  }, []);
 
-  const markAllAlertsAsRead = useCallback(() => {
-    setState((prev) => ({
-      ...prev,
-      securityAlerts: prev.securityAlerts.map((alert) => ({ ...alert, read: true })),
-      unreadAlertCount: 0,
-    }));
-  }, []);
-
-  const clearSecurityAlerts = useCallback(() => {
-    setState((prev) => ({
-      ...prev,
-      securityAlerts: [],
-      unreadAlertCount: 0,
-    }));
-  }, []);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [trackedUser, trackedSession, deviceSessions, logout, reportAnomalies, setError]);
 
   // ============================================================================
   // Context Value
@@ -1149,6 +1080,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     verifyMagicLink,
     loginWithPasskey,
     registerPasskey,
+    listPasskeys,
+    renamePasskey,
     removePasskey,
     loginWithBiometric,
     enableBiometric,
@@ -1156,12 +1089,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setup2FA,
     verify2FA,
     disable2FA,
+    getTwoFactorStatus,
+    regenerateBackupCodes,
+    recoverWithBackupCode,
     logout,
+    refreshSession,
     getSessions,
+    subscribeToSessions,
     revokeSession,
     revokeAllSessions,
     requestPasswordReset,
     resetPassword,
+    changePassword,
     clearError,
     validatePassword,
     checkBreachedPassword,
@@ -1,4 +1,24 @@
-import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { dataRightsService, isOverdue, summarizeRequests } from '../services/dataRights';
+import type {
+  DataRequestFramework,
+  DataRequestRecord,
+  DataRequestStatus,
+  DataRequestType,
+  DataRightsService,
+} from '../services/dataRights';
+import {
+  acceptedPolicyVersion,
+  consentLedgerService,
+  isConsentInForce,
+  latestEntries,
+  needsReconsent as policyNeedsReconsent,
+  setConsentsInForce,
+} from '../services/consentLedger';
+import type { ConsentLedgerEntry, ConsentLedgerService, ConsentSource } from '../services/consentLedger';
+import { dataTransferGate } from '../services/dataTransfers';
+import type { DataTransferGate, DataTransferRecord } from '../services/dataTransfers';
 
 // ============================================================================
 // Types
@@ -23,17 +43,32 @@ export interface Consent {
 
 export interface DataRequest {
   id: string;
-  type: 'access' | 'rectification' | 'erasure' | 'portability' | 'restriction' | 'objection';
-  status: 'pending' | 'processing' | 'completed' | 'rejected';
+  type: DataRequestType;
+  framework: DataRequestFramework;
+  status: DataRequestStatus;
+  reason?: string;
   createdAt: Date;
+  /** Statutory deadline: 30 days under GDPR, 45 under CCPA */
+  dueAt: Date;
+  overdue: boolean;
   completedAt?: Date;
 }
 
+export interface DataRequestOptions {
+  framework?: DataRequestFramework;
+  reason?: string;
+}
+
+/**
+ * Derived from the user's own requests: a framework is compliant while none
+ * of its requests is past the deadline
+ */
 export interface ComplianceStatus {
-  framework: ComplianceFramework;
+  framework: DataRequestFramework;
   compliant: boolean;
-  lastAudit: Date;
-  certifications: string[];
+  openRequests: number;
+  overdueRequests: number;
+  lastFulfilledAt: Date | null;
 }
 
 export interface PrivacyPolicy {
@@ -53,36 +88,50 @@ export interface PrivacyPolicy {
 }
 
 interface ComplianceState {
-  consents: Map<ConsentType, Consent>;
-  dataRequests: DataRequest[];
-  complianceStatuses: ComplianceStatus[];
   privacyPolicy: PrivacyPolicy;
   isLoading: boolean;
 }
 
 interface ComplianceContextType extends ComplianceState {
-  // Consent Management
+  /** In force under the current policy version, derived from the ledger */
+  consents: Map<ConsentType, Consent>;
+  consentLedger: ConsentLedgerEntry[];
+  /** Policy version the user last accepted, or null if never */
+  acceptedPolicyVersion: string | null;
+  /** Signed in, and the current policy version has not been accepted yet */
+  needsReconsent: boolean;
+  dataRequests: DataRequest[];
+  complianceStatuses: ComplianceStatus[];
+  /** Recent outbound transfers, newest first, including blocked ones */
+  transferLog: DataTransferRecord[];
+
+  // Consent Management (every change is appended to the ledger)
   getConsent: (type: ConsentType) => boolean;
-  setConsent: (type: ConsentType, enabled: boolean) => void;
+  setConsent: (type: ConsentType, enabled: boolean, source?: ConsentSource) => Promise<void>;
   getAllConsents: () => Consent[];
-  acceptAllConsents: () => void;
-  rejectAllOptionalConsents: () => void;
+  acceptAllConsents: (source?: ConsentSource) => Promise<void>;
+  rejectAllOptionalConsents: (source?: ConsentSource) => Promise<void>;
+  /** Accept the current policy along with a choice for each optional type */
+  recordConsents: (choices: Partial<Record<ConsentType, boolean>>, source: ConsentSource) => Promise<void>;
+
+  // Data Transfers
+  refreshTransferLog: () => Promise<void>;
 
   // Data Requests
-  submitDataRequest: (type: DataRequest['type']) => Promise<string>;
+  submitDataRequest: (type: DataRequestType, options?: DataRequestOptions) => Promise<string>;
   getDataRequests: () => DataRequest[];
-  cancelDataRequest: (requestId: string) => void;
+  cancelDataRequest: (requestId: string) => Promise<void>;
 
   // Compliance Status
   getComplianceStatus: (framework: ComplianceFramework) => ComplianceStatus | undefined;
 
   // Privacy Policy
-  acceptPrivacyPolicy: (version: string) => void;
+  acceptPrivacyPolicy: (version: string, source?: ConsentSource) => Promise<void>;
   getPrivacyPolicy: () => PrivacyPolicy;
 
-  // Data Export/Import
-  exportUserData: () => Promise<string>;
-  deleteUserData: () => Promise<void>;
+  // Data Export/Erasure (each files and fulfils a request)
+  exportUserData: (type?: 'access' | 'portability', options?: DataRequestOptions) => Promise<string>;
+  deleteUserData: (options?: DataRequestOptions) => Promise<void>;
 }
 
 // ============================================================================
@@ -114,38 +163,8 @@ const PRIVACY_POLICY: PrivacyPolicy = {
   },
 };
 
-const COMPLIANCE_STATUSES: ComplianceStatus[] = [
-  {
-    framework: 'gdpr',
-    compliant: true,
-    lastAudit: new Date('2024-11-01'),
-    certifications: ['ISO 27001', 'SOC 2 Type II'],
-  },
-  {
-    framework: 'ccpa',
-    compliant: true,
-    lastAudit: new Date('2024-11-01'),
-    certifications: ['CCPA Compliant'],
-  },
-  {
-    framework: 'pipeda',
-    compliant: true,
-    lastAudit: new Date('2024-11-01'),
-    certifications: ['PIPEDA Compliant'],
-  },
-  {
-    framework: 'hipaa',
-    compliant: true,
-    lastAudit: new Date('2024-10-15'),
-    certifications: ['HIPAA Compliant', 'HITECH Act'],
-  },
-  {
-    framework: 'soc2',
-    compliant: true,
-    lastAudit: new Date('2024-11-01'),
-    certifications: ['SOC 2 Type II', 'AICPA Trust Services'],
-  },
-];
+// Frameworks with statutory request deadlines
+const REQUEST_FRAMEWORKS: DataRequestFramework[] = ['gdpr', 'ccpa'];
 
 // ============================================================================
 // Context
@@ -157,137 +176,243 @@ const ComplianceContext = createContext<ComplianceContextType | undefined>(undef
 // Utilities
 // ============================================================================
 
-const generateUUID = (): string => {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = (Math.random() * 16) | 0;
-    const v = c === 'x' ? r : (r & 0x3) | 0x8;
-    return v.toString(16);
-  });
-};
+const toDataRequest = (record: DataRequestRecord, now: Date): DataRequest => ({
+  id: record.id,
+  type: record.type,
+  framework: record.framework,
+  status: record.status,
+  reason: record.reason ?? undefined,
+  createdAt: new Date(record.created_at),
+  dueAt: new Date(record.due_at),
+  overdue: isOverdue(record, now),
+  completedAt: record.completed_at ? new Date(record.completed_at) : undefined,
+});
 
 // ============================================================================
 // Provider
 // ============================================================================
 
-export function ComplianceProvider({ children }: { children: ReactNode }) {
+interface ComplianceProviderProps {
+  children: ReactNode;
+  dataRights?: DataRightsService;
+  ledger?: ConsentLedgerService;
+  transfers?: DataTransferGate;
+}
+
+export function ComplianceProvider({
+  children,
+  dataRights = dataRightsService,
+  ledger = consentLedgerService,
+  transfers = dataTransferGate,
+}: ComplianceProviderProps) {
+  const { user, logout } = useAuth();
+  const userId = user?.id ?? null;
   const [state, setState] = useState<ComplianceState>({
-    consents: new Map(INITIAL_CONSENTS.map((c) => [c.type, c])),
-    dataRequests: [],
-    complianceStatuses: COMPLIANCE_STATUSES,
     privacyPolicy: PRIVACY_POLICY,
     isLoading: false,
   });
+  const [consentLedger, setConsentLedger] = useState<ConsentLedgerEntry[]>([]);
+  const [ledgerLoaded, setLedgerLoaded] = useState(false);
+  const [requestRecords, setRequestRecords] = useState<DataRequestRecord[]>([]);
+  const [transferLog, setTransferLog] = useState<DataTransferRecord[]>([]);
 
   // ============================================================================
   // Consent Management
   // ============================================================================
 
+  useEffect(() => {
+    let cancelled = false;
+    setLedgerLoaded(false);
+
+    if (!userId) {
+      setConsentLedger([]);
+      return;
+    }
+
+    ledger.list(userId)
+      .then((entries) => {
+        if (cancelled) return;
+        setConsentLedger(entries);
+        setLedgerLoaded(true);
+      })
+      .catch((error) => {
+        console.warn('[Compliance] Failed to load consent ledger:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ledger, userId]);
+
+  const policyVersion = state.privacyPolicy.version;
+
+  const consents = useMemo(() => {
+    const latest = latestEntries(consentLedger);
+    return new Map(INITIAL_CONSENTS.map((initial): [ConsentType, Consent] => {
+      const entry = latest.get(initial.type);
+      return [initial.type, {
+        type: initial.type,
+        enabled: isConsentInForce(consentLedger, initial.type, policyVersion),
+        timestamp: entry ? new Date(entry.recorded_at) : initial.timestamp,
+        version: entry?.policy_version ?? initial.version,
+      }];
+    }));
+  }, [consentLedger, policyVersion]);
+
+  // Analytics and third-party calls check the gate, not this context
+  useEffect(() => {
+    setConsentsInForce(Array.from(consents.values()).filter((c) => c.enabled).map((c) => c.type));
+  }, [consents]);
+
+  useEffect(() => () => setConsentsInForce([]), []);
+
+  const appendConsents = useCallback(async (
+    choices: { type: ConsentType; granted: boolean }[],
+    source: ConsentSource,
+    version: string = policyVersion
+  ): Promise<void> => {
+    if (!userId) {
+      throw new Error('Sign in to change consent');
+    }
+
+    const entries = await ledger.record(userId, choices, version, source);
+    setConsentLedger((prev) => [...prev, ...entries]);
+  }, [ledger, userId, policyVersion]);
+
   const getConsent = useCallback((type: ConsentType): boolean => {
-    const consent = state.consents.get(type);
+    const consent = consents.get(type);
     return consent?.enabled ?? false;
-  }, [state.consents]);
-
-  const setConsent = useCallback((type: ConsentType, enabled: boolean) => {
-    setState((prev) => {
-      const newConsents = new Map(prev.consents);
-      newConsents.set(type, {
-        type,
-        enabled,
-        timestamp: new Date(),
-        version: prev.privacyPolicy.version,
-      });
-      return { ...prev, consents: newConsents };
-    });
-  }, []);
+  }, [consents]);
+
+  const setConsent = useCallback(async (type: ConsentType, enabled: boolean, source: ConsentSource = 'privacy_settings') => {
+    await appendConsents([{ type, granted: enabled }], source);
+  }, [appendConsents]);
 
   const getAllConsents = useCallback((): Consent[] => {
-    return Array.from(state.consents.values());
-  }, [state.consents]);
-
-  const acceptAllConsents = useCallback(() => {
-    setState((prev) => {
-      const newConsents = new Map(prev.consents);
-      prev.consents.forEach((_, type) => {
-        newConsents.set(type, {
-          type,
-          enabled: true,
-          timestamp: new Date(),
-          version: prev.privacyPolicy.version,
-        });
-      });
-      return { ...prev, consents: newConsents };
-    });
-  }, []);
-
-  const rejectAllOptionalConsents = useCallback(() => {
-    setState((prev) => {
-      const newConsents = new Map(prev.consents);
-      prev.consents.forEach((_consent, type) => {
-        if (type !== 'essential') {
-          newConsents.set(type, {
-            type,
-            enabled: false,
-            timestamp: new Date(),
-            version: prev.privacyPolicy.version,
-          });
-        }
-      });
-      return { ...prev, consents: newConsents };
+    return Array.from(consents.values());
+  }, [consents]);
+
+  const acceptAllConsents = useCallback(async (source: ConsentSource = 'privacy_settings') => {
+    await appendConsents(INITIAL_CONSENTS.map((c) => ({ type: c.type, granted: true })), source);
+  }, [appendConsents]);
+
+  const rejectAllOptionalConsents = useCallback(async (source: ConsentSource = 'privacy_settings') => {
+    await appendConsents(
+      INITIAL_CONSENTS.filter((c) => c.type !== 'essential').map((c) => ({ type: c.type, granted: false })),
+      source
+    );
+  }, [appendConsents]);
+
+  const recordConsents = useCallback(async (choices: Partial<Record<ConsentType, boolean>>, source: ConsentSource) => {
+    await appendConsents([
+      { type: 'essential', granted: true },
+      ...INITIAL_CONSENTS
+        .filter((c) => c.type !== 'essential')
+        .map((c) => ({ type: c.type, granted: choices[c.type] ?? false })),
+    ], source);
+  }, [appendConsents]);
+
+  // ============================================================================
+  // Data Transfers
+  // ============================================================================
+
+  // Transfers are logged against whoever is signed in; none are made without
+  useEffect(() => {
+    transfers.setSubject(userId);
+    return () => transfers.setSubject(null);
+  }, [transfers, userId]);
+
+  const refreshTransferLog = useCallback(async () => {
+    setTransferLog(userId ? await transfers.list(userId) : []);
+  }, [transfers, userId]);
+
+  useEffect(() => {
+    refreshTransferLog().catch((error) => {
+      console.warn('[Compliance] Failed to load data transfers:', error);
     });
-  }, []);
+  }, [refreshTransferLog]);
 
   // ============================================================================
   // Data Requests
   // ============================================================================
 
-  const submitDataRequest = useCallback(async (type: DataRequest['type']): Promise<string> => {
-    setState((prev) => ({ ...prev, isLoading: true }));
+  const refreshRequests = useCallback(async () => {
+    setRequestRecords(userId ? await dataRights.listRequests(userId) : []);
+  }, [dataRights, userId]);
 
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+  useEffect(() => {
+    refreshRequests().catch((error) => {
+      console.warn('[Compliance] Failed to load data requests:', error);
+    });
+  }, [refreshRequests]);
 
-    const requestId = generateUUID();
-    const newRequest: DataRequest = {
-      id: requestId,
-      type,
-      status: 'pending',
-      createdAt: new Date(),
-    };
+  const requireUserId = useCallback((): string => {
+    if (!userId) {
+      throw new Error('Sign in to make a data request');
+    }
+    return userId;
+  }, [userId]);
 
-    setState((prev) => ({
-      ...prev,
-      dataRequests: [...prev.dataRequests, newRequest],
-      isLoading: false,
-    }));
-
-    return requestId;
-  }, []);
+  const submitDataRequest = useCallback(async (type: DataRequestType, options: DataRequestOptions = {}): Promise<string> => {
+    setState((prev) => ({ ...prev, isLoading: true }));
+    try {
+      const record = await dataRights.submit(requireUserId(), type, options);
+      await refreshRequests();
+      return record.id;
+    } finally {
+      setState((prev) => ({ ...prev, isLoading: false }));
+    }
+  }, [dataRights, requireUserId, refreshRequests]);
+
+  const dataRequests = useMemo(() => {
+    const now = new Date();
+    return requestRecords.map((record) => toDataRequest(record, now));
+  }, [requestRecords]);
 
   const getDataRequests = useCallback((): DataRequest[] => {
-    return state.dataRequests;
-  }, [state.dataRequests]);
+    return dataRequests;
+  }, [dataRequests]);
 
-  const cancelDataRequest = useCallback((requestId: string) => {
-    setState((prev) => ({
-      ...prev,
-      dataRequests: prev.dataRequests.filter((r) => r.id !== requestId),
-    }));
-  }, []);
+  const cancelDataRequest = useCallback(async (requestId: string): Promise<void> => {
+    const record = requestRecords.find((r) => r.id === requestId);
+    if (!record) return;
+
+    await dataRights.cancel(record);
+    await refreshRequests();
+  }, [dataRights, requestRecords, refreshRequests]);
 
   // ============================================================================
   // Compliance Status
   // ============================================================================
 
+  const complianceStatuses = useMemo((): ComplianceStatus[] => {
+    const now = new Date();
+    return REQUEST_FRAMEWORKS.map((framework) => {
+      const summary = summarizeRequests(requestRecords, framework, now);
+      return {
+        framework,
+        compliant: summary.overdue === 0,
+        openRequests: summary.open,
+        overdueRequests: summary.overdue,
+        lastFulfilledAt: summary.lastCompletedAt,
+      };
+    });
+  }, [requestRecords]);
+
   const getComplianceStatus = useCallback((framework: ComplianceFramework): ComplianceStatus | undefined => {
-    return state.complianceStatuses.find((s) => s.framework === framework);
-  }, [state.complianceStatuses]);
+    return complianceStatuses.find((s) => s.framework === framework);
+  }, [complianceStatuses]);
 
   // ============================================================================
   // Privacy Policy
   // ============================================================================
 
-  const acceptPrivacyPolicy = useCallback((version: string) => {
-    console.log('[Demo] Privacy policy accepted:', version);
-  }, []);
+  const acceptPrivacyPolicy = useCallback(async (version: string, source: ConsentSource = 'privacy_settings') => {
+    if (version !== policyVersion) {
+      throw new Error(`Privacy policy ${version} is not the current version (${policyVersion})`);
+    }
+    await appendConsents([{ type: 'essential', granted: true }], source, version);
+  }, [appendConsents, policyVersion]);
 
   const getPrivacyPolicy = useCallback((): PrivacyPolicy => {
     return state.privacyPolicy;
@@ -297,38 +422,34 @@ export function ComplianceProvider({ children }: { children: ReactNode }) {
   // Data Export/Import
   // ============================================================================
 
-  const exportUserData = useCallback(async (): Promise<string> => {
+  const exportUserData = useCallback(async (
+    type: 'access' | 'portability' = 'portability',
+    options: DataRequestOptions = {}
+  ): Promise<string> => {
     setState((prev) => ({ ...prev, isLoading: true }));
-
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-
-    const data = {
-      exportDate: new Date().toISOString(),
-      version: '1.0',
-      consents: getAllConsents(),
-      // In a real app, this would include all user data
-      data: {
-        moodEntries: [],
-        settings: {},
-      },
-    };
-
-    setState((prev) => ({ ...prev, isLoading: false }));
-
-    return JSON.stringify(data, null, 2);
-  }, [getAllConsents]);
-
-  const deleteUserData = useCallback(async (): Promise<void> => {
+    try {
+      const record = await dataRights.submit(requireUserId(), type, options);
+      const archive = await dataRights.fulfilExport(record);
+      return JSON.stringify(archive, null, 2);
+    } finally {
+      await refreshRequests().catch(() => undefined);
+      setState((prev) => ({ ...prev, isLoading: false }));
+    }
+  }, [dataRights, requireUserId, refreshRequests]);
+
+  const deleteUserData = useCallback(async (options: DataRequestOptions = {}): Promise<void> => {
     setState((prev) => ({ ...prev, isLoading: true }));
-
-    await new Promise((resolve) => setTimeout(resolve, 2000));
-
-    console.log('[Demo] User data deleted');
-
-    setState((prev) => ({ ...prev, isLoading: false }));
-
-    alert('Your data has been deleted from our servers.');
-  }, []);
+    try {
+      const record = await dataRights.submit(requireUserId(), 'erasure', options);
+      const audit = await dataRights.fulfilErasure(record);
+      console.log('[Compliance] Erased', audit.total_rows, 'rows for request', record.id);
+    } finally {
+      setState((prev) => ({ ...prev, isLoading: false }));
+    }
+
+    // Nothing is left to be signed in to
+    await logout();
+  }, [dataRights, requireUserId, logout]);
 
   // ============================================================================
   // Context Value
@@ -336,11 +457,20 @@ export function ComplianceProvider({ children }: { children: ReactNode }) {
 
   const value: ComplianceContextType = {
     ...state,
+    consents,
+    consentLedger,
+    acceptedPolicyVersion: acceptedPolicyVersion(consentLedger),
+    needsReconsent: ledgerLoaded && policyNeedsReconsent(consentLedger, policyVersion),
+    dataRequests,
+    complianceStatuses,
+    transferLog,
     getConsent,
     setConsent,
     getAllConsents,
     acceptAllConsents,
     rejectAllOptionalConsents,
+    recordConsents,
+    refreshTransferLog,
     submitDataRequest,
     getDataRequests,
     cancelDataRequest,
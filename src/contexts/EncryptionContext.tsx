@@ -1,4 +1,21 @@
-import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  PBKDF2_ITERATIONS,
+  PBKDF2_SALT_LENGTH,
+  bytesToBase64,
+  base64ToBytes,
+  randomBytes,
+  deriveKeyFromPassphrase,
+  generateDataKey,
+  wrapDataKey,
+  unwrapDataKey,
+  encryptString,
+  decryptString,
+} from '../lib/crypto';
+import { loadKeyring, saveKeyring } from '../lib/keyStore';
+import { setFieldCipher } from '../lib/fieldEncryption';
+import type { StoredKeyring, StoredDataKey } from '../lib/keyStore';
 
 // ============================================================================
 // Types
@@ -17,6 +34,8 @@ export interface EncryptedData {
   encryptedContent: string;
   iv: string;
   tag: string;
+  keyId: string;
+  keyVersion: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -26,26 +45,53 @@ interface EncryptionState {
   isEncrypting: boolean;
   isDecrypting: boolean;
   encryptionKeyId: string | null;
+  keyVersion: number | null;
+  hasKeyring: boolean;
+  isUnlocked: boolean;
 }
 
 interface EncryptionContextType extends EncryptionState {
+  // Session
+  createKeyring: (passphrase: string) => Promise<void>;
+  unlock: (passphrase: string) => Promise<boolean>;
+  lock: () => void;
+
   // Encryption Operations
   encrypt: (plaintext: string) => Promise<EncryptedData>;
   decrypt: (encryptedData: EncryptedData) => Promise<string>;
   encryptObject: <T>(obj: T) => Promise<EncryptedData[]>;
   decryptObject: <T>(encryptedData: EncryptedData[]) => Promise<T>;
+  reencrypt: (encryptedData: EncryptedData) => Promise<EncryptedData>;
 
   // Key Management
   generateKey: () => Promise<string>;
-  rotateKey: () => Promise<void>;
-  exportKey: () => Promise<string>;
-  importKey: (keyData: string) => Promise<void>;
+  rotateKey: (reencryptItems?: EncryptedData[]) => Promise<EncryptedData[]>;
+  exportKey: (passphrase: string) => Promise<string>;
+  importKey: (keyData: string, passphrase: string) => Promise<void>;
 
   // Status
   getEncryptionStatus: () => EncryptionStatus;
   isDataEncrypted: (data: unknown) => boolean;
 }
 
+interface ExportedKeyring {
+  format: 'moodmash-keyring';
+  version: 1;
+  keyId: string;
+  algorithm: string;
+  salt: string;
+  iterations: number;
+  keys: StoredDataKey[];
+  exportedAt: string;
+}
+
+interface UnlockedSession {
+  userId: string;
+  wrappingKey: CryptoKey;
+  keyring: StoredKeyring;
+  dataKeys: Map<string, CryptoKey>;
+}
+
 // ============================================================================
 // Context
 // ============================================================================
@@ -56,24 +102,23 @@ const EncryptionContext = createContext<EncryptionContextType | undefined>(undef
 // Utilities
 // ============================================================================
 
+const KEY_ROTATION_INTERVAL_MS = 90 * 24 * 60 * 60 * 1000; // 90 days
+
 const generateUUID = (): string => {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-    const r = (Math.random() * 16) | 0;
-    const v = c === 'x' ? r : (r & 0x3) | 0x8;
-    return v.toString(16);
-  });
+  return crypto.randomUUID();
 };
 
-const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
-  const bytes = new Uint8Array(buffer);
-  let binary = '';
-  for (let i = 0; i < bytes.byteLength; i++) {
-    const byte = bytes[i];
-    if (byte !== undefined) {
-      binary += String.fromCharCode(byte);
-    }
+const rotationStatus = (rotatedAt: Date): Pick<EncryptionStatus, 'lastKeyRotation' | 'nextKeyRotation'> => ({
+  lastKeyRotation: rotatedAt,
+  nextKeyRotation: new Date(rotatedAt.getTime() + KEY_ROTATION_INTERVAL_MS),
+});
+
+const getActiveKey = (keyring: StoredKeyring): StoredDataKey => {
+  const active = keyring.keys.find((k) => k.keyId === keyring.activeKeyId);
+  if (!active) {
+    throw new Error('Keyring has no active key');
   }
-  return btoa(binary);
+  return active;
 };
 
 // ============================================================================
@@ -81,61 +126,183 @@ const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
 // ============================================================================
 
 export function EncryptionProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id ?? 'anonymous';
+  const sessionRef = useRef<UnlockedSession | null>(null);
+
   const [state, setState] = useState<EncryptionState>({
     status: {
       enabled: true,
       algorithm: 'AES-GCM',
       keySize: 256,
-      lastKeyRotation: new Date(),
-      nextKeyRotation: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000), // 90 days
+      ...rotationStatus(new Date()),
     },
     isEncrypting: false,
     isDecrypting: false,
     encryptionKeyId: null,
+    keyVersion: null,
+    hasKeyring: false,
+    isUnlocked: false,
   });
 
+  const applyKeyring = useCallback((keyring: StoredKeyring | null, isUnlocked: boolean) => {
+    setState((prev) => {
+      if (!keyring) {
+        return { ...prev, encryptionKeyId: null, keyVersion: null, hasKeyring: false, isUnlocked };
+      }
+      const active = getActiveKey(keyring);
+      return {
+        ...prev,
+        status: { ...prev.status, ...rotationStatus(new Date(active.createdAt)) },
+        encryptionKeyId: active.keyId,
+        keyVersion: active.version,
+        hasKeyring: true,
+        isUnlocked,
+      };
+    });
+  }, []);
+
+  // Keys never outlive the signed-in user
+  useEffect(() => {
+    sessionRef.current = null;
+    let cancelled = false;
+
+    loadKeyring(userId)
+      .then((keyring) => {
+        if (!cancelled) applyKeyring(keyring, false);
+      })
+      .catch((error) => {
+        console.warn('[Encryption] Failed to load keyring:', error);
+        if (!cancelled) applyKeyring(null, false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, applyKeyring]);
+
+  const requireSession = useCallback((): UnlockedSession => {
+    if (!sessionRef.current || sessionRef.current.userId !== userId) {
+      throw new Error('Encryption is locked. Unlock with your passphrase first.');
+    }
+    return sessionRef.current;
+  }, [userId]);
+
   // ============================================================================
-  // Encryption Operations (Mock Implementation)
+  // Session
   // ============================================================================
 
-  const encrypt = useCallback(async (plaintext: string): Promise<EncryptedData> => {
-    setState((prev) => ({ ...prev, isEncrypting: true }));
+  /**
+   * Start a new keyring on a device that has none. Entries sealed on another
+   * device stay unreadable here unless its key file is imported instead.
+   */
+  const createKeyring = useCallback(async (passphrase: string): Promise<void> => {
+    if (await loadKeyring(userId)) {
+      throw new Error('This device already has encryption keys. Unlock them instead.');
+    }
 
-    // Simulate encryption delay
-    await new Promise((resolve) => setTimeout(resolve, 100));
-
-    // In a real implementation, this would use Web Crypto API
-    const mockEncrypted = btoa(plaintext).split('').reverse().join('');
-    const mockIv = arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(12)));
-    const mockTag = arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(16)));
-
-    const encryptedData: EncryptedData = {
-      id: generateUUID(),
-      encryptedContent: mockEncrypted,
-      iv: mockIv,
-      tag: mockTag,
-      createdAt: new Date(),
-      updatedAt: new Date(),
+    const salt = randomBytes(PBKDF2_SALT_LENGTH);
+    const wrappingKey = await deriveKeyFromPassphrase(passphrase, salt, PBKDF2_ITERATIONS);
+    const dataKey = await generateDataKey();
+    const keyId = generateUUID();
+    const now = new Date().toISOString();
+
+    const keyring: StoredKeyring = {
+      userId,
+      salt: bytesToBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      activeKeyId: keyId,
+      keys: [{ keyId, version: 1, ...(await wrapDataKey(dataKey, wrappingKey)), createdAt: now, retiredAt: null }],
+      updatedAt: now,
     };
+    await saveKeyring(keyring);
+
+    sessionRef.current = { userId, wrappingKey, keyring, dataKeys: new Map([[keyId, dataKey]]) };
+    applyKeyring(keyring, true);
+  }, [userId, applyKeyring]);
+
+  /**
+   * Open the device's keyring. Resolves to false for a wrong passphrase and
+   * rejects when the device has no keyring to open.
+   */
+  const unlock = useCallback(async (passphrase: string): Promise<boolean> => {
+    const keyring = await loadKeyring(userId);
+    if (!keyring) {
+      throw new Error('No encryption keys on this device. Import a key file or create new keys.');
+    }
+
+    const wrappingKey = await deriveKeyFromPassphrase(passphrase, base64ToBytes(keyring.salt), keyring.iterations);
+    const dataKeys = new Map<string, CryptoKey>();
+
+    try {
+      for (const stored of keyring.keys) {
+        dataKeys.set(stored.keyId, await unwrapDataKey(stored, wrappingKey));
+      }
+    } catch {
+      // Wrong passphrase: the GCM tag on the wrapped keys does not verify
+      return false;
+    }
 
-    setState((prev) => ({ ...prev, isEncrypting: false }));
+    sessionRef.current = { userId, wrappingKey, keyring, dataKeys };
+    applyKeyring(keyring, true);
+    return true;
+  }, [userId, applyKeyring]);
 
-    return encryptedData;
+  const lock = useCallback(() => {
+    sessionRef.current = null;
+    setState((prev) => ({ ...prev, isUnlocked: false }));
   }, []);
 
-  const decrypt = useCallback(async (encryptedData: EncryptedData): Promise<string> => {
-    setState((prev) => ({ ...prev, isDecrypting: true }));
+  // ============================================================================
+  // Encryption Operations
+  // ============================================================================
 
-    // Simulate decryption delay
-    await new Promise((resolve) => setTimeout(resolve, 100));
+  const encrypt = useCallback(async (plaintext: string): Promise<EncryptedData> => {
+    const session = requireSession();
+    const active = getActiveKey(session.keyring);
+    const key = session.dataKeys.get(active.keyId);
 
-    // In a real implementation, this would use Web Crypto API
-    const decrypted = atob(encryptedData.encryptedContent).split('').reverse().join('');
+    setState((prev) => ({ ...prev, isEncrypting: true }));
 
-    setState((prev) => ({ ...prev, isDecrypting: false }));
+    try {
+      const parts = await encryptString(key, plaintext);
+      const now = new Date();
+
+      return {
+        id: generateUUID(),
+        encryptedContent: parts.ciphertext,
+        iv: parts.iv,
+        tag: parts.tag,
+        keyId: active.keyId,
+        keyVersion: active.version,
+        createdAt: now,
+        updatedAt: now,
+      };
+    } finally {
+      setState((prev) => ({ ...prev, isEncrypting: false }));
+    }
+  }, [requireSession]);
 
-    return decrypted;
-  }, []);
+  const decrypt = useCallback(async (encryptedData: EncryptedData): Promise<string> => {
+    const session = requireSession();
+    const key = session.dataKeys.get(encryptedData.keyId);
+
+    if (!key) {
+      throw new Error(`Unknown encryption key ${encryptedData.keyId} (version ${encryptedData.keyVersion})`);
+    }
+
+    setState((prev) => ({ ...prev, isDecrypting: true }));
+
+    try {
+      return await decryptString(key, {
+        ciphertext: encryptedData.encryptedContent,
+        iv: encryptedData.iv,
+        tag: encryptedData.tag,
+      });
+    } finally {
+      setState((prev) => ({ ...prev, isDecrypting: false }));
+    }
+  }, [requireSession]);
 
   const encryptObject = useCallback(
     async function <T>(obj: T): Promise<EncryptedData[]> {
@@ -155,71 +322,182 @@ export function EncryptionProvider({ children }: { children: ReactNode }) {
     [decrypt]
   );
 
+  /**
+   * Re-seal data under the active key, keeping its id
+   */
+  const reencrypt = useCallback(async (encryptedData: EncryptedData): Promise<EncryptedData> => {
+    const session = requireSession();
+    if (encryptedData.keyId === session.keyring.activeKeyId) {
+      return encryptedData;
+    }
+
+    const plaintext = await decrypt(encryptedData);
+    const sealed = await encrypt(plaintext);
+    return { ...sealed, id: encryptedData.id, createdAt: encryptedData.createdAt };
+  }, [requireSession, encrypt, decrypt]);
+
+  // Expose the unlocked cipher to the data services (mood notes, journals)
+  useEffect(() => {
+    if (!state.isUnlocked) {
+      setFieldCipher(null);
+      return;
+    }
+
+    setFieldCipher({
+      encrypt,
+      decrypt,
+      activeKeyVersion: () => getActiveKey(requireSession().keyring).version,
+      activeKeyId: () => requireSession().keyring.activeKeyId,
+    });
+    return () => setFieldCipher(null);
+  }, [state.isUnlocked, encrypt, decrypt, requireSession]);
+
   // ============================================================================
   // Key Management
   // ============================================================================
 
-  const generateKey = useCallback(async (): Promise<string> => {
-    await new Promise((resolve) => setTimeout(resolve, 500));
+  const persistSession = useCallback(async (session: UnlockedSession, keyring: StoredKeyring) => {
+    await saveKeyring(keyring);
+    session.keyring = keyring;
+    applyKeyring(keyring, true);
+  }, [applyKeyring]);
 
-    // In a real implementation, this would generate an AES-GCM key
-    const mockKey = arrayBufferToBase64(crypto.getRandomValues(new Uint8Array(32)));
+  /**
+   * Add a new data key version and make it active. Older keys are retired
+   * but kept for decryption.
+   */
+  const generateKey = useCallback(async (): Promise<string> => {
+    const session = requireSession();
+    const dataKey = await generateDataKey();
     const keyId = generateUUID();
+    const now = new Date().toISOString();
+    const version = Math.max(0, ...session.keyring.keys.map((k) => k.version)) + 1;
+
+    const keyring: StoredKeyring = {
+      ...session.keyring,
+      activeKeyId: keyId,
+      keys: [
+        ...session.keyring.keys.map((k) => (k.retiredAt ? k : { ...k, retiredAt: now })),
+        { keyId, version, ...(await wrapDataKey(dataKey, session.wrappingKey)), createdAt: now, retiredAt: null },
+      ],
+      updatedAt: now,
+    };
 
-    setState((prev) => ({
-      ...prev,
-      encryptionKeyId: keyId,
-    }));
+    session.dataKeys.set(keyId, dataKey);
+    await persistSession(session, keyring);
 
-    return mockKey;
-  }, []);
+    return keyId;
+  }, [requireSession, persistSession]);
 
-  const rotateKey = useCallback(async (): Promise<void> => {
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+  const rotateKey = useCallback(async (reencryptItems: EncryptedData[] = []): Promise<EncryptedData[]> => {
+    await generateKey();
 
-    const newKeyId = await generateKey();
+    const rotated: EncryptedData[] = [];
+    for (const item of reencryptItems) {
+      rotated.push(await reencrypt(item));
+    }
 
-    setState((prev) => ({
-      ...prev,
-      status: {
-        ...prev.status,
-        lastKeyRotation: new Date(),
-        nextKeyRotation: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000),
-      },
-      encryptionKeyId: newKeyId,
-    }));
+    console.log('[Encryption] Key rotated, re-encrypted', rotated.length, 'item(s)');
+    return rotated;
+  }, [generateKey, reencrypt]);
+
+  /**
+   * Export every key version, re-wrapped under a key derived from the
+   * given passphrase so the file is safe to move between devices.
+   */
+  const exportKey = useCallback(async (passphrase: string): Promise<string> => {
+    const session = requireSession();
+    const salt = randomBytes(PBKDF2_SALT_LENGTH);
+    const exportWrappingKey = await deriveKeyFromPassphrase(passphrase, salt, PBKDF2_ITERATIONS);
+
+    const keys: StoredDataKey[] = [];
+    for (const stored of session.keyring.keys) {
+      const wrapped = await wrapDataKey(session.dataKeys.get(stored.keyId), exportWrappingKey);
+      keys.push({ ...stored, ...wrapped });
+    }
 
-    console.log('[Demo] Encryption key rotated');
-  }, [generateKey]);
+    const exported: ExportedKeyring = {
+      format: 'moodmash-keyring',
+      version: 1,
+      keyId: session.keyring.activeKeyId,
+      algorithm: state.status.algorithm,
+      salt: bytesToBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      keys,
+      exportedAt: new Date().toISOString(),
+    };
 
-  const exportKey = useCallback(async (): Promise<string> => {
-    await new Promise((resolve) => setTimeout(resolve, 300));
+    return JSON.stringify(exported);
+  }, [requireSession, state.status.algorithm]);
 
-    // In a real implementation, this would export the actual key
-    const mockExportedKey = arrayBufferToBase64(
-      crypto.getRandomValues(new Uint8Array(32))
-    );
+  const importKey = useCallback(async (keyData: string, passphrase: string): Promise<void> => {
+    const parsed = JSON.parse(keyData) as ExportedKeyring;
+    if (parsed.format !== 'moodmash-keyring' || !Array.isArray(parsed.keys)) {
+      throw new Error('Unrecognised key file');
+    }
 
-    return JSON.stringify({
-      keyId: state.encryptionKeyId,
-      exportedKey: mockExportedKey,
-      algorithm: state.status.algorithm,
-      exportedAt: new Date().toISOString(),
-    });
-  }, [state.encryptionKeyId, state.status.algorithm]);
+    const importWrappingKey = await deriveKeyFromPassphrase(passphrase, base64ToBytes(parsed.salt), parsed.iterations);
+    const imported = new Map<string, CryptoKey>();
+    try {
+      for (const stored of parsed.keys) {
+        imported.set(stored.keyId, await unwrapDataKey(stored, importWrappingKey));
+      }
+    } catch {
+      throw new Error('Incorrect passphrase for this key file');
+    }
 
-  const importKey = useCallback(async (keyData: string): Promise<void> => {
-    await new Promise((resolve) => setTimeout(resolve, 300));
+    const now = new Date().toISOString();
+    const current = sessionRef.current?.userId === userId ? sessionRef.current : null;
+
+    // Locked device: adopt the imported keyring only when there is nothing to
+    // overwrite. Replacing a stored keyring would lose any key versions the
+    // file lacks, and with them every entry sealed under those keys.
+    if (!current) {
+      if (await loadKeyring(userId)) {
+        throw new Error('Unlock this device first so the imported keys can be merged with its own');
+      }
+
+      const keyring: StoredKeyring = {
+        userId,
+        salt: parsed.salt,
+        iterations: parsed.iterations,
+        activeKeyId: parsed.keyId,
+        keys: parsed.keys,
+        updatedAt: now,
+      };
+      await saveKeyring(keyring);
+      sessionRef.current = { userId, wrappingKey: importWrappingKey, keyring, dataKeys: imported };
+      applyKeyring(keyring, true);
+      console.log('[Encryption] Keyring imported');
+      return;
+    }
 
-    const parsed = JSON.parse(keyData);
+    // Unlocked device: merge imported keys under the local passphrase. Keys
+    // are matched by id; each device numbers its own versions, so a new key
+    // whose version is already taken here is numbered after the rest.
+    const merged = new Map(current.keyring.keys.map((k) => [k.keyId, k]));
+    const usedVersions = new Set(current.keyring.keys.map((k) => k.version));
+    for (const stored of [...parsed.keys].sort((a, b) => a.version - b.version)) {
+      if (merged.has(stored.keyId)) continue;
+      const key = imported.get(stored.keyId);
+      const version = usedVersions.has(stored.version) ? Math.max(...usedVersions) + 1 : stored.version;
+      usedVersions.add(version);
+      merged.set(stored.keyId, { ...stored, version, ...(await wrapDataKey(key, current.wrappingKey)) });
+      current.dataKeys.set(stored.keyId, key);
+    }
 
-    setState((prev) => ({
-      ...prev,
-      encryptionKeyId: parsed.keyId,
-    }));
+    const keyring: StoredKeyring = {
+      ...current.keyring,
+      activeKeyId: parsed.keyId,
+      keys: Array.from(merged.values())
+        .map((k) => (k.keyId === parsed.keyId ? { ...k, retiredAt: null } : { ...k, retiredAt: k.retiredAt ?? now }))
+        .sort((a, b) => a.version - b.version),
+      updatedAt: now,
+    };
+    await persistSession(current, keyring);
 
-    console.log('[Demo] Encryption key imported');
-  }, []);
+    console.log('[Encryption] Keys imported and merged');
+  }, [userId, applyKeyring, persistSession]);
 
   // ============================================================================
   // Status
@@ -251,10 +529,14 @@ export function EncryptionProvider({ children }: { children: ReactNode }) {
 
   const value: EncryptionContextType = {
     ...state,
+    createKeyring,
+    unlock,
+    lock,
     encrypt,
     decrypt,
     encryptObject,
     decryptObject,
+    reencrypt,
     generateKey,
     rotateKey,
     exportKey,
@@ -1,5 +1,33 @@
 import { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
-import { MoodEntry, MoodEmotion, MOOD_EMOTIONS } from './MoodContext';
+import { MoodEntry, MoodEmotion, MOOD_EMOTIONS, useMood } from './MoodContext';
+import { useAuth } from './AuthContext';
+import { leaderboardService } from '../services/leaderboards';
+import type { LeaderboardPage, LeaderboardPeriod, LeaderboardScope, LeaderboardService } from '../services/leaderboards';
+import {
+  LOCAL_PROGRESS_KEY,
+  SAVE_VERSION,
+  accountCacheKey,
+  gamificationRemote,
+  getLevelFromXP as levelFromXP,
+  getXPForLevel as xpForLevel,
+  migrateLocalProgress,
+  readLocalProgress,
+  readStreakSettings,
+  saveStreakSettings,
+  sessionPoints,
+} from '../services/gamificationSync';
+import type { GamificationRemote, GamificationSnapshot, PointsTotals } from '../services/gamificationSync';
+import {
+  EMPTY_STREAK,
+  MAX_STREAK_FREEZES,
+  STREAK_FREEZE_PRICE,
+  addFreeze,
+  currentStreak as streakAsOf,
+  localDay,
+  normalizeStreakSettings,
+  recordActivity,
+} from '../lib/streaks';
+import type { StreakEvent, StreakSettings, StreakState } from '../lib/streaks';
 
 // ============================================================================
 // Types
@@ -10,7 +38,9 @@ export interface UserProfile {
   name: string;
   avatar: string;
   level: number;
+  /** Lifetime XP */
   experience: number;
+  /** Spendable points */
   points: number;
   streak: number;
   longestStreak: number;
@@ -72,9 +102,12 @@ export interface WeeklyChallenge {
 
 export interface LeaderboardEntry {
   rank: number;
+  /** Rank over the previous period; null when new to the board */
+  previousRank: number | null;
   userId: string;
   name: string;
   avatar: string;
+  avatarUrl?: string;
   score: number;
   level: number;
   streak: number;
@@ -98,13 +131,19 @@ export interface GamificationContextType {
   // Profile
   profile: UserProfile;
   updateProfile: (updates: Partial<UserProfile>) => void;
-  addExperience: (amount: number) => void;
-  addPoints: (amount: number) => void;
 
   // Streak
   currentStreak: number;
   longestStreak: number;
-  updateStreak: () => void;
+  /** Counts activity at `at` (default now) towards the mood streak; an account counts only today's */
+  updateStreak: (at?: Date) => void;
+  streakFreezes: number;
+  /** Newest first */
+  streakHistory: StreakEvent[];
+  streakSettings: StreakSettings;
+  /** Rejects when points are short or the most freezes are already held */
+  purchaseStreakFreeze: () => Promise<void>;
+  updateStreakSettings: (settings: StreakSettings) => Promise<void>;
 
   // Achievements
   achievements: Achievement[];
@@ -119,9 +158,11 @@ export interface GamificationContextType {
   refreshChallenges: () => void;
 
   // Leaderboard
-  globalLeaderboard: LeaderboardEntry[];
-  friendLeaderboard: LeaderboardEntry[];
-  getUserRank: (score: number) => number;
+  leaderboard: LeaderboardPage | null;
+  leaderboardLoading: boolean;
+  loadLeaderboard: (period: LeaderboardPeriod, page?: number, scope?: LeaderboardScope) => Promise<void>;
+  leaderboardVisible: boolean;
+  setLeaderboardVisible: (visible: boolean) => Promise<void>;
 
   // Sessions
   wellnessSessions: WellnessSession[];
@@ -134,6 +175,8 @@ export interface GamificationContextType {
 
 // ============================================================================
 // Achievement Definitions (40+ Achievements)
+// For progress kept on this device; an account's achievements and their
+// criteria come from achievement_definitions
 // ============================================================================
 
 const ACHIEVEMENTS: Achievement[] = [
@@ -229,30 +272,6 @@ const WEEKLY_CHALLENGE_TEMPLATES = [
   { title: 'Grateful Week', description: 'Log gratitude for 4 days', icon: '🙏', category: 'gratitude', target: 4, xpReward: 150 },
 ];
 
-// ============================================================================
-// Leaderboard Mock Data
-// ============================================================================
-
-const MOCK_LEADERBOARD_USERS = [
-  { id: 'user_1', name: 'Sarah M.', avatar: '👩', score: 15420, level: 45, streak: 89 },
-  { id: 'user_2', name: 'Michael K.', avatar: '👨', score: 14850, level: 42, streak: 67 },
-  { id: 'user_3', name: 'Emma L.', avatar: '👧', score: 13200, level: 38, streak: 45 },
-  { id: 'user_4', name: 'James W.', avatar: '🧔', score: 12100, level: 35, streak: 34 },
-  { id: 'user_5', name: 'Olivia B.', avatar: '👩‍🦰', score: 11500, level: 33, streak: 56 },
-  { id: 'user_6', name: 'William D.', avatar: '👱', score: 10800, level: 31, streak: 28 },
-  { id: 'user_7', name: 'Ava T.', avatar: '👩‍🦱', score: 10200, level: 29, streak: 41 },
-  { id: 'user_8', name: 'Benjamin H.', avatar: '👴', score: 9800, level: 28, streak: 23 },
-  { id: 'user_9', name: 'Sophia R.', avatar: '👩‍🦳', score: 9200, level: 26, streak: 38 },
-  { id: 'user_10', name: 'Lucas N.', avatar: '🧒', score: 8700, level: 25, streak: 19 },
-];
-
-const MOCK_FRIENDS = [
-  { id: 'friend_1', name: 'Alex P.', avatar: '🧑', score: 8900, level: 24, streak: 12 },
-  { id: 'friend_2', name: 'Jordan C.', avatar: '👤', score: 7600, level: 22, streak: 8 },
-  { id: 'friend_3', name: 'Taylor S.', avatar: '🧑‍🦰', score: 6500, level: 19, streak: 15 },
-  { id: 'friend_4', name: 'Casey M.', avatar: '👩‍🦬', score: 5800, level: 17, streak: 5 },
-];
-
 // ============================================================================
 // Context
 // ============================================================================
@@ -263,79 +282,70 @@ const GamificationContext = createContext<GamificationContextType | undefined>(u
 // Provider
 // ============================================================================
 
-export function GamificationProvider({ children }: { children: ReactNode }) {
-  const [profile, setProfile] = useState<UserProfile>({
-    id: 'current_user',
-    name: 'You',
-    avatar: '😊',
-    level: 1,
-    experience: 0,
-    points: 0,
-    streak: 0,
-    longestStreak: 0,
-    totalEntries: 0,
-    totalMinutes: 0,
-    joinedAt: new Date(),
-    lastActiveAt: new Date(),
-  });
-
-  const [achievements, setAchievements] = useState<Achievement[]>(
-    ACHIEVEMENTS.map(a => ({ ...a, unlockedAt: undefined, progress: 0 }))
-  );
+interface GamificationProviderProps {
+  children: ReactNode;
+  leaderboards?: LeaderboardService;
+  /** Account backend; null in demo mode, where progress stays on this device */
+  remote?: GamificationRemote | null;
+}
 
+const createProfile = (): UserProfile => ({
+  id: 'current_user',
+  name: 'You',
+  avatar: '😊',
+  level: 1,
+  experience: 0,
+  points: 0,
+  streak: 0,
+  longestStreak: 0,
+  totalEntries: 0,
+  totalMinutes: 0,
+  joinedAt: new Date(),
+  lastActiveAt: new Date(),
+});
+
+const createAchievements = (): Achievement[] =>
+  ACHIEVEMENTS.map(a => ({ ...a, unlockedAt: undefined, progress: 0 }));
+
+const STREAK_HISTORY_LIMIT = 20;
+
+// Saves from before the streak calculator kept only the count and the time
+// of the last activity
+const legacyStreak = (profile: Partial<UserProfile> | undefined, settings: StreakSettings): StreakState =>
+  profile?.streak
+    ? {
+      current: profile.streak,
+      longest: Math.max(profile.longestStreak ?? 0, profile.streak),
+      lastActiveDay: localDay(new Date(profile.lastActiveAt ?? Date.now()), settings),
+      freezes: 0,
+    }
+    : { ...EMPTY_STREAK, longest: profile?.longestStreak ?? 0 };
+
+export function GamificationProvider({
+  children,
+  leaderboards = leaderboardService,
+  remote = gamificationRemote,
+}: GamificationProviderProps) {
+  const { user } = useAuth();
+  const { entries } = useMood();
+  const userId = user?.id ?? null;
+  // Signed in with a backend: the server owns XP, points, streaks and
+  // unlocks, and local state is a cache of them
+  const account = remote && userId ? userId : null;
+  const storageKey = account ? accountCacheKey(account) : LOCAL_PROGRESS_KEY;
+
+  const [profile, setProfile] = useState<UserProfile>(createProfile);
+  const [achievements, setAchievements] = useState<Achievement[]>(createAchievements);
   const [dailyChallenges, setDailyChallenges] = useState<DailyChallenge[]>([]);
   const [weeklyChallenges, setWeeklyChallenges] = useState<WeeklyChallenge[]>([]);
   const [wellnessSessions, setWellnessSessions] = useState<WellnessSession[]>([]);
-
-  // Load from localStorage on mount
-  useEffect(() => {
-    const saved = localStorage.getItem('moodmash_gamification');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        setProfile(parsed.profile || profile);
-        setAchievements(parsed.achievements || achievements);
-        setDailyChallenges(parsed.dailyChallenges || []);
-        setWeeklyChallenges(parsed.weeklyChallenges || []);
-        setWellnessSessions(parsed.wellnessSessions || []);
-      } catch {
-        console.warn('Failed to load gamification data from localStorage');
-      }
-    } else {
-      // Initialize challenges
-      initializeChallenges();
-    }
-  }, []);
-
-  // Save to localStorage on change
-  useEffect(() => {
-    localStorage.setItem('moodmash_gamification', JSON.stringify({
-      profile,
-      achievements,
-      dailyChallenges,
-      weeklyChallenges,
-      wellnessSessions,
-    }));
-  }, [profile, achievements, dailyChallenges, weeklyChallenges, wellnessSessions]);
-
-  // Check and update streak daily
-  useEffect(() => {
-    const checkStreak = () => {
-      const lastActive = new Date(profile.lastActiveAt);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      lastActive.setHours(0, 0, 0, 0);
-
-      const diffDays = Math.floor((today.getTime() - lastActive.getTime()) / (1000 * 60 * 60 * 24));
-
-      if (diffDays > 1) {
-        // Streak broken
-        setProfile(prev => ({ ...prev, streak: 0 }));
-      }
-    };
-
-    checkStreak();
-  }, [profile.lastActiveAt]);
+  const [streak, setStreak] = useState<StreakState>(EMPTY_STREAK);
+  const [streakHistory, setStreakHistory] = useState<StreakEvent[]>([]);
+  const [streakSettings, setStreakSettings] = useState<StreakSettings>(() => readStreakSettings());
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardPage | null>(null);
+  const [leaderboardLoading, setLeaderboardLoading] = useState(false);
+  const [leaderboardVisible, setVisible] = useState(false);
 
   // Initialize challenges
   const initializeChallenges = useCallback(() => {
@@ -377,77 +387,209 @@ export function GamificationProvider({ children }: { children: ReactNode }) {
     setWeeklyChallenges(weekly);
   }, []);
 
-  // Profile functions
-  const updateProfile = useCallback((updates: Partial<UserProfile>) => {
-    setProfile(prev => ({ ...prev, ...updates, lastActiveAt: new Date() }));
+  // Load this device's progress, or the signed-in account's cache
+  useEffect(() => {
+    const saved = localStorage.getItem(storageKey);
+    let parsed = null;
+    try {
+      parsed = saved ? JSON.parse(saved) : null;
+    } catch {
+      console.warn('Failed to load gamification data from localStorage');
+    }
+
+    if (parsed) {
+      setProfile({ ...createProfile(), ...parsed.profile, experience: readLocalProgress(parsed).experience });
+      setAchievements(parsed.achievements || createAchievements());
+      setDailyChallenges(parsed.dailyChallenges || []);
+      setWeeklyChallenges(parsed.weeklyChallenges || []);
+      setWellnessSessions(parsed.wellnessSessions || []);
+      setStreak(parsed.streak || legacyStreak(parsed.profile, readStreakSettings()));
+      setStreakHistory(parsed.streakHistory || []);
+    } else {
+      setProfile(createProfile());
+      setAchievements(createAchievements());
+      setWellnessSessions([]);
+      setStreak(EMPTY_STREAK);
+      setStreakHistory([]);
+      initializeChallenges();
+    }
+    setLoadedKey(storageKey);
+  }, [storageKey, initializeChallenges]);
+
+  // Save to localStorage on change, once the current key has been loaded
+  useEffect(() => {
+    if (loadedKey !== storageKey) return;
+    localStorage.setItem(storageKey, JSON.stringify({
+      version: SAVE_VERSION,
+      profile,
+      achievements,
+      dailyChallenges,
+      weeklyChallenges,
+      wellnessSessions,
+      streak,
+      streakHistory,
+    }));
+  }, [loadedKey, storageKey, profile, achievements, dailyChallenges, weeklyChallenges, wellnessSessions, streak, streakHistory]);
+
+  const applyTotals = useCallback((totals: PointsTotals) => {
+    setProfile(prev => ({ ...prev, ...totals }));
   }, []);
 
-  const addExperience = useCallback((amount: number) => {
-    setProfile(prev => {
-      const newXP = prev.experience + amount;
-      const { level: newLevel, currentXP } = getLevelFromXP(newXP);
+  const applySnapshot = useCallback((snapshot: GamificationSnapshot) => {
+    setProfile(prev => ({
+      ...prev,
+      points: snapshot.points,
+      experience: snapshot.experience,
+      level: snapshot.level,
+    }));
+    setAchievements(snapshot.achievements);
+    setStreak(snapshot.streak);
+    setStreakHistory(snapshot.streakHistory);
+    setStreakSettings(snapshot.streakSettings);
+    saveStreakSettings(snapshot.streakSettings);
+  }, []);
+
+  const refresh = useCallback(() => {
+    remote?.fetchSnapshot()
+      .then(applySnapshot)
+      .catch((error) => console.warn('[Gamification] Failed to refresh progress:', error));
+  }, [remote, applySnapshot]);
+
+  // Drop optimistic changes the server did not accept
+  const resync = useCallback((error: unknown) => {
+    console.warn('[Gamification] Sync failed:', error);
+    refresh();
+  }, [refresh]);
+
+  // On sign-in, carry over this device's progress once, then adopt the
+  // account's progress
+  useEffect(() => {
+    if (!remote || !account) return;
+    let cancelled = false;
+
+    const sync = async () => {
+      try {
+        await migrateLocalProgress(remote, account);
+      } catch (error) {
+        console.warn('[Gamification] Failed to import local progress:', error);
+      }
+      try {
+        const snapshot = await remote.fetchSnapshot();
+        if (!cancelled) applySnapshot(snapshot);
+      } catch (error) {
+        console.warn('[Gamification] Failed to load progress:', error);
+      }
+    };
+    sync();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [remote, account, applySnapshot]);
 
+  // The server unlocks achievements as moods, sessions and journal entries
+  // arrive; pick up its progress and rewards
+  useEffect(() => {
+    if (!remote || !account) return;
+    return remote.subscribe(refresh);
+  }, [remote, account, refresh]);
+
+  // Show the streak as of today: it lapses once the days missed are more
+  // than the freezes held
+  useEffect(() => {
+    const shown = streakAsOf(streak, new Date(), streakSettings);
+    setProfile(prev => prev.streak === shown && prev.longestStreak === streak.longest
+      ? prev
+      : { ...prev, streak: shown, longestStreak: streak.longest });
+  }, [streak, streakSettings]);
+
+  const applyExperience = useCallback((amount: number) => {
+    setProfile(prev => {
+      const experience = prev.experience + amount;
       return {
         ...prev,
-        experience: currentXP,
-        level: newLevel,
+        experience,
+        level: levelFromXP(experience).level,
         points: prev.points + amount,
         lastActiveAt: new Date(),
       };
     });
   }, []);
 
-  const addPoints = useCallback((amount: number) => {
-    setProfile(prev => ({
-      ...prev,
-      points: prev.points + amount,
-      lastActiveAt: new Date(),
-    }));
+  // Profile functions
+  const updateProfile = useCallback((updates: Partial<UserProfile>) => {
+    setProfile(prev => ({ ...prev, ...updates, lastActiveAt: new Date() }));
   }, []);
 
   // Streak functions
-  const updateStreak = useCallback(() => {
-    setProfile(prev => {
-      const lastActive = new Date(prev.lastActiveAt);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      lastActive.setHours(0, 0, 0, 0);
-
-      const diffDays = Math.floor((today.getTime() - lastActive.getTime()) / (1000 * 60 * 60 * 24));
-
-      if (diffDays === 0) {
-        // Same day, no change
-        return prev;
-      } else if (diffDays === 1) {
-        // Consecutive day, increment streak
-        const newStreak = prev.streak + 1;
-        return {
-          ...prev,
-          streak: newStreak,
-          longestStreak: Math.max(prev.longestStreak, newStreak),
-          lastActiveAt: new Date(),
-        };
-      } else {
-        // Streak broken
-        return {
-          ...prev,
-          streak: 1,
-          lastActiveAt: new Date(),
-        };
+  const updateStreak = useCallback((at: Date = new Date()) => {
+    const update = recordActivity(streak, at, streakSettings);
+    if (update.state === streak) return;
+
+    setStreak(update.state);
+    if (update.events.length > 0) {
+      setStreakHistory(prev => [...[...update.events].reverse(), ...prev].slice(0, STREAK_HISTORY_LIMIT));
+    }
+
+    // The server counts activity as happening now, so only today's is sent
+    if (remote && account && update.state.lastActiveDay === localDay(new Date(), streakSettings)) {
+      remote.recordActivity().then(setStreak).catch(resync);
+    }
+  }, [streak, streakSettings, remote, account, resync]);
+
+  // Each logged mood counts towards the mood streak
+  const latestMoodAt = entries[0]?.createdAt.getTime();
+  useEffect(() => {
+    if (latestMoodAt === undefined || loadedKey !== storageKey) return;
+    updateStreak(new Date(latestMoodAt));
+  }, [latestMoodAt, loadedKey, storageKey, updateStreak]);
+
+  const purchaseStreakFreeze = useCallback(async () => {
+    if (profile.points < STREAK_FREEZE_PRICE) {
+      throw new Error(`A streak freeze costs ${STREAK_FREEZE_PRICE} points`);
+    }
+    const update = addFreeze(streak, new Date(), streakSettings);
+    if (!update) {
+      throw new Error(`You can hold up to ${MAX_STREAK_FREEZES} streak freezes`);
+    }
+
+    if (remote && account) {
+      try {
+        setStreak(await remote.purchaseStreakFreeze());
+      } finally {
+        // The new balance and history entry
+        refresh();
       }
-    });
-  }, []);
+      return;
+    }
+
+    setStreak(update.state);
+    setStreakHistory(prev => [...update.events, ...prev].slice(0, STREAK_HISTORY_LIMIT));
+    setProfile(prev => ({ ...prev, points: prev.points - STREAK_FREEZE_PRICE }));
+  }, [profile.points, streak, streakSettings, remote, account, refresh]);
+
+  const updateStreakSettings = useCallback(async (settings: StreakSettings) => {
+    const next = normalizeStreakSettings(settings);
+    setStreakSettings(next);
+    saveStreakSettings(next);
+    if (remote && account) {
+      await remote.saveStreakSettings(next);
+    }
+  }, [remote, account]);
 
-  // Achievement functions
+  // Achievement functions. On an account these are decided by the server,
+  // so only demo and signed-out progress is unlocked here
   const unlockAchievement = useCallback((achievementId: string) => {
-    setAchievements(prev => prev.map(ach => {
-      if (ach.id === achievementId && !ach.unlockedAt) {
-        addExperience(ach.xpReward);
-        return { ...ach, unlockedAt: new Date() };
-      }
-      return ach;
-    }));
-  }, [addExperience]);
+    if (account) return;
+    const achievement = achievements.find(ach => ach.id === achievementId);
+    if (!achievement || achievement.unlockedAt) return;
+
+    setAchievements(prev => prev.map(ach =>
+      ach.id === achievementId && !ach.unlockedAt ? { ...ach, unlockedAt: new Date() } : ach
+    ));
+
+    applyExperience(achievement.xpReward);
+  }, [account, achievements, applyExperience]);
 
   const getAchievementProgress = useCallback((achievementId: string) => {
     const achievement = achievements.find(a => a.id === achievementId);
@@ -455,6 +597,7 @@ export function GamificationProvider({ children }: { children: ReactNode }) {
   }, [achievements]);
 
   const checkAndUnlockAchievements = useCallback((entry?: MoodEntry) => {
+    if (account) return;
     // Update achievement progress based on current state
     setAchievements(prev => {
       const updated = prev.map(ach => {
@@ -507,68 +650,80 @@ export function GamificationProvider({ children }: { children: ReactNode }) {
 
       return updated;
     });
-  }, [profile, wellnessSessions, unlockAchievement]);
+  }, [account, profile, wellnessSessions, unlockAchievement]);
 
   // Challenge functions
   const completeChallenge = useCallback((challengeId: string, isDaily: boolean) => {
+    const challenge = (isDaily ? dailyChallenges : weeklyChallenges).find(ch => ch.id === challengeId);
+    if (!challenge || challenge.completed) return;
+
+    const newProgress = Math.min(challenge.current + 1, challenge.target);
+    const completed = newProgress >= challenge.target;
+
     if (isDaily) {
-      setDailyChallenges(prev => prev.map(ch => {
-        if (ch.id === challengeId && !ch.completed) {
-          const newProgress = Math.min(ch.current + 1, ch.target);
-          const completed = newProgress >= ch.target;
-          if (completed) {
-            addExperience(ch.xpReward);
-          }
-          return { ...ch, current: newProgress, completed };
-        }
-        return ch;
-      }));
+      setDailyChallenges(prev => prev.map(ch =>
+        ch.id === challengeId ? { ...ch, current: newProgress, completed } : ch
+      ));
     } else {
-      setWeeklyChallenges(prev => prev.map(ch => {
-        if (ch.id === challengeId && !ch.completed) {
-          const newProgress = Math.min(ch.current + 1, ch.target);
-          const progressPercent = (newProgress / ch.target) * 100;
-          const completed = newProgress >= ch.target;
-          if (completed) {
-            addExperience(ch.xpReward);
-          }
-          return { ...ch, current: newProgress, progress: progressPercent, completed };
-        }
-        return ch;
-      }));
+      const progressPercent = (newProgress / challenge.target) * 100;
+      setWeeklyChallenges(prev => prev.map(ch =>
+        ch.id === challengeId ? { ...ch, current: newProgress, progress: progressPercent, completed } : ch
+      ));
+    }
+
+    // These challenges are drawn on this device, so the server has nothing
+    // to check them against and an account is not paid for them
+    if (completed && !account) {
+      applyExperience(challenge.xpReward);
     }
-  }, [addExperience]);
+  }, [dailyChallenges, weeklyChallenges, account, applyExperience]);
 
   const refreshChallenges = useCallback(() => {
     initializeChallenges();
   }, [initializeChallenges]);
 
   // Leaderboard functions
-  const globalLeaderboard: LeaderboardEntry[] = MOCK_LEADERBOARD_USERS.map((user, index) => ({
-    ...user,
-    userId: user.id,
-    rank: index + 1,
-    isFriend: false,
-    isCurrentUser: user.id === profile.id,
-  }));
-
-  const friendLeaderboard: LeaderboardEntry[] = MOCK_FRIENDS.map((user, index) => ({
-    ...user,
-    userId: user.id,
-    rank: index + 1,
-    isFriend: true,
-    isCurrentUser: user.id === profile.id,
-  }));
-
-  const getUserRank = useCallback((score: number) => {
-    const allUsers = [...MOCK_LEADERBOARD_USERS, ...MOCK_FRIENDS, { id: profile.id, score }];
-    const sorted = allUsers.sort((a, b) => b.score - a.score);
-    return sorted.findIndex(u => u.id === profile.id) + 1;
-  }, [profile.id]);
+  const loadLeaderboard = useCallback(async (period: LeaderboardPeriod, page = 1, scope: LeaderboardScope = 'global') => {
+    setLeaderboardLoading(true);
+    try {
+      setLeaderboard(await leaderboards.getPage(period, page, userId, scope));
+    } catch (error) {
+      console.warn('[Gamification] Failed to load leaderboard:', error);
+    } finally {
+      setLeaderboardLoading(false);
+    }
+  }, [leaderboards, userId]);
+
+  useEffect(() => {
+    setLeaderboard(null);
+    if (!userId) {
+      setVisible(false);
+      return;
+    }
+
+    let cancelled = false;
+    leaderboards.getVisibility(userId)
+      .then((visible) => {
+        if (!cancelled) setVisible(visible);
+      })
+      .catch((error) => {
+        console.warn('[Gamification] Failed to load leaderboard visibility:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [leaderboards, userId]);
+
+  const setLeaderboardVisible = useCallback(async (visible: boolean) => {
+    if (!userId) return;
+    await leaderboards.setVisibility(userId, visible);
+    setVisible(visible);
+  }, [leaderboards, userId]);
 
   // Session functions
   const logSession = useCallback((session: Omit<WellnessSession, 'id' | 'completedAt' | 'xpEarned'>) => {
-    const xpEarned = Math.round(session.duration * 2); // 2 XP per minute
+    const xpEarned = sessionPoints(session.duration);
 
     const newSession: WellnessSession = {
       ...session,
@@ -578,46 +733,35 @@ export function GamificationProvider({ children }: { children: ReactNode }) {
     };
 
     setWellnessSessions(prev => [newSession, ...prev]);
-    addExperience(xpEarned);
-    addPoints(xpEarned);
+    // Optimistic XP; the server's totals replace it once the session is paid
+    applyExperience(xpEarned);
+    if (remote && account) {
+      remote.logSession(session).then(applyTotals).catch(resync);
+    }
 
     // Update total minutes
     setProfile(prev => ({
       ...prev,
       totalMinutes: prev.totalMinutes + session.duration,
     }));
-  }, [addExperience, addPoints]);
+  }, [applyExperience, remote, account, applyTotals, resync]);
 
   // Level functions
-  const getXPForLevel = useCallback((level: number) => {
-    // XP formula: 100 * level^1.5
-    return Math.floor(100 * Math.pow(level, 1.5));
-  }, []);
-
-  const getLevelFromXP = useCallback((xp: number) => {
-    let level = 1;
-    let requiredXP = getXPForLevel(level);
-    let currentXP = xp;
-
-    while (currentXP >= requiredXP) {
-      currentXP -= requiredXP;
-      level++;
-      requiredXP = getXPForLevel(level);
-    }
-
-    const progress = (currentXP / requiredXP) * 100;
+  const getXPForLevel = useCallback((level: number) => xpForLevel(level), []);
 
-    return { level, currentXP, requiredXP, progress };
-  }, [getXPForLevel]);
+  const getLevelFromXP = useCallback((xp: number) => levelFromXP(xp), []);
 
   const value: GamificationContextType = {
     profile,
     updateProfile,
-    addExperience,
-    addPoints,
     currentStreak: profile.streak,
     longestStreak: profile.longestStreak,
     updateStreak,
+    streakFreezes: streak.freezes,
+    streakHistory,
+    streakSettings,
+    purchaseStreakFreeze,
+    updateStreakSettings,
     achievements,
     unlockAchievement,
     getAchievementProgress,
@@ -626,9 +770,11 @@ export function GamificationProvider({ children }: { children: ReactNode }) {
     weeklyChallenges,
     completeChallenge,
     refreshChallenges,
-    globalLeaderboard,
-    friendLeaderboard,
-    getUserRank,
+    leaderboard,
+    leaderboardLoading,
+    loadLeaderboard,
+    leaderboardVisible,
+    setLeaderboardVisible,
     wellnessSessions,
     logSession,
     getLevelFromXP,
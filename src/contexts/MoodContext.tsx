@@ -1,4 +1,12 @@
-import { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useCallback, useEffect, useMemo, useRef, ReactNode } from 'react';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { LOCAL_ENTRIES_KEY, MoodSyncEngine, SupabaseMoodRemote, accountEntriesKey } from '../services/moodSync';
+import type { SyncRecord, SyncStatus } from '../services/moodSync';
+import { screenForRisk } from '../services/riskDetection';
+import { onFieldCipherChange } from '../lib/fieldEncryption';
+import { readStreakSettings } from '../services/gamificationSync';
+import { streakFromActivity } from '../lib/streaks';
+import { useAuth } from './AuthContext';
 
 // ============================================================================
 // Types
@@ -52,6 +60,8 @@ export interface MoodContextType {
   addEntry: (entry: Omit<MoodEntry, 'id' | 'createdAt' | 'updatedAt'>) => void;
   updateEntry: (id: string, updates: Partial<Omit<MoodEntry, 'id' | 'createdAt'>>) => void;
   deleteEntry: (id: string) => void;
+  /** Add entries from a file, keeping their original dates */
+  importEntries: (entries: Omit<MoodEntry, 'id' | 'updatedAt'>[]) => MoodEntry[];
   getEntryById: (id: string) => MoodEntry | undefined;
 
   // Statistics
@@ -66,6 +76,12 @@ export interface MoodContextType {
   // Utility
   clearAllEntries: () => void;
   exportData: () => string;
+
+  // Sync
+  syncEnabled: boolean;
+  syncStatus: SyncStatus;
+  syncNow: () => Promise<void>;
+  acknowledgeSyncConflicts: () => void;
 }
 
 // ============================================================================
@@ -127,6 +143,58 @@ export const COMMON_TAGS = [
   'Stress', 'Achievement', 'Relationships', 'Money', 'Weather'
 ];
 
+// ============================================================================
+// Sync Helpers
+// ============================================================================
+
+const LOCAL_ONLY_STATUS: SyncStatus = {
+  state: 'idle',
+  pendingCount: 0,
+  lastSyncedAt: null,
+  conflicts: [],
+};
+
+function toSyncRecord(entry: MoodEntry): SyncRecord {
+  return {
+    id: entry.id,
+    emotion: entry.emotion,
+    intensity: entry.intensity,
+    note: entry.note,
+    tags: entry.tags,
+    privacy: entry.privacy,
+    createdAt: entry.createdAt.toISOString(),
+    updatedAt: entry.updatedAt.toISOString(),
+  };
+}
+
+function readEntries(storageKey: string): MoodEntry[] {
+  const saved = localStorage.getItem(storageKey);
+  if (!saved) return [];
+  try {
+    return JSON.parse(saved).map((entry: MoodEntry) => ({
+      ...entry,
+      createdAt: new Date(entry.createdAt),
+      updatedAt: new Date(entry.updatedAt),
+    }));
+  } catch {
+    console.warn('Failed to load mood entries from localStorage');
+    return [];
+  }
+}
+
+function fromSyncRecord(record: SyncRecord): MoodEntry {
+  return {
+    id: record.id,
+    emotion: record.emotion as MoodEmotion,
+    intensity: record.intensity as MoodIntensity,
+    note: record.note,
+    tags: record.tags,
+    privacy: record.privacy as PrivacyLevel,
+    createdAt: new Date(record.createdAt),
+    updatedAt: new Date(record.updatedAt),
+  };
+}
+
 // ============================================================================
 // Context
 // ============================================================================
@@ -138,29 +206,105 @@ const MoodContext = createContext<MoodContextType | undefined>(undefined);
 // ============================================================================
 
 export function MoodProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  // Sync is only active for a signed-in user of a configured Supabase project
+  const account = isSupabaseConfigured() && user ? user.id : null;
+  const storageKey = account ? accountEntriesKey(account) : LOCAL_ENTRIES_KEY;
+
   const [entries, setEntries] = useState<MoodEntry[]>([]);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const entriesRef = useRef<MoodEntry[]>(entries);
+  entriesRef.current = entries;
+
+  const syncEngine = useMemo(
+    () => (account ? new MoodSyncEngine({ remote: new SupabaseMoodRemote(account), userId: account }) : null),
+    [account]
+  );
+  const syncEngineRef = useRef(syncEngine);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>(
+    () => syncEngine?.getStatus() ?? LOCAL_ONLY_STATUS
+  );
 
-  // Load from localStorage on mount
   useEffect(() => {
-    const saved = localStorage.getItem('moodmash_entries');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        setEntries(parsed.map((entry: MoodEntry) => ({
-          ...entry,
-          createdAt: new Date(entry.createdAt),
-          updatedAt: new Date(entry.updatedAt),
-        })));
-      } catch {
-        console.warn('Failed to load mood entries from localStorage');
-      }
+    setSyncStatus(syncEngine?.getStatus() ?? LOCAL_ONLY_STATUS);
+    if (!syncEngine) return;
+    return syncEngine.subscribe(setSyncStatus);
+  }, [syncEngine]);
+
+  // Signing out, or in as someone else, drops the previous account's queued
+  // work so none of it is pushed under another account
+  useEffect(() => {
+    const previous = syncEngineRef.current;
+    syncEngineRef.current = syncEngine;
+    if (previous && previous !== syncEngine) {
+      previous.reset();
     }
-  }, []);
+  }, [syncEngine]);
+
+  // Adopt server-confirmed records (server timestamps win after a push)
+  const applyConfirmed = useCallback((records: SyncRecord[]) => {
+    if (records.length === 0 || syncEngineRef.current !== syncEngine) return;
+    const confirmed = new Map(records.map((record) => [record.id, fromSyncRecord(record)]));
+    setEntries((prev) => prev.map((entry) => confirmed.get(entry.id) ?? entry));
+  }, [syncEngine]);
+
+  const reconcile = useCallback(async (localEntries: MoodEntry[]) => {
+    if (!syncEngine) return;
+    const snapshotIds = new Set(localEntries.map((entry) => entry.id));
+    const merged = await syncEngine.reconcile(localEntries.map(toSyncRecord));
+    // The account changed while this was in flight
+    if (syncEngineRef.current !== syncEngine) return;
+    const mergedEntries = merged.map(fromSyncRecord);
+    const mergedIds = new Set(mergedEntries.map((entry) => entry.id));
+
+    // Keep entries created locally while the reconcile was in flight
+    setEntries((prev) => [
+      ...prev.filter((entry) => !snapshotIds.has(entry.id) && !mergedIds.has(entry.id)),
+      ...mergedEntries,
+    ]);
+  }, [syncEngine]);
+
+  const pushChanges = useCallback(() => {
+    if (!syncEngine) return;
+    syncEngine.flush().then(applyConfirmed).catch((error) => {
+      console.error('[Mood] Sync push failed:', error);
+    });
+  }, [syncEngine, applyConfirmed]);
 
-  // Save to localStorage on change
+  // Load this device's entries, or the signed-in account's cache, and
+  // reconcile the account's with the server once auth is known
   useEffect(() => {
-    localStorage.setItem('moodmash_entries', JSON.stringify(entries));
-  }, [entries]);
+    const loaded = readEntries(storageKey);
+    setEntries(loaded);
+    setLoadedKey(storageKey);
+    reconcile(loaded);
+  }, [storageKey, reconcile]);
+
+  // Reconcile whenever the browser comes back online
+  useEffect(() => {
+    if (!syncEngine) return;
+    const handleOnline = () => {
+      reconcile(entriesRef.current);
+    };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [syncEngine, reconcile]);
+
+  // A sync deferred while encryption was locked can run once it unlocks
+  useEffect(() => {
+    if (!syncEngine) return;
+    return onFieldCipherChange((ready) => {
+      if (ready && syncEngine.getStatus().locked) {
+        reconcile(entriesRef.current);
+      }
+    });
+  }, [syncEngine, reconcile]);
+
+  // Save to localStorage on change, once the current key has been loaded
+  useEffect(() => {
+    if (loadedKey !== storageKey) return;
+    localStorage.setItem(storageKey, JSON.stringify(entries));
+  }, [entries, loadedKey, storageKey]);
 
   const generateUUID = useCallback(() => {
     return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c: string): string => {
@@ -178,22 +322,41 @@ export function MoodProvider({ children }: { children: ReactNode }) {
       createdAt: now,
       updatedAt: now,
     };
+    screenForRisk(newEntry.note, 'mood_note');
     setEntries((prev) => [newEntry, ...prev]);
-  }, [generateUUID]);
+    syncEngine?.enqueue('create', newEntry.id, toSyncRecord(newEntry));
+    pushChanges();
+  }, [generateUUID, syncEngine, pushChanges]);
 
   const updateEntry = useCallback((id: string, updates: Partial<Omit<MoodEntry, 'id' | 'createdAt'>>) => {
-    setEntries((prev) =>
-      prev.map((entry) =>
-        entry.id === id
-          ? { ...entry, ...updates, updatedAt: new Date() }
-          : entry
-      )
-    );
-  }, []);
+    const existing = entriesRef.current.find((entry) => entry.id === id);
+    if (!existing) return;
+
+    const updated: MoodEntry = { ...existing, ...updates, updatedAt: new Date() };
+    if (updates.note !== undefined && updates.note !== existing.note) screenForRisk(updates.note, 'mood_note');
+    setEntries((prev) => prev.map((entry) => (entry.id === id ? updated : entry)));
+    syncEngine?.enqueue('update', id, toSyncRecord(updated));
+    pushChanges();
+  }, [syncEngine, pushChanges]);
+
+  // Imported notes are history, not something happening now, so they skip
+  // the risk screen that new entries go through
+  const importEntries = useCallback((imported: Omit<MoodEntry, 'id' | 'updatedAt'>[]) => {
+    const now = new Date();
+    const newEntries = imported.map((entry): MoodEntry => ({ ...entry, id: generateUUID(), updatedAt: now }));
+    if (newEntries.length === 0) return newEntries;
+
+    setEntries((prev) => [...newEntries, ...prev].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+    newEntries.forEach((entry) => syncEngine?.enqueue('create', entry.id, toSyncRecord(entry)));
+    pushChanges();
+    return newEntries;
+  }, [generateUUID, syncEngine, pushChanges]);
 
   const deleteEntry = useCallback((id: string) => {
     setEntries((prev) => prev.filter((entry) => entry.id !== id));
-  }, []);
+    syncEngine?.enqueue('delete', id);
+    pushChanges();
+  }, [syncEngine, pushChanges]);
 
   const getEntryById = useCallback((id: string) => {
     return entries.find((entry) => entry.id === id);
@@ -315,28 +478,11 @@ export function MoodProvider({ children }: { children: ReactNode }) {
     }
 
     // Calculate streak
-    let streak = 0;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    for (let i = 0; i < 365; i++) {
-      const checkDate = new Date(today);
-      checkDate.setDate(checkDate.getDate() - i);
-      const dayStart = new Date(checkDate);
-      dayStart.setHours(0, 0, 0, 0);
-      const dayEnd = new Date(checkDate);
-      dayEnd.setHours(23, 59, 59, 999);
-
-      const dayEntries = entries.filter(
-        (entry) => entry.createdAt >= dayStart && entry.createdAt <= dayEnd
-      );
-
-      if (dayEntries.length > 0) {
-        streak++;
-      } else if (i > 0) {
-        break;
-      }
-    }
+    const { current: streak } = streakFromActivity(
+      entries.map((entry) => entry.createdAt),
+      now,
+      readStreakSettings()
+    );
 
     return {
       totalEntries: rangeEntries.length,
@@ -362,18 +508,29 @@ export function MoodProvider({ children }: { children: ReactNode }) {
     .map(([emotion]) => emotion as MoodEmotion);
 
   const clearAllEntries = useCallback(() => {
+    entriesRef.current.forEach((entry) => syncEngine?.enqueue('delete', entry.id));
     setEntries([]);
-  }, []);
+    pushChanges();
+  }, [syncEngine, pushChanges]);
 
   const exportData = useCallback(() => {
     return JSON.stringify(entries, null, 2);
   }, [entries]);
 
+  const syncNow = useCallback(async () => {
+    await reconcile(entriesRef.current);
+  }, [reconcile]);
+
+  const acknowledgeSyncConflicts = useCallback(() => {
+    syncEngine?.acknowledgeConflicts();
+  }, [syncEngine]);
+
   const value: MoodContextType = {
     entries,
     addEntry,
     updateEntry,
     deleteEntry,
+    importEntries,
     getEntryById,
     getStatistics,
     getEntriesByDate,
@@ -382,6 +539,10 @@ export function MoodProvider({ children }: { children: ReactNode }) {
     commonEmotions,
     clearAllEntries,
     exportData,
+    syncEnabled: syncEngine !== null,
+    syncStatus,
+    syncNow,
+    acknowledgeSyncConflicts,
   };
 
   return <MoodContext.Provider value={value}>{children}</MoodContext.Provider>;
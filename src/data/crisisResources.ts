@@ -0,0 +1,250 @@
+// Crisis Resources Data - Risk phrases and helplines for every supported locale
+// Phrase lists are matched after normalization (lowercase, accents and Arabic
+// diacritics stripped), so entries are written without diacritics where it matters.
+// Helpline numbers must be re-verified whenever this file changes.
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CrisisPhraseList {
+  /** Explicit intent or plan: always interrupts the flow */
+  high: string[];
+  /** Hopelessness and self-harm adjacent language */
+  moderate: string[];
+}
+
+export interface Helpline {
+  name: string;
+  phone?: string;
+  text?: string;
+  url?: string;
+  country: string;
+}
+
+export interface LocaleCrisisResources {
+  helplines: Helpline[];
+  emergencyNumber: string;
+  /** Shown by the chatbot in place of a normal reply */
+  chatReply: string;
+}
+
+// ============================================================================
+// Phrase Lists
+// ============================================================================
+
+export const CRISIS_PHRASES: Record<string, CrisisPhraseList> = {
+  en: {
+    high: [
+      'kill myself', 'end my life', 'take my own life', 'suicidal', 'commit suicide', 'want to die',
+      'better off dead', "don't want to live", 'dont want to live', 'no reason to live',
+      'hurt myself', 'harm myself', 'self harm', 'self-harm', 'cut myself', 'overdose',
+    ],
+    moderate: [
+      'suicide', 'hopeless', "can't go on", 'cant go on', 'no way out', 'nobody would miss me',
+      'disappear forever', "can't take it anymore", 'cant take it anymore', 'give up on everything',
+    ],
+  },
+  es: {
+    high: [
+      'suicidarme', 'quiero morir', 'quitarme la vida', 'matarme', 'acabar con mi vida',
+      'no quiero vivir', 'hacerme dano', 'autolesion', 'cortarme',
+    ],
+    moderate: ['suicidio', 'sin esperanza', 'no puedo mas', 'no hay salida', 'nadie me extranaria', 'desaparecer para siempre'],
+  },
+  fr: {
+    high: [
+      'me suicider', 'suicidaire', 'envie de mourir', 'me tuer', 'mettre fin a mes jours',
+      'en finir avec la vie', 'me faire du mal', 'me mutiler', 'veux mourir',
+    ],
+    moderate: ['suicide', 'sans espoir', "je n'en peux plus", 'aucune issue', 'personne ne me regretterait', 'disparaitre pour toujours'],
+  },
+  de: {
+    high: [
+      'mich umbringen', 'will sterben', 'mein leben beenden', 'nicht mehr leben', 'mir das leben nehmen',
+      'mich selbst verletzen', 'mich ritzen', 'suizidgedanken', 'selbstmordgedanken',
+    ],
+    moderate: ['selbstmord', 'suizid', 'hoffnungslos', 'keinen ausweg', 'ich kann nicht mehr', 'niemand wurde mich vermissen'],
+  },
+  it: {
+    high: [
+      'uccidermi', 'suicidarmi', 'voglio morire', 'togliermi la vita', 'farla finita',
+      'non voglio piu vivere', 'farmi del male', 'tagliarmi',
+    ],
+    moderate: ['suicidio', 'senza speranza', 'non ce la faccio piu', "nessuna via d'uscita", 'nessuno sentirebbe la mia mancanza'],
+  },
+  pt: {
+    high: [
+      'me matar', 'suicidar', 'quero morrer', 'tirar minha vida', 'tirar a minha vida', 'acabar com minha vida',
+      'nao quero mais viver', 'me machucar', 'me cortar', 'automutilacao',
+    ],
+    moderate: ['suicidio', 'sem esperanca', 'nao aguento mais', 'sem saida', 'ninguem sentiria minha falta'],
+  },
+  ru: {
+    high: [
+      'покончить с собой', 'убить себя', 'хочу умереть', 'не хочу жить', 'свести счеты с жизнью',
+      'причинить себе вред', 'порезать себя', 'суицидальные мысли',
+    ],
+    moderate: ['суицид', 'самоубийство', 'безнадежно', 'нет выхода', 'больше не могу', 'никто не будет скучать'],
+  },
+  zh: {
+    high: ['自杀', '想死', '不想活', '结束生命', '结束自己的生命', '伤害自己', '割腕', '自殺', '不想活了'],
+    moderate: ['没有希望', '绝望', '活着没意思', '撑不下去', '没有出路'],
+  },
+  ja: {
+    high: ['死にたい', '自殺', '命を絶ちたい', '生きていたくない', '自傷', 'リストカット', '消えてしまいたい'],
+    moderate: ['消えたい', '絶望', 'もう限界', '希望がない', '生きる意味がない'],
+  },
+  ko: {
+    high: ['자살', '죽고 싶', '죽고싶', '목숨을 끊', '살고 싶지 않', '살고싶지 않', '자해'],
+    moderate: ['희망이 없', '절망', '더 이상 못 버티', '사라지고 싶', '살 이유가 없'],
+  },
+  hi: {
+    high: [
+      'आत्महत्या', 'खुदकुशी', 'मरना चाहता', 'मरना चाहती', 'जीना नहीं चाहता', 'जीना नहीं चाहती',
+      'खुद को नुकसान', 'अपनी जान ले',
+    ],
+    moderate: ['कोई उम्मीद नहीं', 'निराश', 'अब और नहीं सह सकता', 'अब और नहीं सह सकती', 'कोई रास्ता नहीं'],
+  },
+  ta: {
+    high: ['தற்கொலை', 'சாக விரும்புகிறேன்', 'சாகணும்', 'வாழ விரும்பவில்லை', 'என்னை நானே காயப்படுத்த'],
+    moderate: ['நம்பிக்கை இல்லை', 'வழி இல்லை', 'தாங்க முடியவில்லை'],
+  },
+  bn: {
+    high: ['আত্মহত্যা', 'মরে যেতে চাই', 'মরতে চাই', 'বাঁচতে চাই না', 'নিজেকে আঘাত', 'নিজেকে শেষ করে'],
+    moderate: ['কোনো আশা নেই', 'হতাশ', 'আর পারছি না', 'কোনো উপায় নেই'],
+  },
+  ar: {
+    high: ['انتحار', 'الانتحار', 'اقتل نفسي', 'اريد ان اموت', 'لا اريد ان اعيش', 'ايذاء نفسي', 'انهي حياتي'],
+    moderate: ['لا امل', 'يائس', 'لا مخرج', 'لم اعد احتمل'],
+  },
+  he: {
+    high: ['להתאבד', 'התאבדות', 'רוצה למות', 'לשים קץ לחיי', 'לא רוצה לחיות', 'לפגוע בעצמי'],
+    moderate: ['אין תקווה', 'אין מוצא', 'לא יכול יותר', 'לא יכולה יותר', 'אף אחד לא יתגעגע'],
+  },
+};
+
+// ============================================================================
+// Helplines
+// ============================================================================
+
+/**
+ * Directory covering countries we do not list explicitly.
+ */
+export const INTERNATIONAL_HELPLINE: Helpline = {
+  name: 'Find A Helpline',
+  url: 'https://findahelpline.com',
+  country: 'International',
+};
+
+export const CRISIS_RESOURCES: Record<string, LocaleCrisisResources> = {
+  en: {
+    helplines: [
+      { name: '988 Suicide & Crisis Lifeline', phone: '988', text: '988', url: 'https://988lifeline.org', country: 'US' },
+      { name: 'Samaritans', phone: '116 123', url: 'https://www.samaritans.org', country: 'UK & Ireland' },
+    ],
+    emergencyNumber: '911 / 999 / 112',
+    chatReply: "I'm really sorry you're feeling this way. You don't have to go through this alone. Please reach out to a crisis line now; they are free, confidential and available around the clock. If you are in immediate danger, call your local emergency number.",
+  },
+  es: {
+    helplines: [
+      { name: 'Línea 024 de atención a la conducta suicida', phone: '024', country: 'España' },
+      { name: 'Línea de la Vida', phone: '800 911 2000', country: 'México' },
+    ],
+    emergencyNumber: '112 / 911',
+    chatReply: 'Siento mucho que te sientas así. No tienes que pasar por esto a solas. Por favor, contacta ahora con una línea de ayuda; es gratuita y confidencial. Si estás en peligro inmediato, llama al número de emergencias.',
+  },
+  fr: {
+    helplines: [
+      { name: 'Numéro national de prévention du suicide', phone: '3114', url: 'https://3114.fr', country: 'France' },
+    ],
+    emergencyNumber: '112 / 15',
+    chatReply: "Je suis vraiment désolé que tu te sentes ainsi. Tu n'as pas à traverser cela seul. Contacte dès maintenant une ligne d'écoute, gratuite et confidentielle. En cas de danger immédiat, appelle les urgences.",
+  },
+  de: {
+    helplines: [
+      { name: 'TelefonSeelsorge', phone: '0800 111 0 111', url: 'https://www.telefonseelsorge.de', country: 'Deutschland' },
+    ],
+    emergencyNumber: '112',
+    chatReply: 'Es tut mir sehr leid, dass es dir so geht. Du musst das nicht allein durchstehen. Bitte wende dich jetzt an ein Krisentelefon, kostenlos, anonym und rund um die Uhr. Bei akuter Gefahr wähle den Notruf.',
+  },
+  it: {
+    helplines: [
+      { name: 'Telefono Amico Italia', phone: '02 2327 2327', url: 'https://www.telefonoamico.it', country: 'Italia' },
+    ],
+    emergencyNumber: '112',
+    chatReply: 'Mi dispiace davvero che tu ti senta così. Non devi affrontarlo da solo. Contatta ora una linea di ascolto: è gratuita e riservata. Se sei in pericolo immediato, chiama il numero di emergenza.',
+  },
+  pt: {
+    helplines: [
+      { name: 'CVV - Centro de Valorização da Vida', phone: '188', url: 'https://cvv.org.br', country: 'Brasil' },
+      { name: 'SOS Voz Amiga', phone: '213 544 545', country: 'Portugal' },
+    ],
+    emergencyNumber: '192 / 112',
+    chatReply: 'Sinto muito que você esteja se sentindo assim. Você não precisa passar por isso sozinho. Procure agora uma linha de apoio, gratuita e sigilosa. Se estiver em perigo imediato, ligue para a emergência.',
+  },
+  ru: {
+    helplines: [
+      { name: 'Телефон доверия экстренной психологической помощи МЧС', phone: '+7 495 989-50-50', country: 'Россия' },
+    ],
+    emergencyNumber: '112',
+    chatReply: 'Мне очень жаль, что вам так тяжело. Вы не должны проходить через это в одиночку. Пожалуйста, обратитесь сейчас на телефон доверия. Если вы в непосредственной опасности, звоните 112.',
+  },
+  zh: {
+    helplines: [
+      { name: '北京心理危机研究与干预中心', phone: '010-82951332', country: '中国' },
+      { name: '生命线', phone: '1995', country: '台湾' },
+    ],
+    emergencyNumber: '120 / 110',
+    chatReply: '很抱歉你正在经历这些。你不必独自面对。请现在就联系心理援助热线，它们是免费且保密的。如果你处于紧急危险中，请立即拨打急救电话。',
+  },
+  ja: {
+    helplines: [
+      { name: 'いのちの電話', phone: '0570-783-556', url: 'https://www.inochinodenwa.org', country: '日本' },
+    ],
+    emergencyNumber: '119 / 110',
+    chatReply: 'そんな気持ちでいるのはとてもつらいことですね。一人で抱え込まないでください。今すぐ相談窓口に連絡してください。無料で秘密は守られます。差し迫った危険がある場合は119に電話してください。',
+  },
+  ko: {
+    helplines: [
+      { name: '자살예방 상담전화', phone: '109', country: '대한민국' },
+    ],
+    emergencyNumber: '119 / 112',
+    chatReply: '그렇게 느끼고 있다니 정말 마음이 아픕니다. 혼자 견디지 않아도 됩니다. 지금 바로 상담전화에 연락해 주세요. 무료이며 비밀이 보장됩니다. 즉각적인 위험이 있다면 119에 전화하세요.',
+  },
+  hi: {
+    helplines: [
+      { name: 'Tele-MANAS', phone: '14416', url: 'https://telemanas.mohfw.gov.in', country: 'भारत' },
+    ],
+    emergencyNumber: '112',
+    chatReply: 'मुझे बहुत दुख है कि आप ऐसा महसूस कर रहे हैं। आपको इससे अकेले नहीं गुजरना है। कृपया अभी किसी हेल्पलाइन से संपर्क करें, यह मुफ़्त और गोपनीय है। अगर आप तुरंत खतरे में हैं, तो 112 पर कॉल करें।',
+  },
+  ta: {
+    helplines: [
+      { name: 'Tele-MANAS', phone: '14416', url: 'https://telemanas.mohfw.gov.in', country: 'இந்தியா' },
+      { name: 'CCCline', phone: '1333', country: 'இலங்கை' },
+    ],
+    emergencyNumber: '112',
+    chatReply: 'நீங்கள் இப்படி உணர்வது மிகவும் வருத்தமாக உள்ளது. இதை நீங்கள் தனியாக எதிர்கொள்ள வேண்டியதில்லை. தயவுசெய்து இப்போதே ஒரு உதவி எண்ணைத் தொடர்பு கொள்ளுங்கள். உடனடி ஆபத்து இருந்தால் 112 ஐ அழைக்கவும்.',
+  },
+  bn: {
+    helplines: [
+      { name: 'Kaan Pete Roi', phone: '09612-119911', url: 'https://shuni.org', country: 'বাংলাদেশ' },
+      { name: 'Tele-MANAS', phone: '14416', country: 'ভারত' },
+    ],
+    emergencyNumber: '999 / 112',
+    chatReply: 'আপনি এমন অনুভব করছেন জেনে আমি সত্যিই দুঃখিত। আপনাকে একা এর মধ্য দিয়ে যেতে হবে না। অনুগ্রহ করে এখনই একটি হেল্পলাইনে যোগাযোগ করুন। তাৎক্ষণিক বিপদে থাকলে জরুরি নম্বরে কল করুন।',
+  },
+  ar: {
+    helplines: [],
+    emergencyNumber: '112 / 911 / 999',
+    chatReply: 'أنا آسف جدًا لأنك تشعر بهذا. لست مضطرًا لمواجهة ذلك وحدك. من فضلك تواصل الآن مع خط مساعدة، فهو مجاني وسري. إذا كنت في خطر مباشر، اتصل برقم الطوارئ المحلي.',
+  },
+  he: {
+    helplines: [
+      { name: 'ער"ן - עזרה ראשונה נפשית', phone: '1201', url: 'https://www.eran.org.il', country: 'ישראל' },
+    ],
+    emergencyNumber: '101 / 100',
+    chatReply: 'אני מצטער מאוד שאתה מרגיש כך. אינך צריך לעבור את זה לבד. אנא פנה עכשיו לקו סיוע, חינמי וחסוי. אם אתה בסכנה מיידית, התקשר למספר החירום.',
+  },
+};
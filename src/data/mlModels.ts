@@ -4,6 +4,8 @@
 // ============================================================================
 
 import { format, subDays, eachDayOfInterval, addDays, getHours, getDay, isWeekend } from 'date-fns';
+import { assessRisk } from '../services/riskDetection';
+import type { RiskAssessment } from '../types/advanced';
 
 // ============================================================================
 // Type Definitions for ML Models
@@ -89,6 +91,7 @@ export interface SentimentResult {
   themes: string[];
   keywords: string[];
   suggestions: string[];
+  risk: RiskAssessment;
 }
 
 export interface DetectedEmotion {
@@ -235,83 +238,137 @@ class NeuralNetwork {
     };
 
     for (let epoch = 0; epoch < numEpochs; epoch++) {
-      let totalLoss = 0;
-      let correctPredictions = 0;
+      const { loss, accuracy } = this.trainEpoch(inputs, targets, epoch, numEpochs);
+      history.losses.push(loss);
+      history.accuracies.push(accuracy);
+    }
 
-      for (let i = 0; i < inputs.length; i++) {
-        const input = inputs[i];
-        const target = targets[i];
+    return history;
+  }
 
-        // Forward pass
-        const hidden: number[] = Array(this.config.hiddenSize).fill(0);
-        for (let j = 0; j < this.config.hiddenSize; j++) {
-          let sum = this.bias1[j];
-          for (let k = 0; k < this.config.inputSize; k++) {
-            sum += input[k] * this.weights1[k][j];
-          }
-          hidden[j] = this.relu(sum);
-        }
+  /**
+   * Train without blocking the event loop between epochs, so progress can be
+   * reported and a cancel request handled. Cancelling restores the weights
+   * the network had before training started.
+   */
+  async trainAsync(
+    inputs: number[][],
+    targets: number[][],
+    epochs: number,
+    options: TrainingOptions = {}
+  ): Promise<TrainingHistory> {
+    if (!this.isInitialized) {
+      this.initialize();
+    }
 
-        const output: number[] = Array(this.config.outputSize).fill(0);
-        for (let j = 0; j < this.config.outputSize; j++) {
-          let sum = this.bias2[j];
-          for (let k = 0; k < this.config.hiddenSize; k++) {
-            sum += hidden[k] * this.weights2[k][j];
-          }
-          output[j] = sum;
-        }
+    const previous = JSON.parse(JSON.stringify(this.getParameters())) as ModelParameters;
+    const history: TrainingHistory = {
+      losses: [],
+      accuracies: [],
+    };
+
+    for (let epoch = 0; epoch < epochs; epoch++) {
+      if (options.signal?.aborted) {
+        this.loadParameters(previous);
+        throw new DOMException('Training cancelled', 'AbortError');
+      }
+
+      const { loss, accuracy } = this.trainEpoch(inputs, targets, epoch, epochs);
+      history.losses.push(loss);
+      history.accuracies.push(accuracy);
+      options.onProgress?.({ epoch: epoch + 1, epochs, loss, accuracy });
+
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
 
-        const softmaxOutput = this.softmax(output);
+    return history;
+  }
 
-        // Calculate loss (cross-entropy)
-        let loss = 0;
-        for (let j = 0; j < this.config.outputSize; j++) {
-          loss -= target[j] * Math.log(Math.max(softmaxOutput[j], 1e-10));
+  /**
+   * One pass over the training set
+   */
+  private trainEpoch(
+    inputs: number[][],
+    targets: number[][],
+    epoch: number,
+    numEpochs: number
+  ): { loss: number; accuracy: number } {
+    let totalLoss = 0;
+    let correctPredictions = 0;
+
+    for (let i = 0; i < inputs.length; i++) {
+      const input = inputs[i];
+      const target = targets[i];
+
+      // Forward pass
+      const hidden: number[] = Array(this.config.hiddenSize).fill(0);
+      for (let j = 0; j < this.config.hiddenSize; j++) {
+        let sum = this.bias1[j];
+        for (let k = 0; k < this.config.inputSize; k++) {
+          sum += input[k] * this.weights1[k][j];
         }
-        totalLoss += loss;
+        hidden[j] = this.relu(sum);
+      }
 
-        // Check prediction
-        const predictedClass = softmaxOutput.indexOf(Math.max(...softmaxOutput));
-        const targetClass = target.indexOf(Math.max(...target));
-        if (predictedClass === targetClass) {
-          correctPredictions++;
+      const output: number[] = Array(this.config.outputSize).fill(0);
+      for (let j = 0; j < this.config.outputSize; j++) {
+        let sum = this.bias2[j];
+        for (let k = 0; k < this.config.hiddenSize; k++) {
+          sum += hidden[k] * this.weights2[k][j];
         }
+        output[j] = sum;
+      }
 
-        // Backpropagation (simplified for demo)
-        const learningRate = this.config.learningRate * (1 - epoch / numEpochs);
-        const outputError = softmaxOutput.map((o, i) => o - target[i]);
+      const softmaxOutput = this.softmax(output);
 
-        for (let j = 0; j < this.config.hiddenSize; j++) {
-          for (let k = 0; k < this.config.outputSize; k++) {
-            this.weights2[j][k] -= learningRate * outputError[k] * hidden[j];
-          }
-        }
+      // Calculate loss (cross-entropy)
+      let loss = 0;
+      for (let j = 0; j < this.config.outputSize; j++) {
+        loss -= target[j] * Math.log(Math.max(softmaxOutput[j], 1e-10));
+      }
+      totalLoss += loss;
 
+      // Check prediction
+      const predictedClass = softmaxOutput.indexOf(Math.max(...softmaxOutput));
+      const targetClass = target.indexOf(Math.max(...target));
+      if (predictedClass === targetClass) {
+        correctPredictions++;
+      }
+
+      // Backpropagation (simplified for demo)
+      const learningRate = this.config.learningRate * (1 - epoch / numEpochs);
+      const outputError = softmaxOutput.map((o, i) => o - target[i]);
+
+      for (let j = 0; j < this.config.hiddenSize; j++) {
         for (let k = 0; k < this.config.outputSize; k++) {
-          this.bias2[k] -= learningRate * outputError[k];
+          this.weights2[j][k] -= learningRate * outputError[k] * hidden[j];
         }
+      }
 
-        // Hidden layer error
-        const hiddenError = this.weights2.map((row, j) =>
-          row.reduce((sum, w, k) => sum + w * outputError[k], 0)
-        ).map((err, j) => err * (hidden[j] > 0 ? 1 : 0));
+      for (let k = 0; k < this.config.outputSize; k++) {
+        this.bias2[k] -= learningRate * outputError[k];
+      }
 
-        for (let k = 0; k < this.config.inputSize; k++) {
-          for (let j = 0; j < this.config.hiddenSize; j++) {
-            this.weights1[k][j] -= learningRate * hiddenError[j] * input[k];
-          }
-        }
+      // Hidden layer error
+      const hiddenError = this.weights2.map((row, j) =>
+        row.reduce((sum, w, k) => sum + w * outputError[k], 0)
+      ).map((err, j) => err * (hidden[j] > 0 ? 1 : 0));
 
+      for (let k = 0; k < this.config.inputSize; k++) {
         for (let j = 0; j < this.config.hiddenSize; j++) {
-          this.bias1[j] -= learningRate * hiddenError[j];
+          this.weights1[k][j] -= learningRate * hiddenError[j] * input[k];
         }
       }
 
-      history.losses.push(totalLoss / inputs.length);
-      history.accuracies.push(correctPredictions / inputs.length);
+      for (let j = 0; j < this.config.hiddenSize; j++) {
+        this.bias1[j] -= learningRate * hiddenError[j];
+      }
     }
 
-    return history;
+    return {
+      loss: totalLoss / inputs.length,
+      accuracy: correctPredictions / inputs.length,
+    };
   }
 
   /**
@@ -345,6 +402,18 @@ interface TrainingHistory {
   accuracies: number[];
 }
 
+export interface TrainingProgress {
+  epoch: number;
+  epochs: number;
+  loss: number;
+  accuracy: number;
+}
+
+export interface TrainingOptions {
+  onProgress?: (progress: TrainingProgress) => void;
+  signal?: AbortSignal;
+}
+
 interface ModelParameters {
   weights1: number[][];
   weights2: number[][];
@@ -364,6 +433,13 @@ export class MoodPredictionModel {
   private trainedData: Map<string, number[][]>;
 
   constructor() {
+    this.reset();
+  }
+
+  /**
+   * Discard trained weights and start from a fresh network
+   */
+  reset(): void {
     const config: MLModelConfig = {
       inputSize: 48,  // 7 days × 24 hours × normalized features
       hiddenSize: 32,
@@ -480,13 +556,75 @@ export class MoodPredictionModel {
     }
 
     const history = this.network.train(inputs, targets, 50);
+    this.recordTraining(history);
+
+    return history;
+  }
+
+  /**
+   * Train off the event loop's critical path with progress and cancellation
+   */
+  async trainAsync(
+    moodHistory: Array<{ emotion: string; intensity: number; timestamp: Date }>,
+    options: TrainingOptions = {}
+  ): Promise<TrainingHistory> {
+    const previous = { ...this.state };
+    const { inputs, targets } = this.prepareTrainingData(moodHistory);
+
+    if (inputs.length < 10) {
+      return { losses: [1.0], accuracies: [0] };
+    }
+
+    try {
+      const history = await this.network.trainAsync(inputs, targets, 50, options);
+      this.recordTraining(history);
+      return history;
+    } catch (error) {
+      this.state = previous;
+      throw error;
+    }
+  }
+
+  /**
+   * Continue training the current weights on newly logged entries. The
+   * history should include the 7 entries preceding the new ones so every
+   * new entry gets a full input window.
+   */
+  async update(
+    recentHistory: Array<{ emotion: string; intensity: number; timestamp: Date }>,
+    epochs: number = 20,
+    options: TrainingOptions = {}
+  ): Promise<TrainingHistory> {
+    if (!this.state.isTrained) {
+      return this.trainAsync(recentHistory, options);
+    }
+
+    const previous = { ...this.state };
+    const { inputs, targets } = this.prepareTrainingData(recentHistory);
+    this.state.dataPointsProcessed = previous.dataPointsProcessed + inputs.length;
+
+    if (inputs.length === 0) {
+      return { losses: [this.state.loss], accuracies: [this.state.accuracy] };
+    }
+
+    try {
+      const history = await this.network.trainAsync(inputs, targets, epochs, options);
+      this.recordTraining(history);
+      return history;
+    } catch (error) {
+      this.state = previous;
+      throw error;
+    }
+  }
+
+  private recordTraining(history: TrainingHistory): void {
+    const [major, minor] = this.state.version.split('.').map(Number);
 
+    this.state.version = `${major || 1}.${(minor || 0) + 1}.0`;
     this.state.isTrained = true;
     this.state.lastTrained = new Date();
     this.state.accuracy = history.accuracies[history.accuracies.length - 1];
     this.state.loss = history.losses[history.losses.length - 1];
-
-    return history;
   }
 
   /**
@@ -494,7 +632,8 @@ export class MoodPredictionModel {
    */
   predict(
     moodHistory: Array<{ emotion: string; intensity: number; timestamp: Date }>,
-    daysAhead: number = 7
+    daysAhead: number = 7,
+    from: Date = new Date()
   ): MoodPredictionResult {
     const predictions: PredictedMood[] = [];
     const factors: PredictionFactor[] = [];
@@ -509,7 +648,7 @@ export class MoodPredictionModel {
 
     // Generate predictions for each day
     for (let d = 0; d < daysAhead; d++) {
-      const predDate = addDays(new Date(), d + 1);
+      const predDate = addDays(from, d + 1);
       const features = this.extractFeatures(moodHistory, 24 * (d + 1));
 
       // Add day offset to features
@@ -646,7 +785,10 @@ export class MoodPredictionModel {
   importModel(data: string): void {
     const parsed = JSON.parse(data);
     this.network.loadParameters(parsed.parameters);
-    this.state = parsed.state;
+    this.state = {
+      ...parsed.state,
+      lastTrained: parsed.state.lastTrained ? new Date(parsed.state.lastTrained) : null,
+    };
     this.emotionEncoder = new Map(parsed.emotionEncoder);
   }
 }
@@ -1650,12 +1792,20 @@ export class SentimentAnalysisEngine {
     // Generate suggestions
     const suggestions = this.generateSuggestions(overallScore, emotions);
 
+    // Crisis language outranks everything else the analysis found
+    const risk = assessRisk(text);
+    if (risk.requiresInterruption) {
+      themes.unshift('Crisis language');
+      suggestions.unshift('Please reach out to a crisis line now - you do not have to face this alone');
+    }
+
     return {
       overallScore,
       emotions,
       themes,
       keywords: [...new Set(keywords)],
       suggestions,
+      risk,
     };
   }
 
@@ -1748,9 +1898,26 @@ export class MLService {
    */
   predictMoods(
     moodHistory: Array<{ emotion: string; intensity: number; timestamp: Date }>,
-    daysAhead: number = 7
+    daysAhead: number = 7,
+    from?: Date
   ): MoodPredictionResult {
-    return this.predictionModel.predict(moodHistory, daysAhead);
+    return this.predictionModel.predict(moodHistory, daysAhead, from);
+  }
+
+  /**
+   * Train the prediction model from scratch, or continue from its current
+   * weights when incremental
+   */
+  async trainPredictionModel(
+    moodHistory: Array<{ emotion: string; intensity: number; timestamp: Date }>,
+    options: TrainingOptions & { incremental?: boolean } = {}
+  ): Promise<ModelState> {
+    if (options.incremental) {
+      await this.predictionModel.update(moodHistory, 20, options);
+    } else {
+      await this.predictionModel.trainAsync(moodHistory, options);
+    }
+    return this.getModelState();
   }
 
   /**
@@ -1791,11 +1958,18 @@ export class MLService {
     return this.sentimentEngine.analyze(text);
   }
 
+  /**
+   * The prediction model, for persisting and restoring its weights
+   */
+  getPredictionModel(): MoodPredictionModel {
+    return this.predictionModel;
+  }
+
   /**
    * Get model state
    */
   getModelState(): ModelState {
-    return { ...this.modelState };
+    return { ...this.modelState, ...this.predictionModel.getState() };
   }
 }
 
@@ -3,14 +3,17 @@
 // Connects ML service with React components
 // ============================================================================
 
-import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import {
-  mlService,
   MoodPredictionResult,
   PatternResult,
   RecommendationResult,
   SentimentResult,
+  TrainingProgress,
 } from '../data/mlModels';
+import { mlClient, isAbortError } from '../services/mlClient';
+import { modelLifecycle } from '../services/modelLifecycle';
+import type { LifecycleResult } from '../services/modelLifecycle';
 import { MoodEntry } from '../contexts/MoodContext';
 import { MeditationSession, YogaPose, MusicPlaylist } from '../data/wellnessContent';
 
@@ -51,7 +54,7 @@ export interface MLRecommendations {
 
 export interface MLSentiment {
   sentiment: SentimentResult | null;
-  analyze: (text: string) => SentimentResult;
+  analyze: (text: string) => Promise<SentimentResult>;
 }
 
 export interface MLModelStatus {
@@ -61,6 +64,43 @@ export interface MLModelStatus {
   dataPointsProcessed: number;
 }
 
+export interface MLTraining {
+  progress: TrainingProgress | null;
+  isTraining: boolean;
+  error: string | null;
+  train: () => Promise<LifecycleResult | null>;
+  cancel: () => void;
+}
+
+const toSamples = (moodHistory: MoodEntry[]) => moodHistory.map(m => ({
+  emotion: m.emotion,
+  intensity: m.intensity,
+  timestamp: new Date(m.createdAt),
+}));
+
+/**
+ * Hands out an AbortSignal per request, cancelling the previous one. The
+ * last request is also cancelled when the component unmounts.
+ */
+function useLatestRequest(): { next: () => AbortSignal; cancel: () => void } {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  const next = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = new AbortController();
+    return controllerRef.current.signal;
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { next, cancel };
+}
+
 // ============================================================================
 // Hook: useMLPredictions
 // ============================================================================
@@ -72,6 +112,7 @@ export function useMLPredictions(
   const [predictions, setPredictions] = useState<MoodPredictionResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const request = useLatestRequest();
 
   const refresh = useCallback(async () => {
     if (moodHistory.length < 7) {
@@ -79,25 +120,20 @@ export function useMLPredictions(
       return;
     }
 
+    const signal = request.next();
     setIsLoading(true);
     setError(null);
 
     try {
-      const result = mlService.predictMoods(
-        moodHistory.map(m => ({
-          emotion: m.emotion,
-          intensity: m.intensity,
-                  timestamp: new Date(m.createdAt),
-        })),
-        7
-      );
+      const result = await mlClient.predictMoods(toSamples(moodHistory), 7, undefined, { signal });
       setPredictions(result);
     } catch (err) {
+      if (isAbortError(err)) return;
       setError(err instanceof Error ? err.message : 'Failed to generate predictions');
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
     }
-  }, [moodHistory]);
+  }, [moodHistory, request]);
 
   useEffect(() => {
     if (moodHistory.length >= 7) {
@@ -119,6 +155,7 @@ export function useMLPatterns(
   const [patterns, setPatterns] = useState<PatternResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const request = useLatestRequest();
 
   const refresh = useCallback(async () => {
     if (moodHistory.length < 14) {
@@ -126,31 +163,30 @@ export function useMLPatterns(
       return;
     }
 
+    const signal = request.next();
     setIsLoading(true);
     setError(null);
 
     try {
-      const result = mlService.detectPatterns(
-        moodHistory.map(m => ({
-          emotion: m.emotion,
-          intensity: m.intensity,
-                  timestamp: new Date(m.createdAt),
-        })),
+      const result = await mlClient.detectPatterns(
+        toSamples(moodHistory),
         wellnessHistory.map(w => ({
           type: w.type,
           category: w.category,
           moodBefore: w.moodBefore,
           moodAfter: w.moodAfter,
           completedAt: new Date(w.completedAt),
-        }))
+        })),
+        { signal }
       );
       setPatterns(result);
     } catch (err) {
+      if (isAbortError(err)) return;
       setError(err instanceof Error ? err.message : 'Failed to detect patterns');
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
     }
-  }, [moodHistory, wellnessHistory]);
+  }, [moodHistory, wellnessHistory, request]);
 
   useEffect(() => {
     if (moodHistory.length >= 14) {
@@ -175,6 +211,7 @@ export function useMLRecommendations(
   const [recommendations, setRecommendations] = useState<RecommendationResult | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const request = useLatestRequest();
 
   const refresh = useCallback(async () => {
     if (moodHistory.length < 3) {
@@ -182,48 +219,49 @@ export function useMLRecommendations(
       return;
     }
 
+    const signal = request.next();
     setIsLoading(true);
     setError(null);
 
     try {
-      const result = mlService.generateRecommendations(
-        moodHistory.map(m => ({
-          emotion: m.emotion,
-          intensity: m.intensity,
-                  timestamp: new Date(m.createdAt),
-        })),
+      const result = await mlClient.generateRecommendations(
+        toSamples(moodHistory),
         wellnessHistory.map(w => ({
           type: w.type,
           category: w.category,
           name: w.name,
           completedAt: new Date(w.completedAt),
         })),
-        meditationContent.map(m => ({
-          id: m.id,
-          name: m.name,
-          category: m.category,
-          level: m.level,
-        })),
-        yogaContent.map(y => ({
-          id: y.id,
-          name: y.name,
-          category: y.category,
-          level: y.level,
-        })),
-        musicContent.map(mu => ({
-          id: mu.id,
-          name: mu.name,
-          mood: mu.mood,
-          genre: mu.genre,
-        }))
+        {
+          meditation: meditationContent.map(m => ({
+            id: m.id,
+            name: m.name,
+            category: m.category,
+            level: m.level,
+          })),
+          yoga: yogaContent.map(y => ({
+            id: y.id,
+            name: y.name,
+            category: y.category,
+            level: y.level,
+          })),
+          music: musicContent.map(mu => ({
+            id: mu.id,
+            name: mu.name,
+            mood: mu.mood,
+            genre: mu.genre,
+          })),
+        },
+        { signal }
       );
       setRecommendations(result);
     } catch (err) {
+      if (isAbortError(err)) return;
       setError(err instanceof Error ? err.message : 'Failed to generate recommendations');
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
     }
-  }, [moodHistory, wellnessHistory, meditationContent, yogaContent, musicContent]);
+  }, [moodHistory, wellnessHistory, meditationContent, yogaContent, musicContent, request]);
 
   useEffect(() => {
     if (moodHistory.length >= 3) {
@@ -241,8 +279,8 @@ export function useMLRecommendations(
 export function useMLSentiment(): MLSentiment {
   const [sentiment, setSentiment] = useState<SentimentResult | null>(null);
 
-  const analyze = useCallback((text: string): SentimentResult => {
-    const result = mlService.analyzeSentiment(text);
+  const analyze = useCallback(async (text: string): Promise<SentimentResult> => {
+    const result = await mlClient.analyzeSentiment(text);
     setSentiment(result);
     return result;
   }, []);
@@ -250,6 +288,47 @@ export function useMLSentiment(): MLSentiment {
   return { sentiment, analyze };
 }
 
+// ============================================================================
+// Hook: useMLTraining
+// ============================================================================
+
+/**
+ * Retrain (when enough new entries arrived) and persist the user's model in
+ * the ML worker, reporting per-epoch progress
+ */
+export function useMLTraining(userId: string, moodHistory: MoodEntry[]): MLTraining {
+  const [progress, setProgress] = useState<TrainingProgress | null>(null);
+  const [isTraining, setIsTraining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const request = useLatestRequest();
+
+  const train = useCallback(async (): Promise<LifecycleResult | null> => {
+    const signal = request.next();
+    setIsTraining(true);
+    setProgress(null);
+    setError(null);
+
+    try {
+      return await modelLifecycle.sync(userId, toSamples(moodHistory), { signal, onProgress: setProgress });
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : 'Training failed');
+      }
+      return null;
+    } finally {
+      if (!signal.aborted) setIsTraining(false);
+    }
+  }, [userId, moodHistory, request]);
+
+  const cancel = useCallback(() => {
+    request.cancel();
+    setIsTraining(false);
+    setProgress(null);
+  }, [request]);
+
+  return { progress, isTraining, error, train, cancel };
+}
+
 // ============================================================================
 // Hook: useMLModelStatus
 // ============================================================================
@@ -263,13 +342,21 @@ export function useMLModelStatus(): MLModelStatus {
   });
 
   useEffect(() => {
-    const modelState = mlService.getModelState();
-    setStatus({
-      isTrained: modelState.isTrained,
-      accuracy: modelState.accuracy * 100,
-      lastTrained: modelState.lastTrained,
-      dataPointsProcessed: modelState.dataPointsProcessed,
+    let active = true;
+
+    mlClient.getModelState().then((modelState) => {
+      if (!active) return;
+      setStatus({
+        isTrained: modelState.isTrained,
+        accuracy: modelState.accuracy * 100,
+        lastTrained: modelState.lastTrained,
+        dataPointsProcessed: modelState.dataPointsProcessed,
+      });
     });
+
+    return () => {
+      active = false;
+    };
   }, []);
 
   return status;
@@ -0,0 +1,154 @@
+// ============================================================================
+// CBOR Decoder for MoodMash
+// The subset of RFC 8949 that WebAuthn attestation objects and COSE keys use
+// ============================================================================
+
+export type CborValue =
+  | number
+  | string
+  | boolean
+  | null
+  | undefined
+  | Uint8Array
+  | CborValue[]
+  | Map<CborValue, CborValue>;
+
+export interface CborDecodeResult {
+  value: CborValue;
+  /** Bytes consumed; authenticator data carries more bytes after the COSE key */
+  length: number;
+}
+
+const MAX_DEPTH = 16;
+
+class CborReader {
+  offset = 0;
+  private bytes: Uint8Array;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  private need(count: number): void {
+    if (this.offset + count > this.bytes.length) {
+      throw new Error('Invalid CBOR: unexpected end of input');
+    }
+  }
+
+  private byte(): number {
+    this.need(1);
+    return this.bytes[this.offset++];
+  }
+
+  private take(count: number): Uint8Array {
+    this.need(count);
+    const slice = this.bytes.slice(this.offset, this.offset + count);
+    this.offset += count;
+    return slice;
+  }
+
+  private uint(size: number): number {
+    let value = 0;
+    for (const byte of this.take(size)) {
+      value = value * 256 + byte;
+    }
+    if (!Number.isSafeInteger(value)) {
+      throw new Error('Invalid CBOR: integer out of range');
+    }
+    return value;
+  }
+
+  private argument(info: number): number {
+    if (info < 24) return info;
+    if (info === 24) return this.uint(1);
+    if (info === 25) return this.uint(2);
+    if (info === 26) return this.uint(4);
+    if (info === 27) return this.uint(8);
+    // Indefinite lengths (31) are not allowed in CTAP2 canonical CBOR
+    throw new Error(`Invalid CBOR: unsupported additional info ${info}`);
+  }
+
+  private float(info: number): number {
+    const view = new DataView(this.take(info === 25 ? 2 : info === 26 ? 4 : 8).buffer);
+    if (info === 26) return view.getFloat32(0);
+    if (info === 27) return view.getFloat64(0);
+
+    const half = view.getUint16(0);
+    const exponent = (half >> 10) & 0x1f;
+    const fraction = half & 0x3ff;
+    const sign = half & 0x8000 ? -1 : 1;
+    if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+    if (exponent === 31) return fraction ? NaN : sign * Infinity;
+    return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+  }
+
+  read(depth: number = 0): CborValue {
+    if (depth > MAX_DEPTH) {
+      throw new Error('Invalid CBOR: nested too deeply');
+    }
+
+    const initial = this.byte();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0:
+        return this.argument(info);
+      case 1:
+        return -1 - this.argument(info);
+      case 2:
+        return this.take(this.argument(info));
+      case 3:
+        return new TextDecoder('utf-8', { fatal: true }).decode(this.take(this.argument(info)));
+      case 4: {
+        const length = this.argument(info);
+        const items: CborValue[] = [];
+        for (let i = 0; i < length; i++) items.push(this.read(depth + 1));
+        return items;
+      }
+      case 5: {
+        const length = this.argument(info);
+        const map = new Map<CborValue, CborValue>();
+        for (let i = 0; i < length; i++) {
+          const key = this.read(depth + 1);
+          if (map.has(key)) {
+            throw new Error('Invalid CBOR: duplicate map key');
+          }
+          map.set(key, this.read(depth + 1));
+        }
+        return map;
+      }
+      case 6:
+        // Tags carry no meaning for WebAuthn; keep the tagged value
+        this.argument(info);
+        return this.read(depth + 1);
+      default:
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        if (info === 23) return undefined;
+        if (info >= 25 && info <= 27) return this.float(info);
+        throw new Error(`Invalid CBOR: unsupported simple value ${info}`);
+    }
+  }
+}
+
+/**
+ * Decode the first CBOR item in `bytes` and report how many bytes it used
+ */
+export function decodeCborPrefix(bytes: Uint8Array): CborDecodeResult {
+  const reader = new CborReader(bytes);
+  const value = reader.read();
+  return { value, length: reader.offset };
+}
+
+/**
+ * Decode a buffer holding exactly one CBOR item
+ */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const { value, length } = decodeCborPrefix(bytes);
+  if (length !== bytes.length) {
+    throw new Error('Invalid CBOR: trailing bytes');
+  }
+  return value;
+}
@@ -0,0 +1,166 @@
+// ============================================================================
+// Web Crypto Helpers for MoodMash
+// AES-GCM-256 encryption and PBKDF2 key derivation via crypto.subtle
+// ============================================================================
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const AES_KEY_LENGTH = 256;
+export const GCM_IV_LENGTH = 12;
+export const GCM_TAG_LENGTH = 16;
+export const PBKDF2_ITERATIONS = 310000;
+export const PBKDF2_SALT_LENGTH = 16;
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+export function bytesToBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.byteLength; i++) {
+    binary += String.fromCharCode(view[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * URL-safe base64 without padding (RFC 4648 §5), as used by WebAuthn and JWTs
+ */
+export function bytesToBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlToBytes(base64url: string): Uint8Array {
+  const base64 = base64url.replace(/-/g, '+').replace(/_/g, '/');
+  return base64ToBytes(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+}
+
+export function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+// ============================================================================
+// Key Derivation
+// ============================================================================
+
+/**
+ * Derive a key-encryption key from the user's passphrase. The result can
+ * only wrap and unwrap data keys; it never touches user data directly.
+ */
+export async function deriveKeyFromPassphrase(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = PBKDF2_ITERATIONS
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: AES_KEY_LENGTH },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+// ============================================================================
+// Data Keys
+// ============================================================================
+
+export async function generateDataKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey(
+    { name: 'AES-GCM', length: AES_KEY_LENGTH },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export interface WrappedKey {
+  wrappedKey: string;
+  iv: string;
+}
+
+export async function wrapDataKey(dataKey: CryptoKey, wrappingKey: CryptoKey): Promise<WrappedKey> {
+  const iv = randomBytes(GCM_IV_LENGTH);
+  const wrapped = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv });
+  return { wrappedKey: bytesToBase64(wrapped), iv: bytesToBase64(iv) };
+}
+
+/**
+ * Unwrap a data key. Rejects when the wrapping key is wrong, because the
+ * GCM tag over the wrapped key will not verify.
+ */
+export async function unwrapDataKey(wrapped: WrappedKey, wrappingKey: CryptoKey): Promise<CryptoKey> {
+  return crypto.subtle.unwrapKey(
+    'raw',
+    base64ToBytes(wrapped.wrappedKey),
+    wrappingKey,
+    { name: 'AES-GCM', iv: base64ToBytes(wrapped.iv) },
+    { name: 'AES-GCM', length: AES_KEY_LENGTH },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+// ============================================================================
+// Encryption
+// ============================================================================
+
+export interface CipherParts {
+  ciphertext: string;
+  iv: string;
+  tag: string;
+}
+
+export async function encryptString(key: CryptoKey, plaintext: string): Promise<CipherParts> {
+  const iv = randomBytes(GCM_IV_LENGTH);
+  const sealed = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, tagLength: GCM_TAG_LENGTH * 8 },
+      key,
+      new TextEncoder().encode(plaintext)
+    )
+  );
+
+  // Web Crypto appends the auth tag to the ciphertext; store it separately
+  const split = sealed.byteLength - GCM_TAG_LENGTH;
+  return {
+    ciphertext: bytesToBase64(sealed.slice(0, split)),
+    iv: bytesToBase64(iv),
+    tag: bytesToBase64(sealed.slice(split)),
+  };
+}
+
+export async function decryptString(key: CryptoKey, parts: CipherParts): Promise<string> {
+  const ciphertext = base64ToBytes(parts.ciphertext);
+  const tag = base64ToBytes(parts.tag);
+  const sealed = new Uint8Array(ciphertext.byteLength + tag.byteLength);
+  sealed.set(ciphertext, 0);
+  sealed.set(tag, ciphertext.byteLength);
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(parts.iv), tagLength: GCM_TAG_LENGTH * 8 },
+    key,
+    sealed
+  );
+
+  return new TextDecoder().decode(plaintext);
+}
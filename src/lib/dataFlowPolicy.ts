@@ -0,0 +1,109 @@
+// ============================================================================
+// Data Flow Policy for MoodMash
+// Which outbound integrations may run under which consents, and which fields
+// are stripped when a consent is missing. Pure rules only; the gate that
+// applies them and logs each transfer is services/dataTransfers.
+// ============================================================================
+
+import type { ConsentType } from '../contexts/ComplianceContext';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DataFlowId = 'ai_insights' | 'ai_chat' | 'ai_journal' | 'wearable_sync';
+
+export interface FieldRedaction {
+  consent: ConsentType;
+  fields: string[];
+}
+
+export interface DataFlow {
+  id: DataFlowId;
+  label: string;
+  /** Nothing is sent unless all of these are in force */
+  requires: ConsentType[];
+  /** Fields removed from every record while the consent is missing */
+  redactions: FieldRedaction[];
+}
+
+export type TransferOutcome = 'allowed' | 'redacted' | 'blocked';
+
+export interface DataFlowDecision {
+  flow: DataFlowId;
+  outcome: TransferOutcome;
+  /** Required consents that are not in force; non-empty only when blocked */
+  missingConsents: ConsentType[];
+  /** Fields to strip before sending; empty when blocked */
+  redactedFields: string[];
+}
+
+// ============================================================================
+// Flows
+// ============================================================================
+
+export const DATA_FLOWS: Record<DataFlowId, DataFlow> = {
+  ai_insights: {
+    id: 'ai_insights',
+    label: 'AI mood insights',
+    requires: ['third_party'],
+    // Moods and intensities are enough for a summary; what the user wrote is
+    // only shared when they asked for personalized processing
+    redactions: [{ consent: 'personalization', fields: ['note', 'tags'] }],
+  },
+  ai_chat: {
+    id: 'ai_chat',
+    label: 'AI companion chat',
+    requires: ['third_party'],
+    redactions: [],
+  },
+  ai_journal: {
+    id: 'ai_journal',
+    label: 'AI journal summaries',
+    requires: ['third_party', 'personalization'],
+    redactions: [],
+  },
+  wearable_sync: {
+    id: 'wearable_sync',
+    label: 'Wearable health data sync',
+    requires: ['third_party', 'personalization'],
+    redactions: [],
+  },
+};
+
+// ============================================================================
+// Decisions
+// ============================================================================
+
+export function decideFlow(flow: DataFlow, isInForce: (type: ConsentType) => boolean): DataFlowDecision {
+  const missingConsents = flow.requires.filter((type) => !isInForce(type));
+  if (missingConsents.length > 0) {
+    return { flow: flow.id, outcome: 'blocked', missingConsents, redactedFields: [] };
+  }
+
+  const redactedFields = flow.redactions
+    .filter((redaction) => !isInForce(redaction.consent))
+    .flatMap((redaction) => redaction.fields);
+
+  return {
+    flow: flow.id,
+    outcome: redactedFields.length > 0 ? 'redacted' : 'allowed',
+    missingConsents: [],
+    redactedFields,
+  };
+}
+
+/**
+ * Copies of `records` without the named fields
+ */
+export function redactRecords<T extends object>(records: T[], fields: string[]): T[] {
+  if (fields.length === 0) return records;
+
+  return records.map((record) => {
+    const copy = { ...record } as Record<string, unknown>;
+    for (const field of fields) {
+      delete copy[field];
+    }
+    return copy as T;
+  });
+}
@@ -0,0 +1,158 @@
+// ============================================================================
+// Field Encryption for MoodMash
+// Seals sensitive text columns on the client before they reach Supabase
+// ============================================================================
+
+import type { EncryptedData } from '../contexts/EncryptionContext';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The subset of useEncryption() the data services need. EncryptionProvider
+ * registers itself here while the keyring is unlocked.
+ */
+export interface FieldCipher {
+  encrypt: (plaintext: string) => Promise<EncryptedData>;
+  decrypt: (encryptedData: EncryptedData) => Promise<string>;
+  activeKeyVersion: () => number;
+  /** Versions are per device and can repeat across devices; ids cannot */
+  activeKeyId: () => string;
+}
+
+export interface SealedField {
+  value: string;
+  key_version: number;
+}
+
+interface FieldEnvelope {
+  k: string;
+  v: number;
+  iv: string;
+  t: string;
+  c: string;
+}
+
+// Stored values look like `enc:v1:{...}` so plaintext legacy rows stay readable
+const ENVELOPE_PREFIX = 'enc:v1:';
+
+export class EncryptionLockedError extends Error {
+  code = 'ENCRYPTION_LOCKED';
+
+  constructor() {
+    super('Encryption is locked. Unlock it in Security Settings to read or write private notes.');
+    this.name = 'EncryptionLockedError';
+  }
+}
+
+// ============================================================================
+// Cipher Registration
+// ============================================================================
+
+let activeCipher: FieldCipher | null = null;
+const cipherListeners = new Set<(ready: boolean) => void>();
+
+export function setFieldCipher(cipher: FieldCipher | null): void {
+  activeCipher = cipher;
+  cipherListeners.forEach((listener) => listener(cipher !== null));
+}
+
+/**
+ * Notified whenever encryption is unlocked or locked, so caches holding
+ * decrypted text can be dropped.
+ */
+export function onFieldCipherChange(listener: (ready: boolean) => void): () => void {
+  cipherListeners.add(listener);
+  return () => cipherListeners.delete(listener);
+}
+
+export function isFieldEncryptionReady(): boolean {
+  return activeCipher !== null;
+}
+
+export function getActiveKeyVersion(): number | null {
+  return activeCipher ? activeCipher.activeKeyVersion() : null;
+}
+
+function requireCipher(): FieldCipher {
+  if (!activeCipher) {
+    throw new EncryptionLockedError();
+  }
+  return activeCipher;
+}
+
+// ============================================================================
+// Seal / Open
+// ============================================================================
+
+export function isSealedField(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENVELOPE_PREFIX);
+}
+
+export async function sealField(plaintext: string): Promise<SealedField> {
+  const sealed = await requireCipher().encrypt(plaintext);
+  const envelope: FieldEnvelope = {
+    k: sealed.keyId,
+    v: sealed.keyVersion,
+    iv: sealed.iv,
+    t: sealed.tag,
+    c: sealed.encryptedContent,
+  };
+
+  return { value: `${ENVELOPE_PREFIX}${JSON.stringify(envelope)}`, key_version: sealed.keyVersion };
+}
+
+/**
+ * Seal an optional column. Empty values pass through untouched.
+ */
+export async function sealOptionalField(plaintext: string | null | undefined): Promise<SealedField | null> {
+  if (plaintext === undefined || plaintext === null || plaintext === '') {
+    return null;
+  }
+  return sealField(plaintext);
+}
+
+export async function openField(value: string | null | undefined): Promise<string | undefined> {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!isSealedField(value)) {
+    return value;
+  }
+
+  const envelope = JSON.parse(value.slice(ENVELOPE_PREFIX.length)) as FieldEnvelope;
+  const now = new Date();
+
+  return requireCipher().decrypt({
+    id: '',
+    encryptedContent: envelope.c,
+    iv: envelope.iv,
+    tag: envelope.t,
+    keyId: envelope.k,
+    keyVersion: envelope.v,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Re-seal a stored value under the active key. Returns null when it is
+ * already current.
+ */
+export async function resealField(value: string | null | undefined): Promise<SealedField | null> {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const cipher = requireCipher();
+  if (isSealedField(value)) {
+    const envelope = JSON.parse(value.slice(ENVELOPE_PREFIX.length)) as FieldEnvelope;
+    if (envelope.k === cipher.activeKeyId()) {
+      return null;
+    }
+  }
+
+  const plaintext = await openField(value);
+  return sealField(plaintext);
+}
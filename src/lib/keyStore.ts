@@ -0,0 +1,94 @@
+// ============================================================================
+// Key Store for MoodMash
+// IndexedDB persistence for passphrase-wrapped encryption keys
+// ============================================================================
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StoredDataKey {
+  keyId: string;
+  version: number;
+  wrappedKey: string;
+  iv: string;
+  createdAt: string;
+  retiredAt: string | null;
+}
+
+/**
+ * One keyring per user. Data keys are only ever stored wrapped by the
+ * passphrase-derived key; retired keys stay so older ciphertext still opens.
+ */
+export interface StoredKeyring {
+  userId: string;
+  salt: string;
+  iterations: number;
+  activeKeyId: string;
+  keys: StoredDataKey[];
+  updatedAt: string;
+}
+
+// ============================================================================
+// IndexedDB
+// ============================================================================
+
+const DB_NAME = 'moodmash_keys';
+const DB_VERSION = 1;
+const STORE_NAME = 'keyrings';
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'userId' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// ============================================================================
+// Keyring Operations
+// ============================================================================
+
+export async function loadKeyring(userId: string): Promise<StoredKeyring | null> {
+  const keyring = await withStore<StoredKeyring | undefined>('readonly', (store) => store.get(userId));
+  return keyring ?? null;
+}
+
+export async function saveKeyring(keyring: StoredKeyring): Promise<void> {
+  await withStore('readwrite', (store) => store.put(keyring));
+}
+
+export async function deleteKeyring(userId: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(userId));
+}
@@ -0,0 +1,251 @@
+// ============================================================================
+// Login Policy for MoodMash
+// Pure rules for sign-in throttling (backoff and lockout) and for the anomaly
+// signals raised around sign-ins. No storage, clocks or network in here.
+// ============================================================================
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface LoginPolicy {
+  /** Failures that carry no delay */
+  freeAttempts: number;
+  /** Delay after the first throttled failure; doubles with each one after */
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Failures inside the window that lock the key out */
+  lockoutThreshold: number;
+  lockoutMs: number;
+  /** Failures older than this are forgotten */
+  failureWindowMs: number;
+  /** This many failures within burstWindowMs is reported as suspicious */
+  burstThreshold: number;
+  burstWindowMs: number;
+  /** Faster apparent travel between sign-ins is reported as suspicious */
+  maxTravelSpeedKmh: number;
+  /** Smaller time zone jumps are ignored; devices often disagree by an hour or two */
+  minTravelOffsetHours: number;
+}
+
+export const DEFAULT_LOGIN_POLICY: LoginPolicy = {
+  freeAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  lockoutThreshold: 10,
+  lockoutMs: 15 * 60 * 1000,
+  failureWindowMs: 60 * 60 * 1000,
+  burstThreshold: 5,
+  burstWindowMs: 5 * 60 * 1000,
+  maxTravelSpeedKmh: 1000,
+  minTravelOffsetHours: 3,
+};
+
+/** Failed attempts for one key (an account or a device) */
+export interface AttemptCounter {
+  /** Failure times in ms, oldest first */
+  failures: number[];
+  lockedUntil: number | null;
+}
+
+export interface AttemptDecision {
+  allowed: boolean;
+  /** 0 when allowed */
+  retryAfterMs: number;
+  /** True when the wait is a lockout rather than backoff */
+  locked: boolean;
+}
+
+export interface SignInObservation {
+  /** Time of the sign-in or last activity, in ms */
+  at: number;
+  /** IANA time zone reported by the device */
+  timeZone: string | null;
+  location: string;
+}
+
+export interface SessionAnomalyInput {
+  current: SignInObservation;
+  /** The account's other sessions, in any order */
+  previous: SignInObservation[];
+  newDevice: boolean;
+}
+
+export type LoginAnomalyKind = 'new_device' | 'new_location' | 'impossible_travel' | 'failure_burst';
+
+export interface LoginAnomaly {
+  kind: LoginAnomalyKind;
+  alertType: 'new_device' | 'new_location' | 'suspicious_activity';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  metadata: Record<string, string>;
+}
+
+// ============================================================================
+// Attempt Counters
+// ============================================================================
+
+export const emptyCounter = (): AttemptCounter => ({ failures: [], lockedUntil: null });
+
+/**
+ * Drop failures outside the window and an expired lock
+ */
+export function pruneCounter(counter: AttemptCounter, now: number, policy: LoginPolicy = DEFAULT_LOGIN_POLICY): AttemptCounter {
+  return {
+    failures: counter.failures.filter((at) => now - at < policy.failureWindowMs),
+    lockedUntil: counter.lockedUntil !== null && counter.lockedUntil > now ? counter.lockedUntil : null,
+  };
+}
+
+/**
+ * Wait required after `failureCount` failures: none for the free attempts,
+ * then exponential up to the cap
+ */
+export function backoffDelay(failureCount: number, policy: LoginPolicy = DEFAULT_LOGIN_POLICY): number {
+  if (failureCount <= policy.freeAttempts) return 0;
+  return Math.min(policy.baseDelayMs * 2 ** (failureCount - policy.freeAttempts - 1), policy.maxDelayMs);
+}
+
+export function evaluateAttempt(counter: AttemptCounter, now: number, policy: LoginPolicy = DEFAULT_LOGIN_POLICY): AttemptDecision {
+  const { failures, lockedUntil } = pruneCounter(counter, now, policy);
+
+  if (lockedUntil !== null) {
+    return { allowed: false, retryAfterMs: lockedUntil - now, locked: true };
+  }
+  if (failures.length === 0) {
+    return { allowed: true, retryAfterMs: 0, locked: false };
+  }
+
+  const waitUntil = failures[failures.length - 1] + backoffDelay(failures.length, policy);
+  return waitUntil > now
+    ? { allowed: false, retryAfterMs: waitUntil - now, locked: false }
+    : { allowed: true, retryAfterMs: 0, locked: false };
+}
+
+/**
+ * Count a failure, locking the key once the threshold is reached
+ */
+export function recordFailure(counter: AttemptCounter, now: number, policy: LoginPolicy = DEFAULT_LOGIN_POLICY): AttemptCounter {
+  const pruned = pruneCounter(counter, now, policy);
+  const failures = [...pruned.failures, now];
+
+  return {
+    failures,
+    lockedUntil: failures.length >= policy.lockoutThreshold ? now + policy.lockoutMs : pruned.lockedUntil,
+  };
+}
+
+/**
+ * The strictest of several decisions, e.g. the account's and the device's
+ */
+export function combineDecisions(...decisions: AttemptDecision[]): AttemptDecision {
+  return decisions.reduce(
+    (strictest, decision) => ({
+      allowed: strictest.allowed && decision.allowed,
+      retryAfterMs: Math.max(strictest.retryAfterMs, decision.retryAfterMs),
+      locked: strictest.locked || decision.locked,
+    }),
+    { allowed: true, retryAfterMs: 0, locked: false }
+  );
+}
+
+/**
+ * A failure burst, reported once: when the latest failure brings the count
+ * inside the burst window up to the threshold
+ */
+export function detectFailureBurst(counter: AttemptCounter, now: number, policy: LoginPolicy = DEFAULT_LOGIN_POLICY): LoginAnomaly | null {
+  const recent = counter.failures.filter((at) => now - at < policy.burstWindowMs).length;
+  if (recent !== policy.burstThreshold) return null;
+
+  return {
+    kind: 'failure_burst',
+    alertType: 'suspicious_activity',
+    severity: 'high',
+    metadata: { activity: `${recent} failed sign-in attempts in ${Math.round(policy.burstWindowMs / 60000)} minutes` },
+  };
+}
+
+// ============================================================================
+// Travel
+// ============================================================================
+
+// Time zone offsets only pin down longitude. One hour of offset is 15°, which
+// is ~835 km at 60° latitude; assuming that high latitude keeps the estimate
+// below the true distance for most of the inhabited world.
+const MIN_KM_PER_OFFSET_HOUR = 15 * 111.32 * Math.cos(Math.PI / 3);
+
+/**
+ * UTC offset of `timeZone` at `at`, or null for an unknown zone
+ */
+export function utcOffsetMinutes(timeZone: string, at: number): number | null {
+  try {
+    const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+      .formatToParts(at)
+      .find((part) => part.type === 'timeZoneName')?.value;
+    const match = name?.match(/^GMT(?:([+-])(\d{2}):(\d{2}))?$/);
+    if (!match) return null;
+    if (!match[1]) return 0;
+    return (match[1] === '-' ? -1 : 1) * (Number(match[2]) * 60 + Number(match[3]));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether going from `from` to `to` in the time between them needs a speed
+ * above the policy limit. Unknown zones never count as travel.
+ */
+export function isImpossibleTravel(
+  from: SignInObservation,
+  to: SignInObservation,
+  policy: LoginPolicy = DEFAULT_LOGIN_POLICY
+): boolean {
+  if (!from.timeZone || !to.timeZone) return false;
+
+  const fromOffset = utcOffsetMinutes(from.timeZone, from.at);
+  const toOffset = utcOffsetMinutes(to.timeZone, to.at);
+  if (fromOffset === null || toOffset === null) return false;
+
+  const offsetHours = Math.abs(toOffset - fromOffset) / 60;
+  if (offsetHours < policy.minTravelOffsetHours) return false;
+
+  const hours = Math.abs(to.at - from.at) / (60 * 60 * 1000);
+  return hours === 0 || (offsetHours * MIN_KM_PER_OFFSET_HOUR) / hours > policy.maxTravelSpeedKmh;
+}
+
+// ============================================================================
+// Session Anomalies
+// ============================================================================
+
+/**
+ * Signals for a session seen for the first time, judged against the
+ * account's other sessions
+ */
+export function detectSessionAnomalies(input: SessionAnomalyInput, policy: LoginPolicy = DEFAULT_LOGIN_POLICY): LoginAnomaly[] {
+  const { current, previous, newDevice } = input;
+  const anomalies: LoginAnomaly[] = [];
+
+  if (newDevice) {
+    anomalies.push({ kind: 'new_device', alertType: 'new_device', severity: 'high', metadata: { location: current.location } });
+  }
+  if (previous.length === 0) return anomalies;
+
+  if (!previous.some((observation) => observation.location === current.location)) {
+    anomalies.push({ kind: 'new_location', alertType: 'new_location', severity: 'medium', metadata: { location: current.location } });
+  }
+
+  const latest = previous.reduce((a, b) => (b.at > a.at ? b : a));
+  if (isImpossibleTravel(latest, current, policy)) {
+    const minutes = Math.round(Math.abs(current.at - latest.at) / 60000);
+    anomalies.push({
+      kind: 'impossible_travel',
+      alertType: 'suspicious_activity',
+      severity: 'critical',
+      metadata: {
+        activity: `Sign-in from ${current.location} ${minutes} minutes after activity in ${latest.location}`,
+        location: current.location,
+        previousLocation: latest.location,
+      },
+    });
+  }
+  return anomalies;
+}
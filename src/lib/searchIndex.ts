@@ -0,0 +1,113 @@
+// ============================================================================
+// Client-side Search Index for MoodMash
+// In-memory inverted index over decrypted text the server cannot read
+// ============================================================================
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface IndexedDocument {
+  id: string;
+  text: string;
+  sortKey: string;
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+const MIN_TOKEN_LENGTH = 2;
+
+export function tokenize(text: string): string[] {
+  const tokens = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= MIN_TOKEN_LENGTH);
+
+  return Array.from(new Set(tokens));
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+/**
+ * Token -> document ids. Every query term must prefix-match some token in a
+ * document for it to match. Results are ordered newest first by sortKey.
+ */
+export class SearchIndex {
+  private postings = new Map<string, Set<string>>();
+  private documents = new Map<string, { tokens: string[]; sortKey: string }>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  add(doc: IndexedDocument): void {
+    this.remove(doc.id);
+
+    const tokens = tokenize(doc.text);
+    this.documents.set(doc.id, { tokens, sortKey: doc.sortKey });
+
+    tokens.forEach((token) => {
+      let ids = this.postings.get(token);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(token, ids);
+      }
+      ids.add(doc.id);
+    });
+  }
+
+  remove(id: string): void {
+    const existing = this.documents.get(id);
+    if (!existing) return;
+
+    existing.tokens.forEach((token) => {
+      const ids = this.postings.get(token);
+      ids?.delete(id);
+      if (ids && ids.size === 0) {
+        this.postings.delete(token);
+      }
+    });
+    this.documents.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+  }
+
+  search(query: string): string[] {
+    const terms = tokenize(query);
+    if (terms.length === 0) return [];
+
+    let matches: Set<string> | null = null;
+
+    for (const term of terms) {
+      const termMatches = new Set<string>();
+      this.postings.forEach((ids, token) => {
+        if (token.startsWith(term)) {
+          ids.forEach((id) => termMatches.add(id));
+        }
+      });
+
+      matches = matches
+        ? new Set(Array.from(matches).filter((id) => termMatches.has(id)))
+        : termMatches;
+
+      if (matches.size === 0) return [];
+    }
+
+    return Array.from(matches).sort((a, b) =>
+      this.documents.get(b)!.sortKey.localeCompare(this.documents.get(a)!.sortKey)
+    );
+  }
+}
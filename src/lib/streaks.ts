@@ -0,0 +1,209 @@
+// ============================================================================
+// Streak Calculator for MoodMash
+// The one place a streak is worked out. Days are calendar days in the user's
+// configured time zone, so travelling or a DST change neither skips nor
+// repeats a day. A grace window lets activity just after midnight count for
+// the day before, and freezes cover missed days. No storage, clocks or
+// network in here.
+// ============================================================================
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StreakSettings {
+  /** IANA zone days are counted in; an unknown zone counts in UTC */
+  timeZone: string;
+  /** Hours after local midnight that still count for the previous day */
+  graceHours: number;
+}
+
+export interface StreakState {
+  current: number;
+  longest: number;
+  /** Local day (YYYY-MM-DD) of the last activity that counted */
+  lastActiveDay: string | null;
+  /** Freezes held; each covers one missed day */
+  freezes: number;
+}
+
+export type StreakEventKind = 'started' | 'frozen' | 'reset' | 'freeze_purchased';
+
+/** One entry of the streak history, kept so users can see why a streak reset */
+export interface StreakEvent {
+  kind: StreakEventKind;
+  /** Local day the event applies to */
+  day: string;
+  /** Streak length after the event */
+  count: number;
+  /** Streak length before the event */
+  previousCount: number;
+  missedDays: number;
+  freezesUsed: number;
+}
+
+export interface StreakUpdate {
+  state: StreakState;
+  /** Empty when the activity changed nothing, e.g. a second entry today */
+  events: StreakEvent[];
+}
+
+/** Points a freeze costs; purchase_streak_freeze in the schema charges the same */
+export const STREAK_FREEZE_PRICE = 200;
+/** Freezes a user can hold at once */
+export const MAX_STREAK_FREEZES = 2;
+export const MAX_GRACE_HOURS = 6;
+
+export const DEFAULT_STREAK_SETTINGS: StreakSettings = { timeZone: 'UTC', graceHours: 0 };
+
+export const EMPTY_STREAK: StreakState = { current: 0, longest: 0, lastActiveDay: null, freezes: 0 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Days
+// ============================================================================
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Grace hours clamped to 0..MAX_GRACE_HOURS and the zone checked */
+export function normalizeStreakSettings(settings: Partial<StreakSettings>): StreakSettings {
+  const graceHours = Math.round(Number(settings.graceHours) || 0);
+  return {
+    timeZone: settings.timeZone && isValidTimeZone(settings.timeZone) ? settings.timeZone : DEFAULT_STREAK_SETTINGS.timeZone,
+    graceHours: Math.min(Math.max(graceHours, 0), MAX_GRACE_HOURS),
+  };
+}
+
+const dayNumber = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return Date.UTC(year, month - 1, date) / DAY_MS;
+};
+
+const formatDay = (number: number) => new Date(number * DAY_MS).toISOString().slice(0, 10);
+
+/** Whole calendar days from one YYYY-MM-DD day to another */
+export function daysBetween(from: string, to: string): number {
+  return dayNumber(to) - dayNumber(from);
+}
+
+/**
+ * The streak day `at` counts for: its calendar day in the configured zone,
+ * or the day before while within the grace window after midnight
+ */
+export function localDay(at: Date, settings: StreakSettings): string {
+  const { timeZone, graceHours } = normalizeStreakSettings(settings);
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? '0';
+
+  const day = `${part('year')}-${part('month')}-${part('day')}`;
+  return Number(part('hour')) < graceHours ? formatDay(dayNumber(day) - 1) : day;
+}
+
+// ============================================================================
+// Calculator
+// ============================================================================
+
+/**
+ * Apply one activity to a streak. A missed stretch is covered when enough
+ * freezes are held; otherwise the streak resets and keeps its freezes.
+ * Activity on or before the last counted day changes nothing.
+ */
+export function recordActivity(state: StreakState, at: Date, settings: StreakSettings): StreakUpdate {
+  const day = localDay(at, settings);
+
+  if (!state.lastActiveDay) {
+    const next = { ...state, current: 1, longest: Math.max(state.longest, 1), lastActiveDay: day };
+    return { state: next, events: [{ kind: 'started', day, count: 1, previousCount: 0, missedDays: 0, freezesUsed: 0 }] };
+  }
+
+  const gap = daysBetween(state.lastActiveDay, day);
+  if (gap <= 0) {
+    return { state, events: [] };
+  }
+
+  const missedDays = gap - 1;
+  const events: StreakEvent[] = [];
+  let { current, freezes } = state;
+
+  if (missedDays === 0) {
+    current += 1;
+  } else if (missedDays <= freezes) {
+    freezes -= missedDays;
+    events.push({ kind: 'frozen', day, count: current + 1, previousCount: current, missedDays, freezesUsed: missedDays });
+    current += 1;
+  } else {
+    events.push({ kind: 'reset', day, count: 1, previousCount: current, missedDays, freezesUsed: 0 });
+    current = 1;
+  }
+
+  return {
+    state: { current, longest: Math.max(state.longest, current), lastActiveDay: day, freezes },
+    events,
+  };
+}
+
+/**
+ * The streak as of `now`: still standing until a day passes that the freezes
+ * held cannot cover. Today counts as open until it ends.
+ */
+export function currentStreak(state: StreakState, now: Date, settings: StreakSettings): number {
+  if (!state.lastActiveDay) return 0;
+  const missedDays = daysBetween(state.lastActiveDay, localDay(now, settings)) - 1;
+  return missedDays <= state.freezes ? state.current : 0;
+}
+
+/** Current and longest streak over a set of activity times, without freezes */
+export function streakFromActivity(times: Date[], now: Date, settings: StreakSettings): { current: number; longest: number } {
+  const state = [...times]
+    .sort((a, b) => a.getTime() - b.getTime())
+    .reduce((acc, at) => recordActivity(acc, at, settings).state, EMPTY_STREAK);
+
+  return { current: currentStreak(state, now, settings), longest: state.longest };
+}
+
+/** Add a bought freeze, or null when the user already holds the maximum */
+export function addFreeze(state: StreakState, now: Date, settings: StreakSettings): StreakUpdate | null {
+  if (state.freezes >= MAX_STREAK_FREEZES) return null;
+  return {
+    state: { ...state, freezes: state.freezes + 1 },
+    events: [{
+      kind: 'freeze_purchased',
+      day: localDay(now, settings),
+      count: state.current,
+      previousCount: state.current,
+      missedDays: 0,
+      freezesUsed: 0,
+    }],
+  };
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/** A sentence explaining a history entry */
+export function describeStreakEvent(event: StreakEvent): string {
+  switch (event.kind) {
+    case 'started':
+      return 'Started a new streak';
+    case 'frozen':
+      return `${plural(event.freezesUsed, 'freeze')} covered ${plural(event.missedDays, 'missed day')}; streak continues at ${event.count}`;
+    case 'reset':
+      return `Missed ${plural(event.missedDays, 'day')} without enough freezes; the ${event.previousCount}-day streak reset`;
+    case 'freeze_purchased':
+      return 'Bought a streak freeze';
+  }
+}
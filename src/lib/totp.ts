@@ -0,0 +1,201 @@
+// ============================================================================
+// TOTP Helpers for MoodMash
+// RFC 6238 time-based one-time passwords (HMAC-SHA1) and backup codes
+// ============================================================================
+
+import { randomBytes } from './crypto';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const TOTP_STEP_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+export const TOTP_SECRET_BYTES = 20;
+export const BACKUP_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+// No 0/O or 1/I/L, so codes survive being read aloud or written down
+const BACKUP_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export interface TotpOptions {
+  step?: number;
+  digits?: number;
+}
+
+export interface VerifyTotpOptions extends TotpOptions {
+  /** Unix time in milliseconds; defaults to now */
+  at?: number;
+  /** Steps accepted either side of the current one, for clock drift */
+  window?: number;
+  /** Last step accepted for this secret; it and anything earlier are rejected */
+  lastUsedStep?: number | null;
+}
+
+// ============================================================================
+// Base32 (RFC 4648)
+// ============================================================================
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Uint8Array {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+// ============================================================================
+// TOTP
+// ============================================================================
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(TOTP_SECRET_BYTES));
+}
+
+/**
+ * otpauth:// URI understood by authenticator apps, usually shown as a QR code
+ */
+export function buildOtpauthUri(secret: string, account: string, issuer: string = 'MoodMash'): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export function timeStep(at: number, step: number = TOTP_STEP_SECONDS): number {
+  return Math.floor(at / 1000 / step);
+}
+
+/**
+ * HOTP (RFC 4226) value for a counter; TOTP feeds it the time step
+ */
+export async function generateHotp(secret: Uint8Array, counter: number, digits: number = TOTP_DIGITS): Promise<string> {
+  // 8-byte big-endian counter
+  const message = new Uint8Array(8);
+  let remaining = counter;
+  for (let i = 7; i >= 0; i--) {
+    message[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+
+  const key = await crypto.subtle.importKey('raw', secret, { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary =
+    ((mac[offset] & 0x7f) << 24) |
+    (mac[offset + 1] << 16) |
+    (mac[offset + 2] << 8) |
+    mac[offset + 3];
+
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+export async function generateTotp(secret: string, at: number = Date.now(), options: TotpOptions = {}): Promise<string> {
+  return generateHotp(base32Decode(secret), timeStep(at, options.step), options.digits);
+}
+
+/**
+ * Check a code against the current step and its neighbours. Returns the
+ * matching step, which the caller stores as lastUsedStep so the same code
+ * cannot be replayed, or null when nothing matches.
+ */
+export async function verifyTotp(secret: string, code: string, options: VerifyTotpOptions = {}): Promise<number | null> {
+  const { at = Date.now(), window = 1, lastUsedStep = null, step, digits = TOTP_DIGITS } = options;
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const current = timeStep(at, step);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const candidate = current + offset;
+    if (lastUsedStep !== null && candidate <= lastUsedStep) continue;
+    if ((await generateHotp(key, candidate, digits)) === normalized) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Backup Codes
+// ============================================================================
+
+function randomCode(length: number): string {
+  // Drop bytes past the last full multiple of the alphabet to avoid modulo bias
+  const limit = 256 - (256 % BACKUP_CODE_ALPHABET.length);
+  let code = '';
+  while (code.length < length) {
+    for (const byte of randomBytes(length)) {
+      if (byte < limit && code.length < length) {
+        code += BACKUP_CODE_ALPHABET[byte % BACKUP_CODE_ALPHABET.length];
+      }
+    }
+  }
+  return code;
+}
+
+export function generateBackupCodes(count: number = BACKUP_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = randomCode(10);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+export function normalizeBackupCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function isBackupCodeFormat(code: string): boolean {
+  return normalizeBackupCode(code).length === 10;
+}
+
+/**
+ * SHA-256 of the normalized code. Codes carry ~50 bits of randomness, so a
+ * plain hash is enough to keep them unusable if the table leaks.
+ */
+export async function hashBackupCode(code: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalizeBackupCode(code)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
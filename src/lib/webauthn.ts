@@ -0,0 +1,529 @@
+// ============================================================================
+// WebAuthn Verification for MoodMash
+// Parses and checks passkey attestations and assertions (W3C WebAuthn L2).
+// Relies only on crypto.subtle, so it runs in the browser, in Node and in
+// Deno edge functions alike.
+// ============================================================================
+
+import { decodeCbor, decodeCborPrefix } from './cbor';
+import type { CborValue } from './cbor';
+import { base64UrlToBytes, bytesToBase64Url } from './crypto';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_RS256 = -257;
+/** Offered to authenticators in order of preference */
+export const SUPPORTED_ALGORITHMS = [COSE_ALG_ES256, COSE_ALG_RS256];
+
+const FLAG_USER_PRESENT = 0x01;
+const FLAG_USER_VERIFIED = 0x04;
+const FLAG_BACKUP_ELIGIBLE = 0x08;
+const FLAG_BACKED_UP = 0x10;
+const FLAG_ATTESTED_CREDENTIAL = 0x40;
+const FLAG_EXTENSION_DATA = 0x80;
+
+// COSE_Key labels (RFC 9053)
+const COSE_KTY = 1;
+const COSE_ALG = 3;
+const COSE_EC2_CRV = -1;
+const COSE_EC2_X = -2;
+const COSE_EC2_Y = -3;
+const COSE_RSA_N = -1;
+const COSE_RSA_E = -2;
+const COSE_KTY_EC2 = 2;
+const COSE_KTY_RSA = 3;
+const COSE_CRV_P256 = 1;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Attestation as sent over the wire: binary fields are base64url */
+export interface RegistrationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+export interface AuthenticationCredentialJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+export interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
+
+export interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  userPresent: boolean;
+  userVerified: boolean;
+  backupEligible: boolean;
+  backedUp: boolean;
+  signCount: number;
+  /** Only present in registration responses */
+  attestedCredential?: {
+    aaguid: string;
+    credentialId: Uint8Array;
+    /** COSE_Key bytes, stored as-is for later assertions */
+    publicKey: Uint8Array;
+  };
+}
+
+interface ExpectedCeremony {
+  /** base64url challenge the server issued for this ceremony */
+  expectedChallenge: string;
+  expectedOrigin: string | string[];
+  expectedRpId: string;
+  requireUserVerification?: boolean;
+}
+
+export interface VerifyRegistrationInput extends ExpectedCeremony {
+  response: RegistrationCredentialJSON;
+}
+
+export interface VerifiedRegistration {
+  credentialId: string;
+  /** base64url COSE_Key */
+  publicKey: string;
+  algorithm: number;
+  signCount: number;
+  aaguid: string;
+  transports: string[];
+  attestationFormat: string;
+  userVerified: boolean;
+  backupEligible: boolean;
+  backedUp: boolean;
+}
+
+export interface StoredCredential {
+  credentialId: string;
+  publicKey: string;
+  signCount: number;
+}
+
+export interface VerifyAuthenticationInput extends ExpectedCeremony {
+  response: AuthenticationCredentialJSON;
+  credential: StoredCredential;
+}
+
+export interface VerifiedAuthentication {
+  credentialId: string;
+  newSignCount: number;
+  userVerified: boolean;
+  backedUp: boolean;
+}
+
+export type WebAuthnErrorCode =
+  | 'INVALID_RESPONSE'
+  | 'TYPE_MISMATCH'
+  | 'CHALLENGE_MISMATCH'
+  | 'ORIGIN_MISMATCH'
+  | 'RP_ID_MISMATCH'
+  | 'USER_NOT_PRESENT'
+  | 'USER_NOT_VERIFIED'
+  | 'CREDENTIAL_MISMATCH'
+  | 'UNSUPPORTED_ALGORITHM'
+  | 'UNSUPPORTED_ATTESTATION'
+  | 'INVALID_SIGNATURE'
+  | 'COUNTER_REGRESSION';
+
+export class WebAuthnError extends Error {
+  code: WebAuthnErrorCode;
+
+  constructor(code: WebAuthnErrorCode, message: string) {
+    super(message);
+    this.name = 'WebAuthnError';
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function decodeField(value: string | undefined, field: string): Uint8Array {
+  try {
+    if (typeof value !== 'string') throw new Error('missing');
+    return base64UrlToBytes(value);
+  } catch {
+    throw new WebAuthnError('INVALID_RESPONSE', `Malformed ${field}`);
+  }
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+function formatAaguid(bytes: Uint8Array): string {
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+export function parseClientData(bytes: Uint8Array): ClientData {
+  try {
+    const data = JSON.parse(new TextDecoder().decode(bytes));
+    if (typeof data.type !== 'string' || typeof data.challenge !== 'string' || typeof data.origin !== 'string') {
+      throw new Error('missing fields');
+    }
+    return data;
+  } catch {
+    throw new WebAuthnError('INVALID_RESPONSE', 'Malformed clientDataJSON');
+  }
+}
+
+/**
+ * Layout: rpIdHash (32) | flags (1) | signCount (4, big-endian)
+ * | [aaguid (16) | credentialIdLength (2) | credentialId | COSE_Key] | [extensions]
+ */
+export function parseAuthenticatorData(bytes: Uint8Array): AuthenticatorData {
+  if (bytes.length < 37) {
+    throw new WebAuthnError('INVALID_RESPONSE', 'Authenticator data is too short');
+  }
+
+  const flags = bytes[32];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const data: AuthenticatorData = {
+    rpIdHash: bytes.slice(0, 32),
+    userPresent: !!(flags & FLAG_USER_PRESENT),
+    userVerified: !!(flags & FLAG_USER_VERIFIED),
+    backupEligible: !!(flags & FLAG_BACKUP_ELIGIBLE),
+    backedUp: !!(flags & FLAG_BACKED_UP),
+    signCount: view.getUint32(33),
+  };
+
+  let offset = 37;
+  if (flags & FLAG_ATTESTED_CREDENTIAL) {
+    if (bytes.length < offset + 18) {
+      throw new WebAuthnError('INVALID_RESPONSE', 'Attested credential data is truncated');
+    }
+    const aaguid = bytes.slice(offset, offset + 16);
+    const idLength = view.getUint16(offset + 16);
+    offset += 18;
+
+    const credentialId = bytes.slice(offset, offset + idLength);
+    offset += idLength;
+
+    let keyLength: number;
+    try {
+      keyLength = decodeCborPrefix(bytes.subarray(offset)).length;
+    } catch {
+      throw new WebAuthnError('INVALID_RESPONSE', 'Malformed credential public key');
+    }
+    data.attestedCredential = {
+      aaguid: formatAaguid(aaguid),
+      credentialId,
+      publicKey: bytes.slice(offset, offset + keyLength),
+    };
+    offset += keyLength;
+  }
+
+  if (flags & FLAG_EXTENSION_DATA) {
+    try {
+      offset += decodeCborPrefix(bytes.subarray(offset)).length;
+    } catch {
+      throw new WebAuthnError('INVALID_RESPONSE', 'Malformed extension data');
+    }
+  }
+
+  if (offset !== bytes.length) {
+    throw new WebAuthnError('INVALID_RESPONSE', 'Unexpected trailing authenticator data');
+  }
+
+  return data;
+}
+
+// ============================================================================
+// COSE Keys and Signatures
+// ============================================================================
+
+function asMap(value: CborValue, what: string): Map<CborValue, CborValue> {
+  if (!(value instanceof Map)) {
+    throw new WebAuthnError('INVALID_RESPONSE', `${what} is not a CBOR map`);
+  }
+  return value;
+}
+
+function coseBytes(key: Map<CborValue, CborValue>, label: number): Uint8Array {
+  const value = key.get(label);
+  if (!(value instanceof Uint8Array)) {
+    throw new WebAuthnError('INVALID_RESPONSE', `COSE key is missing parameter ${label}`);
+  }
+  return value;
+}
+
+function decodeCoseKey(publicKey: Uint8Array): Map<CborValue, CborValue> {
+  try {
+    return asMap(decodeCbor(publicKey), 'Credential public key');
+  } catch (error) {
+    if (error instanceof WebAuthnError) throw error;
+    throw new WebAuthnError('INVALID_RESPONSE', 'Malformed credential public key');
+  }
+}
+
+export function coseAlgorithm(publicKey: Uint8Array): number {
+  const alg = decodeCoseKey(publicKey).get(COSE_ALG);
+  if (typeof alg !== 'number') {
+    throw new WebAuthnError('INVALID_RESPONSE', 'COSE key has no algorithm');
+  }
+  return alg;
+}
+
+/**
+ * Import a COSE_Key as a WebCrypto verification key (ES256 and RS256 only)
+ */
+export async function importCoseKey(publicKey: Uint8Array): Promise<{ key: CryptoKey; algorithm: number }> {
+  const cose = decodeCoseKey(publicKey);
+  const algorithm = cose.get(COSE_ALG);
+  const kty = cose.get(COSE_KTY);
+
+  if (algorithm === COSE_ALG_ES256 && kty === COSE_KTY_EC2 && cose.get(COSE_EC2_CRV) === COSE_CRV_P256) {
+    const jwk: JsonWebKey = {
+      kty: 'EC',
+      crv: 'P-256',
+      x: bytesToBase64Url(coseBytes(cose, COSE_EC2_X)),
+      y: bytesToBase64Url(coseBytes(cose, COSE_EC2_Y)),
+    };
+    const key = await crypto.subtle.importKey('jwk', jwk, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+    return { key, algorithm };
+  }
+
+  if (algorithm === COSE_ALG_RS256 && kty === COSE_KTY_RSA) {
+    const jwk: JsonWebKey = {
+      kty: 'RSA',
+      alg: 'RS256',
+      n: bytesToBase64Url(coseBytes(cose, COSE_RSA_N)),
+      e: bytesToBase64Url(coseBytes(cose, COSE_RSA_E)),
+    };
+    const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+    return { key, algorithm };
+  }
+
+  throw new WebAuthnError('UNSUPPORTED_ALGORITHM', `Unsupported COSE algorithm ${String(algorithm)}`);
+}
+
+/**
+ * Authenticators sign ECDSA as ASN.1 DER; WebCrypto wants r || s
+ */
+export function derToRawEcdsaSignature(der: Uint8Array, size: number = 32): Uint8Array {
+  const fail = () => new WebAuthnError('INVALID_SIGNATURE', 'Malformed ECDSA signature');
+  if (der[0] !== 0x30 || der[1] !== der.length - 2) throw fail();
+
+  const raw = new Uint8Array(size * 2);
+  let offset = 2;
+  for (let part = 0; part < 2; part++) {
+    if (der[offset] !== 0x02) throw fail();
+    let length = der[offset + 1];
+    let start = offset + 2;
+    offset = start + length;
+    if (offset > der.length) throw fail();
+
+    // Drop the sign-padding zero(s) DER adds to keep integers positive
+    while (length > size && der[start] === 0) {
+      start++;
+      length--;
+    }
+    if (length > size) throw fail();
+    raw.set(der.subarray(start, start + length), part * size + size - length);
+  }
+  if (offset !== der.length) throw fail();
+
+  return raw;
+}
+
+async function verifySignature(publicKey: Uint8Array, signature: Uint8Array, data: Uint8Array): Promise<boolean> {
+  const { key, algorithm } = await importCoseKey(publicKey);
+
+  if (algorithm === COSE_ALG_ES256) {
+    return crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, key, derToRawEcdsaSignature(signature), data);
+  }
+  return crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, data);
+}
+
+// ============================================================================
+// Ceremony Checks
+// ============================================================================
+
+async function checkCeremony(
+  clientData: ClientData,
+  authData: AuthenticatorData,
+  type: 'webauthn.create' | 'webauthn.get',
+  expected: ExpectedCeremony
+): Promise<void> {
+  if (clientData.type !== type) {
+    throw new WebAuthnError('TYPE_MISMATCH', `Expected a ${type} response`);
+  }
+  if (clientData.challenge !== expected.expectedChallenge) {
+    throw new WebAuthnError('CHALLENGE_MISMATCH', 'Response does not answer the issued challenge');
+  }
+
+  const origins = Array.isArray(expected.expectedOrigin) ? expected.expectedOrigin : [expected.expectedOrigin];
+  if (!origins.includes(clientData.origin) || clientData.crossOrigin) {
+    throw new WebAuthnError('ORIGIN_MISMATCH', `Unexpected origin ${clientData.origin}`);
+  }
+
+  if (!bytesEqual(authData.rpIdHash, await sha256(new TextEncoder().encode(expected.expectedRpId)))) {
+    throw new WebAuthnError('RP_ID_MISMATCH', 'Credential is scoped to a different relying party');
+  }
+  if (!authData.userPresent) {
+    throw new WebAuthnError('USER_NOT_PRESENT', 'Authenticator did not confirm user presence');
+  }
+  if (expected.requireUserVerification && !authData.userVerified) {
+    throw new WebAuthnError('USER_NOT_VERIFIED', 'Authenticator did not verify the user');
+  }
+}
+
+/**
+ * Default nickname for a new passkey, from how the authenticator connects
+ */
+export function describeAuthenticator(transports: string[], backedUp: boolean): string {
+  if (backedUp) return 'Synced passkey';
+  if (transports.includes('internal')) return 'This device';
+  if (transports.some((transport) => ['usb', 'nfc', 'ble'].includes(transport))) return 'Security key';
+  return 'Passkey';
+}
+
+/**
+ * Check a navigator.credentials.create() response. Accepts "none" and
+ * self-signed "packed" attestation: registration asks for no attestation,
+ * so there is no authenticator model to trust or reject.
+ */
+export async function verifyRegistration(input: VerifyRegistrationInput): Promise<VerifiedRegistration> {
+  const { response } = input;
+  const clientDataJSON = decodeField(response.response?.clientDataJSON, 'clientDataJSON');
+  const clientData = parseClientData(clientDataJSON);
+
+  let attestation: Map<CborValue, CborValue>;
+  try {
+    attestation = asMap(decodeCbor(decodeField(response.response.attestationObject, 'attestationObject')), 'Attestation');
+  } catch (error) {
+    if (error instanceof WebAuthnError) throw error;
+    throw new WebAuthnError('INVALID_RESPONSE', 'Malformed attestationObject');
+  }
+
+  const fmt = attestation.get('fmt');
+  const rawAuthData = attestation.get('authData');
+  const attStmt = attestation.get('attStmt');
+  if (typeof fmt !== 'string' || !(rawAuthData instanceof Uint8Array)) {
+    throw new WebAuthnError('INVALID_RESPONSE', 'Attestation is missing fmt or authData');
+  }
+
+  const authData = parseAuthenticatorData(rawAuthData);
+  await checkCeremony(clientData, authData, 'webauthn.create', input);
+
+  const credential = authData.attestedCredential;
+  if (!credential) {
+    throw new WebAuthnError('INVALID_RESPONSE', 'Attestation carries no credential');
+  }
+  const credentialId = bytesToBase64Url(credential.credentialId);
+  if (response.id !== credentialId || response.rawId !== credentialId) {
+    throw new WebAuthnError('CREDENTIAL_MISMATCH', 'Credential id does not match the authenticator data');
+  }
+
+  const algorithm = coseAlgorithm(credential.publicKey);
+  if (!SUPPORTED_ALGORITHMS.includes(algorithm)) {
+    throw new WebAuthnError('UNSUPPORTED_ALGORITHM', `Unsupported COSE algorithm ${algorithm}`);
+  }
+  // Fails early on keys that cannot be imported, before anything is stored
+  await importCoseKey(credential.publicKey);
+
+  const statement = asMap(attStmt ?? new Map(), 'Attestation statement');
+  if (fmt === 'none') {
+    if (statement.size > 0) {
+      throw new WebAuthnError('INVALID_RESPONSE', '"none" attestation must have an empty statement');
+    }
+  } else if (fmt === 'packed' && !statement.has('x5c')) {
+    const sig = statement.get('sig');
+    if (statement.get('alg') !== algorithm || !(sig instanceof Uint8Array)) {
+      throw new WebAuthnError('INVALID_RESPONSE', 'Malformed packed attestation statement');
+    }
+    const signed = concat(rawAuthData, await sha256(clientDataJSON));
+    if (!(await verifySignature(credential.publicKey, sig, signed))) {
+      throw new WebAuthnError('INVALID_SIGNATURE', 'Attestation signature is invalid');
+    }
+  } else {
+    throw new WebAuthnError('UNSUPPORTED_ATTESTATION', `Unsupported attestation format ${fmt}`);
+  }
+
+  return {
+    credentialId,
+    publicKey: bytesToBase64Url(credential.publicKey),
+    algorithm,
+    signCount: authData.signCount,
+    aaguid: credential.aaguid,
+    transports: response.response.transports ?? [],
+    attestationFormat: fmt,
+    userVerified: authData.userVerified,
+    backupEligible: authData.backupEligible,
+    backedUp: authData.backedUp,
+  };
+}
+
+/**
+ * Check a navigator.credentials.get() response against the stored
+ * credential. The caller persists newSignCount.
+ */
+export async function verifyAuthentication(input: VerifyAuthenticationInput): Promise<VerifiedAuthentication> {
+  const { response, credential } = input;
+  if (response.id !== credential.credentialId || response.rawId !== credential.credentialId) {
+    throw new WebAuthnError('CREDENTIAL_MISMATCH', 'Assertion is for a different credential');
+  }
+
+  const clientDataJSON = decodeField(response.response?.clientDataJSON, 'clientDataJSON');
+  const rawAuthData = decodeField(response.response.authenticatorData, 'authenticatorData');
+  const signature = decodeField(response.response.signature, 'signature');
+
+  const clientData = parseClientData(clientDataJSON);
+  const authData = parseAuthenticatorData(rawAuthData);
+  await checkCeremony(clientData, authData, 'webauthn.get', input);
+
+  const signed = concat(rawAuthData, await sha256(clientDataJSON));
+  if (!(await verifySignature(base64UrlToBytes(credential.publicKey), signature, signed))) {
+    throw new WebAuthnError('INVALID_SIGNATURE', 'Assertion signature is invalid');
+  }
+
+  // Counters that do not move forward point at a cloned authenticator.
+  // Authenticators without a counter (synced passkeys) always report 0.
+  if ((authData.signCount > 0 || credential.signCount > 0) && authData.signCount <= credential.signCount) {
+    throw new WebAuthnError('COUNTER_REGRESSION', 'Signature counter did not increase');
+  }
+
+  return {
+    credentialId: credential.credentialId,
+    newSignCount: authData.signCount,
+    userVerified: authData.userVerified,
+    backedUp: authData.backedUp,
+  };
+}
@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { Link } from 'react-router-dom';
+import { useState, useEffect } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useCompliance } from '../contexts/ComplianceContext';
 import { useMood } from '../contexts/MoodContext';
@@ -15,6 +15,8 @@ import { MoodLogger, QuickMoodEntry } from '../components/MoodLogger';
 import { MoodHistory, YearCalendar } from '../components/MoodHistory';
 import { AIInsights } from '../components/AIInsights';
 import { DataExport } from '../components/DataExport';
+import { DataImport } from '../components/DataImport';
+import { SyncStatusBadge } from '../components/SyncStatusBadge';
 import { DailyMoodInsight } from '../components/DailyMoodInsight';
 import { MoodTimeline } from '../components/MoodTimeline';
 import { Challenges } from '../components/Challenges';
@@ -27,6 +29,9 @@ import { ARExperienceHub } from '../components/ARExperienceHub';
 import BreathingExerciseComponent from '../components/BreathingExercise';
 import SleepRestComponent from '../components/SleepRest';
 import ExerciseMovementComponent from '../components/ExerciseMovement';
+import { InterventionSettings } from '../components/InterventionSettings';
+import { ChatAssistant } from '../components/ChatAssistant';
+import { interventionEngine, collectInterventionData } from '../services/interventions';
 import {
   Shield,
   Settings,
@@ -54,15 +59,18 @@ import {
   Wind,
   Cloud,
   Dumbbell,
+  LifeBuoy,
+  MessageCircle,
 } from 'lucide-react';
 
-type DashboardView = 'overview' | 'statistics' | 'history' | 'calendar' | 'insights' | 'export' | 'wellness' | 'timeline' | 'challenges' | 'leaderboard' | 'achievements' | 'meditation' | 'yoga' | 'music' | 'ar' | 'breathing' | 'sleep' | 'exercise';
+type DashboardView = 'overview' | 'statistics' | 'history' | 'calendar' | 'insights' | 'export' | 'wellness' | 'timeline' | 'challenges' | 'leaderboard' | 'achievements' | 'meditation' | 'yoga' | 'music' | 'ar' | 'breathing' | 'sleep' | 'exercise' | 'interventions' | 'assistant';
 
 export function Dashboard() {
   const { user, logout } = useAuth();
   const { getComplianceStatus } = useCompliance();
   const { entries } = useMood();
   const { profile } = useGamification();
+  const location = useLocation();
 
   const [selectedPeriod, setSelectedPeriod] = useState<'week' | 'month' | 'year'>('week');
   const [showUserMenu, setShowUserMenu] = useState(false);
@@ -72,6 +80,15 @@ export function Dashboard() {
 
   const gdprStatus = getComplianceStatus('gdpr');
 
+  // Evaluate intervention triggers whenever new moods come in
+  useEffect(() => {
+    if (!user || entries.length === 0) return;
+
+    collectInterventionData(user.id, entries)
+      .then((data) => interventionEngine.run(user.id, data, { email: user.email, name: user.name }))
+      .catch((error) => console.error('[Interventions] Check failed:', error));
+  }, [user, entries]);
+
   const getGreeting = () => {
     const hour = new Date().getHours();
     if (hour < 12) return 'Good morning';
@@ -102,7 +119,9 @@ export function Dashboard() {
     { id: 'history' as DashboardView, icon: History, label: 'History' },
     { id: 'calendar' as DashboardView, icon: Calendar, label: 'Calendar' },
     { id: 'insights' as DashboardView, icon: Brain, label: 'AI Insights' },
+    { id: 'assistant' as DashboardView, icon: MessageCircle, label: 'Assistant' },
     { id: 'export' as DashboardView, icon: Download, label: 'Export' },
+    { id: 'interventions' as DashboardView, icon: LifeBuoy, label: 'Check-ins' },
   ];
 
   const arNavItems = [
@@ -111,6 +130,18 @@ export function Dashboard() {
 
   const allNavItems = [...mainNavItems, ...wellnessNavItems, ...toolsNavItems, ...arNavItems];
 
+  // Deep links such as /dashboard?view=breathing from intervention notifications
+  const searchParams = new URLSearchParams(location.search);
+  const requestedView = searchParams.get('view');
+  const friendInvite = searchParams.get('friend_invite');
+  const isKnownView = allNavItems.some((item) => item.id === requestedView);
+
+  useEffect(() => {
+    if (isKnownView) {
+      setCurrentView(requestedView as DashboardView);
+    }
+  }, [requestedView, isKnownView]);
+
   return (
     <div className="min-h-screen bg-slate-900">
       {/* Header */}
@@ -177,6 +208,9 @@ export function Dashboard() {
               <span className="text-xs text-slate-300">E2E Encrypted</span>
             </div>
 
+            {/* Sync Status Badge */}
+            <SyncStatusBadge />
+
             {/* Compliance Badge */}
             <div className="hidden md:flex items-center gap-2 glass px-3 py-1.5 rounded-full">
               <Shield className="w-3 h-3 text-violet-400" />
@@ -434,10 +468,14 @@ export function Dashboard() {
           <>
             <div className="mb-8">
               <h2 className="text-3xl font-bold text-white mb-2">Data Export</h2>
-              <p className="text-slate-400">Export your mood data in various formats</p>
+              <p className="text-slate-400">Export your mood data in various formats, or import it from elsewhere</p>
             </div>
 
             <DataExport />
+
+            <div className="mt-8">
+              <DataImport />
+            </div>
           </>
         )}
 
@@ -485,7 +523,7 @@ export function Dashboard() {
               <p className="text-slate-400">See how you rank against other users</p>
             </div>
 
-            <Leaderboard />
+            <Leaderboard friendInvite={friendInvite} />
           </>
         )}
 
@@ -573,6 +611,30 @@ export function Dashboard() {
           </>
         )}
 
+        {/* Interventions View */}
+        {currentView === 'interventions' && (
+          <>
+            <div className="mb-8">
+              <h2 className="text-3xl font-bold text-white mb-2">Automatic Check-ins</h2>
+              <p className="text-slate-400">Set up triggers that reach out when your data shows you could use support</p>
+            </div>
+
+            <InterventionSettings />
+          </>
+        )}
+
+        {/* Assistant View */}
+        {currentView === 'assistant' && (
+          <>
+            <div className="mb-8">
+              <h2 className="text-3xl font-bold text-white mb-2">Assistant</h2>
+              <p className="text-slate-400">Talk things through with a companion that knows your recent moods</p>
+            </div>
+
+            <ChatAssistant />
+          </>
+        )}
+
         {/* AR Experience View */}
         {currentView === 'ar' && (
           <ARExperienceHub
@@ -1,17 +1,46 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useCompliance } from '../contexts/ComplianceContext';
-import { Shield, Eye, Download, Trash2, Cookie, CheckCircle, AlertTriangle, ChevronRight, FileText, Globe, Lock } from 'lucide-react';
+import { Shield, Eye, Download, Trash2, Cookie, CheckCircle, AlertTriangle, ChevronRight, FileText, Globe, Lock, Clock, Share2 } from 'lucide-react';
+import { formatDate } from '../lib/backendUtils';
 import type { ConsentType, DataRequest } from '../contexts/ComplianceContext';
+import type { DataRequestFramework } from '../services/dataRights';
+import { DATA_FLOWS } from '../lib/dataFlowPolicy';
+import type { TransferOutcome } from '../lib/dataFlowPolicy';
 
 type DataRequestType = DataRequest['type'];
 
+const requestLabels: Record<DataRequestType, string> = {
+  access: 'Access Request',
+  rectification: 'Correction Request',
+  erasure: 'Deletion Request',
+  portability: 'Data Portability',
+  restriction: 'Restriction Request',
+  objection: 'Objection',
+};
+
+const downloadArchive = (data: string) => {
+  const blob = new Blob([data], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `moodmash-data-export-${new Date().toISOString().split('T')[0]}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const transferOutcomeStyles: Record<TransferOutcome, { label: string; className: string }> = {
+  allowed: { label: 'Sent', className: 'text-emerald-400' },
+  redacted: { label: 'Sent, redacted', className: 'text-amber-400' },
+  blocked: { label: 'Blocked', className: 'text-slate-500' },
+};
+
 const consentItems: { type: ConsentType; label: string; description: string; required?: boolean }[] = [
   { type: 'essential', label: 'Essential Cookies', description: 'Required for the app to function properly', required: true },
   { type: 'analytics', label: 'Analytics', description: 'Help us understand how you use the app', required: false },
   { type: 'marketing', label: 'Marketing', description: 'Used for personalized advertisements', required: false },
-  { type: 'personalization', label: 'Personalization', description: 'Customize your experience', required: false },
-  { type: 'third_party', label: 'Third-Party Sharing', description: 'Share data with trusted partners', required: false },
+  { type: 'personalization', label: 'Personalization', description: 'Use your notes, journal and health data to tailor insights', required: false },
+  { type: 'third_party', label: 'Third-Party Sharing', description: 'Send data to hosted AI providers and wearable services', required: false },
 ];
 
 export function PrivacySettings() {
@@ -20,45 +49,57 @@ export function PrivacySettings() {
     setConsent,
     acceptAllConsents,
     submitDataRequest,
-    getComplianceStatus,
+    cancelDataRequest,
+    consentLedger,
+    transferLog,
+    refreshTransferLog,
+    dataRequests,
+    complianceStatuses,
     exportUserData,
     deleteUserData,
   } = useCompliance();
 
   const [activeTab, setActiveTab] = useState<'overview' | 'consents' | 'data' | 'rights'>('overview');
   const [dataRequestType, setDataRequestType] = useState<DataRequestType>('access');
+  const [dataRequestFramework, setDataRequestFramework] = useState<DataRequestFramework>('gdpr');
   const [dataRequestReason, setDataRequestReason] = useState('');
   const [showDeleteConfirmation, setShowDeleteConfirmation] = useState(false);
   const [deleteConfirmText, setDeleteConfirmText] = useState('');
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
 
+  useEffect(() => {
+    if (activeTab !== 'data') return;
+    refreshTransferLog().catch(() => undefined);
+  }, [activeTab, refreshTransferLog]);
+
   const showNotification = (type: 'success' | 'error', text: string) => {
     setMessage({ type, text });
     setTimeout(() => setMessage(null), 5000);
   };
 
-  const handleToggleConsent = (type: ConsentType, current: boolean) => {
-    setConsent(type, !current);
-    showNotification('success', `${type.charAt(0).toUpperCase() + type.slice(1)} consent ${!current ? 'enabled' : 'disabled'}`);
+  const handleToggleConsent = async (type: ConsentType, current: boolean) => {
+    try {
+      await setConsent(type, !current, 'privacy_settings');
+      showNotification('success', `${type.charAt(0).toUpperCase() + type.slice(1)} consent ${!current ? 'enabled' : 'disabled'}`);
+    } catch {
+      showNotification('error', 'Failed to save your consent choice');
+    }
   };
 
-  const handleAcceptAll = () => {
-    acceptAllConsents();
-    showNotification('success', 'All optional consents have been enabled');
+  const handleAcceptAll = async () => {
+    try {
+      await acceptAllConsents('privacy_settings');
+      showNotification('success', 'All optional consents have been enabled');
+    } catch {
+      showNotification('error', 'Failed to save your consent choices');
+    }
   };
 
   const handleExportData = async () => {
     setIsProcessing(true);
     try {
-      const data = await exportUserData();
-      const blob = new Blob([data], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `moodmash-data-export-${new Date().toISOString().split('T')[0]}.json`;
-      a.click();
-      URL.revokeObjectURL(url);
+      downloadArchive(await exportUserData('portability', { framework: dataRequestFramework }));
       showNotification('success', 'Your data has been exported successfully');
     } catch {
       showNotification('error', 'Failed to export data');
@@ -68,10 +109,23 @@ export function PrivacySettings() {
   };
 
   const handleSubmitDataRequest = async () => {
+    // Erasure cannot be undone, so it always goes through the typed confirmation
+    if (dataRequestType === 'erasure') {
+      setActiveTab('data');
+      setShowDeleteConfirmation(true);
+      return;
+    }
+
     setIsProcessing(true);
     try {
-      const requestId = await submitDataRequest(dataRequestType);
-      showNotification('success', `Data request submitted. Reference ID: ${requestId}`);
+      const options = { framework: dataRequestFramework, reason: dataRequestReason };
+      if (dataRequestType === 'access' || dataRequestType === 'portability') {
+        downloadArchive(await exportUserData(dataRequestType, options));
+        showNotification('success', 'Your request has been fulfilled and your data downloaded');
+      } else {
+        const requestId = await submitDataRequest(dataRequestType, options);
+        showNotification('success', `Data request submitted. Reference ID: ${requestId}`);
+      }
       setDataRequestReason('');
     } catch {
       showNotification('error', 'Failed to submit data request');
@@ -80,6 +134,15 @@ export function PrivacySettings() {
     }
   };
 
+  const handleCancelRequest = async (requestId: string) => {
+    try {
+      await cancelDataRequest(requestId);
+      showNotification('success', 'Data request cancelled');
+    } catch {
+      showNotification('error', 'Failed to cancel data request');
+    }
+  };
+
   const handleDeleteAccount = async () => {
     if (deleteConfirmText !== 'DELETE') {
       showNotification('error', 'Please type DELETE to confirm');
@@ -88,7 +151,7 @@ export function PrivacySettings() {
 
     setIsProcessing(true);
     try {
-      await deleteUserData();
+      await deleteUserData({ framework: dataRequestFramework, reason: dataRequestReason });
       showNotification('success', 'Your account and data have been deleted');
       setShowDeleteConfirmation(false);
       setDeleteConfirmText('');
@@ -99,14 +162,6 @@ export function PrivacySettings() {
     }
   };
 
-  const complianceStatuses = {
-    gdpr: getComplianceStatus('gdpr'),
-    ccpa: getComplianceStatus('ccpa'),
-    pipeda: getComplianceStatus('pipeda'),
-    hipaa: getComplianceStatus('hipaa'),
-    soc2: getComplianceStatus('soc2'),
-  };
-
   return (
     <div className="min-h-screen bg-slate-900">
       {/* Notification */}
@@ -182,11 +237,13 @@ export function PrivacySettings() {
                   <p className="text-slate-400">Your privacy protection level</p>
                   <div className="grid grid-cols-2 gap-4 mt-4">
                     <div className="p-4 bg-white/5 rounded-xl">
-                      <p className="text-2xl font-bold text-white">4/5</p>
+                      <p className="text-2xl font-bold text-white">
+                        {consentItems.filter((item) => getConsent(item.type)).length}/{consentItems.length}
+                      </p>
                       <p className="text-slate-400 text-sm">Consents Enabled</p>
                     </div>
                     <div className="p-4 bg-white/5 rounded-xl">
-                      <p className="text-2xl font-bold text-white">5</p>
+                      <p className="text-2xl font-bold text-white">{complianceStatuses.length}</p>
                       <p className="text-slate-400 text-sm">Compliance Frameworks</p>
                     </div>
                   </div>
@@ -235,19 +292,20 @@ export function PrivacySettings() {
             <div className="glass rounded-2xl p-6 col-span-full md:col-span-1">
               <h2 className="text-xl font-semibold text-white mb-4">Compliance Status</h2>
               <div className="space-y-4">
-                {[
-                  { name: 'GDPR', status: complianceStatuses.gdpr?.compliant ? 'Compliant' : 'Pending' },
-                  { name: 'CCPA', status: complianceStatuses.ccpa?.compliant ? 'Compliant' : 'Pending' },
-                  { name: 'PIPEDA', status: complianceStatuses.pipeda?.compliant ? 'Compliant' : 'Pending' },
-                  { name: 'HIPAA', status: complianceStatuses.hipaa?.compliant ? 'Compliant' : 'Pending' },
-                  { name: 'SOC 2', status: complianceStatuses.soc2?.compliant ? 'Compliant' : 'Pending' },
-                ].map((item) => (
-                  <div key={item.name} className="flex items-center justify-between">
-                    <span className="text-slate-300">{item.name}</span>
-                    <span className="flex items-center gap-2 text-emerald-400">
-                      <CheckCircle className="w-4 h-4" />
-                      {item.status}
-                    </span>
+                {complianceStatuses.map((status) => (
+                  <div key={status.framework} className="flex items-center justify-between">
+                    <span className="text-slate-300">{status.framework.toUpperCase()}</span>
+                    {status.compliant ? (
+                      <span className="flex items-center gap-2 text-emerald-400">
+                        <CheckCircle className="w-4 h-4" />
+                        {status.openRequests > 0 ? `${status.openRequests} open, on time` : 'On time'}
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-2 text-red-400">
+                        <AlertTriangle className="w-4 h-4" />
+                        {status.overdueRequests} overdue
+                      </span>
+                    )}
                   </div>
                 ))}
               </div>
@@ -347,6 +405,27 @@ export function PrivacySettings() {
               >
                 Enable All Optional Consents
               </button>
+
+              {consentLedger.length > 0 && (
+                <div className="mt-8">
+                  <h3 className="text-sm font-medium text-slate-300 mb-3">Consent History</h3>
+                  <div className="space-y-2">
+                    {consentLedger.slice(-10).reverse().map((entry) => (
+                      <div key={entry.id} className="flex items-center justify-between text-sm p-3 bg-white/5 rounded-lg">
+                        <span className="text-slate-300">
+                          {consentItems.find((item) => item.type === entry.consent_type)?.label ?? entry.consent_type}
+                          <span className={entry.granted ? 'text-emerald-400' : 'text-slate-500'}>
+                            {entry.granted ? ' granted' : ' withdrawn'}
+                          </span>
+                        </span>
+                        <span className="text-xs text-slate-500">
+                          v{entry.policy_version} · {entry.source === 'cookie_banner' ? 'Consent banner' : 'Privacy settings'} · {formatDate(entry.recorded_at)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -379,6 +458,43 @@ export function PrivacySettings() {
               </button>
             </div>
 
+            {/* Data Sharing Activity */}
+            <div className="glass rounded-2xl p-8 mb-6">
+              <div className="flex items-center gap-4 mb-6">
+                <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-sky-500 to-violet-500 flex items-center justify-center">
+                  <Share2 className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <h2 className="text-xl font-semibold text-white">Data Sharing Activity</h2>
+                  <p className="text-slate-400 text-sm">Every time your data was sent outside MoodMash, or held back</p>
+                </div>
+              </div>
+
+              {transferLog.length === 0 ? (
+                <p className="text-slate-400 text-sm">Nothing has been shared with outside services yet.</p>
+              ) : (
+                <div className="space-y-2">
+                  {transferLog.map((transfer) => (
+                    <div key={transfer.id} className="flex items-center justify-between text-sm p-3 bg-white/5 rounded-lg">
+                      <span className="text-slate-300">
+                        {DATA_FLOWS[transfer.flow]?.label ?? transfer.flow} → {transfer.destination}
+                        <span className={transferOutcomeStyles[transfer.outcome].className}>
+                          {' '}{transferOutcomeStyles[transfer.outcome].label}
+                        </span>
+                      </span>
+                      <span className="text-xs text-slate-500">
+                        {transfer.outcome === 'blocked'
+                          ? `Needs ${transfer.missing_consents.map((type) => consentItems.find((item) => item.type === type)?.label ?? type).join(', ')}`
+                          : `${transfer.record_count} item${transfer.record_count === 1 ? '' : 's'}`}
+                        {transfer.redacted_fields.length > 0 && ` without ${transfer.redacted_fields.join(', ')}`}
+                        {' · '}{formatDate(transfer.transferred_at)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* Delete Account */}
             <div className="glass rounded-2xl p-8 border border-red-500/20">
               <div className="flex items-center gap-4 mb-6">
@@ -393,7 +509,7 @@ export function PrivacySettings() {
 
               <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-4 mb-6">
                 <p className="text-red-400 text-sm">
-                  Warning: This action is irreversible. All your data will be permanently deleted within 30 days.
+                  Warning: This action is irreversible. All your data is deleted immediately; only a record of the request and how many items were removed is kept.
                 </p>
               </div>
 
@@ -479,6 +595,27 @@ export function PrivacySettings() {
                 ))}
               </div>
 
+              <div className="mb-6">
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Applicable Law
+                </label>
+                <div className="flex gap-2">
+                  {(['gdpr', 'ccpa'] as const).map((framework) => (
+                    <button
+                      key={framework}
+                      onClick={() => setDataRequestFramework(framework)}
+                      className={`flex-1 py-2 rounded-xl text-sm font-medium transition-all ${
+                        dataRequestFramework === framework
+                          ? 'bg-violet-500/20 border border-violet-500/30 text-white'
+                          : 'bg-white/5 border border-transparent text-slate-400 hover:bg-white/10'
+                      }`}
+                    >
+                      {framework.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
               <div className="mb-6">
                 <label className="block text-sm font-medium text-slate-300 mb-2">
                   Reason for Request (Optional)
@@ -501,6 +638,42 @@ export function PrivacySettings() {
               </button>
             </div>
 
+            {/* Request History */}
+            {dataRequests.length > 0 && (
+              <div className="glass rounded-2xl p-8 mb-6">
+                <h2 className="text-xl font-semibold text-white mb-4">Your Requests</h2>
+                <div className="space-y-3">
+                  {dataRequests.map((request) => (
+                    <div key={request.id} className="flex items-center justify-between p-4 bg-white/5 rounded-xl">
+                      <div>
+                        <p className="text-white font-medium">
+                          {requestLabels[request.type]}
+                          <span className="ml-2 text-xs text-slate-500">{request.framework.toUpperCase()}</span>
+                        </p>
+                        <p className={`text-sm flex items-center gap-1 ${request.overdue ? 'text-red-400' : 'text-slate-400'}`}>
+                          <Clock className="w-3 h-3" />
+                          {request.completedAt
+                            ? `Completed ${formatDate(request.completedAt)}`
+                            : `${request.overdue ? 'Overdue since' : 'Due by'} ${formatDate(request.dueAt)}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="px-2 py-1 bg-slate-700 rounded text-xs text-slate-300 capitalize">{request.status}</span>
+                        {request.status === 'pending' && (
+                          <button
+                            onClick={() => handleCancelRequest(request.id)}
+                            className="text-sm text-slate-400 hover:text-white transition-colors"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Compliance Info */}
             <div className="glass rounded-2xl p-8">
               <h2 className="text-xl font-semibold text-white mb-4">Applicable Regulations</h2>
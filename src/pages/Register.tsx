@@ -34,6 +34,9 @@ const passwordRequirements: PasswordRequirement[] = [
   { test: (p: string) => /[!@#$%^&*()_+\-={};':"|,.<>?[\]]/.test(p), label: 'One special character' },
 ];
 
+const BREACH_CHECK_DELAY_MS = 400;
+const BREACHED_MESSAGE = 'This password has been found in a data breach. Please choose a different password.';
+
 export function Register() {
   const navigate = useNavigate();
   const { register, loginWithEmail, isLoading, validatePassword, checkBreachedPassword } = useAuth();
@@ -54,25 +57,29 @@ export function Register() {
 
   // Real-time password validation
   useEffect(() => {
-    if (form.password.length > 0) {
-      const result = validatePassword(form.password);
-      setPasswordStrength(result.strength);
+    setIsBreached(false);
 
-      // Check for breached password
-      if (result.isValid) {
-        setIsBreached(false);
-        checkBreachedPassword(form.password).then((breached) => {
-          setIsBreached(breached);
-        }).catch(() => {
-          setIsBreached(false);
-        });
-      } else {
-        setIsBreached(false);
-      }
-    } else {
+    if (form.password.length === 0) {
       setPasswordStrength('weak');
-      setIsBreached(false);
+      return;
     }
+
+    const result = validatePassword(form.password);
+    setPasswordStrength(result.strength);
+    if (!result.isValid) return;
+
+    // Check for breached password once typing pauses, ignoring stale answers
+    let current = true;
+    const timer = setTimeout(() => {
+      checkBreachedPassword(form.password)
+        .then((breached) => current && setIsBreached(breached))
+        .catch(() => current && setIsBreached(false));
+    }, BREACH_CHECK_DELAY_MS);
+
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
   }, [form.password, validatePassword, checkBreachedPassword]);
 
   const getStrengthColor = useCallback((strength: PasswordStrength): string => {
@@ -133,7 +140,7 @@ export function Register() {
 
       // Check for breached password
       if (isBreached) {
-        newErrors.password = 'This password has been found in a data breach. Please choose a different password.';
+        newErrors.password = BREACHED_MESSAGE;
       }
 
       if (!agreedToTerms) {
@@ -154,6 +161,13 @@ export function Register() {
 
     if (step === 'details') {
       if (!validateForm()) return;
+
+      // The live check may not have answered yet
+      if (await checkBreachedPassword(form.password)) {
+        setIsBreached(true);
+        setErrors({ password: BREACHED_MESSAGE });
+        return;
+      }
       setStep('security');
       return;
     }
@@ -1,44 +1,68 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { Shield, Key, Smartphone, Fingerprint, Mail, CheckCircle, XCircle, Trash2, ExternalLink, AlertTriangle, Lock } from 'lucide-react';
-
-interface SecurityItem {
-  id: string;
-  name: string;
-  enabled: boolean;
-  addedAt: Date;
-  lastUsed?: Date;
-}
+import type { Session, TwoFactorSetup } from '../contexts/AuthContext';
+import type { PasskeyRecord } from '../services/passkeys';
+import { useEncryption } from '../contexts/EncryptionContext';
+import { downloadFile } from '../utils/patternAnalysis';
+import { reencryptMoodNotes } from '../services/moodService';
+import { reencryptJournalEntries } from '../services/journalService';
+import { getRelativeTime } from '../lib/backendUtils';
+import { Shield, Key, Smartphone, Fingerprint, CheckCircle, XCircle, Trash2, Pencil, ExternalLink, AlertTriangle, Lock, Monitor, Unlock, RefreshCw, Download, Upload } from 'lucide-react';
 
 export function SecuritySettings() {
   const {
     user,
+    session: currentSession,
     setup2FA,
     verify2FA,
     disable2FA,
+    getTwoFactorStatus,
+    regenerateBackupCodes,
     registerPasskey,
+    listPasskeys,
+    renamePasskey,
     removePasskey,
     enableBiometric,
     disableBiometric,
+    getSessions,
+    subscribeToSessions,
     revokeSession,
     revokeAllSessions,
     requestPasswordReset,
+    changePassword,
     isLoading
   } = useAuth();
+  const {
+    hasKeyring,
+    isUnlocked,
+    encryptionKeyId,
+    keyVersion,
+    status: encryptionStatus,
+    createKeyring,
+    unlock,
+    lock,
+    rotateKey,
+    exportKey,
+    importKey,
+  } = useEncryption();
 
-  const [activeTab, setActiveTab] = useState<'overview' | '2fa' | 'passkeys' | 'sessions'>('overview');
-  const [show2FASetup, setShow2FASetup] = useState(false);
+  const [activeTab, setActiveTab] = useState<'overview' | '2fa' | 'passkeys' | 'sessions' | 'encryption'>('overview');
+  const [passphrase, setPassphrase] = useState('');
+  const [isKeyBusy, setIsKeyBusy] = useState(false);
+  const [twoFactorSetup, setTwoFactorSetup] = useState<TwoFactorSetup | null>(null);
   const [verificationCode, setVerificationCode] = useState('');
-  const [secretKey] = useState('JBSWY3DPEHPK3PXP');
-  const [passkeys, setPasskeys] = useState<SecurityItem[]>([
-    { id: '1', name: 'MacBook Pro Touch ID', enabled: true, addedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), lastUsed: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000) },
-    { id: '2', name: 'iPhone Face ID', enabled: true, addedAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), lastUsed: new Date(Date.now() - 2 * 60 * 60 * 1000) },
-  ]);
-  const [sessions, setSessions] = useState<SecurityItem[]>([
-    { id: '1', name: 'Chrome on macOS', enabled: true, addedAt: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000), lastUsed: new Date() },
-    { id: '2', name: 'Safari on iPhone', enabled: true, addedAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000), lastUsed: new Date(Date.now() - 1 * 60 * 60 * 1000) },
-  ]);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
+  const [newBackupCodes, setNewBackupCodes] = useState<string[]>([]);
+  const [remainingBackupCodes, setRemainingBackupCodes] = useState<number | null>(null);
+  const [isTwoFactorBusy, setIsTwoFactorBusy] = useState(false);
+  const [passkeys, setPasskeys] = useState<PasskeyRecord[]>([]);
+  const [passkeyNickname, setPasskeyNickname] = useState('');
+  const [editingPasskey, setEditingPasskey] = useState<{ id: string; nickname: string } | null>(null);
+  const [isPasskeyBusy, setIsPasskeyBusy] = useState(false);
+  const [passwordForm, setPasswordForm] = useState<{ password: string; confirm: string } | null>(null);
+  const [isPasswordBusy, setIsPasswordBusy] = useState(false);
+  const [sessions, setSessions] = useState<Session[]>([]);
   const [biometricEnabled, setBiometricEnabled] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
@@ -47,54 +71,116 @@ export function SecuritySettings() {
     setTimeout(() => setMessage(null), 5000);
   };
 
-  const handleSetup2FA = async () => {
+  useEffect(() => {
+    if (activeTab !== '2fa' || !user?.twoFactorEnabled) return;
+
+    getTwoFactorStatus()
+      .then((status) => setRemainingBackupCodes(status.remainingBackupCodes))
+      .catch(() => setRemainingBackupCodes(null));
+  }, [activeTab, user?.twoFactorEnabled, getTwoFactorStatus]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    listPasskeys()
+      .then(setPasskeys)
+      .catch(() => setPasskeys([]));
+  }, [user, listPasskeys]);
+
+  useEffect(() => {
+    if (activeTab !== 'sessions') return;
+
+    getSessions()
+      .then(setSessions)
+      .catch(() => showNotification('error', 'Failed to load sessions.'));
+    return subscribeToSessions(setSessions);
+  }, [activeTab, getSessions, subscribeToSessions]);
+
+  const runTwoFactorAction = async (action: () => Promise<void>) => {
+    setIsTwoFactorBusy(true);
+    try {
+      await action();
+    } finally {
+      setIsTwoFactorBusy(false);
+    }
+  };
+
+  const downloadBackupCodes = (codes: string[]) => {
+    downloadFile(
+      `MoodMash backup codes for ${user?.email ?? 'your account'}\nEach code works once.\n\n${codes.join('\n')}\n`,
+      'moodmash-backup-codes.txt',
+      'text/plain'
+    );
+  };
+
+  const handleSetup2FA = () => runTwoFactorAction(async () => {
     try {
-      await setup2FA();
-      setShow2FASetup(true);
+      setTwoFactorSetup(await setup2FA());
+      setNewBackupCodes([]);
       showNotification('success', '2FA setup initiated. Please scan the QR code.');
     } catch {
       showNotification('error', 'Failed to setup 2FA. Please try again.');
     }
-  };
+  });
 
-  const handleVerify2FA = async () => {
+  const handleVerify2FA = () => runTwoFactorAction(async () => {
     try {
       await verify2FA(verificationCode);
-      setShow2FASetup(false);
+      setTwoFactorSetup(null);
       setVerificationCode('');
       showNotification('success', '2FA enabled successfully!');
     } catch {
       showNotification('error', 'Invalid verification code.');
     }
-  };
+  });
 
-  const handleDisable2FA = async () => {
-    const code = prompt('Enter your current 2FA code to disable:');
-    if (!code || code.length !== 6) {
+  const handleDisable2FA = () => runTwoFactorAction(async () => {
+    try {
+      await disable2FA(twoFactorCode);
+      setTwoFactorCode('');
+      setNewBackupCodes([]);
+      showNotification('success', '2FA has been disabled.');
+    } catch {
       showNotification('error', 'Invalid 2FA code.');
-      return;
     }
+  });
+
+  const handleRegenerateBackupCodes = () => runTwoFactorAction(async () => {
     try {
-      await disable2FA(code);
-      showNotification('success', '2FA has been disabled.');
+      const codes = await regenerateBackupCodes(twoFactorCode);
+      setNewBackupCodes(codes);
+      setRemainingBackupCodes(codes.length);
+      setTwoFactorCode('');
+      showNotification('success', 'New backup codes generated. Your old codes no longer work.');
     } catch {
-      showNotification('error', 'Failed to disable 2FA.');
+      showNotification('error', 'Enter a current code from your authenticator app.');
     }
-  };
+  });
 
   const handleRegisterPasskey = async () => {
+    setIsPasskeyBusy(true);
     try {
-      await registerPasskey();
-      const newPasskey: SecurityItem = {
-        id: Date.now().toString(),
-        name: 'New Passkey',
-        enabled: true,
-        addedAt: new Date(),
-      };
-      setPasskeys([...passkeys, newPasskey]);
-      showNotification('success', 'Passkey registered successfully!');
+      const passkey = await registerPasskey(passkeyNickname);
+      setPasskeys((prev) => [...prev, passkey]);
+      setPasskeyNickname('');
+      showNotification('success', `Passkey "${passkey.nickname}" registered successfully!`);
+    } catch (error) {
+      showNotification('error', error instanceof Error && error.message === 'passkey_not_supported'
+        ? 'This browser does not support passkeys.'
+        : 'Failed to register passkey.');
+    } finally {
+      setIsPasskeyBusy(false);
+    }
+  };
+
+  const handleRenamePasskey = async () => {
+    if (!editingPasskey) return;
+    try {
+      await renamePasskey(editingPasskey.id, editingPasskey.nickname);
+      setPasskeys(await listPasskeys());
+      setEditingPasskey(null);
     } catch {
-      showNotification('error', 'Failed to register passkey.');
+      showNotification('error', 'Failed to rename passkey.');
     }
   };
 
@@ -137,13 +223,104 @@ export function SecuritySettings() {
   const handleRevokeAllSessions = async () => {
     try {
       await revokeAllSessions();
-      setSessions([]);
+      setSessions(sessions.filter(s => s.id === currentSession?.id));
       showNotification('success', 'All other sessions have been revoked.');
     } catch {
       showNotification('error', 'Failed to revoke sessions.');
     }
   };
 
+  const handleUnlock = async () => {
+    setIsKeyBusy(true);
+    try {
+      if (!hasKeyring) {
+        await createKeyring(passphrase);
+        setPassphrase('');
+        showNotification('success', 'Encryption keys created for this device.');
+        return;
+      }
+
+      const ok = await unlock(passphrase);
+      if (ok) {
+        setPassphrase('');
+        showNotification('success', 'Encryption keys unlocked.');
+      } else {
+        showNotification('error', 'Incorrect passphrase.');
+      }
+    } catch (error) {
+      showNotification('error', error instanceof Error ? error.message : 'Failed to unlock encryption keys.');
+    } finally {
+      setIsKeyBusy(false);
+    }
+  };
+
+  const handleRotateKey = async () => {
+    setIsKeyBusy(true);
+    try {
+      await rotateKey();
+      // Bring stored notes and journals onto the new key; older keys stay readable meanwhile
+      const [moods, journals] = await Promise.all([reencryptMoodNotes(), reencryptJournalEntries()]);
+      if (moods.success && journals.success) {
+        showNotification('success', 'Encryption key rotated and your entries were re-encrypted.');
+      } else {
+        showNotification('success', 'Encryption key rotated. Some entries could not be re-encrypted and still use the previous key.');
+      }
+    } catch {
+      showNotification('error', 'Failed to rotate encryption key.');
+    } finally {
+      setIsKeyBusy(false);
+    }
+  };
+
+  const handleExportKey = async () => {
+    const exportPassphrase = prompt('Choose a passphrase to protect the exported key file:');
+    if (!exportPassphrase) return;
+    setIsKeyBusy(true);
+    try {
+      const keyFile = await exportKey(exportPassphrase);
+      downloadFile(keyFile, `moodmash-keys-${new Date().toISOString().split('T')[0]}.json`, 'application/json');
+      showNotification('success', 'Key file exported. Store it somewhere safe.');
+    } catch {
+      showNotification('error', 'Failed to export encryption keys.');
+    } finally {
+      setIsKeyBusy(false);
+    }
+  };
+
+  const handleImportKey = async (file: File | undefined) => {
+    if (!file) return;
+    const importPassphrase = prompt('Enter the passphrase for this key file:');
+    if (!importPassphrase) return;
+    setIsKeyBusy(true);
+    try {
+      await importKey(await file.text(), importPassphrase);
+      showNotification('success', 'Encryption keys imported.');
+    } catch (error) {
+      showNotification('error', error instanceof Error ? error.message : 'Failed to import encryption keys.');
+    } finally {
+      setIsKeyBusy(false);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    if (!passwordForm) return;
+    setIsPasswordBusy(true);
+    try {
+      await changePassword(passwordForm.password);
+      setPasswordForm(null);
+      showNotification('success', 'Password changed.');
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : '';
+      showNotification('error', reason === 'password_breached'
+        ? 'This password has appeared in a data breach. Please choose a different one.'
+        : reason === 'invalid_password'
+          ? 'Use at least 8 characters with upper and lower case letters, a number and a symbol.'
+          : 'Failed to change password.');
+    } finally {
+      setIsPasswordBusy(false);
+    }
+  };
+
   const handlePasswordReset = async () => {
     try {
       await requestPasswordReset(user?.email || '');
@@ -192,6 +369,7 @@ export function SecuritySettings() {
             { id: '2fa', label: 'Two-Factor', icon: Smartphone },
             { id: 'passkeys', label: 'Passkeys', icon: Key },
             { id: 'sessions', label: 'Sessions', icon: Lock },
+            { id: 'encryption', label: 'Encryption', icon: Key },
           ].map((tab) => (
             <button
               key={tab.id}
@@ -270,7 +448,7 @@ export function SecuritySettings() {
                   <ExternalLink className="w-4 h-4 text-slate-400" />
                 </button>
                 <button
-                  onClick={handlePasswordReset}
+                  onClick={() => setPasswordForm(passwordForm ? null : { password: '', confirm: '' })}
                   className="w-full flex items-center justify-between p-4 bg-white/5 rounded-xl hover:bg-white/10 transition-colors"
                 >
                   <div className="flex items-center gap-3">
@@ -279,6 +457,41 @@ export function SecuritySettings() {
                   </div>
                   <ExternalLink className="w-4 h-4 text-slate-400" />
                 </button>
+                {passwordForm && (
+                  <form
+                    onSubmit={(e) => { e.preventDefault(); handleChangePassword(); }}
+                    className="space-y-3 p-4 bg-white/5 rounded-xl"
+                  >
+                    <input
+                      type="password"
+                      autoComplete="new-password"
+                      value={passwordForm.password}
+                      onChange={(e) => setPasswordForm({ ...passwordForm, password: e.target.value })}
+                      placeholder="New password"
+                      className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:border-violet-500"
+                    />
+                    <input
+                      type="password"
+                      autoComplete="new-password"
+                      value={passwordForm.confirm}
+                      onChange={(e) => setPasswordForm({ ...passwordForm, confirm: e.target.value })}
+                      placeholder="Confirm new password"
+                      className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:border-violet-500"
+                    />
+                    <div className="flex items-center justify-between">
+                      <button type="button" onClick={handlePasswordReset} className="text-slate-400 hover:text-white text-sm">
+                        Email me a reset link instead
+                      </button>
+                      <button
+                        type="submit"
+                        disabled={isPasswordBusy || !passwordForm.password || passwordForm.password !== passwordForm.confirm}
+                        className="px-4 py-2 bg-gradient-to-r from-violet-600 to-fuchsia-600 rounded-lg text-white text-sm disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  </form>
+                )}
               </div>
             </div>
 
@@ -343,27 +556,91 @@ export function SecuritySettings() {
                       <CheckCircle className="w-6 h-6 text-emerald-400" />
                       <span className="text-lg font-medium text-white">2FA is Enabled</span>
                     </div>
-                    <p className="text-slate-400 mb-4">Your account is protected with two-factor authentication using an authenticator app.</p>
+                    <p className="text-slate-400">Your account is protected with two-factor authentication using an authenticator app.</p>
+                    {remainingBackupCodes !== null && (
+                      <p className={`text-sm mt-2 ${remainingBackupCodes <= 2 ? 'text-amber-400' : 'text-slate-400'}`}>
+                        {remainingBackupCodes} backup code{remainingBackupCodes === 1 ? '' : 's'} left
+                      </p>
+                    )}
+                  </div>
+
+                  {newBackupCodes.length > 0 && (
+                    <div className="bg-white/5 border border-white/10 rounded-xl p-6 space-y-4">
+                      <p className="text-white font-medium">Your new backup codes</p>
+                      <p className="text-slate-400 text-sm">Save these somewhere safe. Each works once and they won&apos;t be shown again.</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {newBackupCodes.map((code) => (
+                      <code key={code} className="bg-white/10 px-3 py-2 rounded-lg text-violet-300 font-mono text-center">{code}</code>
+                    ))}
+                  </div>
+                      <button
+                        onClick={() => downloadBackupCodes(newBackupCodes)}
+                        className="flex items-center gap-2 px-4 py-2 bg-white/10 rounded-xl text-white hover:bg-white/20 transition-colors"
+                      >
+                        <Download className="w-4 h-4" />
+                        Download codes
+                      </button>
+                    </div>
+                  )}
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">Authenticator Code</label>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      value={twoFactorCode}
+                      onChange={(e) => setTwoFactorCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                      placeholder="Enter 6-digit code"
+                      className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500"
+                    />
+                    <p className="text-slate-500 text-xs mt-2">Required to regenerate backup codes or turn off 2FA.</p>
+                  </div>
+
+                  <div className="flex gap-4">
+                    <button
+                      onClick={handleRegenerateBackupCodes}
+                      disabled={isTwoFactorBusy || twoFactorCode.length !== 6}
+                      className="flex-1 flex items-center justify-center gap-2 py-3 bg-white/10 rounded-xl text-white hover:bg-white/20 transition-colors disabled:opacity-50"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                      New Backup Codes
+                    </button>
                     <button
                       onClick={handleDisable2FA}
-                      disabled={isLoading}
-                      className="px-6 py-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 hover:bg-red-500/20 transition-colors"
+                      disabled={isTwoFactorBusy || twoFactorCode.length !== 6}
+                      className="flex-1 py-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 hover:bg-red-500/20 transition-colors disabled:opacity-50"
                     >
                       Disable 2FA
                     </button>
                   </div>
                 </div>
-              ) : show2FASetup ? (
+              ) : twoFactorSetup ? (
                 <div className="space-y-6">
                   <div className="text-center">
                     <p className="text-white mb-4">Scan this QR code with your authenticator app:</p>
-                    <div className="w-48 h-48 mx-auto bg-white rounded-xl p-4 mb-4">
-                      <div className="w-full h-full bg-slate-900 rounded-lg flex items-center justify-center">
-                        <span className="text-slate-500 text-sm">QR Code</span>
-                      </div>
+                    <div className="w-48 h-48 mx-auto bg-white rounded-xl p-2 mb-4">
+                      <img src={twoFactorSetup.qrCodeUrl} alt="Two-factor QR code" className="w-full h-full" />
                     </div>
                     <p className="text-slate-400 text-sm mb-4">Or enter this code manually:</p>
-                    <code className="bg-white/10 px-4 py-2 rounded-lg text-violet-400 font-mono">{secretKey}</code>
+                    <code className="bg-white/10 px-4 py-2 rounded-lg text-violet-400 font-mono break-all">{twoFactorSetup.secret}</code>
+                  </div>
+
+                  <div className="bg-white/5 border border-white/10 rounded-xl p-6 space-y-4">
+                    <p className="text-white font-medium">Backup codes</p>
+                    <p className="text-slate-400 text-sm">If you lose your phone, each of these signs you in once. Save them now; they won&apos;t be shown again.</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {twoFactorSetup.backupCodes.map((code) => (
+                        <code key={code} className="bg-white/10 px-3 py-2 rounded-lg text-violet-300 font-mono text-center">{code}</code>
+                      ))}
+                    </div>
+                    <button
+                      onClick={() => downloadBackupCodes(twoFactorSetup.backupCodes)}
+                      className="flex items-center gap-2 px-4 py-2 bg-white/10 rounded-xl text-white hover:bg-white/20 transition-colors"
+                    >
+                      <Download className="w-4 h-4" />
+                      Download codes
+                    </button>
                   </div>
 
                   <div>
@@ -371,7 +648,7 @@ export function SecuritySettings() {
                     <input
                       type="text"
                       value={verificationCode}
-                      onChange={(e) => setVerificationCode(e.target.value)}
+                      onChange={(e) => setVerificationCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
                       placeholder="Enter 6-digit code"
                       className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500"
                     />
@@ -379,14 +656,14 @@ export function SecuritySettings() {
 
                   <div className="flex gap-4">
                     <button
-                      onClick={() => setShow2FASetup(false)}
+                      onClick={() => setTwoFactorSetup(null)}
                       className="flex-1 py-3 bg-slate-700 rounded-xl text-white hover:bg-slate-600 transition-colors"
                     >
                       Cancel
                     </button>
                     <button
                       onClick={handleVerify2FA}
-                      disabled={isLoading || verificationCode.length !== 6}
+                      disabled={isTwoFactorBusy || verificationCode.length !== 6}
                       className="flex-1 py-3 bg-gradient-to-r from-violet-600 to-fuchsia-600 rounded-xl text-white hover:from-violet-500 hover:to-fuchsia-500 transition-all disabled:opacity-50"
                     >
                       Verify & Enable
@@ -417,7 +694,7 @@ export function SecuritySettings() {
 
                   <button
                     onClick={handleSetup2FA}
-                    disabled={isLoading}
+                    disabled={isTwoFactorBusy}
                     className="w-full py-4 bg-gradient-to-r from-violet-600 to-fuchsia-600 rounded-xl text-white font-semibold hover:from-violet-500 hover:to-fuchsia-500 transition-all"
                   >
                     Setup Two-Factor Authentication
@@ -451,22 +728,59 @@ export function SecuritySettings() {
                 ) : (
                   passkeys.map((passkey) => (
                     <div key={passkey.id} className="flex items-center justify-between p-4 bg-white/5 rounded-xl">
-                      <div className="flex items-center gap-4">
-                        <Fingerprint className="w-8 h-8 text-violet-400" />
-                        <div>
-                          <p className="text-white font-medium">{passkey.name}</p>
-                          <p className="text-slate-400 text-sm">
-                            Added {passkey.addedAt.toLocaleDateString()}
-                            {passkey.lastUsed && ` • Last used ${passkey.lastUsed.toLocaleDateString()}`}
-                          </p>
-                        </div>
+                      <div className="flex items-center gap-4 min-w-0">
+                        <Fingerprint className="w-8 h-8 text-violet-400 shrink-0" />
+                        {editingPasskey?.id === passkey.id ? (
+                          <form
+                            onSubmit={(e) => { e.preventDefault(); handleRenamePasskey(); }}
+                            className="flex items-center gap-2"
+                          >
+                            <input
+                              type="text"
+                              autoFocus
+                              maxLength={64}
+                              value={editingPasskey.nickname}
+                              onChange={(e) => setEditingPasskey({ id: passkey.id, nickname: e.target.value })}
+                              className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-violet-500"
+                            />
+                            <button type="submit" disabled={!editingPasskey.nickname.trim()} className="text-violet-400 hover:text-violet-300 text-sm disabled:opacity-50">
+                              Save
+                            </button>
+                            <button type="button" onClick={() => setEditingPasskey(null)} className="text-slate-400 hover:text-white text-sm">
+                              Cancel
+                            </button>
+                          </form>
+                        ) : (
+                          <div className="min-w-0">
+                            <p className="text-white font-medium truncate">{passkey.nickname}</p>
+                            <p className="text-slate-400 text-sm">
+                              Added {new Date(passkey.created_at).toLocaleDateString()}
+                              {passkey.last_used_at
+                                ? ` • Last used ${new Date(passkey.last_used_at).toLocaleDateString()}`
+                                : ' • Never used'}
+                              {passkey.backed_up && ' • Synced'}
+                            </p>
+                          </div>
+                        )}
                       </div>
-                      <button
-                        onClick={() => handleRemovePasskey(passkey.id)}
-                        className="p-2 text-slate-400 hover:text-red-400 transition-colors"
-                      >
-                        <Trash2 className="w-5 h-5" />
-                      </button>
+                      {editingPasskey?.id !== passkey.id && (
+                        <div className="flex items-center">
+                          <button
+                            onClick={() => setEditingPasskey({ id: passkey.id, nickname: passkey.nickname })}
+                            className="p-2 text-slate-400 hover:text-white transition-colors"
+                            aria-label={`Rename ${passkey.nickname}`}
+                          >
+                            <Pencil className="w-5 h-5" />
+                          </button>
+                          <button
+                            onClick={() => handleRemovePasskey(passkey.id)}
+                            className="p-2 text-slate-400 hover:text-red-400 transition-colors"
+                            aria-label={`Remove ${passkey.nickname}`}
+                          >
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        </div>
+                      )}
                     </div>
                   ))
                 )}
@@ -495,12 +809,27 @@ export function SecuritySettings() {
                 </div>
               </div>
 
+              <div className="mb-4">
+                <label htmlFor="passkey-nickname" className="block text-sm text-slate-400 mb-2">
+                  Device name (optional)
+                </label>
+                <input
+                  id="passkey-nickname"
+                  type="text"
+                  maxLength={64}
+                  value={passkeyNickname}
+                  onChange={(e) => setPasskeyNickname(e.target.value)}
+                  placeholder="e.g. Work laptop"
+                  className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:border-violet-500"
+                />
+              </div>
+
               <button
                 onClick={handleRegisterPasskey}
-                disabled={isLoading}
-                className="w-full py-4 bg-gradient-to-r from-violet-600 to-fuchsia-600 rounded-xl text-white font-semibold hover:from-violet-500 hover:to-fuchsia-500 transition-all"
+                disabled={isLoading || isPasskeyBusy}
+                className="w-full py-4 bg-gradient-to-r from-violet-600 to-fuchsia-600 rounded-xl text-white font-semibold hover:from-violet-500 hover:to-fuchsia-500 transition-all disabled:opacity-50"
               >
-                Add New Passkey
+                {isPasskeyBusy ? 'Waiting for your device...' : 'Add New Passkey'}
               </button>
             </div>
           </div>
@@ -529,30 +858,34 @@ export function SecuritySettings() {
               </div>
 
               <div className="space-y-4">
-                {sessions.map((session) => (
-                  <div key={session.id} className="flex items-center justify-between p-4 bg-white/5 rounded-xl">
-                    <div className="flex items-center gap-4">
-                      <div className="w-10 h-10 rounded-xl bg-violet-500/20 flex items-center justify-center">
-                        <Mail className="w-5 h-5 text-violet-400" />
-                      </div>
-                      <div>
-                        <p className="text-white font-medium">{session.name}</p>
-                        <p className="text-slate-400 text-sm">
-                          Current session
-                          {session.lastUsed && ` • Active ${Math.round((Date.now() - session.lastUsed.getTime()) / 60000)} min ago`}
-                        </p>
+                {sessions.map((session) => {
+                  const isCurrent = session.id === currentSession?.id;
+                  const DeviceIcon = session.deviceType === 'desktop' ? Monitor : Smartphone;
+                  return (
+                    <div key={session.id} className="flex items-center justify-between p-4 bg-white/5 rounded-xl">
+                      <div className="flex items-center gap-4">
+                        <div className="w-10 h-10 rounded-xl bg-violet-500/20 flex items-center justify-center">
+                          <DeviceIcon className="w-5 h-5 text-violet-400" />
+                        </div>
+                        <div>
+                          <p className="text-white font-medium">{session.browser} on {session.os}</p>
+                          <p className="text-slate-400 text-sm">
+                            {session.location && `${session.location} • `}
+                            {isCurrent ? 'Current session' : `Active ${getRelativeTime(session.lastActivityAt)}`}
+                          </p>
+                        </div>
                       </div>
+                      {!isCurrent && (
+                        <button
+                          onClick={() => handleRevokeSession(session.id)}
+                          className="px-4 py-2 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 hover:bg-red-500/20 transition-colors text-sm"
+                        >
+                          Revoke
+                        </button>
+                      )}
                     </div>
-                    {sessions.length > 1 && (
-                      <button
-                        onClick={() => handleRevokeSession(session.id)}
-                        className="px-4 py-2 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 hover:bg-red-500/20 transition-colors text-sm"
-                      >
-                        Revoke
-                      </button>
-                    )}
-                  </div>
-                ))}
+                  );
+                })}
               </div>
 
               <div className="mt-6 pt-6 border-t border-white/10">
@@ -570,6 +903,130 @@ export function SecuritySettings() {
             </div>
           </div>
         )}
+        {/* Encryption Tab */}
+        {activeTab === 'encryption' && (
+          <div className="max-w-2xl">
+            <div className="glass rounded-2xl p-8">
+              <div className="flex items-center gap-4 mb-6">
+                <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-emerald-500 to-teal-500 flex items-center justify-center">
+                  <Lock className="w-6 h-6 text-white" />
+                </div>
+                <div className="flex-1">
+                  <h2 className="text-xl font-semibold text-white">End-to-End Encryption</h2>
+                  <p className="text-slate-400 text-sm">AES-GCM-256 keys derived from your passphrase and kept on this device</p>
+                </div>
+                {isUnlocked && (
+                  <button
+                    onClick={lock}
+                    className="px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-slate-300 hover:bg-white/10 transition-colors"
+                  >
+                    Lock
+                  </button>
+                )}
+              </div>
+
+              {!isUnlocked ? (
+                <div className="space-y-6">
+                  <div className="bg-amber-500/10 border border-amber-500/20 rounded-xl p-6">
+                    <div className="flex items-center gap-3 mb-2">
+                      <AlertTriangle className="w-6 h-6 text-amber-400" />
+                      <span className="text-lg font-medium text-white">
+                        {hasKeyring ? 'Encryption is locked' : 'Set up encryption on this device'}
+                      </span>
+                    </div>
+                    <p className="text-slate-400">
+                      {hasKeyring
+                        ? 'Enter your passphrase to read and write encrypted notes and journals.'
+                        : 'Already use encryption on another device? Import its key file to read those entries here. Otherwise choose a passphrase to create new keys; it never leaves this device and cannot be recovered, so export a key backup afterwards.'}
+                    </p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-300 mb-2">Passphrase</label>
+                    <input
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                      placeholder="Enter your encryption passphrase"
+                      className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500"
+                    />
+                  </div>
+
+                  <div className="flex gap-4">
+                    <button
+                      onClick={handleUnlock}
+                      disabled={isKeyBusy || passphrase.length < 8}
+                      className="flex-1 py-3 bg-gradient-to-r from-violet-600 to-fuchsia-600 rounded-xl text-white hover:from-violet-500 hover:to-fuchsia-500 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+                    >
+                      <Unlock className="w-4 h-4" />
+                      {hasKeyring ? 'Unlock' : 'Create Keys'}
+                    </button>
+                    <label className="flex-1 py-3 bg-slate-700 rounded-xl text-white hover:bg-slate-600 transition-colors flex items-center justify-center gap-2 cursor-pointer">
+                      <Upload className="w-4 h-4" />
+                      Import Key File
+                      <input
+                        type="file"
+                        accept="application/json"
+                        className="hidden"
+                        onChange={(e) => handleImportKey(e.target.files?.[0])}
+                      />
+                    </label>
+                  </div>
+                </div>
+              ) : (
+                <div className="space-y-6">
+                  <div className="bg-emerald-500/10 border border-emerald-500/20 rounded-xl p-6 space-y-3">
+                    <div className="flex items-center gap-3">
+                      <CheckCircle className="w-6 h-6 text-emerald-400" />
+                      <span className="text-lg font-medium text-white">Encryption is unlocked</span>
+                    </div>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-slate-400">Active key</span>
+                      <code className="text-violet-400 font-mono">v{keyVersion} · {encryptionKeyId?.slice(0, 8)}</code>
+                    </div>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-slate-400">Last rotation</span>
+                      <span className="text-white">{encryptionStatus.lastKeyRotation.toLocaleDateString()}</span>
+                    </div>
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-slate-400">Next rotation due</span>
+                      <span className="text-white">{encryptionStatus.nextKeyRotation.toLocaleDateString()}</span>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <button
+                      onClick={handleRotateKey}
+                      disabled={isKeyBusy}
+                      className="flex items-center justify-center gap-2 p-4 bg-white/5 rounded-xl text-white hover:bg-white/10 transition-colors disabled:opacity-50"
+                    >
+                      <RefreshCw className="w-4 h-4 text-violet-400" />
+                      Rotate Key
+                    </button>
+                    <button
+                      onClick={handleExportKey}
+                      disabled={isKeyBusy}
+                      className="flex items-center justify-center gap-2 p-4 bg-white/5 rounded-xl text-white hover:bg-white/10 transition-colors disabled:opacity-50"
+                    >
+                      <Download className="w-4 h-4 text-emerald-400" />
+                      Export Keys
+                    </button>
+                    <label className="flex items-center justify-center gap-2 p-4 bg-white/5 rounded-xl text-white hover:bg-white/10 transition-colors cursor-pointer">
+                      <Upload className="w-4 h-4 text-fuchsia-400" />
+                      Import Keys
+                      <input
+                        type="file"
+                        accept="application/json"
+                        className="hidden"
+                        onChange={(e) => handleImportKey(e.target.files?.[0])}
+                      />
+                    </label>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
       </main>
     </div>
   );
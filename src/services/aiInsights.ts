@@ -1,4 +1,8 @@
+import { z } from 'zod';
 import { MoodEntry, MOOD_EMOTIONS } from '../contexts/MoodContext';
+import { generateJSON, getLLMProvider, fitToTokenBudget, isThirdPartyProvider } from './llm';
+import type { LLMProvider } from './llm';
+import { dataTransferGate } from './dataTransfers';
 
 // ============================================================================
 // AI Insights Types
@@ -26,40 +30,33 @@ export interface AIAnalysisResponse {
   generatedAt: Date;
 }
 
-// ============================================================================
-// Gemini API Integration
-// ============================================================================
-
-const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
-
-async function callGeminiAPI(prompt: string, apiKey: string): Promise<string> {
-  const response = await fetch(`${GEMINI_API_BASE}/models/gemini-pro:generateContent?key=${apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      contents: [{
-        parts: [{ text: prompt }],
-      }],
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 500,
-      },
-    }),
-  });
-
-  if (!response.ok) {
-    throw new Error(`Gemini API error: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-
-  if (data.candidates && data.candidates[0]?.content?.parts?.[0]?.text) {
-    return data.candidates[0].content.parts[0].text;
-  }
-
-  throw new Error('Invalid response from Gemini API');
+const moodInsightsSchema = z.object({
+  summary: z.string().min(1),
+  patterns: z.array(z.string()).default([]),
+  suggestions: z.array(z.string()).default([]),
+  reflection: z.string().optional(),
+});
+
+type MoodInsightsOutput = z.infer<typeof moodInsightsSchema>;
+
+// Room for mood history in a prompt, leaving the rest of the context window
+// for instructions and the reply
+const ENTRY_TOKEN_BUDGET = 2000;
+const MAX_NOTE_LENGTH = 280;
+
+const CONSENT_REQUIRED_MESSAGE =
+  'AI insights from a hosted provider need your consent to share mood data with third parties. You can turn it on in Privacy Settings.';
+
+/**
+ * The entries a provider may see, or null when none may be shared. Local
+ * providers get everything; hosted ones go through the transfer gate, which
+ * may strip what the user wrote or refuse outright.
+ */
+async function entriesFor(provider: LLMProvider, entries: MoodEntry[]): Promise<MoodEntry[] | null> {
+  if (!isThirdPartyProvider(provider)) return entries;
+
+  const grant = await dataTransferGate.request('ai_insights', provider.id, entries);
+  return grant.allowed ? grant.records : null;
 }
 
 // ============================================================================
@@ -69,12 +66,14 @@ async function callGeminiAPI(prompt: string, apiKey: string): Promise<string> {
 function buildMoodSummaryPrompt(entries: MoodEntry[], timeframe: string): string {
   const moodEmojis = MOOD_EMOTIONS.map(m => `${m.emoji} (${m.label})`).join(', ');
 
-  const recentEntries = entries.slice(0, 20).map(entry => {
+  const entryLines = entries.map(entry => {
     const mood = MOOD_EMOTIONS.find(m => m.key === entry.emotion);
     const date = new Date(entry.createdAt).toLocaleDateString();
     const time = new Date(entry.createdAt).toLocaleTimeString();
-    return `- ${date} ${time}: ${mood?.emoji} ${mood?.label} (intensity: ${entry.intensity}/10)${entry.note ? ` - "${entry.note}"` : ''}`;
-  }).join('\n');
+    const note = entry.note ? ` - "${entry.note.slice(0, MAX_NOTE_LENGTH)}"` : '';
+    return `- ${date} ${time}: ${mood?.emoji} ${mood?.label} (intensity: ${entry.intensity}/10)${note}`;
+  });
+  const recentEntries = fitToTokenBudget(entryLines, ENTRY_TOKEN_BUDGET).join('\n');
 
   return `
 You are a compassionate mood analysis assistant. Analyze the following mood journal entries from the past ${timeframe} and provide insights.
@@ -84,13 +83,13 @@ Available moods: ${moodEmojis}
 Recent entries:
 ${recentEntries}
 
-Please provide:
-1. A brief summary of the overall emotional trends
-2. Key patterns observed (time of day, days of week, etc.)
-3. 2-3 personalized suggestions for improving emotional wellbeing
-4. One reflective question to encourage self-awareness
+Reply with a JSON object with these fields:
+- "summary": a brief summary of the overall emotional trends
+- "patterns": key patterns observed (time of day, days of week, etc.), one per item
+- "suggestions": 2-3 personalized suggestions for improving emotional wellbeing
+- "reflection": one reflective question to encourage self-awareness
 
-Keep your response warm, supportive, and concise (under 300 words). Use markdown formatting with **bold** for emphasis.
+Keep the tone warm, supportive, and concise (under 300 words in total). Plain text only inside the fields.
 `;
 }
 
@@ -146,8 +145,8 @@ Keep it warm, brief, and under 100 words.
 
 export async function generateMoodInsights(
   entries: MoodEntry[],
-  apiKey: string,
-  timeframe: 'week' | 'month' | 'year' = 'week'
+  timeframe: 'week' | 'month' | 'year' = 'week',
+  provider: LLMProvider = getLLMProvider()
 ): Promise<AIAnalysisResponse> {
   if (entries.length === 0) {
     return {
@@ -164,17 +163,23 @@ export async function generateMoodInsights(
     };
   }
 
-  const prompt = buildMoodSummaryPrompt(entries, timeframe);
+  const shared = await entriesFor(provider, entries);
+  if (!shared) {
+    return {
+      insights: generateFallbackInsights(entries),
+      summary: CONSENT_REQUIRED_MESSAGE,
+      generatedAt: new Date(),
+    };
+  }
+
+  const prompt = buildMoodSummaryPrompt(shared, timeframe);
 
   try {
-    const response = await callGeminiAPI(prompt, apiKey);
-
-    // Parse the response into structured insights
-    const insights = parseAIGenerateResponse(response, entries);
+    const output = await generateJSON(provider, { prompt, maxOutputTokens: 700 }, moodInsightsSchema);
 
     return {
-      insights,
-      summary: response,
+      insights: toInsights(output),
+      summary: output.summary,
       generatedAt: new Date(),
     };
   } catch (error) {
@@ -191,12 +196,17 @@ export async function generateMoodInsights(
 
 export async function analyzePatterns(
   entries: MoodEntry[],
-  apiKey: string
+  provider: LLMProvider = getLLMProvider()
 ): Promise<string> {
-  const prompt = buildPatternAnalysisPrompt(entries);
+  const shared = await entriesFor(provider, entries);
+  if (!shared) {
+    return CONSENT_REQUIRED_MESSAGE;
+  }
+
+  const prompt = buildPatternAnalysisPrompt(shared);
 
   try {
-    return await callGeminiAPI(prompt, apiKey);
+    return (await provider.generate({ prompt })).text;
   } catch (error) {
     console.error('Failed to analyze patterns:', error);
     return 'Pattern analysis unavailable. Keep logging your mood to discover more about your emotional patterns.';
@@ -206,92 +216,79 @@ export async function analyzePatterns(
 export async function generateDailyReflection(
   entry: MoodEntry,
   previousEntries: MoodEntry[],
-  apiKey: string
+  provider: LLMProvider = getLLMProvider()
 ): Promise<string> {
-  const prompt = buildDailyReflectionPrompt(entry, previousEntries);
+  const shared = await entriesFor(provider, [entry, ...previousEntries]);
+  if (!shared) {
+    return fallbackReflection(entry);
+  }
+
+  const [current, ...previous] = shared;
+  const prompt = buildDailyReflectionPrompt(current, previous);
 
   try {
-    return await callGeminiAPI(prompt, apiKey);
+    return (await provider.generate({ prompt, maxOutputTokens: 200 })).text;
   } catch (error) {
     console.error('Failed to generate reflection:', error);
-    return `Thank you for sharing that you're feeling ${MOOD_EMOTIONS.find(m => m.key === entry.emotion)?.label.toLowerCase()}. Taking time to check in with yourself is a wonderful practice. Remember, all emotions are valid and temporary.`;
+    return fallbackReflection(entry);
   }
 }
 
 // ============================================================================
-// Response Parsing Helpers
+// Response Helpers
 // ============================================================================
 
-function parseAIGenerateResponse(response: string, entries: MoodEntry[]): AIInsight[] {
-  const insights: AIInsight[] = [];
-
-  // Parse summary section
-  const summaryMatch = response.match(/\*\*Summary[:-]?\*\*[\s\S]*?(?=\*\*|$)/i);
-  if (summaryMatch) {
+function toInsights(output: MoodInsightsOutput): AIInsight[] {
+  const now = Date.now();
+  const insights: AIInsight[] = [{
+    id: `summary-${now}`,
+    type: 'summary',
+    title: 'Mood Summary',
+    content: output.summary,
+    confidence: 0.9,
+    createdAt: new Date(),
+  }];
+
+  if (output.patterns.length > 0) {
     insights.push({
-      id: `summary-${Date.now()}`,
-      type: 'summary',
-      title: 'Mood Summary',
-      content: summaryMatch[0].replace(/\*\*Summary[:-]?\*\*/i, '').trim(),
-      confidence: 0.9,
-      createdAt: new Date(),
-    });
-  }
-
-  // Parse pattern insights
-  const patternMatch = response.match(/\*\*Patterns?[:-]?\*\*[\s\S]*?(?=\*\*|$)/i);
-  if (patternMatch) {
-    insights.push({
-      id: `pattern-${Date.now()}`,
+      id: `pattern-${now}`,
       type: 'pattern',
       title: 'Detected Patterns',
-      content: patternMatch[0].replace(/\*\*Patterns?[:-]?\*\*/i, '').trim(),
+      content: output.patterns.map(pattern => `- ${pattern}`).join('\n'),
       confidence: 0.75,
       createdAt: new Date(),
     });
   }
 
-  // Parse suggestions
-  const suggestionsMatch = response.match(/\*\*Suggestions?[:-]?\*\*[\s\S]*?(?=\*\*|$)/i);
-  if (suggestionsMatch) {
+  if (output.suggestions.length > 0) {
     insights.push({
-      id: `recommendation-${Date.now()}`,
+      id: `recommendation-${now}`,
       type: 'recommendation',
       title: 'Suggestions for You',
-      content: suggestionsMatch[0].replace(/\*\*Suggestions?[:-]?\*\*/i, '').trim(),
+      content: output.suggestions.map(suggestion => `- ${suggestion}`).join('\n'),
       confidence: 0.7,
       createdAt: new Date(),
     });
   }
 
-  // Parse reflection question
-  const reflectionMatch = response.match(/\*\*Reflection[:-]?\*\*[\s\S]*?(?=\*\*|$)/i);
-  if (reflectionMatch) {
+  if (output.reflection) {
     insights.push({
-      id: `reflection-${Date.now()}`,
+      id: `reflection-${now}`,
       type: 'reflection',
       title: 'Reflection Question',
-      content: reflectionMatch[0].replace(/\*\*Reflection[:-]?\*\*/i, '').trim(),
+      content: output.reflection,
       confidence: 0.8,
       createdAt: new Date(),
     });
   }
 
-  // If parsing failed, use the whole response
-  if (insights.length === 0) {
-    insights.push({
-      id: `summary-${Date.now()}`,
-      type: 'summary',
-      title: 'AI Analysis',
-      content: response,
-      confidence: 0.7,
-      createdAt: new Date(),
-    });
-  }
-
   return insights;
 }
 
+function fallbackReflection(entry: MoodEntry): string {
+  return `Thank you for sharing that you're feeling ${MOOD_EMOTIONS.find(m => m.key === entry.emotion)?.label.toLowerCase()}. Taking time to check in with yourself is a wonderful practice. Remember, all emotions are valid and temporary.`;
+}
+
 function generateFallbackInsights(entries: MoodEntry[]): AIInsight[] {
   const insights: AIInsight[] = [];
 
@@ -330,35 +327,3 @@ function generateFallbackInsights(entries: MoodEntry[]): AIInsight[] {
 
   return insights;
 }
-
-// ============================================================================
-// Utility Functions
-// ============================================================================
-
-export function getAPIKey(): string | null {
-  // Try to get from multiple sources
-  // 1. Environment variable
-  if (import.meta.env['VITE_GEMINI_API_KEY']) {
-    return import.meta.env['VITE_GEMINI_API_KEY'];
-  }
-
-  // 2. LocalStorage (set by settings)
-  const stored = localStorage.getItem('gemini_api_key');
-  if (stored) {
-    return stored;
-  }
-
-  return null;
-}
-
-export function setAPIKey(key: string): void {
-  localStorage.setItem('gemini_api_key', key);
-}
-
-export function clearAPIKey(): void {
-  localStorage.removeItem('gemini_api_key');
-}
-
-export function isAPIKeySet(): boolean {
-  return getAPIKey() !== null;
-}
@@ -0,0 +1,511 @@
+// ============================================================================
+// Auth Adapters for MoodMash
+// Backends the AuthProvider signs in against: Supabase Auth, or in-memory
+// accounts for demo mode (no Supabase) and tests
+// ============================================================================
+
+import type { Session as SupabaseSession, User as SupabaseUser } from '@supabase/supabase-js';
+import { isSupabaseConfigured } from '../lib/supabase';
+import * as authService from './authService';
+import { passkeyService } from './passkeys';
+import { describeUserAgent } from './deviceSessions';
+import type { PasskeyService } from './passkeys';
+import type { SyncStorage } from './moodSync';
+import type { AuthError, Session, User } from '../contexts/AuthContext';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OAuthProviderName = 'google' | 'github';
+
+export type AuthChangeEvent = 'SIGNED_IN' | 'SIGNED_OUT' | 'TOKEN_REFRESHED';
+
+export interface AuthSnapshot {
+  user: User;
+  session: Session;
+}
+
+export interface AuthAdapterResult {
+  success: boolean;
+  /** Present when the call produced a signed-in session */
+  snapshot?: AuthSnapshot;
+  error?: AuthError;
+}
+
+export type AuthChangeListener = (event: AuthChangeEvent, snapshot: AuthSnapshot | null) => void;
+
+export interface AuthAdapter {
+  /** Session persisted from an earlier visit, if any */
+  getSession(): Promise<AuthSnapshot | null>;
+  signIn(email: string, password: string): Promise<AuthAdapterResult>;
+  signUp(email: string, password: string, name: string): Promise<AuthAdapterResult>;
+  /** Resolves once the provider redirect has started; the session arrives via onAuthStateChange */
+  signInWithOAuth(provider: OAuthProviderName): Promise<AuthAdapterResult>;
+  sendMagicLink(email: string): Promise<AuthAdapterResult>;
+  verifyMagicLink(token: string): Promise<AuthAdapterResult>;
+  /** Runs the WebAuthn ceremony with a discoverable passkey */
+  signInWithPasskey(): Promise<AuthAdapterResult>;
+  /** Succeeds for unknown addresses too, so the form does not reveal which accounts exist */
+  sendPasswordReset(email: string): Promise<AuthAdapterResult>;
+  /** Sets the signed-in user's password, or with `recoveryToken` that of the account the reset link was sent to */
+  updatePassword(password: string, recoveryToken?: string): Promise<AuthAdapterResult>;
+  resendVerificationEmail(email: string): Promise<AuthAdapterResult>;
+  verifyEmail(token: string): Promise<AuthAdapterResult>;
+  refreshSession(): Promise<AuthAdapterResult>;
+  signOut(): Promise<AuthAdapterResult>;
+  /** Returns an unsubscribe function */
+  onAuthStateChange(listener: AuthChangeListener): () => void;
+}
+
+type AuthErrorCode = (typeof authService.AUTH_ERRORS)[keyof typeof authService.AUTH_ERRORS];
+
+const AUTH_ERROR_MAP: Record<AuthErrorCode, AuthError> = {
+  [authService.AUTH_ERRORS.USER_NOT_FOUND]: 'user_not_found',
+  [authService.AUTH_ERRORS.INVALID_CREDENTIALS]: 'invalid_password',
+  [authService.AUTH_ERRORS.EMAIL_NOT_CONFIRMED]: 'user_not_verified',
+  [authService.AUTH_ERRORS.WEAK_PASSWORD]: 'invalid_password',
+  [authService.AUTH_ERRORS.PASSWORD_BREACHED]: 'password_breached',
+  [authService.AUTH_ERRORS.EMAIL_TAKEN]: 'email_already_exists',
+  [authService.AUTH_ERRORS.SESSION_EXPIRED]: 'session_expired',
+  [authService.AUTH_ERRORS.NETWORK_ERROR]: 'network_error',
+  [authService.AUTH_ERRORS.RATE_LIMITED]: 'rate_limit_exceeded',
+  [authService.AUTH_ERRORS.ACCOUNT_LOCKED]: 'account_locked',
+  [authService.AUTH_ERRORS.INVALID_TOKEN]: 'invalid_magic_link',
+  [authService.AUTH_ERRORS.UNKNOWN]: 'unknown_error',
+};
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Translate an authService error code into the AuthContext error union
+ */
+export function mapAuthError(code: string | undefined): AuthError {
+  return AUTH_ERROR_MAP[code as AuthErrorCode] ?? 'unknown_error';
+}
+
+const generateId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+function describeDevice(): Pick<Session, 'deviceType' | 'browser' | 'os'> {
+  return describeUserAgent(typeof navigator !== 'undefined' ? navigator.userAgent : '');
+}
+
+// ============================================================================
+// Supabase Adapter
+// ============================================================================
+
+function decodeJwtPayload(token: string): Record<string, unknown> {
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload));
+  } catch {
+    return {};
+  }
+}
+
+export function toAppUser(user: SupabaseUser): User {
+  return {
+    id: user.id,
+    email: user.email ?? '',
+    name: authService.getUserDisplayName(user),
+    emailVerified: authService.isEmailConfirmed(user),
+    twoFactorEnabled: !!user.factors?.some((factor) => factor.status === 'verified'),
+    passkeyEnabled: !!user.user_metadata?.passkey_enabled,
+    biometricEnabled: !!user.user_metadata?.biometric_enabled,
+    createdAt: new Date(user.created_at),
+    lastLoginAt: new Date(user.last_sign_in_at ?? user.created_at),
+  };
+}
+
+export function toAppSession(session: SupabaseSession): Session {
+  const claims = decodeJwtPayload(session.access_token);
+  const issuedAt = typeof claims.iat === 'number' ? new Date(claims.iat * 1000) : new Date();
+
+  return {
+    id: typeof claims.session_id === 'string' ? claims.session_id : session.user.id,
+    userId: session.user.id,
+    ...describeDevice(),
+    createdAt: new Date(session.user.last_sign_in_at ?? issuedAt),
+    expiresAt: session.expires_at ? new Date(session.expires_at * 1000) : new Date(Date.now() + session.expires_in * 1000),
+    lastActivityAt: issuedAt,
+  };
+}
+
+function toSnapshot(session: SupabaseSession | null | undefined): AuthSnapshot | undefined {
+  return session ? { user: toAppUser(session.user), session: toAppSession(session) } : undefined;
+}
+
+/**
+ * Passkey failures other than "not supported" (cancelled prompt, unknown
+ * credential, bad signature) all read the same to the user
+ */
+async function runPasskeySignIn(
+  passkeys: PasskeyService,
+  signIn: () => Promise<AuthAdapterResult>
+): Promise<AuthAdapterResult> {
+  if (!passkeys.isSupported()) {
+    return { success: false, error: 'passkey_not_supported' };
+  }
+  try {
+    return await signIn();
+  } catch (error) {
+    console.error('[Auth] Passkey sign in failed:', error);
+    return { success: false, error: 'passkey_login_failed' };
+  }
+}
+
+function fromAuthResult(result: authService.AuthResult): AuthAdapterResult {
+  if (!result.success) {
+    return { success: false, error: mapAuthError(result.error?.code) };
+  }
+  return { success: true, snapshot: toSnapshot(result.session) };
+}
+
+/**
+ * Supabase Auth through authService. Supabase persists and auto-refreshes
+ * the session itself; state changes are reported via onAuthStateChange.
+ */
+export class SupabaseAuthAdapter implements AuthAdapter {
+  private passkeys: PasskeyService;
+
+  constructor(passkeys: PasskeyService = passkeyService) {
+    this.passkeys = passkeys;
+  }
+
+  async getSession(): Promise<AuthSnapshot | null> {
+    return toSnapshot(await authService.getSession()) ?? null;
+  }
+
+  async signIn(email: string, password: string): Promise<AuthAdapterResult> {
+    return fromAuthResult(await authService.signIn({ email, password }));
+  }
+
+  async signUp(email: string, password: string, name: string): Promise<AuthAdapterResult> {
+    return fromAuthResult(await authService.signUp({ email, password, fullName: name }));
+  }
+
+  async signInWithOAuth(provider: OAuthProviderName): Promise<AuthAdapterResult> {
+    try {
+      await authService.signInWithOAuth({ provider });
+      return { success: true };
+    } catch {
+      return { success: false, error: 'network_error' };
+    }
+  }
+
+  async sendMagicLink(email: string): Promise<AuthAdapterResult> {
+    return fromAuthResult(await authService.sendMagicLink(email));
+  }
+
+  async verifyMagicLink(token: string): Promise<AuthAdapterResult> {
+    return fromAuthResult(await authService.verifyMagicLink(token));
+  }
+
+  async signInWithPasskey(): Promise<AuthAdapterResult> {
+    return runPasskeySignIn(this.passkeys, async () => {
+      const challenge = await authService.getPasskeyChallenge();
+      if (!challenge) return { success: false, error: 'network_error' };
+
+      const result = await authService.signInWithPasskey(challenge, await this.passkeys.requestAssertion(challenge));
+      return result.success ? fromAuthResult(result) : { success: false, error: 'passkey_login_failed' };
+    });
+  }
+
+  async sendPasswordReset(email: string): Promise<AuthAdapterResult> {
+    const result = await authService.sendPasswordReset(email);
+    return result.success ? { success: true } : { success: false, error: 'network_error' };
+  }
+
+  async updatePassword(password: string, recoveryToken?: string): Promise<AuthAdapterResult> {
+    return fromAuthResult(await authService.updatePassword({ newPassword: password, refreshToken: recoveryToken }));
+  }
+
+  async resendVerificationEmail(email: string): Promise<AuthAdapterResult> {
+    const result = await authService.resendConfirmationEmail(email);
+    return result.success ? { success: true } : { success: false, error: 'network_error' };
+  }
+
+  async verifyEmail(token: string): Promise<AuthAdapterResult> {
+    return fromAuthResult(await authService.verifyEmail(token));
+  }
+
+  async refreshSession(): Promise<AuthAdapterResult> {
+    return fromAuthResult(await authService.refreshSession());
+  }
+
+  async signOut(): Promise<AuthAdapterResult> {
+    const result = await authService.signOut();
+    return result.success ? { success: true } : { success: false, error: 'network_error' };
+  }
+
+  onAuthStateChange(listener: AuthChangeListener): () => void {
+    return authService.onAuthStateChange((event, session) => listener(event, toSnapshot(session) ?? null));
+  }
+}
+
+// ============================================================================
+// Mock Adapter
+// ============================================================================
+
+type MockUser = User & { password: string };
+
+export interface MockAuthAdapterOptions {
+  /** Accounts available to sign in with; defaults to the demo account */
+  users?: MockUser[];
+  storage?: SyncStorage;
+  /** Verifies passkey sign-ins against its local credential store */
+  passkeys?: PasskeyService;
+  now?: () => Date;
+}
+
+const USER_KEY = 'moodmash_user';
+const SESSION_KEY = 'moodmash_session';
+
+export const DEMO_USER: MockUser = {
+  id: 'user-demo-001',
+  email: 'demo@moodmash.com',
+  password: 'Demo123!@#',
+  name: 'Demo User',
+  emailVerified: true,
+  twoFactorEnabled: false,
+  passkeyEnabled: false,
+  biometricEnabled: false,
+  createdAt: new Date('2024-01-01'),
+  lastLoginAt: new Date('2024-01-01'),
+};
+
+/**
+ * In-memory accounts for demo mode and tests. The signed-in user is kept in
+ * storage so a reload restores it, like a real session would.
+ */
+export class MockAuthAdapter implements AuthAdapter {
+  /** Magic link tokens by email, for tests to "click"; never logged, since a token is a sign-in */
+  readonly sentLinks = new Map<string, string>();
+  /** Password reset tokens by email, kept like sentLinks */
+  readonly sentResets = new Map<string, string>();
+  /** Email verification tokens by email, kept like sentLinks */
+  readonly sentVerifications = new Map<string, string>();
+
+  private users: Map<string, MockUser>;
+  private storage: SyncStorage;
+  private passkeys: PasskeyService;
+  private now: () => Date;
+  private listeners = new Set<AuthChangeListener>();
+
+  constructor(options: MockAuthAdapterOptions = {}) {
+    this.users = new Map((options.users ?? [DEMO_USER]).map((user) => [user.email, { ...user }]));
+    this.storage = options.storage ?? localStorage;
+    this.passkeys = options.passkeys ?? passkeyService;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async getSession(): Promise<AuthSnapshot | null> {
+    try {
+      const user = this.storage.getItem(USER_KEY);
+      const session = this.storage.getItem(SESSION_KEY);
+      if (!user || !session) return null;
+
+      const snapshot = reviveSnapshot(JSON.parse(user), JSON.parse(session));
+      return snapshot.session.expiresAt > this.now() ? snapshot : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async signIn(email: string, password: string): Promise<AuthAdapterResult> {
+    const user = this.users.get(email);
+
+    if (!user) return { success: false, error: 'user_not_found' };
+    if (user.password !== password) return { success: false, error: 'invalid_password' };
+    if (!user.emailVerified) return { success: false, error: 'user_not_verified' };
+
+    return this.startSession(user);
+  }
+
+  async signUp(email: string, password: string, name: string): Promise<AuthAdapterResult> {
+    if (password.length < 8) return { success: false, error: 'invalid_password' };
+    if (this.users.has(email)) return { success: false, error: 'email_already_exists' };
+
+    this.users.set(email, {
+      id: generateId(),
+      email,
+      password,
+      name,
+      emailVerified: false,
+      twoFactorEnabled: false,
+      passkeyEnabled: false,
+      biometricEnabled: false,
+      createdAt: this.now(),
+      lastLoginAt: this.now(),
+    });
+    this.sentVerifications.set(email, generateId());
+
+    return { success: true };
+  }
+
+  async signInWithOAuth(provider: OAuthProviderName): Promise<AuthAdapterResult> {
+    const label = provider === 'google' ? 'Google' : 'GitHub';
+    const email = provider === 'google' ? 'user@gmail.com' : 'user@github.com';
+    const user = this.users.get(email) ?? this.createVerifiedUser(email, `${label} User`, `${provider}-`);
+
+    return this.startSession(user);
+  }
+
+  async sendMagicLink(email: string): Promise<AuthAdapterResult> {
+    const token = generateId();
+    this.sentLinks.set(email, token);
+    return { success: true };
+  }
+
+  async verifyMagicLink(token: string): Promise<AuthAdapterResult> {
+    const email = [...this.sentLinks].find(([, sent]) => sent === token)?.[0];
+    if (!email) return { success: false, error: 'invalid_magic_link' };
+
+    this.sentLinks.delete(email);
+    const user = this.users.get(email) ?? this.createVerifiedUser(email, email.split('@')[0], 'magic-');
+
+    return this.startSession(user);
+  }
+
+  async signInWithPasskey(): Promise<AuthAdapterResult> {
+    return runPasskeySignIn(this.passkeys, async () => {
+      const credential = await this.passkeys.authenticate();
+      const user = [...this.users.values()].find((account) => account.id === credential.user_id);
+
+      if (!user) return { success: false, error: 'passkey_login_failed' };
+
+      user.passkeyEnabled = true;
+      return this.startSession(user);
+    });
+  }
+
+  async sendPasswordReset(email: string): Promise<AuthAdapterResult> {
+    if (this.users.has(email)) this.sentResets.set(email, generateId());
+    return { success: true };
+  }
+
+  async updatePassword(password: string, recoveryToken?: string): Promise<AuthAdapterResult> {
+    if (password.length < 8) return { success: false, error: 'invalid_password' };
+
+    const email = recoveryToken
+      ? [...this.sentResets].find(([, sent]) => sent === recoveryToken)?.[0]
+      : (await this.getSession())?.user.email;
+    const user = email && this.users.get(email);
+    if (!user) return { success: false, error: 'session_expired' };
+
+    this.sentResets.delete(user.email);
+    user.password = password;
+    return { success: true };
+  }
+
+  async resendVerificationEmail(email: string): Promise<AuthAdapterResult> {
+    if (this.users.get(email)?.emailVerified === false) this.sentVerifications.set(email, generateId());
+    return { success: true };
+  }
+
+  async verifyEmail(token: string): Promise<AuthAdapterResult> {
+    const email = [...this.sentVerifications].find(([, sent]) => sent === token)?.[0];
+    const user = email && this.users.get(email);
+    if (!user) return { success: false, error: 'unknown_error' };
+
+    this.sentVerifications.delete(user.email);
+    user.emailVerified = true;
+    return this.startSession(user);
+  }
+
+  async refreshSession(): Promise<AuthAdapterResult> {
+    const current = await this.getSession();
+    if (!current) return { success: false, error: 'session_expired' };
+
+    const snapshot = {
+      user: current.user,
+      session: { ...current.session, expiresAt: new Date(this.now().getTime() + SESSION_TTL_MS), lastActivityAt: this.now() },
+    };
+    this.persist(snapshot);
+    this.emit('TOKEN_REFRESHED', snapshot);
+
+    return { success: true, snapshot };
+  }
+
+  async signOut(): Promise<AuthAdapterResult> {
+    this.storage.removeItem(USER_KEY);
+    this.storage.removeItem(SESSION_KEY);
+    this.emit('SIGNED_OUT', null);
+    return { success: true };
+  }
+
+  onAuthStateChange(listener: AuthChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private createVerifiedUser(email: string, name: string, idPrefix: string): MockUser {
+    const user: MockUser = {
+      id: idPrefix + generateId(),
+      email,
+      password: '',
+      name,
+      emailVerified: true,
+      twoFactorEnabled: false,
+      passkeyEnabled: false,
+      biometricEnabled: false,
+      createdAt: this.now(),
+      lastLoginAt: this.now(),
+    };
+    this.users.set(email, user);
+    return user;
+  }
+
+  private startSession(account: MockUser): AuthAdapterResult {
+    account.lastLoginAt = this.now();
+    const { password: _password, ...user } = account;
+    const snapshot: AuthSnapshot = {
+      user,
+      session: {
+        id: generateId(),
+        userId: user.id,
+        ...describeDevice(),
+        createdAt: this.now(),
+        expiresAt: new Date(this.now().getTime() + SESSION_TTL_MS),
+        lastActivityAt: this.now(),
+      },
+    };
+
+    this.persist(snapshot);
+    this.emit('SIGNED_IN', snapshot);
+    return { success: true, snapshot };
+  }
+
+  private persist(snapshot: AuthSnapshot): void {
+    this.storage.setItem(USER_KEY, JSON.stringify(snapshot.user));
+    this.storage.setItem(SESSION_KEY, JSON.stringify(snapshot.session));
+  }
+
+  private emit(event: AuthChangeEvent, snapshot: AuthSnapshot | null): void {
+    this.listeners.forEach((listener) => listener(event, snapshot));
+  }
+}
+
+function reviveSnapshot(user: User, session: Session): AuthSnapshot {
+  return {
+    user: { ...user, createdAt: new Date(user.createdAt), lastLoginAt: new Date(user.lastLoginAt) },
+    session: {
+      ...session,
+      createdAt: new Date(session.createdAt),
+      expiresAt: new Date(session.expiresAt),
+      lastActivityAt: new Date(session.lastActivityAt),
+    },
+  };
+}
+
+/**
+ * Supabase Auth when configured, otherwise the demo accounts
+ */
+export function createAuthAdapter(): AuthAdapter {
+  return isSupabaseConfigured() ? new SupabaseAuthAdapter() : new MockAuthAdapter();
+}
@@ -11,6 +11,8 @@ import {
   handleSupabaseError,
 } from '../lib/supabase';
 import type { User, Session } from '@supabase/supabase-js';
+import type { AuthenticationCredentialJSON } from '../lib/webauthn';
+import { breachedPasswordService } from './breachedPasswords';
 
 // ============================================================================
 // Types
@@ -70,9 +72,13 @@ export const AUTH_ERRORS = {
   INVALID_CREDENTIALS: 'AUTH_ERROR_INVALID_CREDENTIALS',
   EMAIL_NOT_CONFIRMED: 'AUTH_ERROR_EMAIL_NOT_CONFIRMED',
   WEAK_PASSWORD: 'AUTH_ERROR_WEAK_PASSWORD',
+  PASSWORD_BREACHED: 'AUTH_ERROR_PASSWORD_BREACHED',
   EMAIL_TAKEN: 'AUTH_ERROR_EMAIL_TAKEN',
   SESSION_EXPIRED: 'AUTH_ERROR_SESSION_EXPIRED',
   NETWORK_ERROR: 'AUTH_ERROR_NETWORK_ERROR',
+  RATE_LIMITED: 'AUTH_ERROR_RATE_LIMITED',
+  ACCOUNT_LOCKED: 'AUTH_ERROR_ACCOUNT_LOCKED',
+  INVALID_TOKEN: 'AUTH_ERROR_INVALID_TOKEN',
   UNKNOWN: 'AUTH_ERROR_UNKNOWN',
 } as const;
 
@@ -169,6 +175,27 @@ export async function signIn(data: SignInData): Promise<AuthResult> {
       // Handle specific error messages
       const message = error.message?.toLowerCase() || '';
 
+      // Refused by the password verification hook (see login_attempts)
+      if (message.includes('too many failed sign-in attempts')) {
+        return {
+          success: false,
+          error: {
+            code: AUTH_ERRORS.ACCOUNT_LOCKED,
+            message: 'Too many failed sign-in attempts, please try again later',
+          },
+        };
+      }
+
+      if (error.status === 429 || message.includes('rate limit')) {
+        return {
+          success: false,
+          error: {
+            code: AUTH_ERRORS.RATE_LIMITED,
+            message: 'Too many sign-in attempts, please wait a moment',
+          },
+        };
+      }
+
       if (message.includes('invalid') || message.includes('credentials')) {
         return {
           success: false,
@@ -293,12 +320,23 @@ export async function sendPasswordReset(email: string): Promise<{ success: boole
 }
 
 /**
- * Update password (after reset)
+ * Update password (after reset). Passwords found in the breach corpus are
+ * refused, as at sign-up.
  */
 export async function updatePassword(data: UpdatePasswordData): Promise<AuthResult> {
   try {
     const client = getSupabaseClient();
 
+    if (await breachedPasswordService.isBreached(data.newPassword)) {
+      return {
+        success: false,
+        error: {
+          code: AUTH_ERRORS.PASSWORD_BREACHED,
+          message: 'This password has appeared in a data breach. Please choose a different one',
+        },
+      };
+    }
+
     // If we have a refresh token, use it to update
     if (data.refreshToken) {
       const { data: refreshData, error: refreshError } = await client.auth.refreshSession({
@@ -547,6 +585,183 @@ export async function signInWithOAuth(provider: OAuthProvider): Promise<void> {
   }
 }
 
+// ============================================================================
+// Magic Link
+// ============================================================================
+
+/**
+ * Email a one-time sign-in link
+ */
+export async function sendMagicLink(email: string): Promise<AuthResult> {
+  try {
+    const client = getSupabaseClient();
+
+    const { error } = await client.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: false,
+        emailRedirectTo: `${import.meta.env['VITE_APP_URL']}/auth/callback`,
+      },
+    });
+
+    if (error) {
+      const message = error.message?.toLowerCase() || '';
+
+      if (error.status === 429 || message.includes('rate limit')) {
+        return {
+          success: false,
+          error: {
+            code: AUTH_ERRORS.RATE_LIMITED,
+            message: 'Too many sign-in links requested, please wait a moment',
+          },
+        };
+      }
+
+      if (message.includes('not found') || message.includes('signups not allowed')) {
+        return {
+          success: false,
+          error: {
+            code: AUTH_ERRORS.USER_NOT_FOUND,
+            message: 'No account found with this email',
+          },
+        };
+      }
+
+      return {
+        success: false,
+        error: {
+          code: AUTH_ERRORS.UNKNOWN,
+          message: error.message || 'Failed to send sign-in link',
+        },
+      };
+    }
+
+    console.log('[Auth] Magic link sent to:', email);
+    return { success: true };
+  } catch (error) {
+    console.error('[Auth] Magic link error:', error);
+    return {
+      success: false,
+      error: {
+        code: AUTH_ERRORS.NETWORK_ERROR,
+        message: 'An unexpected error occurred',
+      },
+    };
+  }
+}
+
+/**
+ * Exchange the token hash from a magic link for a session
+ */
+export async function verifyMagicLink(tokenHash: string): Promise<AuthResult> {
+  try {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.auth.verifyOtp({
+      token_hash: tokenHash,
+      type: 'magiclink',
+    });
+
+    if (error || !data.user) {
+      return {
+        success: false,
+        error: {
+          code: AUTH_ERRORS.INVALID_TOKEN,
+          message: error?.message || 'Invalid or expired sign-in link',
+        },
+      };
+    }
+
+    console.log('[Auth] Magic link verified:', data.user.id);
+
+    return {
+      success: true,
+      user: data.user,
+      session: data.session || undefined,
+    };
+  } catch (error) {
+    console.error('[Auth] Verify magic link error:', error);
+    return {
+      success: false,
+      error: {
+        code: AUTH_ERRORS.UNKNOWN,
+        message: 'An unexpected error occurred',
+      },
+    };
+  }
+}
+
+// ============================================================================
+// Passkeys
+// ============================================================================
+
+// Edge Function that runs lib/webauthn against user_passkeys with the
+// service role; the browser cannot read other users' credentials
+const PASSKEY_SIGN_IN_FUNCTION = 'passkey-sign-in';
+
+/**
+ * Ask the server for a sign-in challenge. It is held server-side until the
+ * matching assertion comes back, and expires with the ceremony timeout.
+ */
+export async function getPasskeyChallenge(): Promise<string | null> {
+  try {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.functions.invoke(PASSKEY_SIGN_IN_FUNCTION, {
+      body: { step: 'challenge' },
+    });
+
+    if (error || typeof data?.challenge !== 'string') {
+      console.error('[Auth] Passkey challenge error:', error);
+      return null;
+    }
+
+    return data.challenge;
+  } catch (error) {
+    console.error('[Auth] Passkey challenge error:', error);
+    return null;
+  }
+}
+
+/**
+ * Send a signed assertion for verification. On success the function answers
+ * with a one-time sign-in token hash, exchanged here for a session the same
+ * way as a magic link.
+ */
+export async function signInWithPasskey(
+  challenge: string,
+  assertion: AuthenticationCredentialJSON
+): Promise<AuthResult> {
+  try {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.functions.invoke(PASSKEY_SIGN_IN_FUNCTION, {
+      body: { step: 'verify', challenge, assertion },
+    });
+
+    if (error || typeof data?.token_hash !== 'string') {
+      return {
+        success: false,
+        error: {
+          code: AUTH_ERRORS.INVALID_CREDENTIALS,
+          message: 'Passkey could not be verified',
+        },
+      };
+    }
+
+    return verifyMagicLink(data.token_hash);
+  } catch (error) {
+    console.error('[Auth] Passkey sign in error:', error);
+    return {
+      success: false,
+      error: {
+        code: AUTH_ERRORS.UNKNOWN,
+        message: 'An unexpected error occurred',
+      },
+    };
+  }
+}
+
 // ============================================================================
 // Event Listeners
 // ============================================================================
@@ -576,14 +791,14 @@ export function onAuthStateChange(callback: AuthCallback): () => void {
 // ============================================================================
 
 /**
- * Resend email confirmation
+ * Resend email confirmation, to `email` or else the signed-in user's address
  */
-export async function resendConfirmationEmail(): Promise<{ success: boolean; error?: string }> {
+export async function resendConfirmationEmail(email?: string): Promise<{ success: boolean; error?: string }> {
   try {
     const client = getSupabaseClient();
-    const user = await getUser();
+    const address = email || (await getUser())?.email;
 
-    if (!user || !user.email) {
+    if (!address) {
       return {
         success: false,
         error: 'No authenticated user found',
@@ -592,7 +807,7 @@ export async function resendConfirmationEmail(): Promise<{ success: boolean; err
 
     const { error } = await client.auth.resend({
       type: 'signup',
-      email: user.email,
+      email: address,
     });
 
     if (error) {
@@ -713,6 +928,8 @@ export function getAuthErrorMessage(error: { code: string; message: string }): s
     [AUTH_ERRORS.SESSION_EXPIRED]: 'Your session has expired. Please sign in again.',
     [AUTH_ERRORS.USER_NOT_FOUND]: 'No account found with this email.',
     [AUTH_ERRORS.NETWORK_ERROR]: 'Network error. Please check your connection.',
+    [AUTH_ERRORS.RATE_LIMITED]: 'Too many attempts. Please wait a moment and try again.',
+    [AUTH_ERRORS.INVALID_TOKEN]: 'This link is invalid or has expired. Please request a new one.',
   };
 
   return errorMessages[error.code] || error.message || 'An error occurred. Please try again.';
@@ -0,0 +1,150 @@
+// ============================================================================
+// Breached Password Check for MoodMash
+// Pwned Passwords k-anonymity range queries: only the first five hex digits of
+// the password's SHA-1 leave the browser, and the suffix is matched locally
+// ============================================================================
+
+export interface BreachCheckResult {
+  breached: boolean;
+  /** Times the password appears in the corpus; 0 when not found or unchecked */
+  count: number;
+  /** False when the range could not be fetched and the check failed open */
+  checked: boolean;
+}
+
+export interface BreachedPasswordServiceOptions {
+  /** Range endpoint; the hash prefix is appended as the last path segment */
+  endpoint?: string;
+  timeoutMs?: number;
+  cacheTtlMs?: number;
+  fetchImpl?: typeof fetch;
+  now?: () => number;
+}
+
+export const DEFAULT_RANGE_ENDPOINT = 'https://api.pwnedpasswords.com/range';
+const DEFAULT_TIMEOUT_MS = 3000;
+// Ranges change slowly; one fetch per prefix per hour is plenty
+const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000;
+const PREFIX_LENGTH = 5;
+
+interface CachedRange {
+  suffixes: Map<string, number>;
+  fetchedAt: number;
+}
+
+// ============================================================================
+// Hashing and Parsing
+// ============================================================================
+
+/**
+ * Uppercase hex SHA-1, the form the range API uses
+ */
+export async function sha1Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+/**
+ * Parse a range response ("SUFFIX:COUNT" per line). Zero-count lines are the
+ * padding the server adds so response sizes do not leak the prefix.
+ */
+export function parseRangeResponse(body: string): Map<string, number> {
+  const suffixes = new Map<string, number>();
+
+  for (const line of body.split(/\r?\n/)) {
+    const [suffix, count] = line.trim().split(':');
+    const occurrences = Number.parseInt(count, 10);
+    if (suffix && occurrences > 0) {
+      suffixes.set(suffix.toUpperCase(), occurrences);
+    }
+  }
+  return suffixes;
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+export class BreachedPasswordService {
+  private endpoint: string;
+  private timeoutMs: number;
+  private cacheTtlMs: number;
+  private fetchImpl: typeof fetch;
+  private now: () => number;
+  private cache = new Map<string, CachedRange>();
+  private pending = new Map<string, Promise<Map<string, number>>>();
+
+  constructor(options: BreachedPasswordServiceOptions = {}) {
+    this.endpoint = (options.endpoint || import.meta.env['VITE_PWNED_PASSWORDS_URL'] || DEFAULT_RANGE_ENDPOINT).replace(/\/+$/, '');
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.fetchImpl = options.fetchImpl ?? ((input, init) => fetch(input, init));
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  /**
+   * Look the password up in the breach corpus. Network errors, timeouts and
+   * bad responses fail open: sign-up should not depend on a third party.
+   */
+  async check(password: string): Promise<BreachCheckResult> {
+    if (!password) return { breached: false, count: 0, checked: false };
+
+    const hash = await sha1Hex(password);
+    const prefix = hash.slice(0, PREFIX_LENGTH);
+
+    try {
+      const suffixes = await this.getRange(prefix);
+      const count = suffixes.get(hash.slice(PREFIX_LENGTH)) ?? 0;
+      return { breached: count > 0, count, checked: true };
+    } catch (error) {
+      console.warn('[Passwords] Breach check unavailable, allowing password:', error);
+      return { breached: false, count: 0, checked: false };
+    }
+  }
+
+  async isBreached(password: string): Promise<boolean> {
+    return (await this.check(password)).breached;
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async getRange(prefix: string): Promise<Map<string, number>> {
+    const cached = this.cache.get(prefix);
+    if (cached && this.now() - cached.fetchedAt < this.cacheTtlMs) {
+      return cached.suffixes;
+    }
+
+    // Checks that overlap (live typing, then submit) share one request
+    let request = this.pending.get(prefix);
+    if (!request) {
+      request = this.fetchRange(prefix).finally(() => this.pending.delete(prefix));
+      this.pending.set(prefix, request);
+    }
+    return request;
+  }
+
+  private async fetchRange(prefix: string): Promise<Map<string, number>> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.fetchImpl(`${this.endpoint}/${prefix}`, {
+        headers: { 'Add-Padding': 'true' },
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        throw new Error(`Range request failed with HTTP ${response.status}`);
+      }
+
+      const suffixes = parseRangeResponse(await response.text());
+      this.cache.set(prefix, { suffixes, fetchedAt: this.now() });
+      return suffixes;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const breachedPasswordService = new BreachedPasswordService();
@@ -0,0 +1,239 @@
+// ============================================================================
+// Chat Store for MoodMash
+// Persists chatbot conversations to Supabase, or locally without a backend
+// ============================================================================
+
+import { getSupabaseClient, handleSupabaseError } from '../lib/supabase';
+import { sealField, openField } from '../lib/fieldEncryption';
+import type { SyncStorage } from './moodSync';
+import type { ChatConversation, ChatMessage } from '../types/advanced';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChatStore {
+  listConversations(userId: string): Promise<ChatConversation[]>;
+  getMessages(userId: string, conversationId: string): Promise<ChatMessage[]>;
+  saveConversation(conversation: ChatConversation): Promise<void>;
+  saveMessage(message: ChatMessage): Promise<void>;
+  /** Removes the conversation and all of its messages */
+  deleteConversation(userId: string, conversationId: string): Promise<void>;
+}
+
+interface LocalChatData {
+  conversations: ChatConversation[];
+  messages: ChatMessage[];
+}
+
+const STORE_KEY = 'moodmash_chat';
+
+// ============================================================================
+// Supabase Store
+// ============================================================================
+
+/**
+ * chat_conversations / chat_messages adapter. Message content, conversation
+ * titles (taken from the first message) and the mood context are sealed like
+ * journal bodies, so reading and saving throw while encryption is locked.
+ */
+export class SupabaseChatStore implements ChatStore {
+  private async assertUser(userId: string): Promise<void> {
+    const client = getSupabaseClient();
+    const user = await client.auth.getUser();
+    if (!user.data.user || user.data.user.id !== userId) {
+      throw new Error('[UNAUTHORIZED] You must be signed in to use the assistant');
+    }
+  }
+
+  private async fromMessageRow(row: Record<string, any>): Promise<ChatMessage> {
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      conversation_id: row.conversation_id,
+      role: row.role,
+      content: await openField(row.content),
+      intent: row.intent ?? undefined,
+      entities: row.entities ?? undefined,
+      created_at: row.created_at,
+    };
+  }
+
+  private async fromConversationRow(row: Record<string, any>): Promise<ChatConversation> {
+    // Rows saved before titles were sealed hold plaintext and a context object
+    const context = typeof row.context === 'string'
+      ? JSON.parse((await openField(row.context)) ?? '{}')
+      : row.context ?? {};
+
+    return {
+      id: row.id,
+      user_id: row.user_id,
+      title: (await openField(row.title)) ?? '',
+      context,
+      message_count: row.message_count ?? 0,
+      last_message_at: row.last_message_at,
+      is_archived: row.is_archived ?? false,
+      created_at: row.created_at,
+    };
+  }
+
+  async listConversations(userId: string): Promise<ChatConversation[]> {
+    await this.assertUser(userId);
+    const client = getSupabaseClient();
+
+    const { data, error } = await client
+      .from('chat_conversations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('last_message_at', { ascending: false });
+
+    if (error) {
+      handleSupabaseError(error, 'List chat conversations');
+    }
+
+    return Promise.all((data || []).map((row) => this.fromConversationRow(row)));
+  }
+
+  async getMessages(userId: string, conversationId: string): Promise<ChatMessage[]> {
+    await this.assertUser(userId);
+    const client = getSupabaseClient();
+
+    const { data, error } = await client
+      .from('chat_messages')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      handleSupabaseError(error, 'Get chat messages');
+    }
+
+    return Promise.all((data || []).map((row) => this.fromMessageRow(row)));
+  }
+
+  async saveConversation(conversation: ChatConversation): Promise<void> {
+    await this.assertUser(conversation.user_id);
+    const client = getSupabaseClient();
+    const title = await sealField(conversation.title);
+    // Stored as a JSON string in the jsonb column
+    const context = await sealField(JSON.stringify(conversation.context ?? {}));
+
+    const { error } = await client
+      .from('chat_conversations')
+      .upsert({
+        id: conversation.id,
+        user_id: conversation.user_id,
+        title: title.value,
+        context: context.value,
+        key_version: title.key_version,
+        message_count: conversation.message_count,
+        last_message_at: conversation.last_message_at,
+        is_archived: conversation.is_archived,
+        created_at: conversation.created_at,
+      }, { onConflict: 'id' });
+
+    if (error) {
+      handleSupabaseError(error, 'Save chat conversation');
+    }
+  }
+
+  async saveMessage(message: ChatMessage): Promise<void> {
+    await this.assertUser(message.user_id);
+    const client = getSupabaseClient();
+    const sealed = await sealField(message.content);
+
+    const { error } = await client
+      .from('chat_messages')
+      .insert({
+        id: message.id,
+        user_id: message.user_id,
+        conversation_id: message.conversation_id,
+        role: message.role,
+        content: sealed.value,
+        key_version: sealed.key_version,
+        intent: message.intent ?? null,
+        entities: message.entities ?? null,
+        created_at: message.created_at,
+      });
+
+    if (error) {
+      handleSupabaseError(error, 'Save chat message');
+    }
+  }
+
+  async deleteConversation(userId: string, conversationId: string): Promise<void> {
+    await this.assertUser(userId);
+    const client = getSupabaseClient();
+
+    // chat_messages cascades from chat_conversations
+    const { error } = await client
+      .from('chat_conversations')
+      .delete()
+      .eq('id', conversationId)
+      .eq('user_id', userId);
+
+    if (error) {
+      handleSupabaseError(error, 'Delete chat conversation');
+    }
+  }
+}
+
+// ============================================================================
+// Local Store
+// ============================================================================
+
+/**
+ * Browser-storage store for demo mode (no Supabase) and tests.
+ */
+export class LocalChatStore implements ChatStore {
+  private storage: SyncStorage;
+
+  constructor(storage: SyncStorage = localStorage) {
+    this.storage = storage;
+  }
+
+  private read(): LocalChatData {
+    try {
+      const stored = this.storage.getItem(STORE_KEY);
+      return stored ? JSON.parse(stored) : { conversations: [], messages: [] };
+    } catch {
+      return { conversations: [], messages: [] };
+    }
+  }
+
+  private write(data: LocalChatData): void {
+    this.storage.setItem(STORE_KEY, JSON.stringify(data));
+  }
+
+  async listConversations(userId: string): Promise<ChatConversation[]> {
+    return this.read().conversations
+      .filter((c) => c.user_id === userId)
+      .sort((a, b) => b.last_message_at.localeCompare(a.last_message_at));
+  }
+
+  async getMessages(userId: string, conversationId: string): Promise<ChatMessage[]> {
+    return this.read().messages
+      .filter((m) => m.user_id === userId && m.conversation_id === conversationId)
+      .sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+
+  async saveConversation(conversation: ChatConversation): Promise<void> {
+    const data = this.read();
+    data.conversations = [...data.conversations.filter((c) => c.id !== conversation.id), conversation];
+    this.write(data);
+  }
+
+  async saveMessage(message: ChatMessage): Promise<void> {
+    const data = this.read();
+    data.messages = [...data.messages.filter((m) => m.id !== message.id), message];
+    this.write(data);
+  }
+
+  async deleteConversation(userId: string, conversationId: string): Promise<void> {
+    const data = this.read();
+    data.conversations = data.conversations.filter((c) => !(c.id === conversationId && c.user_id === userId));
+    data.messages = data.messages.filter((m) => !(m.conversation_id === conversationId && m.user_id === userId));
+    this.write(data);
+  }
+}
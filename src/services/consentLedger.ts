@@ -0,0 +1,228 @@
+// ============================================================================
+// Consent Ledger for MoodMash
+// Append-only record of every consent grant and withdrawal, tied to the
+// privacy policy version it was given under, plus the consent gate that
+// downstream code checks before analytics or third-party processing
+// ============================================================================
+
+import { getSupabaseClient, handleSupabaseError, isSupabaseConfigured } from '../lib/supabase';
+import type { SyncStorage } from './moodSync';
+import type { ConsentType } from '../contexts/ComplianceContext';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Where in the app the choice was made */
+export type ConsentSource = 'cookie_banner' | 'privacy_settings';
+
+export interface ConsentLedgerEntry {
+  id: string;
+  user_id: string;
+  consent_type: ConsentType;
+  granted: boolean;
+  policy_version: string;
+  source: ConsentSource;
+  recorded_at: string;
+}
+
+export interface ConsentChoice {
+  type: ConsentType;
+  granted: boolean;
+}
+
+export interface ConsentLedgerStore {
+  /** Oldest first */
+  list(userId: string): Promise<ConsentLedgerEntry[]>;
+  append(entries: ConsentLedgerEntry[]): Promise<void>;
+}
+
+export interface ConsentLedgerServiceOptions {
+  store?: ConsentLedgerStore;
+  now?: () => Date;
+}
+
+const STORE_KEY = 'moodmash_consent_ledger';
+
+const generateId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// ============================================================================
+// Reading the Ledger
+// ============================================================================
+
+/**
+ * The latest entry per consent type. Entries of one batch share a timestamp,
+ * so ties go to the one appended last.
+ */
+export function latestEntries(entries: ConsentLedgerEntry[]): Map<ConsentType, ConsentLedgerEntry> {
+  const latest = new Map<ConsentType, ConsentLedgerEntry>();
+  for (const entry of entries) {
+    const current = latest.get(entry.consent_type);
+    if (!current || entry.recorded_at >= current.recorded_at) {
+      latest.set(entry.consent_type, entry);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Whether each type is in force. A grant only counts under the policy version
+ * it was given for; after a policy change everything optional is off until
+ * the user consents again. Essential processing is never optional.
+ */
+export function isConsentInForce(entries: ConsentLedgerEntry[], type: ConsentType, policyVersion: string): boolean {
+  if (type === 'essential') return true;
+
+  const entry = latestEntries(entries).get(type);
+  return !!entry && entry.granted && entry.policy_version === policyVersion;
+}
+
+/**
+ * Accepting the policy is recorded as an essential grant; the version of the
+ * latest one is the version the user last agreed to
+ */
+export function acceptedPolicyVersion(entries: ConsentLedgerEntry[]): string | null {
+  const entry = latestEntries(entries).get('essential');
+  return entry?.granted ? entry.policy_version : null;
+}
+
+export function needsReconsent(entries: ConsentLedgerEntry[], policyVersion: string): boolean {
+  return acceptedPolicyVersion(entries) !== policyVersion;
+}
+
+// ============================================================================
+// Supabase Store
+// ============================================================================
+
+/**
+ * consent_ledger adapter. RLS allows select and insert only, so entries
+ * cannot be edited or removed from the client.
+ */
+export class SupabaseConsentLedgerStore implements ConsentLedgerStore {
+  async list(userId: string): Promise<ConsentLedgerEntry[]> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client
+      .from('consent_ledger')
+      .select('*')
+      .eq('user_id', userId)
+      .order('recorded_at', { ascending: true });
+
+    if (error) {
+      handleSupabaseError(error, 'List consent ledger');
+    }
+
+    return (data as ConsentLedgerEntry[]) ?? [];
+  }
+
+  async append(entries: ConsentLedgerEntry[]): Promise<void> {
+    const client = getSupabaseClient();
+
+    const { error } = await client.from('consent_ledger').insert(entries);
+
+    if (error) {
+      handleSupabaseError(error, 'Record consent');
+    }
+  }
+}
+
+// ============================================================================
+// Local Store
+// ============================================================================
+
+/**
+ * Browser-storage store for demo mode (no Supabase) and tests
+ */
+export class LocalConsentLedgerStore implements ConsentLedgerStore {
+  private storage: SyncStorage;
+
+  constructor(storage: SyncStorage = localStorage) {
+    this.storage = storage;
+  }
+
+  private read(): ConsentLedgerEntry[] {
+    try {
+      const stored = this.storage.getItem(STORE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async list(userId: string): Promise<ConsentLedgerEntry[]> {
+    return this.read().filter((entry) => entry.user_id === userId);
+  }
+
+  async append(entries: ConsentLedgerEntry[]): Promise<void> {
+    this.storage.setItem(STORE_KEY, JSON.stringify([...this.read(), ...entries]));
+  }
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+export class ConsentLedgerService {
+  private store: ConsentLedgerStore;
+  private now: () => Date;
+
+  constructor(options: ConsentLedgerServiceOptions = {}) {
+    this.store = options.store ?? (isSupabaseConfigured() ? new SupabaseConsentLedgerStore() : new LocalConsentLedgerStore());
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async list(userId: string): Promise<ConsentLedgerEntry[]> {
+    return this.store.list(userId);
+  }
+
+  /**
+   * Append one entry per choice, all stamped with the same time and policy
+   * version. Returns the new entries.
+   */
+  async record(
+    userId: string,
+    choices: ConsentChoice[],
+    policyVersion: string,
+    source: ConsentSource
+  ): Promise<ConsentLedgerEntry[]> {
+    const recordedAt = this.now().toISOString();
+    const entries = choices.map((choice): ConsentLedgerEntry => ({
+      id: generateId(),
+      user_id: userId,
+      consent_type: choice.type,
+      granted: choice.granted,
+      policy_version: policyVersion,
+      source,
+      recorded_at: recordedAt,
+    }));
+
+    if (entries.length > 0) {
+      await this.store.append(entries);
+    }
+    return entries;
+  }
+}
+
+export const consentLedgerService = new ConsentLedgerService();
+
+// ============================================================================
+// Consent Gate
+// ============================================================================
+
+// Only essential processing until the signed-in user's ledger says otherwise
+let consentsInForce = new Set<ConsentType>(['essential']);
+
+/**
+ * Publish the consents in force for the signed-in user. Called by the
+ * ComplianceProvider whenever the ledger or the policy version changes.
+ */
+export function setConsentsInForce(types: Iterable<ConsentType>): void {
+  consentsInForce = new Set<ConsentType>(['essential', ...types]);
+}
+
+export function hasConsent(type: ConsentType): boolean {
+  return consentsInForce.has(type);
+}
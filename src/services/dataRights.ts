@@ -0,0 +1,521 @@
+// ============================================================================
+// Data Subject Rights for MoodMash
+// GDPR/CCPA requests with statutory deadlines, a machine-readable export of
+// every user-owned table, and an audited erasure that cascades across them
+// ============================================================================
+
+import { getSupabaseClient, handleSupabaseError, isSupabaseConfigured } from '../lib/supabase';
+import type { SyncStorage } from './moodSync';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DataRequestType = 'access' | 'rectification' | 'erasure' | 'portability' | 'restriction' | 'objection';
+export type DataRequestStatus = 'pending' | 'processing' | 'completed' | 'rejected' | 'cancelled';
+export type DataRequestFramework = 'gdpr' | 'ccpa';
+
+export interface DataRequestRecord {
+  id: string;
+  user_id: string;
+  type: DataRequestType;
+  framework: DataRequestFramework;
+  status: DataRequestStatus;
+  reason: string | null;
+  created_at: string;
+  /** Statutory response deadline for the framework */
+  due_at: string;
+  completed_at: string | null;
+  /** What fulfilment produced: the export manifest or the erased row counts */
+  result: Record<string, unknown> | null;
+}
+
+export interface UserDataTable {
+  name: string;
+  /** Column holding the owner's user id */
+  ownerColumn: 'user_id' | 'host_id';
+  /** False for tables that only hold credentials; they are erased but never exported */
+  exported: boolean;
+}
+
+export type DataRow = Record<string, unknown>;
+
+export interface DataExportArchive {
+  format: 'moodmash-data-export';
+  version: 1;
+  request_id: string;
+  user_id: string;
+  exported_at: string;
+  manifest: { table: string; rows: number }[];
+  tables: Record<string, DataRow[]>;
+}
+
+export interface ErasureAuditRecord {
+  id: string;
+  user_id: string;
+  request_id: string;
+  /** Rows deleted per table; the data itself is never kept */
+  tables: Record<string, number>;
+  total_rows: number;
+  erased_at: string;
+}
+
+export interface RequestSummary {
+  framework: DataRequestFramework;
+  open: number;
+  overdue: number;
+  lastCompletedAt: Date | null;
+}
+
+export type ExportManifest = DataExportArchive['manifest'];
+
+/**
+ * Requests are filed and cancelled by their owner; every other status change
+ * belongs to the store, so the Supabase store leaves them to the server
+ */
+export interface DataRightsStore {
+  listRequests(userId: string): Promise<DataRequestRecord[]>;
+  /** Files a pending request; resolves to the stored row */
+  createRequest(record: DataRequestRecord): Promise<DataRequestRecord>;
+  /** Only a pending request can be cancelled */
+  cancelRequest(record: DataRequestRecord): Promise<DataRequestRecord>;
+  /** Completes an access or portability request; `exportedAt` is the archive's time */
+  completeExport(record: DataRequestRecord, manifest: ExportManifest, exportedAt: string): Promise<DataRequestRecord>;
+  readTable(table: UserDataTable, userId: string): Promise<DataRow[]>;
+  /** Deletes the user's rows in every table, writes the audit record and completes the request in one step */
+  erase(userId: string, requestId: string): Promise<ErasureAuditRecord>;
+}
+
+export interface DataRightsServiceOptions {
+  store?: DataRightsStore;
+  now?: () => Date;
+}
+
+export const REQUEST_DEADLINE_DAYS: Record<DataRequestFramework, number> = {
+  gdpr: 30,
+  ccpa: 45,
+};
+
+/**
+ * Every table holding a user's rows, children before parents so erasure never
+ * trips a foreign key. Keep in sync with erase_user_data() in the schema.
+ */
+export const USER_DATA_TABLES: UserDataTable[] = [
+  { name: 'mood_entries', ownerColumn: 'user_id', exported: true },
+  { name: 'mood_predictions', ownerColumn: 'user_id', exported: true },
+  { name: 'pattern_insights', ownerColumn: 'user_id', exported: true },
+  { name: 'daily_analytics', ownerColumn: 'user_id', exported: true },
+  { name: 'weekly_reports', ownerColumn: 'user_id', exported: true },
+  { name: 'ml_model_states', ownerColumn: 'user_id', exported: true },
+  { name: 'journal_entries', ownerColumn: 'user_id', exported: true },
+  { name: 'wellness_sessions', ownerColumn: 'user_id', exported: true },
+  { name: 'achievements', ownerColumn: 'user_id', exported: true },
+  { name: 'challenges', ownerColumn: 'user_id', exported: true },
+  { name: 'streaks', ownerColumn: 'user_id', exported: true },
+  { name: 'points_transactions', ownerColumn: 'user_id', exported: true },
+  { name: 'user_points', ownerColumn: 'user_id', exported: true },
+  { name: 'notifications', ownerColumn: 'user_id', exported: true },
+  { name: 'chat_messages', ownerColumn: 'user_id', exported: true },
+  { name: 'chat_conversations', ownerColumn: 'user_id', exported: true },
+  { name: 'ar_yoga_pose_detections', ownerColumn: 'user_id', exported: true },
+  { name: 'ar_yoga_sessions', ownerColumn: 'user_id', exported: true },
+  { name: 'ar_meditation_sessions', ownerColumn: 'user_id', exported: true },
+  { name: 'ar_mood_visualizations', ownerColumn: 'user_id', exported: true },
+  { name: 'ar_mood_journeys', ownerColumn: 'user_id', exported: true },
+  { name: 'ar_social_messages', ownerColumn: 'user_id', exported: true },
+  { name: 'ar_social_participants', ownerColumn: 'user_id', exported: true },
+  { name: 'ar_social_rooms', ownerColumn: 'host_id', exported: true },
+  { name: 'ar_avatars', ownerColumn: 'user_id', exported: true },
+  { name: 'ar_environment_presets', ownerColumn: 'user_id', exported: true },
+  { name: 'ar_session_analytics', ownerColumn: 'user_id', exported: true },
+  { name: 'user_sessions', ownerColumn: 'user_id', exported: true },
+  { name: 'login_attempts', ownerColumn: 'user_id', exported: false },
+  { name: 'user_passkeys', ownerColumn: 'user_id', exported: true },
+  { name: 'passkey_challenges', ownerColumn: 'user_id', exported: false },
+  { name: 'two_factor_sessions', ownerColumn: 'user_id', exported: false },
+  { name: 'user_two_factor', ownerColumn: 'user_id', exported: false },
+  { name: 'consent_ledger', ownerColumn: 'user_id', exported: true },
+  { name: 'data_transfer_log', ownerColumn: 'user_id', exported: true },
+  { name: 'friend_invites', ownerColumn: 'user_id', exported: true },
+  { name: 'friendships', ownerColumn: 'user_id', exported: true },
+  { name: 'streak_history', ownerColumn: 'user_id', exported: true },
+  { name: 'user_profiles', ownerColumn: 'user_id', exported: true },
+];
+
+// Requests fulfilled here rather than by the privacy team
+const EXPORT_TYPES: DataRequestType[] = ['access', 'portability'];
+const OPEN_STATUSES: DataRequestStatus[] = ['pending', 'processing'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const generateId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// ============================================================================
+// Deadlines
+// ============================================================================
+
+export function requestDueDate(framework: DataRequestFramework, createdAt: Date): Date {
+  return new Date(createdAt.getTime() + REQUEST_DEADLINE_DAYS[framework] * DAY_MS);
+}
+
+export function isOpenRequest(record: DataRequestRecord): boolean {
+  return OPEN_STATUSES.includes(record.status);
+}
+
+export function isOverdue(record: DataRequestRecord, now: Date): boolean {
+  return isOpenRequest(record) && new Date(record.due_at).getTime() < now.getTime();
+}
+
+/**
+ * Open and overdue counts for one framework; any overdue request means the
+ * framework's response deadline has been missed
+ */
+export function summarizeRequests(records: DataRequestRecord[], framework: DataRequestFramework, now: Date): RequestSummary {
+  const own = records.filter((record) => record.framework === framework);
+  const completed = own
+    .filter((record) => record.status === 'completed' && record.completed_at)
+    .map((record) => new Date(record.completed_at as string).getTime());
+
+  return {
+    framework,
+    open: own.filter(isOpenRequest).length,
+    overdue: own.filter((record) => isOverdue(record, now)).length,
+    lastCompletedAt: completed.length > 0 ? new Date(Math.max(...completed)) : null,
+  };
+}
+
+// ============================================================================
+// Supabase Store
+// ============================================================================
+
+/**
+ * data_subject_requests adapter. Clients may only insert pending requests;
+ * the deadline is set by the server, and cancelling and completing go
+ * through SECURITY DEFINER functions. Erasure runs in erase_user_data() so
+ * the deletes, the audit row and the request update commit together.
+ */
+export class SupabaseDataRightsStore implements DataRightsStore {
+  async listRequests(userId: string): Promise<DataRequestRecord[]> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client
+      .from('data_subject_requests')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      handleSupabaseError(error, 'List data requests');
+    }
+
+    return (data as DataRequestRecord[]) ?? [];
+  }
+
+  async createRequest(record: DataRequestRecord): Promise<DataRequestRecord> {
+    const client = getSupabaseClient();
+
+    const { id, user_id, type, framework, reason } = record;
+    const { data, error } = await client
+      .from('data_subject_requests')
+      .insert({ id, user_id, type, framework, reason })
+      .select()
+      .single();
+
+    if (error) {
+      handleSupabaseError(error, 'Create data request');
+    }
+
+    return data as DataRequestRecord;
+  }
+
+  async cancelRequest(record: DataRequestRecord): Promise<DataRequestRecord> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.rpc('cancel_data_request', { request: record.id });
+
+    if (error) {
+      handleSupabaseError(error, 'Cancel data request');
+    }
+
+    return data as DataRequestRecord;
+  }
+
+  async completeExport(record: DataRequestRecord, manifest: ExportManifest): Promise<DataRequestRecord> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.rpc('complete_data_export', { request: record.id, manifest });
+
+    if (error) {
+      handleSupabaseError(error, 'Complete data export');
+    }
+
+    return data as DataRequestRecord;
+  }
+
+  async readTable(table: UserDataTable, userId: string): Promise<DataRow[]> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.from(table.name).select('*').eq(table.ownerColumn, userId);
+
+    if (error) {
+      handleSupabaseError(error, `Export ${table.name}`);
+    }
+
+    return (data as DataRow[]) ?? [];
+  }
+
+  async erase(_userId: string, requestId: string): Promise<ErasureAuditRecord> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.rpc('erase_user_data', { request: requestId });
+
+    if (error) {
+      handleSupabaseError(error, 'Erase user data');
+    }
+
+    console.log('[DataRights] User data erased for request:', requestId);
+    return data as ErasureAuditRecord;
+  }
+}
+
+// ============================================================================
+// Local Store
+// ============================================================================
+
+/** Where demo mode keeps rows for a table: a storage key and, optionally, a field of its value */
+export interface LocalTableSource {
+  key: string;
+  field?: string;
+}
+
+export const LOCAL_TABLE_SOURCES: Record<string, LocalTableSource> = {
+  mood_entries: { key: 'moodmash_entries' },
+  ml_model_states: { key: 'moodmash_ml_model', field: 'snapshots' },
+  mood_predictions: { key: 'moodmash_ml_model', field: 'predictions' },
+  chat_conversations: { key: 'moodmash_chat', field: 'conversations' },
+  chat_messages: { key: 'moodmash_chat', field: 'messages' },
+  user_sessions: { key: 'moodmash_device_sessions' },
+  user_passkeys: { key: 'moodmash_passkeys' },
+  user_two_factor: { key: 'moodmash_two_factor' },
+  consent_ledger: { key: 'moodmash_consent_ledger' },
+  data_transfer_log: { key: 'moodmash_data_transfer_log' },
+};
+
+const REQUESTS_KEY = 'moodmash_data_requests';
+const AUDIT_KEY = 'moodmash_erasure_audit';
+
+// Rows without an owner column come from single-user demo storage and belong to whoever is signed in
+const ownedBy = (row: unknown, userId: string): boolean =>
+  typeof row !== 'object' || row === null || !('user_id' in row) || (row as DataRow).user_id === userId;
+
+/**
+ * Browser-storage store for demo mode (no Supabase) and tests. Tables map onto
+ * the storage keys the other local stores already use; arrays hold rows and
+ * plain objects are keyed by user id.
+ */
+export class LocalDataRightsStore implements DataRightsStore {
+  private storage: SyncStorage;
+  private sources: Record<string, LocalTableSource>;
+
+  constructor(storage: SyncStorage = localStorage, sources: Record<string, LocalTableSource> = LOCAL_TABLE_SOURCES) {
+    this.storage = storage;
+    this.sources = sources;
+  }
+
+  private readJson<T>(key: string, fallback: T): T {
+    try {
+      const stored = this.storage.getItem(key);
+      return stored ? JSON.parse(stored) : fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
+  private readSource(source: LocalTableSource): unknown {
+    const value = this.readJson<unknown>(source.key, null);
+    if (!source.field) return value;
+    return value && typeof value === 'object' ? (value as DataRow)[source.field] : undefined;
+  }
+
+  private writeSource(source: LocalTableSource, value: unknown): void {
+    const next = source.field ? { ...this.readJson<DataRow>(source.key, {}), [source.field]: value } : value;
+    this.storage.setItem(source.key, JSON.stringify(next));
+  }
+
+  async listRequests(userId: string): Promise<DataRequestRecord[]> {
+    return this.readJson<DataRequestRecord[]>(REQUESTS_KEY, [])
+      .filter((record) => record.user_id === userId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  private saveRequest(record: DataRequestRecord): DataRequestRecord {
+    const records = this.readJson<DataRequestRecord[]>(REQUESTS_KEY, []).filter((stored) => stored.id !== record.id);
+    this.storage.setItem(REQUESTS_KEY, JSON.stringify([...records, record]));
+    return record;
+  }
+
+  private updateRequest(requestId: string, changes: Partial<DataRequestRecord>): DataRequestRecord {
+    const stored = this.readJson<DataRequestRecord[]>(REQUESTS_KEY, []).find((record) => record.id === requestId);
+    if (!stored) throw new Error(`Unknown data request ${requestId}`);
+    return this.saveRequest({ ...stored, ...changes });
+  }
+
+  async createRequest(record: DataRequestRecord): Promise<DataRequestRecord> {
+    return this.saveRequest(record);
+  }
+
+  async cancelRequest(record: DataRequestRecord): Promise<DataRequestRecord> {
+    return this.updateRequest(record.id, { status: 'cancelled' });
+  }
+
+  async completeExport(record: DataRequestRecord, manifest: ExportManifest, exportedAt: string): Promise<DataRequestRecord> {
+    return this.updateRequest(record.id, { status: 'completed', completed_at: exportedAt, result: { manifest } });
+  }
+
+  async readTable(table: UserDataTable, userId: string): Promise<DataRow[]> {
+    const source = this.sources[table.name];
+    const value = source ? this.readSource(source) : undefined;
+
+    if (Array.isArray(value)) return value.filter((row) => ownedBy(row, userId));
+    if (value && typeof value === 'object' && userId in value) return [(value as Record<string, DataRow>)[userId]];
+    return [];
+  }
+
+  async erase(userId: string, requestId: string): Promise<ErasureAuditRecord> {
+    const tables: Record<string, number> = {};
+
+    for (const table of USER_DATA_TABLES) {
+      const source = this.sources[table.name];
+      const value = source ? this.readSource(source) : undefined;
+      let removed = 0;
+
+      if (Array.isArray(value)) {
+        const kept = value.filter((row) => !ownedBy(row, userId));
+        removed = value.length - kept.length;
+        if (removed > 0) this.writeSource(source, kept);
+      } else if (value && typeof value === 'object' && userId in value) {
+        const { [userId]: _erased, ...rest } = value as Record<string, unknown>;
+        removed = 1;
+        this.writeSource(source, rest);
+      }
+      tables[table.name] = removed;
+    }
+
+    const audit: ErasureAuditRecord = {
+      id: generateId(),
+      user_id: userId,
+      request_id: requestId,
+      tables,
+      total_rows: Object.values(tables).reduce((sum, count) => sum + count, 0),
+      erased_at: new Date().toISOString(),
+    };
+    this.storage.setItem(AUDIT_KEY, JSON.stringify([...this.readJson<ErasureAuditRecord[]>(AUDIT_KEY, []), audit]));
+    this.updateRequest(requestId, {
+      status: 'completed',
+      completed_at: audit.erased_at,
+      result: { tables: audit.tables, total_rows: audit.total_rows },
+    });
+    return audit;
+  }
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+export class DataRightsService {
+  private store: DataRightsStore;
+  private now: () => Date;
+
+  constructor(options: DataRightsServiceOptions = {}) {
+    this.store = options.store ?? (isSupabaseConfigured() ? new SupabaseDataRightsStore() : new LocalDataRightsStore());
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * The user's requests, newest first
+   */
+  async listRequests(userId: string): Promise<DataRequestRecord[]> {
+    return this.store.listRequests(userId);
+  }
+
+  /**
+   * Open a request; the deadline starts now
+   */
+  async submit(
+    userId: string,
+    type: DataRequestType,
+    options: { framework?: DataRequestFramework; reason?: string } = {}
+  ): Promise<DataRequestRecord> {
+    const createdAt = this.now();
+    const framework = options.framework ?? 'gdpr';
+    const record: DataRequestRecord = {
+      id: generateId(),
+      user_id: userId,
+      type,
+      framework,
+      status: 'pending',
+      reason: options.reason?.trim() || null,
+      created_at: createdAt.toISOString(),
+      due_at: requestDueDate(framework, createdAt).toISOString(),
+      completed_at: null,
+      result: null,
+    };
+
+    return this.store.createRequest(record);
+  }
+
+  async cancel(record: DataRequestRecord): Promise<DataRequestRecord> {
+    if (record.status !== 'pending') {
+      throw new Error(`Cannot cancel a ${record.status} request`);
+    }
+    return this.store.cancelRequest(record);
+  }
+
+  /**
+   * Fulfil an access or portability request with an archive of every
+   * exported table
+   */
+  async fulfilExport(record: DataRequestRecord): Promise<DataExportArchive> {
+    if (!EXPORT_TYPES.includes(record.type)) {
+      throw new Error(`Cannot export for a ${record.type} request`);
+    }
+
+    // A failed read leaves the request pending; the deadline still runs
+    const tables: Record<string, DataRow[]> = {};
+    for (const table of USER_DATA_TABLES.filter((candidate) => candidate.exported)) {
+      tables[table.name] = await this.store.readTable(table, record.user_id);
+    }
+
+    const manifest = Object.entries(tables).map(([table, rows]) => ({ table, rows: rows.length }));
+    const archive: DataExportArchive = {
+      format: 'moodmash-data-export',
+      version: 1,
+      request_id: record.id,
+      user_id: record.user_id,
+      exported_at: this.now().toISOString(),
+      manifest,
+      tables,
+    };
+
+    await this.store.completeExport(record, manifest, archive.exported_at);
+    return archive;
+  }
+
+  /**
+   * Fulfil an erasure request: delete the user's rows everywhere and keep
+   * only the audit record of how many went
+   */
+  async fulfilErasure(record: DataRequestRecord): Promise<ErasureAuditRecord> {
+    if (record.type !== 'erasure') {
+      throw new Error(`Cannot erase for a ${record.type} request`);
+    }
+
+    return this.store.erase(record.user_id, record.id);
+  }
+}
+
+export const dataRightsService = new DataRightsService();
@@ -0,0 +1,195 @@
+// ============================================================================
+// Data Transfers for MoodMash
+// The gate every outbound integration goes through: applies the rules from
+// lib/dataFlowPolicy to the consents in force and logs each transfer, sent or
+// not, for the user to review
+// ============================================================================
+
+import { getSupabaseClient, handleSupabaseError, isSupabaseConfigured } from '../lib/supabase';
+import { DATA_FLOWS, decideFlow, redactRecords } from '../lib/dataFlowPolicy';
+import type { DataFlowDecision, DataFlowId, TransferOutcome } from '../lib/dataFlowPolicy';
+import { hasConsent } from './consentLedger';
+import type { SyncStorage } from './moodSync';
+import type { ConsentType } from '../contexts/ComplianceContext';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DataTransferRecord {
+  id: string;
+  user_id: string;
+  flow: DataFlowId;
+  /** Who the data went to, e.g. an AI provider id or a wearable vendor */
+  destination: string;
+  outcome: TransferOutcome;
+  record_count: number;
+  redacted_fields: string[];
+  missing_consents: ConsentType[];
+  transferred_at: string;
+}
+
+export interface DataTransferLogStore {
+  /** Newest first */
+  list(userId: string, limit: number): Promise<DataTransferRecord[]>;
+  append(record: DataTransferRecord): Promise<void>;
+}
+
+export interface DataTransferGrant<T> {
+  allowed: boolean;
+  /** What may be sent: the records after redaction, or none */
+  records: T[];
+  decision: DataFlowDecision;
+}
+
+export interface DataTransferGateOptions {
+  store?: DataTransferLogStore;
+  now?: () => Date;
+  isInForce?: (type: ConsentType) => boolean;
+}
+
+const STORE_KEY = 'moodmash_data_transfer_log';
+// Demo mode keeps a rolling window rather than growing storage forever
+const MAX_LOCAL_RECORDS = 500;
+const DEFAULT_LIST_LIMIT = 50;
+
+const generateId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+// ============================================================================
+// Supabase Store
+// ============================================================================
+
+export class SupabaseDataTransferLogStore implements DataTransferLogStore {
+  async list(userId: string, limit: number): Promise<DataTransferRecord[]> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client
+      .from('data_transfer_log')
+      .select('*')
+      .eq('user_id', userId)
+      .order('transferred_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      handleSupabaseError(error, 'List data transfers');
+    }
+
+    return (data as DataTransferRecord[]) ?? [];
+  }
+
+  async append(record: DataTransferRecord): Promise<void> {
+    const client = getSupabaseClient();
+
+    const { error } = await client.from('data_transfer_log').insert(record);
+
+    if (error) {
+      handleSupabaseError(error, 'Log data transfer');
+    }
+  }
+}
+
+// ============================================================================
+// Local Store
+// ============================================================================
+
+/**
+ * Browser-storage store for demo mode (no Supabase) and tests
+ */
+export class LocalDataTransferLogStore implements DataTransferLogStore {
+  private storage: SyncStorage;
+
+  constructor(storage: SyncStorage = localStorage) {
+    this.storage = storage;
+  }
+
+  private read(): DataTransferRecord[] {
+    try {
+      const stored = this.storage.getItem(STORE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async list(userId: string, limit: number): Promise<DataTransferRecord[]> {
+    return this.read()
+      .filter((record) => record.user_id === userId)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async append(record: DataTransferRecord): Promise<void> {
+    this.storage.setItem(STORE_KEY, JSON.stringify([...this.read(), record].slice(-MAX_LOCAL_RECORDS)));
+  }
+}
+
+// ============================================================================
+// Gate
+// ============================================================================
+
+export class DataTransferGate {
+  private store: DataTransferLogStore;
+  private now: () => Date;
+  private isInForce: (type: ConsentType) => boolean;
+  private subject: string | null = null;
+
+  constructor(options: DataTransferGateOptions = {}) {
+    this.store = options.store ?? (isSupabaseConfigured() ? new SupabaseDataTransferLogStore() : new LocalDataTransferLogStore());
+    this.now = options.now ?? (() => new Date());
+    this.isInForce = options.isInForce ?? hasConsent;
+  }
+
+  /**
+   * The signed-in user whose transfers are logged. Set by the
+   * ComplianceProvider alongside the consents in force.
+   */
+  setSubject(userId: string | null): void {
+    this.subject = userId;
+  }
+
+  /**
+   * Ask to send `records` to `destination` through `flow`. Blocked attempts
+   * are logged too. Nothing is sent when there is no signed-in user or the
+   * log entry cannot be written: a transfer the user cannot review does not
+   * happen.
+   */
+  async request<T extends object>(flow: DataFlowId, destination: string, records: T[]): Promise<DataTransferGrant<T>> {
+    const decision = decideFlow(DATA_FLOWS[flow], this.isInForce);
+    const denied: DataTransferGrant<T> = { allowed: false, records: [], decision };
+
+    if (!this.subject) {
+      return denied;
+    }
+
+    try {
+      await this.store.append({
+        id: generateId(),
+        user_id: this.subject,
+        flow,
+        destination,
+        outcome: decision.outcome,
+        record_count: decision.outcome === 'blocked' ? 0 : records.length,
+        redacted_fields: decision.redactedFields,
+        missing_consents: decision.missingConsents,
+        transferred_at: this.now().toISOString(),
+      });
+    } catch (error) {
+      console.warn('[DataTransfers] Could not log transfer, not sending:', error);
+      return denied;
+    }
+
+    if (decision.outcome === 'blocked') {
+      return denied;
+    }
+    return { allowed: true, records: redactRecords(records, decision.redactedFields), decision };
+  }
+
+  async list(userId: string, limit = DEFAULT_LIST_LIMIT): Promise<DataTransferRecord[]> {
+    return this.store.list(userId, limit);
+  }
+}
+
+export const dataTransferGate = new DataTransferGate();
@@ -0,0 +1,440 @@
+// ============================================================================
+// Device Sessions for MoodMash
+// One record per signed-in session (refresh token family): device, approximate
+// location and last activity, with revocation and new-device detection
+// ============================================================================
+
+import { getSupabaseClient, handleSupabaseError, isSupabaseConfigured, subscribeToChannel, unsubscribe } from '../lib/supabase';
+import type { SyncStorage } from './moodSync';
+import type { Session, User } from '../contexts/AuthContext';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DeviceSessionRecord {
+  /** Auth session id; stable across access token refreshes */
+  id: string;
+  user_id: string;
+  /** Random id kept in this browser's storage, used to spot new devices */
+  device_id: string;
+  device_type: string;
+  browser: string;
+  os: string;
+  user_agent: string;
+  location: string;
+  /** IANA zone the location was derived from; used for travel checks */
+  time_zone: string | null;
+  created_at: string;
+  last_activity_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+export interface DeviceSessionStore {
+  list(userId: string): Promise<DeviceSessionRecord[]>;
+  get(sessionId: string): Promise<DeviceSessionRecord | null>;
+  save(record: DeviceSessionRecord): Promise<void>;
+  /** Marks the record revoked and invalidates the session's refresh token */
+  revoke(userId: string, sessionId: string): Promise<void>;
+  /** Returns how many sessions were revoked */
+  revokeOthers(userId: string, currentSessionId: string): Promise<number>;
+  /** Called whenever any of the user's records change; returns an unsubscribe function */
+  subscribe(userId: string, onChange: () => void): () => void;
+}
+
+export interface DeviceInfo {
+  deviceType: 'desktop' | 'mobile' | 'tablet';
+  browser: string;
+  os: string;
+}
+
+export interface SessionActivity {
+  record: DeviceSessionRecord;
+  /** The session was revoked from another device and must sign out */
+  revoked: boolean;
+  /** First sign-in from this browser on an account already used elsewhere */
+  newDevice: boolean;
+  /** The account's other sessions when this one is first seen; otherwise empty */
+  previous: DeviceSessionRecord[];
+}
+
+export interface DeviceSessionServiceOptions {
+  store?: DeviceSessionStore;
+  /** Holds this browser's device id */
+  storage?: SyncStorage;
+  now?: () => Date;
+  userAgent?: string;
+  timeZone?: string;
+}
+
+const STORE_KEY = 'moodmash_device_sessions';
+const DEVICE_ID_KEY = 'moodmash_device_id';
+// Activity is written at most this often, not on every token refresh
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// Device Description
+// ============================================================================
+
+/**
+ * Coarse browser/OS/form factor from a user agent string. Order matters:
+ * Edge and Opera also claim to be Chrome, and Chrome claims to be Safari.
+ */
+export function describeUserAgent(userAgent: string): DeviceInfo {
+  const ua = userAgent.toLowerCase();
+
+  const browser =
+    /edg(e|a|ios)?\//.test(ua) ? 'Edge'
+      : /(opr|opera)\//.test(ua) ? 'Opera'
+        : /samsungbrowser\//.test(ua) ? 'Samsung Internet'
+          : /(firefox|fxios)\//.test(ua) ? 'Firefox'
+            : /(chrome|crios|chromium)\//.test(ua) ? 'Chrome'
+              : /safari\//.test(ua) ? 'Safari'
+                : 'Unknown browser';
+
+  const os =
+    /iphone|ipad|ipod/.test(ua) ? 'iOS'
+      : /android/.test(ua) ? 'Android'
+        : /cros/.test(ua) ? 'ChromeOS'
+          : /windows/.test(ua) ? 'Windows'
+            : /mac os x|macintosh/.test(ua) ? 'macOS'
+              : /linux/.test(ua) ? 'Linux'
+                : 'Unknown OS';
+
+  const deviceType = /ipad|tablet/.test(ua) || (/android/.test(ua) && !/mobile/.test(ua))
+    ? 'tablet'
+    : /mobi|iphone|ipod/.test(ua) ? 'mobile' : 'desktop';
+
+  return { deviceType, browser, os };
+}
+
+/**
+ * Region from the device's IANA time zone, e.g. "Europe/Berlin" becomes
+ * "Berlin, Europe". Approximate by design: no IP lookup leaves the browser.
+ */
+export function approximateLocation(timeZone: string | undefined): string {
+  if (!timeZone || !timeZone.includes('/')) return 'Unknown location';
+
+  const [region, ...rest] = timeZone.split('/');
+  const city = rest[rest.length - 1].replace(/_/g, ' ');
+  return `${city}, ${region}`;
+}
+
+function currentTimeZone(): string | undefined {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch {
+    return undefined;
+  }
+}
+
+export function toSession(record: DeviceSessionRecord): Session {
+  return {
+    id: record.id,
+    userId: record.user_id,
+    deviceType: record.device_type,
+    browser: record.browser,
+    os: record.os,
+    location: record.location,
+    createdAt: new Date(record.created_at),
+    expiresAt: new Date(record.expires_at),
+    lastActivityAt: new Date(record.last_activity_at),
+  };
+}
+
+// ============================================================================
+// Supabase Store
+// ============================================================================
+
+/**
+ * user_sessions adapter. Revocation goes through SECURITY DEFINER functions
+ * that also delete the matching auth.sessions row, which takes its refresh
+ * tokens with it.
+ */
+export class SupabaseDeviceSessionStore implements DeviceSessionStore {
+  async list(userId: string): Promise<DeviceSessionRecord[]> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client
+      .from('user_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('last_activity_at', { ascending: false });
+
+    if (error) {
+      handleSupabaseError(error, 'List sessions');
+    }
+
+    return (data as DeviceSessionRecord[]) ?? [];
+  }
+
+  async get(sessionId: string): Promise<DeviceSessionRecord | null> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.from('user_sessions').select('*').eq('id', sessionId).maybeSingle();
+
+    if (error) {
+      handleSupabaseError(error, 'Get session');
+    }
+
+    return (data as DeviceSessionRecord) ?? null;
+  }
+
+  /**
+   * Only the device description and expiry are sent: the server writes the
+   * session named in the access token and sets the times itself
+   */
+  async save(record: DeviceSessionRecord): Promise<void> {
+    const client = getSupabaseClient();
+
+    const { device_id, device_type, browser, os, user_agent, location, time_zone } = record;
+    const { error } = await client.rpc('record_user_session', {
+      device: { device_id, device_type, browser, os, user_agent, location, time_zone },
+      expires_at: record.expires_at,
+    });
+
+    if (error) {
+      handleSupabaseError(error, 'Save session');
+    }
+  }
+
+  async revoke(_userId: string, sessionId: string): Promise<void> {
+    const client = getSupabaseClient();
+
+    const { error } = await client.rpc('revoke_user_session', { target_session: sessionId });
+
+    if (error) {
+      handleSupabaseError(error, 'Revoke session');
+    }
+
+    console.log('[Sessions] Session revoked:', sessionId);
+  }
+
+  async revokeOthers(_userId: string, currentSessionId: string): Promise<number> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.rpc('revoke_other_user_sessions', { current_session: currentSessionId });
+
+    if (error) {
+      handleSupabaseError(error, 'Revoke other sessions');
+    }
+
+    console.log('[Sessions] Other sessions revoked:', data);
+    return (data as number) ?? 0;
+  }
+
+  subscribe(_userId: string, onChange: () => void): () => void {
+    // RLS scopes postgres_changes to the signed-in user's rows
+    const subscription = subscribeToChannel('session-changes', '*', 'user_sessions', () => onChange());
+    return () => unsubscribe(subscription.id);
+  }
+}
+
+// ============================================================================
+// Local Store
+// ============================================================================
+
+/**
+ * Browser-storage store for demo mode (no Supabase) and tests. Other tabs
+ * see changes through the storage event.
+ */
+export class LocalDeviceSessionStore implements DeviceSessionStore {
+  private storage: SyncStorage;
+  private listeners = new Set<() => void>();
+
+  constructor(storage: SyncStorage = localStorage) {
+    this.storage = storage;
+  }
+
+  private read(): DeviceSessionRecord[] {
+    try {
+      const stored = this.storage.getItem(STORE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(records: DeviceSessionRecord[]): void {
+    this.storage.setItem(STORE_KEY, JSON.stringify(records));
+    this.listeners.forEach((listener) => listener());
+  }
+
+  async list(userId: string): Promise<DeviceSessionRecord[]> {
+    return this.read()
+      .filter((record) => record.user_id === userId)
+      .sort((a, b) => b.last_activity_at.localeCompare(a.last_activity_at));
+  }
+
+  async get(sessionId: string): Promise<DeviceSessionRecord | null> {
+    return this.read().find((record) => record.id === sessionId) ?? null;
+  }
+
+  async save(record: DeviceSessionRecord): Promise<void> {
+    this.write([...this.read().filter((stored) => stored.id !== record.id), record]);
+  }
+
+  async revoke(userId: string, sessionId: string): Promise<void> {
+    const revokedAt = new Date().toISOString();
+    this.write(this.read().map((record) =>
+      record.user_id === userId && record.id === sessionId && !record.revoked_at ? { ...record, revoked_at: revokedAt } : record
+    ));
+  }
+
+  async revokeOthers(userId: string, currentSessionId: string): Promise<number> {
+    const revokedAt = new Date().toISOString();
+    let count = 0;
+    this.write(this.read().map((record) => {
+      if (record.user_id !== userId || record.id === currentSessionId || record.revoked_at) return record;
+      count++;
+      return { ...record, revoked_at: revokedAt };
+    }));
+    return count;
+  }
+
+  subscribe(_userId: string, onChange: () => void): () => void {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === STORE_KEY) onChange();
+    };
+
+    this.listeners.add(onChange);
+    if (typeof window !== 'undefined') window.addEventListener('storage', onStorage);
+
+    return () => {
+      this.listeners.delete(onChange);
+      if (typeof window !== 'undefined') window.removeEventListener('storage', onStorage);
+    };
+  }
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+const generateId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export class DeviceSessionService {
+  private store: DeviceSessionStore;
+  private storage: SyncStorage;
+  private now: () => Date;
+  private userAgent: string;
+  private timeZone?: string;
+
+  constructor(options: DeviceSessionServiceOptions = {}) {
+    this.store = options.store ?? (isSupabaseConfigured() ? new SupabaseDeviceSessionStore() : new LocalDeviceSessionStore());
+    this.storage = options.storage ?? localStorage;
+    this.now = options.now ?? (() => new Date());
+    this.userAgent = options.userAgent ?? (typeof navigator !== 'undefined' ? navigator.userAgent : '');
+    this.timeZone = options.timeZone ?? currentTimeZone();
+  }
+
+  get deviceId(): string {
+    let id = this.storage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+      id = generateId();
+      this.storage.setItem(DEVICE_ID_KEY, id);
+    }
+    return id;
+  }
+
+  describeDevice(): DeviceInfo & { location: string } {
+    return { ...describeUserAgent(this.userAgent), location: approximateLocation(this.timeZone) };
+  }
+
+  /**
+   * Record that this device is using `session`. Creates the record on first
+   * sight, then refreshes last activity at most every few minutes.
+   */
+  async recordActivity(user: Pick<User, 'id'>, session: Session): Promise<SessionActivity> {
+    const existing = await this.store.get(session.id);
+    if (existing?.revoked_at) {
+      return { record: existing, revoked: true, newDevice: false, previous: [] };
+    }
+
+    const now = this.now();
+    const expiresAt = session.expiresAt.toISOString();
+    if (
+      existing &&
+      existing.expires_at === expiresAt &&
+      now.getTime() - new Date(existing.last_activity_at).getTime() < ACTIVITY_WRITE_INTERVAL_MS
+    ) {
+      return { record: existing, revoked: false, newDevice: false, previous: [] };
+    }
+
+    const deviceId = this.deviceId;
+    let newDevice = false;
+    let previous: DeviceSessionRecord[] = [];
+    if (!existing) {
+      previous = await this.store.list(user.id);
+      newDevice = previous.length > 0 && !previous.some((record) => record.device_id === deviceId);
+    }
+
+    const { deviceType, browser, os, location } = this.describeDevice();
+    const record: DeviceSessionRecord = {
+      id: session.id,
+      user_id: user.id,
+      device_id: deviceId,
+      device_type: deviceType,
+      browser,
+      os,
+      user_agent: this.userAgent,
+      location,
+      time_zone: this.timeZone ?? null,
+      created_at: existing?.created_at ?? now.toISOString(),
+      last_activity_at: now.toISOString(),
+      expires_at: expiresAt,
+      revoked_at: null,
+    };
+
+    await this.store.save(record);
+    return { record, revoked: false, newDevice, previous };
+  }
+
+  /**
+   * Sessions that can still be used, most recently active first
+   */
+  async list(userId: string): Promise<Session[]> {
+    const now = this.now().getTime();
+    const records = await this.store.list(userId);
+
+    return records
+      .filter((record) => !record.revoked_at && new Date(record.expires_at).getTime() > now)
+      .sort((a, b) => b.last_activity_at.localeCompare(a.last_activity_at))
+      .map(toSession);
+  }
+
+  async isRevoked(sessionId: string): Promise<boolean> {
+    return !!(await this.store.get(sessionId))?.revoked_at;
+  }
+
+  async revoke(userId: string, sessionId: string): Promise<void> {
+    await this.store.revoke(userId, sessionId);
+  }
+
+  async revokeOthers(userId: string, currentSessionId: string): Promise<number> {
+    return this.store.revokeOthers(userId, currentSessionId);
+  }
+
+  /**
+   * Follow the user's session list as it changes on any device
+   */
+  subscribe(userId: string, callback: (sessions: Session[]) => void): () => void {
+    let active = true;
+    const unsubscribe = this.store.subscribe(userId, () => {
+      this.list(userId)
+        .then((sessions) => active && callback(sessions))
+        .catch((error) => console.error('[Sessions] Refresh failed:', error));
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }
+}
+
+export const deviceSessionService = new DeviceSessionService();
@@ -547,8 +547,7 @@ class EmailQueue {
       }
 
       try {
-        // For now, we'll just log - actual implementation would send via emailService
-        console.log('[EmailQueue] Processing email:', email.type, email.id);
+        await this.deliver(email);
         this.queue.shift();
       } catch (error) {
         console.error('[EmailQueue] Failed to process email:', error);
@@ -562,6 +561,31 @@ class EmailQueue {
     this.processing = false;
   }
 
+  /**
+   * Send one queued email; throws so that failures are retried
+   */
+  private async deliver(email: QueuedEmail): Promise<void> {
+    if (email.type === 'securityAlert') {
+      const data = email.data as unknown as SecurityAlertData;
+      const result = await emailService.sendSecurityAlertEmail(
+        data.userEmail,
+        data.userName,
+        data.deviceInfo,
+        data.location,
+        data.ipAddress,
+        data.timestamp,
+        data.actionUrl
+      );
+      if (!result.success) {
+        throw new Error(result.error || 'Security alert email was not sent');
+      }
+      return;
+    }
+
+    // Other templates are still sent directly by their callers
+    console.log('[EmailQueue] Processing email:', email.type, email.id);
+  }
+
   /**
    * Get queue status
    */
@@ -0,0 +1,352 @@
+// ============================================================================
+// Friends for MoodMash
+// Friend requests, invites by email or share link, blocking, and a feed of
+// what friends chose to share: moods marked 'friends' or 'global' and
+// unlocked achievements. Access is enforced by RLS and get_friend_moods();
+// see the friendships section of supabase-schema.sql.
+// ============================================================================
+
+import { getSupabaseClient, handleSupabaseError, isSupabaseConfigured } from '../lib/supabase';
+import { bytesToBase64Url, randomBytes } from '../lib/crypto';
+import { emailService } from './emailService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type FriendshipStatus = 'pending' | 'accepted' | 'declined' | 'blocked';
+
+export interface Friend {
+  friendshipId: string;
+  userId: string;
+  name: string;
+  avatarUrl?: string;
+  status: FriendshipStatus;
+  /** Who asked: 'outgoing' when the signed-in user sent the request */
+  direction: 'incoming' | 'outgoing';
+  since: Date;
+}
+
+export interface FriendActivity {
+  id: string;
+  userId: string;
+  name: string;
+  kind: 'mood' | 'achievement';
+  emotion?: string;
+  intensity?: number;
+  achievementId?: string;
+  at: Date;
+}
+
+/** A row from get_friends() */
+export interface FriendRow {
+  friendship_id: string;
+  friend_id: string;
+  display_name: string;
+  avatar_url: string | null;
+  status: FriendshipStatus;
+  direction: 'incoming' | 'outgoing';
+  created_at: string;
+  responded_at: string | null;
+}
+
+export interface FriendInvite {
+  token: string;
+  email?: string;
+  expiresAt: Date;
+}
+
+export interface SharedMoodRow {
+  id: string;
+  user_id: string;
+  mood_id: string;
+  intensity: number;
+  created_at: string;
+}
+
+export interface SharedAchievementRow {
+  id: string;
+  user_id: string;
+  achievement_id: string;
+  completed_at: string;
+}
+
+export interface FriendStore {
+  list(): Promise<FriendRow[]>;
+  saveInvite(userId: string, invite: FriendInvite): Promise<void>;
+  /** Returns the inviter's user id */
+  acceptInvite(token: string): Promise<string>;
+  sendRequest(userId: string): Promise<void>;
+  respond(friendshipId: string, accept: boolean): Promise<void>;
+  block(userId: string): Promise<void>;
+  /** Removes a friendship, cancels a request or lifts a block */
+  remove(friendshipId: string): Promise<void>;
+  sharedMoods(userIds: string[], limit: number): Promise<SharedMoodRow[]>;
+  sharedAchievements(userIds: string[], limit: number): Promise<SharedAchievementRow[]>;
+}
+
+export type EmailSender = Pick<typeof emailService, 'sendCustomEmail'>;
+
+export interface FriendsServiceOptions {
+  /** null in demo mode, where there is nobody to befriend */
+  store?: FriendStore | null;
+  email?: EmailSender;
+  now?: () => Date;
+  appUrl?: string;
+}
+
+const INVITE_TTL_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_FEED_LIMIT = 30;
+
+// ============================================================================
+// Supabase Store
+// ============================================================================
+
+export class SupabaseFriendStore implements FriendStore {
+  async list(): Promise<FriendRow[]> {
+    const client = getSupabaseClient();
+    const { data, error } = await client.rpc('get_friends');
+
+    if (error) {
+      handleSupabaseError(error, 'Get friends');
+    }
+
+    return (data as FriendRow[]) ?? [];
+  }
+
+  async saveInvite(userId: string, invite: FriendInvite): Promise<void> {
+    const client = getSupabaseClient();
+
+    const { error } = await client.from('friend_invites').insert({
+      user_id: userId,
+      token: invite.token,
+      email: invite.email ?? null,
+      expires_at: invite.expiresAt.toISOString(),
+    });
+
+    if (error) {
+      handleSupabaseError(error, 'Create friend invite');
+    }
+  }
+
+  async acceptInvite(token: string): Promise<string> {
+    const client = getSupabaseClient();
+    const { data, error } = await client.rpc('accept_friend_invite', { invite_token: token });
+
+    if (error) {
+      handleSupabaseError(error, 'Accept friend invite');
+    }
+
+    return data as string;
+  }
+
+  async sendRequest(userId: string): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client.rpc('send_friend_request', { target: userId });
+
+    if (error) {
+      handleSupabaseError(error, 'Send friend request');
+    }
+  }
+
+  async respond(friendshipId: string, accept: boolean): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client.rpc('respond_to_friend_request', { friendship: friendshipId, accept });
+
+    if (error) {
+      handleSupabaseError(error, 'Respond to friend request');
+    }
+  }
+
+  async block(userId: string): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client.rpc('block_user', { target: userId });
+
+    if (error) {
+      handleSupabaseError(error, 'Block user');
+    }
+  }
+
+  async remove(friendshipId: string): Promise<void> {
+    const client = getSupabaseClient();
+    const { error } = await client.from('friendships').delete().eq('id', friendshipId);
+
+    if (error) {
+      handleSupabaseError(error, 'Remove friend');
+    }
+  }
+
+  async sharedMoods(userIds: string[], limit: number): Promise<SharedMoodRow[]> {
+    const client = getSupabaseClient();
+
+    // Only the mood itself is shared; friends cannot select mood_entries
+    const { data, error } = await client.rpc('get_friend_moods', { friend_ids: userIds, max_rows: limit });
+
+    if (error) {
+      handleSupabaseError(error, 'Get friend moods');
+    }
+
+    return (data as SharedMoodRow[]) ?? [];
+  }
+
+  async sharedAchievements(userIds: string[], limit: number): Promise<SharedAchievementRow[]> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client
+      .from('achievements')
+      .select('id, user_id, achievement_id, completed_at')
+      .in('user_id', userIds)
+      .eq('is_completed', true)
+      .order('completed_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      handleSupabaseError(error, 'Get friend achievements');
+    }
+
+    return (data as SharedAchievementRow[]) ?? [];
+  }
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+const escapeText = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function toFriend(row: FriendRow): Friend {
+  return {
+    friendshipId: row.friendship_id,
+    userId: row.friend_id,
+    name: row.display_name || 'MoodMash member',
+    avatarUrl: row.avatar_url ?? undefined,
+    status: row.status,
+    direction: row.direction,
+    since: new Date(row.responded_at ?? row.created_at),
+  };
+}
+
+export class FriendsService {
+  private store: FriendStore | null;
+  private email: EmailSender;
+  private now: () => Date;
+  private appUrl: string;
+
+  constructor(options: FriendsServiceOptions = {}) {
+    this.store = options.store !== undefined
+      ? options.store
+      : isSupabaseConfigured() ? new SupabaseFriendStore() : null;
+    this.email = options.email ?? emailService;
+    this.now = options.now ?? (() => new Date());
+    this.appUrl = options.appUrl ?? window.location.origin;
+  }
+
+  private requireStore(): FriendStore {
+    if (!this.store) {
+      throw new Error('Friends need a signed-in account');
+    }
+    return this.store;
+  }
+
+  async list(): Promise<Friend[]> {
+    return this.store ? (await this.store.list()).map(toFriend) : [];
+  }
+
+  inviteLink(token: string): string {
+    return `${this.appUrl}/dashboard?view=leaderboard&friend_invite=${encodeURIComponent(token)}`;
+  }
+
+  private async createInvite(userId: string, email?: string): Promise<string> {
+    const store = this.requireStore();
+    const invite: FriendInvite = {
+      token: bytesToBase64Url(randomBytes(24)),
+      email,
+      expiresAt: new Date(this.now().getTime() + INVITE_TTL_DAYS * DAY_MS),
+    };
+    await store.saveInvite(userId, invite);
+    return this.inviteLink(invite.token);
+  }
+
+  /** A link anyone can open to become friends; valid for two weeks, once */
+  async createShareLink(userId: string): Promise<string> {
+    return this.createInvite(userId);
+  }
+
+  async inviteByEmail(userId: string, inviterName: string, email: string): Promise<void> {
+    const link = await this.createInvite(userId, email);
+    const name = inviterName.trim() || 'A friend';
+
+    const result = await this.email.sendCustomEmail(
+      email,
+      `${name} invited you to MoodMash`,
+      `<p>${escapeText(name)} would like to be friends on MoodMash, so you can cheer each other on and see the moods you choose to share.</p>`
+        + `<p><a href="${escapeText(link)}">Accept the invite</a></p>`
+        + `<p>The link works once and expires in ${INVITE_TTL_DAYS} days.</p>`,
+      `${name} would like to be friends on MoodMash. Accept the invite: ${link} (works once, expires in ${INVITE_TTL_DAYS} days)`
+    );
+    if (!result.success) {
+      throw new Error(result.error || 'Could not send the invite');
+    }
+  }
+
+  async acceptInvite(token: string): Promise<string> {
+    return this.requireStore().acceptInvite(token);
+  }
+
+  async sendRequest(userId: string): Promise<void> {
+    await this.requireStore().sendRequest(userId);
+  }
+
+  async respond(friendshipId: string, accept: boolean): Promise<void> {
+    await this.requireStore().respond(friendshipId, accept);
+  }
+
+  async block(userId: string): Promise<void> {
+    await this.requireStore().block(userId);
+  }
+
+  async remove(friendshipId: string): Promise<void> {
+    await this.requireStore().remove(friendshipId);
+  }
+
+  /** Shared moods and achievements of accepted friends, newest first */
+  async getActivityFeed(friends: Friend[], limit = DEFAULT_FEED_LIMIT): Promise<FriendActivity[]> {
+    const accepted = friends.filter((friend) => friend.status === 'accepted');
+    if (!this.store || accepted.length === 0) {
+      return [];
+    }
+
+    const names = new Map(accepted.map((friend) => [friend.userId, friend.name]));
+    const ids = [...names.keys()];
+    const [moods, achievements] = await Promise.all([
+      this.store.sharedMoods(ids, limit),
+      this.store.sharedAchievements(ids, limit),
+    ]);
+
+    const activity: FriendActivity[] = [
+      ...moods.map((mood): FriendActivity => ({
+        id: `mood:${mood.id}`,
+        userId: mood.user_id,
+        name: names.get(mood.user_id) ?? 'MoodMash member',
+        kind: 'mood',
+        emotion: mood.mood_id,
+        intensity: mood.intensity,
+        at: new Date(mood.created_at),
+      })),
+      ...achievements.map((achievement): FriendActivity => ({
+        id: `achievement:${achievement.id}`,
+        userId: achievement.user_id,
+        name: names.get(achievement.user_id) ?? 'MoodMash member',
+        kind: 'achievement',
+        achievementId: achievement.achievement_id,
+        at: new Date(achievement.completed_at),
+      })),
+    ];
+
+    return activity.sort((a, b) => b.at.getTime() - a.at.getTime()).slice(0, limit);
+  }
+}
+
+export const friendsService = new FriendsService();
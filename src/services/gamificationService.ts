@@ -4,14 +4,20 @@
 // ============================================================================
 
 import { getSupabaseClient, getPaginationParams, formatPaginatedResult, handleSupabaseError } from '../lib/supabase';
+import { EMPTY_STREAK, normalizeStreakSettings } from '../lib/streaks';
+import type { StreakSettings, StreakState } from '../lib/streaks';
 import type {
   Achievement,
   AchievementDefinition,
+  AchievementDefinitionRow,
   Challenge,
   ChallengeDefinition,
   Streak,
+  StreakHistoryEntry,
   PointsTransaction,
   UserPoints,
+  UserProfile,
+  WellnessSession,
   ApiResponse,
   PaginatedResult,
   PaginationParams,
@@ -39,6 +45,13 @@ export interface AchievementWithProgress {
   isUnlocked: boolean;
 }
 
+export interface AchievementProgressRow {
+  achievement_id: string;
+  progress: number;
+  is_completed: boolean;
+  completed_at: string | null;
+}
+
 export interface AchievementStats {
   totalUnlocked: number;
   totalPoints: number;
@@ -107,12 +120,20 @@ export interface PointsSummary {
   pointsHistory: { date: string; points: number }[];
 }
 
+/** Actions earn_points pays for; the database sets the price */
+export type EarnedSource = Extract<PointsTransaction['source_type'], 'mood' | 'journal' | 'wellness' | 'challenge' | 'streak'>;
+
 export interface AwardPointsData {
-  amount: number;
-  transaction_type: PointsTransaction['transaction_type'];
-  source_type: PointsTransaction['source_type'];
-  source_id?: string;
-  description: string;
+  source_type: EarnedSource;
+  /** The row the action created, or '<streak_type>:<days>' for a streak milestone */
+  source_id: string;
+}
+
+export interface FinishedSessionData {
+  type: WellnessSession['type'];
+  category: string;
+  name: string;
+  duration_minutes: number;
 }
 
 // ============================================================================
@@ -120,159 +141,44 @@ export interface AwardPointsData {
 // ============================================================================
 
 /**
- * Get all achievement definitions
+ * Map an achievement_definitions row to the shape the UI uses
+ */
+export function toAchievementDefinition(row: AchievementDefinitionRow): AchievementDefinition {
+  return {
+    id: row.achievement_id,
+    achievement_id: row.achievement_id,
+    type: row.criteria.type,
+    name: row.name,
+    description: row.description,
+    icon: row.icon,
+    points: row.points_reward,
+    tier: row.tier,
+    max_progress: Math.max(1, row.criteria.target ?? 1),
+    category: row.category,
+    requirement: row.description,
+    criteria: row.criteria,
+  };
+}
+
+/**
+ * Get all active achievement definitions. Unlocking is decided by the
+ * database from each definition's criteria.
  */
 export async function getAchievementDefinitions(): Promise<ApiResponse<AchievementDefinition[]>> {
   try {
-    // This could be a static list or fetched from a table
-    const definitions: AchievementDefinition[] = [
-      {
-        id: 'first_mood',
-        type: 'milestone',
-        name: 'First Steps',
-        description: 'Log your first mood entry',
-        icon: '👣',
-        points: 10,
-        tier: 'bronze',
-        max_progress: 1,
-        category: 'mood',
-        requirement: 'Log 1 mood entry',
-      },
-      {
-        id: 'week_streak',
-        type: 'streak',
-        name: 'Consistent Care',
-        description: 'Log moods for 7 days in a row',
-        icon: '🔥',
-        points: 50,
-        tier: 'silver',
-        max_progress: 7,
-        category: 'streak',
-        requirement: 'Maintain a 7-day streak',
-      },
-      {
-        id: 'month_streak',
-        type: 'streak',
-        name: 'Dedicated Defender',
-        description: 'Log moods for 30 days in a row',
-        icon: '💪',
-        points: 200,
-        tier: 'gold',
-        max_progress: 30,
-        category: 'streak',
-        requirement: 'Maintain a 30-day streak',
-      },
-      {
-        id: 'meditation_master',
-        type: 'sessions',
-        name: 'Zen Master',
-        description: 'Complete 10 meditation sessions',
-        icon: '🧘',
-        points: 75,
-        tier: 'silver',
-        max_progress: 10,
-        category: 'wellness',
-        requirement: 'Complete 10 meditation sessions',
-      },
-      {
-        id: 'yoga_warrior',
-        type: 'sessions',
-        name: 'Yoga Warrior',
-        description: 'Complete 20 yoga sessions',
-        icon: '🧎',
-        points: 100,
-        tier: 'silver',
-        max_progress: 20,
-        category: 'wellness',
-        requirement: 'Complete 20 yoga sessions',
-      },
-      {
-        id: 'emotional_explorer',
-        type: 'variety',
-        name: 'Emotional Explorer',
-        description: 'Log 5 different emotions',
-        icon: '🎭',
-        points: 25,
-        tier: 'bronze',
-        max_progress: 5,
-        category: 'mood',
-        requirement: 'Experience 5 different emotions',
-      },
-      {
-        id: 'gratitude_guru',
-        type: 'journal',
-        name: 'Gratitude Guru',
-        description: 'Write 7 gratitude journal entries',
-        icon: '🙏',
-        points: 35,
-        tier: 'bronze',
-        max_progress: 7,
-        category: 'journal',
-        requirement: 'Write 7 gratitude entries',
-      },
-      {
-        id: 'early_bird',
-        type: 'time',
-        name: 'Early Bird',
-        description: 'Log your mood before 8 AM for 5 days',
-        icon: '🌅',
-        points: 30,
-        tier: 'bronze',
-        max_progress: 5,
-        category: 'habit',
-        requirement: 'Log mood before 8 AM 5 times',
-      },
-      {
-        id: 'night_owl',
-        type: 'time',
-        name: 'Night Owl',
-        description: 'Log your mood after 9 PM for 5 days',
-        icon: '🦉',
-        points: 30,
-        tier: 'bronze',
-        max_progress: 5,
-        category: 'habit',
-        requirement: 'Log mood after 9 PM 5 times',
-      },
-      {
-        id: 'century_club',
-        type: 'milestone',
-        name: 'Century Club',
-        description: 'Log 100 mood entries',
-        icon: '💯',
-        points: 150,
-        tier: 'gold',
-        max_progress: 100,
-        category: 'mood',
-        requirement: 'Log 100 mood entries',
-      },
-      {
-        id: 'mindful_marathon',
-        type: 'duration',
-        name: 'Mindful Marathon',
-        description: 'Complete 500 minutes of meditation',
-        icon: '⏱️',
-        points: 125,
-        tier: 'gold',
-        max_progress: 500,
-        category: 'wellness',
-        requirement: 'Meditate for 500 minutes total',
-      },
-      {
-        id: 'balance_master',
-        type: 'variety',
-        name: 'Balance Master',
-        description: 'Try all 4 wellness activity types',
-        icon: '⚖️',
-        points: 50,
-        tier: 'silver',
-        max_progress: 4,
-        category: 'wellness',
-        requirement: 'Try meditation, yoga, breathing, and music therapy',
-      },
-    ];
+    const client = getSupabaseClient();
 
-    return { success: true, data: definitions };
+    const { data, error } = await client
+      .from('achievement_definitions')
+      .select('*')
+      .eq('is_active', true)
+      .order('points_reward', { ascending: true });
+
+    if (error) {
+      handleSupabaseError(error, 'Get achievement definitions');
+    }
+
+    return { success: true, data: ((data as AchievementDefinitionRow[]) || []).map(toAchievementDefinition) };
   } catch (error) {
     console.error('[Gamification] Get achievement definitions error:', error);
     return { success: false, error: { code: 'QUERY_FAILED', message: 'Failed to get definitions' } };
@@ -373,6 +279,35 @@ export async function getAchievementStats(): Promise<ApiResponse<AchievementStat
   }
 }
 
+/**
+ * Get the user's progress towards each achievement, as recorded by the
+ * database evaluator
+ */
+export async function getAchievementProgress(): Promise<ApiResponse<AchievementProgressRow[]>> {
+  try {
+    const client = getSupabaseClient();
+    const user = await client.auth.getUser();
+
+    if (!user.data.user) {
+      return { success: false, error: { code: 'UNAUTHORIZED', message: 'You must be signed in' } };
+    }
+
+    const { data, error } = await client
+      .from('achievements')
+      .select('achievement_id, progress, is_completed, completed_at')
+      .eq('user_id', user.data.user.id);
+
+    if (error) {
+      handleSupabaseError(error, 'Get achievement progress');
+    }
+
+    return { success: true, data: (data as AchievementProgressRow[]) || [] };
+  } catch (error) {
+    console.error('[Gamification] Get achievement progress error:', error);
+    return { success: false, error: { code: 'QUERY_FAILED', message: 'Failed to get achievements' } };
+  }
+}
+
 // ============================================================================
 // Challenges
 // ============================================================================
@@ -617,13 +552,7 @@ export async function updateChallengeProgress(
 
     // If completed, award points
     if (isCompleted) {
-      await awardPoints({
-        amount: challenge.reward_points,
-        transaction_type: 'earn',
-        source_type: 'challenge',
-        source_id: challengeId,
-        description: `Completed challenge: ${challenge.name}`,
-      });
+      await awardPoints({ source_type: 'challenge', source_id: challengeId });
     }
 
     return { success: true, data: challenge };
@@ -666,9 +595,43 @@ export async function getUserStreaks(): Promise<ApiResponse<Streak[]>> {
 }
 
 /**
- * Update streak activity
+ * Read the timezone and grace window streak days are counted with
  */
-export async function updateStreakActivity(streakType: Streak['streak_type']): Promise<ApiResponse<Streak>> {
+async function loadStreakSettings(
+  client: ReturnType<typeof getSupabaseClient>,
+  userId: string
+): Promise<StreakSettings> {
+  const { data, error } = await client
+    .from('user_profiles')
+    .select('timezone, preferences')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    handleSupabaseError(error, 'Get streak settings');
+  }
+
+  const preferences = data?.preferences as UserProfile['preferences'];
+  return normalizeStreakSettings({
+    timeZone: data?.timezone ?? undefined,
+    graceHours: preferences?.streaks?.grace_hours,
+  });
+}
+
+export function toStreakState(streak: Streak | null | undefined): StreakState {
+  if (!streak) return EMPTY_STREAK;
+  return {
+    current: streak.current_count ?? 0,
+    longest: streak.longest_count ?? 0,
+    lastActiveDay: streak.last_activity_date ?? null,
+    freezes: streak.freezes_available ?? 0,
+  };
+}
+
+/**
+ * Get the user's streak settings
+ */
+export async function getStreakSettings(): Promise<ApiResponse<StreakSettings>> {
   try {
     const client = getSupabaseClient();
     const user = await client.auth.getUser();
@@ -677,128 +640,140 @@ export async function updateStreakActivity(streakType: Streak['streak_type']): P
       return { success: false, error: { code: 'UNAUTHORIZED', message: 'You must be signed in' } };
     }
 
-    const today = new Date().toISOString().split('T')[0];
+    return { success: true, data: await loadStreakSettings(client, user.data.user.id) };
+  } catch (error) {
+    console.error('[Gamification] Get streak settings error:', error);
+    return { success: false, error: { code: 'QUERY_FAILED', message: 'Failed to get streak settings' } };
+  }
+}
 
-    // Check for existing streak
-    const { data: existing, error: findError } = await client
-      .from('streaks')
-      .select('*')
+/**
+ * Save the timezone and grace window. They apply from the next activity;
+ * days already counted are not recounted.
+ */
+export async function updateStreakSettings(settings: StreakSettings): Promise<ApiResponse<StreakSettings>> {
+  try {
+    const client = getSupabaseClient();
+    const user = await client.auth.getUser();
+
+    if (!user.data.user) {
+      return { success: false, error: { code: 'UNAUTHORIZED', message: 'You must be signed in' } };
+    }
+
+    const next = normalizeStreakSettings(settings);
+
+    const { data: profile, error: findError } = await client
+      .from('user_profiles')
+      .select('preferences')
       .eq('user_id', user.data.user.id)
-      .eq('streak_type', streakType)
-      .single();
+      .maybeSingle();
 
-    if (findError && findError.code !== 'PGRST116') {
-      handleSupabaseError(findError, 'Find streak');
+    if (findError) {
+      handleSupabaseError(findError, 'Get streak settings');
     }
 
-    const now = new Date().toISOString();
+    const preferences = (profile?.preferences as UserProfile['preferences']) ?? {};
 
-    if (existing) {
-      const lastActivity = new Date(existing.last_activity_date);
-      const activityDate = new Date(today);
-      const diffDays = Math.floor((activityDate.getTime() - lastActivity.getTime()) / (1000 * 60 * 60 * 24));
-
-      let newCount = existing.current_count;
-      const milestones = { ...existing };
-
-      if (diffDays === 0) {
-        // Same day, no change
-        return { success: true, data: existing };
-      } else if (diffDays === 1) {
-        // Consecutive day
-        newCount++;
-      } else {
-        // Streak broken
-        newCount = 1;
-      }
-
-      // Check milestones
-      if (newCount >= 7 && !existing.milestone_7) milestones.milestone_7 = true;
-      if (newCount >= 14 && !existing.milestone_14) milestones.milestone_14 = true;
-      if (newCount >= 30 && !existing.milestone_30) milestones.milestone_30 = true;
-      if (newCount >= 60 && !existing.milestone_60) milestones.milestone_60 = true;
-      if (newCount >= 100 && !existing.milestone_100) milestones.milestone_100 = true;
-
-      // Update longest streak if needed
-      const newLongest = Math.max(existing.longest_count, newCount);
-
-      // Award milestone points
-      const milestonePoints = calculateMilestonePoints(existing, milestones);
-      if (milestonePoints > 0) {
-        await awardPoints({
-          amount: milestonePoints,
-          transaction_type: 'bonus',
-          source_type: 'streak',
-          description: `Streak milestone reached: ${streakType}`,
-        });
-      }
-
-      const { data: streak, error } = await client
-        .from('streaks')
-        .update({
-          current_count: newCount,
-          longest_count: newLongest,
-          last_activity_date: today,
-          milestone_7: milestones.milestone_7,
-          milestone_14: milestones.milestone_14,
-          milestone_30: milestones.milestone_30,
-          milestone_60: milestones.milestone_60,
-          milestone_100: milestones.milestone_100,
-          updated_at: now,
-        })
-        .eq('id', existing.id)
-        .select()
-        .single();
-
-      if (error) {
-        handleSupabaseError(error, 'Update streak');
-      }
-
-      return { success: true, data: streak };
-    } else {
-      // Create new streak
-      const { data: streak, error } = await client
-        .from('streaks')
-        .insert({
-          user_id: user.data.user.id,
-          streak_type: streakType,
-          current_count: 1,
-          longest_count: 1,
-          last_activity_date: today,
-          started_at: now,
-          milestone_7: false,
-          milestone_14: false,
-          milestone_30: false,
-          milestone_60: false,
-          milestone_100: false,
-          created_at: now,
-          updated_at: now,
-        })
-        .select()
-        .single();
-
-      if (error) {
-        handleSupabaseError(error, 'Create streak');
-      }
-
-      return { success: true, data: streak };
+    const { error } = await client
+      .from('user_profiles')
+      .update({
+        timezone: next.timeZone,
+        preferences: { ...preferences, streaks: { ...preferences.streaks, grace_hours: next.graceHours } },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', user.data.user.id);
+
+    if (error) {
+      handleSupabaseError(error, 'Update streak settings');
+    }
+
+    return { success: true, data: next };
+  } catch (error) {
+    console.error('[Gamification] Update streak settings error:', error);
+    return { success: false, error: { code: 'UPDATE_FAILED', message: 'Failed to update streak settings' } };
+  }
+}
+
+/**
+ * Record activity on a streak now. The database works out the day from its
+ * own clock and the profile's streak settings, writes starts, freezes used
+ * and resets to streak_history and pays milestones.
+ */
+export async function updateStreakActivity(streakType: Streak['streak_type']): Promise<ApiResponse<Streak>> {
+  try {
+    const client = getSupabaseClient();
+    const user = await client.auth.getUser();
+
+    if (!user.data.user) {
+      return { success: false, error: { code: 'UNAUTHORIZED', message: 'You must be signed in' } };
+    }
+
+    const { data: streak, error } = await client.rpc('record_streak_activity', { streak_type: streakType });
+
+    if (error) {
+      handleSupabaseError(error, 'Update streak');
     }
+
+    return { success: true, data: streak as Streak };
   } catch (error) {
     console.error('[Gamification] Update streak error:', error);
     return { success: false, error: { code: 'UPDATE_FAILED', message: 'Failed to update streak' } };
   }
 }
 
-function calculateMilestonePoints(oldStreak: Streak, newMilestones: Partial<Streak>): number {
-  let points = 0;
+/**
+ * Buy a freeze for a streak with points. The database checks the balance
+ * and the number already held.
+ */
+export async function purchaseStreakFreeze(streakType: Streak['streak_type'] = 'mood'): Promise<ApiResponse<Streak>> {
+  try {
+    const client = getSupabaseClient();
 
-  if (!oldStreak.milestone_7 && newMilestones.milestone_7) points += 25;
-  if (!oldStreak.milestone_14 && newMilestones.milestone_14) points += 50;
-  if (!oldStreak.milestone_30 && newMilestones.milestone_30) points += 100;
-  if (!oldStreak.milestone_60 && newMilestones.milestone_60) points += 200;
-  if (!oldStreak.milestone_100 && newMilestones.milestone_100) points += 500;
+    const { data, error } = await client.rpc('purchase_streak_freeze', { streak_type: streakType });
 
-  return points;
+    if (error) {
+      return { success: false, error: { code: 'PURCHASE_FAILED', message: error.message || 'Failed to buy a streak freeze' } };
+    }
+
+    return { success: true, data: data as Streak };
+  } catch (error) {
+    console.error('[Gamification] Purchase streak freeze error:', error);
+    return { success: false, error: { code: 'PURCHASE_FAILED', message: 'Failed to buy a streak freeze' } };
+  }
+}
+
+/**
+ * Get the latest streak history entries, newest first
+ */
+export async function getStreakHistory(
+  streakType: Streak['streak_type'] = 'mood',
+  limit = 20
+): Promise<ApiResponse<StreakHistoryEntry[]>> {
+  try {
+    const client = getSupabaseClient();
+    const user = await client.auth.getUser();
+
+    if (!user.data.user) {
+      return { success: false, error: { code: 'UNAUTHORIZED', message: 'You must be signed in' } };
+    }
+
+    const { data, error } = await client
+      .from('streak_history')
+      .select('*')
+      .eq('user_id', user.data.user.id)
+      .eq('streak_type', streakType)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      handleSupabaseError(error, 'Get streak history');
+    }
+
+    return { success: true, data: (data as StreakHistoryEntry[]) || [] };
+  } catch (error) {
+    console.error('[Gamification] Get streak history error:', error);
+    return { success: false, error: { code: 'QUERY_FAILED', message: 'Failed to get streak history' } };
+  }
 }
 
 // ============================================================================
@@ -853,9 +828,11 @@ export async function getUserPoints(): Promise<ApiResponse<UserPoints>> {
 }
 
 /**
- * Award points to user
+ * Award points to user for an action. The database prices the action, checks
+ * it is the user's own and returns the new totals; each action is only ever
+ * paid once.
  */
-export async function awardPoints(data: AwardPointsData): Promise<ApiResponse<PointsTransaction>> {
+export async function awardPoints(data: AwardPointsData): Promise<ApiResponse<UserPoints>> {
   try {
     const client = getSupabaseClient();
     const user = await client.auth.getUser();
@@ -864,72 +841,56 @@ export async function awardPoints(data: AwardPointsData): Promise<ApiResponse<Po
       return { success: false, error: { code: 'UNAUTHORIZED', message: 'You must be signed in' } };
     }
 
-    const now = new Date().toISOString();
+    const { data: totals, error } = await client.rpc('earn_points', {
+      source_type: data.source_type,
+      source_id: data.source_id,
+    });
 
-    // Get current points
-    const { data: currentPoints } = await client
-      .from('user_points')
-      .select('total_points, lifetime_points, level, points_to_next_level')
-      .eq('user_id', user.data.user.id)
-      .single();
+    if (error) {
+      handleSupabaseError(error, 'Award points');
+    }
 
-    let newTotal = data.amount;
-    let newLifetime = data.amount;
-    let newLevel = 1;
-    let newPointsToNext = 100;
+    console.log('[Gamification] Points awarded for', data.source_type, 'to user', user.data.user.id);
 
-    if (currentPoints) {
-      newTotal = currentPoints.total_points + data.amount;
-      newLifetime = currentPoints.lifetime_points + data.amount;
+    return { success: true, data: totals as UserPoints };
+  } catch (error) {
+    console.error('[Gamification] Award points error:', error);
+    return { success: false, error: { code: 'AWARD_FAILED', message: 'Failed to award points' } };
+  }
+}
+
+/**
+ * Record a finished wellness session and award its points
+ */
+export async function logWellnessSession(data: FinishedSessionData): Promise<ApiResponse<UserPoints>> {
+  try {
+    const client = getSupabaseClient();
+    const user = await client.auth.getUser();
 
-      // Calculate new level (every 100 points = 1 level)
-      newLevel = Math.floor(newLifetime / 100) + 1;
-      const pointsInCurrentLevel = newLifetime % 100;
-      newPointsToNext = 100 - pointsInCurrentLevel;
+    if (!user.data.user) {
+      return { success: false, error: { code: 'UNAUTHORIZED', message: 'You must be signed in' } };
     }
 
-    // Create transaction
-    const { data: transaction, error: txError } = await client
-      .from('points_transactions')
+    const { data: session, error } = await client
+      .from('wellness_sessions')
       .insert({
         user_id: user.data.user.id,
-        amount: data.amount,
-        transaction_type: data.transaction_type,
-        source_type: data.source_type,
-        source_id: data.source_id,
-        description: data.description,
-        balance_after: newTotal,
-        created_at: now,
+        type: data.type,
+        category: data.category,
+        name: data.name,
+        duration_minutes: data.duration_minutes,
       })
-      .select()
+      .select('id')
       .single();
 
-    if (txError) {
-      handleSupabaseError(txError, 'Create points transaction');
-    }
-
-    // Update user points
-    const { error: updateError } = await client
-      .from('user_points')
-      .upsert({
-        user_id: user.data.user.id,
-        total_points: newTotal,
-        lifetime_points: newLifetime,
-        level: newLevel,
-        points_to_next_level: newPointsToNext,
-        updated_at: now,
-      }, { onConflict: 'user_id' });
-
-    if (updateError) {
-      handleSupabaseError(updateError, 'Update user points');
+    if (error) {
+      handleSupabaseError(error, 'Log wellness session');
     }
 
-    console.log('[Gamification] Points awarded:', data.amount, 'to user', user.data.user.id);
-
-    return { success: true, data: transaction };
+    return awardPoints({ source_type: 'wellness', source_id: session.id });
   } catch (error) {
-    console.error('[Gamification] Award points error:', error);
-    return { success: false, error: { code: 'AWARD_FAILED', message: 'Failed to award points' } };
+    console.error('[Gamification] Log session error:', error);
+    return { success: false, error: { code: 'CREATE_FAILED', message: 'Failed to log session' } };
   }
 }
 
@@ -1048,6 +1009,40 @@ export async function getPointsSummary(): Promise<ApiResponse<PointsSummary>> {
   }
 }
 
+// ============================================================================
+// Migration
+// ============================================================================
+
+export interface LocalProgressData {
+  experience: number;
+  longest_streak: number;
+}
+
+/**
+ * Carry progress made on this device before sign-in over to the account.
+ * The database only accepts it for an account with no points history;
+ * resolves to whether it was imported.
+ */
+export async function importLocalProgress(data: LocalProgressData): Promise<ApiResponse<boolean>> {
+  try {
+    const client = getSupabaseClient();
+
+    const { data: imported, error } = await client.rpc('import_local_progress', {
+      experience: Math.max(0, Math.round(data.experience)),
+      longest_streak: Math.max(0, Math.round(data.longest_streak)),
+    });
+
+    if (error) {
+      handleSupabaseError(error, 'Import local progress');
+    }
+
+    return { success: true, data: imported === true };
+  } catch (error) {
+    console.error('[Gamification] Import local progress error:', error);
+    return { success: false, error: { code: 'IMPORT_FAILED', message: 'Failed to import progress' } };
+  }
+}
+
 // ============================================================================
 // Export Types
 // ============================================================================
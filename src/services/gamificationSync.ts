@@ -0,0 +1,387 @@
+// ============================================================================
+// Gamification Sync for MoodMash
+// The account's points, level, streak and achievements live in Supabase;
+// GamificationContext keeps a local cache of them, applies changes
+// optimistically and then adopts the totals the server returns. Achievements
+// are unlocked only by the database evaluator, from the criteria in
+// achievement_definitions. Progress made before signing in is carried over
+// once, on first sign-in.
+// ============================================================================
+
+import {
+  getAchievementDefinitions,
+  getAchievementProgress,
+  getStreakHistory,
+  getStreakSettings,
+  getUserPoints,
+  getUserStreaks,
+  importLocalProgress,
+  logWellnessSession,
+  purchaseStreakFreeze,
+  toStreakState,
+  updateStreakActivity,
+  updateStreakSettings,
+} from './gamificationService';
+import type { AchievementProgressRow } from './gamificationService';
+import { isSupabaseConfigured, subscribeToChannel, unsubscribe } from '../lib/supabase';
+import { DEFAULT_STREAK_SETTINGS, normalizeStreakSettings } from '../lib/streaks';
+import type { StreakEvent, StreakSettings, StreakState } from '../lib/streaks';
+import type { SyncStorage } from './moodSync';
+import type { Achievement, AchievementCategory } from '../contexts/GamificationContext';
+import type { AchievementDefinition, ApiResponse, StreakHistoryEntry, UserPoints } from '../types/database';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PointsTotals {
+  /** Spendable balance */
+  points: number;
+  /** Lifetime points; XP is never spent */
+  experience: number;
+  level: number;
+}
+
+export interface StreakSnapshot {
+  streak: StreakState;
+  /** Newest first */
+  streakHistory: StreakEvent[];
+  streakSettings: StreakSettings;
+}
+
+export interface GamificationSnapshot extends PointsTotals, StreakSnapshot {
+  /** The account's achievements, with progress recorded by the server */
+  achievements: Achievement[];
+}
+
+/** A finished wellness session, as GamificationContext logs it */
+export interface SessionRecord {
+  type: 'meditation' | 'yoga' | 'music';
+  category: string;
+  name: string;
+  /** Minutes */
+  duration: number;
+}
+
+/**
+ * Achievements are not carried over; the account earns its own. The server
+ * caps both figures at MAX_IMPORTED_EXPERIENCE and MAX_IMPORTED_STREAK.
+ */
+export interface LocalProgress {
+  experience: number;
+  longestStreak: number;
+}
+
+export interface GamificationRemote {
+  fetchSnapshot(): Promise<GamificationSnapshot>;
+  /** Stores the session and resolves to the totals once its points are paid */
+  logSession(session: SessionRecord): Promise<PointsTotals>;
+  /** Counts activity now, by the server's clock, towards the mood streak */
+  recordActivity(): Promise<StreakState>;
+  /** Rejects when the balance is too low or the most freezes are held */
+  purchaseStreakFreeze(): Promise<StreakState>;
+  saveStreakSettings(settings: StreakSettings): Promise<StreakSettings>;
+  /** Resolves to false when the account already had progress */
+  importLocalProgress(progress: LocalProgress): Promise<boolean>;
+  /** Called when the server unlocks or advances an achievement; returns an unsubscribe function */
+  subscribe(onChange: () => void): () => void;
+}
+
+/** The shape GamificationContext saves under LOCAL_PROGRESS_KEY */
+export interface SavedGamification {
+  /** Missing in saves from before experience held lifetime XP */
+  version?: number;
+  profile?: { level?: number; experience?: number; longestStreak?: number };
+  achievements?: { id: string; unlockedAt?: string | Date }[];
+}
+
+/** Progress made without an account, or in demo mode */
+export const LOCAL_PROGRESS_KEY = 'moodmash_gamification';
+export const SAVE_VERSION = 2;
+/** Accounts this device's progress was already offered to */
+export const IMPORTED_KEY = 'moodmash_gamification_imported';
+
+/** Cache of a signed-in account's progress, kept apart from local progress */
+export const accountCacheKey = (userId: string) => `${LOCAL_PROGRESS_KEY}_${userId}`;
+
+/** How this device counts streak days; an account's settings replace it on sign-in */
+export const STREAK_SETTINGS_KEY = 'moodmash_streak_settings';
+
+const STREAK_HISTORY_LIMIT = 20;
+
+/** import_local_progress in the schema caps carried-over progress at these */
+export const MAX_IMPORTED_EXPERIENCE = 5000;
+export const MAX_IMPORTED_STREAK = 365;
+
+// ============================================================================
+// Prices
+// ============================================================================
+
+/** earn_points in the schema pays sessions at the same rate */
+export const SESSION_POINTS_PER_MINUTE = 2;
+export const MAX_PAID_SESSION_MINUTES = 60;
+
+/** Points a wellness session of `minutes` earns */
+export function sessionPoints(minutes: number): number {
+  return SESSION_POINTS_PER_MINUTE * Math.min(Math.max(Math.round(minutes), 0), MAX_PAID_SESSION_MINUTES);
+}
+
+// ============================================================================
+// Levels
+// ============================================================================
+
+/** XP needed to clear `level`; calculate_user_level in the schema uses the same curve */
+export function getXPForLevel(level: number): number {
+  return Math.floor(100 * Math.pow(level, 1.5));
+}
+
+export function getLevelFromXP(xp: number) {
+  let level = 1;
+  let requiredXP = getXPForLevel(level);
+  let currentXP = xp;
+
+  while (currentXP >= requiredXP) {
+    currentXP -= requiredXP;
+    level++;
+    requiredXP = getXPForLevel(level);
+  }
+
+  const progress = (currentXP / requiredXP) * 100;
+
+  return { level, currentXP, requiredXP, progress };
+}
+
+/** XP needed to reach `level` from nothing */
+export function getXPBeforeLevel(level: number): number {
+  let total = 0;
+  for (let l = 1; l < level; l++) {
+    total += getXPForLevel(l);
+  }
+  return total;
+}
+
+// ============================================================================
+// Achievements
+// ============================================================================
+
+const RARITY_BY_TIER: Record<AchievementDefinition['tier'], Achievement['rarity']> = {
+  bronze: 'common',
+  silver: 'rare',
+  gold: 'epic',
+  platinum: 'legendary',
+};
+
+const WELLNESS_CATEGORIES: AchievementCategory[] = ['meditation', 'yoga', 'music'];
+
+/** Badge category for a definition; streak conditions are grouped as streaks */
+function toCategory(definition: AchievementDefinition): AchievementCategory {
+  const sessionType = definition.criteria?.session_type as AchievementCategory | undefined;
+
+  if (definition.criteria?.type === 'streak') return 'streak';
+  if (sessionType && WELLNESS_CATEGORIES.includes(sessionType)) return sessionType;
+
+  switch (definition.category) {
+    case 'mood':
+    case 'journal':
+      return 'mood';
+    case 'wellness':
+      return 'meditation';
+    case 'social':
+      return 'social';
+    case 'level':
+    case 'points':
+    case 'achievements':
+      return 'mastery';
+    default:
+      return 'exploration';
+  }
+}
+
+/** An account achievement from its definition and the server's progress row */
+export function toAchievement(definition: AchievementDefinition, row?: AchievementProgressRow): Achievement {
+  return {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    icon: definition.icon,
+    category: toCategory(definition),
+    rarity: RARITY_BY_TIER[definition.tier],
+    requirement: definition.max_progress,
+    xpReward: definition.points,
+    unlockedAt: row?.is_completed && row.completed_at ? new Date(row.completed_at) : undefined,
+    progress: Math.min(row?.progress ?? 0, definition.max_progress),
+  };
+}
+
+// ============================================================================
+// Streaks
+// ============================================================================
+
+function deviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_STREAK_SETTINGS.timeZone;
+  } catch {
+    return DEFAULT_STREAK_SETTINGS.timeZone;
+  }
+}
+
+/** Streak settings saved on this device, defaulting to the device's zone */
+export function readStreakSettings(storage: SyncStorage = window.localStorage): StreakSettings {
+  try {
+    const saved = JSON.parse(storage.getItem(STREAK_SETTINGS_KEY) || 'null');
+    if (saved) return normalizeStreakSettings(saved);
+  } catch {
+    // Fall through to the defaults
+  }
+  return normalizeStreakSettings({ timeZone: deviceTimeZone(), graceHours: 0 });
+}
+
+export function saveStreakSettings(settings: StreakSettings, storage: SyncStorage = window.localStorage): void {
+  storage.setItem(STREAK_SETTINGS_KEY, JSON.stringify(normalizeStreakSettings(settings)));
+}
+
+export function toStreakEvent(row: StreakHistoryEntry): StreakEvent {
+  return {
+    kind: row.kind,
+    day: row.day,
+    count: row.count,
+    previousCount: row.previous_count,
+    missedDays: row.missed_days,
+    freezesUsed: row.freezes_used,
+  };
+}
+
+// ============================================================================
+// Supabase Remote
+// ============================================================================
+
+function unwrap<T>(response: ApiResponse<T>): T {
+  if (!response.success || response.data === undefined) {
+    throw new Error(response.error?.message || 'Gamification request failed');
+  }
+  return response.data;
+}
+
+function toPointsTotals(row: UserPoints | null): PointsTotals {
+  const experience = row?.lifetime_points ?? 0;
+  return {
+    points: row?.total_points ?? 0,
+    experience,
+    level: row?.level ?? getLevelFromXP(experience).level,
+  };
+}
+
+export class SupabaseGamificationRemote implements GamificationRemote {
+  async fetchSnapshot(): Promise<GamificationSnapshot> {
+    const [points, streaks, history, settings, definitions, progress] = await Promise.all([
+      getUserPoints().then(unwrap),
+      getUserStreaks().then(unwrap),
+      getStreakHistory('mood', STREAK_HISTORY_LIMIT).then(unwrap),
+      getStreakSettings().then(unwrap),
+      getAchievementDefinitions().then(unwrap),
+      getAchievementProgress().then(unwrap),
+    ]);
+    const mood = streaks.find((streak) => streak.streak_type === 'mood');
+    const rows = new Map(progress.map((row) => [row.achievement_id, row]));
+
+    return {
+      ...toPointsTotals(points),
+      streak: toStreakState(mood),
+      streakHistory: history.map(toStreakEvent),
+      streakSettings: settings,
+      achievements: definitions.map((definition) => toAchievement(definition, rows.get(definition.id))),
+    };
+  }
+
+  async logSession(session: SessionRecord): Promise<PointsTotals> {
+    const totals = unwrap(await logWellnessSession({
+      // wellness_sessions has no music type
+      type: session.type === 'music' ? 'other' : session.type,
+      category: session.category,
+      name: session.name,
+      duration_minutes: Math.round(session.duration),
+    }));
+    return toPointsTotals(totals);
+  }
+
+  async recordActivity(): Promise<StreakState> {
+    return toStreakState(unwrap(await updateStreakActivity('mood')));
+  }
+
+  async purchaseStreakFreeze(): Promise<StreakState> {
+    return toStreakState(unwrap(await purchaseStreakFreeze('mood')));
+  }
+
+  async saveStreakSettings(settings: StreakSettings): Promise<StreakSettings> {
+    return unwrap(await updateStreakSettings(settings));
+  }
+
+  async importLocalProgress(progress: LocalProgress): Promise<boolean> {
+    return unwrap(await importLocalProgress({
+      experience: progress.experience,
+      longest_streak: progress.longestStreak,
+    }));
+  }
+
+  subscribe(onChange: () => void): () => void {
+    // RLS scopes postgres_changes to the signed-in user's rows
+    const subscription = subscribeToChannel('achievement-changes', '*', 'achievements', () => onChange());
+    return () => unsubscribe(subscription.id);
+  }
+}
+
+// ============================================================================
+// Migration
+// ============================================================================
+
+/**
+ * Lifetime XP and longest streak from a save, within the import caps.
+ * Older saves kept only the XP into the current level, so the levels below
+ * it are added back.
+ */
+export function readLocalProgress(saved: SavedGamification): LocalProgress {
+  const experience = saved.profile?.experience ?? 0;
+  const level = saved.profile?.level ?? 1;
+
+  const lifetime = saved.version === undefined ? getXPBeforeLevel(level) + experience : experience;
+
+  return {
+    experience: Math.min(lifetime, MAX_IMPORTED_EXPERIENCE),
+    longestStreak: Math.min(saved.profile?.longestStreak ?? 0, MAX_IMPORTED_STREAK),
+  };
+}
+
+/**
+ * Offers this device's signed-out progress to `userId`'s account, once.
+ * Imported progress is removed from the device, since it now belongs to
+ * the account; progress the account turned down stays for demo mode.
+ * Resolves to whether anything was imported.
+ */
+export async function migrateLocalProgress(
+  remote: GamificationRemote,
+  userId: string,
+  storage: SyncStorage = window.localStorage
+): Promise<boolean> {
+  const offered: string[] = JSON.parse(storage.getItem(IMPORTED_KEY) || '[]');
+  const raw = storage.getItem(LOCAL_PROGRESS_KEY);
+  if (!raw || offered.includes(userId)) return false;
+
+  let saved: SavedGamification;
+  try {
+    saved = JSON.parse(raw);
+  } catch {
+    return false;
+  }
+
+  const progress = readLocalProgress(saved);
+  const hasProgress = progress.experience > 0 || progress.longestStreak > 0;
+  const imported = hasProgress && await remote.importLocalProgress(progress);
+
+  if (imported) {
+    storage.removeItem(LOCAL_PROGRESS_KEY);
+  }
+  storage.setItem(IMPORTED_KEY, JSON.stringify([...offered, userId]));
+  return imported;
+}
+
+export const gamificationRemote: GamificationRemote | null = isSupabaseConfigured() ? new SupabaseGamificationRemote() : null;
@@ -0,0 +1,641 @@
+// ============================================================================
+// Intervention Engine for MoodMash
+// Evaluates user-authored triggers against mood, wellness and wearable data
+// ============================================================================
+
+import { isSupabaseConfigured } from '../lib/supabase';
+import { getRecentSessions } from './wellnessService';
+import { wearablesService } from './wearables';
+import { smartNotificationsService } from './recommendations';
+import { emailService } from './emailService';
+import { assessRisk, RISK_SCORES } from './riskDetection';
+import type { SyncStorage } from './moodSync';
+import type { InterventionTrigger, InterventionExecution, RiskLevel, WearableDataPoint } from '../types/advanced';
+import type { WellnessSession } from '../types/database';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TriggerType = InterventionTrigger['trigger_type'];
+export type TriggerCondition = InterventionTrigger['condition'];
+export type ExecutionStatus = InterventionExecution['status'];
+export type ExecutionOutcome = NonNullable<InterventionExecution['outcome']>;
+
+export type InterventionMetric =
+  | 'mood_score'
+  | 'mood_intensity'
+  | 'stress_level'
+  | 'sleep_quality'
+  | 'energy_level'
+  | 'wellness_minutes'
+  | 'steps'
+  | 'active_minutes'
+  | 'heart_rate'
+  | 'resting_heart_rate'
+  | 'hrv'
+  | 'sleep_hours'
+  | 'risk_score';
+
+export type InterventionAction = 'notification' | 'breathing_exercise' | 'journal_prompt' | 'email';
+
+export interface MetricDefinition {
+  id: InterventionMetric;
+  label: string;
+  unit: string;
+  /** Event-like metrics add up over the window, readings are averaged, and
+   *  severities take the worst value seen */
+  aggregation: 'avg' | 'sum' | 'max';
+}
+
+export interface MetricSample {
+  metric: string;
+  value: number;
+  timestamp: string;
+}
+
+/**
+ * Accepts both MoodContext entries (createdAt) and Supabase rows (created_at).
+ */
+export interface MoodSample {
+  emotion: string;
+  intensity: number;
+  createdAt?: Date | string;
+  created_at?: string;
+  stress_level?: number;
+  sleep_quality?: number;
+  energy_level?: number;
+  note?: string | null;
+}
+
+export interface RiskSignal {
+  level: RiskLevel;
+  detectedAt: string;
+}
+
+export interface InterventionDataInput {
+  moods?: MoodSample[];
+  wellness?: WellnessSession[];
+  wearables?: WearableDataPoint[];
+  risks?: RiskSignal[];
+}
+
+export interface TriggerEvaluation {
+  triggerId: string;
+  matched: boolean;
+  value: number | null;
+  previousValue: number | null;
+  changePercentage: number | null;
+  reason: string;
+}
+
+export interface TriggerDraft {
+  trigger_type: TriggerType;
+  condition: TriggerCondition;
+  intervention_action: InterventionAction;
+  intervention_config?: Record<string, unknown>;
+  is_active?: boolean;
+}
+
+export interface InterventionContext {
+  email?: string;
+  name?: string;
+}
+
+export type InterventionActionHandler = (
+  execution: InterventionExecution,
+  trigger: InterventionTrigger,
+  context: InterventionContext
+) => Promise<void>;
+
+export interface InterventionEngineOptions {
+  storage?: SyncStorage;
+  handlers?: Partial<Record<InterventionAction, InterventionActionHandler>>;
+  now?: () => Date;
+}
+
+export interface TriggerEffectiveness {
+  executions: number;
+  actedOn: number;
+  averageRating: number | null;
+  averageMoodChange: number | null;
+}
+
+interface InterventionStore {
+  triggers: InterventionTrigger[];
+  executions: InterventionExecution[];
+}
+
+// ============================================================================
+// Catalog
+// ============================================================================
+
+export const INTERVENTION_METRICS: MetricDefinition[] = [
+  { id: 'mood_score', label: 'Mood score', unit: '/10', aggregation: 'avg' },
+  { id: 'mood_intensity', label: 'Mood intensity', unit: '/10', aggregation: 'avg' },
+  { id: 'stress_level', label: 'Stress level', unit: '/10', aggregation: 'avg' },
+  { id: 'sleep_quality', label: 'Sleep quality', unit: '/10', aggregation: 'avg' },
+  { id: 'energy_level', label: 'Energy level', unit: '/10', aggregation: 'avg' },
+  { id: 'wellness_minutes', label: 'Wellness minutes', unit: 'min', aggregation: 'sum' },
+  { id: 'steps', label: 'Steps', unit: 'steps', aggregation: 'sum' },
+  { id: 'active_minutes', label: 'Active minutes', unit: 'min', aggregation: 'sum' },
+  { id: 'heart_rate', label: 'Heart rate', unit: 'bpm', aggregation: 'avg' },
+  { id: 'resting_heart_rate', label: 'Resting heart rate', unit: 'bpm', aggregation: 'avg' },
+  { id: 'hrv', label: 'Heart rate variability', unit: 'ms', aggregation: 'avg' },
+  { id: 'sleep_hours', label: 'Sleep duration', unit: 'h', aggregation: 'sum' },
+  { id: 'risk_score', label: 'Crisis language (0 none - 3 high)', unit: '/3', aggregation: 'max' },
+];
+
+export const INTERVENTION_ACTIONS: { id: InterventionAction; label: string }[] = [
+  { id: 'notification', label: 'Send a notification' },
+  { id: 'breathing_exercise', label: 'Suggest a breathing exercise' },
+  { id: 'journal_prompt', label: 'Suggest a journaling prompt' },
+  { id: 'email', label: 'Send an email' },
+];
+
+export const TRIGGER_PRESETS: Record<TriggerType, { label: string; condition: TriggerCondition; action: InterventionAction }> = {
+  mood_drop: {
+    label: 'Mood drop',
+    condition: { metric: 'mood_score', operator: 'change', change_percentage: -20, time_window_hours: 48 },
+    action: 'breathing_exercise',
+  },
+  poor_sleep: {
+    label: 'Poor sleep',
+    condition: { metric: 'sleep_hours', operator: 'lt', threshold: 6, time_window_hours: 24 },
+    action: 'notification',
+  },
+  low_activity: {
+    label: 'Low activity',
+    condition: { metric: 'steps', operator: 'lt', threshold: 3000, time_window_hours: 24 },
+    action: 'notification',
+  },
+  stress_indicator: {
+    label: 'Stress indicator',
+    condition: { metric: 'stress_level', operator: 'gte', threshold: 7, time_window_hours: 24 },
+    action: 'breathing_exercise',
+  },
+  risk_detected: {
+    label: 'Risk detected',
+    condition: { metric: 'risk_score', operator: 'gte', threshold: 3, time_window_hours: 24 },
+    action: 'notification',
+  },
+  goal_missed: {
+    label: 'Wellness goal missed',
+    condition: { metric: 'wellness_minutes', operator: 'lt', threshold: 10, time_window_hours: 72 },
+    action: 'journal_prompt',
+  },
+  positive_momentum: {
+    label: 'Positive momentum',
+    condition: { metric: 'mood_score', operator: 'change', change_percentage: 15, time_window_hours: 72 },
+    action: 'notification',
+  },
+};
+
+const DEFAULT_MESSAGES: Record<TriggerType, string> = {
+  mood_drop: 'Your mood has dipped recently. A few slow breaths might help you reset.',
+  poor_sleep: 'You have not been sleeping much. Try winding down a little earlier tonight.',
+  low_activity: 'You have been less active today. A short walk can lift your energy.',
+  stress_indicator: 'Your stress has been running high. Take a moment for yourself.',
+  risk_detected: 'It looks like things have been hard lately. You do not have to go through it alone.',
+  goal_missed: 'You have not had a wellness session in a while. How about a quick check-in?',
+  positive_momentum: 'Your mood has been trending up. Keep doing what is working!',
+};
+
+const ACTION_URLS: Record<InterventionAction, string | undefined> = {
+  notification: undefined,
+  breathing_exercise: '/dashboard?view=breathing',
+  journal_prompt: '/dashboard?view=timeline',
+  email: undefined,
+};
+
+const POSITIVE_EMOTIONS = ['happy', 'calm', 'excited', 'grateful', 'peaceful', 'hopeful', 'confident'];
+const NEGATIVE_EMOTIONS = ['sad', 'angry', 'anxious', 'tired', 'stressed', 'frustrated', 'lonely', 'overwhelmed'];
+
+const WEARABLE_METRICS: Partial<Record<WearableDataPoint['data_type'], InterventionMetric>> = {
+  steps: 'steps',
+  active_minutes: 'active_minutes',
+  heart_rate: 'heart_rate',
+  resting_heart_rate: 'resting_heart_rate',
+  hrv: 'hrv',
+  sleep: 'sleep_hours',
+};
+
+const DEFAULT_WINDOW_HOURS = 24;
+const MAX_STORED_EXECUTIONS = 200;
+const STORE_KEY = 'moodmash_interventions';
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// Metric Extraction
+// ============================================================================
+
+/**
+ * Map an emotion and its intensity onto a single 1-10 wellbeing score, so
+ * "very sad" reads low and "very happy" reads high.
+ */
+export function moodScore(emotion: string, intensity: number): number {
+  if (POSITIVE_EMOTIONS.includes(emotion)) return intensity;
+  if (NEGATIVE_EMOTIONS.includes(emotion)) return 11 - intensity;
+  return 5;
+}
+
+export function buildMetricSamples(input: InterventionDataInput): MetricSample[] {
+  const samples: MetricSample[] = [];
+
+  (input.moods || []).forEach((mood) => {
+    const timestamp = new Date(mood.createdAt ?? mood.created_at).toISOString();
+    samples.push({ metric: 'mood_score', value: moodScore(mood.emotion, mood.intensity), timestamp });
+    samples.push({ metric: 'mood_intensity', value: mood.intensity, timestamp });
+
+    if (mood.stress_level != null) samples.push({ metric: 'stress_level', value: mood.stress_level, timestamp });
+    if (mood.sleep_quality != null) samples.push({ metric: 'sleep_quality', value: mood.sleep_quality, timestamp });
+    if (mood.energy_level != null) samples.push({ metric: 'energy_level', value: mood.energy_level, timestamp });
+    if (mood.note) samples.push({ metric: 'risk_score', value: RISK_SCORES[assessRisk(mood.note).level], timestamp });
+  });
+
+  (input.wellness || []).forEach((session) => {
+    samples.push({ metric: 'wellness_minutes', value: session.duration_minutes, timestamp: session.completed_at });
+  });
+
+  (input.wearables || []).forEach((point) => {
+    const metric = WEARABLE_METRICS[point.data_type];
+    if (!metric || typeof point.value !== 'number') return;
+
+    // Trackers report sleep in minutes; triggers are authored in hours
+    const value = metric === 'sleep_hours' && /^min/.test(point.unit) ? point.value / 60 : point.value;
+    samples.push({ metric, value, timestamp: point.timestamp });
+  });
+
+  (input.risks || []).forEach((risk) => {
+    samples.push({ metric: 'risk_score', value: RISK_SCORES[risk.level], timestamp: risk.detectedAt });
+  });
+
+  return samples;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function aggregate(metric: string, values: number[]): number {
+  const definition = INTERVENTION_METRICS.find((m) => m.id === metric);
+  if (definition?.aggregation === 'max') return Math.max(...values);
+
+  const total = values.reduce((sum, value) => sum + value, 0);
+  return definition?.aggregation === 'sum' ? total : total / values.length;
+}
+
+function valuesBetween(samples: MetricSample[], metric: string, start: number, end: number): number[] {
+  return samples
+    .filter((s) => s.metric === metric)
+    .filter((s) => {
+      const time = new Date(s.timestamp).getTime();
+      return time > start && time <= end;
+    })
+    .map((s) => s.value);
+}
+
+function compare(operator: TriggerCondition['operator'], value: number, threshold: number): boolean {
+  switch (operator) {
+    case 'lt': return value < threshold;
+    case 'gt': return value > threshold;
+    case 'lte': return value <= threshold;
+    case 'gte': return value >= threshold;
+    case 'eq': return Math.abs(value - threshold) < 1e-9;
+    default: return false;
+  }
+}
+
+/**
+ * Evaluate one trigger's condition over the samples in its time window.
+ * `change` compares the window against the window before it; a negative
+ * change_percentage matches drops, a positive one matches rises.
+ */
+export function evaluateTrigger(
+  trigger: InterventionTrigger,
+  samples: MetricSample[],
+  now: Date = new Date()
+): TriggerEvaluation {
+  const { metric, operator, threshold, change_percentage } = trigger.condition;
+  const windowMs = (trigger.condition.time_window_hours || DEFAULT_WINDOW_HOURS) * HOUR_MS;
+  const end = now.getTime();
+
+  const result = (matched: boolean, reason: string, value: number | null = null, previousValue: number | null = null, changePercentage: number | null = null): TriggerEvaluation => ({
+    triggerId: trigger.id,
+    matched,
+    value,
+    previousValue,
+    changePercentage,
+    reason,
+  });
+
+  const hasMetric = samples.some((s) => s.metric === metric);
+  if (!hasMetric) {
+    return result(false, `No ${metric} data`);
+  }
+
+  const current = valuesBetween(samples, metric, end - windowMs, end);
+  const isSum = INTERVENTION_METRICS.find((m) => m.id === metric)?.aggregation === 'sum';
+
+  // A summed metric with no events in the window is a real zero (no steps,
+  // no sessions); an averaged one is simply missing
+  if (current.length === 0 && !isSum) {
+    return result(false, `No ${metric} data in the last ${windowMs / HOUR_MS}h`);
+  }
+  const value = current.length > 0 ? aggregate(metric, current) : 0;
+
+  if (operator === 'change') {
+    if (change_percentage === undefined || change_percentage === 0) {
+      return result(false, 'No change percentage configured', value);
+    }
+
+    const previous = valuesBetween(samples, metric, end - 2 * windowMs, end - windowMs);
+    if (previous.length === 0) {
+      return result(false, 'Not enough history to measure change', value);
+    }
+
+    const previousValue = aggregate(metric, previous);
+    if (previousValue === 0) {
+      return result(false, 'Baseline is zero', value, previousValue);
+    }
+
+    const change = ((value - previousValue) / Math.abs(previousValue)) * 100;
+    const matched = change_percentage < 0 ? change <= change_percentage : change >= change_percentage;
+    return result(matched, `${metric} changed ${change.toFixed(1)}%`, value, previousValue, change);
+  }
+
+  if (threshold === undefined || threshold === null) {
+    return result(false, 'No threshold configured', value);
+  }
+
+  const matched = compare(operator, value, threshold);
+  return result(matched, `${metric} is ${Number(value.toFixed(2))} (${operator} ${threshold})`, value);
+}
+
+/**
+ * A trigger that fired stays quiet for its cooldown (defaults to its time
+ * window) so one bad day does not produce a stream of interventions.
+ */
+export function isInCooldown(trigger: InterventionTrigger, now: Date = new Date()): boolean {
+  if (!trigger.last_triggered_at) return false;
+
+  const configured = Number(trigger.intervention_config?.cooldown_hours);
+  const cooldownHours = configured > 0 ? configured : trigger.condition.time_window_hours || DEFAULT_WINDOW_HOURS;
+  return now.getTime() - new Date(trigger.last_triggered_at).getTime() < cooldownHours * HOUR_MS;
+}
+
+export function evaluateTriggers(
+  triggers: InterventionTrigger[],
+  samples: MetricSample[],
+  now: Date = new Date()
+): TriggerEvaluation[] {
+  return triggers
+    .filter((trigger) => trigger.is_active)
+    .map((trigger) => {
+      if (isInCooldown(trigger, now)) {
+        return { triggerId: trigger.id, matched: false, value: null, previousValue: null, changePercentage: null, reason: 'Cooling down' };
+      }
+      return evaluateTrigger(trigger, samples, now);
+    });
+}
+
+// ============================================================================
+// Action Handlers
+// ============================================================================
+
+const notify: InterventionActionHandler = async (execution, trigger) => {
+  await smartNotificationsService.sendNotification(execution.user_id, {
+    user_id: execution.user_id,
+    type: 'intervention',
+    title: TRIGGER_PRESETS[trigger.trigger_type]?.label || 'Check-in',
+    message: execution.message,
+    channel: 'app',
+    priority: trigger.trigger_type === 'risk_detected' ? 'critical' : 'medium',
+    triggered_by: trigger.trigger_type,
+    context: { trigger_id: trigger.id, execution_id: execution.id, action: execution.intervention_type },
+    action_url: execution.action_url,
+    action_label: execution.intervention_type === 'breathing_exercise' ? 'Start breathing' : undefined,
+  });
+};
+
+const sendEmail: InterventionActionHandler = async (execution, trigger, context) => {
+  if (!context.email) {
+    throw new Error('No email address for this user');
+  }
+
+  const result = await emailService.sendCustomEmail(
+    context.email,
+    `MoodMash: ${TRIGGER_PRESETS[trigger.trigger_type]?.label || 'Check-in'}`,
+    `<p>${context.name ? `Hi ${context.name},` : 'Hi,'}</p><p>${execution.message}</p>`
+  );
+  if (!result.success) {
+    throw new Error(result.error || 'Email failed');
+  }
+};
+
+const DEFAULT_HANDLERS: Record<InterventionAction, InterventionActionHandler> = {
+  notification: notify,
+  breathing_exercise: notify,
+  journal_prompt: notify,
+  email: sendEmail,
+};
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+export class InterventionEngine {
+  private storage: SyncStorage;
+  private handlers: Record<InterventionAction, InterventionActionHandler>;
+  private now: () => Date;
+  private store: InterventionStore;
+
+  constructor(options: InterventionEngineOptions = {}) {
+    this.storage = options.storage || window.localStorage;
+    this.handlers = { ...DEFAULT_HANDLERS, ...options.handlers };
+    this.now = options.now || (() => new Date());
+    this.store = this.read();
+  }
+
+  private read(): InterventionStore {
+    try {
+      const raw = this.storage.getItem(STORE_KEY);
+      return raw ? (JSON.parse(raw) as InterventionStore) : { triggers: [], executions: [] };
+    } catch {
+      console.warn('[Interventions] Failed to read stored triggers');
+      return { triggers: [], executions: [] };
+    }
+  }
+
+  private persist(): void {
+    this.store.executions = this.store.executions.slice(-MAX_STORED_EXECUTIONS);
+    this.storage.setItem(STORE_KEY, JSON.stringify(this.store));
+  }
+
+  // --------------------------------------------------------------------------
+  // Triggers
+  // --------------------------------------------------------------------------
+
+  getTriggers(userId: string): InterventionTrigger[] {
+    return this.store.triggers.filter((t) => t.user_id === userId);
+  }
+
+  createTrigger(userId: string, draft: TriggerDraft): InterventionTrigger {
+    const trigger: InterventionTrigger = {
+      id: crypto.randomUUID(),
+      user_id: userId,
+      trigger_type: draft.trigger_type,
+      condition: draft.condition,
+      intervention_action: draft.intervention_action,
+      intervention_config: draft.intervention_config || {},
+      is_active: draft.is_active ?? true,
+      trigger_count: 0,
+      created_at: this.now().toISOString(),
+    };
+
+    this.store.triggers.push(trigger);
+    this.persist();
+    return trigger;
+  }
+
+  updateTrigger(id: string, changes: Partial<TriggerDraft>): InterventionTrigger | null {
+    const trigger = this.store.triggers.find((t) => t.id === id);
+    if (!trigger) return null;
+
+    Object.assign(trigger, changes);
+    this.persist();
+    return trigger;
+  }
+
+  deleteTrigger(id: string): void {
+    this.store.triggers = this.store.triggers.filter((t) => t.id !== id);
+    this.persist();
+  }
+
+  // --------------------------------------------------------------------------
+  // Executions
+  // --------------------------------------------------------------------------
+
+  getExecutions(userId: string, triggerId?: string): InterventionExecution[] {
+    return this.store.executions
+      .filter((e) => e.user_id === userId && (!triggerId || e.trigger_id === triggerId))
+      .sort((a, b) => b.executed_at.localeCompare(a.executed_at));
+  }
+
+  /**
+   * Evaluate the user's active triggers and fire the action for each match.
+   * Executions are recorded before the action runs, so a failed send stays
+   * visible as `pending`.
+   */
+  async run(userId: string, input: InterventionDataInput, context: InterventionContext = {}): Promise<InterventionExecution[]> {
+    const now = this.now();
+    const triggers = this.getTriggers(userId);
+    const evaluations = evaluateTriggers(triggers, buildMetricSamples(input), now);
+    const fired: InterventionExecution[] = [];
+
+    for (const evaluation of evaluations.filter((e) => e.matched)) {
+      const trigger = triggers.find((t) => t.id === evaluation.triggerId)!;
+      const action = trigger.intervention_action as InterventionAction;
+      const config = trigger.intervention_config || {};
+
+      const execution: InterventionExecution = {
+        id: crypto.randomUUID(),
+        user_id: userId,
+        trigger_id: trigger.id,
+        intervention_type: action,
+        status: 'pending',
+        message: typeof config.message === 'string' && config.message ? config.message : DEFAULT_MESSAGES[trigger.trigger_type],
+        action_url: typeof config.action_url === 'string' ? config.action_url : ACTION_URLS[action],
+        executed_at: now.toISOString(),
+      };
+
+      trigger.last_triggered_at = now.toISOString();
+      trigger.trigger_count += 1;
+      this.store.executions.push(execution);
+      this.persist();
+
+      try {
+        const handler = this.handlers[action];
+        if (!handler) {
+          throw new Error(`Unknown intervention action: ${action}`);
+        }
+        await handler(execution, trigger, context);
+        execution.status = 'sent';
+        console.log('[Interventions] Fired:', trigger.trigger_type, '->', action, `(${evaluation.reason})`);
+      } catch (error) {
+        console.error('[Interventions] Action failed:', error);
+      }
+
+      this.persist();
+      fired.push(execution);
+    }
+
+    return fired;
+  }
+
+  updateExecutionStatus(id: string, status: ExecutionStatus): InterventionExecution | null {
+    const execution = this.store.executions.find((e) => e.id === id);
+    if (!execution) return null;
+
+    execution.status = status;
+    if (status === 'completed' || status === 'dismissed') {
+      execution.completed_at = this.now().toISOString();
+    }
+    this.persist();
+    return execution;
+  }
+
+  recordOutcome(id: string, outcome: ExecutionOutcome): InterventionExecution | null {
+    const execution = this.store.executions.find((e) => e.id === id);
+    if (!execution) return null;
+
+    execution.outcome = { ...execution.outcome, ...outcome };
+    execution.status = outcome.action_taken ? 'completed' : 'dismissed';
+    execution.completed_at = this.now().toISOString();
+    this.persist();
+    return execution;
+  }
+
+  getEffectiveness(userId: string, triggerId: string): TriggerEffectiveness {
+    const executions = this.getExecutions(userId, triggerId);
+    const ratings = executions.map((e) => e.outcome?.effectiveness_rating).filter((r): r is number => typeof r === 'number');
+    const moodChanges = executions.map((e) => e.outcome?.mood_change).filter((c): c is number => typeof c === 'number');
+    const average = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+    return {
+      executions: executions.length,
+      actedOn: executions.filter((e) => e.outcome?.action_taken).length,
+      averageRating: average(ratings),
+      averageMoodChange: average(moodChanges),
+    };
+  }
+
+  reset(): void {
+    this.store = { triggers: [], executions: [] };
+    this.storage.removeItem(STORE_KEY);
+  }
+}
+
+// ============================================================================
+// Data Collection
+// ============================================================================
+
+/**
+ * Gather the evaluation window's data. Wellness sessions and wearable points
+ * are best-effort; the engine still runs on moods alone.
+ */
+export async function collectInterventionData(userId: string, moods: MoodSample[], days: number = 7): Promise<InterventionDataInput> {
+  const startDate = new Date();
+  startDate.setDate(startDate.getDate() - days);
+
+  const [wellness, wearables] = await Promise.all([
+    isSupabaseConfigured()
+      ? getRecentSessions(days).then((result) => (result.success ? result.data : []))
+      : Promise.resolve([] as WellnessSession[]),
+    wearablesService.getDataPoints(userId, { startDate: startDate.toISOString() }),
+  ]);
+
+  return { moods, wellness, wearables };
+}
+
+export const interventionEngine = new InterventionEngine();
@@ -3,6 +3,7 @@
 // Database operations for journal entries with AI-powered insights
 // ============================================================================
 
+import { z } from 'zod';
 import {
   getSupabaseClient,
   getPaginationParams,
@@ -16,6 +17,19 @@ import type {
   PaginationParams,
   SentimentLabel,
 } from '../types/database';
+import {
+  sealField,
+  sealOptionalField,
+  openField,
+  resealField,
+  onFieldCipherChange,
+  EncryptionLockedError,
+} from '../lib/fieldEncryption';
+import { SearchIndex } from '../lib/searchIndex';
+import { screenForRisk } from './riskDetection';
+import { generateJSON, getLLMProvider, isThirdPartyProvider } from './llm';
+import { dataTransferGate } from './dataTransfers';
+import type { LLMProvider } from './llm';
 
 // ============================================================================
 // Types
@@ -81,6 +95,106 @@ export interface JournalWithMood {
   };
 }
 
+// ============================================================================
+// Content Encryption
+// ============================================================================
+
+/**
+ * Journal bodies and AI summaries are sealed on the client, so the server
+ * stores ciphertext plus the key version used.
+ */
+async function sealContent(
+  data: Pick<UpdateJournalEntryData, 'content' | 'ai_summary'>
+): Promise<Partial<Pick<JournalEntry, 'content' | 'ai_summary' | 'key_version'>>> {
+  const sealed: Partial<Pick<JournalEntry, 'content' | 'ai_summary' | 'key_version'>> = {};
+
+  if (data.content !== undefined) {
+    const content = await sealField(data.content);
+    sealed.content = content.value;
+    sealed.key_version = content.key_version;
+  }
+  if (data.ai_summary !== undefined) {
+    const summary = await sealOptionalField(data.ai_summary);
+    sealed.ai_summary = summary ? summary.value : data.ai_summary;
+    sealed.key_version = summary?.key_version ?? sealed.key_version;
+  }
+
+  return sealed;
+}
+
+async function openJournalEntry(entry: JournalEntry): Promise<JournalEntry> {
+  return {
+    ...entry,
+    content: (await openField(entry.content)) ?? '',
+    ai_summary: await openField(entry.ai_summary),
+  };
+}
+
+function openJournalEntries(entries: JournalEntry[]): Promise<JournalEntry[]> {
+  return Promise.all(entries.map(openJournalEntry));
+}
+
+function lockedError(error: unknown): ApiResponse<never> | null {
+  if (error instanceof EncryptionLockedError) {
+    return { success: false, error: { code: error.code, message: error.message } };
+  }
+  return null;
+}
+
+// ============================================================================
+// Search Index
+// ============================================================================
+
+// Built from decrypted entries on first search, then kept current by CRUD
+const searchIndex = new SearchIndex();
+let searchIndexOwner: string | null = null;
+
+function indexEntry(entry: JournalEntry): void {
+  if (searchIndexOwner !== entry.user_id) return;
+  searchIndex.add({
+    id: entry.id,
+    text: `${entry.title ?? ''} ${entry.content}`,
+    sortKey: entry.created_at,
+  });
+}
+
+async function ensureSearchIndex(userId: string): Promise<void> {
+  if (searchIndexOwner === userId) return;
+
+  const client = getSupabaseClient();
+  const { data, error } = await client
+    .from('journal_entries')
+    .select('id, user_id, title, content, created_at')
+    .eq('user_id', userId);
+
+  if (error) {
+    handleSupabaseError(error, 'Build journal search index');
+  }
+
+  const entries = await Promise.all(
+    (data || []).map(async (row) => ({ ...row, content: (await openField(row.content)) ?? '' }))
+  );
+
+  searchIndex.clear();
+  searchIndexOwner = userId;
+  entries.forEach((entry) => indexEntry(entry as JournalEntry));
+
+  console.log('[Journal] Search index built:', searchIndex.size, 'entries');
+}
+
+/**
+ * Drop the decrypted search index, e.g. when encryption is locked or the
+ * user signs out.
+ */
+export function resetJournalSearchIndex(): void {
+  searchIndex.clear();
+  searchIndexOwner = null;
+}
+
+onFieldCipherChange((ready) => {
+  if (!ready) resetJournalSearchIndex();
+});
+
 // ============================================================================
 // CRUD Operations
 // ============================================================================
@@ -105,13 +219,16 @@ export async function createJournalEntry(
     const now = new Date().toISOString();
     const entryDate = data.entry_date || new Date().toISOString().split('T')[0];
     const entryTime = data.entry_time || new Date().toTimeString().slice(0, 5);
+    // Screen the plaintext before it is sealed
+    screenForRisk(data.content, 'journal');
+    const sealed = await sealContent({ content: data.content });
 
     const { data: entry, error } = await client
       .from('journal_entries')
       .insert({
         user_id: user.data.user.id,
         title: data.title,
-        content: data.content,
+        ...sealed,
         mood_id: data.mood_id,
         mood_intensity: data.mood_intensity,
         activities: data.activities || [],
@@ -136,10 +253,13 @@ export async function createJournalEntry(
 
     console.log('[Journal] Entry created:', entry.id);
 
-    return { success: true, data: entry };
+    const opened = await openJournalEntry(entry);
+    indexEntry(opened);
+
+    return { success: true, data: opened };
   } catch (error) {
     console.error('[Journal] Create error:', error);
-    return {
+    return lockedError(error) ?? {
       success: false,
       error: { code: 'CREATE_FAILED', message: 'Failed to create journal entry' },
     };
@@ -174,10 +294,10 @@ export async function getJournalEntry(
       handleSupabaseError(error, 'Get journal entry');
     }
 
-    return { success: true, data };
+    return { success: true, data: await openJournalEntry(data) };
   } catch (error) {
     console.error('[Journal] Get error:', error);
-    return {
+    return lockedError(error) ?? {
       success: false,
       error: { code: 'GET_FAILED', message: 'Failed to get journal entry' },
     };
@@ -202,10 +322,13 @@ export async function updateJournalEntry(
       };
     }
 
+    if (data.content !== undefined) screenForRisk(data.content, 'journal');
+    const changes = { ...data, ...(await sealContent(data)) };
+
     const { data: entry, error } = await client
       .from('journal_entries')
       .update({
-        ...data,
+        ...changes,
         updated_at: new Date().toISOString(),
       })
       .eq('id', id)
@@ -219,10 +342,13 @@ export async function updateJournalEntry(
 
     console.log('[Journal] Entry updated:', entry.id);
 
-    return { success: true, data: entry };
+    const opened = await openJournalEntry(entry);
+    indexEntry(opened);
+
+    return { success: true, data: opened };
   } catch (error) {
     console.error('[Journal] Update error:', error);
-    return {
+    return lockedError(error) ?? {
       success: false,
       error: { code: 'UPDATE_FAILED', message: 'Failed to update journal entry' },
     };
@@ -257,6 +383,7 @@ export async function deleteJournalEntry(
     }
 
     console.log('[Journal] Entry deleted:', id);
+    searchIndex.remove(id);
 
     return { success: true, data: null };
   } catch (error) {
@@ -337,7 +464,7 @@ export async function getJournalEntries(
       handleSupabaseError(error, 'Get journal entries');
     }
 
-    const result = formatPaginatedResult(data || [], count || 0, page, limit);
+    const result = formatPaginatedResult(await openJournalEntries(data || []), count || 0, page, limit);
 
     return {
       success: true,
@@ -346,7 +473,7 @@ export async function getJournalEntries(
     };
   } catch (error) {
     console.error('[Journal] Query error:', error);
-    return {
+    return lockedError(error) ?? {
       success: false,
       error: { code: 'QUERY_FAILED', message: 'Failed to query journal entries' },
     };
@@ -381,10 +508,10 @@ export async function getTodayJournalEntries(): Promise<ApiResponse<JournalEntry
       handleSupabaseError(error, 'Get today journal entries');
     }
 
-    return { success: true, data: data || [] };
+    return { success: true, data: await openJournalEntries(data || []) };
   } catch (error) {
     console.error('[Journal] Get today entries error:', error);
-    return {
+    return lockedError(error) ?? {
       success: false,
       error: { code: 'QUERY_FAILED', message: 'Failed to get today journal entries' },
     };
@@ -489,26 +616,33 @@ export async function searchJournalEntries(
     const { page = 1, limit = 20 } = pagination;
     const { from, to } = getPaginationParams(page, limit);
 
-    // Use text search for title and content with OR condition
-    const searchPattern = `%${searchQuery}%`;
-    const { data, error, count } = await client
-      .from('journal_entries')
-      .select('*', { count: 'exact' })
-      .eq('user_id', user.data.user.id)
-      .or(`title.ilike.${searchPattern},content.ilike.${searchPattern}`)
-      .order('created_at', { ascending: false })
-      .range(from, to);
+    // Content is ciphertext on the server, so match against the local index
+    await ensureSearchIndex(user.data.user.id);
+    const matchedIds = searchIndex.search(searchQuery);
+    const pageIds = matchedIds.slice(from, to + 1);
+
+    let entries: JournalEntry[] = [];
+    if (pageIds.length > 0) {
+      const { data, error } = await client
+        .from('journal_entries')
+        .select('*')
+        .eq('user_id', user.data.user.id)
+        .in('id', pageIds);
+
+      if (error) {
+        handleSupabaseError(error, 'Search journal entries');
+      }
 
-    if (error) {
-      handleSupabaseError(error, 'Search journal entries');
+      const byId = new Map((data || []).map((entry) => [entry.id, entry]));
+      entries = await openJournalEntries(pageIds.map((id) => byId.get(id)).filter(Boolean));
     }
 
-    const result = formatPaginatedResult(data || [], count || 0, page, limit);
+    const result = formatPaginatedResult(entries, matchedIds.length, page, limit);
 
     return { success: true, data: result };
   } catch (error) {
     console.error('[Journal] Search error:', error);
-    return {
+    return lockedError(error) ?? {
       success: false,
       error: { code: 'SEARCH_FAILED', message: 'Failed to search journal entries' },
     };
@@ -557,7 +691,7 @@ export async function getJournalStatistics(
       handleSupabaseError(error, 'Get journal statistics');
     }
 
-    const journalEntries = entries || [];
+    const journalEntries = await openJournalEntries(entries || []);
 
     if (journalEntries.length === 0) {
       return {
@@ -668,7 +802,7 @@ export async function getJournalStatistics(
     };
   } catch (error) {
     console.error('[Journal] Statistics error:', error);
-    return {
+    return lockedError(error) ?? {
       success: false,
       error: { code: 'STATS_FAILED', message: 'Failed to get statistics' },
     };
@@ -733,14 +867,47 @@ export async function analyzeJournalSentiment(
   };
 }
 
+const journalSummarySchema = z.object({
+  summary: z.string().min(1),
+  suggestions: z.array(z.string()).max(5),
+});
+
+// Long entries are trimmed to roughly 3000 tokens before summarizing
+const SUMMARY_CONTENT_CHARS = 12000;
+
 /**
- * Generate AI summary for journal entry (placeholder)
+ * Generate AI summary for journal entry. Falls back to a first-sentence
+ * summary when no provider is configured, the call fails or the transfer
+ * gate keeps the entry from a hosted provider.
  */
 export async function generateAISummary(
-  content: string
+  content: string,
+  provider: LLMProvider = getLLMProvider()
 ): Promise<{ summary: string; suggestions: string[] }> {
-  // Placeholder implementation - in production, this would call an AI service
-  const words = content.split(/\s+/);
+  try {
+    if (isThirdPartyProvider(provider)) {
+      const grant = await dataTransferGate.request('ai_journal', provider.id, [{ content }]);
+      if (!grant.allowed) {
+        throw new Error('Sharing journal entries with a hosted provider is not allowed by your consents');
+      }
+    }
+
+    const output = await generateJSON(provider, {
+      system: 'You are a supportive journaling companion. Do not diagnose or give medical advice.',
+      prompt: `Summarize this journal entry in one or two sentences addressed to its author, then offer up to three gentle follow-up prompts.
+
+Reply with a JSON object: {"summary": string, "suggestions": string[]}
+
+<entry>
+${content.slice(0, SUMMARY_CONTENT_CHARS)}
+</entry>`,
+      maxOutputTokens: 300,
+    }, journalSummarySchema);
+    return { summary: output.summary, suggestions: output.suggestions };
+  } catch (error) {
+    console.warn('[Journal] AI summary unavailable, using fallback:', error);
+  }
+
   const firstSentence = content.split(/[.!?]/)[0] || content.substring(0, 100);
 
   return {
@@ -823,10 +990,11 @@ export async function bulkCreateJournalEntries(
     }
 
     const now = new Date().toISOString();
-    const entriesWithUser = entries.map((entry) => ({
+    const sealed = await Promise.all(entries.map((entry) => sealContent({ content: entry.content })));
+    const entriesWithUser = entries.map((entry, index) => ({
       user_id: user.data.user!.id,
       title: entry.title,
-      content: entry.content,
+      ...sealed[index],
       mood_id: entry.mood_id,
       mood_intensity: entry.mood_intensity,
       activities: entry.activities || [],
@@ -853,10 +1021,13 @@ export async function bulkCreateJournalEntries(
 
     console.log('[Journal] Bulk created:', data?.length, 'entries');
 
-    return { success: true, data: data || [] };
+    const opened = await openJournalEntries(data || []);
+    opened.forEach(indexEntry);
+
+    return { success: true, data: opened };
   } catch (error) {
     console.error('[Journal] Bulk create error:', error);
-    return {
+    return lockedError(error) ?? {
       success: false,
       error: { code: 'BULK_CREATE_FAILED', message: 'Failed to create entries' },
     };
@@ -891,6 +1062,7 @@ export async function bulkDeleteJournalEntries(
     }
 
     console.log('[Journal] Bulk deleted:', ids.length, 'entries');
+    ids.forEach((id) => searchIndex.remove(id));
 
     return { success: true, data: { deleted: ids.length } };
   } catch (error) {
@@ -902,6 +1074,65 @@ export async function bulkDeleteJournalEntries(
   }
 }
 
+/**
+ * Re-seal journal bodies and summaries that are not on the active key
+ * version. Run after a key rotation.
+ */
+export async function reencryptJournalEntries(): Promise<ApiResponse<{ reencrypted: number }>> {
+  try {
+    const client = getSupabaseClient();
+    const user = await client.auth.getUser();
+
+    if (!user.data.user) {
+      return {
+        success: false,
+        error: { code: 'UNAUTHORIZED', message: 'You must be signed in' },
+      };
+    }
+
+    const { data, error } = await client
+      .from('journal_entries')
+      .select('id, content, ai_summary, key_version')
+      .eq('user_id', user.data.user.id);
+
+    if (error) {
+      handleSupabaseError(error, 'Load journal entries for re-encryption');
+    }
+
+    let reencrypted = 0;
+    for (const row of data || []) {
+      const content = await resealField(row.content);
+      const summary = await resealField(row.ai_summary);
+      if (!content && !summary) continue;
+
+      const { error: updateError } = await client
+        .from('journal_entries')
+        .update({
+          ...(content ? { content: content.value } : {}),
+          ...(summary ? { ai_summary: summary.value } : {}),
+          key_version: (content ?? summary).key_version,
+        })
+        .eq('id', row.id)
+        .eq('user_id', user.data.user.id);
+
+      if (updateError) {
+        handleSupabaseError(updateError, 'Re-encrypt journal entry');
+      }
+      reencrypted++;
+    }
+
+    console.log('[Journal] Re-encrypted:', reencrypted, 'entries');
+
+    return { success: true, data: { reencrypted } };
+  } catch (error) {
+    console.error('[Journal] Re-encrypt error:', error);
+    return lockedError(error) ?? {
+      success: false,
+      error: { code: 'REENCRYPT_FAILED', message: 'Failed to re-encrypt journal entries' },
+    };
+  }
+}
+
 // ============================================================================
 // Export
 // ============================================================================
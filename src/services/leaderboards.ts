@@ -0,0 +1,225 @@
+// ============================================================================
+// Leaderboards for MoodMash
+// Weekly, monthly and all-time standings computed in the database from
+// points_transactions. The global board lists only users who opted in
+// through their profile's privacy preferences; the friends board lists
+// accepted friends.
+// ============================================================================
+
+import { getSupabaseClient, handleSupabaseError, isSupabaseConfigured } from '../lib/supabase';
+import type { LeaderboardEntry } from '../contexts/GamificationContext';
+import type { UserProfile } from '../types/database';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LeaderboardPeriod = 'weekly' | 'monthly' | 'all_time';
+
+export type LeaderboardScope = 'global' | 'friends';
+
+export const LEADERBOARD_PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  weekly: 'This Week',
+  monthly: 'This Month',
+  all_time: 'All Time',
+};
+
+/**
+ * A row from get_leaderboard(). The caller's own row is always returned,
+ * flagged `on_page` only when it falls inside the requested page.
+ */
+export interface LeaderboardRow {
+  user_id: string;
+  display_name: string;
+  avatar_url: string | null;
+  score: number;
+  level: number;
+  streak: number;
+  rank: number;
+  /** Rank over the previous period; null when the user earned nothing then */
+  previous_rank: number | null;
+  total_count: number;
+  on_page: boolean;
+}
+
+export interface LeaderboardStore {
+  fetch(period: LeaderboardPeriod, scope: LeaderboardScope, offset: number, limit: number): Promise<LeaderboardRow[]>;
+  getVisibility(userId: string): Promise<boolean>;
+  setVisibility(userId: string, visible: boolean): Promise<void>;
+}
+
+export interface LeaderboardPage {
+  period: LeaderboardPeriod;
+  scope: LeaderboardScope;
+  /** 1-based */
+  page: number;
+  pageSize: number;
+  total: number;
+  hasMore: boolean;
+  entries: LeaderboardEntry[];
+  /** The signed-in user's standing, whether or not it is on this page */
+  viewer: LeaderboardEntry | null;
+}
+
+export interface LeaderboardServiceOptions {
+  /** null in demo mode, where there is nobody to rank against */
+  store?: LeaderboardStore | null;
+  pageSize?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// ============================================================================
+// Supabase Store
+// ============================================================================
+
+export class SupabaseLeaderboardStore implements LeaderboardStore {
+  async fetch(period: LeaderboardPeriod, scope: LeaderboardScope, offset: number, limit: number): Promise<LeaderboardRow[]> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.rpc('get_leaderboard', {
+      period,
+      page_offset: offset,
+      page_limit: limit,
+      scope,
+    });
+
+    if (error) {
+      handleSupabaseError(error, 'Get leaderboard');
+    }
+
+    return ((data as LeaderboardRow[]) ?? []).map((row) => ({
+      ...row,
+      // bigint columns arrive as strings from some drivers
+      score: Number(row.score),
+      rank: Number(row.rank),
+      previous_rank: row.previous_rank === null ? null : Number(row.previous_rank),
+      total_count: Number(row.total_count),
+    }));
+  }
+
+  private async getPreferences(userId: string): Promise<UserProfile['preferences']> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client
+      .from('user_profiles')
+      .select('preferences')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      handleSupabaseError(error, 'Get leaderboard visibility');
+    }
+
+    return (data?.preferences as UserProfile['preferences']) ?? {};
+  }
+
+  async getVisibility(userId: string): Promise<boolean> {
+    const preferences = await this.getPreferences(userId);
+    return preferences?.privacy?.show_on_leaderboard ?? false;
+  }
+
+  async setVisibility(userId: string, visible: boolean): Promise<void> {
+    const client = getSupabaseClient();
+    const preferences = (await this.getPreferences(userId)) ?? {};
+
+    const { error } = await client
+      .from('user_profiles')
+      .update({
+        preferences: {
+          ...preferences,
+          privacy: {
+            share_achievements: false,
+            allow_anonymous_data: false,
+            ...preferences.privacy,
+            show_on_leaderboard: visible,
+          },
+        },
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId);
+
+    if (error) {
+      handleSupabaseError(error, 'Set leaderboard visibility');
+    }
+  }
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Places gained (positive) or lost (negative) since the previous period;
+ * null for users who are new to the board
+ */
+export function positionChange(entry: LeaderboardEntry): number | null {
+  return entry.previousRank === null ? null : entry.previousRank - entry.rank;
+}
+
+export function toLeaderboardEntry(row: LeaderboardRow, viewerId: string | null, scope: LeaderboardScope = 'global'): LeaderboardEntry {
+  const name = row.display_name || 'MoodMash member';
+  return {
+    rank: row.rank,
+    previousRank: row.previous_rank,
+    userId: row.user_id,
+    name,
+    avatar: name.charAt(0).toUpperCase(),
+    avatarUrl: row.avatar_url ?? undefined,
+    score: row.score,
+    level: row.level,
+    streak: row.streak,
+    // everyone but the viewer on the friends board is an accepted friend
+    isFriend: scope === 'friends' && row.user_id !== viewerId,
+    isCurrentUser: row.user_id === viewerId,
+  };
+}
+
+export class LeaderboardService {
+  private store: LeaderboardStore | null;
+  private pageSize: number;
+
+  constructor(options: LeaderboardServiceOptions = {}) {
+    this.store = options.store !== undefined
+      ? options.store
+      : isSupabaseConfigured() ? new SupabaseLeaderboardStore() : null;
+    this.pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  }
+
+  async getPage(
+    period: LeaderboardPeriod,
+    page: number,
+    viewerId: string | null,
+    scope: LeaderboardScope = 'global'
+  ): Promise<LeaderboardPage> {
+    const empty: LeaderboardPage = { period, scope, page, pageSize: this.pageSize, total: 0, hasMore: false, entries: [], viewer: null };
+    if (!this.store || !viewerId) {
+      return empty;
+    }
+
+    const rows = await this.store.fetch(period, scope, (page - 1) * this.pageSize, this.pageSize);
+    const total = rows[0]?.total_count ?? 0;
+    const viewerRow = rows.find((row) => row.user_id === viewerId);
+
+    return {
+      ...empty,
+      total,
+      hasMore: page * this.pageSize < total,
+      entries: rows.filter((row) => row.on_page).map((row) => toLeaderboardEntry(row, viewerId, scope)),
+      viewer: viewerRow ? toLeaderboardEntry(viewerRow, viewerId, scope) : null,
+    };
+  }
+
+  async getVisibility(userId: string): Promise<boolean> {
+    return this.store ? this.store.getVisibility(userId) : false;
+  }
+
+  async setVisibility(userId: string, visible: boolean): Promise<void> {
+    if (!this.store) {
+      throw new Error('Leaderboards need a signed-in account');
+    }
+    await this.store.setVisibility(userId, visible);
+  }
+}
+
+export const leaderboardService = new LeaderboardService();
@@ -0,0 +1,728 @@
+// ============================================================================
+// LLM Provider Layer for MoodMash
+// One interface over Gemini, OpenAI-compatible and Ollama-style endpoints
+// ============================================================================
+
+import { z } from 'zod';
+import { isFieldEncryptionReady, sealField, openField } from '../lib/fieldEncryption';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LLMProviderId = 'gemini' | 'openai' | 'ollama' | 'fake';
+
+export interface LLMRequest {
+  prompt: string;
+  system?: string;
+  maxOutputTokens?: number;
+  temperature?: number;
+  /** Ask the model for a bare JSON object; validate it with generateJSON */
+  json?: boolean;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** True when the provider did not report counts and we estimated them */
+  estimated: boolean;
+}
+
+export interface LLMResult {
+  text: string;
+  provider: LLMProviderId;
+  model: string;
+  usage: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly id: LLMProviderId;
+  readonly model: string;
+  generate(request: LLMRequest): Promise<LLMResult>;
+  /** Yields text deltas as they arrive and returns the assembled result */
+  stream(request: LLMRequest): AsyncGenerator<string, LLMResult>;
+}
+
+export interface LLMConfig {
+  provider: LLMProviderId;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  timeoutMs?: number;
+  /** Context window in tokens; the prompt plus the output cap must fit */
+  contextTokens?: number;
+  maxOutputTokens?: number;
+}
+
+export type LLMErrorCode =
+  | 'NOT_CONFIGURED'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'NETWORK_ERROR'
+  | 'HTTP_ERROR'
+  | 'BAD_RESPONSE'
+  | 'BUDGET_EXCEEDED'
+  | 'INVALID_OUTPUT';
+
+export class LLMError extends Error {
+  code: LLMErrorCode;
+  status?: number;
+
+  constructor(code: LLMErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+interface PreparedCall {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+interface ParsedChunk {
+  text: string;
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const LLM_PROVIDERS: { id: Exclude<LLMProviderId, 'fake'>; label: string; needsKey: boolean; defaultModel: string; defaultBaseUrl: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', needsKey: true, defaultModel: 'gemini-1.5-flash', defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta' },
+  { id: 'openai', label: 'OpenAI-compatible', needsKey: true, defaultModel: 'gpt-4o-mini', defaultBaseUrl: 'https://api.openai.com/v1' },
+  { id: 'ollama', label: 'Local (Ollama)', needsKey: false, defaultModel: 'llama3.1', defaultBaseUrl: 'http://localhost:11434' },
+];
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_CONTEXT_TOKENS = 8192;
+const DEFAULT_MAX_OUTPUT_TOKENS = 512;
+const CHARS_PER_TOKEN = 4;
+
+const CONFIG_KEY = 'moodmash_llm_config';
+const SEALED_KEY = 'moodmash_llm_key';
+const LEGACY_KEY = 'gemini_api_key';
+
+// ============================================================================
+// Token Budgeting
+// ============================================================================
+
+/**
+ * Rough token count. Providers tokenize differently; four characters per
+ * token errs on the high side for English and keeps budgets conservative.
+ */
+export function estimateTokens(text: string | undefined): number {
+  return text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+/**
+ * Keep leading items while they fit in `maxTokens`. Prompt builders use this
+ * to drop old history instead of having the provider reject the request.
+ */
+export function fitToTokenBudget(items: string[], maxTokens: number): string[] {
+  const kept: string[] = [];
+  let used = 0;
+
+  for (const item of items) {
+    const cost = estimateTokens(item) + 1;
+    if (used + cost > maxTokens) break;
+    kept.push(item);
+    used += cost;
+  }
+
+  return kept;
+}
+
+function planBudget(request: LLMRequest, config: Partial<LLMConfig>): { promptTokens: number; maxOutputTokens: number } {
+  const contextTokens = config.contextTokens ?? DEFAULT_CONTEXT_TOKENS;
+  const maxOutputTokens = Math.min(
+    request.maxOutputTokens ?? config.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+    contextTokens
+  );
+  const promptTokens = estimateTokens(request.prompt) + estimateTokens(request.system);
+
+  if (promptTokens + maxOutputTokens > contextTokens) {
+    throw new LLMError(
+      'BUDGET_EXCEEDED',
+      `Prompt needs about ${promptTokens} tokens but only ${contextTokens - maxOutputTokens} are available`
+    );
+  }
+
+  return { promptTokens, maxOutputTokens };
+}
+
+// ============================================================================
+// Transport Helpers
+// ============================================================================
+
+/**
+ * Abort on whichever comes first: the caller's signal or our own timer.
+ * translate() turns the resulting AbortError into a coded LLMError.
+ */
+function createDeadline(timeoutMs: number, outer?: AbortSignal) {
+  const controller = new AbortController();
+  let timedOut = false;
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const forward = () => controller.abort();
+
+  if (outer?.aborted) controller.abort();
+  outer?.addEventListener('abort', forward);
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      outer?.removeEventListener('abort', forward);
+    },
+    translate: (error: unknown): LLMError => {
+      if (error instanceof LLMError) return error;
+      if (timedOut) return new LLMError('TIMEOUT', `No response within ${timeoutMs / 1000}s`);
+      if (controller.signal.aborted) return new LLMError('ABORTED', 'Request was cancelled');
+      return new LLMError('NETWORK_ERROR', error instanceof Error ? error.message : String(error));
+    },
+  };
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) yield line;
+      }
+    }
+
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** Payload of an SSE `data:` line, or null for comments, blanks and [DONE] */
+function sseData(line: string): string | null {
+  if (!line.startsWith('data:')) return null;
+  const data = line.slice(5).trim();
+  return data && data !== '[DONE]' ? data : null;
+}
+
+function parseJSONBody(text: string, provider: LLMProviderId): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new LLMError('BAD_RESPONSE', `${provider} sent a malformed response`);
+  }
+}
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+// ============================================================================
+// HTTP Providers
+// ============================================================================
+
+abstract class HttpLLMProvider implements LLMProvider {
+  abstract readonly id: Exclude<LLMProviderId, 'fake'>;
+  readonly model: string;
+  protected readonly config: LLMConfig;
+  protected readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(config: LLMConfig, fetchImpl?: typeof fetch) {
+    const defaults = LLM_PROVIDERS.find((p) => p.id === config.provider);
+    this.config = config;
+    this.model = config.model || defaults?.defaultModel;
+    this.baseUrl = trimSlash(config.baseUrl || defaults?.defaultBaseUrl || '');
+    this.fetchImpl = fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  protected abstract buildCall(request: LLMRequest, maxOutputTokens: number, stream: boolean): PreparedCall;
+  protected abstract parseCompletion(body: any): ParsedChunk;
+  /** One line of the streamed body; null for keep-alives and metadata */
+  protected abstract parseStreamLine(line: string): ParsedChunk | null;
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    const budget = planBudget(request, this.config);
+    const deadline = createDeadline(request.timeoutMs ?? this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS, request.signal);
+
+    try {
+      const response = await this.open(request, budget.maxOutputTokens, false, deadline.signal);
+      const parsed = this.parseCompletion(parseJSONBody(await response.text(), this.id));
+
+      if (!parsed.text) {
+        throw new LLMError('BAD_RESPONSE', `${this.id} returned an empty completion`);
+      }
+
+      return this.toResult(parsed.text, budget.promptTokens, parsed);
+    } catch (error) {
+      throw deadline.translate(error);
+    } finally {
+      deadline.clear();
+    }
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string, LLMResult> {
+    const budget = planBudget(request, this.config);
+    const deadline = createDeadline(request.timeoutMs ?? this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS, request.signal);
+    let text = '';
+    const usage: ParsedChunk = { text: '' };
+
+    try {
+      const response = await this.open(request, budget.maxOutputTokens, true, deadline.signal);
+      if (!response.body) {
+        throw new LLMError('BAD_RESPONSE', `${this.id} did not return a stream`);
+      }
+
+      for await (const line of readLines(response.body)) {
+        const chunk = this.parseStreamLine(line);
+        if (!chunk) continue;
+
+        if (chunk.promptTokens != null) usage.promptTokens = chunk.promptTokens;
+        if (chunk.completionTokens != null) usage.completionTokens = chunk.completionTokens;
+        if (chunk.text) {
+          text += chunk.text;
+          yield chunk.text;
+        }
+      }
+    } catch (error) {
+      throw deadline.translate(error);
+    } finally {
+      deadline.clear();
+    }
+
+    return this.toResult(text, budget.promptTokens, usage);
+  }
+
+  private async open(request: LLMRequest, maxOutputTokens: number, stream: boolean, signal: AbortSignal): Promise<Response> {
+    const call = this.buildCall(request, maxOutputTokens, stream);
+    const response = await this.fetchImpl(call.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...call.headers },
+      body: JSON.stringify(call.body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LLMError(
+        'HTTP_ERROR',
+        `${this.id} request failed (${response.status})${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+        response.status
+      );
+    }
+
+    return response;
+  }
+
+  private toResult(text: string, estimatedPromptTokens: number, reported: ParsedChunk): LLMResult {
+    const estimated = reported.promptTokens == null || reported.completionTokens == null;
+    return {
+      text,
+      provider: this.id,
+      model: this.model,
+      usage: {
+        promptTokens: reported.promptTokens ?? estimatedPromptTokens,
+        completionTokens: reported.completionTokens ?? estimateTokens(text),
+        estimated,
+      },
+    };
+  }
+
+  protected requireKey(): string {
+    if (!this.config.apiKey) {
+      throw new LLMError('NOT_CONFIGURED', `An API key is required for ${this.id}`);
+    }
+    return this.config.apiKey;
+  }
+}
+
+export class GeminiProvider extends HttpLLMProvider {
+  readonly id = 'gemini' as const;
+
+  protected buildCall(request: LLMRequest, maxOutputTokens: number, stream: boolean): PreparedCall {
+    const method = stream ? 'streamGenerateContent?alt=sse' : 'generateContent';
+    return {
+      url: `${this.baseUrl}/models/${this.model}:${method}`,
+      // Header rather than ?key= so the key stays out of URLs and logs
+      headers: { 'x-goog-api-key': this.requireKey() },
+      body: {
+        contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+        systemInstruction: request.system ? { parts: [{ text: request.system }] } : undefined,
+        generationConfig: {
+          temperature: request.temperature ?? 0.7,
+          maxOutputTokens,
+          responseMimeType: request.json ? 'application/json' : undefined,
+        },
+      },
+    };
+  }
+
+  protected parseCompletion(body: any): ParsedChunk {
+    const parts: { text?: string }[] = body?.candidates?.[0]?.content?.parts ?? [];
+    return {
+      text: parts.map((part) => part.text ?? '').join(''),
+      promptTokens: body?.usageMetadata?.promptTokenCount,
+      completionTokens: body?.usageMetadata?.candidatesTokenCount,
+    };
+  }
+
+  protected parseStreamLine(line: string): ParsedChunk | null {
+    const data = sseData(line);
+    return data ? this.parseCompletion(parseJSONBody(data, this.id)) : null;
+  }
+}
+
+export class OpenAICompatibleProvider extends HttpLLMProvider {
+  readonly id = 'openai' as const;
+
+  protected buildCall(request: LLMRequest, maxOutputTokens: number, stream: boolean): PreparedCall {
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt },
+    ];
+
+    return {
+      url: `${this.baseUrl}/chat/completions`,
+      // Self-hosted compatible servers often run without auth
+      headers: this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {},
+      body: {
+        model: this.model,
+        messages,
+        max_tokens: maxOutputTokens,
+        temperature: request.temperature ?? 0.7,
+        stream,
+        response_format: request.json ? { type: 'json_object' } : undefined,
+      },
+    };
+  }
+
+  protected parseCompletion(body: any): ParsedChunk {
+    return {
+      text: body?.choices?.[0]?.message?.content ?? '',
+      promptTokens: body?.usage?.prompt_tokens,
+      completionTokens: body?.usage?.completion_tokens,
+    };
+  }
+
+  protected parseStreamLine(line: string): ParsedChunk | null {
+    const data = sseData(line);
+    if (!data) return null;
+
+    const body = parseJSONBody(data, this.id);
+    return {
+      text: body?.choices?.[0]?.delta?.content ?? '',
+      promptTokens: body?.usage?.prompt_tokens,
+      completionTokens: body?.usage?.completion_tokens,
+    };
+  }
+}
+
+export class OllamaProvider extends HttpLLMProvider {
+  readonly id = 'ollama' as const;
+
+  protected buildCall(request: LLMRequest, maxOutputTokens: number, stream: boolean): PreparedCall {
+    return {
+      url: `${this.baseUrl}/api/generate`,
+      headers: {},
+      body: {
+        model: this.model,
+        prompt: request.prompt,
+        system: request.system,
+        stream,
+        format: request.json ? 'json' : undefined,
+        options: {
+          temperature: request.temperature ?? 0.7,
+          num_predict: maxOutputTokens,
+        },
+      },
+    };
+  }
+
+  protected parseCompletion(body: any): ParsedChunk {
+    return {
+      text: body?.response ?? '',
+      promptTokens: body?.prompt_eval_count,
+      completionTokens: body?.eval_count,
+    };
+  }
+
+  // Ollama streams newline-delimited JSON rather than SSE
+  protected parseStreamLine(line: string): ParsedChunk {
+    return this.parseCompletion(parseJSONBody(line, this.id));
+  }
+}
+
+// ============================================================================
+// Fake Provider
+// ============================================================================
+
+export interface FakeReply {
+  /** Substring or pattern the prompt must contain; omit to match anything */
+  match?: string | RegExp;
+  reply: string | ((request: LLMRequest) => string);
+}
+
+const FAKE_FALLBACK = 'Thank you for sharing. Keep checking in with yourself.';
+
+/**
+ * Deterministic stand-in for tests and offline development. Replies are
+ * picked by the first matching rule; every request is recorded in `calls`.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly id = 'fake' as const;
+  readonly model = 'fake-1';
+  readonly calls: LLMRequest[] = [];
+  private readonly replies: FakeReply[];
+  private readonly chunkSize: number;
+
+  constructor(replies: FakeReply[] = [], options: { chunkSize?: number } = {}) {
+    this.replies = replies;
+    this.chunkSize = options.chunkSize ?? 16;
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResult> {
+    this.calls.push(request);
+    const budget = planBudget(request, {});
+
+    if (request.signal?.aborted) {
+      throw new LLMError('ABORTED', 'Request was cancelled');
+    }
+
+    const text = this.replyFor(request);
+    return {
+      text,
+      provider: this.id,
+      model: this.model,
+      usage: { promptTokens: budget.promptTokens, completionTokens: estimateTokens(text), estimated: true },
+    };
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string, LLMResult> {
+    const result = await this.generate(request);
+    for (let i = 0; i < result.text.length; i += this.chunkSize) {
+      yield result.text.slice(i, i + this.chunkSize);
+    }
+    return result;
+  }
+
+  private replyFor(request: LLMRequest): string {
+    const rule = this.replies.find(({ match }) =>
+      match === undefined ||
+      (typeof match === 'string' ? request.prompt.includes(match) : match.test(request.prompt))
+    );
+
+    if (!rule) return request.json ? '{}' : FAKE_FALLBACK;
+    return typeof rule.reply === 'function' ? rule.reply(request) : rule.reply;
+  }
+}
+
+// ============================================================================
+// Structured Output
+// ============================================================================
+
+/**
+ * Pull the outermost JSON object out of a completion (models like to wrap it
+ * in prose or code fences) and validate it against the schema.
+ */
+export function parseJSONOutput<T>(
+  text: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): { success: true; data: T } | { success: false; error: string } {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    return { success: false, error: 'no JSON object found' };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return { success: false, error: 'malformed JSON' };
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'root'}: ${issue.message}`);
+    return { success: false, error: issues.join('; ') };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * Generate and validate a JSON object. An invalid reply is retried with the
+ * validation errors appended so the model can correct itself.
+ */
+export async function generateJSON<T>(
+  provider: LLMProvider,
+  request: LLMRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  options: { retries?: number } = {}
+): Promise<T> {
+  const retries = options.retries ?? 1;
+  let prompt = request.prompt;
+  let lastError = '';
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    const { text } = await provider.generate({ ...request, prompt, json: true });
+    const parsed = parseJSONOutput(text, schema);
+    if (parsed.success === true) return parsed.data;
+
+    lastError = parsed.error;
+    prompt = `${request.prompt}\n\nYour previous reply was rejected (${lastError}). Reply with only the JSON object.`;
+  }
+
+  throw new LLMError('INVALID_OUTPUT', `${provider.id} returned invalid JSON: ${lastError}`);
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+// The API key lives in memory for the session. It is only persisted sealed
+// with the user's encryption key, never as plaintext in localStorage.
+let sessionApiKey: string | null = null;
+let providerOverride: LLMProvider | null = null;
+
+function readStoredConfig(): Partial<LLMConfig> {
+  try {
+    const stored = localStorage.getItem(CONFIG_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function getLLMConfig(): LLMConfig {
+  const env = import.meta.env;
+  const stored = readStoredConfig();
+
+  return {
+    provider: stored.provider ?? env['VITE_LLM_PROVIDER'] ?? 'gemini',
+    model: stored.model ?? env['VITE_LLM_MODEL'],
+    baseUrl: stored.baseUrl ?? env['VITE_LLM_BASE_URL'],
+    timeoutMs: stored.timeoutMs,
+    contextTokens: stored.contextTokens,
+    maxOutputTokens: stored.maxOutputTokens,
+    apiKey: sessionApiKey ?? env['VITE_LLM_API_KEY'] ?? env['VITE_GEMINI_API_KEY'] ?? undefined,
+  };
+}
+
+export function saveLLMConfig(config: Omit<LLMConfig, 'apiKey'>): void {
+  const { provider, model, baseUrl, timeoutMs, contextTokens, maxOutputTokens } = config;
+  localStorage.setItem(CONFIG_KEY, JSON.stringify({ provider, model, baseUrl, timeoutMs, contextTokens, maxOutputTokens }));
+}
+
+/**
+ * Use `key` for this session and, when encryption is unlocked, remember it
+ * sealed. Returns whether the key was persisted.
+ */
+export async function setLLMApiKey(key: string): Promise<boolean> {
+  sessionApiKey = key;
+
+  if (!isFieldEncryptionReady()) {
+    localStorage.removeItem(SEALED_KEY);
+    return false;
+  }
+
+  localStorage.setItem(SEALED_KEY, (await sealField(key)).value);
+  return true;
+}
+
+/**
+ * Load a remembered key. Also migrates the plaintext key older versions kept
+ * under `gemini_api_key`.
+ */
+export async function restoreLLMApiKey(): Promise<string | null> {
+  const legacy = localStorage.getItem(LEGACY_KEY);
+  if (legacy) {
+    localStorage.removeItem(LEGACY_KEY);
+    await setLLMApiKey(legacy);
+    return legacy;
+  }
+
+  const sealed = localStorage.getItem(SEALED_KEY);
+  if (!sessionApiKey && sealed && isFieldEncryptionReady()) {
+    try {
+      sessionApiKey = (await openField(sealed)) ?? null;
+    } catch (error) {
+      console.error('[LLM] Failed to unseal API key:', error);
+    }
+  }
+
+  return getLLMConfig().apiKey ?? null;
+}
+
+export function clearLLMApiKey(): void {
+  sessionApiKey = null;
+  localStorage.removeItem(SEALED_KEY);
+  localStorage.removeItem(LEGACY_KEY);
+}
+
+export function createLLMProvider(config: LLMConfig, fetchImpl?: typeof fetch): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config, fetchImpl);
+    case 'ollama':
+      return new OllamaProvider(config, fetchImpl);
+    case 'fake':
+      return new FakeLLMProvider();
+    case 'gemini':
+    default:
+      return new GeminiProvider({ ...config, provider: 'gemini' }, fetchImpl);
+  }
+}
+
+/**
+ * Replace the configured provider, e.g. with a FakeLLMProvider in tests.
+ * Pass null to go back to the stored configuration.
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  providerOverride = provider;
+}
+
+export function getLLMProvider(): LLMProvider {
+  return providerOverride ?? createLLMProvider(getLLMConfig());
+}
+
+/**
+ * Whether requests go to a hosted service. Ollama runs on the user's machine
+ * and the fake provider sends nothing.
+ */
+export function isThirdPartyProvider(provider: Pick<LLMProvider, 'id'>): boolean {
+  return provider.id === 'gemini' || provider.id === 'openai';
+}
+
+/**
+ * Whether a request can be attempted at all. Hosted providers need a key;
+ * local ones and custom OpenAI-compatible servers may not.
+ */
+export function isLLMConfigured(): boolean {
+  if (providerOverride) return true;
+
+  const config = getLLMConfig();
+  if (config.provider === 'ollama' || config.provider === 'fake') return true;
+  if (config.provider === 'openai' && config.baseUrl) return true;
+  return !!config.apiKey;
+}
@@ -0,0 +1,121 @@
+// ============================================================================
+// Login Guard for MoodMash
+// Failed sign-in counters in browser storage, with the throttling and burst
+// rules from lib/loginPolicy. With Supabase the account counters are kept by
+// the password verification hook (login_attempts) and the device counter
+// here is only a hint that spares pointless requests.
+// ============================================================================
+
+import {
+  DEFAULT_LOGIN_POLICY,
+  combineDecisions,
+  detectFailureBurst,
+  emptyCounter,
+  evaluateAttempt,
+  pruneCounter,
+  recordFailure,
+} from '../lib/loginPolicy';
+import type { AttemptCounter, AttemptDecision, LoginAnomaly, LoginPolicy } from '../lib/loginPolicy';
+import { isSupabaseConfigured } from '../lib/supabase';
+import type { SyncStorage } from './moodSync';
+
+export interface LoginGuardOptions {
+  storage?: SyncStorage;
+  policy?: LoginPolicy;
+  /** Count failures per account too; defaults to on only without Supabase */
+  countAccounts?: boolean;
+  now?: () => number;
+}
+
+export interface FailureOutcome {
+  /** Whether, and when, the next attempt may be made */
+  decision: AttemptDecision;
+  /** Set on the failure that completes a burst against the account */
+  burst: LoginAnomaly | null;
+}
+
+const STORE_KEY = 'moodmash_login_attempts';
+
+const accountKey = (email: string) => `account:${email.trim().toLowerCase()}`;
+const deviceKey = (deviceId: string) => `device:${deviceId}`;
+
+export class LoginGuard {
+  private storage: SyncStorage;
+  private policy: LoginPolicy;
+  private countAccounts: boolean;
+  private now: () => number;
+
+  constructor(options: LoginGuardOptions = {}) {
+    this.storage = options.storage ?? localStorage;
+    this.policy = options.policy ?? DEFAULT_LOGIN_POLICY;
+    this.countAccounts = options.countAccounts ?? !isSupabaseConfigured();
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  private read(): Record<string, AttemptCounter> {
+    try {
+      const stored = this.storage.getItem(STORE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private write(counters: Record<string, AttemptCounter>): void {
+    const now = this.now();
+    // Only keep counters that still hold something
+    const live = Object.fromEntries(
+      Object.entries(counters)
+        .map(([key, counter]) => [key, pruneCounter(counter, now, this.policy)] as const)
+        .filter(([, counter]) => counter.failures.length > 0 || counter.lockedUntil !== null)
+    );
+    this.storage.setItem(STORE_KEY, JSON.stringify(live));
+  }
+
+  /**
+   * Whether a sign-in for `email` from this device may be attempted now
+   */
+  check(email: string, deviceId: string): AttemptDecision {
+    const counters = this.read();
+    const now = this.now();
+    const device = evaluateAttempt(counters[deviceKey(deviceId)] ?? emptyCounter(), now, this.policy);
+
+    if (!this.countAccounts) return device;
+    return combineDecisions(evaluateAttempt(counters[accountKey(email)] ?? emptyCounter(), now, this.policy), device);
+  }
+
+  /**
+   * Without account counters there is no burst to report here; the server
+   * notifies the account owner instead.
+   */
+  recordFailure(email: string, deviceId: string): FailureOutcome {
+    const counters = this.read();
+    const now = this.now();
+
+    const device = recordFailure(counters[deviceKey(deviceId)] ?? emptyCounter(), now, this.policy);
+    if (!this.countAccounts) {
+      this.write({ ...counters, [deviceKey(deviceId)]: device });
+      return { decision: evaluateAttempt(device, now, this.policy), burst: null };
+    }
+
+    const account = recordFailure(counters[accountKey(email)] ?? emptyCounter(), now, this.policy);
+    this.write({ ...counters, [accountKey(email)]: account, [deviceKey(deviceId)]: device });
+
+    return {
+      decision: combineDecisions(evaluateAttempt(account, now, this.policy), evaluateAttempt(device, now, this.policy)),
+      burst: detectFailureBurst(account, now, this.policy),
+    };
+  }
+
+  /**
+   * Clear the account's counter. The device keeps its count so that cycling
+   * through accounts from one browser stays throttled.
+   */
+  recordSuccess(email: string): void {
+    const counters = this.read();
+    delete counters[accountKey(email)];
+    this.write(counters);
+  }
+}
+
+export const loginGuardService = new LoginGuard();
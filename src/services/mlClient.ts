@@ -0,0 +1,211 @@
+// ============================================================================
+// ML Client for MoodMash
+// Async facade over MLService that runs it in a Web Worker, falling back to
+// the main thread where workers are unavailable (tests, old browsers)
+// ============================================================================
+
+import { MLService, mlService } from '../data/mlModels';
+import type {
+  ModelState,
+  MoodPredictionResult,
+  PatternResult,
+  RecommendationResult,
+  SentimentResult,
+} from '../data/mlModels';
+import { handleMLRequest } from '../workers/mlProtocol';
+import type {
+  MLContentCatalog,
+  MLMoodSample,
+  MLParams,
+  MLRequest,
+  MLRequestContext,
+  MLRequestType,
+  MLResponse,
+  MLResult,
+  MLWellnessSample,
+} from '../workers/mlProtocol';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MLClientOptions {
+  /** Pass null to always run in-process */
+  createWorker?: (() => Worker) | null;
+  /** Service used by the in-process fallback */
+  service?: MLService;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: MLRequestContext['onProgress'];
+  signal?: AbortSignal;
+}
+
+const defaultCreateWorker = typeof Worker !== 'undefined'
+  ? () => new Worker(new URL('../workers/ml.worker.ts', import.meta.url), { type: 'module' })
+  : null;
+
+function abortError(): DOMException {
+  return new DOMException('ML request cancelled', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string })?.name === 'AbortError';
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export class MLClient {
+  private createWorker: (() => Worker) | null;
+  private service: MLService;
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+
+  constructor(options: MLClientOptions = {}) {
+    this.createWorker = options.createWorker === undefined ? defaultCreateWorker : options.createWorker;
+    this.service = options.service ?? mlService;
+  }
+
+  trainPredictionModel(
+    history: MLMoodSample[],
+    options: MLRequestContext & { incremental?: boolean } = {}
+  ): Promise<ModelState> {
+    const { incremental, ...context } = options;
+    return this.request('trainPredictionModel', { history, incremental }, context);
+  }
+
+  predictMoods(
+    history: MLMoodSample[],
+    daysAhead: number = 7,
+    from?: Date,
+    context: MLRequestContext = {}
+  ): Promise<MoodPredictionResult> {
+    return this.request('predictMoods', { history, daysAhead, from }, context);
+  }
+
+  detectPatterns(history: MLMoodSample[], wellness: MLWellnessSample[], context: MLRequestContext = {}): Promise<PatternResult> {
+    return this.request('detectPatterns', { history, wellness }, context);
+  }
+
+  generateRecommendations(
+    history: MLMoodSample[],
+    wellness: MLWellnessSample[],
+    content: MLContentCatalog,
+    context: MLRequestContext = {}
+  ): Promise<RecommendationResult> {
+    return this.request('generateRecommendations', { history, wellness, content }, context);
+  }
+
+  analyzeSentiment(text: string): Promise<SentimentResult> {
+    return this.request('analyzeSentiment', { text });
+  }
+
+  getModelState(): Promise<ModelState> {
+    return this.request('getModelState', {});
+  }
+
+  exportPredictionModel(): Promise<string> {
+    return this.request('exportPredictionModel', {});
+  }
+
+  importPredictionModel(data: string): Promise<ModelState> {
+    return this.request('importPredictionModel', { data });
+  }
+
+  resetPredictionModel(): Promise<ModelState> {
+    return this.request('resetPredictionModel', {});
+  }
+
+  /**
+   * Stop the worker and fail anything still in flight
+   */
+  terminate(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending.forEach((request) => request.reject(abortError()));
+    this.pending.clear();
+  }
+
+  private async request<K extends MLRequestType>(
+    type: K,
+    params: MLParams<K>,
+    context: MLRequestContext = {}
+  ): Promise<MLResult<K>> {
+    if (context.signal?.aborted) {
+      throw abortError();
+    }
+
+    const worker = this.getWorker();
+    if (!worker) {
+      return handleMLRequest(this.service, type, params, context);
+    }
+
+    const id = this.nextId++;
+    return new Promise<MLResult<K>>((resolve, reject) => {
+      this.pending.set(id, {
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        onProgress: context.onProgress,
+        signal: context.signal,
+      });
+
+      context.signal?.addEventListener('abort', () => {
+        worker.postMessage({ id, type: 'cancel' } satisfies MLRequest);
+      }, { once: true });
+
+      worker.postMessage({ id, type, params } as MLRequest);
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || !this.createWorker) return this.worker;
+
+    try {
+      this.worker = this.createWorker();
+    } catch (error) {
+      console.warn('[ML] Worker unavailable, running on the main thread:', error);
+      this.createWorker = null;
+      return null;
+    }
+
+    this.worker.addEventListener('message', (event: MessageEvent<MLResponse>) => this.handleResponse(event.data));
+    this.worker.addEventListener('error', (event) => {
+      console.error('[ML] Worker crashed, running on the main thread from now on:', event.message);
+      this.createWorker = null;
+      this.terminate();
+    });
+
+    return this.worker;
+  }
+
+  private handleResponse(response: MLResponse): void {
+    const request = this.pending.get(response.id);
+    if (!request) return;
+
+    if (response.kind === 'progress') {
+      request.onProgress?.(response.progress);
+      return;
+    }
+
+    this.pending.delete(response.id);
+
+    if (response.kind === 'error') {
+      const error = response.error.name === 'AbortError'
+        ? abortError()
+        : Object.assign(new Error(response.error.message), { name: response.error.name });
+      request.reject(error);
+    } else if (request.signal?.aborted) {
+      // Finished before the cancel arrived; the caller has moved on
+      request.reject(abortError());
+    } else {
+      request.resolve(response.result);
+    }
+  }
+}
+
+export const mlClient = new MLClient();
@@ -0,0 +1,432 @@
+// ============================================================================
+// Mood Prediction Model Lifecycle for MoodMash
+// Retrains on new entries, snapshots weights to ml_model_states, records
+// forecasts in mood_predictions and scores them against logged moods
+// ============================================================================
+
+import { format, subDays } from 'date-fns';
+import { getSupabaseClient, handleSupabaseError, isSupabaseConfigured } from '../lib/supabase';
+import { mlClient } from './mlClient';
+import type { MLClient } from './mlClient';
+import type { MLRequestContext } from '../workers/mlProtocol';
+import type { ModelState, MoodPredictionResult } from '../data/mlModels';
+import type { SyncStorage } from './moodSync';
+import type { MLModelState, MoodPrediction } from '../types/database';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MoodSample {
+  emotion: string;
+  intensity: number;
+  timestamp: Date;
+}
+
+export type ModelSnapshot = Omit<MLModelState, 'id' | 'weights' | 'created_at' | 'updated_at'> & {
+  id?: string;
+  /** Output of MoodPredictionModel.exportModel() */
+  weights: string;
+};
+
+export type StoredPrediction = Omit<MoodPrediction, 'id' | 'created_at'> & {
+  id?: string;
+  created_at?: string;
+};
+
+export interface ModelStore {
+  getActiveSnapshot(userId: string): Promise<ModelSnapshot | null>;
+  /** Saves a new snapshot and deactivates the previous one */
+  saveSnapshot(snapshot: ModelSnapshot): Promise<void>;
+  listPredictions(userId: string, sinceDate: string): Promise<StoredPrediction[]>;
+  /** Upserts by (user_id, predicted_date) */
+  savePredictions(predictions: StoredPrediction[]): Promise<void>;
+}
+
+export interface PredictionAccuracy {
+  /** Share of verified predictions that matched, 0–1; null until one is verified */
+  rollingAccuracy: number | null;
+  verified: number;
+  correct: number;
+  windowDays: number;
+}
+
+export interface LifecycleOptions {
+  store?: ModelStore;
+  ml?: MLClient;
+  /** New entries needed before the model is retrained */
+  retrainThreshold?: number;
+  accuracyWindowDays?: number;
+  now?: () => Date;
+}
+
+export interface LifecycleResult {
+  state: ModelState;
+  retrained: boolean;
+  predictions: MoodPredictionResult;
+  accuracy: PredictionAccuracy;
+}
+
+const MODEL_TYPE = 'mood_prediction';
+const STORE_KEY = 'moodmash_ml_model';
+// 7-entry input window plus the 10 examples train() requires
+const MIN_TRAINING_ENTRIES = 17;
+const INPUT_WINDOW = 7;
+const FORECAST_DAYS = 7;
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Fill in actual_emotion for past predictions using the most frequent
+ * emotion logged that day. Returns only the predictions that changed.
+ */
+export function verifyPredictions(
+  predictions: StoredPrediction[],
+  moods: MoodSample[],
+  now: Date = new Date()
+): StoredPrediction[] {
+  const today = toDateKey(now);
+  const byDay = new Map<string, Record<string, number>>();
+
+  moods.forEach((mood) => {
+    const key = toDateKey(mood.timestamp);
+    const counts = byDay.get(key) ?? {};
+    const emotion = mood.emotion.toLowerCase();
+    counts[emotion] = (counts[emotion] || 0) + 1;
+    byDay.set(key, counts);
+  });
+
+  return predictions
+    .filter((prediction) => !prediction.is_verified && prediction.predicted_date < today)
+    .filter((prediction) => byDay.has(prediction.predicted_date))
+    .map((prediction) => {
+      const [actual] = Object.entries(byDay.get(prediction.predicted_date))
+        .sort((a, b) => b[1] - a[1])[0];
+      return { ...prediction, is_verified: true, actual_emotion: actual };
+    });
+}
+
+export function computeRollingAccuracy(
+  predictions: StoredPrediction[],
+  windowDays: number = 30,
+  now: Date = new Date()
+): PredictionAccuracy {
+  const since = toDateKey(subDays(now, windowDays));
+  const verified = predictions.filter((p) => p.is_verified && p.predicted_date >= since);
+  const correct = verified.filter((p) => p.actual_emotion === p.predicted_emotion).length;
+
+  return {
+    rollingAccuracy: verified.length > 0 ? correct / verified.length : null,
+    verified: verified.length,
+    correct,
+    windowDays,
+  };
+}
+
+async function hashWeights(weights: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(weights));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * ml_model_states / mood_predictions adapter
+ */
+export class SupabaseModelStore implements ModelStore {
+  async getActiveSnapshot(userId: string): Promise<ModelSnapshot | null> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client
+      .from('ml_model_states')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('model_type', MODEL_TYPE)
+      .eq('is_active', true)
+      .order('last_trained_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      handleSupabaseError(error, 'Get model snapshot');
+    }
+    if (!data) return null;
+
+    return { ...data, weights: JSON.stringify(data.weights) };
+  }
+
+  async saveSnapshot(snapshot: ModelSnapshot): Promise<void> {
+    const client = getSupabaseClient();
+
+    const { error: deactivateError } = await client
+      .from('ml_model_states')
+      .update({ is_active: false })
+      .eq('user_id', snapshot.user_id)
+      .eq('model_type', snapshot.model_type)
+      .eq('is_active', true);
+
+    if (deactivateError) {
+      handleSupabaseError(deactivateError, 'Deactivate model snapshot');
+    }
+
+    const { error } = await client
+      .from('ml_model_states')
+      .insert({ ...snapshot, weights: JSON.parse(snapshot.weights) });
+
+    if (error) {
+      handleSupabaseError(error, 'Save model snapshot');
+    }
+
+    console.log('[ML] Saved model snapshot', snapshot.version);
+  }
+
+  async listPredictions(userId: string, sinceDate: string): Promise<StoredPrediction[]> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client
+      .from('mood_predictions')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('predicted_date', sinceDate)
+      .order('predicted_date', { ascending: true });
+
+    if (error) {
+      handleSupabaseError(error, 'List mood predictions');
+    }
+
+    return data || [];
+  }
+
+  async savePredictions(predictions: StoredPrediction[]): Promise<void> {
+    if (predictions.length === 0) return;
+    const client = getSupabaseClient();
+
+    const { error } = await client
+      .from('mood_predictions')
+      .upsert(predictions, { onConflict: 'user_id,predicted_date' });
+
+    if (error) {
+      handleSupabaseError(error, 'Save mood predictions');
+    }
+  }
+}
+
+interface LocalModelData {
+  snapshots: ModelSnapshot[];
+  predictions: StoredPrediction[];
+}
+
+/**
+ * Browser-storage store for demo mode (no Supabase) and tests. Only the
+ * active snapshot's weights are kept to stay within storage quotas.
+ */
+export class LocalModelStore implements ModelStore {
+  private storage: SyncStorage;
+
+  constructor(storage: SyncStorage = localStorage) {
+    this.storage = storage;
+  }
+
+  private read(): LocalModelData {
+    try {
+      const stored = this.storage.getItem(STORE_KEY);
+      return stored ? JSON.parse(stored) : { snapshots: [], predictions: [] };
+    } catch {
+      return { snapshots: [], predictions: [] };
+    }
+  }
+
+  private write(data: LocalModelData): void {
+    this.storage.setItem(STORE_KEY, JSON.stringify(data));
+  }
+
+  async getActiveSnapshot(userId: string): Promise<ModelSnapshot | null> {
+    return this.read().snapshots.find((s) => s.user_id === userId && s.is_active) ?? null;
+  }
+
+  async saveSnapshot(snapshot: ModelSnapshot): Promise<void> {
+    const data = this.read();
+    data.snapshots = [
+      ...data.snapshots.map((s) => (s.user_id === snapshot.user_id ? { ...s, is_active: false, weights: '' } : s)),
+      snapshot,
+    ];
+    this.write(data);
+  }
+
+  async listPredictions(userId: string, sinceDate: string): Promise<StoredPrediction[]> {
+    return this.read().predictions
+      .filter((p) => p.user_id === userId && p.predicted_date >= sinceDate)
+      .sort((a, b) => a.predicted_date.localeCompare(b.predicted_date));
+  }
+
+  async savePredictions(predictions: StoredPrediction[]): Promise<void> {
+    const data = this.read();
+    const replaced = new Set(predictions.map((p) => `${p.user_id}_${p.predicted_date}`));
+    data.predictions = [
+      ...data.predictions.filter((p) => !replaced.has(`${p.user_id}_${p.predicted_date}`)),
+      ...predictions,
+    ];
+    this.write(data);
+  }
+}
+
+// ============================================================================
+// Lifecycle
+// ============================================================================
+
+export class ModelLifecycle {
+  private store: ModelStore;
+  private ml: MLClient;
+  private retrainThreshold: number;
+  private accuracyWindowDays: number;
+  private now: () => Date;
+  private restoredFor: string | null = null;
+  private trainedEntryCount = 0;
+  private version: string | null = null;
+
+  constructor(options: LifecycleOptions = {}) {
+    this.store = options.store ?? (isSupabaseConfigured() ? new SupabaseModelStore() : new LocalModelStore());
+    this.ml = options.ml ?? mlClient;
+    this.retrainThreshold = options.retrainThreshold ?? 10;
+    this.accuracyWindowDays = options.accuracyWindowDays ?? 30;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Load the user's active weights into the model, once per user
+   */
+  async restore(userId: string): Promise<boolean> {
+    if (this.restoredFor === userId) return this.version !== null;
+
+    // Don't carry another account's weights over
+    if (this.restoredFor !== null) {
+      await this.ml.resetPredictionModel();
+    }
+
+    const snapshot = await this.store.getActiveSnapshot(userId);
+    this.restoredFor = userId;
+    this.version = null;
+    this.trainedEntryCount = 0;
+
+    if (!snapshot?.weights) return false;
+
+    try {
+      await this.ml.importPredictionModel(snapshot.weights);
+      this.version = snapshot.version;
+      this.trainedEntryCount = Number(snapshot.training_data_info?.entry_count) || 0;
+      return true;
+    } catch (error) {
+      console.error('[ML] Could not restore model snapshot:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Bring the model up to date with the user's mood history: score past
+   * forecasts, retrain when enough new entries have arrived, and record a
+   * fresh forecast for the coming week. Training progress and cancellation
+   * are passed through to the ML worker.
+   */
+  async sync(userId: string, history: MoodSample[], context: MLRequestContext = {}): Promise<LifecycleResult> {
+    await this.restore(userId);
+
+    const now = this.now();
+    const sorted = [...history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const since = toDateKey(subDays(now, Math.max(this.accuracyWindowDays, FORECAST_DAYS)));
+
+    const stored = await this.store.listPredictions(userId, since);
+    const verified = verifyPredictions(stored, sorted, now);
+    await this.store.savePredictions(verified);
+
+    const scored = mergePredictions(stored, verified);
+    const accuracy = computeRollingAccuracy(scored, this.accuracyWindowDays, now);
+    const retrained = await this.retrainIfNeeded(userId, sorted, accuracy, context);
+
+    // Verified days keep the forecast they were scored against
+    const predictions = await this.ml.predictMoods(sorted, FORECAST_DAYS, now);
+    const lockedDates = new Set(scored.filter((p) => p.is_verified).map((p) => p.predicted_date));
+    const forecast: StoredPrediction[] = predictions.predictions
+      .map((prediction) => ({
+        user_id: userId,
+        predicted_date: toDateKey(prediction.date),
+        prediction_type: 'emotion' as const,
+        predicted_emotion: prediction.emotion,
+        confidence_score: Number(prediction.confidence.toFixed(4)),
+        factors: predictions.factors.map((factor) => factor.name),
+        model_version: this.version ?? undefined,
+        is_verified: false,
+      }))
+      .filter((prediction) => !lockedDates.has(prediction.predicted_date));
+    await this.store.savePredictions(forecast);
+
+    return {
+      state: await this.ml.getModelState(),
+      retrained,
+      predictions,
+      accuracy,
+    };
+  }
+
+  private async retrainIfNeeded(
+    userId: string,
+    history: MoodSample[],
+    accuracy: PredictionAccuracy,
+    context: MLRequestContext
+  ): Promise<boolean> {
+    const newEntries = history.length - this.trainedEntryCount;
+    const { isTrained } = await this.ml.getModelState();
+
+    if (history.length < MIN_TRAINING_ENTRIES) return false;
+    if (isTrained && newEntries < this.retrainThreshold) return false;
+
+    // Incremental updates only see the new entries and their input window
+    const incremental = isTrained && newEntries > 0;
+    const state = await this.ml.trainPredictionModel(
+      incremental ? history.slice(-(newEntries + INPUT_WINDOW)) : history,
+      { ...context, incremental }
+    );
+    const weights = await this.ml.exportPredictionModel();
+    const snapshot: ModelSnapshot = {
+      user_id: userId,
+      model_type: MODEL_TYPE,
+      version: state.version,
+      weights,
+      weights_hash: await hashWeights(weights),
+      accuracy_score: Number(state.accuracy.toFixed(4)),
+      last_trained_at: this.now().toISOString(),
+      is_active: true,
+      metrics: {
+        loss: state.loss,
+        rolling_accuracy: accuracy.rollingAccuracy,
+        verified_predictions: accuracy.verified,
+      },
+      training_data_info: {
+        entry_count: history.length,
+        new_entries: newEntries,
+        data_points: state.dataPointsProcessed,
+        last_entry_at: history[history.length - 1].timestamp.toISOString(),
+      },
+    };
+
+    await this.store.saveSnapshot(snapshot);
+    this.version = state.version;
+    this.trainedEntryCount = history.length;
+
+    return true;
+  }
+}
+
+function mergePredictions(stored: StoredPrediction[], updates: StoredPrediction[]): StoredPrediction[] {
+  const updated = new Map(updates.map((p) => [p.predicted_date, p]));
+  return stored.map((p) => updated.get(p.predicted_date) ?? p);
+}
+
+export const modelLifecycle = new ModelLifecycle();
@@ -12,6 +12,8 @@ import type {
   MoodPrediction,
   PatternInsight,
 } from '../types/database';
+import { sealOptionalField, openField, resealField, EncryptionLockedError } from '../lib/fieldEncryption';
+import { screenForRisk } from './riskDetection';
 
 // ============================================================================
 // Types
@@ -65,6 +67,34 @@ export interface MoodTrendData {
   count: number;
 }
 
+// ============================================================================
+// Note Encryption
+// ============================================================================
+
+/**
+ * Notes are sealed on the client; Supabase only ever stores ciphertext and
+ * the key version it was sealed with.
+ */
+async function sealNote(note: string | undefined): Promise<Pick<MoodEntry, 'note' | 'key_version'>> {
+  const sealed = await sealOptionalField(note);
+  return sealed ? { note: sealed.value, key_version: sealed.key_version } : { note, key_version: null };
+}
+
+async function openMoodEntry(entry: MoodEntry): Promise<MoodEntry> {
+  return { ...entry, note: await openField(entry.note) };
+}
+
+function openMoodEntries(entries: MoodEntry[]): Promise<MoodEntry[]> {
+  return Promise.all(entries.map(openMoodEntry));
+}
+
+function lockedError(error: unknown): ApiResponse<never> | null {
+  if (error instanceof EncryptionLockedError) {
+    return { success: false, error: { code: error.code, message: error.message } };
+  }
+  return null;
+}
+
 // ============================================================================
 // CRUD Operations
 // ============================================================================
@@ -84,6 +114,8 @@ export async function createMoodEntry(data: CreateMoodEntryData): Promise<ApiRes
     const now = new Date().toISOString();
     const entryDate = data.entry_date || new Date().toISOString().split('T')[0];
     const entryTime = data.entry_time || new Date().toTimeString().slice(0, 5);
+    screenForRisk(data.note, 'mood_note');
+    const sealedNote = await sealNote(data.note);
 
     const { data: entry, error } = await client
       .from('mood_entries')
@@ -92,7 +124,7 @@ export async function createMoodEntry(data: CreateMoodEntryData): Promise<ApiRes
         emotion: data.emotion,
         emotion_icon: data.emotion_icon,
         intensity: data.intensity,
-        note: data.note,
+        ...sealedNote,
         tags: data.tags || [],
         activities: data.activities || [],
         sleep_quality: data.sleep_quality,
@@ -114,10 +146,10 @@ export async function createMoodEntry(data: CreateMoodEntryData): Promise<ApiRes
 
     console.log('[Mood] Entry created:', entry.id);
 
-    return { success: true, data: entry };
+    return { success: true, data: await openMoodEntry(entry) };
   } catch (error) {
     console.error('[Mood] Create error:', error);
-    return { success: false, error: { code: 'CREATE_FAILED', message: 'Failed to create mood entry' } };
+    return lockedError(error) ?? { success: false, error: { code: 'CREATE_FAILED', message: 'Failed to create mood entry' } };
   }
 }
 
@@ -144,10 +176,10 @@ export async function getMoodEntry(id: string): Promise<ApiResponse<MoodEntry>>
       handleSupabaseError(error, 'Get mood entry');
     }
 
-    return { success: true, data };
+    return { success: true, data: await openMoodEntry(data) };
   } catch (error) {
     console.error('[Mood] Get error:', error);
-    return { success: false, error: { code: 'GET_FAILED', message: 'Failed to get mood entry' } };
+    return lockedError(error) ?? { success: false, error: { code: 'GET_FAILED', message: 'Failed to get mood entry' } };
   }
 }
 
@@ -163,10 +195,13 @@ export async function updateMoodEntry(id: string, data: UpdateMoodEntryData): Pr
       return { success: false, error: { code: 'UNAUTHORIZED', message: 'You must be signed in' } };
     }
 
+    if (data.note !== undefined) screenForRisk(data.note, 'mood_note');
+    const changes = data.note !== undefined ? { ...data, ...(await sealNote(data.note)) } : data;
+
     const { data: entry, error } = await client
       .from('mood_entries')
       .update({
-        ...data,
+        ...changes,
         updated_at: new Date().toISOString(),
       })
       .eq('id', id)
@@ -180,10 +215,10 @@ export async function updateMoodEntry(id: string, data: UpdateMoodEntryData): Pr
 
     console.log('[Mood] Entry updated:', entry.id);
 
-    return { success: true, data: entry };
+    return { success: true, data: await openMoodEntry(entry) };
   } catch (error) {
     console.error('[Mood] Update error:', error);
-    return { success: false, error: { code: 'UPDATE_FAILED', message: 'Failed to update mood entry' } };
+    return lockedError(error) ?? { success: false, error: { code: 'UPDATE_FAILED', message: 'Failed to update mood entry' } };
   }
 }
 
@@ -275,12 +310,12 @@ export async function getMoodEntries(
       handleSupabaseError(error, 'Get mood entries');
     }
 
-    const result = formatPaginatedResult(data || [], count || 0, page, limit);
+    const result = formatPaginatedResult(await openMoodEntries(data || []), count || 0, page, limit);
 
     return { success: true, data: result, meta: { page, limit, total: count, hasMore: result.hasMore } };
   } catch (error) {
     console.error('[Mood] Query error:', error);
-    return { success: false, error: { code: 'QUERY_FAILED', message: 'Failed to query mood entries' } };
+    return lockedError(error) ?? { success: false, error: { code: 'QUERY_FAILED', message: 'Failed to query mood entries' } };
   }
 }
 
@@ -309,10 +344,10 @@ export async function getTodayMoods(): Promise<ApiResponse<MoodEntry[]>> {
       handleSupabaseError(error, 'Get today moods');
     }
 
-    return { success: true, data: data || [] };
+    return { success: true, data: await openMoodEntries(data || []) };
   } catch (error) {
     console.error('[Mood] Get today moods error:', error);
-    return { success: false, error: { code: 'QUERY_FAILED', message: 'Failed to get today moods' } };
+    return lockedError(error) ?? { success: false, error: { code: 'QUERY_FAILED', message: 'Failed to get today moods' } };
   }
 }
 
@@ -343,10 +378,10 @@ export async function getRecentMoods(days: number = 7): Promise<ApiResponse<Mood
       handleSupabaseError(error, 'Get recent moods');
     }
 
-    return { success: true, data: data || [] };
+    return { success: true, data: await openMoodEntries(data || []) };
   } catch (error) {
     console.error('[Mood] Get recent moods error:', error);
-    return { success: false, error: { code: 'QUERY_FAILED', message: 'Failed to get recent moods' } };
+    return lockedError(error) ?? { success: false, error: { code: 'QUERY_FAILED', message: 'Failed to get recent moods' } };
   }
 }
 
@@ -581,12 +616,13 @@ export async function bulkCreateMoodEntries(entries: CreateMoodEntryData[]): Pro
     }
 
     const now = new Date().toISOString();
-    const entriesWithUser = entries.map((entry) => ({
+    const sealedNotes = await Promise.all(entries.map((entry) => sealNote(entry.note)));
+    const entriesWithUser = entries.map((entry, index) => ({
       user_id: user.data.user!.id,
       emotion: entry.emotion,
       emotion_icon: entry.emotion_icon,
       intensity: entry.intensity,
-      note: entry.note,
+      ...sealedNotes[index],
       tags: entry.tags || [],
       activities: entry.activities || [],
       sleep_quality: entry.sleep_quality,
@@ -611,10 +647,10 @@ export async function bulkCreateMoodEntries(entries: CreateMoodEntryData[]): Pro
 
     console.log('[Mood] Bulk created:', data?.length, 'entries');
 
-    return { success: true, data: data || [] };
+    return { success: true, data: await openMoodEntries(data || []) };
   } catch (error) {
     console.error('[Mood] Bulk create error:', error);
-    return { success: false, error: { code: 'BULK_CREATE_FAILED', message: 'Failed to create entries' } };
+    return lockedError(error) ?? { success: false, error: { code: 'BULK_CREATE_FAILED', message: 'Failed to create entries' } };
   }
 }
 
@@ -649,6 +685,55 @@ export async function bulkDeleteMoodEntries(ids: string[]): Promise<ApiResponse<
   }
 }
 
+/**
+ * Re-seal every note that is not on the active key version. Run after a key
+ * rotation so retired keys can eventually be dropped.
+ */
+export async function reencryptMoodNotes(): Promise<ApiResponse<{ reencrypted: number }>> {
+  try {
+    const client = getSupabaseClient();
+    const user = await client.auth.getUser();
+
+    if (!user.data.user) {
+      return { success: false, error: { code: 'UNAUTHORIZED', message: 'You must be signed in' } };
+    }
+
+    const { data, error } = await client
+      .from('mood_entries')
+      .select('id, note, key_version')
+      .eq('user_id', user.data.user.id)
+      .not('note', 'is', null);
+
+    if (error) {
+      handleSupabaseError(error, 'Load mood notes for re-encryption');
+    }
+
+    let reencrypted = 0;
+    for (const row of data || []) {
+      const sealed = await resealField(row.note);
+      if (!sealed) continue;
+
+      const { error: updateError } = await client
+        .from('mood_entries')
+        .update({ note: sealed.value, key_version: sealed.key_version })
+        .eq('id', row.id)
+        .eq('user_id', user.data.user.id);
+
+      if (updateError) {
+        handleSupabaseError(updateError, 'Re-encrypt mood note');
+      }
+      reencrypted++;
+    }
+
+    console.log('[Mood] Re-encrypted:', reencrypted, 'notes');
+
+    return { success: true, data: { reencrypted } };
+  } catch (error) {
+    console.error('[Mood] Re-encrypt error:', error);
+    return lockedError(error) ?? { success: false, error: { code: 'REENCRYPT_FAILED', message: 'Failed to re-encrypt mood notes' } };
+  }
+}
+
 // ============================================================================
 // Export
 // ============================================================================
@@ -0,0 +1,553 @@
+// ============================================================================
+// Mood Sync Engine for MoodMash
+// Offline-first sync between the local mood store and Supabase mood_entries
+// ============================================================================
+
+import { getSupabaseClient, handleSupabaseError } from '../lib/supabase';
+import { sealOptionalField, openField, EncryptionLockedError } from '../lib/fieldEncryption';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SyncOperationType = 'create' | 'update' | 'delete';
+
+export type SyncState = 'idle' | 'pending' | 'syncing' | 'conflict' | 'error';
+
+/**
+ * Storage-agnostic shape of a mood entry as it travels between stores.
+ * Timestamps are ISO strings so records survive JSON round-trips unchanged.
+ */
+export interface SyncRecord {
+  id: string;
+  emotion: string;
+  intensity: number;
+  note?: string;
+  tags?: string[];
+  privacy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SyncOperation {
+  id: string;
+  entryId: string;
+  type: SyncOperationType;
+  record?: SyncRecord;
+  queuedAt: string;
+  attempts: number;
+  lastError?: string;
+}
+
+export interface SyncConflict {
+  entryId: string;
+  local: SyncRecord | null;
+  remote: SyncRecord | null;
+  resolution: 'local' | 'remote';
+  detectedAt: string;
+}
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingCount: number;
+  lastSyncedAt: string | null;
+  conflicts: SyncConflict[];
+  error?: string;
+  /** Sync is waiting for encryption to be unlocked; nothing has failed */
+  locked?: boolean;
+}
+
+/**
+ * Remote store the engine pushes to and pulls from. Production uses
+ * SupabaseMoodRemote; tests and demos use InMemoryMoodRemote.
+ */
+export interface MoodSyncRemote {
+  fetchAll(): Promise<SyncRecord[]>;
+  upsert(record: SyncRecord): Promise<SyncRecord>;
+  remove(id: string): Promise<void>;
+}
+
+export interface SyncStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface MoodSyncEngineOptions {
+  remote: MoodSyncRemote;
+  /** Keeps the outbox and sync metadata apart from other accounts on this device */
+  userId?: string;
+  storage?: SyncStorage;
+  now?: () => Date;
+}
+
+type SyncListener = (status: SyncStatus) => void;
+
+interface SyncMeta {
+  lastSyncedAt: string | null;
+  syncedIds: string[];
+}
+
+const OUTBOX_KEY = 'moodmash_sync_outbox';
+const META_KEY = 'moodmash_sync_meta';
+
+/** Mood entries kept on this device without an account, or in demo mode */
+export const LOCAL_ENTRIES_KEY = 'moodmash_entries';
+
+/** Cache of a signed-in account's entries, kept apart from other accounts' */
+export const accountEntriesKey = (userId: string) => `${LOCAL_ENTRIES_KEY}_${userId}`;
+
+// ============================================================================
+// Conflict Resolution
+// ============================================================================
+
+/**
+ * Last-write-wins by updatedAt. Ties go to the remote copy so every
+ * device converges on the same record.
+ */
+export function resolveConflict(local: SyncRecord, remote: SyncRecord): 'local' | 'remote' {
+  const localTime = new Date(local.updatedAt).getTime();
+  const remoteTime = new Date(remote.updatedAt).getTime();
+  return localTime > remoteTime ? 'local' : 'remote';
+}
+
+/**
+ * Fold a new operation into the outbox so each entry has at most one
+ * pending operation.
+ */
+export function coalesceOperation(outbox: SyncOperation[], op: SyncOperation): SyncOperation[] {
+  const existing = outbox.find((o) => o.entryId === op.entryId);
+  if (!existing) {
+    return [...outbox, op];
+  }
+
+  const rest = outbox.filter((o) => o.entryId !== op.entryId);
+
+  if (existing.type === 'create') {
+    // Never reached the server: a delete cancels it, an update folds into it
+    if (op.type === 'delete') return rest;
+    return [...rest, { ...existing, record: op.record, queuedAt: op.queuedAt }];
+  }
+
+  return [...rest, { ...op, attempts: existing.attempts }];
+}
+
+// ============================================================================
+// Remote Adapters
+// ============================================================================
+
+/**
+ * mood_entries table adapter
+ */
+export class SupabaseMoodRemote implements MoodSyncRemote {
+  /** Requests fail once anyone other than `userId` is signed in */
+  constructor(private userId: string) {}
+
+  private async getUserId(): Promise<string> {
+    const client = getSupabaseClient();
+    const user = await client.auth.getUser();
+    if (!user.data.user) {
+      throw new Error('[UNAUTHORIZED] You must be signed in to sync');
+    }
+    if (user.data.user.id !== this.userId) {
+      throw new Error('[UNAUTHORIZED] Another account is signed in');
+    }
+    return user.data.user.id;
+  }
+
+  private async fromRow(row: Record<string, any>): Promise<SyncRecord> {
+    return {
+      id: row.id,
+      emotion: row.emotion,
+      intensity: row.intensity,
+      note: await openField(row.note),
+      tags: row.tags ?? [],
+      privacy: row.privacy || 'private',
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async fetchAll(): Promise<SyncRecord[]> {
+    const client = getSupabaseClient();
+    const userId = await this.getUserId();
+
+    const { data, error } = await client
+      .from('mood_entries')
+      .select('id, emotion, intensity, note, tags, privacy, created_at, updated_at')
+      .eq('user_id', userId);
+
+    if (error) {
+      handleSupabaseError(error, 'Fetch mood entries for sync');
+    }
+
+    return Promise.all((data || []).map((row) => this.fromRow(row)));
+  }
+
+  async upsert(record: SyncRecord): Promise<SyncRecord> {
+    const client = getSupabaseClient();
+    const userId = await this.getUserId();
+    const createdAt = new Date(record.createdAt);
+    // Notes leave the device sealed; a locked keyring keeps the op in the outbox
+    const sealedNote = await sealOptionalField(record.note);
+
+    const { data, error } = await client
+      .from('mood_entries')
+      .upsert({
+        id: record.id,
+        user_id: userId,
+        mood_id: record.emotion,
+        mood_label: record.emotion,
+        emotion: record.emotion,
+        intensity: record.intensity,
+        note: sealedNote ? sealedNote.value : null,
+        key_version: sealedNote ? sealedNote.key_version : null,
+        tags: record.tags || [],
+        privacy: record.privacy,
+        entry_date: createdAt.toISOString().split('T')[0],
+        entry_time: createdAt.toTimeString().slice(0, 5),
+        created_at: record.createdAt,
+        updated_at: record.updatedAt,
+      }, { onConflict: 'id' })
+      .select('id, emotion, intensity, note, tags, privacy, created_at, updated_at')
+      .single();
+
+    if (error) {
+      handleSupabaseError(error, 'Upsert mood entry');
+    }
+
+    return this.fromRow(data);
+  }
+
+  async remove(id: string): Promise<void> {
+    const client = getSupabaseClient();
+    const userId = await this.getUserId();
+
+    const { error } = await client
+      .from('mood_entries')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) {
+      handleSupabaseError(error, 'Delete mood entry');
+    }
+  }
+}
+
+/**
+ * In-memory stand-in for mood_entries, used by tests and offline demos.
+ * Set `online = false` to simulate a dropped connection.
+ */
+export class InMemoryMoodRemote implements MoodSyncRemote {
+  rows: Map<string, SyncRecord> = new Map();
+  online: boolean = true;
+
+  constructor(seed: SyncRecord[] = []) {
+    seed.forEach((record) => this.rows.set(record.id, { ...record }));
+  }
+
+  private assertOnline(): void {
+    if (!this.online) {
+      throw new Error('[NETWORK_ERROR] Remote unavailable');
+    }
+  }
+
+  async fetchAll(): Promise<SyncRecord[]> {
+    this.assertOnline();
+    return Array.from(this.rows.values()).map((record) => ({ ...record }));
+  }
+
+  async upsert(record: SyncRecord): Promise<SyncRecord> {
+    this.assertOnline();
+    this.rows.set(record.id, { ...record });
+    return { ...record };
+  }
+
+  async remove(id: string): Promise<void> {
+    this.assertOnline();
+    this.rows.delete(id);
+  }
+}
+
+// ============================================================================
+// Sync Engine
+// ============================================================================
+
+export class MoodSyncEngine {
+  private remote: MoodSyncRemote;
+  private storage: SyncStorage;
+  private now: () => Date;
+  private outbox: SyncOperation[];
+  private meta: SyncMeta;
+  private listeners: Set<SyncListener> = new Set();
+  private status: SyncStatus;
+  private running: Promise<unknown> | null = null;
+  private outboxKey: string;
+  private metaKey: string;
+
+  constructor(options: MoodSyncEngineOptions) {
+    this.remote = options.remote;
+    this.storage = options.storage || window.localStorage;
+    this.now = options.now || (() => new Date());
+    this.outboxKey = options.userId ? `${OUTBOX_KEY}_${options.userId}` : OUTBOX_KEY;
+    this.metaKey = options.userId ? `${META_KEY}_${options.userId}` : META_KEY;
+    this.outbox = this.read<SyncOperation[]>(this.outboxKey, []);
+    this.meta = this.read<SyncMeta>(this.metaKey, { lastSyncedAt: null, syncedIds: [] });
+    this.status = {
+      state: this.outbox.length > 0 ? 'pending' : 'idle',
+      pendingCount: this.outbox.length,
+      lastSyncedAt: this.meta.lastSyncedAt,
+      conflicts: [],
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // Persistence
+  // --------------------------------------------------------------------------
+
+  private read<T>(key: string, fallback: T): T {
+    try {
+      const raw = this.storage.getItem(key);
+      return raw ? (JSON.parse(raw) as T) : fallback;
+    } catch {
+      console.warn(`[Sync] Failed to read ${key}`);
+      return fallback;
+    }
+  }
+
+  private persist(): void {
+    this.storage.setItem(this.outboxKey, JSON.stringify(this.outbox));
+    this.storage.setItem(this.metaKey, JSON.stringify(this.meta));
+  }
+
+  // --------------------------------------------------------------------------
+  // Status
+  // --------------------------------------------------------------------------
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  getOutbox(): SyncOperation[] {
+    return [...this.outbox];
+  }
+
+  subscribe(listener: SyncListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private setStatus(updates: Partial<SyncStatus>): void {
+    this.status = { ...this.status, pendingCount: this.outbox.length, ...updates };
+    this.listeners.forEach((listener) => listener(this.status));
+  }
+
+  private settledState(): SyncState {
+    if (this.status.conflicts.length > 0) return 'conflict';
+    return this.outbox.length > 0 ? 'pending' : 'idle';
+  }
+
+  /**
+   * Clear surfaced conflicts once the user has seen them
+   */
+  acknowledgeConflicts(): void {
+    this.setStatus({ conflicts: [] });
+    this.setStatus({ state: this.settledState() });
+  }
+
+  // --------------------------------------------------------------------------
+  // Outbox
+  // --------------------------------------------------------------------------
+
+  enqueue(type: SyncOperationType, entryId: string, record?: SyncRecord): void {
+    const op: SyncOperation = {
+      id: `op_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      entryId,
+      type,
+      record: record ? { ...record } : undefined,
+      queuedAt: this.now().toISOString(),
+      attempts: 0,
+    };
+
+    this.outbox = coalesceOperation(this.outbox, op);
+    this.persist();
+    this.setStatus({ state: this.status.state === 'syncing' ? 'syncing' : 'pending', error: undefined });
+  }
+
+  /**
+   * Push pending operations in order. Stops at the first failure and keeps
+   * the remaining operations for the next attempt. Returns the records as
+   * the server stored them.
+   */
+  async flush(): Promise<SyncRecord[]> {
+    if (this.running) {
+      await this.running;
+    }
+    const run = this.doFlush();
+    this.running = run;
+    try {
+      return await run;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  private async doFlush(): Promise<SyncRecord[]> {
+    const confirmed: SyncRecord[] = [];
+    if (this.outbox.length === 0) {
+      this.setStatus({ state: this.settledState() });
+      return confirmed;
+    }
+
+    this.setStatus({ state: 'syncing', error: undefined, locked: false });
+    const synced = new Set(this.meta.syncedIds);
+
+    while (this.outbox.length > 0) {
+      const op = this.outbox[0];
+      try {
+        if (op.type === 'delete') {
+          await this.remote.remove(op.entryId);
+          synced.delete(op.entryId);
+        } else if (op.record) {
+          confirmed.push(await this.remote.upsert(op.record));
+          synced.add(op.entryId);
+        }
+        this.outbox = this.outbox.slice(1);
+      } catch (error) {
+        this.meta = { ...this.meta, syncedIds: Array.from(synced) };
+        if (error instanceof EncryptionLockedError) {
+          // Not a failed attempt: the note is sealed once encryption is unlocked
+          this.persist();
+          this.setStatus({ state: 'pending', locked: true });
+          return confirmed;
+        }
+
+        const message = error instanceof Error ? error.message : 'Sync failed';
+        this.outbox = [{ ...op, attempts: op.attempts + 1, lastError: message }, ...this.outbox.slice(1)];
+        this.persist();
+        console.error('[Sync] Push failed:', message);
+        this.setStatus({ state: 'error', error: message });
+        return confirmed;
+      }
+    }
+
+    this.meta = { lastSyncedAt: this.now().toISOString(), syncedIds: Array.from(synced) };
+    this.persist();
+    this.setStatus({ state: this.settledState(), lastSyncedAt: this.meta.lastSyncedAt });
+    return confirmed;
+  }
+
+  /**
+   * Merge local and remote state, queue whatever the server is missing and
+   * push it. Returns the record set the local store should adopt.
+   */
+  async reconcile(localRecords: SyncRecord[]): Promise<SyncRecord[]> {
+    this.setStatus({ state: 'syncing', error: undefined, locked: false });
+
+    let remoteRecords: SyncRecord[];
+    try {
+      remoteRecords = await this.remote.fetchAll();
+    } catch (error) {
+      if (error instanceof EncryptionLockedError) {
+        // Sealed notes cannot be opened yet; try again once unlocked
+        this.setStatus({ state: 'pending', locked: true });
+        return localRecords;
+      }
+      const message = error instanceof Error ? error.message : 'Sync failed';
+      console.error('[Sync] Reconcile failed:', message);
+      this.setStatus({ state: 'error', error: message });
+      return localRecords;
+    }
+
+    const pending = new Map(this.outbox.map((op) => [op.entryId, op]));
+    const local = new Map(localRecords.map((record) => [record.id, record]));
+    const remote = new Map(remoteRecords.map((record) => [record.id, record]));
+    const synced = new Set(this.meta.syncedIds);
+    const merged = new Map<string, SyncRecord>();
+    const conflicts: SyncConflict[] = [];
+    const detectedAt = this.now().toISOString();
+
+    local.forEach((localRecord, id) => {
+      const remoteRecord = remote.get(id);
+      const op = pending.get(id);
+
+      if (!remoteRecord) {
+        if (synced.has(id) && !op) {
+          // Deleted on another device since our last sync
+          return;
+        }
+        merged.set(id, localRecord);
+        if (!op) {
+          this.outbox = coalesceOperation(this.outbox, this.makeOp('create', localRecord));
+        }
+        return;
+      }
+
+      const winner = resolveConflict(localRecord, remoteRecord);
+      if (winner === 'remote') {
+        merged.set(id, remoteRecord);
+        if (op) {
+          this.outbox = this.outbox.filter((o) => o.entryId !== id);
+          conflicts.push({ entryId: id, local: localRecord, remote: remoteRecord, resolution: 'remote', detectedAt });
+        }
+      } else {
+        merged.set(id, localRecord);
+        if (!op) {
+          this.outbox = coalesceOperation(this.outbox, this.makeOp('update', localRecord));
+        }
+      }
+    });
+
+    remote.forEach((remoteRecord, id) => {
+      if (local.has(id)) return;
+      const op = pending.get(id);
+      if (op?.type === 'delete') {
+        if (new Date(remoteRecord.updatedAt).getTime() > new Date(op.queuedAt).getTime()) {
+          // Edited elsewhere after we deleted it: the newer edit wins
+          this.outbox = this.outbox.filter((o) => o.entryId !== id);
+          merged.set(id, remoteRecord);
+          conflicts.push({ entryId: id, local: null, remote: remoteRecord, resolution: 'remote', detectedAt });
+        }
+        return;
+      }
+      merged.set(id, remoteRecord);
+    });
+
+    remoteRecords.forEach((record) => synced.add(record.id));
+    this.meta = { ...this.meta, syncedIds: Array.from(synced) };
+    this.persist();
+    this.setStatus({ conflicts: [...this.status.conflicts, ...conflicts] });
+
+    const confirmed = await this.flush();
+    confirmed.forEach((record) => merged.set(record.id, record));
+
+    return Array.from(merged.values()).sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  }
+
+  private makeOp(type: SyncOperationType, record: SyncRecord): SyncOperation {
+    return {
+      id: `op_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      entryId: record.id,
+      type,
+      record: { ...record },
+      queuedAt: this.now().toISOString(),
+      attempts: 0,
+    };
+  }
+
+  /**
+   * Forget all queued work and sync metadata (e.g. on sign-out)
+   */
+  reset(): void {
+    this.outbox = [];
+    this.meta = { lastSyncedAt: null, syncedIds: [] };
+    this.storage.removeItem(this.outboxKey);
+    this.storage.removeItem(this.metaKey);
+    this.setStatus({ state: 'idle', lastSyncedAt: null, conflicts: [], error: undefined, locked: false });
+  }
+}
@@ -0,0 +1,479 @@
+// ============================================================================
+// Passkeys for MoodMash
+// WebAuthn registration and sign-in ceremonies, and the per-user credential
+// list shown in Security Settings
+// ============================================================================
+
+import { getSupabaseClient, handleSupabaseError, isSupabaseConfigured } from '../lib/supabase';
+import { base64UrlToBytes, bytesToBase64Url, randomBytes } from '../lib/crypto';
+import {
+  SUPPORTED_ALGORITHMS,
+  WebAuthnError,
+  describeAuthenticator,
+  verifyAuthentication,
+  verifyRegistration,
+} from '../lib/webauthn';
+import type { AuthenticationCredentialJSON, RegistrationCredentialJSON } from '../lib/webauthn';
+import type { SyncStorage } from './moodSync';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface PasskeyRecord {
+  id: string;
+  user_id: string;
+  /** base64url credential id, unique across all users */
+  credential_id: string;
+  /** base64url COSE_Key */
+  public_key: string;
+  algorithm: number;
+  sign_count: number;
+  transports: string[];
+  nickname: string;
+  aaguid: string;
+  /** Synced to a cloud keychain rather than bound to one device */
+  backed_up: boolean;
+  created_at: string;
+  last_used_at: string | null;
+}
+
+export interface PasskeyStore {
+  list(userId: string): Promise<PasskeyRecord[]>;
+  findByCredentialId(credentialId: string): Promise<PasskeyRecord | null>;
+  save(record: PasskeyRecord): Promise<void>;
+  delete(userId: string, id: string): Promise<void>;
+}
+
+/**
+ * Server side of registration. Without one the service verifies and stores
+ * credentials itself, which only suits demo mode and tests.
+ */
+export interface PasskeyRegistrar {
+  /** A challenge the server holds until complete() */
+  challenge(userId: string): Promise<string>;
+  complete(challenge: string, response: RegistrationCredentialJSON, nickname?: string): Promise<PasskeyRecord>;
+}
+
+/**
+ * The browser half of a ceremony. The default uses navigator.credentials;
+ * tests replay recorded responses instead.
+ */
+export interface PasskeyCeremony {
+  create(options: PublicKeyCredentialCreationOptions): Promise<RegistrationCredentialJSON>;
+  get(options: PublicKeyCredentialRequestOptions): Promise<AuthenticationCredentialJSON>;
+}
+
+export interface PasskeyUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface PasskeyServiceOptions {
+  store?: PasskeyStore;
+  /** Defaults to the passkey-register Edge Function when Supabase is configured */
+  registrar?: PasskeyRegistrar | null;
+  ceremony?: PasskeyCeremony;
+  /** Defaults to the current hostname */
+  rpId?: string;
+  rpName?: string;
+  /** Defaults to the current origin */
+  origin?: string;
+  now?: () => Date;
+  generateChallenge?: () => string;
+}
+
+const STORE_KEY = 'moodmash_passkeys';
+const CHALLENGE_BYTES = 32;
+const CEREMONY_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_NICKNAME_LENGTH = 64;
+
+// ============================================================================
+// Supabase Store
+// ============================================================================
+
+const PASSKEY_COLUMNS =
+  'id, user_id, credential_id, public_key, algorithm, sign_count, transports, nickname, aaguid, backed_up, created_at, last_used_at';
+
+/**
+ * user_passkeys adapter. RLS limits rows to their owner, so sign-in lookups
+ * by credential id happen server-side (see authService.signInWithPasskey).
+ * Only the nickname is client-writable; the passkey Edge Functions insert
+ * credentials and move their counters.
+ */
+export class SupabasePasskeyStore implements PasskeyStore {
+  async list(userId: string): Promise<PasskeyRecord[]> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client
+      .from('user_passkeys')
+      .select(PASSKEY_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      handleSupabaseError(error, 'List passkeys');
+    }
+
+    return (data as PasskeyRecord[]) ?? [];
+  }
+
+  async findByCredentialId(credentialId: string): Promise<PasskeyRecord | null> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client
+      .from('user_passkeys')
+      .select(PASSKEY_COLUMNS)
+      .eq('credential_id', credentialId)
+      .maybeSingle();
+
+    if (error) {
+      handleSupabaseError(error, 'Find passkey');
+    }
+
+    return (data as PasskeyRecord) ?? null;
+  }
+
+  async save(record: PasskeyRecord): Promise<void> {
+    const client = getSupabaseClient();
+
+    const { error } = await client.rpc('rename_passkey', { passkey: record.id, new_nickname: record.nickname });
+
+    if (error) {
+      handleSupabaseError(error, 'Rename passkey');
+    }
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    const client = getSupabaseClient();
+
+    const { error } = await client.from('user_passkeys').delete().eq('user_id', userId).eq('id', id);
+
+    if (error) {
+      handleSupabaseError(error, 'Remove passkey');
+    }
+
+    console.log('[Passkeys] Passkey removed:', id);
+  }
+}
+
+// Edge Function that verifies attestations with lib/webauthn and inserts
+// user_passkeys rows with the service role
+const PASSKEY_REGISTER_FUNCTION = 'passkey-register';
+
+export class SupabasePasskeyRegistrar implements PasskeyRegistrar {
+  async challenge(_userId: string): Promise<string> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.functions.invoke(PASSKEY_REGISTER_FUNCTION, {
+      body: { step: 'challenge' },
+    });
+
+    if (error || typeof data?.challenge !== 'string') {
+      handleSupabaseError(error ?? new Error('No challenge issued'), 'Start passkey registration');
+    }
+
+    return data.challenge;
+  }
+
+  async complete(challenge: string, response: RegistrationCredentialJSON, nickname?: string): Promise<PasskeyRecord> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.functions.invoke(PASSKEY_REGISTER_FUNCTION, {
+      body: { step: 'verify', challenge, response, nickname },
+    });
+
+    if (error || !data?.passkey) {
+      handleSupabaseError(error ?? new Error('Passkey was not stored'), 'Register passkey');
+    }
+
+    return data.passkey as PasskeyRecord;
+  }
+}
+
+// ============================================================================
+// Local Store
+// ============================================================================
+
+/**
+ * Browser-storage store for demo mode (no Supabase) and tests.
+ */
+export class LocalPasskeyStore implements PasskeyStore {
+  private storage: SyncStorage;
+
+  constructor(storage: SyncStorage = localStorage) {
+    this.storage = storage;
+  }
+
+  private read(): PasskeyRecord[] {
+    try {
+      const stored = this.storage.getItem(STORE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(records: PasskeyRecord[]): void {
+    this.storage.setItem(STORE_KEY, JSON.stringify(records));
+  }
+
+  async list(userId: string): Promise<PasskeyRecord[]> {
+    return this.read().filter((record) => record.user_id === userId);
+  }
+
+  async findByCredentialId(credentialId: string): Promise<PasskeyRecord | null> {
+    return this.read().find((record) => record.credential_id === credentialId) ?? null;
+  }
+
+  async save(record: PasskeyRecord): Promise<void> {
+    this.write([...this.read().filter((stored) => stored.id !== record.id), record]);
+  }
+
+  async delete(userId: string, id: string): Promise<void> {
+    this.write(this.read().filter((record) => !(record.user_id === userId && record.id === id)));
+  }
+}
+
+// ============================================================================
+// Browser Ceremony
+// ============================================================================
+
+function toBase64Url(buffer: ArrayBuffer): string {
+  return bytesToBase64Url(new Uint8Array(buffer));
+}
+
+/**
+ * navigator.credentials, with responses encoded for the verifier. Does not
+ * rely on PublicKeyCredential.toJSON, which older browsers lack.
+ */
+export const browserCeremony: PasskeyCeremony = {
+  async create(options) {
+    const credential = (await navigator.credentials.create({ publicKey: options })) as PublicKeyCredential | null;
+    if (!credential) {
+      throw new WebAuthnError('INVALID_RESPONSE', 'No credential was created');
+    }
+    const response = credential.response as AuthenticatorAttestationResponse;
+
+    return {
+      id: credential.id,
+      rawId: toBase64Url(credential.rawId),
+      type: 'public-key',
+      response: {
+        clientDataJSON: toBase64Url(response.clientDataJSON),
+        attestationObject: toBase64Url(response.attestationObject),
+        transports: response.getTransports?.() ?? [],
+      },
+    };
+  },
+
+  async get(options) {
+    const credential = (await navigator.credentials.get({ publicKey: options })) as PublicKeyCredential | null;
+    if (!credential) {
+      throw new WebAuthnError('INVALID_RESPONSE', 'No passkey was selected');
+    }
+    const response = credential.response as AuthenticatorAssertionResponse;
+
+    return {
+      id: credential.id,
+      rawId: toBase64Url(credential.rawId),
+      type: 'public-key',
+      response: {
+        clientDataJSON: toBase64Url(response.clientDataJSON),
+        authenticatorData: toBase64Url(response.authenticatorData),
+        signature: toBase64Url(response.signature),
+        userHandle: response.userHandle ? toBase64Url(response.userHandle) : null,
+      },
+    };
+  },
+};
+
+// ============================================================================
+// Service
+// ============================================================================
+
+const generateId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export class PasskeyService {
+  private store: PasskeyStore;
+  private registrar: PasskeyRegistrar | null;
+  private ceremony: PasskeyCeremony;
+  private rpId?: string;
+  private rpName: string;
+  private origin?: string;
+  private now: () => Date;
+  private generateChallenge: () => string;
+
+  constructor(options: PasskeyServiceOptions = {}) {
+    this.store = options.store ?? (isSupabaseConfigured() ? new SupabasePasskeyStore() : new LocalPasskeyStore());
+    this.registrar =
+      options.registrar !== undefined ? options.registrar : isSupabaseConfigured() ? new SupabasePasskeyRegistrar() : null;
+    this.ceremony = options.ceremony ?? browserCeremony;
+    this.rpId = options.rpId;
+    this.rpName = options.rpName ?? 'MoodMash';
+    this.origin = options.origin;
+    this.now = options.now ?? (() => new Date());
+    this.generateChallenge = options.generateChallenge ?? (() => bytesToBase64Url(randomBytes(CHALLENGE_BYTES)));
+  }
+
+  isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof window.PublicKeyCredential === 'function';
+  }
+
+  private get relyingParty(): { rpId: string; origin: string } {
+    return {
+      rpId: this.rpId ?? window.location.hostname,
+      origin: this.origin ?? window.location.origin,
+    };
+  }
+
+  async list(userId: string): Promise<PasskeyRecord[]> {
+    return this.store.list(userId);
+  }
+
+  /**
+   * Create a discoverable credential for a signed-in user and store it.
+   * Credentials the user already has are excluded, so an authenticator
+   * cannot be registered twice. With a registrar the server verifies the
+   * response and stores the credential.
+   */
+  async register(user: PasskeyUser, nickname?: string): Promise<PasskeyRecord> {
+    const { rpId, origin } = this.relyingParty;
+    const existing = await this.store.list(user.id);
+    const challenge = this.registrar ? await this.registrar.challenge(user.id) : this.generateChallenge();
+    const startedAt = this.now().getTime();
+
+    const response = await this.ceremony.create({
+      challenge: base64UrlToBytes(challenge),
+      rp: { id: rpId, name: this.rpName },
+      user: { id: new TextEncoder().encode(user.id), name: user.email, displayName: user.name },
+      pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({ type: 'public-key', alg })),
+      excludeCredentials: existing.map((record) => ({
+        type: 'public-key',
+        id: base64UrlToBytes(record.credential_id),
+        transports: record.transports as AuthenticatorTransport[],
+      })),
+      authenticatorSelection: { residentKey: 'required', requireResidentKey: true, userVerification: 'required' },
+      attestation: 'none',
+      timeout: CEREMONY_TIMEOUT_MS,
+    });
+    this.assertNotExpired(startedAt);
+
+    if (this.registrar) {
+      const record = await this.registrar.complete(challenge, response, nickname);
+      console.log('[Passkeys] Passkey registered for user:', user.id);
+      return record;
+    }
+
+    const verified = await verifyRegistration({
+      response,
+      expectedChallenge: challenge,
+      expectedOrigin: origin,
+      expectedRpId: rpId,
+      requireUserVerification: true,
+    });
+    if (await this.store.findByCredentialId(verified.credentialId)) {
+      throw new WebAuthnError('CREDENTIAL_MISMATCH', 'This passkey is already registered');
+    }
+
+    const record: PasskeyRecord = {
+      id: generateId(),
+      user_id: user.id,
+      credential_id: verified.credentialId,
+      public_key: verified.publicKey,
+      algorithm: verified.algorithm,
+      sign_count: verified.signCount,
+      transports: verified.transports,
+      nickname: nickname?.trim().slice(0, MAX_NICKNAME_LENGTH) || describeAuthenticator(verified.transports, verified.backedUp),
+      aaguid: verified.aaguid,
+      backed_up: verified.backedUp,
+      created_at: this.now().toISOString(),
+      last_used_at: null,
+    };
+
+    await this.store.save(record);
+    console.log('[Passkeys] Passkey registered for user:', user.id);
+
+    return record;
+  }
+
+  /**
+   * Browser half of sign-in: ask the authenticator to sign `challenge`.
+   * Without `credentialIds` any discoverable passkey for this site is offered.
+   */
+  async requestAssertion(challenge: string, credentialIds: string[] = []): Promise<AuthenticationCredentialJSON> {
+    return this.ceremony.get({
+      challenge: base64UrlToBytes(challenge),
+      rpId: this.relyingParty.rpId,
+      allowCredentials: credentialIds.map((id) => ({ type: 'public-key', id: base64UrlToBytes(id) })),
+      userVerification: 'required',
+      timeout: CEREMONY_TIMEOUT_MS,
+    });
+  }
+
+  /**
+   * Full sign-in against this service's store: challenge, assertion,
+   * verification and counter update. Resolves to the matching credential,
+   * whose user_id identifies the account.
+   */
+  async authenticate(): Promise<PasskeyRecord> {
+    const { rpId, origin } = this.relyingParty;
+    const challenge = this.generateChallenge();
+    const startedAt = this.now().getTime();
+
+    const response = await this.requestAssertion(challenge);
+    this.assertNotExpired(startedAt);
+
+    const record = await this.store.findByCredentialId(response.id);
+    if (!record) {
+      throw new WebAuthnError('CREDENTIAL_MISMATCH', 'This passkey is not registered');
+    }
+
+    const verified = await verifyAuthentication({
+      response,
+      expectedChallenge: challenge,
+      expectedOrigin: origin,
+      expectedRpId: rpId,
+      requireUserVerification: true,
+      credential: { credentialId: record.credential_id, publicKey: record.public_key, signCount: record.sign_count },
+    });
+
+    const updated: PasskeyRecord = {
+      ...record,
+      sign_count: verified.newSignCount,
+      backed_up: verified.backedUp,
+      last_used_at: this.now().toISOString(),
+    };
+    await this.store.save(updated);
+
+    return updated;
+  }
+
+  async rename(userId: string, id: string, nickname: string): Promise<PasskeyRecord> {
+    const record = (await this.store.list(userId)).find((stored) => stored.id === id);
+    const trimmed = nickname.trim().slice(0, MAX_NICKNAME_LENGTH);
+    if (!record || !trimmed) {
+      throw new Error('Passkey not found');
+    }
+
+    const updated = { ...record, nickname: trimmed };
+    await this.store.save(updated);
+    return updated;
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    await this.store.delete(userId, id);
+  }
+
+  private assertNotExpired(startedAt: number): void {
+    if (this.now().getTime() - startedAt > CEREMONY_TIMEOUT_MS) {
+      throw new WebAuthnError('CHALLENGE_MISMATCH', 'The passkey challenge expired');
+    }
+  }
+}
+
+export const passkeyService = new PasskeyService();
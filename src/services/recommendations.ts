@@ -11,8 +11,20 @@ import type {
   InterventionTrigger,
   InterventionExecution,
   ChatMessage,
-  ChatConversation
+  ChatConversation,
+  RiskAssessment
 } from '../types/advanced';
+import type { Challenge, JournalEntry } from '../types/database';
+import { isSupabaseConfigured } from '../lib/supabase';
+import { getCrisisResources, screenForRisk } from './riskDetection';
+import { getLLMProvider, fitToTokenBudget, isThirdPartyProvider } from './llm';
+import type { LLMProvider } from './llm';
+import { SupabaseChatStore, LocalChatStore } from './chatStore';
+import type { ChatStore } from './chatStore';
+import { dataTransferGate } from './dataTransfers';
+import type { DataTransferGate } from './dataTransfers';
+import { getJournalEntries } from './journalService';
+import { getUserChallenges } from './gamificationService';
 
 // ============================================================================
 // Personalized Recommendations Engine
@@ -584,9 +596,228 @@ export class SmartNotificationsService {
 // Context-Aware Chatbot Service
 // ============================================================================
 
+export interface ChatContextSources {
+  moods?: Array<{ emotion: string; intensity: number; tags?: string[]; createdAt?: Date | string; created_at?: string }>;
+  journals?: Array<Pick<JournalEntry, 'tags' | 'sentiment_label' | 'created_at'>>;
+  challenges?: Array<Pick<Challenge, 'name' | 'current_value' | 'target_value' | 'status'>>;
+}
+
+export interface ChatbotServiceOptions {
+  store?: ChatStore;
+  provider?: () => LLMProvider;
+  transfers?: DataTransferGate;
+  now?: () => Date;
+}
+
+export interface SendMessageOptions {
+  /** Receives the reply as it streams in */
+  onToken?: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+const HISTORY_TOKEN_BUDGET = 3000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function topValues(values: string[], limit: number): string[] {
+  const counts = values.reduce((acc, value) => {
+    acc[value] = (acc[value] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value]) => value);
+}
+
+/**
+ * Condense the last week of moods, journal tags and active challenges into
+ * the conversation context the assistant is primed with.
+ */
+export function assembleChatContext(sources: ChatContextSources, now: Date = new Date()): ChatConversation['context'] {
+  const context: ChatConversation['context'] = {};
+
+  const moods = (sources.moods || [])
+    .map((mood) => ({ ...mood, time: new Date(mood.createdAt ?? mood.created_at).getTime() }))
+    .filter((mood) => now.getTime() - mood.time < 7 * DAY_MS)
+    .sort((a, b) => b.time - a.time);
+
+  if (moods.length > 0) {
+    if (now.getTime() - moods[0].time < DAY_MS) {
+      context.current_mood = moods[0].emotion;
+    }
+
+    const [mostCommon] = topValues(moods.map((mood) => mood.emotion), 1);
+    const averageIntensity = moods.reduce((sum, mood) => sum + mood.intensity, 0) / moods.length;
+    context.mood_summary = `${moods.length} check-ins this week, mostly ${mostCommon}, average intensity ${averageIntensity.toFixed(1)}/10`;
+
+    const activities = topValues(moods.flatMap((mood) => mood.tags || []), 5);
+    if (activities.length > 0) context.recent_activities = activities;
+  }
+
+  const journals = sources.journals || [];
+  const themes = topValues(journals.flatMap((entry) => entry.tags || []), 5);
+  if (themes.length > 0) context.journal_themes = themes;
+
+  const concerns = topValues(
+    journals.filter((entry) => entry.sentiment_label === 'negative').flatMap((entry) => entry.tags || []),
+    3
+  );
+  if (concerns.length > 0) context.concerns = concerns;
+
+  const goals = (sources.challenges || [])
+    .filter((challenge) => challenge.status === 'active')
+    .map((challenge) => `${challenge.name} (${challenge.current_value}/${challenge.target_value})`);
+  if (goals.length > 0) context.goals = goals;
+
+  return context;
+}
+
+/**
+ * Gather chat context from the user's moods plus, when a backend is
+ * configured, recent journal entries and active challenges.
+ */
+export async function collectChatContext(moods: ChatContextSources['moods'] = []): Promise<ChatConversation['context']> {
+  if (!isSupabaseConfigured()) {
+    return assembleChatContext({ moods });
+  }
+
+  const [journals, challenges] = await Promise.all([
+    getJournalEntries({ orderBy: 'created_at', order: 'desc' }, { limit: 20 })
+      .then((result) => (result.success ? result.data.data : [])),
+    getUserChallenges('active').then((result) => (result.success ? result.data : [])),
+  ]);
+
+  return assembleChatContext({ moods, journals, challenges });
+}
+
+export function buildChatSystemPrompt(context: ChatConversation['context'] = {}): string {
+  const lines = [
+    context.current_mood && `Current mood: ${context.current_mood}`,
+    context.mood_summary && `This week: ${context.mood_summary}`,
+    context.recent_activities?.length && `Recent activities: ${context.recent_activities.join(', ')}`,
+    context.journal_themes?.length && `Journal themes: ${context.journal_themes.join(', ')}`,
+    context.concerns?.length && `Recurring concerns: ${context.concerns.join(', ')}`,
+    context.goals?.length && `Active challenges: ${context.goals.join('; ')}`,
+  ].filter(Boolean);
+
+  return [
+    'You are the MoodMash companion, a warm and supportive wellbeing assistant.',
+    'Listen first, keep replies short (under 120 words), and suggest small practical steps when it helps.',
+    'You are not a therapist: never diagnose, and encourage professional help for anything serious.',
+    lines.length > 0 ? `What you know about the user:\n${lines.join('\n')}` : '',
+  ].filter(Boolean).join('\n\n');
+}
+
+function generateId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
 export class ChatbotService {
+  private store: ChatStore;
+  private getProvider: () => LLMProvider;
+  private transfers: DataTransferGate;
+  private now: () => Date;
+  private conversations: Map<string, ChatConversation> = new Map();
   private conversationHistory: Map<string, ChatMessage[]> = new Map();
 
+  constructor(options: ChatbotServiceOptions = {}) {
+    this.store = options.store ?? (isSupabaseConfigured() ? new SupabaseChatStore() : new LocalChatStore());
+    this.getProvider = options.provider ?? getLLMProvider;
+    this.transfers = options.transfers ?? dataTransferGate;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  // ==========================================================================
+  // Conversations
+  // ==========================================================================
+
+  /**
+   * List the user's conversations, most recent first
+   */
+  async listConversations(userId: string): Promise<ChatConversation[]> {
+    const conversations = await this.store.listConversations(userId);
+    conversations.forEach((conversation) => this.conversations.set(conversation.id, conversation));
+    return conversations.filter((conversation) => !conversation.is_archived);
+  }
+
+  /**
+   * Start a new conversation
+   */
+  async createConversation(userId: string, context: ChatConversation['context'] = {}): Promise<ChatConversation> {
+    const timestamp = this.now().toISOString();
+    const conversation: ChatConversation = {
+      id: generateId(),
+      user_id: userId,
+      title: DEFAULT_CONVERSATION_TITLE,
+      context,
+      message_count: 0,
+      last_message_at: timestamp,
+      is_archived: false,
+      created_at: timestamp,
+    };
+
+    this.conversations.set(conversation.id, conversation);
+    this.conversationHistory.set(this.historyKey(userId, conversation.id), []);
+    await this.persist(() => this.store.saveConversation(conversation));
+
+    return conversation;
+  }
+
+  async renameConversation(userId: string, conversationId: string, title: string): Promise<ChatConversation> {
+    const conversation = await this.requireConversation(userId, conversationId);
+    conversation.title = title.trim() || DEFAULT_CONVERSATION_TITLE;
+    await this.store.saveConversation(conversation);
+    return conversation;
+  }
+
+  async deleteConversation(userId: string, conversationId: string): Promise<void> {
+    await this.store.deleteConversation(userId, conversationId);
+    this.conversations.delete(conversationId);
+    this.conversationHistory.delete(this.historyKey(userId, conversationId));
+  }
+
+  /**
+   * Export a conversation as Markdown for reading or JSON for re-import
+   */
+  async exportConversation(userId: string, conversationId: string, format: 'markdown' | 'json' = 'markdown'): Promise<string> {
+    const conversation = await this.requireConversation(userId, conversationId);
+    const messages = await this.loadMessages(userId, conversationId);
+
+    if (format === 'json') {
+      return JSON.stringify({ conversation, messages }, null, 2);
+    }
+
+    const transcript = messages
+      .filter((message) => message.role !== 'system')
+      .map((message) => {
+        const speaker = message.role === 'user' ? 'You' : 'MoodMash';
+        return `**${speaker}** (${new Date(message.created_at).toLocaleString()}):\n\n${message.content}`;
+      });
+
+    return [`# ${conversation.title}`, `_Exported ${this.now().toLocaleString()}_`, ...transcript].join('\n\n') + '\n';
+  }
+
+  /**
+   * Load a conversation's messages from the store
+   */
+  async loadMessages(userId: string, conversationId: string): Promise<ChatMessage[]> {
+    const messages = await this.store.getMessages(userId, conversationId);
+    this.conversationHistory.set(this.historyKey(userId, conversationId), messages);
+    return messages;
+  }
+
+  // ==========================================================================
+  // Messaging
+  // ==========================================================================
+
   /**
    * Send a message to the chatbot
    */
@@ -594,42 +825,123 @@ export class ChatbotService {
     userId: string,
     conversationId: string,
     message: string,
-    context?: ChatConversation['context']
+    context?: ChatConversation['context'],
+    options: SendMessageOptions = {}
   ): Promise<ChatMessage> {
-    const userMessage: ChatMessage = {
-      id: `msg_${Date.now()}_user`,
-      user_id: userId,
-      conversation_id: conversationId,
-      role: 'user',
-      content: message,
-      created_at: new Date().toISOString()
-    };
+    const conversation = await this.ensureConversation(userId, conversationId);
+    if (context) conversation.context = context;
 
-    // Add to history
-    const history = this.getOrCreateConversation(userId, conversationId);
+    const history = await this.getHistory(userId, conversationId);
+    const userMessage = this.createMessage(userId, conversationId, 'user', message);
     history.push(userMessage);
+    await this.persist(() => this.store.saveMessage(userMessage));
 
-    // Get AI response
-    const assistantMessage = await this.getAIResponse(userId, conversationId, message, context);
+    // Crisis language skips the normal reply and goes straight to resources
+    const risk = screenForRisk(message, 'chat');
+    const assistantMessage = risk.requiresInterruption
+      ? this.getCrisisResponse(userId, conversationId, risk)
+      : await this.getAIResponse(userId, conversationId, history, conversation.context, options);
 
-    // Add assistant response to history
     history.push(assistantMessage);
+    conversation.message_count = history.length;
+    conversation.last_message_at = assistantMessage.created_at;
+    if (conversation.title === DEFAULT_CONVERSATION_TITLE) {
+      conversation.title = message.length > 40 ? `${message.slice(0, 40).trim()}…` : message;
+    }
+
+    await this.persist(() => this.store.saveMessage(assistantMessage));
+    await this.persist(() => this.store.saveConversation(conversation));
 
     return assistantMessage;
   }
 
   /**
-   * Get AI response (placeholder for actual AI integration)
+   * Reply with localized helplines instead of a generated response
+   */
+  private getCrisisResponse(
+    userId: string,
+    conversationId: string,
+    risk: RiskAssessment
+  ): ChatMessage {
+    const resources = getCrisisResources();
+
+    return {
+      ...this.createMessage(userId, conversationId, 'assistant', resources.chatReply),
+      intent: 'crisis_support',
+      entities: { risk, resources },
+    };
+  }
+
+  /**
+   * Generate a reply through the configured AI provider, falling back to a
+   * canned response when none is configured or the call fails
    */
   private async getAIResponse(
     userId: string,
     conversationId: string,
-    message: string,
-    context?: ChatConversation['context']
+    history: ChatMessage[],
+    context: ChatConversation['context'],
+    options: SendMessageOptions
   ): Promise<ChatMessage> {
-    // This would integrate with an AI service like OpenAI, Gemini, etc.
-    // For now, return a simple response
+    const message = history[history.length - 1].content;
+    const intent = this.detectIntent(message);
+
+    // Keep the most recent turns that fit the budget
+    const turns = history
+      .filter((m) => m.role !== 'system')
+      .map((m) => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.content}`);
+    const transcript = fitToTokenBudget([...turns].reverse(), HISTORY_TOKEN_BUDGET).reverse();
+
+    const request = {
+      system: buildChatSystemPrompt(context),
+      prompt: `${transcript.join('\n\n')}\n\nAssistant:`,
+      maxOutputTokens: 400,
+      signal: options.signal,
+    };
+
+    try {
+      const provider = this.getProvider();
+      if (!(await this.mayShareConversation(provider, history))) {
+        return { ...this.createMessage(userId, conversationId, 'assistant', this.getFallbackResponse(message, context)), intent };
+      }
+      let text = '';
+
+      if (options.onToken) {
+        const stream = provider.stream(request);
+        let next = await stream.next();
+        while (!next.done) {
+          text += next.value;
+          options.onToken(next.value as string);
+          next = await stream.next();
+        }
+      } else {
+        text = (await provider.generate(request)).text;
+      }
+
+      if (text.trim()) {
+        return { ...this.createMessage(userId, conversationId, 'assistant', text.trim()), intent };
+      }
+    } catch (error) {
+      console.warn('[Chat] AI provider unavailable, using fallback reply:', error);
+    }
+
+    return { ...this.createMessage(userId, conversationId, 'assistant', this.getFallbackResponse(message, context)), intent };
+  }
+
+  /**
+   * Hosted providers only see the conversation when the transfer gate allows it
+   */
+  private async mayShareConversation(provider: LLMProvider, history: ChatMessage[]): Promise<boolean> {
+    if (!isThirdPartyProvider(provider)) return true;
 
+    const grant = await this.transfers.request('ai_chat', provider.id, history.filter((m) => m.role !== 'system'));
+    return grant.allowed;
+  }
+
+  /**
+   * Keyword-based reply for when no AI provider is reachable
+   */
+  private getFallbackResponse(message: string, context?: ChatConversation['context']): string {
     const lowerMessage = message.toLowerCase();
     let responseText = '';
 
@@ -657,15 +969,7 @@ export class ChatbotService {
       }
     }
 
-    return {
-      id: `msg_${Date.now()}_assistant`,
-      user_id: userId,
-      conversation_id: conversationId,
-      role: 'assistant',
-      content: responseText,
-      intent: this.detectIntent(message),
-      created_at: new Date().toISOString()
-    };
+    return responseText;
   }
 
   /**
@@ -693,22 +997,75 @@ export class ChatbotService {
     return 'general_conversation';
   }
 
+  private createMessage(userId: string, conversationId: string, role: ChatMessage['role'], content: string): ChatMessage {
+    return {
+      id: generateId(),
+      user_id: userId,
+      conversation_id: conversationId,
+      role,
+      content,
+      created_at: this.now().toISOString(),
+    };
+  }
+
+  private historyKey(userId: string, conversationId: string): string {
+    return `${userId}_${conversationId}`;
+  }
+
+  private async getHistory(userId: string, conversationId: string): Promise<ChatMessage[]> {
+    const cached = this.conversationHistory.get(this.historyKey(userId, conversationId));
+    return cached ?? this.loadMessages(userId, conversationId);
+  }
+
+  private async requireConversation(userId: string, conversationId: string): Promise<ChatConversation> {
+    const cached = this.conversations.get(conversationId);
+    if (cached && cached.user_id === userId) return cached;
+
+    const stored = (await this.store.listConversations(userId)).find((c) => c.id === conversationId);
+    if (!stored) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+    this.conversations.set(stored.id, stored);
+    return stored;
+  }
+
+  private async ensureConversation(userId: string, conversationId: string): Promise<ChatConversation> {
+    try {
+      return await this.requireConversation(userId, conversationId);
+    } catch {
+      const timestamp = this.now().toISOString();
+      const conversation: ChatConversation = {
+        id: conversationId,
+        user_id: userId,
+        title: DEFAULT_CONVERSATION_TITLE,
+        context: {},
+        message_count: 0,
+        last_message_at: timestamp,
+        is_archived: false,
+        created_at: timestamp,
+      };
+      this.conversations.set(conversationId, conversation);
+      return conversation;
+    }
+  }
+
   /**
-   * Get or create conversation history
+   * Saving is best-effort: a locked keyring or dropped connection should not
+   * interrupt the conversation itself
    */
-  private getOrCreateConversation(userId: string, conversationId: string): ChatMessage[] {
-    const key = `${userId}_${conversationId}`;
-    if (!this.conversationHistory.has(key)) {
-      this.conversationHistory.set(key, []);
+  private async persist(write: () => Promise<void>): Promise<void> {
+    try {
+      await write();
+    } catch (error) {
+      console.error('[Chat] Failed to save:', error);
     }
-    return this.conversationHistory.get(key)!;
   }
 
   /**
    * Get conversation history
    */
   getConversationHistory(userId: string, conversationId: string): ChatMessage[] {
-    return this.getOrCreateConversation(userId, conversationId);
+    return this.conversationHistory.get(this.historyKey(userId, conversationId)) ?? [];
   }
 
   /**
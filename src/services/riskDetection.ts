@@ -0,0 +1,159 @@
+// ============================================================================
+// Risk Detection Service for MoodMash
+// Screens journals, mood notes and chat messages for crisis language
+// ============================================================================
+
+import {
+  CRISIS_PHRASES,
+  CRISIS_RESOURCES,
+  INTERNATIONAL_HELPLINE,
+} from '../data/crisisResources';
+import type { Helpline, LocaleCrisisResources } from '../data/crisisResources';
+import type { RiskAssessment, RiskLevel, RiskMatch, RiskSource } from '../types/advanced';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RiskEvent {
+  assessment: RiskAssessment;
+  source: RiskSource;
+  locale: string;
+  detectedAt: string;
+}
+
+export interface CrisisResources extends LocaleCrisisResources {
+  locale: string;
+  directory: Helpline;
+}
+
+type RiskListener = (event: RiskEvent) => void;
+
+// Numeric form used by the intervention engine's risk_score metric
+export const RISK_SCORES: Record<RiskLevel, number> = {
+  none: 0,
+  low: 1,
+  moderate: 2,
+  high: 3,
+};
+
+const DEFAULT_LOCALE = 'en';
+
+// ============================================================================
+// Classifier
+// ============================================================================
+
+/**
+ * Lowercase, fold accents and Arabic diacritics, collapse whitespace. Phrase
+ * lists go through the same function so both sides compare like for like.
+ */
+export function normalizeForRisk(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f\u064b-\u065f\u0670]/g, '')
+    .replace(/[\u2018\u2019`]/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const normalizedPhrases = Object.entries(CRISIS_PHRASES).flatMap(([locale, lists]) => [
+  ...lists.high.map((phrase) => ({ locale, level: 'high' as const, phrase, normalized: normalizeForRisk(phrase) })),
+  ...lists.moderate.map((phrase) => ({ locale, level: 'moderate' as const, phrase, normalized: normalizeForRisk(phrase) })),
+]);
+
+/**
+ * Check text against every locale's phrase list, since people often write in
+ * a language other than their UI language. Negations are deliberately not
+ * discounted: a false positive costs a dialog, a false negative costs more.
+ */
+export function assessRisk(text: string): RiskAssessment {
+  if (!text || !text.trim()) {
+    return { level: 'none', score: 0, matches: [], requiresInterruption: false };
+  }
+
+  const normalized = normalizeForRisk(text);
+  const matches: RiskMatch[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of normalizedPhrases) {
+    // The same word can appear in several locales' lists (e.g. "suicide")
+    if (seen.has(entry.normalized) || !normalized.includes(entry.normalized)) continue;
+    seen.add(entry.normalized);
+    matches.push({ phrase: entry.phrase, locale: entry.locale, level: entry.level });
+  }
+
+  const highCount = matches.filter((m) => m.level === 'high').length;
+  const moderateCount = matches.length - highCount;
+
+  let level: RiskLevel = 'none';
+  if (highCount > 0 || moderateCount >= 3) level = 'high';
+  else if (moderateCount >= 2) level = 'moderate';
+  else if (moderateCount === 1) level = 'low';
+
+  return {
+    level,
+    score: Math.min(1, highCount * 0.6 + moderateCount * 0.25),
+    matches,
+    requiresInterruption: level === 'high',
+  };
+}
+
+// ============================================================================
+// Resources
+// ============================================================================
+
+/**
+ * The UI language from I18nProvider, which mirrors it onto <html lang>.
+ */
+export function currentLocale(): string {
+  const lang = typeof document !== 'undefined' ? document.documentElement.lang : '';
+  return lang && CRISIS_RESOURCES[lang] ? lang : DEFAULT_LOCALE;
+}
+
+export function getCrisisResources(locale: string = currentLocale()): CrisisResources {
+  const resolved = CRISIS_RESOURCES[locale] ? locale : DEFAULT_LOCALE;
+  return { ...CRISIS_RESOURCES[resolved], locale: resolved, directory: INTERNATIONAL_HELPLINE };
+}
+
+// ============================================================================
+// Screening
+// ============================================================================
+
+const listeners = new Set<RiskListener>();
+
+/**
+ * Subscribe to risk events. SafetyResourcesDialog listens here to interrupt
+ * whatever the user is doing.
+ */
+export function onRiskDetected(listener: RiskListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Assess text and broadcast anything above `none`. Listeners decide whether
+ * to interrupt (high) or just record it (low/moderate).
+ */
+export function screenForRisk(text: string | null | undefined, source: RiskSource): RiskAssessment {
+  const assessment = assessRisk(text ?? '');
+
+  if (assessment.level !== 'none') {
+    const event: RiskEvent = {
+      assessment,
+      source,
+      locale: currentLocale(),
+      detectedAt: new Date().toISOString(),
+    };
+    console.warn('[Risk] Detected', assessment.level, 'risk in', source);
+    listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[Risk] Listener failed:', error);
+      }
+    });
+  }
+
+  return assessment;
+}
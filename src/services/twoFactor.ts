@@ -0,0 +1,577 @@
+// ============================================================================
+// Two-Factor Authentication for MoodMash
+// TOTP enrollment, verification with replay protection, hashed single-use
+// backup codes and lost-device recovery. With Supabase the authenticator is
+// a Supabase Auth MFA factor and the database enforces the second step.
+// ============================================================================
+
+import QRCode from 'qrcode';
+import { getSupabaseClient, handleSupabaseError, isSupabaseConfigured } from '../lib/supabase';
+import {
+  TOTP_DIGITS,
+  buildOtpauthUri,
+  generateBackupCodes,
+  generateTotpSecret,
+  hashBackupCode,
+  isBackupCodeFormat,
+  verifyTotp,
+} from '../lib/totp';
+import type { SyncStorage } from './moodSync';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TwoFactorRecord {
+  user_id: string;
+  /** Base32 TOTP secret */
+  secret: string;
+  /** False while enrollment waits for its first code */
+  enabled: boolean;
+  backup_code_hashes: string[];
+  /** Last accepted TOTP time step; codes at or before it are replays */
+  last_used_step: number | null;
+  enabled_at: string | null;
+  updated_at: string;
+}
+
+export interface TwoFactorStore {
+  get(userId: string): Promise<TwoFactorRecord | null>;
+  save(record: TwoFactorRecord): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+  /** SVG data URL rendered on-device, so the secret never reaches a QR service */
+  qrCodeUrl: string;
+  /** Shown once; only hashes are stored */
+  backupCodes: string[];
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  remainingBackupCodes: number;
+}
+
+export interface TwoFactorResult {
+  success: boolean;
+  method?: 'totp' | 'backup_code';
+  remainingBackupCodes?: number;
+  /** Fresh codes, when the call issued them */
+  backupCodes?: string[];
+  error?: 'incorrect_2fa_code' | 'expired_2fa_code';
+}
+
+/**
+ * What AuthContext needs from a two-factor backend. Supabase enforces the
+ * second step server-side; the local one backs demo mode and tests.
+ */
+export interface TwoFactorAuthenticator {
+  getStatus(userId: string): Promise<TwoFactorStatus>;
+  beginSetup(userId: string, account: string): Promise<TwoFactorEnrollment>;
+  confirmSetup(userId: string, code: string): Promise<TwoFactorResult>;
+  verify(userId: string, code: string): Promise<TwoFactorResult>;
+  disable(userId: string, code: string): Promise<TwoFactorResult>;
+  regenerateBackupCodes(userId: string, code: string): Promise<TwoFactorResult>;
+  recover(userId: string, backupCode: string): Promise<TwoFactorResult>;
+  isSessionVerified(sessionId: string): Promise<boolean>;
+  /** Called after a successful verify, for backends that track sessions themselves */
+  markSessionVerified(sessionId: string): void;
+}
+
+export interface TwoFactorServiceOptions {
+  store?: TwoFactorStore;
+  /** Where sessions that passed the second factor are remembered */
+  storage?: SyncStorage;
+  now?: () => Date;
+}
+
+const STORE_KEY = 'moodmash_two_factor';
+const VERIFIED_SESSIONS_KEY = 'moodmash_2fa_sessions';
+const MAX_VERIFIED_SESSIONS = 20;
+
+// ============================================================================
+// Local Store
+// ============================================================================
+
+/**
+ * Browser-storage store for demo mode (no Supabase) and tests.
+ */
+export class LocalTwoFactorStore implements TwoFactorStore {
+  private storage: SyncStorage;
+
+  constructor(storage: SyncStorage = localStorage) {
+    this.storage = storage;
+  }
+
+  private read(): Record<string, TwoFactorRecord> {
+    try {
+      const stored = this.storage.getItem(STORE_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  async get(userId: string): Promise<TwoFactorRecord | null> {
+    return this.read()[userId] ?? null;
+  }
+
+  async save(record: TwoFactorRecord): Promise<void> {
+    this.storage.setItem(STORE_KEY, JSON.stringify({ ...this.read(), [record.user_id]: record }));
+  }
+
+  async delete(userId: string): Promise<void> {
+    const records = this.read();
+    delete records[userId];
+    this.storage.setItem(STORE_KEY, JSON.stringify(records));
+  }
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+async function renderQrCode(text: string): Promise<string> {
+  const svg = await QRCode.toString(text, { type: 'svg', margin: 1, errorCorrectionLevel: 'M' });
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * Two-factor over a TwoFactorStore, checked on this device. Used without
+ * Supabase, where there is no server to enforce it.
+ */
+export class TwoFactorService implements TwoFactorAuthenticator {
+  private store: TwoFactorStore;
+  private storage: SyncStorage;
+  private now: () => Date;
+
+  constructor(options: TwoFactorServiceOptions = {}) {
+    this.store = options.store ?? new LocalTwoFactorStore();
+    this.storage = options.storage ?? localStorage;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async getStatus(userId: string): Promise<TwoFactorStatus> {
+    const record = await this.store.get(userId);
+    return {
+      enabled: !!record?.enabled,
+      remainingBackupCodes: record?.enabled ? record.backup_code_hashes.length : 0,
+    };
+  }
+
+  /**
+   * Start enrollment with a fresh secret and backup codes. Nothing is
+   * enforced until confirmSetup sees a valid code from the app.
+   */
+  async beginSetup(userId: string, account: string): Promise<TwoFactorEnrollment> {
+    const existing = await this.store.get(userId);
+    if (existing?.enabled) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    const backupCodes = generateBackupCodes();
+    const otpauthUri = buildOtpauthUri(secret, account);
+
+    await this.store.save({
+      user_id: userId,
+      secret,
+      enabled: false,
+      backup_code_hashes: await Promise.all(backupCodes.map(hashBackupCode)),
+      last_used_step: null,
+      enabled_at: null,
+      updated_at: this.now().toISOString(),
+    });
+
+    return { secret, otpauthUri, qrCodeUrl: await renderQrCode(otpauthUri), backupCodes };
+  }
+
+  async confirmSetup(userId: string, code: string): Promise<TwoFactorResult> {
+    const record = await this.store.get(userId);
+    if (!record || record.enabled) {
+      return { success: false, error: 'incorrect_2fa_code' };
+    }
+
+    const result = await this.checkTotp(record, code);
+    if (!result.success) return result;
+
+    await this.store.save({ ...record, ...result.record, enabled: true, enabled_at: this.now().toISOString() });
+    console.log('[2FA] Two-factor enabled for user:', userId);
+
+    return { success: true, method: 'totp', remainingBackupCodes: record.backup_code_hashes.length };
+  }
+
+  /**
+   * Second step of sign-in. Accepts an authenticator code or one of the
+   * backup codes, which is then spent.
+   */
+  async verify(userId: string, code: string): Promise<TwoFactorResult> {
+    const record = await this.store.get(userId);
+    if (!record?.enabled) {
+      return { success: false, error: 'incorrect_2fa_code' };
+    }
+
+    if (isBackupCodeFormat(code)) {
+      return this.spendBackupCode(record, code);
+    }
+
+    const result = await this.checkTotp(record, code);
+    if (!result.success) return result;
+
+    await this.store.save({ ...record, ...result.record });
+    return { success: true, method: 'totp', remainingBackupCodes: record.backup_code_hashes.length };
+  }
+
+  async disable(userId: string, code: string): Promise<TwoFactorResult> {
+    const result = await this.verify(userId, code);
+    if (!result.success) return result;
+
+    await this.store.delete(userId);
+    return { ...result, remainingBackupCodes: 0 };
+  }
+
+  /**
+   * Replace every backup code. Requires a current authenticator code so a
+   * leaked code cannot be used to mint new ones.
+   */
+  async regenerateBackupCodes(userId: string, code: string): Promise<TwoFactorResult> {
+    const record = await this.store.get(userId);
+    if (!record?.enabled) {
+      return { success: false, error: 'incorrect_2fa_code' };
+    }
+
+    const result = await this.checkTotp(record, code);
+    if (!result.success) return result;
+
+    const backupCodes = generateBackupCodes();
+    await this.store.save({
+      ...record,
+      ...result.record,
+      backup_code_hashes: await Promise.all(backupCodes.map(hashBackupCode)),
+    });
+
+    return { success: true, method: 'totp', backupCodes, remainingBackupCodes: backupCodes.length };
+  }
+
+  /**
+   * Lost device: a backup code signs the user in and removes the old
+   * authenticator, so they can enroll a new one from settings.
+   */
+  async recover(userId: string, backupCode: string): Promise<TwoFactorResult> {
+    const record = await this.store.get(userId);
+    if (!record?.enabled || !isBackupCodeFormat(backupCode)) {
+      return { success: false, error: 'incorrect_2fa_code' };
+    }
+
+    const result = await this.spendBackupCode(record, backupCode);
+    if (!result.success) return result;
+
+    await this.store.delete(userId);
+    console.log('[2FA] Two-factor reset through recovery for user:', userId);
+
+    return { ...result, remainingBackupCodes: 0 };
+  }
+
+  async isSessionVerified(sessionId: string): Promise<boolean> {
+    return this.readVerifiedSessions().includes(sessionId);
+  }
+
+  markSessionVerified(sessionId: string): void {
+    const sessions = [sessionId, ...this.readVerifiedSessions().filter((id) => id !== sessionId)];
+    this.storage.setItem(VERIFIED_SESSIONS_KEY, JSON.stringify(sessions.slice(0, MAX_VERIFIED_SESSIONS)));
+  }
+
+  private readVerifiedSessions(): string[] {
+    try {
+      const stored = this.storage.getItem(VERIFIED_SESSIONS_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private async checkTotp(
+    record: TwoFactorRecord,
+    code: string
+  ): Promise<TwoFactorResult & { record?: Pick<TwoFactorRecord, 'last_used_step' | 'updated_at'> }> {
+    const at = this.now().getTime();
+    const step = await verifyTotp(record.secret, code, { at, lastUsedStep: record.last_used_step });
+
+    if (step === null) {
+      // A code that would match without replay protection was already used
+      const replayed = record.last_used_step !== null && (await verifyTotp(record.secret, code, { at })) !== null;
+      return { success: false, error: replayed ? 'expired_2fa_code' : 'incorrect_2fa_code' };
+    }
+
+    return { success: true, record: { last_used_step: step, updated_at: this.now().toISOString() } };
+  }
+
+  private async spendBackupCode(record: TwoFactorRecord, code: string): Promise<TwoFactorResult> {
+    const hash = await hashBackupCode(code);
+    if (!record.backup_code_hashes.includes(hash)) {
+      return { success: false, error: 'incorrect_2fa_code' };
+    }
+
+    const remaining = record.backup_code_hashes.filter((stored) => stored !== hash);
+    await this.store.save({ ...record, backup_code_hashes: remaining, updated_at: this.now().toISOString() });
+
+    return { success: true, method: 'backup_code', remainingBackupCodes: remaining.length };
+  }
+}
+
+// ============================================================================
+// Supabase Service
+// ============================================================================
+
+const TOTP_CODE_PATTERN = new RegExp(`^\\d{${TOTP_DIGITS}}$`);
+
+/**
+ * Supabase Auth MFA. The TOTP secret stays with Supabase Auth and a verified
+ * code raises the session to aal2, which RLS requires through
+ * two_factor_satisfied(). Backup codes are hashed here and only checked by
+ * SQL functions; user_two_factor has no client policies.
+ */
+export class SupabaseTwoFactorService implements TwoFactorAuthenticator {
+  /** Backup codes for an enrollment still waiting for its first code */
+  private pendingBackupCodes = new Map<string, string[]>();
+
+  async getStatus(_userId: string): Promise<TwoFactorStatus> {
+    if (!(await this.verifiedFactorId())) {
+      return { enabled: false, remainingBackupCodes: 0 };
+    }
+    return { enabled: true, remainingBackupCodes: await this.backupCodeCount() };
+  }
+
+  async beginSetup(userId: string, account: string): Promise<TwoFactorEnrollment> {
+    const client = getSupabaseClient();
+
+    const { data: factors, error: listError } = await client.auth.mfa.listFactors();
+    if (listError) {
+      handleSupabaseError(listError, 'List two-factor methods');
+    }
+    if (factors.totp.length > 0) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    // An abandoned enrollment would clash with the new one's name
+    for (const stale of factors.all.filter((factor) => factor.factor_type === 'totp')) {
+      await client.auth.mfa.unenroll({ factorId: stale.id });
+    }
+
+    const { data, error } = await client.auth.mfa.enroll({ factorType: 'totp', friendlyName: account, issuer: 'MoodMash' });
+    if (error) {
+      handleSupabaseError(error, 'Start two-factor setup');
+    }
+
+    const backupCodes = generateBackupCodes();
+    this.pendingBackupCodes.set(userId, backupCodes);
+
+    return {
+      secret: data.totp.secret,
+      otpauthUri: data.totp.uri,
+      qrCodeUrl: await renderQrCode(data.totp.uri),
+      backupCodes,
+    };
+  }
+
+  async confirmSetup(userId: string, code: string): Promise<TwoFactorResult> {
+    const backupCodes = this.pendingBackupCodes.get(userId);
+    const factorId = await this.unverifiedFactorId();
+    if (!backupCodes || !factorId) {
+      return { success: false, error: 'incorrect_2fa_code' };
+    }
+
+    const result = await this.checkTotp(factorId, code);
+    if (!result.success) return result;
+
+    this.pendingBackupCodes.delete(userId);
+    const remaining = await this.saveBackupCodes(backupCodes);
+    console.log('[2FA] Two-factor enabled for user:', userId);
+
+    return { ...result, remainingBackupCodes: remaining };
+  }
+
+  async verify(_userId: string, code: string): Promise<TwoFactorResult> {
+    if (isBackupCodeFormat(code)) {
+      return this.redeemBackupCode(code, false);
+    }
+
+    const factorId = await this.verifiedFactorId();
+    if (!factorId) {
+      return { success: false, error: 'incorrect_2fa_code' };
+    }
+
+    const result = await this.checkTotp(factorId, code);
+    if (!result.success) return result;
+
+    return { ...result, remainingBackupCodes: await this.backupCodeCount() };
+  }
+
+  async disable(userId: string, code: string): Promise<TwoFactorResult> {
+    if (isBackupCodeFormat(code)) {
+      return this.recover(userId, code);
+    }
+
+    const factorId = await this.verifiedFactorId();
+    if (!factorId) {
+      return { success: false, error: 'incorrect_2fa_code' };
+    }
+
+    const result = await this.checkTotp(factorId, code);
+    if (!result.success) return result;
+
+    const client = getSupabaseClient();
+
+    const { error: unenrollError } = await client.auth.mfa.unenroll({ factorId });
+    if (unenrollError) {
+      handleSupabaseError(unenrollError, 'Remove authenticator');
+    }
+
+    const { error } = await client.rpc('clear_two_factor');
+    if (error) {
+      handleSupabaseError(error, 'Remove backup codes');
+    }
+
+    return { ...result, remainingBackupCodes: 0 };
+  }
+
+  async regenerateBackupCodes(_userId: string, code: string): Promise<TwoFactorResult> {
+    const factorId = await this.verifiedFactorId();
+    if (!factorId) {
+      return { success: false, error: 'incorrect_2fa_code' };
+    }
+
+    const result = await this.checkTotp(factorId, code);
+    if (!result.success) return result;
+
+    const backupCodes = generateBackupCodes();
+    const remaining = await this.saveBackupCodes(backupCodes);
+
+    return { ...result, backupCodes, remainingBackupCodes: remaining };
+  }
+
+  async recover(userId: string, backupCode: string): Promise<TwoFactorResult> {
+    if (!isBackupCodeFormat(backupCode)) {
+      return { success: false, error: 'incorrect_2fa_code' };
+    }
+
+    const result = await this.redeemBackupCode(backupCode, true);
+    if (result.success) {
+      console.log('[2FA] Two-factor reset through recovery for user:', userId);
+    }
+    return result;
+  }
+
+  /** Asks the database, which is what RLS consults too */
+  async isSessionVerified(_sessionId: string): Promise<boolean> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.rpc('two_factor_satisfied');
+
+    if (error) {
+      handleSupabaseError(error, 'Check two-factor session');
+    }
+
+    return data === true;
+  }
+
+  markSessionVerified(_sessionId: string): void {
+    // The session's aal2 claim or its two_factor_sessions row already records it
+  }
+
+  private async verifiedFactorId(): Promise<string | null> {
+    const { data, error } = await getSupabaseClient().auth.mfa.listFactors();
+
+    if (error) {
+      handleSupabaseError(error, 'List two-factor methods');
+    }
+
+    return data.totp[0]?.id ?? null;
+  }
+
+  private async unverifiedFactorId(): Promise<string | null> {
+    const { data, error } = await getSupabaseClient().auth.mfa.listFactors();
+
+    if (error) {
+      handleSupabaseError(error, 'List two-factor methods');
+    }
+
+    const pending = data.all.find((factor) => factor.factor_type === 'totp' && factor.status === 'unverified');
+    return pending?.id ?? null;
+  }
+
+  /** A matching code raises this session to aal2 */
+  private async checkTotp(factorId: string, code: string): Promise<TwoFactorResult> {
+    const digits = code.replace(/\s/g, '');
+    if (!TOTP_CODE_PATTERN.test(digits)) {
+      return { success: false, error: 'incorrect_2fa_code' };
+    }
+
+    const { error } = await getSupabaseClient().auth.mfa.challengeAndVerify({ factorId, code: digits });
+
+    if (error?.code === 'mfa_challenge_expired') {
+      return { success: false, error: 'expired_2fa_code' };
+    }
+    if (error?.code === 'mfa_verification_failed' || error?.code === 'mfa_verification_rejected') {
+      return { success: false, error: 'incorrect_2fa_code' };
+    }
+    if (error) {
+      handleSupabaseError(error, 'Verify two-factor code');
+    }
+
+    return { success: true, method: 'totp' };
+  }
+
+  private async backupCodeCount(): Promise<number> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.rpc('two_factor_backup_code_count');
+
+    if (error) {
+      handleSupabaseError(error, 'Count backup codes');
+    }
+
+    return (data as number) ?? 0;
+  }
+
+  /** Needs an aal2 session, so call it right after checkTotp */
+  private async saveBackupCodes(backupCodes: string[]): Promise<number> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.rpc('set_two_factor_backup_codes', {
+      code_hashes: await Promise.all(backupCodes.map(hashBackupCode)),
+    });
+
+    if (error) {
+      handleSupabaseError(error, 'Save backup codes');
+    }
+
+    return (data as number) ?? backupCodes.length;
+  }
+
+  /**
+   * Spent server-side. Either completes this session's second step or, with
+   * removeFactor, drops the authenticator so a new one can be enrolled.
+   */
+  private async redeemBackupCode(code: string, removeFactor: boolean): Promise<TwoFactorResult> {
+    const client = getSupabaseClient();
+
+    const { data, error } = await client.rpc('redeem_two_factor_backup_code', { code, remove_factor: removeFactor });
+
+    if (error) {
+      handleSupabaseError(error, 'Use backup code');
+    }
+    if (data === null) {
+      return { success: false, error: 'incorrect_2fa_code' };
+    }
+
+    return { success: true, method: 'backup_code', remainingBackupCodes: data as number };
+  }
+}
+
+export const twoFactorService: TwoFactorAuthenticator = isSupabaseConfigured()
+  ? new SupabaseTwoFactorService()
+  : new TwoFactorService();
@@ -17,6 +17,7 @@ import type {
   SpeechRecognitionEvent,
   SpeechRecognitionErrorEvent
 } from '../hooks/useVoiceRecording';
+import { assessRisk } from './riskDetection';
 
 // ============================================================================
 // Speech Recognition (STT)
@@ -271,7 +272,8 @@ export class SentimentAnalysisService {
       sentiment_score: sentimentScore,
       emotions,
       key_phrases: keyPhrases,
-      topics
+      topics,
+      risk: assessRisk(text)
     };
   }
 
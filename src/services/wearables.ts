@@ -10,6 +10,8 @@ import type {
   SleepSession,
   HealthCorrelation
 } from '../types/advanced';
+import { dataTransferGate } from './dataTransfers';
+import type { DataTransferGate } from './dataTransfers';
 
 // ============================================================================
 // Wearables API Providers
@@ -88,11 +90,17 @@ const PROVIDERS: Record<string, WearableProvider> = {
 // Wearables Integration Service
 // ============================================================================
 
+export interface WearablesServiceOptions {
+  transfers?: DataTransferGate;
+}
+
 export class WearablesService {
   private apiBase: string;
+  private transfers: DataTransferGate;
 
-  constructor() {
+  constructor(options: WearablesServiceOptions = {}) {
     this.apiBase = '/api/wearables';
+    this.transfers = options.transfers ?? dataTransferGate;
   }
 
   /**
@@ -162,7 +170,7 @@ export class WearablesService {
 
       await Promise.all(
         activeDevices.map(async (device) => {
-          const result = await this.syncDevice(userId, device.id);
+          const result = await this.syncDevice(userId, device.id, device.api_provider);
           results.push(result);
         })
       );
@@ -174,10 +182,22 @@ export class WearablesService {
   }
 
   /**
-   * Sync data from a specific device
+   * Sync data from a specific device. Health data is only pulled while the
+   * transfer gate allows it.
    */
-  async syncDevice(userId: string, deviceId: string): Promise<WearableSyncResult> {
+  async syncDevice(userId: string, deviceId: string, provider = 'wearable'): Promise<WearableSyncResult> {
     try {
+      const grant = await this.transfers.request('wearable_sync', provider, [{ user_id: userId, device_id: deviceId }]);
+      if (!grant.allowed) {
+        return {
+          success: false,
+          device_id: deviceId,
+          data_points_synced: 0,
+          last_sync_at: new Date().toISOString(),
+          error: 'Syncing health data needs third-party and personalization consent'
+        };
+      }
+
       const response = await fetch(`${this.apiBase}/sync`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -270,6 +270,25 @@ export interface SentimentAnalysisOutput {
     confidence: number;
     reason: string;
   };
+  risk?: RiskAssessment;
+}
+
+// Crisis Language Detection
+export type RiskLevel = 'none' | 'low' | 'moderate' | 'high';
+
+export type RiskSource = 'journal' | 'mood_note' | 'chat';
+
+export interface RiskMatch {
+  phrase: string;
+  locale: string;
+  level: 'high' | 'moderate';
+}
+
+export interface RiskAssessment {
+  level: RiskLevel;
+  score: number; // 0 to 1
+  matches: RiskMatch[];
+  requiresInterruption: boolean;
 }
 
 // Voice Support
@@ -352,9 +371,11 @@ export interface ChatConversation {
   title: string;
   context: {
     current_mood?: string;
+    mood_summary?: string;
     recent_activities?: string[];
     goals?: string[];
     concerns?: string[];
+    journal_themes?: string[];
   };
   message_count: number;
   last_message_at: string;
@@ -418,7 +439,7 @@ export interface InterventionTrigger {
     time_window_hours?: number;
   };
   intervention_action: string;
- 干预配置: Record<string, unknown>;
+  intervention_config: Record<string, unknown>;
   is_active: boolean;
   last_triggered_at?: string;
   trigger_count: number;
@@ -65,10 +65,14 @@ export interface MoodEntry {
   stress_level?: number;
   weather?: string;
   location?: string;
+  privacy?: 'global' | 'friends' | 'private';
+  key_version?: number | null;
   created_at: string;
   updated_at: string;
   entry_date: string;
   entry_time: string;
+  /** When the server received the row; achievements count from it */
+  recorded_at?: string;
 }
 
 // ============================================================================
@@ -95,6 +99,8 @@ export interface WellnessSession {
   audio_id?: string;
   created_at: string;
   updated_at: string;
+  /** When the server received the row; achievements count from it */
+  recorded_at?: string;
 }
 
 // ============================================================================
@@ -123,6 +129,29 @@ export interface Achievement {
   updated_at: string;
 }
 
+/**
+ * Unlock condition stored in achievement_definitions.criteria and evaluated
+ * by evaluate_achievements() in the schema, which documents each type
+ */
+export interface AchievementCriteria {
+  type:
+    | 'count'
+    | 'streak'
+    | 'unique_moods'
+    | 'unique_types'
+    | 'total_duration'
+    | 'lifetime_points'
+    | 'level'
+    | 'achievements'
+    | (string & {});
+  target?: number;
+  source?: 'mood' | 'wellness' | 'journal';
+  session_type?: WellnessSession['type'];
+  /** Local time of day, HH:MM */
+  after?: string;
+  before?: string;
+}
+
 export interface AchievementDefinition {
   id: string;
   achievement_id?: string;
@@ -135,6 +164,22 @@ export interface AchievementDefinition {
   max_progress: number;
   category: string;
   requirement: string;
+  criteria?: AchievementCriteria;
+}
+
+/** A row of achievement_definitions */
+export interface AchievementDefinitionRow {
+  id: string;
+  achievement_id: string;
+  name: string;
+  description: string;
+  category: string;
+  icon: string;
+  tier: AchievementDefinition['tier'];
+  points_reward: number;
+  criteria: AchievementCriteria;
+  is_active: boolean;
+  created_at: string;
 }
 
 // ============================================================================
@@ -192,10 +237,25 @@ export interface Streak {
   milestone_30: boolean;
   milestone_60: boolean;
   milestone_100: boolean;
+  freezes_available?: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface StreakHistoryEntry {
+  id: string;
+  user_id: string;
+  streak_type: Streak['streak_type'];
+  kind: 'started' | 'frozen' | 'reset' | 'freeze_purchased';
+  /** Local day in the user's timezone */
+  day: string;
+  count: number;
+  previous_count: number;
+  missed_days: number;
+  freezes_used: number;
+  created_at: string;
+}
+
 // ============================================================================
 // Gamification Points Table
 // ============================================================================
@@ -266,6 +326,10 @@ export interface UserProfile {
       daily_goal_meditation_minutes: number;
       reminder_times?: string[];
     };
+    streaks?: {
+      /** Hours after midnight that still count for the previous day */
+      grace_hours: number;
+    };
   };
   stats?: {
     total_mood_entries: number;
@@ -311,10 +375,13 @@ export interface JournalEntry {
   weather?: string;
   location?: string;
   related_mood_entry?: string;
+  key_version?: number | null;
   created_at: string;
   updated_at: string;
   entry_date: string;
   entry_time: string;
+  /** When the server received the row; achievements count from it */
+  recorded_at?: string;
 }
 
 // ============================================================================// ML/AI Data Tables
@@ -325,6 +392,8 @@ export interface MLModelState {
   user_id: string;
   model_type: 'mood_prediction' | 'pattern_detection' | 'recommendation' | 'sentiment';
   version: string;
+  /** Serialized network parameters */
+  weights?: Record<string, unknown>;
   weights_hash?: string;
   accuracy_score?: number;
   hyperparameters?: Record<string, unknown>;
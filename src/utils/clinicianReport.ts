@@ -0,0 +1,451 @@
+// ============================================================================
+// Clinician Report for MoodMash
+// Summarizes a date range of moods, sleep and wellness sessions into a
+// standalone printable document. Built and printed in the browser; nothing
+// about the report is sent to a server.
+// ============================================================================
+
+import { MoodEntry, MoodEmotion, MOOD_EMOTIONS } from '../contexts/MoodContext';
+import { analyzePatterns } from './patternAnalysis';
+import type { MoodPattern } from './patternAnalysis';
+import type { JournalEntry, WellnessSession } from '../types/database';
+import type { SleepSession } from '../types/advanced';
+
+// ============================================================================
+// Clinician Report Types
+// ============================================================================
+
+export interface ReportRange {
+  /** First day, inclusive */
+  start: Date;
+  /** Last day, inclusive */
+  end: Date;
+}
+
+export interface ReportOptions {
+  range: ReportRange;
+  /** Leave out everything the user wrote: mood notes, journal excerpts and pattern evidence quoting them */
+  redactNotes: boolean;
+  /** Journal entries the user picked to share; ignored when redacting */
+  journalExcerptIds: string[];
+  preparedFor?: string;
+}
+
+export interface ReportSources {
+  entries: MoodEntry[];
+  sleep?: SleepSession[];
+  sessions?: WellnessSession[];
+  journals?: JournalEntry[];
+}
+
+export interface DailyMoodPoint {
+  /** YYYY-MM-DD, local time */
+  date: string;
+  averageIntensity: number;
+  count: number;
+}
+
+export interface EmotionShare {
+  emotion: MoodEmotion;
+  label: string;
+  emoji: string;
+  color: string;
+  count: number;
+  percent: number;
+}
+
+export interface SleepSummary {
+  nights: number;
+  averageMinutes: number;
+  shortestMinutes: number;
+  longestMinutes: number;
+  averageScore: number | null;
+}
+
+export interface WellnessSummary {
+  sessions: number;
+  totalMinutes: number;
+  byType: { type: WellnessSession['type']; count: number; minutes: number }[];
+  /** Mean of mood_after - mood_before where both were recorded */
+  averageMoodChange: number | null;
+}
+
+export interface ReportNote {
+  date: Date;
+  emotion: MoodEmotion;
+  intensity: number;
+  text: string;
+}
+
+export interface JournalExcerpt {
+  id: string;
+  date: string;
+  title?: string;
+  text: string;
+}
+
+export interface ClinicianReport {
+  generatedAt: Date;
+  range: ReportRange;
+  preparedFor?: string;
+  redacted: boolean;
+  entryCount: number;
+  averageIntensity: number | null;
+  daily: DailyMoodPoint[];
+  distribution: EmotionShare[];
+  patterns: MoodPattern[];
+  sleep: SleepSummary | null;
+  wellness: WellnessSummary | null;
+  /** Notes and excerpts are empty when redacted */
+  notes: ReportNote[];
+  excerpts: JournalExcerpt[];
+}
+
+const MAX_REPORT_NOTES = 30;
+const MAX_EXCERPT_LENGTH = 600;
+
+// ============================================================================
+// Building
+// ============================================================================
+
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function rangeBounds(range: ReportRange): { from: number; to: number } {
+  const from = new Date(range.start);
+  from.setHours(0, 0, 0, 0);
+  const to = new Date(range.end);
+  to.setHours(23, 59, 59, 999);
+  return { from: from.getTime(), to: to.getTime() };
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const average = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null);
+
+function summarizeDaily(entries: MoodEntry[]): DailyMoodPoint[] {
+  const days = new Map<string, number[]>();
+  entries.forEach((entry) => {
+    const key = toDateKey(new Date(entry.createdAt));
+    days.set(key, [...(days.get(key) ?? []), entry.intensity]);
+  });
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, intensities]) => ({ date, averageIntensity: round1(average(intensities) ?? 0), count: intensities.length }));
+}
+
+function summarizeDistribution(entries: MoodEntry[]): EmotionShare[] {
+  return MOOD_EMOTIONS
+    .map((mood) => {
+      const count = entries.filter((entry) => entry.emotion === mood.key).length;
+      return {
+        emotion: mood.key,
+        label: mood.label,
+        emoji: mood.emoji,
+        color: mood.color,
+        count,
+        percent: entries.length > 0 ? Math.round((count / entries.length) * 100) : 0,
+      };
+    })
+    .filter((share) => share.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+function summarizeSleep(sleep: SleepSession[]): SleepSummary | null {
+  if (sleep.length === 0) return null;
+
+  const minutes = sleep.map((night) => night.duration_minutes);
+  const scores = sleep.map((night) => night.sleep_score).filter((score): score is number => typeof score === 'number');
+  const averageScore = average(scores);
+
+  return {
+    nights: sleep.length,
+    averageMinutes: Math.round(average(minutes) ?? 0),
+    shortestMinutes: Math.min(...minutes),
+    longestMinutes: Math.max(...minutes),
+    averageScore: averageScore === null ? null : Math.round(averageScore),
+  };
+}
+
+function summarizeWellness(sessions: WellnessSession[]): WellnessSummary | null {
+  if (sessions.length === 0) return null;
+
+  const byType = new Map<WellnessSession['type'], { count: number; minutes: number }>();
+  sessions.forEach((session) => {
+    const current = byType.get(session.type) ?? { count: 0, minutes: 0 };
+    byType.set(session.type, { count: current.count + 1, minutes: current.minutes + session.duration_minutes });
+  });
+
+  const changes = sessions
+    .filter((session) => typeof session.mood_before === 'number' && typeof session.mood_after === 'number')
+    .map((session) => (session.mood_after as number) - (session.mood_before as number));
+  const averageMoodChange = average(changes);
+
+  return {
+    sessions: sessions.length,
+    totalMinutes: sessions.reduce((sum, session) => sum + session.duration_minutes, 0),
+    byType: Array.from(byType.entries())
+      .map(([type, totals]) => ({ type, ...totals }))
+      .sort((a, b) => b.minutes - a.minutes),
+    averageMoodChange: averageMoodChange === null ? null : round1(averageMoodChange),
+  };
+}
+
+function excerpt(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_EXCERPT_LENGTH ? `${trimmed.slice(0, MAX_EXCERPT_LENGTH).trimEnd()}…` : trimmed;
+}
+
+/**
+ * Everything the report shows for the chosen range. Works entirely on data
+ * already in the browser.
+ */
+export function buildClinicianReport(
+  sources: ReportSources,
+  options: ReportOptions,
+  now: Date = new Date()
+): ClinicianReport {
+  const { from, to } = rangeBounds(options.range);
+  const inRange = (time: number) => time >= from && time <= to;
+
+  const entries = sources.entries
+    .filter((entry) => inRange(new Date(entry.createdAt).getTime()))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  // Keyword patterns quote what was written, so redacted reports analyse without notes
+  const analysed = options.redactNotes ? entries.map((entry) => ({ ...entry, note: undefined })) : entries;
+
+  const startKey = toDateKey(new Date(from));
+  const endKey = toDateKey(new Date(to));
+  const sleep = (sources.sleep ?? []).filter((night) => night.date >= startKey && night.date <= endKey);
+  const sessions = (sources.sessions ?? []).filter((session) => inRange(new Date(session.completed_at).getTime()));
+  const selected = new Set(options.redactNotes ? [] : options.journalExcerptIds);
+
+  return {
+    generatedAt: now,
+    range: options.range,
+    preparedFor: options.preparedFor?.trim() || undefined,
+    redacted: options.redactNotes,
+    entryCount: entries.length,
+    averageIntensity: entries.length > 0 ? round1(average(entries.map((entry) => entry.intensity)) ?? 0) : null,
+    daily: summarizeDaily(entries),
+    distribution: summarizeDistribution(entries),
+    patterns: entries.length > 0 ? analyzePatterns(analysed).filter((pattern) => pattern.confidence > 0) : [],
+    sleep: summarizeSleep(sleep),
+    wellness: summarizeWellness(sessions),
+    notes: options.redactNotes
+      ? []
+      : entries
+        .filter((entry) => entry.note?.trim())
+        .slice(-MAX_REPORT_NOTES)
+        .map((entry) => ({ date: new Date(entry.createdAt), emotion: entry.emotion, intensity: entry.intensity, text: entry.note!.trim() })),
+    excerpts: (sources.journals ?? [])
+      .filter((journal) => selected.has(journal.id) && journal.entry_date >= startKey && journal.entry_date <= endKey)
+      .sort((a, b) => a.entry_date.localeCompare(b.entry_date))
+      .map((journal) => ({ id: journal.id, date: journal.entry_date, title: journal.title, text: excerpt(journal.content) })),
+  };
+}
+
+// ============================================================================
+// Charts
+// ============================================================================
+
+export function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const shortDate = (key: string) =>
+  new Date(`${key}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+/**
+ * Average intensity per day on a 0-10 scale, like the MoodTimeline chart
+ */
+export function trendChartSVG(daily: DailyMoodPoint[], width = 640, height = 200): string {
+  const pad = { top: 12, right: 16, bottom: 28, left: 28 };
+  const plotWidth = width - pad.left - pad.right;
+  const plotHeight = height - pad.top - pad.bottom;
+  const x = (index: number) => pad.left + (daily.length === 1 ? plotWidth / 2 : (index / (daily.length - 1)) * plotWidth);
+  const y = (value: number) => pad.top + plotHeight - (value / 10) * plotHeight;
+
+  const grid = [0, 5, 10]
+    .map((value) => `<line x1="${pad.left}" x2="${width - pad.right}" y1="${y(value)}" y2="${y(value)}" stroke="#e2e8f0"/>`
+      + `<text x="${pad.left - 6}" y="${y(value) + 4}" font-size="10" text-anchor="end" fill="#64748b">${value}</text>`)
+    .join('');
+  const points = daily.map((point, index) => `${x(index).toFixed(1)},${y(point.averageIntensity).toFixed(1)}`).join(' ');
+  const dots = daily
+    .map((point, index) => `<circle cx="${x(index).toFixed(1)}" cy="${y(point.averageIntensity).toFixed(1)}" r="3" fill="#8B5CF6"/>`)
+    .join('');
+  const labelIndexes = Array.from(new Set([0, Math.floor((daily.length - 1) / 2), daily.length - 1])).filter((i) => i >= 0);
+  const labels = labelIndexes
+    .map((index) => `<text x="${x(index).toFixed(1)}" y="${height - 8}" font-size="10" text-anchor="middle" fill="#64748b">${escapeHTML(shortDate(daily[index].date))}</text>`)
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="Average mood intensity per day">`
+    + grid
+    + (daily.length > 1 ? `<polyline points="${points}" fill="none" stroke="#8B5CF6" stroke-width="2"/>` : '')
+    + dots
+    + labels
+    + '</svg>';
+}
+
+export function distributionChartSVG(distribution: EmotionShare[], width = 640): string {
+  const rowHeight = 22;
+  const labelWidth = 130;
+  const barWidth = width - labelWidth - 60;
+  const max = Math.max(1, ...distribution.map((share) => share.count));
+  const height = distribution.length * rowHeight;
+
+  const rows = distribution
+    .map((share, index) => {
+      const top = index * rowHeight;
+      const length = Math.max(2, (share.count / max) * barWidth);
+      return `<text x="0" y="${top + 15}" font-size="12" fill="#334155">${escapeHTML(`${share.emoji} ${share.label}`)}</text>`
+        + `<rect x="${labelWidth}" y="${top + 4}" width="${length.toFixed(1)}" height="14" rx="3" fill="${escapeHTML(share.color)}"/>`
+        + `<text x="${(labelWidth + length + 6).toFixed(1)}" y="${top + 15}" font-size="11" fill="#64748b">${share.count} (${share.percent}%)</text>`;
+    })
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="Emotion distribution">${rows}</svg>`;
+}
+
+// ============================================================================
+// Document
+// ============================================================================
+
+const formatDay = (date: Date) => date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+const formatMinutes = (minutes: number) => `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+const labelFor = (emotion: MoodEmotion) => MOOD_EMOTIONS.find((mood) => mood.key === emotion)?.label ?? emotion;
+
+const REPORT_STYLES = `
+  @page { margin: 18mm; }
+  body { font-family: -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; color: #0f172a; font-size: 12px; line-height: 1.5; margin: 0; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  h2 { font-size: 14px; margin: 24px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #e2e8f0; }
+  .meta { color: #475569; margin: 0; }
+  .stats { display: flex; gap: 24px; margin-top: 12px; }
+  .stat strong { display: block; font-size: 18px; }
+  .muted { color: #64748b; }
+  section { page-break-inside: avoid; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+  .pattern { margin-bottom: 10px; }
+  .excerpt { margin: 0 0 12px; padding-left: 10px; border-left: 3px solid #c4b5fd; white-space: pre-wrap; }
+  footer { margin-top: 32px; font-size: 10px; color: #94a3b8; }
+`;
+
+/**
+ * A standalone printable document: no scripts, no external assets
+ */
+export function renderReportHTML(report: ClinicianReport): string {
+  const sections: string[] = [];
+
+  sections.push(`<section><h2>Mood Trend</h2>${report.daily.length > 0
+    ? trendChartSVG(report.daily)
+    : '<p class="muted">No mood entries in this period.</p>'}</section>`);
+
+  if (report.distribution.length > 0) {
+    sections.push(`<section><h2>Emotion Distribution</h2>${distributionChartSVG(report.distribution)}</section>`);
+  }
+
+  if (report.patterns.length > 0) {
+    sections.push(`<section><h2>Detected Patterns</h2>${report.patterns.map((pattern) => `
+      <div class="pattern">
+        <strong>${escapeHTML(pattern.title)}</strong> <span class="muted">(${Math.round(pattern.confidence * 100)}% confidence)</span>
+        <div>${escapeHTML(pattern.description)}</div>
+        ${pattern.evidence.length > 0 ? `<div class="muted">${pattern.evidence.map(escapeHTML).join('; ')}</div>` : ''}
+      </div>`).join('')}</section>`);
+  }
+
+  if (report.sleep) {
+    const sleep = report.sleep;
+    sections.push(`<section><h2>Sleep</h2><table>
+      <tr><th>Nights recorded</th><td>${sleep.nights}</td></tr>
+      <tr><th>Average duration</th><td>${formatMinutes(sleep.averageMinutes)}</td></tr>
+      <tr><th>Shortest / longest</th><td>${formatMinutes(sleep.shortestMinutes)} / ${formatMinutes(sleep.longestMinutes)}</td></tr>
+      ${sleep.averageScore !== null ? `<tr><th>Average sleep score</th><td>${sleep.averageScore}</td></tr>` : ''}
+    </table></section>`);
+  }
+
+  if (report.wellness) {
+    const wellness = report.wellness;
+    sections.push(`<section><h2>Wellness Sessions</h2>
+      <p>${wellness.sessions} sessions, ${formatMinutes(wellness.totalMinutes)} in total${wellness.averageMoodChange !== null
+        ? `; mood changed by ${wellness.averageMoodChange > 0 ? '+' : ''}${wellness.averageMoodChange} on average after a session`
+        : ''}.</p>
+      <table><tr><th>Type</th><th>Sessions</th><th>Time</th></tr>
+      ${wellness.byType.map((row) => `<tr><td>${escapeHTML(row.type)}</td><td>${row.count}</td><td>${formatMinutes(row.minutes)}</td></tr>`).join('')}
+      </table></section>`);
+  }
+
+  if (report.redacted) {
+    sections.push('<section><h2>Notes</h2><p class="muted">Notes were redacted from this report.</p></section>');
+  } else if (report.notes.length > 0) {
+    sections.push(`<section><h2>Notes</h2><table><tr><th>Date</th><th>Mood</th><th>Note</th></tr>
+      ${report.notes.map((note) => `<tr><td>${escapeHTML(formatDay(note.date))}</td><td>${escapeHTML(labelFor(note.emotion))} (${note.intensity}/10)</td><td>${escapeHTML(note.text)}</td></tr>`).join('')}
+      </table></section>`);
+  }
+
+  if (report.excerpts.length > 0) {
+    sections.push(`<section><h2>Journal Excerpts</h2>${report.excerpts.map((item) => `
+      <p class="muted">${escapeHTML(formatDay(new Date(`${item.date}T12:00:00`)))}${item.title ? ` · ${escapeHTML(item.title)}` : ''}</p>
+      <blockquote class="excerpt">${escapeHTML(item.text)}</blockquote>`).join('')}</section>`);
+  }
+
+  const title = `MoodMash Report: ${formatDay(report.range.start)} to ${formatDay(report.range.end)}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>MoodMash Mood Report</h1>
+  <p class="meta">${escapeHTML(formatDay(report.range.start))} to ${escapeHTML(formatDay(report.range.end))}${report.preparedFor ? ` · Prepared for ${escapeHTML(report.preparedFor)}` : ''}</p>
+  <div class="stats">
+    <div class="stat"><strong>${report.entryCount}</strong>mood entries</div>
+    <div class="stat"><strong>${report.averageIntensity ?? '–'}</strong>average intensity (1-10)</div>
+    <div class="stat"><strong>${report.distribution[0] ? escapeHTML(report.distribution[0].label) : '–'}</strong>most frequent mood</div>
+  </div>
+</header>
+${sections.join('\n')}
+<footer>Self-reported data generated by MoodMash on ${escapeHTML(report.generatedAt.toLocaleString('en-US'))}. Not a diagnosis.</footer>
+</body>
+</html>`;
+}
+
+/**
+ * Open the print dialog for `html` without leaving the page; the browser's
+ * "Save as PDF" destination produces the PDF
+ */
+export function printReport(html: string): void {
+  const frame = document.createElement('iframe');
+  frame.setAttribute('aria-hidden', 'true');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    document.body.removeChild(frame);
+    throw new Error('Printing is not available in this browser');
+  }
+
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.addEventListener('afterprint', () => frame.remove());
+  frameWindow.focus();
+  frameWindow.print();
+}
@@ -0,0 +1,461 @@
+// ============================================================================
+// Mood Import for MoodMash
+// Parses our own exports (entry JSON, entry CSV, full account archives) and
+// other mood trackers' CSV exports into entries we can store, mapping foreign
+// mood labels onto our emotions. Pure: the caller does the inserting.
+// ============================================================================
+
+import { MOOD_EMOTIONS } from '../contexts/MoodContext';
+import type { MoodEmotion, MoodEntry, MoodIntensity, PrivacyLevel } from '../contexts/MoodContext';
+import type { CreateJournalEntryData } from '../services/journalService';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ImportFormat = 'moodmash_json' | 'moodmash_archive' | 'moodmash_csv' | 'daylio_csv' | 'generic_csv';
+
+export type ImportedMood = Omit<MoodEntry, 'id' | 'updatedAt'>;
+
+export interface ImportIssue {
+  /** 1-based record number in the file (CSV rows exclude the header) */
+  row: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  /** Records found in the file, valid or not */
+  total: number;
+  /** New, valid entries in file order */
+  moods: ImportedMood[];
+  journals: CreateJournalEntryData[];
+  /** Valid entries skipped because they already exist or repeat in the file */
+  duplicates: number;
+  issues: ImportIssue[];
+}
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  moodmash_json: 'MoodMash JSON export',
+  moodmash_archive: 'MoodMash account archive',
+  moodmash_csv: 'MoodMash CSV export',
+  daylio_csv: 'Daylio export',
+  generic_csv: 'Mood tracker CSV',
+};
+
+interface MoodMatch {
+  emotion: MoodEmotion;
+  /** Implied by labels that encode strength, such as Daylio's five moods */
+  intensity?: MoodIntensity;
+}
+
+type RowResult = { mood: ImportedMood; warnings: string[] } | { error: string };
+
+const PRIVACY_LEVELS: PrivacyLevel[] = ['global', 'friends', 'private'];
+const DEFAULT_INTENSITY: MoodIntensity = 5;
+
+// ============================================================================
+// Mood Labels
+// ============================================================================
+
+const MOOD_SYNONYMS: Record<string, MoodMatch> = {
+  // Daylio's default scale
+  rad: { emotion: 'excited', intensity: 9 },
+  good: { emotion: 'happy', intensity: 7 },
+  meh: { emotion: 'calm', intensity: 5 },
+  bad: { emotion: 'sad', intensity: 4 },
+  awful: { emotion: 'sad', intensity: 2 },
+
+  great: { emotion: 'happy', intensity: 8 },
+  okay: { emotion: 'calm', intensity: 5 },
+  ok: { emotion: 'calm', intensity: 5 },
+  fine: { emotion: 'calm', intensity: 5 },
+  neutral: { emotion: 'calm', intensity: 5 },
+  terrible: { emotion: 'sad', intensity: 2 },
+  joyful: { emotion: 'happy' },
+  content: { emotion: 'happy' },
+  cheerful: { emotion: 'happy' },
+  down: { emotion: 'sad' },
+  unhappy: { emotion: 'sad' },
+  depressed: { emotion: 'sad' },
+  blue: { emotion: 'sad' },
+  upset: { emotion: 'sad' },
+  mad: { emotion: 'angry' },
+  furious: { emotion: 'angry' },
+  annoyed: { emotion: 'frustrated' },
+  irritated: { emotion: 'frustrated' },
+  worried: { emotion: 'anxious' },
+  nervous: { emotion: 'anxious' },
+  scared: { emotion: 'anxious' },
+  afraid: { emotion: 'anxious' },
+  relaxed: { emotion: 'calm' },
+  chill: { emotion: 'calm' },
+  serene: { emotion: 'peaceful' },
+  energetic: { emotion: 'excited' },
+  thrilled: { emotion: 'excited' },
+  exhausted: { emotion: 'tired' },
+  sleepy: { emotion: 'tired' },
+  drained: { emotion: 'tired' },
+  thankful: { emotion: 'grateful' },
+  tense: { emotion: 'stressed' },
+  pressured: { emotion: 'stressed' },
+  alone: { emotion: 'lonely' },
+  isolated: { emotion: 'lonely' },
+  proud: { emotion: 'confident' },
+  optimistic: { emotion: 'hopeful' },
+  swamped: { emotion: 'overwhelmed' },
+};
+
+/**
+ * Our emotion for a label from any source: our own keys, labels and emoji,
+ * then common synonyms. Null when nothing fits.
+ */
+export function mapMoodLabel(label: string): MoodMatch | null {
+  const normalized = label.trim().toLowerCase();
+  if (!normalized) return null;
+
+  const own = MOOD_EMOTIONS.find(
+    (mood) => mood.key === normalized || mood.label.toLowerCase() === normalized || mood.emoji === label.trim()
+  );
+  if (own) return { emotion: own.key };
+
+  return MOOD_SYNONYMS[normalized] ?? null;
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * RFC 4180 rows: quoted fields may hold commas, doubled quotes and newlines
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+const findColumn = (headers: string[], names: string[]): number =>
+  headers.findIndex((header) => names.includes(header));
+
+// ============================================================================
+// Field Parsing
+// ============================================================================
+
+/**
+ * A date with an optional time of day. Accepts ISO timestamps, YYYY-MM-DD
+ * with 24-hour or am/pm times, and anything else Date can read.
+ */
+export function parseDateTime(date: string, time = ''): Date | null {
+  const day = date.trim();
+  const clock = time.trim();
+  if (!day) return null;
+
+  const isoDay = day.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (isoDay) {
+    const parts = clock.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([ap]\.?m\.?)?$/i);
+    if (clock && !parts) return null;
+
+    let hours = parts ? Number(parts[1]) : 12;
+    const meridiem = parts?.[4]?.toLowerCase().replace(/\./g, '');
+    if (meridiem === 'pm' && hours < 12) hours += 12;
+    if (meridiem === 'am' && hours === 12) hours = 0;
+
+    const result = new Date(
+      Number(isoDay[1]), Number(isoDay[2]) - 1, Number(isoDay[3]),
+      hours, parts ? Number(parts[2]) : 0, parts?.[3] ? Number(parts[3]) : 0
+    );
+    return Number.isNaN(result.getTime()) ? null : result;
+  }
+
+  const result = new Date(clock ? `${day} ${clock}` : day);
+  return Number.isNaN(result.getTime()) ? null : result;
+}
+
+function parseIntensity(value: unknown): MoodIntensity | null {
+  const number = typeof value === 'number' ? value : Number(String(value ?? '').trim());
+  if (String(value ?? '').trim() === '' || !Number.isFinite(number)) return null;
+
+  const rounded = Math.round(number);
+  return rounded >= 1 && rounded <= 10 ? (rounded as MoodIntensity) : null;
+}
+
+const splitList = (value: string, separator: RegExp): string[] =>
+  value.split(separator).map((item) => item.trim()).filter(Boolean);
+
+function buildMood(input: {
+  mood: string;
+  intensity?: unknown;
+  note?: string;
+  tags?: string[];
+  privacy?: string;
+  createdAt: Date | null;
+}): RowResult {
+  const match = mapMoodLabel(input.mood);
+  if (!match) return { error: input.mood.trim() ? `Unknown mood "${input.mood.trim()}"` : 'Missing mood' };
+  if (!input.createdAt) return { error: 'Missing or unreadable date' };
+
+  const warnings: string[] = [];
+  let intensity = parseIntensity(input.intensity);
+  if (intensity === null) {
+    if (input.intensity !== undefined && String(input.intensity).trim() !== '') {
+      warnings.push(`Intensity "${input.intensity}" is not between 1 and 10`);
+    }
+    intensity = match.intensity ?? DEFAULT_INTENSITY;
+  }
+
+  const privacy = PRIVACY_LEVELS.find((level) => level === input.privacy?.trim().toLowerCase()) ?? 'private';
+  const note = input.note?.trim();
+
+  return {
+    mood: {
+      emotion: match.emotion,
+      intensity,
+      ...(note ? { note } : {}),
+      ...(input.tags && input.tags.length > 0 ? { tags: input.tags } : {}),
+      privacy,
+      createdAt: input.createdAt,
+    },
+    warnings,
+  };
+}
+
+// ============================================================================
+// Formats
+// ============================================================================
+
+interface ParsedFile {
+  format: ImportFormat;
+  rows: RowResult[];
+  journals: CreateJournalEntryData[];
+  journalIssues: ImportIssue[];
+}
+
+function parseCSVFile(input: string): ParsedFile {
+  const [header, ...records] = parseCSV(input);
+  if (!header) throw new Error('The file is empty');
+  const headers = header.map((name) => name.trim().toLowerCase());
+  const cell = (record: string[], index: number) => (index >= 0 ? record[index] ?? '' : '');
+
+  // Daylio: full_date,date,weekday,time,mood,activities,note_title,note
+  if (headers.includes('full_date') && headers.includes('mood')) {
+    const col = {
+      date: findColumn(headers, ['full_date']),
+      time: findColumn(headers, ['time']),
+      mood: findColumn(headers, ['mood']),
+      activities: findColumn(headers, ['activities']),
+      title: findColumn(headers, ['note_title']),
+      note: findColumn(headers, ['note']),
+    };
+    return {
+      format: 'daylio_csv',
+      journals: [],
+      journalIssues: [],
+      rows: records.map((record) => buildMood({
+        mood: cell(record, col.mood),
+        note: [cell(record, col.title), cell(record, col.note)].map((part) => part.trim()).filter(Boolean).join('\n'),
+        tags: splitList(cell(record, col.activities), /\s*\|\s*/),
+        createdAt: parseDateTime(cell(record, col.date), cell(record, col.time)),
+      })),
+    };
+  }
+
+  const own = ['date', 'time', 'emotion', 'emoji', 'intensity', 'note', 'privacy', 'tags'];
+  const isOwn = own.every((name, index) => headers[index] === name);
+
+  const col = {
+    date: findColumn(headers, ['date', 'full_date', 'day', 'datetime', 'timestamp', 'created_at', 'createdat']),
+    time: findColumn(headers, ['time', 'hour']),
+    mood: findColumn(headers, ['emotion', 'mood', 'feeling']),
+    intensity: findColumn(headers, ['intensity', 'rating', 'score', 'level']),
+    note: findColumn(headers, ['note', 'notes', 'comment', 'comments', 'journal', 'description']),
+    privacy: findColumn(headers, ['privacy']),
+    tags: findColumn(headers, ['tags', 'activities']),
+  };
+  if (col.date < 0 || col.mood < 0) {
+    throw new Error('Could not find date and mood columns in this CSV');
+  }
+
+  return {
+    format: isOwn ? 'moodmash_csv' : 'generic_csv',
+    journals: [],
+    journalIssues: [],
+    rows: records.map((record) => buildMood({
+      mood: cell(record, col.mood),
+      intensity: col.intensity >= 0 ? cell(record, col.intensity) : undefined,
+      note: cell(record, col.note),
+      tags: splitList(cell(record, col.tags), /\s*[,|;]\s*/),
+      privacy: cell(record, col.privacy),
+      createdAt: parseDateTime(cell(record, col.date), cell(record, col.time)),
+    })),
+  };
+}
+
+type Row = Record<string, unknown>;
+
+const str = (value: unknown): string => (typeof value === 'string' ? value : '');
+const list = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+/**
+ * An entry from our JSON export or an archive's mood_entries table. Archive
+ * rows from the server carry entry_date/entry_time and may hold notes sealed
+ * with a key that does not travel with the file.
+ */
+function moodFromRow(row: Row): RowResult {
+  const sealed = row.key_version !== undefined && row.key_version !== null;
+  const createdAt = row.createdAt !== undefined
+    ? parseDateTime(str(row.createdAt))
+    : parseDateTime(str(row.entry_date), str(row.entry_time)) ?? parseDateTime(str(row.created_at));
+
+  const result = buildMood({
+    mood: str(row.emotion),
+    intensity: row.intensity,
+    note: sealed ? undefined : str(row.note),
+    tags: list(row.tags),
+    privacy: str(row.privacy),
+    createdAt,
+  });
+  if ('mood' in result && sealed && row.note) {
+    result.warnings.push('The note is encrypted and was left out');
+  }
+  return result;
+}
+
+function parseJSONFile(input: string): ParsedFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(input);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (Array.isArray(data)) {
+    return {
+      format: 'moodmash_json',
+      rows: data.map((row) => (row && typeof row === 'object' ? moodFromRow(row as Row) : { error: 'Not an entry' })),
+      journals: [],
+      journalIssues: [],
+    };
+  }
+
+  const archive = data as { format?: unknown; tables?: Record<string, unknown> } | null;
+  if (archive?.format !== 'moodmash-data-export' || !archive.tables) {
+    throw new Error('This JSON file is not a MoodMash export');
+  }
+
+  const rows = (name: string): Row[] => (Array.isArray(archive.tables?.[name]) ? archive.tables[name] as Row[] : []);
+  const journals: CreateJournalEntryData[] = [];
+  const journalIssues: ImportIssue[] = [];
+
+  rows('journal_entries').forEach((row, index) => {
+    const content = str(row.content).trim();
+    if (row.key_version !== undefined && row.key_version !== null) {
+      journalIssues.push({ row: index + 1, severity: 'warning', message: 'Journal entry is encrypted and was skipped' });
+    } else if (!content) {
+      journalIssues.push({ row: index + 1, severity: 'error', message: 'Journal entry has no content' });
+    } else {
+      journals.push({
+        title: str(row.title) || undefined,
+        content,
+        mood_intensity: typeof row.mood_intensity === 'number' ? row.mood_intensity : undefined,
+        tags: list(row.tags),
+        entry_date: str(row.entry_date) || undefined,
+        entry_time: str(row.entry_time) || undefined,
+      });
+    }
+  });
+
+  return { format: 'moodmash_archive', rows: rows('mood_entries').map(moodFromRow), journals, journalIssues };
+}
+
+// ============================================================================
+// Preview
+// ============================================================================
+
+/**
+ * Entries count as the same when emotion, minute and note match
+ */
+export function moodImportKey(mood: Pick<MoodEntry, 'emotion' | 'createdAt' | 'note'>): string {
+  const minute = Math.floor(new Date(mood.createdAt).getTime() / 60000);
+  return `${mood.emotion}|${minute}|${mood.note?.trim() ?? ''}`;
+}
+
+/**
+ * Parse a file and sort its records into new entries, duplicates of
+ * `existing` (or of earlier records) and problems. Throws when the file is
+ * not in a format we know.
+ */
+export function buildImportPreview(input: string, existing: Pick<MoodEntry, 'emotion' | 'createdAt' | 'note'>[] = []): ImportPreview {
+  const trimmed = input.trim();
+  if (!trimmed) throw new Error('The file is empty');
+
+  const parsed = trimmed.startsWith('{') || trimmed.startsWith('[') ? parseJSONFile(trimmed) : parseCSVFile(input);
+  const seen = new Set(existing.map(moodImportKey));
+  const moods: ImportedMood[] = [];
+  const issues: ImportIssue[] = [];
+  let duplicates = 0;
+
+  parsed.rows.forEach((result, index) => {
+    const row = index + 1;
+    if ('error' in result) {
+      issues.push({ row, severity: 'error', message: result.error });
+      return;
+    }
+
+    result.warnings.forEach((message) => issues.push({ row, severity: 'warning', message }));
+    const key = moodImportKey(result.mood);
+    if (seen.has(key)) {
+      duplicates++;
+      return;
+    }
+    seen.add(key);
+    moods.push(result.mood);
+  });
+
+  return {
+    format: parsed.format,
+    total: parsed.rows.length,
+    moods,
+    journals: parsed.journals,
+    duplicates,
+    issues: [...issues, ...parsed.journalIssues],
+  };
+}
@@ -0,0 +1,20 @@
+// ============================================================================
+// ML Web Worker for MoodMash
+// Hosts an MLService so training and pattern detection never block the UI
+// ============================================================================
+
+import { MLService } from '../data/mlModels';
+import { createMLRequestHandler } from './mlProtocol';
+import type { MLRequest, MLResponse } from './mlProtocol';
+
+interface WorkerScope {
+  postMessage(message: MLResponse): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<MLRequest>) => void): void;
+}
+
+const scope = self as unknown as WorkerScope;
+const handleRequest = createMLRequestHandler(new MLService(), (response) => scope.postMessage(response));
+
+scope.addEventListener('message', (event) => {
+  handleRequest(event.data);
+});
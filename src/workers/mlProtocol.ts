@@ -0,0 +1,162 @@
+// ============================================================================
+// ML Worker Protocol for MoodMash
+// Message types shared by the ML worker and its client, plus the dispatcher
+// both use to run a request against an MLService
+// ============================================================================
+
+import type {
+  MLService,
+  ModelState,
+  MoodPredictionResult,
+  PatternResult,
+  RecommendationResult,
+  SentimentResult,
+  TrainingProgress,
+} from '../data/mlModels';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface MLMoodSample {
+  emotion: string;
+  intensity: number;
+  timestamp: Date;
+}
+
+export interface MLWellnessSample {
+  type: string;
+  category: string;
+  name?: string;
+  moodBefore?: number;
+  moodAfter?: number;
+  completedAt: Date;
+}
+
+export interface MLContentCatalog {
+  meditation: Array<{ id: string; name: string; category: string; level: string }>;
+  yoga: Array<{ id: string; name: string; category: string; level: string }>;
+  music: Array<{ id: string; name: string; mood: string; genre: string }>;
+}
+
+/** Params and result for every request the worker understands */
+export interface MLRequestMap {
+  trainPredictionModel: { params: { history: MLMoodSample[]; incremental?: boolean }; result: ModelState };
+  predictMoods: { params: { history: MLMoodSample[]; daysAhead?: number; from?: Date }; result: MoodPredictionResult };
+  detectPatterns: { params: { history: MLMoodSample[]; wellness: MLWellnessSample[] }; result: PatternResult };
+  generateRecommendations: {
+    params: { history: MLMoodSample[]; wellness: MLWellnessSample[]; content: MLContentCatalog };
+    result: RecommendationResult;
+  };
+  analyzeSentiment: { params: { text: string }; result: SentimentResult };
+  getModelState: { params: Record<string, never>; result: ModelState };
+  exportPredictionModel: { params: Record<string, never>; result: string };
+  importPredictionModel: { params: { data: string }; result: ModelState };
+  resetPredictionModel: { params: Record<string, never>; result: ModelState };
+}
+
+export type MLRequestType = keyof MLRequestMap;
+export type MLParams<K extends MLRequestType> = MLRequestMap[K]['params'];
+export type MLResult<K extends MLRequestType> = MLRequestMap[K]['result'];
+
+export type MLRequest =
+  | { [K in MLRequestType]: { id: number; type: K; params: MLParams<K> } }[MLRequestType]
+  | { id: number; type: 'cancel' };
+
+export type MLResponse =
+  | { id: number; kind: 'progress'; progress: TrainingProgress }
+  | { id: number; kind: 'result'; result: unknown }
+  | { id: number; kind: 'error'; error: { name: string; message: string } };
+
+export interface MLRequestContext {
+  onProgress?: (progress: TrainingProgress) => void;
+  signal?: AbortSignal;
+}
+
+// ============================================================================
+// Dispatcher
+// ============================================================================
+
+type Handlers = {
+  [K in MLRequestType]: (service: MLService, params: MLParams<K>, context: MLRequestContext) => MLResult<K> | Promise<MLResult<K>>;
+};
+
+const handlers: Handlers = {
+  trainPredictionModel: (service, { history, incremental }, context) =>
+    service.trainPredictionModel(history, { incremental, ...context }),
+  predictMoods: (service, { history, daysAhead, from }) => service.predictMoods(history, daysAhead, from),
+  detectPatterns: (service, { history, wellness }) => service.detectPatterns(history, wellness),
+  generateRecommendations: (service, { history, wellness, content }) =>
+    service.generateRecommendations(
+      history,
+      wellness.map((w) => ({ ...w, name: w.name ?? '' })),
+      content.meditation,
+      content.yoga,
+      content.music
+    ),
+  analyzeSentiment: (service, { text }) => service.analyzeSentiment(text),
+  getModelState: (service) => service.getModelState(),
+  exportPredictionModel: (service) => service.getPredictionModel().exportModel(),
+  importPredictionModel: (service, { data }) => {
+    service.getPredictionModel().importModel(data);
+    return service.getModelState();
+  },
+  resetPredictionModel: (service) => {
+    service.getPredictionModel().reset();
+    return service.getModelState();
+  },
+};
+
+/**
+ * Run one request against an MLService. Used inside the worker and by the
+ * client's in-process fallback, so both behave identically.
+ */
+export async function handleMLRequest<K extends MLRequestType>(
+  service: MLService,
+  type: K,
+  params: MLParams<K>,
+  context: MLRequestContext = {}
+): Promise<MLResult<K>> {
+  const handler = handlers[type] as Handlers[K];
+  if (!handler) {
+    throw new Error(`Unknown ML request: ${type}`);
+  }
+  return handler(service, params, context);
+}
+
+/**
+ * Message loop for the worker side: runs requests, streams progress and
+ * honours cancel messages for requests still in flight.
+ */
+export function createMLRequestHandler(
+  service: MLService,
+  post: (response: MLResponse) => void
+): (request: MLRequest) => Promise<void> {
+  const inFlight = new Map<number, AbortController>();
+
+  return async (request) => {
+    if (request.type === 'cancel') {
+      inFlight.get(request.id)?.abort();
+      return;
+    }
+
+    const controller = new AbortController();
+    inFlight.set(request.id, controller);
+
+    try {
+      const result = await handleMLRequest(service, request.type, request.params as never, {
+        signal: controller.signal,
+        onProgress: (progress) => post({ id: request.id, kind: 'progress', progress }),
+      });
+      post({ id: request.id, kind: 'result', result });
+    } catch (error) {
+      post({
+        id: request.id,
+        kind: 'error',
+        error: { name: error?.name ?? 'Error', message: error?.message ?? String(error) },
+      });
+    } finally {
+      inFlight.delete(request.id);
+    }
+  };
+}
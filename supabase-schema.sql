@@ -6,6 +6,9 @@
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- digest() for hashing two-factor backup codes
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
 -- ============================================================================
 -- User Profiles Table
 -- ============================================================================
@@ -32,7 +35,7 @@ CREATE TABLE IF NOT EXISTS mood_entries (
     mood_id TEXT NOT NULL,
     mood_label TEXT NOT NULL,
     intensity INTEGER CHECK (intensity >= 1 AND intensity <= 10),
-    note TEXT,
+    note TEXT, -- client-side encrypted envelope
     activities TEXT[],
     tags TEXT[],
     context JSONB DEFAULT '{}',
@@ -40,9 +43,12 @@ CREATE TABLE IF NOT EXISTS mood_entries (
     ai_insights TEXT[],
     location JSONB,
     weather JSONB,
+    privacy TEXT DEFAULT 'private' CHECK (privacy IN ('global', 'friends', 'private')),
+    key_version INTEGER,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
-    entry_date DATE DEFAULT CURRENT_DATE
+    entry_date DATE DEFAULT CURRENT_DATE,
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW() -- set by set_recorded_at()
 );
 
 CREATE INDEX IF NOT EXISTS idx_mood_entries_user_id ON mood_entries(user_id);
@@ -65,7 +71,8 @@ CREATE TABLE IF NOT EXISTS wellness_sessions (
     settings JSONB DEFAULT '{}',
     notes TEXT,
     ai_recommendation BOOLEAN DEFAULT FALSE,
-    created_at TIMESTAMPTZ DEFAULT NOW()
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW() -- set by set_recorded_at()
 );
 
 CREATE INDEX IF NOT EXISTS idx_wellness_sessions_user_id ON wellness_sessions(user_id);
@@ -131,6 +138,8 @@ CREATE TABLE IF NOT EXISTS streaks (
     milestone_30 BOOLEAN DEFAULT FALSE,
     milestone_60 BOOLEAN DEFAULT FALSE,
     milestone_100 BOOLEAN DEFAULT FALSE,
+    -- Bought with points; each covers one missed day
+    freezes_available INTEGER DEFAULT 0 CHECK (freezes_available >= 0),
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
     UNIQUE(user_id, streak_type)
@@ -146,7 +155,7 @@ CREATE TABLE IF NOT EXISTS points_transactions (
     user_id UUID NOT NULL,
     amount INTEGER NOT NULL,
     transaction_type TEXT NOT NULL CHECK (transaction_type IN ('earn', 'spend', 'bonus', 'adjustment', 'referral')),
-    source_type TEXT NOT NULL CHECK (source_type IN ('mood', 'wellness', 'achievement', 'challenge', 'streak', 'referral', 'manual', 'bonus')),
+    source_type TEXT NOT NULL CHECK (source_type IN ('mood', 'journal', 'wellness', 'achievement', 'challenge', 'streak', 'referral', 'manual', 'bonus')),
     source_id TEXT,
     description TEXT,
     balance_after INTEGER,
@@ -155,6 +164,9 @@ CREATE TABLE IF NOT EXISTS points_transactions (
 
 CREATE INDEX IF NOT EXISTS idx_points_transactions_user_id ON points_transactions(user_id);
 CREATE INDEX IF NOT EXISTS idx_points_transactions_created_at ON points_transactions(created_at);
+-- One award per source, e.g. per unlocked achievement
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_transactions_source
+    ON points_transactions(user_id, source_type, source_id) WHERE source_id IS NOT NULL;
 
 -- ============================================================================
 -- User Points Table
@@ -178,7 +190,7 @@ CREATE TABLE IF NOT EXISTS journal_entries (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     user_id UUID NOT NULL,
     title TEXT,
-    content TEXT NOT NULL,
+    content TEXT NOT NULL, -- client-side encrypted envelope
     mood_id TEXT,
     sentiment_score DECIMAL(4,3),
     sentiment_label TEXT CHECK (sentiment_label IN ('positive', 'neutral', 'negative')),
@@ -186,9 +198,11 @@ CREATE TABLE IF NOT EXISTS journal_entries (
     is_ai_generated BOOLEAN DEFAULT FALSE,
     ai_summary TEXT,
     ai_suggestions TEXT[],
+    key_version INTEGER,
     created_at TIMESTAMPTZ DEFAULT NOW(),
     updated_at TIMESTAMPTZ DEFAULT NOW(),
-    entry_date DATE DEFAULT CURRENT_DATE
+    entry_date DATE DEFAULT CURRENT_DATE,
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW() -- set by set_recorded_at()
 );
 
 CREATE INDEX IF NOT EXISTS idx_journal_entries_user_id ON journal_entries(user_id);
@@ -224,6 +238,7 @@ CREATE TABLE IF NOT EXISTS ml_model_states (
     user_id UUID NOT NULL,
     model_type TEXT NOT NULL CHECK (model_type IN ('mood_prediction', 'pattern_detection', 'recommendation', 'sentiment')),
     version TEXT NOT NULL,
+    weights JSONB,
     weights_hash TEXT,
     accuracy_score DECIMAL(5,4),
     last_trained_at TIMESTAMPTZ,
@@ -235,6 +250,7 @@ CREATE TABLE IF NOT EXISTS ml_model_states (
 
 CREATE INDEX IF NOT EXISTS idx_ml_model_states_user_id ON ml_model_states(user_id);
 CREATE INDEX IF NOT EXISTS idx_ml_model_states_model_type ON ml_model_states(model_type);
+CREATE INDEX IF NOT EXISTS idx_ml_model_states_active ON ml_model_states(user_id, model_type) WHERE is_active;
 
 -- ============================================================================
 -- Mood Predictions Table
@@ -321,6 +337,269 @@ CREATE TABLE IF NOT EXISTS weekly_reports (
 CREATE INDEX IF NOT EXISTS idx_weekly_reports_user_id ON weekly_reports(user_id);
 CREATE INDEX IF NOT EXISTS idx_weekly_reports_week_start ON weekly_reports(week_start_date);
 
+-- ============================================================================
+-- Chat Conversations Table (title and context are encrypted client-side)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS chat_conversations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    title TEXT NOT NULL DEFAULT 'New conversation',
+    context JSONB DEFAULT '{}',
+    key_version INTEGER,
+    message_count INTEGER DEFAULT 0,
+    last_message_at TIMESTAMPTZ DEFAULT NOW(),
+    is_archived BOOLEAN DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_user_id ON chat_conversations(user_id);
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_last_message_at ON chat_conversations(last_message_at);
+
+-- ============================================================================
+-- Chat Messages Table (content is encrypted client-side)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS chat_messages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    conversation_id UUID NOT NULL REFERENCES chat_conversations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+    content TEXT NOT NULL,
+    key_version INTEGER,
+    intent TEXT,
+    entities JSONB,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation_id ON chat_messages(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_created_at ON chat_messages(created_at);
+
+-- ============================================================================
+-- Two-Factor Tables (hashed backup codes; the authenticator itself is a
+-- Supabase Auth MFA factor, so its secret never sits in a public table)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS user_two_factor (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    backup_code_hashes TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Sessions that passed the second step with a backup code. Supabase Auth
+-- only raises a session to aal2 for a verified factor, so these are recorded
+-- here instead and go away with the session.
+CREATE TABLE IF NOT EXISTS two_factor_sessions (
+    session_id UUID PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    verified_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- Passkey Table (WebAuthn credentials, one row per authenticator)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS user_passkeys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    credential_id TEXT NOT NULL UNIQUE,
+    public_key TEXT NOT NULL,
+    algorithm INTEGER NOT NULL,
+    sign_count BIGINT NOT NULL DEFAULT 0,
+    transports TEXT[] NOT NULL DEFAULT '{}',
+    nickname TEXT NOT NULL,
+    aaguid TEXT,
+    backed_up BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_passkeys_user_id ON user_passkeys(user_id);
+
+-- ============================================================================
+-- Passkey Challenges (issued and consumed by the passkey Edge Functions)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS passkey_challenges (
+    challenge TEXT PRIMARY KEY,
+    purpose TEXT NOT NULL CHECK (purpose IN ('registration', 'sign_in')),
+    -- Set for registration; sign-in does not know the user yet
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_passkey_challenges_expires_at ON passkey_challenges(expires_at);
+
+-- ============================================================================
+-- Device Session Table (one row per Supabase auth session / refresh token)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS user_sessions (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    device_id TEXT NOT NULL,
+    device_type TEXT NOT NULL DEFAULT 'desktop',
+    browser TEXT NOT NULL,
+    os TEXT NOT NULL,
+    user_agent TEXT,
+    location TEXT,
+    time_zone TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_activity_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+
+-- ============================================================================
+-- Login Attempts Table (failed password sign-ins per account, kept by the
+-- password verification hook; browsers only keep a per-device hint)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS login_attempts (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- Failure times inside the failure window, oldest first
+    failures TIMESTAMPTZ[] NOT NULL DEFAULT '{}',
+    locked_until TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- ============================================================================
+-- Data Subject Requests Table (GDPR/CCPA rights requests and their deadlines)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS data_subject_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    type TEXT NOT NULL CHECK (type IN ('access', 'rectification', 'erasure', 'portability', 'restriction', 'objection')),
+    framework TEXT NOT NULL CHECK (framework IN ('gdpr', 'ccpa')),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'rejected', 'cancelled')),
+    reason TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    due_at TIMESTAMPTZ NOT NULL,
+    completed_at TIMESTAMPTZ,
+    result JSONB
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_user_id ON data_subject_requests(user_id);
+CREATE INDEX IF NOT EXISTS idx_data_subject_requests_due ON data_subject_requests(status, due_at);
+
+-- ============================================================================
+-- Consent Ledger Table (append-only grants and withdrawals per policy version)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS consent_ledger (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    consent_type TEXT NOT NULL CHECK (consent_type IN ('essential', 'analytics', 'marketing', 'personalization', 'third_party', 'opt_out')),
+    granted BOOLEAN NOT NULL,
+    policy_version TEXT NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('cookie_banner', 'privacy_settings')),
+    recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_consent_ledger_user_id ON consent_ledger(user_id, recorded_at);
+
+-- ============================================================================
+-- Data Transfer Log Table (every outbound data flow and its policy outcome)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS data_transfer_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    flow TEXT NOT NULL CHECK (flow IN ('ai_insights', 'ai_chat', 'ai_journal', 'wearable_sync')),
+    destination TEXT NOT NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN ('allowed', 'redacted', 'blocked')),
+    record_count INTEGER NOT NULL DEFAULT 0,
+    redacted_fields TEXT[] NOT NULL DEFAULT '{}',
+    missing_consents TEXT[] NOT NULL DEFAULT '{}',
+    transferred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_transfer_log_user_id ON data_transfer_log(user_id, transferred_at DESC);
+
+-- ============================================================================
+-- Friendships Table (one row per pair; user_id sent the request)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS friendships (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    friend_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'blocked')),
+    blocked_by UUID,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    responded_at TIMESTAMPTZ,
+    CHECK (user_id <> friend_id),
+    CHECK ((status = 'blocked') = (blocked_by IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_friendships_pair ON friendships(LEAST(user_id, friend_id), GREATEST(user_id, friend_id));
+CREATE INDEX IF NOT EXISTS idx_friendships_friend_id ON friendships(friend_id);
+
+-- ============================================================================
+-- Friend Invites Table (email invitations and share links)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS friend_invites (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    token TEXT NOT NULL UNIQUE,
+    email TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    expires_at TIMESTAMPTZ NOT NULL,
+    accepted_by UUID,
+    accepted_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_friend_invites_user_id ON friend_invites(user_id);
+
+-- ============================================================================
+-- Streak History Table (why a streak started, was frozen or reset)
+-- Days are local days in the user's timezone, with the grace window applied
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS streak_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    streak_type TEXT NOT NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('started', 'frozen', 'reset', 'freeze_purchased')),
+    day DATE NOT NULL,
+    count INTEGER NOT NULL,
+    previous_count INTEGER NOT NULL DEFAULT 0,
+    missed_days INTEGER NOT NULL DEFAULT 0,
+    freezes_used INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_streak_history_user_id ON streak_history(user_id, streak_type, created_at DESC);
+
+-- ============================================================================
+-- Data Erasure Audit Table (row counts only; outlives the erased account)
+-- ============================================================================
+CREATE TABLE IF NOT EXISTS data_erasure_audit (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL,
+    request_id UUID REFERENCES data_subject_requests(id) ON DELETE SET NULL,
+    tables JSONB NOT NULL,
+    total_rows INTEGER NOT NULL,
+    erased_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_data_erasure_audit_user_id ON data_erasure_audit(user_id);
+
+-- ============================================================================
+-- Friendship Checks (used by the RLS policies below)
+-- ============================================================================
+
+-- Whether the caller and `other` are accepted friends
+CREATE OR REPLACE FUNCTION are_friends(other UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM friendships
+        WHERE status = 'accepted'
+          AND ((user_id = auth.uid() AND friend_id = other) OR (friend_id = auth.uid() AND user_id = other))
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION shares_achievements(owner UUID)
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE((
+        SELECT (preferences -> 'privacy' ->> 'share_achievements')::BOOLEAN
+        FROM user_profiles WHERE user_id = owner
+    ), TRUE);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
 -- ============================================================================
 -- Row Level Security (RLS) Policies
 -- ============================================================================
@@ -341,6 +620,21 @@ ALTER TABLE mood_predictions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE pattern_insights ENABLE ROW LEVEL SECURITY;
 ALTER TABLE daily_analytics ENABLE ROW LEVEL SECURITY;
 ALTER TABLE weekly_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_two_factor ENABLE ROW LEVEL SECURITY;
+ALTER TABLE two_factor_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_passkeys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE passkey_challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE login_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_subject_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_erasure_audit ENABLE ROW LEVEL SECURITY;
+ALTER TABLE consent_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_transfer_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE friendships ENABLE ROW LEVEL SECURITY;
+ALTER TABLE friend_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE streak_history ENABLE ROW LEVEL SECURITY;
 
 -- Create policies for user-owned data
 CREATE POLICY "Users can view their own profile" ON user_profiles
@@ -376,15 +670,10 @@ CREATE POLICY "Users can delete own wellness sessions" ON wellness_sessions
     FOR DELETE USING (auth.uid() = user_id);
 
 -- Achievements policies
+-- Read-only for users: evaluate_achievements() is the only writer
 CREATE POLICY "Users can view own achievements" ON achievements
     FOR SELECT USING (auth.uid() = user_id);
 
-CREATE POLICY "Users can insert own achievements" ON achievements
-    FOR INSERT WITH CHECK (auth.uid() = user_id);
-
-CREATE POLICY "Users can update own achievements" ON achievements
-    FOR UPDATE USING (auth.uid() = user_id);
-
 -- Challenges policies
 CREATE POLICY "Users can view own challenges" ON challenges
     FOR SELECT USING (auth.uid() = user_id);
@@ -395,30 +684,22 @@ CREATE POLICY "Users can insert own challenges" ON challenges
 CREATE POLICY "Users can update own challenges" ON challenges
     FOR UPDATE USING (auth.uid() = user_id);
 
--- Streaks policies
+-- Streaks and streak history policies: read-only for clients. Activity and
+-- purchases are recorded by record_streak_activity() and purchase_streak_freeze()
 CREATE POLICY "Users can view own streaks" ON streaks
     FOR SELECT USING (auth.uid() = user_id);
 
-CREATE POLICY "Users can insert own streaks" ON streaks
-    FOR INSERT WITH CHECK (auth.uid() = user_id);
-
-CREATE POLICY "Users can update own streaks" ON streaks
-    FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can view own streak history" ON streak_history
+    FOR SELECT USING (auth.uid() = user_id);
 
--- Points transactions policies
+-- Points policies: read-only for clients. Awards, imports and purchases are
+-- written by earn_points(), import_local_progress() and purchase_streak_freeze()
 CREATE POLICY "Users can view own points transactions" ON points_transactions
     FOR SELECT USING (auth.uid() = user_id);
 
-CREATE POLICY "Users can insert own points transactions" ON points_transactions
-    FOR INSERT WITH CHECK (auth.uid() = user_id);
-
--- User points policies
 CREATE POLICY "Users can view own points" ON user_points
     FOR SELECT USING (auth.uid() = user_id);
 
-CREATE POLICY "Users can update own points" ON user_points
-    FOR UPDATE USING (auth.uid() = user_id);
-
 -- Journal entries policies
 CREATE POLICY "Users can view own journal entries" ON journal_entries
     FOR SELECT USING (auth.uid() = user_id);
@@ -489,6 +770,99 @@ CREATE POLICY "Users can insert own weekly reports" ON weekly_reports
 CREATE POLICY "Users can update own weekly reports" ON weekly_reports
     FOR UPDATE USING (auth.uid() = user_id);
 
+-- Chat conversations policies
+CREATE POLICY "Users can view own chat conversations" ON chat_conversations
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own chat conversations" ON chat_conversations
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own chat conversations" ON chat_conversations
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own chat conversations" ON chat_conversations
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Chat messages policies
+CREATE POLICY "Users can view own chat messages" ON chat_messages
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own chat messages" ON chat_messages
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own chat messages" ON chat_messages
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Two-factor tables have no client policies: backup code hashes and
+-- verified sessions are only read and written by the two-factor functions
+
+-- Passkey policies (credentials are verified and inserted, and their counters
+-- moved, by the passkey Edge Functions; clients only rename through
+-- rename_passkey). passkey_challenges has no client policies.
+CREATE POLICY "Users can view own passkeys" ON user_passkeys
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own passkeys" ON user_passkeys
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- login_attempts has no client policies: only the password verification
+-- hook reads and writes it
+
+-- Device session policies (writes go through record_user_session and the
+-- revoke functions, so clients cannot un-revoke or rewrite a session)
+CREATE POLICY "Users can view own sessions" ON user_sessions
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Data request policies
+CREATE POLICY "Users can view own data requests" ON data_subject_requests
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- A request is filed pending; cancelling and completing it go through
+-- cancel_data_request, complete_data_export and erase_user_data
+CREATE POLICY "Users can insert own data requests" ON data_subject_requests
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id AND status = 'pending' AND completed_at IS NULL AND result IS NULL
+    );
+
+CREATE POLICY "Users can view own erasure audit" ON data_erasure_audit
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Consent ledger policies (no update or delete: entries are append-only)
+CREATE POLICY "Users can view own consent ledger" ON consent_ledger
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can append to own consent ledger" ON consent_ledger
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Data transfer log policies (append-only, like the consent ledger)
+CREATE POLICY "Users can view own data transfers" ON data_transfer_log
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can log own data transfers" ON data_transfer_log
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Friendship policies. Requests, responses and blocks go through the
+-- functions below so neither side can rewrite the other's half of a row; a
+-- blocked user cannot see the block.
+CREATE POLICY "Users can view own friendships" ON friendships
+    FOR SELECT USING (auth.uid() IN (user_id, friend_id) AND (status <> 'blocked' OR blocked_by = auth.uid()));
+
+CREATE POLICY "Users can remove own friendships" ON friendships
+    FOR DELETE USING (auth.uid() IN (user_id, friend_id) AND (status <> 'blocked' OR blocked_by = auth.uid()));
+
+CREATE POLICY "Users can view own friend invites" ON friend_invites
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own friend invites" ON friend_invites
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Friends see the achievements of owners who left
+-- preferences.privacy.share_achievements on. Shared moods are served by
+-- get_friend_moods(), which returns only the mood itself and never the note,
+-- activities, location or other columns.
+CREATE POLICY "Friends can view shared achievements" ON achievements
+    FOR SELECT USING (are_friends(user_id) AND shares_achievements(user_id));
+
 -- ============================================================================
 -- Triggers for updated_at
 -- ============================================================================
@@ -549,17 +923,87 @@ CREATE TRIGGER update_weekly_reports_updated_at
     BEFORE UPDATE ON weekly_reports
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_user_two_factor_updated_at
+    BEFORE UPDATE ON user_two_factor
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- created_at and completed_at are the client's, so synced and imported
+-- history keeps its dates. recorded_at is when the server received the row
+-- and is what achievements count, so backdated rows cannot build a streak.
+CREATE OR REPLACE FUNCTION set_recorded_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.recorded_at = NOW();
+    ELSE
+        NEW.recorded_at = OLD.recorded_at;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_mood_entries_recorded_at
+    BEFORE INSERT OR UPDATE ON mood_entries
+    FOR EACH ROW EXECUTE FUNCTION set_recorded_at();
+
+CREATE TRIGGER set_wellness_sessions_recorded_at
+    BEFORE INSERT OR UPDATE ON wellness_sessions
+    FOR EACH ROW EXECUTE FUNCTION set_recorded_at();
+
+CREATE TRIGGER set_journal_entries_recorded_at
+    BEFORE INSERT OR UPDATE ON journal_entries
+    FOR EACH ROW EXECUTE FUNCTION set_recorded_at();
+
+-- The statutory deadline runs from when the server receives the request
+-- (kept in step with REQUEST_DEADLINE_DAYS in dataRights.ts)
+CREATE OR REPLACE FUNCTION set_data_request_deadline()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.created_at = NOW();
+    NEW.due_at = NOW() + CASE NEW.framework WHEN 'ccpa' THEN INTERVAL '45 days' ELSE INTERVAL '30 days' END;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_data_subject_requests_deadline
+    BEFORE INSERT ON data_subject_requests
+    FOR EACH ROW EXECUTE FUNCTION set_data_request_deadline();
+
 -- ============================================================================
 -- Database Functions
 -- ============================================================================
 
--- Function to calculate user level based on lifetime points
+-- Function to calculate user level based on lifetime points. Level n takes
+-- FLOOR(100 * n^1.5) points to clear, the curve the app shows
+-- (getXPForLevel in GamificationContext).
 CREATE OR REPLACE FUNCTION calculate_user_level(lifetime_points INTEGER)
 RETURNS INTEGER AS $$
+DECLARE
+    lvl INTEGER := 1;
+    remaining INTEGER := GREATEST(lifetime_points, 0);
 BEGIN
-    RETURN FLOOR(lifetime_points / 100) + 1;
+    WHILE remaining >= FLOOR(100 * POWER(lvl, 1.5)) LOOP
+        remaining := remaining - FLOOR(100 * POWER(lvl, 1.5));
+        lvl := lvl + 1;
+    END LOOP;
+    RETURN lvl;
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Points still needed to clear the current level
+CREATE OR REPLACE FUNCTION calculate_points_to_next_level(lifetime_points INTEGER)
+RETURNS INTEGER AS $$
+DECLARE
+    lvl INTEGER := 1;
+    remaining INTEGER := GREATEST(lifetime_points, 0);
+BEGIN
+    WHILE remaining >= FLOOR(100 * POWER(lvl, 1.5)) LOOP
+        remaining := remaining - FLOOR(100 * POWER(lvl, 1.5));
+        lvl := lvl + 1;
+    END LOOP;
+    RETURN FLOOR(100 * POWER(lvl, 1.5)) - remaining;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
 
 -- Function to get streak status
 CREATE OR REPLACE FUNCTION get_streak_status(user_uuid UUID, streak_type TEXT)
@@ -596,7 +1040,7 @@ DECLARE
     new_balance INTEGER;
     new_lifetime INTEGER;
     new_level INTEGER;
-    points_in_current_level INTEGER;
+    new_points_to_next INTEGER;
 BEGIN
     -- Get current points
     SELECT total_points, lifetime_points INTO new_balance, new_lifetime
@@ -612,17 +1056,17 @@ BEGIN
     -- Calculate new values
     new_balance := new_balance + point_amount;
     new_lifetime := new_lifetime + point_amount;
-    new_level := FLOOR(new_lifetime / 100) + 1;
-    points_in_current_level := new_lifetime % 100;
+    new_level := calculate_user_level(new_lifetime);
+    new_points_to_next := calculate_points_to_next_level(new_lifetime);
 
     -- Update user points
     INSERT INTO user_points (user_id, total_points, lifetime_points, level, points_to_next_level, updated_at)
-    VALUES (user_uuid, new_balance, new_lifetime, new_level, 100 - points_in_current_level, NOW())
+    VALUES (user_uuid, new_balance, new_lifetime, new_level, new_points_to_next, NOW())
     ON CONFLICT (user_id) DO UPDATE SET
         total_points = new_balance,
         lifetime_points = new_lifetime,
         level = new_level,
-        points_to_next_level = 100 - points_in_current_level,
+        points_to_next_level = new_points_to_next,
         updated_at = NOW();
 
     -- Record transaction
@@ -633,6 +1077,1040 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Award the caller points for something they did in the app and return
+-- their updated totals. The client names the action; the price comes from
+-- the list below and the action must be the caller's own:
+--   mood       a mood_entries row                          10
+--   journal    a journal_entries row                       15
+--   wellness   a wellness_sessions row          2 per minute, up to 60 minutes
+--   challenge  a completed challenges row      its definition's points_reward,
+--                                              once per challenge per period
+-- Streak milestones are paid by record_streak_activity(). Each action is paid once, and at most 20 entries, journals or sessions are
+-- paid a day, so rows inserted only to be paid for soon stop paying.
+CREATE OR REPLACE FUNCTION earn_points(
+    source_type TEXT,
+    source_id TEXT
+) RETURNS user_points AS $$
+DECLARE
+    uid UUID := auth.uid();
+    daily_limit CONSTANT INTEGER := 20;
+    amount INTEGER;
+    label TEXT;
+    minutes INTEGER;
+    definition challenge_definitions;
+    totals user_points;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+    IF earn_points.source_id IS NULL OR earn_points.source_id = '' THEN
+        RAISE EXCEPTION 'An award needs the action it pays for';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM points_transactions t
+        WHERE t.user_id = uid AND t.source_type = earn_points.source_type AND t.source_id = earn_points.source_id
+    ) THEN
+        SELECT * INTO totals FROM user_points WHERE user_id = uid;
+        RETURN totals;
+    END IF;
+
+    CASE earn_points.source_type
+        WHEN 'mood' THEN
+            PERFORM 1 FROM mood_entries e WHERE e.id::TEXT = earn_points.source_id AND e.user_id = uid;
+            amount := 10;
+            label := 'Mood logged';
+        WHEN 'journal' THEN
+            PERFORM 1 FROM journal_entries e WHERE e.id::TEXT = earn_points.source_id AND e.user_id = uid;
+            amount := 15;
+            label := 'Journal entry written';
+        WHEN 'wellness' THEN
+            SELECT s.duration_minutes, COALESCE(s.name, 'Wellness session') INTO minutes, label
+            FROM wellness_sessions s WHERE s.id::TEXT = earn_points.source_id AND s.user_id = uid;
+            amount := 2 * LEAST(GREATEST(COALESCE(minutes, 0), 0), 60);
+        WHEN 'challenge' THEN
+            SELECT d.* INTO definition
+            FROM challenges c JOIN challenge_definitions d ON d.challenge_id = c.challenge_id
+            WHERE c.id::TEXT = earn_points.source_id AND c.user_id = uid AND c.status = 'completed';
+            -- Starting the same challenge again within its period pays nothing
+            IF FOUND AND NOT EXISTS (
+                SELECT 1 FROM points_transactions t JOIN challenges c ON c.id::TEXT = t.source_id
+                WHERE t.user_id = uid AND t.source_type = 'challenge'
+                  AND c.challenge_id = definition.challenge_id
+                  AND t.created_at > NOW() - make_interval(days => COALESCE(definition.duration_days, 7))
+            ) THEN
+                amount := definition.points_reward;
+                label := 'Completed challenge: ' || definition.name;
+            END IF;
+        ELSE
+            RAISE EXCEPTION 'Points are not paid for %', earn_points.source_type;
+    END CASE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Nothing to pay for: % %', earn_points.source_type, earn_points.source_id;
+    END IF;
+
+    IF COALESCE(amount, 0) > 0 AND (
+        earn_points.source_type = 'challenge'
+        OR (
+            SELECT COUNT(*) FROM points_transactions t
+            WHERE t.user_id = uid AND t.source_type = earn_points.source_type
+              AND t.created_at > NOW() - INTERVAL '1 day'
+        ) < daily_limit
+    ) THEN
+        PERFORM award_points(uid, amount, 'earn', earn_points.source_type, earn_points.source_id, label);
+        -- Points and level conditions may now be met
+        PERFORM evaluate_achievements(uid);
+    END IF;
+
+    SELECT * INTO totals FROM user_points WHERE user_id = uid;
+    RETURN totals;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Carry progress made on this device before signing in over to the
+-- account. Only runs for an account with no points history, so it happens
+-- once and never stacks on top of progress already on the server.
+-- Achievements are not carried over; the evaluator awards whatever the
+-- account's own history earns. The device's figures are the client's word,
+-- so they are capped. Returns whether anything was imported.
+CREATE OR REPLACE FUNCTION import_local_progress(
+    experience INTEGER,
+    longest_streak INTEGER
+) RETURNS BOOLEAN AS $$
+DECLARE
+    uid UUID := auth.uid();
+    max_experience CONSTANT INTEGER := 5000;
+    max_streak CONSTANT INTEGER := 365;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM points_transactions WHERE user_id = uid) THEN
+        RETURN FALSE;
+    END IF;
+
+    experience := LEAST(experience, max_experience);
+    longest_streak := LEAST(longest_streak, max_streak);
+
+    IF experience > 0 THEN
+        PERFORM award_points(uid, experience, 'adjustment', 'manual', 'local_import', 'Progress carried over from this device');
+    END IF;
+
+    IF longest_streak > 0 THEN
+        INSERT INTO streaks (user_id, streak_type, longest_count)
+        VALUES (uid, 'mood', longest_streak)
+        ON CONFLICT (user_id, streak_type) DO UPDATE
+        SET longest_count = GREATEST(streaks.longest_count, EXCLUDED.longest_count);
+    END IF;
+
+    PERFORM evaluate_achievements(uid);
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Buy a streak freeze with points. The price comes off the spendable balance
+-- only: lifetime points, and so level and leaderboard score, are unchanged.
+-- A user holds at most two freezes. Returns the updated streak.
+CREATE OR REPLACE FUNCTION purchase_streak_freeze(streak_type TEXT DEFAULT 'mood')
+RETURNS streaks AS $$
+#variable_conflict use_column
+DECLARE
+    uid UUID := auth.uid();
+    price CONSTANT INTEGER := 200;
+    max_freezes CONSTANT INTEGER := 2;
+    balance INTEGER;
+    streak streaks;
+    tz TEXT;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+
+    SELECT p.timezone INTO tz FROM user_profiles p WHERE p.user_id = uid;
+    IF tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz) THEN
+        tz := 'UTC';
+    END IF;
+
+    SELECT total_points INTO balance FROM user_points WHERE user_id = uid FOR UPDATE;
+    IF COALESCE(balance, 0) < price THEN
+        RAISE EXCEPTION 'A streak freeze costs % points', price;
+    END IF;
+
+    INSERT INTO streaks (user_id, streak_type)
+    VALUES (uid, purchase_streak_freeze.streak_type)
+    ON CONFLICT (user_id, streak_type) DO NOTHING;
+
+    SELECT * INTO streak FROM streaks
+    WHERE user_id = uid AND streak_type = purchase_streak_freeze.streak_type
+    FOR UPDATE;
+
+    IF COALESCE(streak.freezes_available, 0) >= max_freezes THEN
+        RAISE EXCEPTION 'You already hold % streak freezes', max_freezes;
+    END IF;
+
+    UPDATE user_points SET total_points = total_points - price, updated_at = NOW() WHERE user_id = uid;
+
+    INSERT INTO points_transactions (user_id, amount, transaction_type, source_type, description, balance_after)
+    VALUES (uid, -price, 'spend', 'streak', 'Streak freeze', balance - price);
+
+    UPDATE streaks
+    SET freezes_available = COALESCE(freezes_available, 0) + 1, updated_at = NOW()
+    WHERE id = streak.id
+    RETURNING * INTO streak;
+
+    INSERT INTO streak_history (user_id, streak_type, kind, day, count, previous_count)
+    VALUES (
+        uid, streak.streak_type, 'freeze_purchased', (NOW() AT TIME ZONE tz)::DATE,
+        COALESCE(streak.current_count, 0), COALESCE(streak.current_count, 0)
+    );
+
+    RETURN streak;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Count activity now towards the caller's streak and return it. The day is
+-- today in the profile's timezone, or yesterday within the grace window
+-- (preferences.streaks.grace_hours, 0 to 6) after midnight, as in
+-- src/lib/streaks. A missed stretch is covered by the freezes held or the
+-- streak resets; starts, freezes used and resets go to streak_history.
+-- Milestones pay 25, 50, 100, 200 and 500 points at 7, 14, 30, 60 and 100
+-- days, once each.
+CREATE OR REPLACE FUNCTION record_streak_activity(streak_type TEXT DEFAULT 'mood')
+RETURNS streaks AS $$
+#variable_conflict use_column
+DECLARE
+    uid UUID := auth.uid();
+    tz TEXT;
+    grace_hours INTEGER;
+    today DATE;
+    missed INTEGER;
+    streak streaks;
+    count_before INTEGER;
+    milestone RECORD;
+    paid BOOLEAN := FALSE;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+
+    SELECT p.timezone,
+           CASE WHEN jsonb_typeof(p.preferences -> 'streaks' -> 'grace_hours') = 'number'
+                THEN ROUND((p.preferences -> 'streaks' ->> 'grace_hours')::NUMERIC)::INTEGER END
+    INTO tz, grace_hours
+    FROM user_profiles p WHERE p.user_id = uid;
+    IF tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz) THEN
+        tz := 'UTC';
+    END IF;
+    grace_hours := LEAST(GREATEST(COALESCE(grace_hours, 0), 0), 6);
+    today := ((NOW() AT TIME ZONE tz) - make_interval(hours => grace_hours))::DATE;
+
+    INSERT INTO streaks (user_id, streak_type)
+    VALUES (uid, record_streak_activity.streak_type)
+    ON CONFLICT (user_id, streak_type) DO NOTHING;
+
+    SELECT * INTO streak FROM streaks
+    WHERE user_id = uid AND streak_type = record_streak_activity.streak_type
+    FOR UPDATE;
+
+    count_before := COALESCE(streak.current_count, 0);
+
+    IF streak.last_activity_date IS NULL THEN
+        streak.current_count := 1;
+        streak.started_at := NOW();
+        INSERT INTO streak_history (user_id, streak_type, kind, day, count, previous_count)
+        VALUES (uid, streak.streak_type, 'started', today, 1, 0);
+    ELSE
+        -- Already counted for today
+        IF today <= streak.last_activity_date THEN
+            RETURN streak;
+        END IF;
+
+        missed := today - streak.last_activity_date - 1;
+        IF missed = 0 THEN
+            streak.current_count := count_before + 1;
+        ELSIF missed <= COALESCE(streak.freezes_available, 0) THEN
+            streak.freezes_available := streak.freezes_available - missed;
+            streak.current_count := count_before + 1;
+            INSERT INTO streak_history (user_id, streak_type, kind, day, count, previous_count, missed_days, freezes_used)
+            VALUES (uid, streak.streak_type, 'frozen', today, count_before + 1, count_before, missed, missed);
+        ELSE
+            streak.current_count := 1;
+            streak.started_at := NOW();
+            INSERT INTO streak_history (user_id, streak_type, kind, day, count, previous_count, missed_days)
+            VALUES (uid, streak.streak_type, 'reset', today, 1, count_before, missed);
+        END IF;
+    END IF;
+
+    UPDATE streaks
+    SET current_count = streak.current_count,
+        longest_count = GREATEST(COALESCE(longest_count, 0), streak.current_count),
+        last_activity_date = today,
+        started_at = streak.started_at,
+        freezes_available = streak.freezes_available,
+        milestone_7 = milestone_7 OR streak.current_count >= 7,
+        milestone_14 = milestone_14 OR streak.current_count >= 14,
+        milestone_30 = milestone_30 OR streak.current_count >= 30,
+        milestone_60 = milestone_60 OR streak.current_count >= 60,
+        milestone_100 = milestone_100 OR streak.current_count >= 100,
+        updated_at = NOW()
+    WHERE id = streak.id
+    RETURNING * INTO streak;
+
+    FOR milestone IN
+        SELECT * FROM (VALUES (7, 25), (14, 50), (30, 100), (60, 200), (100, 500)) AS m(days, points)
+        WHERE m.days <= streak.current_count
+    LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM points_transactions t
+            WHERE t.user_id = uid AND t.source_type = 'streak'
+              AND t.source_id = streak.streak_type || ':' || milestone.days
+        ) THEN
+            PERFORM award_points(
+                uid, milestone.points, 'bonus', 'streak', streak.streak_type || ':' || milestone.days,
+                'Streak milestone reached: ' || milestone.days || ' days'
+            );
+            paid := TRUE;
+        END IF;
+    END LOOP;
+
+    IF paid THEN
+        PERFORM evaluate_achievements(uid);
+    END IF;
+
+    RETURN streak;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- One page of a leaderboard. Scores are points earned in the period; spending
+-- points does not cost a place. The global scope lists users who set
+-- preferences.privacy.show_on_leaderboard; the friends scope lists accepted
+-- friends. Either way the caller's own row is always returned so they can see
+-- where they stand. previous_rank ranks the period before (last week, last
+-- month; for all_time, the standings at the start of this week) and is NULL
+-- for users who earned nothing then. Adjustments, such as progress carried
+-- over from before sign-in, are not scored.
+CREATE OR REPLACE FUNCTION get_leaderboard(
+    period TEXT,
+    page_offset INTEGER DEFAULT 0,
+    page_limit INTEGER DEFAULT 20,
+    scope TEXT DEFAULT 'global'
+)
+RETURNS TABLE (
+    user_id UUID,
+    display_name TEXT,
+    avatar_url TEXT,
+    score BIGINT,
+    level INTEGER,
+    streak INTEGER,
+    rank BIGINT,
+    previous_rank BIGINT,
+    total_count BIGINT,
+    on_page BOOLEAN
+) AS $$
+#variable_conflict use_column
+DECLARE
+    uid UUID := auth.uid();
+    current_start TIMESTAMPTZ;
+    previous_start TIMESTAMPTZ;
+    previous_end TIMESTAMPTZ;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    IF period = 'weekly' THEN
+        current_start := date_trunc('week', NOW());
+        previous_start := current_start - INTERVAL '1 week';
+        previous_end := current_start;
+    ELSIF period = 'monthly' THEN
+        current_start := date_trunc('month', NOW());
+        previous_start := current_start - INTERVAL '1 month';
+        previous_end := current_start;
+    ELSIF period = 'all_time' THEN
+        current_start := '-infinity';
+        previous_start := '-infinity';
+        previous_end := date_trunc('week', NOW());
+    ELSE
+        RAISE EXCEPTION 'Unknown leaderboard period: %', period;
+    END IF;
+
+    IF scope NOT IN ('global', 'friends') THEN
+        RAISE EXCEPTION 'Unknown leaderboard scope: %', scope;
+    END IF;
+
+    RETURN QUERY
+    WITH members AS (
+        SELECT p.user_id, COALESCE(p.display_name, p.username, 'MoodMash member') AS display_name, p.avatar_url
+        FROM user_profiles p
+        WHERE p.user_id = uid
+           OR (scope = 'global' AND COALESCE((p.preferences -> 'privacy' ->> 'show_on_leaderboard')::BOOLEAN, FALSE))
+           OR (scope = 'friends' AND are_friends(p.user_id))
+    ),
+    earnings AS (
+        SELECT m.user_id,
+               COALESCE(SUM(t.amount) FILTER (WHERE t.created_at >= current_start), 0) AS current_score,
+               COALESCE(SUM(t.amount) FILTER (WHERE t.created_at >= previous_start AND t.created_at < previous_end), 0) AS previous_score
+        FROM members m
+        LEFT JOIN points_transactions t ON t.user_id = m.user_id AND t.amount > 0 AND t.transaction_type <> 'adjustment'
+        GROUP BY m.user_id
+    ),
+    ranked AS (
+        SELECT e.user_id,
+               e.current_score,
+               RANK() OVER (ORDER BY e.current_score DESC) AS current_rank,
+               CASE WHEN e.previous_score > 0 THEN RANK() OVER (ORDER BY e.previous_score DESC) END AS prior_rank,
+               ROW_NUMBER() OVER (ORDER BY e.current_score DESC, e.user_id) AS position,
+               COUNT(*) OVER () AS member_count
+        FROM earnings e
+    )
+    SELECT r.user_id, m.display_name, m.avatar_url, r.current_score::BIGINT,
+           COALESCE(up.level, 1), COALESCE(s.current_count, 0),
+           r.current_rank, r.prior_rank, r.member_count,
+           r.position > page_offset AND r.position <= page_offset + page_limit
+    FROM ranked r
+    JOIN members m ON m.user_id = r.user_id
+    LEFT JOIN user_points up ON up.user_id = r.user_id
+    LEFT JOIN streaks s ON s.user_id = r.user_id AND s.streak_type = 'mood'
+    WHERE (r.position > page_offset AND r.position <= page_offset + page_limit) OR r.user_id = uid
+    ORDER BY r.position;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The caller's friendships with the other person's public name. Blocks the
+-- caller placed are listed so they can be lifted; blocks against the caller
+-- are not.
+CREATE OR REPLACE FUNCTION get_friends()
+RETURNS TABLE (
+    friendship_id UUID,
+    friend_id UUID,
+    display_name TEXT,
+    avatar_url TEXT,
+    status TEXT,
+    direction TEXT,
+    created_at TIMESTAMPTZ,
+    responded_at TIMESTAMPTZ
+) AS $$
+#variable_conflict use_column
+BEGIN
+    RETURN QUERY
+    SELECT f.id,
+           other.id,
+           COALESCE(p.display_name, p.username, 'MoodMash member'),
+           p.avatar_url,
+           f.status,
+           CASE WHEN f.user_id = auth.uid() THEN 'outgoing' ELSE 'incoming' END,
+           f.created_at,
+           f.responded_at
+    FROM friendships f
+    CROSS JOIN LATERAL (SELECT CASE WHEN f.user_id = auth.uid() THEN f.friend_id ELSE f.user_id END AS id) other
+    LEFT JOIN user_profiles p ON p.user_id = other.id
+    WHERE auth.uid() IN (f.user_id, f.friend_id)
+      AND f.status <> 'declined'
+      AND (f.status <> 'blocked' OR f.blocked_by = auth.uid())
+    ORDER BY f.created_at DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Moods that accepted friends shared ('friends' or 'global'), newest first
+CREATE OR REPLACE FUNCTION get_friend_moods(friend_ids UUID[], max_rows INTEGER DEFAULT 30)
+RETURNS TABLE (
+    id UUID,
+    user_id UUID,
+    mood_id TEXT,
+    intensity INTEGER,
+    created_at TIMESTAMPTZ
+) AS $$
+#variable_conflict use_column
+BEGIN
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+
+    RETURN QUERY
+    SELECT m.id, m.user_id, m.mood_id, m.intensity, m.created_at
+    FROM mood_entries m
+    WHERE m.user_id = ANY(friend_ids)
+      AND m.privacy IN ('friends', 'global')
+      AND are_friends(m.user_id)
+    ORDER BY m.created_at DESC
+    LIMIT LEAST(GREATEST(max_rows, 0), 100);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Ask `target` to be friends. A pending request from them is accepted
+-- instead, and a declined one can be asked again. Returns nothing either way
+-- when one side has blocked the other, so a block is never revealed. At most
+-- 20 requests a day are left pending, so the function cannot be used to spam.
+CREATE OR REPLACE FUNCTION send_friend_request(target UUID)
+RETURNS VOID AS $$
+DECLARE
+    uid UUID := auth.uid();
+    daily_limit CONSTANT INTEGER := 20;
+    existing friendships;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+    IF target = uid THEN
+        RAISE EXCEPTION 'You cannot add yourself as a friend';
+    END IF;
+    IF target IS NULL OR NOT EXISTS (SELECT 1 FROM auth.users WHERE id = target) THEN
+        RAISE EXCEPTION 'User not found';
+    END IF;
+    IF (
+        SELECT COUNT(*) FROM friendships
+        WHERE user_id = uid AND status = 'pending' AND created_at > NOW() - INTERVAL '1 day'
+    ) >= daily_limit THEN
+        RAISE EXCEPTION 'Too many friend requests today, try again tomorrow';
+    END IF;
+
+    SELECT * INTO existing FROM friendships
+    WHERE (user_id = uid AND friend_id = target) OR (user_id = target AND friend_id = uid);
+
+    IF existing.id IS NULL THEN
+        INSERT INTO friendships (user_id, friend_id) VALUES (uid, target);
+    ELSIF existing.status = 'pending' AND existing.friend_id = uid THEN
+        UPDATE friendships SET status = 'accepted', responded_at = NOW() WHERE id = existing.id;
+    ELSIF existing.status = 'declined' THEN
+        UPDATE friendships
+        SET user_id = uid, friend_id = target, status = 'pending', created_at = NOW(), responded_at = NULL
+        WHERE id = existing.id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Accept or decline a request addressed to the caller
+CREATE OR REPLACE FUNCTION respond_to_friend_request(friendship UUID, accept BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+
+    UPDATE friendships
+    SET status = CASE WHEN accept THEN 'accepted' ELSE 'declined' END, responded_at = NOW()
+    WHERE id = friendship AND friend_id = auth.uid() AND status = 'pending';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Friend request not found';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Block `target`, replacing any friendship or request between the two.
+-- Deleting the row (see the policy) lifts the block.
+CREATE OR REPLACE FUNCTION block_user(target UUID)
+RETURNS VOID AS $$
+DECLARE
+    uid UUID := auth.uid();
+BEGIN
+    IF uid IS NULL OR target = uid THEN
+        RAISE EXCEPTION 'Cannot block this user';
+    END IF;
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+
+    DELETE FROM friendships
+    WHERE ((user_id = uid AND friend_id = target) OR (user_id = target AND friend_id = uid))
+      AND NOT (status = 'blocked' AND blocked_by = target);
+
+    INSERT INTO friendships (user_id, friend_id, status, blocked_by, responded_at)
+    VALUES (uid, target, 'blocked', uid, NOW())
+    ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Redeem an invite link: the caller and the inviter become friends, unless
+-- one has blocked the other. Returns the inviter.
+CREATE OR REPLACE FUNCTION accept_friend_invite(invite_token TEXT)
+RETURNS UUID AS $$
+DECLARE
+    uid UUID := auth.uid();
+    invite friend_invites;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+
+    SELECT * INTO invite FROM friend_invites WHERE token = invite_token FOR UPDATE;
+
+    IF invite.id IS NULL OR invite.expires_at < NOW() OR invite.accepted_by IS NOT NULL THEN
+        RAISE EXCEPTION 'This invite link has expired or was already used';
+    END IF;
+    IF invite.user_id = uid THEN
+        RAISE EXCEPTION 'You cannot accept your own invite';
+    END IF;
+
+    UPDATE friend_invites SET accepted_by = uid, accepted_at = NOW() WHERE id = invite.id;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM friendships
+        WHERE ((user_id = uid AND friend_id = invite.user_id) OR (user_id = invite.user_id AND friend_id = uid))
+          AND status = 'blocked'
+    ) THEN
+        DELETE FROM friendships
+        WHERE (user_id = uid AND friend_id = invite.user_id) OR (user_id = invite.user_id AND friend_id = uid);
+
+        INSERT INTO friendships (user_id, friend_id, status, responded_at)
+        VALUES (invite.user_id, uid, 'accepted', NOW());
+    END IF;
+
+    RETURN invite.user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Supabase Auth password verification hook (enable it under Authentication >
+-- Hooks). Mirrors DEFAULT_LOGIN_POLICY in lib/loginPolicy: three free
+-- failures, then a wait doubling from 1s up to 60s, and ten failures within
+-- an hour lock the account for 15 minutes. Attempts inside a wait are
+-- refused whatever the password, and five failures within five minutes
+-- notify the account owner.
+CREATE OR REPLACE FUNCTION hook_password_verification_attempt(event JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    uid UUID := (event ->> 'user_id')::UUID;
+    locked TIMESTAMPTZ;
+    recent TIMESTAMPTZ[];
+    failure_count INTEGER;
+BEGIN
+    INSERT INTO login_attempts (user_id) VALUES (uid) ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT CASE WHEN locked_until > NOW() THEN locked_until END,
+           ARRAY(SELECT failed_at FROM unnest(failures) AS failed_at WHERE failed_at > NOW() - INTERVAL '1 hour' ORDER BY failed_at)
+    INTO locked, recent
+    FROM login_attempts
+    WHERE user_id = uid
+    FOR UPDATE;
+    failure_count := cardinality(recent);
+
+    IF locked IS NOT NULL OR (
+        failure_count > 3
+        AND recent[failure_count] + LEAST(INTERVAL '1 second' * 2 ^ (failure_count - 4), INTERVAL '60 seconds') > NOW()
+    ) THEN
+        RETURN jsonb_build_object('decision', 'reject', 'message', 'Too many failed sign-in attempts. Please try again later');
+    END IF;
+
+    IF (event ->> 'valid')::BOOLEAN THEN
+        DELETE FROM login_attempts WHERE user_id = uid;
+        RETURN jsonb_build_object('decision', 'continue');
+    END IF;
+
+    recent := recent || NOW();
+    failure_count := failure_count + 1;
+
+    UPDATE login_attempts
+    SET failures = recent,
+        locked_until = CASE WHEN failure_count >= 10 THEN NOW() + INTERVAL '15 minutes' END,
+        updated_at = NOW()
+    WHERE user_id = uid;
+
+    -- Reported once, by the failure that reaches the threshold
+    IF (SELECT count(*) FROM unnest(recent) AS failed_at WHERE failed_at > NOW() - INTERVAL '5 minutes') = 5 THEN
+        INSERT INTO notifications (user_id, type, title, message, data)
+        VALUES (
+            uid, 'system', 'Suspicious sign-in activity',
+            'There were 5 failed sign-in attempts in 5 minutes. If this was not you, change your password.',
+            jsonb_build_object('kind', 'failure_burst')
+        );
+    END IF;
+
+    -- Supabase Auth rejects the wrong password itself
+    RETURN jsonb_build_object('decision', 'continue');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only Supabase Auth may run the hook
+REVOKE EXECUTE ON FUNCTION hook_password_verification_attempt(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION hook_password_verification_attempt(JSONB) TO supabase_auth_admin;
+
+-- Record activity for the caller's current session, the one named in the
+-- access token. The device describes itself; the server sets the times, and
+-- a revoked session stays revoked.
+CREATE OR REPLACE FUNCTION record_user_session(device JSONB, expires_at TIMESTAMPTZ)
+RETURNS VOID AS $$
+DECLARE
+    uid UUID := auth.uid();
+    current_session UUID := (auth.jwt() ->> 'session_id')::UUID;
+BEGIN
+    IF uid IS NULL OR current_session IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    INSERT INTO user_sessions (id, user_id, device_id, device_type, browser, os, user_agent, location, time_zone, expires_at)
+    VALUES (
+        current_session,
+        uid,
+        LEFT(COALESCE(device ->> 'device_id', ''), 64),
+        LEFT(COALESCE(device ->> 'device_type', 'desktop'), 16),
+        LEFT(COALESCE(device ->> 'browser', 'Unknown browser'), 64),
+        LEFT(COALESCE(device ->> 'os', 'Unknown OS'), 64),
+        LEFT(device ->> 'user_agent', 512),
+        LEFT(device ->> 'location', 128),
+        LEFT(device ->> 'time_zone', 64),
+        LEAST(record_user_session.expires_at, NOW() + INTERVAL '30 days')
+    )
+    ON CONFLICT (id) DO UPDATE
+    SET device_id = EXCLUDED.device_id,
+        device_type = EXCLUDED.device_type,
+        browser = EXCLUDED.browser,
+        os = EXCLUDED.os,
+        user_agent = EXCLUDED.user_agent,
+        location = EXCLUDED.location,
+        time_zone = EXCLUDED.time_zone,
+        last_activity_at = NOW(),
+        expires_at = EXCLUDED.expires_at
+    WHERE user_sessions.user_id = uid AND user_sessions.revoked_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Revoke one of the caller's sessions. Deleting the auth.sessions row also
+-- deletes its refresh tokens, so the device cannot renew its access token.
+CREATE OR REPLACE FUNCTION revoke_user_session(target_session UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+
+    UPDATE user_sessions
+    SET revoked_at = NOW()
+    WHERE id = target_session AND user_id = auth.uid() AND revoked_at IS NULL;
+
+    DELETE FROM auth.sessions
+    WHERE id = target_session AND user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Revoke every session of the caller except the one making the request
+CREATE OR REPLACE FUNCTION revoke_other_user_sessions(current_session UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    revoked_count INTEGER;
+BEGIN
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+
+    UPDATE user_sessions
+    SET revoked_at = NOW()
+    WHERE user_id = auth.uid() AND id <> current_session AND revoked_at IS NULL;
+    GET DIAGNOSTICS revoked_count = ROW_COUNT;
+
+    DELETE FROM auth.sessions
+    WHERE user_id = auth.uid() AND id <> current_session;
+
+    RETURN revoked_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Rename one of the caller's passkeys; the nickname is its only
+-- client-writable column
+CREATE OR REPLACE FUNCTION rename_passkey(passkey UUID, new_nickname TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+    IF btrim(COALESCE(new_nickname, '')) = '' THEN
+        RAISE EXCEPTION 'Nickname is required';
+    END IF;
+
+    UPDATE user_passkeys
+    SET nickname = left(btrim(new_nickname), 64)
+    WHERE id = passkey AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Passkey not found';
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- Two-Factor Authentication
+-- Verifying the authenticator (auth.mfa.challenge/verify) raises the session
+-- to aal2. Until then a password alone reaches no user data: every user-data
+-- table carries a restrictive policy on two_factor_satisfied().
+-- ============================================================================
+
+-- Whether the caller's session passed the second factor, or the account has
+-- none. Session records stay outside the restriction so the device list can
+-- be recorded during the second step.
+CREATE OR REPLACE FUNCTION two_factor_satisfied()
+RETURNS BOOLEAN AS $$
+    SELECT COALESCE(auth.jwt() ->> 'aal', 'aal1') = 'aal2'
+        OR NOT EXISTS (
+            SELECT 1 FROM auth.mfa_factors WHERE user_id = auth.uid() AND status = 'verified'
+        )
+        OR EXISTS (
+            SELECT 1 FROM two_factor_sessions
+            WHERE user_id = auth.uid() AND session_id = (auth.jwt() ->> 'session_id')::UUID
+        );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION two_factor_backup_code_count()
+RETURNS INTEGER AS $$
+    SELECT COALESCE((SELECT cardinality(backup_code_hashes) FROM user_two_factor WHERE user_id = auth.uid()), 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Replace the caller's backup codes with these SHA-256 hashes. Only a session
+-- that just used the authenticator may, so a backup code cannot mint more.
+CREATE OR REPLACE FUNCTION set_two_factor_backup_codes(code_hashes TEXT[])
+RETURNS INTEGER AS $$
+BEGIN
+    IF auth.uid() IS NULL OR COALESCE(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' THEN
+        RAISE EXCEPTION 'Verify with your authenticator app first';
+    END IF;
+    IF cardinality(code_hashes) > 20
+        OR EXISTS (SELECT 1 FROM unnest(code_hashes) AS h WHERE h !~ '^[0-9a-f]{64}$') THEN
+        RAISE EXCEPTION 'Invalid backup code hashes';
+    END IF;
+
+    INSERT INTO user_two_factor (user_id, backup_code_hashes)
+    VALUES (auth.uid(), code_hashes)
+    ON CONFLICT (user_id) DO UPDATE SET backup_code_hashes = EXCLUDED.backup_code_hashes;
+
+    RETURN cardinality(code_hashes);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Spend one backup code (normalized like normalizeBackupCode in lib/totp).
+-- It completes the second step for this session or, with remove_factor for
+-- a lost device, removes the authenticator and every remaining code so a new
+-- one can be enrolled. Returns the codes left, or NULL for a wrong code.
+CREATE OR REPLACE FUNCTION redeem_two_factor_backup_code(code TEXT, remove_factor BOOLEAN DEFAULT FALSE)
+RETURNS INTEGER AS $$
+DECLARE
+    uid UUID := auth.uid();
+    current_session UUID := (auth.jwt() ->> 'session_id')::UUID;
+    code_hash TEXT := encode(extensions.digest(regexp_replace(upper(code), '[^A-Z0-9]', '', 'g'), 'sha256'), 'hex');
+    remaining TEXT[];
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    UPDATE user_two_factor
+    SET backup_code_hashes = array_remove(backup_code_hashes, code_hash)
+    WHERE user_id = uid AND code_hash = ANY(backup_code_hashes)
+    RETURNING backup_code_hashes INTO remaining;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF remove_factor THEN
+        DELETE FROM auth.mfa_factors WHERE user_id = uid;
+        DELETE FROM two_factor_sessions WHERE user_id = uid;
+        DELETE FROM user_two_factor WHERE user_id = uid;
+        RETURN 0;
+    END IF;
+
+    INSERT INTO two_factor_sessions (session_id, user_id)
+    VALUES (current_session, uid)
+    ON CONFLICT (session_id) DO NOTHING;
+
+    RETURN cardinality(remaining);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Drop the backup codes once the authenticator has been unenrolled
+CREATE OR REPLACE FUNCTION clear_two_factor()
+RETURNS VOID AS $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM auth.mfa_factors WHERE user_id = auth.uid() AND status = 'verified') THEN
+        RAISE EXCEPTION 'Remove the authenticator first';
+    END IF;
+
+    DELETE FROM two_factor_sessions WHERE user_id = auth.uid();
+    DELETE FROM user_two_factor WHERE user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+DECLARE
+    target TEXT;
+BEGIN
+    FOREACH target IN ARRAY ARRAY[
+        'user_profiles', 'mood_entries', 'mood_predictions', 'pattern_insights', 'daily_analytics',
+        'weekly_reports', 'ml_model_states', 'journal_entries', 'wellness_sessions', 'achievements',
+        'challenges', 'streaks', 'points_transactions', 'user_points', 'notifications',
+        'chat_messages', 'chat_conversations', 'ar_yoga_pose_detections', 'ar_yoga_sessions',
+        'ar_meditation_sessions', 'ar_mood_visualizations', 'ar_mood_journeys', 'ar_social_messages',
+        'ar_social_participants', 'ar_social_rooms', 'ar_avatars', 'ar_environment_presets',
+        'ar_session_analytics', 'user_passkeys', 'consent_ledger', 'data_transfer_log',
+        'data_subject_requests', 'friend_invites', 'friendships', 'streak_history'
+    ] LOOP
+        IF to_regclass(target) IS NOT NULL THEN
+            EXECUTE format(
+                'CREATE POLICY "Require the second factor" ON %I AS RESTRICTIVE TO authenticated '
+                'USING ((SELECT two_factor_satisfied())) WITH CHECK ((SELECT two_factor_satisfied()))',
+                target
+            );
+        END IF;
+    END LOOP;
+END;
+$$;
+
+-- Stream session changes so other devices see revocations immediately
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND tablename = 'user_sessions'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE user_sessions;
+    END IF;
+END;
+$$;
+
+-- Cancel one of the caller's requests while it is still pending
+CREATE OR REPLACE FUNCTION cancel_data_request(request UUID)
+RETURNS data_subject_requests AS $$
+DECLARE
+    uid UUID := auth.uid();
+    cancelled data_subject_requests;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    UPDATE data_subject_requests
+    SET status = 'cancelled'
+    WHERE id = request AND user_id = uid AND status = 'pending'
+    RETURNING * INTO cancelled;
+
+    IF cancelled.id IS NULL THEN
+        RAISE EXCEPTION 'Only a pending request can be cancelled';
+    END IF;
+
+    RETURN cancelled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Close an access or portability request once the caller has downloaded the
+-- export. The archive is built in the browser from rows RLS already shows
+-- the caller; only its manifest is kept.
+CREATE OR REPLACE FUNCTION complete_data_export(request UUID, manifest JSONB)
+RETURNS data_subject_requests AS $$
+DECLARE
+    uid UUID := auth.uid();
+    completed data_subject_requests;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+    IF jsonb_typeof(manifest) <> 'array' THEN
+        RAISE EXCEPTION 'Manifest must be an array';
+    END IF;
+
+    UPDATE data_subject_requests
+    SET status = 'completed', completed_at = NOW(), result = jsonb_build_object('manifest', manifest)
+    WHERE id = request AND user_id = uid
+        AND type IN ('access', 'portability') AND status IN ('pending', 'processing')
+    RETURNING * INTO completed;
+
+    IF completed.id IS NULL THEN
+        RAISE EXCEPTION 'No open export request %', request;
+    END IF;
+
+    RETURN completed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Erase every row the caller owns, record how many went from each table and
+-- close the request, all in one transaction. Children come before parents;
+-- keep the list in sync with USER_DATA_TABLES in src/services/dataRights.ts.
+-- Tables that are not installed are skipped. The auth user goes last, which
+-- also removes credentials and sessions that reference it, and friendships
+-- other people requested.
+CREATE OR REPLACE FUNCTION erase_user_data(request UUID)
+RETURNS data_erasure_audit AS $$
+DECLARE
+    uid UUID := auth.uid();
+    target RECORD;
+    affected INTEGER;
+    counts JSONB := '{}';
+    total INTEGER := 0;
+    audit data_erasure_audit;
+BEGIN
+    IF uid IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF NOT two_factor_satisfied() THEN
+        RAISE EXCEPTION 'Two-factor verification required';
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM data_subject_requests r
+        WHERE r.id = request AND r.user_id = uid AND r.type = 'erasure' AND r.status IN ('pending', 'processing')
+    ) THEN
+        RAISE EXCEPTION 'No open erasure request %', request;
+    END IF;
+
+    FOR target IN
+        SELECT * FROM (VALUES
+            ('mood_entries', 'user_id'), ('mood_predictions', 'user_id'), ('pattern_insights', 'user_id'),
+            ('daily_analytics', 'user_id'), ('weekly_reports', 'user_id'), ('ml_model_states', 'user_id'),
+            ('journal_entries', 'user_id'), ('wellness_sessions', 'user_id'), ('achievements', 'user_id'),
+            ('challenges', 'user_id'), ('streaks', 'user_id'), ('points_transactions', 'user_id'),
+            ('user_points', 'user_id'), ('notifications', 'user_id'), ('chat_messages', 'user_id'),
+            ('chat_conversations', 'user_id'), ('ar_yoga_pose_detections', 'user_id'), ('ar_yoga_sessions', 'user_id'),
+            ('ar_meditation_sessions', 'user_id'), ('ar_mood_visualizations', 'user_id'), ('ar_mood_journeys', 'user_id'),
+            ('ar_social_messages', 'user_id'), ('ar_social_participants', 'user_id'), ('ar_social_rooms', 'host_id'),
+            ('ar_avatars', 'user_id'), ('ar_environment_presets', 'user_id'), ('ar_session_analytics', 'user_id'),
+            ('user_sessions', 'user_id'), ('login_attempts', 'user_id'), ('user_passkeys', 'user_id'), ('passkey_challenges', 'user_id'),
+            ('two_factor_sessions', 'user_id'),
+            ('user_two_factor', 'user_id'), ('consent_ledger', 'user_id'), ('data_transfer_log', 'user_id'), ('friend_invites', 'user_id'),
+            ('friendships', 'user_id'), ('streak_history', 'user_id'), ('user_profiles', 'user_id')
+        ) AS t(table_name, owner_column)
+    LOOP
+        IF to_regclass(target.table_name) IS NOT NULL THEN
+            EXECUTE format('DELETE FROM %I WHERE %I = $1', target.table_name, target.owner_column) USING uid;
+            GET DIAGNOSTICS affected = ROW_COUNT;
+            counts := counts || jsonb_build_object(target.table_name, affected);
+            total := total + affected;
+        END IF;
+    END LOOP;
+
+    INSERT INTO data_erasure_audit (user_id, request_id, tables, total_rows)
+    VALUES (uid, request, counts, total)
+    RETURNING * INTO audit;
+
+    UPDATE data_subject_requests
+    SET status = 'completed', completed_at = audit.erased_at,
+        result = jsonb_build_object('tables', counts, 'total_rows', total)
+    WHERE id = request AND user_id = uid;
+
+    DELETE FROM auth.users WHERE id = uid;
+
+    RETURN audit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
 -- ============================================================================
 -- Achievement Definitions (stored as JSON for flexibility)
 -- ============================================================================
@@ -651,23 +2129,29 @@ CREATE TABLE IF NOT EXISTS achievement_definitions (
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Everyone can read the rules; only the service role can change them
+ALTER TABLE achievement_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view achievement definitions" ON achievement_definitions
+    FOR SELECT USING (TRUE);
+
 -- Insert default achievements
 INSERT INTO achievement_definitions (achievement_id, name, description, category, icon, tier, points_reward, criteria) VALUES
-('first_mood', 'First Steps', 'Log your first mood entry', 'mood', '🌱', 'bronze', 10, '{"type": "count", "target": 1}'),
-('mood_streak_7', 'Mood Master', 'Track your mood for 7 consecutive days', 'mood', '📈', 'silver', 50, '{"type": "streak", "target": 7}'),
-('mood_streak_30', 'Consistency King', 'Track your mood for 30 consecutive days', 'mood', '👑', 'gold', 200, '{"type": "streak", "target": 30}'),
-('mood_100', 'Mood Historian', 'Log 100 mood entries', 'mood', '📚', 'gold', 150, '{"type": "count", "target": 100}'),
-('first_meditation', 'Mindful Beginnings', 'Complete your first meditation session', 'wellness', '🧘', 'bronze', 10, '{"type": "count", "target": 1}'),
-('meditation_total_60', 'Zen Seeker', 'Complete 60 minutes of meditation', 'wellness', '✨', 'silver', 30, '{"type": "total_duration", "target": 60}'),
-('meditation_streak_7', 'Meditation Master', 'Meditate for 7 consecutive days', 'wellness', '🎯', 'gold', 100, '{"type": "streak", "target": 7}'),
-('first_yoga', 'Yoga Starter', 'Complete your first yoga session', 'wellness', '🧎', 'bronze', 10, '{"type": "count", "target": 1}'),
-('yoga_streak_7', 'Flexible Mind', 'Practice yoga for 7 consecutive days', 'wellness', '🌟', 'silver', 75, '{"type": "streak", "target": 7}'),
+('first_mood', 'First Steps', 'Log your first mood entry', 'mood', '🌱', 'bronze', 10, '{"type": "count", "source": "mood", "target": 1}'),
+('mood_streak_7', 'Mood Master', 'Track your mood for 7 consecutive days', 'mood', '📈', 'silver', 50, '{"type": "streak", "source": "mood", "target": 7}'),
+('mood_streak_30', 'Consistency King', 'Track your mood for 30 consecutive days', 'mood', '👑', 'gold', 200, '{"type": "streak", "source": "mood", "target": 30}'),
+('mood_100', 'Mood Historian', 'Log 100 mood entries', 'mood', '📚', 'gold', 150, '{"type": "count", "source": "mood", "target": 100}'),
+('first_meditation', 'Mindful Beginnings', 'Complete your first meditation session', 'wellness', '🧘', 'bronze', 10, '{"type": "count", "source": "wellness", "session_type": "meditation", "target": 1}'),
+('meditation_total_60', 'Zen Seeker', 'Complete 60 minutes of meditation', 'wellness', '✨', 'silver', 30, '{"type": "total_duration", "session_type": "meditation", "target": 60}'),
+('meditation_streak_7', 'Meditation Master', 'Meditate for 7 consecutive days', 'wellness', '🎯', 'gold', 100, '{"type": "streak", "source": "wellness", "session_type": "meditation", "target": 7}'),
+('first_yoga', 'Yoga Starter', 'Complete your first yoga session', 'wellness', '🧎', 'bronze', 10, '{"type": "count", "source": "wellness", "session_type": "yoga", "target": 1}'),
+('yoga_streak_7', 'Flexible Mind', 'Practice yoga for 7 consecutive days', 'wellness', '🌟', 'silver', 75, '{"type": "streak", "source": "wellness", "session_type": "yoga", "target": 7}'),
 ('wellness_total_300', 'Wellness Warrior', 'Complete 300 minutes of wellness activities', 'wellness', '💪', 'gold', 100, '{"type": "total_duration", "target": 300}'),
-('first_journal', 'Journal Journey', 'Write your first journal entry', 'journal', '📝', 'bronze', 10, '{"type": "count", "target": 1}'),
-('journal_30', 'Dedicated Writer', 'Write 30 journal entries', 'journal', '✍️', 'silver', 50, '{"type": "count", "target": 30}'),
-('first_achievement', 'Achievement Hunter', 'Unlock your first achievement', 'achievements', '🏆', 'bronze', 15, '{"type": "count", "target": 1}'),
-('achievement_hunter_10', 'Achievement Seeker', 'Unlock 10 achievements', 'achievements', '🎖️', 'silver', 75, '{"type": "count", "target": 10}'),
-('achievement_hunter_50', 'Master Collector', 'Unlock 50 achievements', 'achievements', '💎', 'platinum', 300, '{"type": "count", "target": 50}'),
+('first_journal', 'Journal Journey', 'Write your first journal entry', 'journal', '📝', 'bronze', 10, '{"type": "count", "source": "journal", "target": 1}'),
+('journal_30', 'Dedicated Writer', 'Write 30 journal entries', 'journal', '✍️', 'silver', 50, '{"type": "count", "source": "journal", "target": 30}'),
+('first_achievement', 'Achievement Hunter', 'Unlock your first achievement', 'achievements', '🏆', 'bronze', 15, '{"type": "achievements", "target": 1}'),
+('achievement_hunter_10', 'Achievement Seeker', 'Unlock 10 achievements', 'achievements', '🎖️', 'silver', 75, '{"type": "achievements", "target": 10}'),
+('achievement_hunter_50', 'Master Collector', 'Unlock 50 achievements', 'achievements', '💎', 'platinum', 300, '{"type": "achievements", "target": 50}'),
 ('points_100', 'Point Collector', 'Earn 100 points', 'points', '⭐', 'bronze', 0, '{"type": "lifetime_points", "target": 100}'),
 ('points_1000', 'Point Master', 'Earn 1,000 points', 'points', '🌠', 'silver', 0, '{"type": "lifetime_points", "target": 1000}'),
 ('points_10000', 'Point Legend', 'Earn 10,000 points', 'points', '🏅', 'gold', 0, '{"type": "lifetime_points", "target": 10000}'),
@@ -680,8 +2164,8 @@ INSERT INTO achievement_definitions (achievement_id, name, description, category
 ('all_streaks_7', 'Multitasker', 'Maintain 7-day streaks in all categories', 'streaks', '🌈', 'platinum', 500, '{"type": "all_streaks", "target": 7}'),
 ('mood_explorer', 'Mood Explorer', 'Log 10 different mood types', 'mood', '🎨', 'silver', 40, '{"type": "unique_moods", "target": 10}'),
 ('wellness_variety', 'Variety Champion', 'Try all 6 wellness activity types', 'wellness', '🌿', 'gold', 100, '{"type": "unique_types", "target": 6}'),
-('early_bird', 'Early Bird', 'Log a mood before 7 AM', 'mood', '🐦', 'bronze', 15, '{"type": "time_based", "target": 1}'),
-('night_owl', 'Night Owl', 'Log a mood after 10 PM', 'mood', '🦉', 'bronze', 15, '{"type": "time_based", "target": 1}'),
+('early_bird', 'Early Bird', 'Log a mood before 7 AM', 'mood', '🐦', 'bronze', 15, '{"type": "count", "source": "mood", "before": "07:00", "target": 1}'),
+('night_owl', 'Night Owl', 'Log a mood after 10 PM', 'mood', '🦉', 'bronze', 15, '{"type": "count", "source": "mood", "after": "22:00", "target": 1}'),
 ('weekend_warrior', 'Weekend Warrior', 'Complete wellness activities on both weekend days', 'wellness', '🎪', 'silver', 40, '{"type": "weekend", "target": 2}'),
 ('perfect_week', 'Perfect Week', 'Complete all daily goals for a week', 'challenges', '💯', 'platinum', 300, '{"type": "perfect_week", "target": 1}'),
 ('year_committed', 'Year of Growth', 'Use MoodMash for 365 days', 'commitment', '🎉', 'platinum', 1000, '{"type": "days_active", "target": 365}'),
@@ -738,29 +2222,199 @@ INSERT INTO challenge_definitions (challenge_id, name, description, category, ic
 -- Functions for Triggering Achievements
 -- ============================================================================
 
-CREATE OR REPLACE FUNCTION check_achievement_progress()
-RETURNS TRIGGER AS $$
+-- Achievement criteria. Each definition's criteria is one condition, met
+-- when the measured value reaches "target" (default 1):
+--   {"type": "count", "source": "mood" | "wellness" | "journal"}  entries logged
+--   {"type": "streak", "source": ...}   most consecutive days with an entry
+--   {"type": "unique_moods"}            different emotions logged
+--   {"type": "unique_types"}            different wellness session types
+--   {"type": "total_duration"}          wellness minutes, up to 60 a session
+--   {"type": "lifetime_points"}, {"type": "level"}, {"type": "achievements"}
+-- Entry-based conditions take optional filters:
+--   "session_type": "meditation"        wellness sessions of one type
+--   "after": "22:00", "before": "07:00" time of day in the user's timezone
+--                                       (a window may wrap past midnight)
+-- Entries are dated by recorded_at, when the server received them.
+-- A type the evaluator does not know is never met, so a definition can ship
+-- before the rule that measures it.
+
+-- The entries a condition looks at, with their local day and time
+CREATE OR REPLACE FUNCTION achievement_activity(uid UUID, criteria JSONB)
+RETURNS TABLE (happened_at TIMESTAMPTZ, local_day DATE, detail TEXT, minutes INTEGER) AS $$
+#variable_conflict use_column
 DECLARE
-    user_uuid UUID;
-    achievement_record RECORD;
-    current_count INTEGER;
-    should_unlock BOOLEAN := FALSE;
+    tz TEXT;
+    source TEXT := COALESCE(criteria ->> 'source', CASE WHEN criteria ->> 'type' = 'unique_moods' THEN 'mood' ELSE 'wellness' END);
+    session_type TEXT := criteria ->> 'session_type';
+    after_time TIME := (criteria ->> 'after')::TIME;
+    before_time TIME := (criteria ->> 'before')::TIME;
 BEGIN
-    -- Determine user ID based on the operation
-    IF TG_OP = 'INSERT' THEN
-        user_uuid := NEW.user_id;
-    ELSIF TG_OP = 'UPDATE' THEN
-        user_uuid := NEW.user_id;
+    SELECT p.timezone INTO tz FROM user_profiles p WHERE p.user_id = uid;
+    IF tz IS NULL OR NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = tz) THEN
+        tz := 'UTC';
+    END IF;
+
+    RETURN QUERY
+    -- Server receipt times, and at most an hour a session as earn_points pays
+    WITH entries AS (
+        SELECT m.recorded_at AS happened_at, m.mood_id AS detail, 0 AS minutes
+        FROM mood_entries m WHERE source = 'mood' AND m.user_id = uid
+        UNION ALL
+        SELECT w.recorded_at, w.type, LEAST(GREATEST(COALESCE(w.duration_minutes, 0), 0), 60)
+        FROM wellness_sessions w
+        WHERE source = 'wellness' AND w.user_id = uid AND (session_type IS NULL OR w.type = session_type)
+        UNION ALL
+        SELECT j.recorded_at, j.mood_id, 0
+        FROM journal_entries j WHERE source = 'journal' AND j.user_id = uid
+    ),
+    localized AS (
+        SELECT e.*, (e.happened_at AT TIME ZONE tz) AS local_at FROM entries e
+    )
+    SELECT l.happened_at, l.local_at::DATE, l.detail, l.minutes
+    FROM localized l
+    WHERE CASE
+        WHEN after_time > before_time THEN l.local_at::TIME >= after_time OR l.local_at::TIME < before_time
+        ELSE (after_time IS NULL OR l.local_at::TIME >= after_time)
+         AND (before_time IS NULL OR l.local_at::TIME < before_time)
+    END;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- The value a condition measures for a user; NULL for unknown types
+CREATE OR REPLACE FUNCTION achievement_metric(uid UUID, criteria JSONB)
+RETURNS INTEGER AS $$
+BEGIN
+    -- count and streak must say what they count
+    IF criteria ->> 'type' IN ('count', 'streak')
+       AND COALESCE(criteria ->> 'source', '') NOT IN ('mood', 'wellness', 'journal') THEN
+        RETURN NULL;
+    END IF;
+
+    CASE criteria ->> 'type'
+    WHEN 'count' THEN
+        RETURN (SELECT COUNT(*) FROM achievement_activity(uid, criteria));
+    WHEN 'unique_moods', 'unique_types' THEN
+        RETURN (SELECT COUNT(DISTINCT a.detail) FROM achievement_activity(uid, criteria) a);
+    WHEN 'total_duration' THEN
+        RETURN (SELECT COALESCE(SUM(a.minutes), 0) FROM achievement_activity(uid, criteria) a);
+    WHEN 'streak' THEN
+        -- Consecutive days share day - row_number; the longest group wins
+        RETURN (
+            SELECT COALESCE(MAX(run_length), 0) FROM (
+                SELECT COUNT(*) AS run_length
+                FROM (
+                    SELECT d.day - (ROW_NUMBER() OVER (ORDER BY d.day))::INTEGER AS run_start
+                    FROM (SELECT DISTINCT a.local_day AS day FROM achievement_activity(uid, criteria) a) d
+                ) numbered
+                GROUP BY run_start
+            ) runs
+        );
+    WHEN 'lifetime_points' THEN
+        RETURN COALESCE((SELECT up.lifetime_points FROM user_points up WHERE up.user_id = uid), 0);
+    WHEN 'level' THEN
+        RETURN COALESCE((SELECT up.level FROM user_points up WHERE up.user_id = uid), 1);
+    WHEN 'achievements' THEN
+        RETURN (SELECT COUNT(*) FROM achievements a WHERE a.user_id = uid AND a.is_completed);
     ELSE
-        user_uuid := OLD.user_id;
+        RETURN NULL;
+    END CASE;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Record progress on every active achievement the user has not completed,
+-- unlock those whose condition is met and pay each reward exactly once.
+-- Returns the newly unlocked achievement ids.
+CREATE OR REPLACE FUNCTION evaluate_achievements(uid UUID)
+RETURNS SETOF TEXT AS $$
+DECLARE
+    def RECORD;
+    measured INTEGER;
+    goal INTEGER;
+    unlocked_any BOOLEAN := TRUE;
+BEGIN
+    IF auth.uid() IS NOT NULL AND auth.uid() <> uid THEN
+        RAISE EXCEPTION 'Not allowed';
     END IF;
 
-    -- Check each achievement type
-    -- This is a simplified version; full implementation would check all achievements
+    -- One evaluation per user at a time, so parallel inserts cannot both pay
+    PERFORM pg_advisory_xact_lock(hashtext('achievements:' || uid::TEXT));
+
+    -- An unlock can satisfy achievement- and points-based conditions, so
+    -- repeat until a pass unlocks nothing
+    WHILE unlocked_any LOOP
+        unlocked_any := FALSE;
+
+        FOR def IN
+            SELECT d.* FROM achievement_definitions d
+            WHERE d.is_active AND NOT EXISTS (
+                SELECT 1 FROM achievements a
+                WHERE a.user_id = uid AND a.achievement_id = d.achievement_id AND a.is_completed
+            )
+        LOOP
+            measured := achievement_metric(uid, def.criteria);
+            CONTINUE WHEN measured IS NULL;
+            goal := GREATEST(COALESCE((def.criteria ->> 'target')::INTEGER, 1), 1);
+
+            INSERT INTO achievements (user_id, achievement_id, progress, is_completed, completed_at, unlocked_at)
+            VALUES (
+                uid, def.achievement_id, LEAST(measured, goal), measured >= goal,
+                CASE WHEN measured >= goal THEN NOW() END,
+                CASE WHEN measured >= goal THEN NOW() END
+            )
+            ON CONFLICT (user_id, achievement_id) DO UPDATE
+            SET progress = EXCLUDED.progress,
+                is_completed = EXCLUDED.is_completed,
+                completed_at = EXCLUDED.completed_at,
+                unlocked_at = EXCLUDED.unlocked_at
+            WHERE achievements.progress IS DISTINCT FROM EXCLUDED.progress OR EXCLUDED.is_completed;
+
+            IF measured >= goal THEN
+                IF def.points_reward > 0 AND NOT EXISTS (
+                    SELECT 1 FROM points_transactions t
+                    WHERE t.user_id = uid AND t.source_type = 'achievement' AND t.source_id = def.achievement_id
+                ) THEN
+                    PERFORM award_points(uid, def.points_reward, 'bonus', 'achievement', def.achievement_id,
+                                         'Unlocked achievement: ' || def.name);
+                END IF;
+                unlocked_any := TRUE;
+                RETURN NEXT def.achievement_id;
+            END IF;
+        END LOOP;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Not callable by clients, signed in or not: the functions and triggers
+-- above run it for the user whose rows changed
+REVOKE EXECUTE ON FUNCTION evaluate_achievements(UUID) FROM PUBLIC, anon, authenticated;
 
-    RETURN NEW;
+-- Statement-level, so a bulk import evaluates each user once
+CREATE OR REPLACE FUNCTION check_achievement_progress()
+RETURNS TRIGGER AS $$
+DECLARE
+    uid UUID;
+BEGIN
+    FOR uid IN SELECT DISTINCT user_id FROM inserted_rows LOOP
+        PERFORM evaluate_achievements(uid);
+    END LOOP;
+    RETURN NULL;
 END;
-$$ LANGUAGE plpgsql;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER evaluate_achievements_on_mood_entries
+    AFTER INSERT ON mood_entries
+    REFERENCING NEW TABLE AS inserted_rows
+    FOR EACH STATEMENT EXECUTE FUNCTION check_achievement_progress();
+
+CREATE TRIGGER evaluate_achievements_on_wellness_sessions
+    AFTER INSERT ON wellness_sessions
+    REFERENCING NEW TABLE AS inserted_rows
+    FOR EACH STATEMENT EXECUTE FUNCTION check_achievement_progress();
+
+CREATE TRIGGER evaluate_achievements_on_journal_entries
+    AFTER INSERT ON journal_entries
+    REFERENCING NEW TABLE AS inserted_rows
+    FOR EACH STATEMENT EXECUTE FUNCTION check_achievement_progress();
 
 -- ============================================================================
 -- End of Schema
@@ -0,0 +1,113 @@
+// ============================================================================
+// Shared Helpers for the Passkey Edge Functions
+// Challenges (passkey_challenges) and credentials (user_passkeys) are only
+// written here, with the service role. The ceremony checks are the app's own
+// src/lib/webauthn, which needs nothing beyond crypto.subtle.
+// ============================================================================
+
+import { createClient } from '@supabase/supabase-js';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { bytesToBase64Url, randomBytes } from '../../../src/lib/crypto.ts';
+
+export type ChallengePurpose = 'registration' | 'sign_in';
+
+const CHALLENGE_BYTES = 32;
+// Matches CEREMONY_TIMEOUT_MS in src/services/passkeys.ts
+const CEREMONY_TIMEOUT_MS = 5 * 60 * 1000;
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+export function json(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} is not set`);
+  }
+  return value;
+}
+
+export function serviceClient(): SupabaseClient {
+  return createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_SERVICE_ROLE_KEY'), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+/**
+ * The caller as seen by RLS: their own token over the anon key
+ */
+export function callerClient(request: Request): SupabaseClient {
+  return createClient(requireEnv('SUPABASE_URL'), requireEnv('SUPABASE_ANON_KEY'), {
+    global: { headers: { Authorization: request.headers.get('Authorization') ?? '' } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+export async function getCaller(client: SupabaseClient): Promise<User | null> {
+  const { data, error } = await client.auth.getUser();
+  return error ? null : data.user;
+}
+
+/**
+ * PASSKEY_RP_ID is the site's registrable domain (e.g. moodmash.app) and
+ * PASSKEY_ORIGINS a comma-separated list of the origins it is served from.
+ */
+export function relyingParty(): { rpId: string; origins: string[] } {
+  const origins = requireEnv('PASSKEY_ORIGINS')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+
+  return { rpId: requireEnv('PASSKEY_RP_ID'), origins };
+}
+
+export async function issueChallenge(
+  client: SupabaseClient,
+  purpose: ChallengePurpose,
+  userId: string | null
+): Promise<string> {
+  const challenge = bytesToBase64Url(randomBytes(CHALLENGE_BYTES));
+
+  const { error } = await client.from('passkey_challenges').insert({
+    challenge,
+    purpose,
+    user_id: userId,
+    expires_at: new Date(Date.now() + CEREMONY_TIMEOUT_MS).toISOString(),
+  });
+
+  if (error) throw error;
+
+  // Expired challenges nobody answered
+  await client.from('passkey_challenges').delete().lt('expires_at', new Date().toISOString());
+
+  return challenge;
+}
+
+/**
+ * Single use: the challenge is deleted whether or not the response that
+ * carries it verifies. False when it was never issued for this purpose and
+ * user, or has expired.
+ */
+export async function consumeChallenge(
+  client: SupabaseClient,
+  challenge: string,
+  purpose: ChallengePurpose,
+  userId: string | null
+): Promise<boolean> {
+  let query = client.from('passkey_challenges').delete().eq('challenge', challenge).eq('purpose', purpose);
+  query = userId ? query.eq('user_id', userId) : query.is('user_id', null);
+
+  const { data, error } = await query.select('expires_at').maybeSingle();
+
+  if (error) throw error;
+
+  return !!data && new Date(data.expires_at).getTime() > Date.now();
+}
@@ -0,0 +1,109 @@
+// ============================================================================
+// passkey-register Edge Function
+// For the signed-in caller: { step: 'challenge' } issues a registration
+// challenge and { step: 'verify', challenge, response, nickname } checks the
+// attestation and stores the credential (PasskeyService.register).
+// ============================================================================
+
+import { WebAuthnError, describeAuthenticator, verifyRegistration } from '../../../src/lib/webauthn.ts';
+import type { RegistrationCredentialJSON } from '../../../src/lib/webauthn.ts';
+import {
+  callerClient,
+  consumeChallenge,
+  corsHeaders,
+  getCaller,
+  issueChallenge,
+  json,
+  relyingParty,
+  serviceClient,
+} from '../_shared/passkeys.ts';
+
+interface RegisterRequest {
+  step?: 'challenge' | 'verify';
+  challenge?: string;
+  response?: RegistrationCredentialJSON;
+  nickname?: string;
+}
+
+// Matches MAX_NICKNAME_LENGTH in src/services/passkeys.ts
+const MAX_NICKNAME_LENGTH = 64;
+
+const PASSKEY_COLUMNS =
+  'id, user_id, credential_id, public_key, algorithm, sign_count, transports, nickname, aaguid, backed_up, created_at, last_used_at';
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const caller = callerClient(request);
+    const user = await getCaller(caller);
+    if (!user) {
+      return json({ error: 'Not authenticated' }, 401);
+    }
+
+    // A password alone must not be enough to add a way in
+    const { data: satisfied, error: twoFactorError } = await caller.rpc('two_factor_satisfied');
+    if (twoFactorError) throw twoFactorError;
+    if (satisfied !== true) {
+      return json({ error: 'Two-factor verification required' }, 403);
+    }
+
+    const client = serviceClient();
+    const body: RegisterRequest = await request.json();
+
+    if (body.step === 'challenge') {
+      return json({ challenge: await issueChallenge(client, 'registration', user.id) });
+    }
+    if (body.step !== 'verify' || typeof body.challenge !== 'string' || !body.response) {
+      return json({ error: 'Invalid request' }, 400);
+    }
+
+    if (!(await consumeChallenge(client, body.challenge, 'registration', user.id))) {
+      return json({ error: 'The passkey challenge expired' }, 400);
+    }
+
+    const { rpId, origins } = relyingParty();
+    const verified = await verifyRegistration({
+      response: body.response,
+      expectedChallenge: body.challenge,
+      expectedOrigin: origins,
+      expectedRpId: rpId,
+      requireUserVerification: true,
+    });
+
+    const nickname =
+      body.nickname?.trim().slice(0, MAX_NICKNAME_LENGTH) || describeAuthenticator(verified.transports, verified.backedUp);
+
+    const { data: passkey, error } = await client
+      .from('user_passkeys')
+      .insert({
+        user_id: user.id,
+        credential_id: verified.credentialId,
+        public_key: verified.publicKey,
+        algorithm: verified.algorithm,
+        sign_count: verified.signCount,
+        transports: verified.transports,
+        nickname,
+        aaguid: verified.aaguid,
+        backed_up: verified.backedUp,
+      })
+      .select(PASSKEY_COLUMNS)
+      .single();
+
+    // credential_id is unique across all users
+    if (error?.code === '23505') {
+      return json({ error: 'This passkey is already registered' }, 409);
+    }
+    if (error) throw error;
+
+    return json({ passkey });
+  } catch (error) {
+    if (error instanceof WebAuthnError) {
+      return json({ error: error.message, code: error.code }, 400);
+    }
+    console.error('[passkey-register]', error);
+    return json({ error: 'Passkey registration failed' }, 500);
+  }
+});
@@ -0,0 +1,106 @@
+// ============================================================================
+// passkey-sign-in Edge Function
+// { step: 'challenge' } issues a sign-in challenge. { step: 'verify',
+// challenge, assertion } checks the assertion against user_passkeys, moves
+// the signature counter and answers with a one-time magic link token hash
+// that the browser exchanges for a session (authService.signInWithPasskey).
+// ============================================================================
+
+import { WebAuthnError, verifyAuthentication } from '../../../src/lib/webauthn.ts';
+import type { AuthenticationCredentialJSON } from '../../../src/lib/webauthn.ts';
+import { base64UrlToBytes } from '../../../src/lib/crypto.ts';
+import { consumeChallenge, corsHeaders, issueChallenge, json, relyingParty, serviceClient } from '../_shared/passkeys.ts';
+
+interface SignInRequest {
+  step?: 'challenge' | 'verify';
+  challenge?: string;
+  assertion?: AuthenticationCredentialJSON;
+}
+
+const rejected = () => json({ error: 'Passkey could not be verified' }, 401);
+
+Deno.serve(async (request) => {
+  if (request.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const client = serviceClient();
+    const body: SignInRequest = await request.json();
+
+    if (body.step === 'challenge') {
+      return json({ challenge: await issueChallenge(client, 'sign_in', null) });
+    }
+    if (body.step !== 'verify' || typeof body.challenge !== 'string' || typeof body.assertion?.id !== 'string') {
+      return json({ error: 'Invalid request' }, 400);
+    }
+
+    if (!(await consumeChallenge(client, body.challenge, 'sign_in', null))) {
+      return rejected();
+    }
+
+    const { data: passkey, error } = await client
+      .from('user_passkeys')
+      .select('id, user_id, credential_id, public_key, sign_count')
+      .eq('credential_id', body.assertion.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!passkey) return rejected();
+
+    // Registration sets the user handle to the account id
+    const userHandle = body.assertion.response?.userHandle;
+    if (userHandle && new TextDecoder().decode(base64UrlToBytes(userHandle)) !== passkey.user_id) {
+      return rejected();
+    }
+
+    const { rpId, origins } = relyingParty();
+    const verified = await verifyAuthentication({
+      response: body.assertion,
+      expectedChallenge: body.challenge,
+      expectedOrigin: origins,
+      expectedRpId: rpId,
+      // A passkey stands in for the password, so a touch alone is not enough
+      requireUserVerification: true,
+      credential: {
+        credentialId: passkey.credential_id,
+        publicKey: passkey.public_key,
+        signCount: Number(passkey.sign_count),
+      },
+    });
+
+    // Only moves from the count just checked, so of two racing assertions
+    // with the same counter only one signs in
+    const { data: moved, error: updateError } = await client
+      .from('user_passkeys')
+      .update({
+        sign_count: verified.newSignCount,
+        backed_up: verified.backedUp,
+        last_used_at: new Date().toISOString(),
+      })
+      .eq('id', passkey.id)
+      .eq('sign_count', passkey.sign_count)
+      .select('id');
+
+    if (updateError) throw updateError;
+    if (!moved?.length) return rejected();
+
+    const { data: account, error: userError } = await client.auth.admin.getUserById(passkey.user_id);
+    if (userError) throw userError;
+    if (!account.user.email) return rejected();
+
+    const { data: link, error: linkError } = await client.auth.admin.generateLink({
+      type: 'magiclink',
+      email: account.user.email,
+    });
+    if (linkError) throw linkError;
+
+    return json({ token_hash: link.properties.hashed_token });
+  } catch (error) {
+    if (error instanceof WebAuthnError) {
+      return rejected();
+    }
+    console.error('[passkey-sign-in]', error);
+    return json({ error: 'Passkey sign-in failed' }, 500);
+  }
+});